@@ -0,0 +1,352 @@
+/**
+ * Phase 49 – Promotion revert and rollback
+ *
+ * Undo governed promotions using the promotion ledger (migration 025):
+ *
+ *   revert   – one promote entry; its entity must still be the promoted row
+ *   rollback – a promote entry and every active promotion after it,
+ *              newest first (restores the registry as it was before it)
+ *
+ * Each reverted entry restores its entityBefore (or deletes the promoted row
+ * when there was none). Like a forward promotion, the change is replay-gated:
+ * recent stored checks run through checkRisk with the current and the
+ * reverted promoted entities (Phase 47 KnowledgeContext) and the report goes
+ * through evaluateGate in strict mode. A revert usually lowers risk, which
+ * the legacy gate would let through; strict mode fails on every risk level
+ * change whose check id the operator has not acknowledged. dryRun returns
+ * the same report without writing.
+ */
+
+import { randomUUID } from "crypto";
+import { getSupabaseClient } from "../supabaseClient.js";
+import { checkRisk } from "../inference/checkRisk.js";
+import { ALLERGEN_TAXONOMY_VERSION } from "../inference/allergenTaxonomy.js";
+import { enrichWithResolution } from "../knowledge/enrichWithResolution.js";
+import { withKnowledgeContext } from "../knowledge/knowledgeContext.js";
+import { setPromotedRegistryEntities } from "../knowledge/entityResolver.js";
+import { buildKnowledgeSnapshot, canonicalJson } from "../knowledge/knowledgeSnapshot.js";
+import {
+  deletePromotedRow,
+  fetchPromotedEntitiesFromDb,
+  findPromotedEntity,
+  recordLedgerSnapshots,
+  removeFromPromotedList,
+  replaceInPromotedList,
+  upsertPromotedRow,
+} from "../knowledge/promotedRegistryDb.js";
+import {
+  compareLedgerEntries,
+  getLedgerEntry,
+  listPromotionLedger,
+  markLedgerEntryReverted,
+  recordLedgerBatch,
+  type PromotionLedgerEntry,
+} from "../knowledge/promotionLedger.js";
+import type { CanonicalEntity } from "../knowledge/types.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import { loadReplayEvents } from "../retro/retroCheck.js";
+import {
+  buildReplayReport,
+  computeReplayDiff,
+  evaluateGate,
+  legacyAllowlist,
+  normalizeVerdict,
+  type ReplayReport,
+} from "../eval/replayDiff.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** Most recent stored checks replayed by the gate. */
+export const MAX_REVERT_REPLAY_CHECKS = 200;
+
+/** Why a revert or rollback cannot run. */
+export type PromotionRevertBlock =
+  /** The entry is a revert, not a promotion */
+  | "not_a_promotion"
+  /** (revert) The entry was already reverted */
+  | "already_reverted"
+  /** The promoted row no longer holds the entry's entity (changed later) */
+  | "superseded"
+  /** (rollback) No active promotion from the entry on */
+  | "nothing_to_revert";
+
+export interface RevertReplayChange {
+  checkId: string;
+  profileId: string;
+  riskLevelFrom: string;
+  riskLevelTo: string;
+  addedMatches: string[];
+  removedMatches: string[];
+}
+
+export interface PromotionRevertResult {
+  mode: "revert" | "rollback";
+  /** True when the promoted registry was changed */
+  applied: boolean;
+  /** Promote entries undone (or to undo), newest first */
+  targets: PromotionLedgerEntry[];
+  /** Revert entries written; empty unless applied */
+  entries: PromotionLedgerEntry[];
+  replay: {
+    checksReplayed: number;
+    summary: ReplayReport["summary"];
+    /** Checks whose verdict changes */
+    changed: RevertReplayChange[];
+  };
+  gate: { passed: boolean; failures: string[] };
+  snapshotBefore: string | null;
+  snapshotAfter: string | null;
+  blocked?: PromotionRevertBlock;
+  /** Entry that caused the block */
+  blockedEntryId?: string;
+}
+
+export interface PromotionRevertOptions {
+  /** Check ids whose risk change is accepted */
+  acknowledge?: string[];
+  /** Run the gate without writing */
+  dryRun?: boolean;
+}
+
+// ── Replay gate ──────────────────────────────────────────────────────
+
+/**
+ * Replay recent stored checks with the current and the candidate promoted
+ * entities; gate strict with `acknowledge` as the allowlist.
+ */
+export async function replayPromotedChange(
+  current: CanonicalEntity[],
+  candidate: CanonicalEntity[],
+  acknowledge: string[] = []
+): Promise<Pick<PromotionRevertResult, "replay" | "gate">> {
+  const supabase = getSupabaseClient();
+
+  const { data: checks, error: checksError } = await supabase
+    .from("checks")
+    .select("id, profile_id")
+    .order("created_at", { ascending: false })
+    .limit(MAX_REVERT_REPLAY_CHECKS);
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+  const rows = (checks ?? []) as { id: string; profile_id: string }[];
+
+  const profileIds = [...new Set(rows.map((c) => c.profile_id))];
+  const profiles = new Map<string, ReturnType<typeof toRiskProfile>>();
+  if (profileIds.length > 0) {
+    const { data: profileRows, error: profileError } = await supabase
+      .from("profiles")
+      .select("id, known_allergies, current_medications, escalate_precautionary")
+      .in("id", profileIds);
+
+    if (profileError) {
+      throw new Error(`Profile lookup failed: ${profileError.message}`);
+    }
+    for (const p of profileRows ?? []) profiles.set(p.id, toRiskProfile(p));
+  }
+
+  const eventsByCheck = await loadReplayEvents(rows.map((c) => c.id));
+  const diffs: ReturnType<typeof computeReplayDiff>[] = [];
+  const changed: RevertReplayChange[] = [];
+
+  for (const check of rows) {
+    const riskProfile = profiles.get(check.profile_id) ?? toRiskProfile({});
+    const events = eventsByCheck.get(check.id) ?? [];
+    const run = (promotedEntities: CanonicalEntity[]) =>
+      withKnowledgeContext({ promotedEntities }, () =>
+        checkRisk({ profile: riskProfile, events: enrichWithResolution(events) })
+      );
+
+    const diff = computeReplayDiff(
+      check.id,
+      normalizeVerdict(run(current), ALLERGEN_TAXONOMY_VERSION),
+      normalizeVerdict(run(candidate), ALLERGEN_TAXONOMY_VERSION)
+    );
+    diffs.push(diff);
+
+    if (
+      diff.changes.riskLevelChanged ||
+      diff.changes.addedMatches.length > 0 ||
+      diff.changes.removedMatches.length > 0
+    ) {
+      changed.push({
+        checkId: check.id,
+        profileId: check.profile_id,
+        riskLevelFrom: diff.baselineVerdict.riskLevel,
+        riskLevelTo: diff.candidateVerdict.riskLevel,
+        addedMatches: diff.changes.addedMatches,
+        removedMatches: diff.changes.removedMatches,
+      });
+    }
+  }
+
+  const report = buildReplayReport(diffs, {
+    baselineTaxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+    candidateTaxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+  });
+  const gate = evaluateGate(report, legacyAllowlist(new Set(acknowledge)), true);
+
+  return { replay: { checksReplayed: rows.length, summary: report.summary, changed }, gate };
+}
+
+// ── Revert / rollback ────────────────────────────────────────────────
+
+function sameEntity(a: CanonicalEntity | null, b: CanonicalEntity | null): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+function emptyResult(
+  mode: PromotionRevertResult["mode"],
+  blocked: PromotionRevertBlock,
+  entry: PromotionLedgerEntry
+): PromotionRevertResult {
+  return {
+    mode,
+    applied: false,
+    targets: [],
+    entries: [],
+    replay: {
+      checksReplayed: 0,
+      summary: {
+        totalScenarios: 0,
+        riskLevelChangesUp: 0,
+        riskLevelChangesDown: 0,
+        totalAddedMatches: 0,
+        totalRemovedMatches: 0,
+      },
+      changed: [],
+    },
+    gate: { passed: false, failures: [] },
+    snapshotBefore: null,
+    snapshotAfter: null,
+    blocked,
+    blockedEntryId: entry.id,
+  };
+}
+
+async function revertEntries(
+  mode: PromotionRevertResult["mode"],
+  targets: PromotionLedgerEntry[],
+  opts: PromotionRevertOptions
+): Promise<PromotionRevertResult> {
+  const current = await fetchPromotedEntitiesFromDb();
+
+  // Undo newest first; each entry must still hold the row it wrote. A row
+  // still holding entityBefore was never written (or already restored by a
+  // revert that failed before its ledger write): nothing to undo.
+  let next = current;
+  for (const t of targets) {
+    const row = findPromotedEntity(next, t.registryType, t.canonicalId);
+    if (sameEntity(row, t.entityBefore)) continue;
+    if (!sameEntity(row, t.entityAfter)) {
+      return { ...emptyResult(mode, "superseded", t), targets };
+    }
+    next = t.entityBefore
+      ? replaceInPromotedList(next, t.registryType, t.entityBefore)
+      : removeFromPromotedList(next, t.registryType, t.canonicalId);
+  }
+
+  const acknowledged = opts.acknowledge ?? [];
+  const { replay, gate } = await replayPromotedChange(current, next, acknowledged);
+  const snapshotBefore = buildKnowledgeSnapshot(current);
+  const snapshotAfter = buildKnowledgeSnapshot(next);
+  const result: PromotionRevertResult = {
+    mode,
+    applied: false,
+    targets,
+    entries: [],
+    replay,
+    gate,
+    snapshotBefore: snapshotBefore.hash,
+    snapshotAfter: snapshotAfter.hash,
+  };
+  if (opts.dryRun || !gate.passed) return result;
+
+  await recordLedgerSnapshots(snapshotBefore, snapshotAfter);
+
+  // Rows before the ledger: a failed write leaves no revert entry, and the
+  // rows already restored count as undone on retry. Writes are idempotent.
+  for (const t of targets) {
+    if (t.entityBefore) {
+      await upsertPromotedRow({
+        registry_type: t.registryType,
+        canonical_id: t.canonicalId,
+        entity: t.entityBefore,
+        source_proposal_id: t.sourceBefore,
+      });
+    } else {
+      await deletePromotedRow(t.registryType, t.canonicalId);
+    }
+  }
+
+  const entries = await recordLedgerBatch(
+    randomUUID(),
+    targets.map((t) => ({
+      action: "revert",
+      registryType: t.registryType,
+      canonicalId: t.canonicalId,
+      entityBefore: t.entityAfter,
+      entityAfter: t.entityBefore,
+      sourceBefore: t.sourceAfter,
+      sourceAfter: t.sourceBefore,
+      revertsId: t.id,
+      snapshotBefore: snapshotBefore.hash,
+      snapshotAfter: snapshotAfter.hash,
+      replay: {
+        checksReplayed: replay.checksReplayed,
+        riskLevelChangesUp: replay.summary.riskLevelChangesUp,
+        riskLevelChangesDown: replay.summary.riskLevelChangesDown,
+        acknowledged,
+      },
+    }))
+  );
+  for (const [i, t] of targets.entries()) {
+    await markLedgerEntryReverted(t.id, entries[i].id);
+  }
+
+  setPromotedRegistryEntities(next);
+  return {
+    ...result,
+    applied: true,
+    targets: targets.map((t, i) => ({ ...t, revertedBy: entries[i].id })),
+    entries,
+  };
+}
+
+/**
+ * Revert one promotion. Returns null when the ledger entry does not exist.
+ * Not applied when blocked, when the gate fails, or on dryRun.
+ */
+export async function revertPromotion(
+  entryId: string,
+  opts: PromotionRevertOptions = {}
+): Promise<PromotionRevertResult | null> {
+  const entry = await getLedgerEntry(entryId);
+  if (!entry) return null;
+  if (entry.action !== "promote") return emptyResult("revert", "not_a_promotion", entry);
+  if (entry.revertedBy) return emptyResult("revert", "already_reverted", entry);
+
+  return revertEntries("revert", [entry], opts);
+}
+
+/**
+ * Roll back to before a promotion: revert it and every later active
+ * promotion. Returns null when the ledger entry does not exist.
+ */
+export async function rollbackPromotions(
+  entryId: string,
+  opts: PromotionRevertOptions = {}
+): Promise<PromotionRevertResult | null> {
+  const entry = await getLedgerEntry(entryId);
+  if (!entry) return null;
+  if (entry.action !== "promote") return emptyResult("rollback", "not_a_promotion", entry);
+
+  const ledger = await listPromotionLedger();
+  const targets = ledger
+    .filter((e) => e.action === "promote" && !e.revertedBy && compareLedgerEntries(e, entry) <= 0)
+    .sort(compareLedgerEntries);
+  if (targets.length === 0) return emptyResult("rollback", "nothing_to_revert", entry);
+
+  return revertEntries("rollback", targets, opts);
+}
@@ -4,12 +4,15 @@
  * Pure data layer for actionable guidance alongside risk detection.
  * Term advice overrides parent advice. No LLM, no DB, no schema changes.
  * Does NOT affect inference, vigilance score, or replay gate.
+ *
+ * Phase 28 – Rule-level advice ("rule:<rule>") for outcomes that need their
+ * own guidance regardless of allergen, e.g. precautionary "may contain" labels.
  */
 
 // ── Version ──────────────────────────────────────────────────────────
 
 /** Micro-version stamp for advice layer. Bump when registry changes. */
-export const ADVICE_REGISTRY_VERSION = "14a.1";
+export const ADVICE_REGISTRY_VERSION = "14a.2";
 
 /** Phase 14.2: Fallback when match exists but no registry advice. Deterministic. */
 export const GENERAL_SAFETY_FALLBACK: AdviceEntry = {
@@ -42,9 +45,9 @@ export const GENERAL_SAFETY_FALLBACK: AdviceEntry = {
 // ── Types ────────────────────────────────────────────────────────────
 
 export type AdviceEntry = {
-  id: string; // stable unique key, e.g. "term:mango" or "parent:tree_nut"
-  level: "term" | "parent";
-  target: string; // "mango" OR "tree_nut"
+  id: string; // stable unique key, e.g. "term:mango", "parent:tree_nut", "rule:precautionary_allergen"
+  level: "term" | "parent" | "rule";
+  target: string; // "mango" OR "tree_nut" OR "precautionary_allergen"
   title: string; // short label
   symptomsToWatch: string[];
   immediateActions: string[];
@@ -256,8 +259,42 @@ export const ADVICE_REGISTRY: Record<string, AdviceEntry> = {
       "This is general guidance, not medical advice. Follow your allergist's plan.",
     ],
   },
+
+  // ── Rule-level advice (Phase 28) ──────────────────────────────────────
+
+  "rule:precautionary_allergen": {
+    id: "rule:precautionary_allergen",
+    level: "rule",
+    target: "precautionary_allergen",
+    title: "\"May Contain\" Label Warning",
+    symptomsToWatch: [
+      "Hives, itching, or swelling",
+      "Tingling in mouth or throat",
+      "Stomach upset or vomiting",
+      "Difficulty breathing or wheezing",
+    ],
+    immediateActions: [
+      "Skip this product if your allergist advised avoiding precautionary-labeled foods",
+      "Stop eating at the first sign of a reaction",
+      "Use epinephrine auto-injector if prescribed",
+    ],
+    education: [
+      "\"May contain\" and \"processed in a facility with\" statements are voluntary cross-contact warnings, not ingredients.",
+      "Trace amounts vary between batches; a product that was fine before may not be next time.",
+      "Highly sensitive children may react to traces. Turn on precautionary escalation in their profile to treat these as high risk.",
+    ],
+    disclaimers: [
+      "If trouble breathing, seek emergency care immediately.",
+      "This is general guidance, not medical advice. Follow your allergist's plan.",
+    ],
+  },
 };
 
+/** Phase 28: Rule-level advice for a matched rule kind, if any. */
+export function resolveAdviceForRule(rule: string): AdviceEntry | undefined {
+  return ADVICE_REGISTRY[`rule:${rule}`];
+}
+
 // ── Resolver (Phase 14.1: term overrides parent) ────────────────────────
 
 function normalize(s: string): string {
@@ -3,6 +3,7 @@
  *
  * Ensures every target in ADVICE_REGISTRY maps to a valid node in allergenTaxonomy.
  * No orphan advice allowed. Deterministic.
+ * Phase 28: rule-level entries must name a rule with a rule code.
  */
 
 import { ADVICE_REGISTRY } from "./adviceRegistry.js";
@@ -11,6 +12,7 @@ import {
   CROSS_REACTIVE_REGISTRY,
   type AllergenParentKey,
 } from "../inference/allergenTaxonomy.js";
+import { ruleCodeFor } from "../inference/ruleCodes.js";
 
 const VALID_PARENT_KEYS = new Set<string>(Object.keys(ALLERGEN_TAXONOMY) as AllergenParentKey[]);
 
@@ -36,6 +38,10 @@ export function validateNoOrphanAdvice(): string[] {
     const target = entry.target.toLowerCase().trim();
 
     if (ALLOWED_SPECIAL.has(target)) continue;
+    if (entry.level === "rule") {
+      if (ruleCodeFor(target) === null) orphans.push(entry.target);
+      continue;
+    }
     if (VALID_PARENT_KEYS.has(target)) continue;
     if (ALL_CHILDREN.has(target)) continue;
     if (CROSS_REACTIVE_TERMS.has(target)) continue;
@@ -0,0 +1,225 @@
+/**
+ * Phase 44 – Batch evaluation (menus, receipts, meal plans)
+ *
+ * Takes a list of items, runs each one through the same pipeline as a
+ * single check (extractTextEvents → checkRisk) and returns a ranked
+ * per-item verdict table: highest risk first, then severity, then input
+ * order. Optionally the whole batch is persisted as ONE grouped check —
+ * every item's events under a single check_id, each tagged with
+ * fields.batchItem / fields.batchLine, and the item table in checks.batch.
+ *
+ * parseBatchItems normalizes the input per kind (receipt prices and
+ * quantities, meal-plan day labels, menu descriptions).
+ */
+
+import { checkRisk, type ProfileInput } from "../inference/checkRisk.js";
+import { extractTextEvents } from "../extractTextEvents.js";
+import { buildVerdictSummary, type ReportMatchedEntry } from "../report/buildCheckReport.js";
+import type { AdviceEntry } from "../advice/adviceRegistry.js";
+import { parseMenuText } from "../menu/analyzeMenu.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type BatchKind = "list" | "menu" | "receipt" | "meal_plan";
+
+export const BATCH_KINDS: readonly BatchKind[] = ["list", "menu", "receipt", "meal_plan"];
+
+export type RiskLevel = "none" | "medium" | "high";
+
+export interface BatchItemInput {
+  text: string;
+  /** Meal-plan day / slot, e.g. "Monday" */
+  label?: string;
+}
+
+export interface BatchItemVerdict {
+  /** 1-based position in the input list */
+  index: number;
+  text: string;
+  label?: string;
+  riskLevel: RiskLevel;
+  severity: number;
+  reasoning: string;
+  matched: ReportMatchedEntry[];
+  advice: AdviceEntry[];
+  /** Extracted events, summarized: type + name */
+  events: { type: string; name: string }[];
+}
+
+export interface BatchEvaluation {
+  kind: BatchKind;
+  profileId: string;
+  /** Ranked: risk, then severity, then input order. */
+  items: BatchItemVerdict[];
+  summary: {
+    itemCount: number;
+    highestRisk: RiskLevel;
+    high: number;
+    medium: number;
+    none: number;
+  };
+  /** Present when the batch was persisted as one grouped check. */
+  checkId?: string;
+}
+
+/** An extracted event as returned by extractTextEvents. */
+type ExtractedEvent = { type?: string; fields?: Record<string, unknown>; [key: string]: unknown };
+
+/** checks.batch — the item table stored with a grouped check. */
+export interface CheckBatchSummary {
+  kind: BatchKind;
+  items: { index: number; text: string; label?: string; riskLevel: RiskLevel; severity: number }[];
+}
+
+/** Upper bound on items per request (each runs a full extraction). */
+export const MAX_BATCH_ITEMS = 50;
+
+const RISK_RANK: Record<RiskLevel, number> = { none: 0, medium: 1, high: 2 };
+
+// ── Parsing ──────────────────────────────────────────────────────────
+
+const BULLET = /^(?:[-•*·]+|\d+[.)])\s*/;
+const RECEIPT_PRICE = /\s+-?[$£€]?\d+[.,]\d{2}(?:\s*[A-Z]{1,2})?\s*$/;
+const RECEIPT_QUANTITY = /^\d+\s*(?:x|@)\s*/i;
+const RECEIPT_SKIP = /^(?:sub\s*total|total|tax|change|cash|visa|mastercard|amex|debit|credit|balance|savings|you saved|thank you)\b/i;
+const MEAL_PLAN_LABEL = /^((?:mon|tues?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?|breakfast|lunch|dinner|snack)(?:\s+(?:breakfast|lunch|dinner|snack))?\s*[:\-–—]\s*/i;
+
+function parseLine(line: string, kind: BatchKind): BatchItemInput | null {
+  let text = line.trim().replace(BULLET, "");
+  let label: string | undefined;
+
+  if (kind === "receipt") {
+    if (RECEIPT_SKIP.test(text)) return null;
+    text = text.replace(RECEIPT_PRICE, "").replace(RECEIPT_QUANTITY, "").toLowerCase();
+  } else if (kind === "meal_plan") {
+    const m = MEAL_PLAN_LABEL.exec(text);
+    if (m) {
+      label = m[0].replace(/\s*[:\-–—]\s*$/, "");
+      text = text.slice(m[0].length);
+    }
+  }
+
+  text = text.replace(/\s+/g, " ").trim();
+  if (!/[a-z]/i.test(text)) return null;
+  return { text, ...(label ? { label } : {}) };
+}
+
+/**
+ * Normalize request input into items. `items` (strings or { text, label })
+ * wins over `text` (one item per line). Menus reuse the Phase 43 menu parser;
+ * a dish description is kept so its ingredients are checked.
+ */
+export function parseBatchItems(input: { items?: unknown; text?: unknown }, kind: BatchKind): BatchItemInput[] {
+  if (Array.isArray(input.items)) {
+    return input.items.flatMap((raw): BatchItemInput[] => {
+      if (typeof raw === "string") {
+        const item = parseLine(raw, kind);
+        return item ? [item] : [];
+      }
+      if (typeof raw !== "object" || raw === null) return [];
+      const obj = raw as { text?: unknown; label?: unknown };
+      const text = typeof obj.text === "string" ? obj.text.trim() : "";
+      if (!text) return [];
+      const label = typeof obj.label === "string" && obj.label.trim() ? obj.label.trim() : undefined;
+      return [{ text, ...(label ? { label } : {}) }];
+    });
+  }
+
+  const text = typeof input.text === "string" ? input.text : "";
+  if (kind === "menu") {
+    return parseMenuText(text).map((m) => ({ text: m.description ? `${m.name} with ${m.description}` : m.name }));
+  }
+  return text.split(/\r?\n/).flatMap((line) => {
+    const item = parseLine(line, kind);
+    return item ? [item] : [];
+  });
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────
+
+function eventName(e: ExtractedEvent): string {
+  const f = e.fields ?? {};
+  const name = f.meal ?? f.medication ?? f.supplement ?? f.name ?? f.symptom ?? f.value;
+  return name == null ? "" : String(name);
+}
+
+/** Rank highest risk first, then severity, then input order. */
+export function rankBatchItems(items: BatchItemVerdict[]): BatchItemVerdict[] {
+  return [...items].sort(
+    (a, b) => RISK_RANK[b.riskLevel] - RISK_RANK[a.riskLevel] || b.severity - a.severity || a.index - b.index
+  );
+}
+
+/**
+ * Extract and check every item. Returns the ranked table plus the extracted
+ * events (input order, tagged with batchItem / batchLine) for persistence.
+ */
+export async function evaluateBatch(args: {
+  kind: BatchKind;
+  profileId: string;
+  profile: ProfileInput;
+  items: BatchItemInput[];
+}): Promise<{ evaluation: BatchEvaluation; events: ExtractedEvent[] }> {
+  const { kind, profileId, profile, items } = args;
+  const verdicts: BatchItemVerdict[] = [];
+  const allEvents: ExtractedEvent[] = [];
+
+  for (const [i, item] of items.entries()) {
+    const index = i + 1;
+    const result = await extractTextEvents(item.text);
+    const events = ((result.events ?? []) as ExtractedEvent[]).map((e) => ({
+      ...e,
+      fields: { ...(e.fields ?? {}), batchItem: index, batchLine: item.text },
+    }));
+    allEvents.push(...events);
+
+    const verdict = checkRisk({ profile, events });
+    const { matched, advice } = buildVerdictSummary(verdict);
+    verdicts.push({
+      index,
+      text: item.text,
+      ...(item.label ? { label: item.label } : {}),
+      riskLevel: verdict.riskLevel,
+      severity: verdict.meta?.severity ?? 0,
+      reasoning: verdict.reasoning,
+      matched,
+      advice: advice?.items ?? [],
+      events: events.map((e) => ({ type: String(e.type ?? ""), name: eventName(e) })),
+    });
+  }
+
+  const ranked = rankBatchItems(verdicts);
+  const count = (level: RiskLevel) => verdicts.filter((v) => v.riskLevel === level).length;
+
+  return {
+    evaluation: {
+      kind,
+      profileId,
+      items: ranked,
+      summary: {
+        itemCount: verdicts.length,
+        highestRisk: ranked[0]?.riskLevel ?? "none",
+        high: count("high"),
+        medium: count("medium"),
+        none: count("none"),
+      },
+    },
+    events: allEvents,
+  };
+}
+
+/** The item table stored in checks.batch (input order, no matches or advice). */
+export function toCheckBatchSummary(evaluation: BatchEvaluation): CheckBatchSummary {
+  return {
+    kind: evaluation.kind,
+    items: [...evaluation.items]
+      .sort((a, b) => a.index - b.index)
+      .map(({ index, text, label, riskLevel, severity }) => ({
+        index,
+        text,
+        ...(label ? { label } : {}),
+        riskLevel,
+        severity,
+      })),
+  };
+}
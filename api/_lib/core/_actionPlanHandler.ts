@@ -0,0 +1,87 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getSupabaseClient } from "../supabaseClient.js";
+import { buildActionPlan, type ActionPlanProfileRow } from "../report/buildActionPlan.js";
+import {
+  actionPlanFilename,
+  formatActionPlanAsHtml,
+  formatActionPlanAsText,
+} from "../report/formatActionPlan.js";
+
+/**
+ * Phase 38 – Allergy action plan
+ *
+ * GET /api/report/action-plan?profileId=...[&format=json|text|html][&download=1]
+ *
+ * format=json (default) → ActionPlan JSON
+ * format=text           → plain text, same layout as the check report
+ * format=html           → self-contained print-ready page
+ * download=1            → attachment headers
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const profileId =
+      (typeof req.query.profileId === "string" ? req.query.profileId.trim() : "") ||
+      process.env.DEFAULT_PROFILE_ID ||
+      "";
+    if (!profileId) {
+      return res.status(400).json({ error: "Missing profileId", details: null });
+    }
+
+    const formatParam = typeof req.query.format === "string" ? req.query.format : "json";
+    const format = formatParam === "txt" ? "text" : formatParam;
+    if (format !== "json" && format !== "text" && format !== "html") {
+      return res.status(400).json({
+        error: "Invalid format: expected json, text, or html",
+        details: null,
+      });
+    }
+    const isDownload = req.query.download === "1" || req.query.download === "true";
+
+    const supabase = getSupabaseClient();
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", profileId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Profile query failed: ${error.message}`);
+    }
+    if (!profile) {
+      return res.status(404).json({ error: "Profile not found", details: null });
+    }
+
+    const plan = buildActionPlan(profile as ActionPlanProfileRow);
+
+    if (format === "json") {
+      if (isDownload) {
+        const filename = actionPlanFilename(plan.meta.profileName, plan.meta.generatedAt, "json");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      }
+      return res.status(200).json({ plan });
+    }
+
+    const body = format === "html" ? formatActionPlanAsHtml(plan) : formatActionPlanAsText(plan);
+    res.setHeader(
+      "Content-Type",
+      format === "html" ? "text/html; charset=utf-8" : "text/plain; charset=utf-8"
+    );
+    if (isDownload) {
+      const filename = actionPlanFilename(
+        plan.meta.profileName,
+        plan.meta.generatedAt,
+        format === "html" ? "html" : "txt"
+      );
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    }
+    return res.status(200).send(body);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to build action plan";
+    console.error("[Action Plan]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
@@ -0,0 +1,109 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getSupabaseClient } from "../supabaseClient.js";
+import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import { saveExtractionRun } from "../persistence/saveExtractionRun.js";
+import {
+  BATCH_KINDS,
+  MAX_BATCH_ITEMS,
+  evaluateBatch,
+  parseBatchItems,
+  toCheckBatchSummary,
+  type BatchKind,
+} from "../batch/evaluateBatch.js";
+
+/**
+ * Phase 44 – Batch check
+ *
+ * POST /api/check/batch
+ * Body: { profile_id?, kind?: "list"|"menu"|"receipt"|"meal_plan",
+ *         items?: (string | { text, label? })[], text?: string, persist?: boolean }
+ *
+ * Each item runs through extraction, resolution and checkRisk; the response is
+ * a ranked per-item verdict table. persist=true stores the batch as one grouped
+ * check (best-effort, like /api/extract) and returns its checkId. A batch
+ * lists options, not intake: checks with checks.batch set are skipped by
+ * vigilance, the intake ledger, trajectory and functional stacking.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    const profileId =
+      (typeof body.profile_id === "string" ? body.profile_id.trim() : "") ||
+      process.env.DEFAULT_PROFILE_ID ||
+      "";
+    if (!profileId) {
+      return res.status(400).json({ error: "Missing profile_id", details: null });
+    }
+
+    const kind = (body.kind ?? "list") as BatchKind;
+    if (!BATCH_KINDS.includes(kind)) {
+      return res.status(400).json({
+        error: `Invalid kind: expected ${BATCH_KINDS.join(", ")}`,
+        details: null,
+      });
+    }
+
+    const items = parseBatchItems({ items: body.items, text: body.text }, kind);
+    if (items.length === 0) {
+      return res.status(400).json({ error: "No items to check", details: null });
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      return res.status(400).json({
+        error: `Too many items: maximum is ${MAX_BATCH_ITEMS}`,
+        details: null,
+      });
+    }
+
+    const supabase = getSupabaseClient();
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("id, known_allergies, current_medications, escalate_precautionary")
+      .eq("id", profileId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Profile query failed: ${error.message}`);
+    }
+    if (!profile) {
+      return res.status(404).json({ error: "Profile not found", details: null });
+    }
+
+    await ensurePromotedRegistryLoaded();
+
+    const { evaluation, events } = await evaluateBatch({
+      kind,
+      profileId,
+      profile: toRiskProfile(profile),
+      items,
+    });
+
+    const warnings: string[] = [];
+    if (body.persist === true) {
+      try {
+        const { checkId } = await saveExtractionRun({
+          profileId,
+          rawText: items.map((i) => (i.label ? `${i.label}: ${i.text}` : i.text)).join("\n"),
+          result: { events, followUpQuestions: [], warnings: [] },
+          batch: toCheckBatchSummary(evaluation),
+        });
+        evaluation.checkId = checkId;
+      } catch (persistErr: unknown) {
+        const msg = persistErr instanceof Error ? persistErr.message : "unknown error";
+        console.error("[Batch Check] saveExtractionRun failed:", msg);
+        warnings.push(`Persistence failed: ${msg}`);
+      }
+    }
+
+    return res.status(200).json({ batch: evaluation, warnings });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Batch check failed";
+    console.error("[Batch Check]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
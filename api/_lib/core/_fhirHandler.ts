@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { fetchFhirExport } from "../fhir/exportFhirBundle.js";
+import { importFhirBundle } from "../fhir/importFhirBundle.js";
+import { isFhirBundle } from "../fhir/fhirTypes.js";
+
+/**
+ * Phase 40 – FHIR import / export
+ *
+ * GET /api/fhir?profileId=...[&download=1]
+ *   Profile + flagged checks as a FHIR R4 collection bundle
+ *   (application/fhir+json).
+ *
+ * POST /api/fhir?profileId=...[&dryRun=1]
+ *   Body: FHIR R4 Bundle. Imports AllergyIntolerance, MedicationStatement
+ *   and MedicationRequest into the profile. 200 → { result, profile }.
+ *   dryRun=1 returns the result without writing.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  const profileId =
+    (typeof req.query.profileId === "string" ? req.query.profileId.trim() : "") ||
+    process.env.DEFAULT_PROFILE_ID ||
+    "";
+  if (!profileId) {
+    return res.status(400).json({ error: "Missing profileId", details: null });
+  }
+
+  if (req.method === "POST") {
+    try {
+      const bundle: unknown = req.body;
+      if (!isFhirBundle(bundle) || (bundle.entry !== undefined && !Array.isArray(bundle.entry))) {
+        return res.status(400).json({
+          error: "Request body must be a FHIR Bundle (resourceType \"Bundle\")",
+          details: null,
+        });
+      }
+      const dryRun = req.query.dryRun === "1" || req.query.dryRun === "true";
+
+      const imported = await importFhirBundle({ profileId, bundle, dryRun });
+      if (!imported) {
+        return res.status(404).json({ error: "Profile not found", details: null });
+      }
+      return res.status(200).json(imported);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to import FHIR bundle";
+      console.error("[FHIR import]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  try {
+    const bundle = await fetchFhirExport(profileId);
+    if (!bundle) {
+      return res.status(404).json({ error: "Profile not found", details: null });
+    }
+
+    res.setHeader("Content-Type", "application/fhir+json; charset=utf-8");
+    if (req.query.download === "1" || req.query.download === "true") {
+      const filename = `allergy-angel-fhir-${profileId.slice(0, 8)}-${(bundle.timestamp ?? "").slice(0, 10)}.json`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    }
+    return res.status(200).send(JSON.stringify(bundle, null, 2));
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to export FHIR bundle";
+    console.error("[FHIR export]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
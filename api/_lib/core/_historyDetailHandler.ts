@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { getSupabaseClient } from "../supabaseClient.js";
+import { listReactionReports } from "../reactions/reactionReports.js";
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -51,7 +52,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       throw new Error(`health_events query failed: ${eventsError.message}`);
     }
 
-    return res.status(200).json({ check, events: events ?? [] });
+    // Phase 35: reaction reports that followed this check
+    const reactions = await listReactionReports(
+      (check as { profile_id: string }).profile_id,
+      id
+    );
+
+    return res.status(200).json({ check, events: events ?? [], reactions });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : "Failed to fetch check detail";
     console.error("[History Detail]", msg);
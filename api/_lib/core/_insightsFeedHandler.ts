@@ -6,6 +6,7 @@ import { buildEvidenceContext } from "../inference/negativeEvidence.js";
 import type { EvidenceContext } from "../inference/negativeEvidence.js";
 import { detectFunctionalStacking } from "../inference/detectFunctionalStacking.js";
 import type { StackingInsight } from "../inference/detectFunctionalStacking.js";
+import { detectIntakeStacking, type IntakeFinding } from "../intake/intakeLedger.js";
 import { getSupabaseClient } from "../supabaseClient.js";
 
 /**
@@ -21,6 +22,7 @@ import { getSupabaseClient } from "../supabaseClient.js";
  *   profileId   – required; returns 400 if missing
  *   windowHours – optional; default 48, max 168 (7 days)
  *   limit       – optional; default 20, max 100
+ *   intakeWindowHours – optional; default 24, max 168 (Phase 34 intake ledger)
  *
  * Scoring rules (deterministic):
  *   baseScore by insight.type:
@@ -40,6 +42,10 @@ import { getSupabaseClient } from "../supabaseClient.js";
  *   -10 if exposures < 3   (unless allergy-related → no penalty)
  *   Allergen-related insights are never suppressed.
  *
+ * Phase 35 – Confirmed links (reaction reports):
+ *   +20 if the insight is confirmed by a reaction report; the low-exposure
+ *   penalty is skipped when confirmed or when any hit is confirmed.
+ *
  * Phase 10F – Feedback Loop adjustments:
  *   +15 if user voted "relevant"
  *   -40 if user voted "not_relevant"
@@ -53,6 +59,12 @@ import { getSupabaseClient } from "../supabaseClient.js";
  *   Final score clamped to [0, 150].
  *   Optional scoreBreakdown when INSIGHTS_DEBUG="true".
  *
+ * Phase 34 – Intake ledger:
+ *   Merges intake_stacking insights from detectIntakeStacking() (same-class
+ *   stacking and duplicate ingredients across checks).
+ *   Base score = 80; +20 when a known daily ingredient limit is exceeded.
+ *   Votes apply as usual. Final score clamped to [0, 150].
+ *
  * Phase 10H++ – Severity weighting + taxonomy version:
  *   Meta (severity, taxonomyVersion) persisted in checks.verdict JSONB.
  *   Feed fetches verdict meta for supporting check IDs; trigger_symptom insights
@@ -76,8 +88,12 @@ const FEED_BASE_SCORES: Record<string, number> = {
   medication_symptom_cluster: 60,
   repeated_symptom: 40,
   functional_stacking: 75,
+  intake_stacking: 80,
 };
 
+// Phase 34: daily ingredient limit exceeded
+const INTAKE_DAILY_LIMIT_BONUS = 20;
+
 const PROXIMITY_BONUS: Record<string, number> = {
   strong: 15,
   medium: 5,
@@ -107,6 +123,7 @@ interface InsightEvidence {
   exposures: number;
   hits: number;
   lift: number;
+  confirmedHits: number;
 }
 
 /** Phase 10G: optional debug breakdown of how a score was computed. */
@@ -129,6 +146,8 @@ interface FeedInsight {
   proximityBucket?: string;
   hoursDelta?: number;
   whyIncluded: string[];
+  /** Phase 35: link confirmed by a reaction report. */
+  confirmed?: boolean;
   /** Phase 10E: exposure/hit/lift stats (trigger_symptom only). */
   evidence?: InsightEvidence;
   /** Phase 10F: stable insight identifier for feedback. */
@@ -143,6 +162,12 @@ interface FeedInsight {
     severity?: number;
     taxonomyVersion?: string;
     crossReactiveLabel?: string;
+    /** Phase 34: intake_stacking finding details */
+    intakeKind?: IntakeFinding["kind"];
+    key?: string;
+    totalDose?: string;
+    dailyLimit?: string;
+    exceedsDailyLimit?: boolean;
   };
   /** Phase 10G: score breakdown (only when INSIGHTS_DEBUG=true). */
   scoreBreakdown?: ScoreBreakdown;
@@ -189,6 +214,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       100,
     );
 
+    const intakeWindowHours = Math.min(
+      Math.max(parseInt(String(req.query.intakeWindowHours), 10) || 24, 1),
+      168,
+    );
+
     // ── Fetch profile allergens (best-effort) ──────────────────────
     let knownAllergies: string[] = [];
     try {
@@ -235,6 +265,20 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       warnings.push(`Stacking detection failed: ${stackErr?.message ?? "unknown"}`);
     }
 
+    // ── Phase 34: cross-check intake ledger (best-effort) ────────────
+    let intakeFindings: IntakeFinding[] = [];
+
+    try {
+      intakeFindings = await detectIntakeStacking({
+        profileId,
+        windowHours: intakeWindowHours,
+      });
+    } catch (intakeErr: unknown) {
+      const message = intakeErr instanceof Error ? intakeErr.message : "unknown";
+      console.warn("[InsightsFeed] Intake ledger failed:", message);
+      warnings.push(`Intake ledger failed: ${message}`);
+    }
+
     // Phase 10G: preload symptom events for proximity scoring of stacking insights.
     // Map: check_id → earliest symptom timestamp within 6h after the check.
     let stackingCheckTimestamps = new Map<string, string>();
@@ -371,6 +415,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         score += 10;
       }
 
+      // Phase 35: confirmed by a reaction report
+      if (insight.confirmed) {
+        score += 20;
+      }
+
       // Phase 10E: negative evidence adjustments (trigger_symptom only)
       let evidence: InsightEvidence | undefined;
 
@@ -385,6 +434,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           insight.priorityHints.symptomValue,
         );
         evidence = stats;
+        const isConfirmed = insight.confirmed === true || stats.confirmedHits > 0;
 
         // +20 if exposures >= 3 AND lift >= 2.0
         if (stats.exposures >= 3 && stats.lift >= 2.0) {
@@ -397,7 +447,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
 
         // -10 if exposures < 3 (unless allergy-related → no penalty)
-        if (stats.exposures < 3 && !isAllergyRelated) {
+        if (stats.exposures < 3 && !isAllergyRelated && !isConfirmed) {
           evidenceAdjust -= 10;
         }
 
@@ -469,6 +519,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         proximityBucket: insight.proximityBucket,
         hoursDelta: insight.hoursDelta,
         whyIncluded: insight.whyIncluded,
+        ...(insight.confirmed ? { confirmed: true } : {}),
         evidence,
         fingerprint: fp,
         ...(userVote ? { userVote } : {}),
@@ -578,6 +629,65 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // ── Phase 34: score and merge intake_stacking insights ───────────
+    for (const finding of intakeFindings) {
+      const base = FEED_BASE_SCORES.intake_stacking;
+      const limitBonus = finding.exceedsDailyLimit ? INTAKE_DAILY_LIMIT_BONUS : 0;
+      // triggerValue keeps class and ingredient findings on the same checks apart
+      const priorityHints: Record<string, unknown> = {
+        triggerValue: `${finding.kind}:${finding.key}`,
+        items: finding.items,
+      };
+      const fp = insightFingerprint({
+        type: "intake_stacking",
+        priorityHints,
+        supportingEvents: finding.checkIds,
+      });
+
+      const userVote = votesMap[fp];
+      const voteAdjust =
+        userVote === "relevant" ? 15 : userVote === "not_relevant" ? -40 : 0;
+
+      const preClamp = base + limitBonus + voteAdjust;
+      const score = Math.max(SCORE_MIN, Math.min(SCORE_MAX, preClamp));
+
+      scored.push({
+        type: "intake_stacking",
+        label: finding.label,
+        description: finding.description,
+        supportingEvents: finding.checkIds,
+        supportingEventCount: finding.checkIds.length,
+        priorityHints,
+        score,
+        whyIncluded: [
+          `intake_${finding.kind}_${finding.key}_${finding.items.length}_items`,
+          ...(finding.exceedsDailyLimit ? ["intake_daily_limit_exceeded"] : []),
+        ],
+        fingerprint: fp,
+        meta: {
+          intakeKind: finding.kind,
+          key: finding.key,
+          items: finding.items,
+          severity: finding.severity,
+          ...(finding.totalDose ? { totalDose: finding.totalDose } : {}),
+          ...(finding.dailyLimit ? { dailyLimit: finding.dailyLimit } : {}),
+          ...(finding.exceedsDailyLimit !== undefined ? { exceedsDailyLimit: finding.exceedsDailyLimit } : {}),
+        },
+        ...(userVote ? { userVote } : {}),
+        ...(isDebug
+          ? {
+              scoreBreakdown: {
+                base,
+                proximityBonus: limitBonus,
+                evidenceAdjust: 0,
+                voteAdjust,
+                clampApplied: score !== preClamp,
+              },
+            }
+          : {}),
+      });
+    }
+
     // ── Sort ───────────────────────────────────────────────────────
     scored.sort((a, b) => {
       // 1. score DESC
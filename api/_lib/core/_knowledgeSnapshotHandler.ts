@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
+import { currentKnowledgeSnapshot } from "../knowledge/knowledgeSnapshot.js";
+import { loadKnowledgeSnapshot } from "../knowledge/knowledgeSnapshotDb.js";
+
+/**
+ * Phase 48 – Knowledge snapshots
+ *
+ * GET /api/knowledge/snapshot
+ *   Current snapshot: 200 → { hash, versions }.
+ *
+ * GET /api/knowledge/snapshot?hash=<sha256>
+ *   A stored bundle: 200 → { snapshot: { hash, content } }, 404 when no
+ *   snapshot has the hash.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    await ensurePromotedRegistryLoaded();
+
+    const hash = typeof req.query.hash === "string" ? req.query.hash.trim().toLowerCase() : "";
+    if (!hash) {
+      const current = currentKnowledgeSnapshot();
+      return res.status(200).json({ hash: current.hash, versions: current.content.versions });
+    }
+
+    const snapshot = await loadKnowledgeSnapshot(hash);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Knowledge snapshot not found", details: null });
+    }
+    return res.status(200).json({ snapshot });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to load knowledge snapshot";
+    console.error("[Knowledge snapshot]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
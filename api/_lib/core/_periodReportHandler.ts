@@ -0,0 +1,68 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { fetchPeriodReport, resolvePeriodRange } from "../report/buildPeriodReport.js";
+import { formatPeriodReportAsText, periodReportFilename } from "../report/formatPeriodReport.js";
+
+/**
+ * Phase 39 – Period report export
+ *
+ * GET /api/report/period?profileId=...[&from=YYYY-MM-DD][&to=YYYY-MM-DD][&includeRawText=true]
+ * GET /api/report/period/download?profileId=...&from=...&to=...[&format=text]
+ *
+ * Range defaults to the last 30 days (max 366). download=1 → attachment
+ * headers; format=text → .txt, otherwise JSON.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const profileId =
+      (typeof req.query.profileId === "string" ? req.query.profileId.trim() : "") ||
+      process.env.DEFAULT_PROFILE_ID ||
+      "";
+    if (!profileId) {
+      return res.status(400).json({ error: "Missing profileId", details: null });
+    }
+
+    const resolved = resolvePeriodRange(
+      typeof req.query.from === "string" && req.query.from ? req.query.from : undefined,
+      typeof req.query.to === "string" && req.query.to ? req.query.to : undefined
+    );
+    if ("error" in resolved) {
+      return res.status(400).json({ error: resolved.error, details: null });
+    }
+
+    const includeRawText = req.query.includeRawText === "true" || req.query.includeRawText === "1";
+    const isDownload = req.query.download === "1" || req.query.download === "true";
+    const formatText = req.query.format === "text" || req.query.format === "txt";
+
+    const report = await fetchPeriodReport({
+      profileId,
+      range: resolved.range,
+      includeRawText,
+    });
+    if (!report) {
+      return res.status(404).json({ error: "Profile not found", details: null });
+    }
+
+    if (formatText) {
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      if (isDownload) {
+        const filename = periodReportFilename(report.meta.from, report.meta.to, "txt");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      }
+      return res.status(200).send(formatPeriodReportAsText(report));
+    }
+
+    if (isDownload) {
+      const filename = periodReportFilename(report.meta.from, report.meta.to, "json");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    }
+    return res.status(200).json(report);
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to build period report";
+    console.error("[Period Report]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
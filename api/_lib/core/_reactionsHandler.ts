@@ -0,0 +1,88 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  createReactionReport,
+  listReactionReports,
+  validateReactionReport,
+} from "../reactions/reactionReports.js";
+
+/**
+ * Phase 35 – Reaction reports
+ *
+ * POST /api/reactions
+ *   Body: { profileId, checkId, symptom, severity, onsetMinutes, treatments?, notes? }
+ *   checkId is the check the reaction followed. 201 → { reaction }.
+ *
+ * GET /api/reactions?profileId=...&checkId=...
+ *   Lists the profile's reaction reports (newest first), optionally only those
+ *   linked to checkId. 200 → { reactions }.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "POST") {
+    try {
+      const body = req.body as Record<string, unknown> | null;
+      if (!body || typeof body !== "object") {
+        return res.status(400).json({ error: "Request body required", details: null });
+      }
+
+      const profileId = typeof body.profileId === "string" ? body.profileId.trim() : "";
+      if (!profileId) {
+        return res.status(400).json({ error: "Missing profileId", details: null });
+      }
+
+      const checkId = typeof body.checkId === "string" ? body.checkId.trim() : "";
+      if (!checkId || !UUID_RE.test(checkId)) {
+        return res.status(400).json({
+          error: "Invalid or missing checkId (expected UUID)",
+          details: null,
+        });
+      }
+
+      const validated = validateReactionReport(body);
+      if ("error" in validated) {
+        return res.status(400).json({ error: validated.error, details: null });
+      }
+
+      const reaction = await createReactionReport({
+        profileId,
+        linkedCheckId: checkId,
+        report: validated.report,
+      });
+      if (!reaction) {
+        return res.status(404).json({ error: "Check not found", details: null });
+      }
+
+      return res.status(201).json({ reaction });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to save reaction";
+      console.error("[Reactions POST]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  if (req.method === "GET") {
+    try {
+      const profileId =
+        typeof req.query.profileId === "string" ? req.query.profileId.trim() : "";
+      if (!profileId) {
+        return res.status(400).json({ error: "Missing profileId", details: null });
+      }
+
+      const checkId = typeof req.query.checkId === "string" ? req.query.checkId.trim() : "";
+      if (checkId && !UUID_RE.test(checkId)) {
+        return res.status(400).json({ error: "Invalid checkId (expected UUID)", details: null });
+      }
+
+      const reactions = await listReactionReports(profileId, checkId || undefined);
+      return res.status(200).json({ reactions });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to fetch reactions";
+      console.error("[Reactions GET]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  return res.status(405).json({ error: "Method Not Allowed", details: null });
+}
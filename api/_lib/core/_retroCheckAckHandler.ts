@@ -0,0 +1,44 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { acknowledgeVerdictRevision } from "../retro/retroCheck.js";
+
+/**
+ * Phase 45 – Acknowledge a retro-check notification
+ *
+ * POST /api/retro-check/ack
+ *   Body: { profileId, revisionId }
+ *   200 → { revision }, 404 when the revision does not belong to the profile.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const body = req.body as Record<string, unknown> | null;
+    const profileId = typeof body?.profileId === "string" ? body.profileId.trim() : "";
+    if (!profileId) {
+      return res.status(400).json({ error: "Missing profileId", details: null });
+    }
+
+    const revisionId = typeof body?.revisionId === "string" ? body.revisionId.trim() : "";
+    if (!revisionId || !UUID_RE.test(revisionId)) {
+      return res.status(400).json({
+        error: "Invalid or missing revisionId (expected UUID)",
+        details: null,
+      });
+    }
+
+    const revision = await acknowledgeVerdictRevision(profileId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: "Revision not found", details: null });
+    }
+    return res.status(200).json({ revision });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to acknowledge revision";
+    console.error("[Retro-check Ack]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
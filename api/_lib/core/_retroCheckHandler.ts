@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { listVerdictRevisions, retroCheckProfile } from "../retro/retroCheck.js";
+
+/**
+ * Phase 45 – Retro-check (historical re-verdict)
+ *
+ * POST /api/retro-check
+ *   Body: { profileId, force? }
+ *   Replays the profile's stale checks through current knowledge.
+ *   200 → { run }, 404 when the profile does not exist.
+ *
+ * GET /api/retro-check?profileId=...[&pending=1]
+ *   Verdict revisions, newest first. pending=1 → only unacknowledged
+ *   "now flagged" notifications. 200 → { revisions }.
+ *
+ * The all-profiles job runs from the CLI: npm run retro:check.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "POST") {
+    try {
+      const body = req.body as Record<string, unknown> | null;
+      const profileId = typeof body?.profileId === "string" ? body.profileId.trim() : "";
+      if (!profileId) {
+        return res.status(400).json({ error: "Missing profileId", details: null });
+      }
+
+      const run = await retroCheckProfile({ profileId, force: body?.force === true });
+      if (!run) {
+        return res.status(404).json({ error: "Profile not found", details: null });
+      }
+      return res.status(200).json({ run });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Retro-check failed";
+      console.error("[Retro-check]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const profileId = typeof req.query.profileId === "string" ? req.query.profileId.trim() : "";
+    if (!profileId) {
+      return res.status(400).json({ error: "Missing profileId", details: null });
+    }
+    const pendingOnly = req.query.pending === "1" || req.query.pending === "true";
+
+    const revisions = await listVerdictRevisions(profileId, { pendingOnly });
+    return res.status(200).json({ revisions });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Failed to load verdict revisions";
+    console.error("[Retro-check]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { replayCheckAtSnapshot } from "../retro/snapshotReplay.js";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Phase 48 – Re-run a check at its knowledge snapshot
+ *
+ * GET /api/history/:id/replay[?profileId=...][&snapshot=<hash>]
+ *   Replays the check with the knowledge snapshot recorded in its verdict
+ *   (or the given one) and compares the result with the stored verdict.
+ *   200 → { replay }; replay.unavailable is set when the check has no
+ *   recorded snapshot or the snapshot is not stored. 404 when the check does
+ *   not exist (for the profile).
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+
+  try {
+    const id = typeof req.query.id === "string" ? req.query.id.trim() : "";
+    if (!id || !UUID_RE.test(id)) {
+      return res.status(400).json({ error: "Invalid or missing check id (expected UUID)", details: null });
+    }
+    const profileId = typeof req.query.profileId === "string" ? req.query.profileId.trim() : "";
+    const snapshotHash = typeof req.query.snapshot === "string" ? req.query.snapshot.trim() : "";
+
+    const replay = await replayCheckAtSnapshot({
+      checkId: id,
+      ...(profileId ? { profileId } : {}),
+      ...(snapshotHash ? { snapshotHash } : {}),
+    });
+    if (!replay) {
+      return res.status(404).json({ error: "Check not found", details: null });
+    }
+    return res.status(200).json({ replay });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : "Snapshot replay failed";
+    console.error("[Snapshot replay]", msg);
+    return res.status(500).json({ error: msg, details: null });
+  }
+}
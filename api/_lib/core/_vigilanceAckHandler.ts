@@ -0,0 +1,116 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  fetchVigilanceAcks,
+  isVigilanceAckOutcome,
+  recordVigilanceAck,
+  SNOOZE_MAX_HOURS,
+} from "../vigilance/vigilanceAcks.js";
+import { getSupabaseClient } from "../supabaseClient.js";
+
+/**
+ * Phase 36 – Vigilance acknowledgements
+ *
+ * POST /api/vigilance/ack
+ *   Body: { profileId, checkId, outcome, windowHours?, snoozeHours? }
+ *   outcome: acknowledged | snoozed | resolved_no_reaction
+ *   snoozeHours (1–72) is required for "snoozed". 200 → { ack }.
+ *
+ * GET /api/vigilance/ack?profileId=...
+ *   All acks for the profile, keyed by checkId. 200 → { acks }.
+ */
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === "POST") {
+    try {
+      const body = req.body as Record<string, unknown> | null;
+      if (!body || typeof body !== "object") {
+        return res.status(400).json({ error: "Request body required", details: null });
+      }
+
+      const profileId = typeof body.profileId === "string" ? body.profileId.trim() : "";
+      if (!profileId) {
+        return res.status(400).json({ error: "Missing profileId", details: null });
+      }
+
+      const checkId = typeof body.checkId === "string" ? body.checkId.trim() : "";
+      if (!checkId || !UUID_RE.test(checkId)) {
+        return res.status(400).json({
+          error: "Invalid or missing checkId (expected UUID)",
+          details: null,
+        });
+      }
+
+      const outcome = body.outcome;
+      if (!isVigilanceAckOutcome(outcome)) {
+        return res.status(400).json({
+          error: "Invalid outcome: expected one of acknowledged, snoozed, resolved_no_reaction",
+          details: null,
+        });
+      }
+
+      const snoozeHours = body.snoozeHours;
+      if (
+        outcome === "snoozed" &&
+        (typeof snoozeHours !== "number" || snoozeHours < 1 || snoozeHours > SNOOZE_MAX_HOURS)
+      ) {
+        return res.status(400).json({
+          error: `Invalid snoozeHours: expected a number between 1 and ${SNOOZE_MAX_HOURS}`,
+          details: null,
+        });
+      }
+
+      const windowHours = typeof body.windowHours === "number" && body.windowHours > 0
+        ? body.windowHours
+        : undefined;
+
+      const supabase = getSupabaseClient();
+      const { data: check, error: checkError } = await supabase
+        .from("checks")
+        .select("id")
+        .eq("id", checkId)
+        .eq("profile_id", profileId)
+        .maybeSingle();
+
+      if (checkError) {
+        throw new Error(`checks query failed: ${checkError.message}`);
+      }
+      if (!check) {
+        return res.status(404).json({ error: "Check not found", details: null });
+      }
+
+      const ack = await recordVigilanceAck({
+        profileId,
+        checkId,
+        outcome,
+        windowHours,
+        snoozeHours: typeof snoozeHours === "number" ? snoozeHours : undefined,
+      });
+      return res.status(200).json({ ack });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to save acknowledgement";
+      console.error("[Vigilance Ack POST]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  if (req.method === "GET") {
+    try {
+      const profileId =
+        typeof req.query.profileId === "string" ? req.query.profileId.trim() : "";
+      if (!profileId) {
+        return res.status(400).json({ error: "Missing profileId", details: null });
+      }
+
+      const acks = await fetchVigilanceAcks(profileId);
+      return res.status(200).json({ acks });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : "Failed to fetch acknowledgements";
+      console.error("[Vigilance Ack GET]", msg);
+      return res.status(500).json({ error: msg, details: null });
+    }
+  }
+
+  return res.status(405).json({ error: "Method Not Allowed", details: null });
+}
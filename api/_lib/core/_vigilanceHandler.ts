@@ -21,12 +21,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const windowHours = Math.min(
-      Math.max(parseInt(String(req.query.windowHours), 10) || 12, 1),
+    // Phase 37: omitted windowHours → the profile policy's window
+    const windowHours =
+      typeof req.query.windowHours === "string"
+        ? Math.min(Math.max(parseInt(req.query.windowHours, 10) || 12, 1), 168)
+        : undefined;
+
+    // Phase 34: intake ledger window (default 24h)
+    const intakeWindowHours = Math.min(
+      Math.max(parseInt(String(req.query.intakeWindowHours), 10) || 24, 1),
       168
     );
 
-    const result = await fetchVigilance(profileId, windowHours);
+    const result = await fetchVigilance(profileId, windowHours, intakeWindowHours);
     return res.status(200).json(result);
   } catch (err: unknown) {
     const message =
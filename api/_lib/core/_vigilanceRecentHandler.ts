@@ -44,6 +44,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       .from("checks")
       .select("id, verdict, created_at")
       .eq("profile_id", profileId)
+      .is("batch", null)
       .gte("created_at", since)
       .order("created_at", { ascending: false });
 
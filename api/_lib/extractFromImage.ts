@@ -32,7 +32,7 @@ export async function extractTextFromImage(
         content: [
           {
             type: "text",
-            text: "Extract all text from this product label image. Return only the text, no commentary.",
+            text: "Extract all text from this product label image. Preserve line breaks. Return only the text, no commentary.",
           },
           {
             type: "image_url",
@@ -0,0 +1,258 @@
+/**
+ * Phase 27 – Label extraction mode
+ *
+ * Deterministic parser for packaged-food label text (typically OCR output
+ * from extractTextFromImage). Recognises three kinds of label statements:
+ *
+ *   - Ingredient lists     "Ingredients: wheat flour, sugar, ..."
+ *   - Contains statements  "Contains: milk, soy."
+ *   - Precautionary lines  "May contain peanuts." / "Processed in a facility
+ *                          that also processes tree nuts."
+ *
+ * Each ingredient / allergen becomes its own meal event carrying the label
+ * line it came from (fields.labelSection, fields.labelLine), so checkRisk can
+ * tell parents which line on the label triggered the verdict. Precautionary
+ * events are graded separately by checkRisk (never as a direct ingredient).
+ *
+ * No LLM. Output conforms to docs/contracts/health-event.schema.json.
+ */
+
+export const LABEL_EXTRACTION_VERSION = "label-v1";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type LabelSection = "ingredients" | "contains" | "precautionary";
+
+export interface LabelItem {
+  /** Ingredient or allergen name as printed (trimmed). */
+  name: string;
+  section: LabelSection;
+  /** The full label statement the item came from, e.g. "Contains: Milk, Soy." */
+  line: string;
+  /** Character offsets of `name` in the original text. */
+  startChar: number;
+  endChar: number;
+}
+
+export interface ParsedLabel {
+  items: LabelItem[];
+}
+
+/** Meal HealthEvent produced in label mode. */
+export interface LabelEvent {
+  id: string;
+  type: "meal";
+  startTime: string;
+  fields: { meal: string; carbs: null; labelSection: LabelSection; labelLine: string };
+  confidence: number;
+  confidenceScore: number;
+  confidenceLevel: "High";
+  needsClarification: boolean;
+  provenance: {
+    sourceInputId: string;
+    sourceSpans: { field: string; startChar: number; endChar: number }[];
+    modelVersion: string;
+    extractionVersion: string;
+  };
+}
+
+// ── Section markers ──────────────────────────────────────────────────
+
+interface Marker {
+  section: LabelSection;
+  start: number;
+  /** Offset where the item list begins (after the marker phrase). */
+  bodyStart: number;
+}
+
+const INGREDIENTS_MARKER = /\bingredients?\s*:/gi;
+const CONTAINS_MARKER = /(?<!may\s)\bcontains\s*:/gi;
+const PRECAUTIONARY_MARKERS = [
+  /\bmay\s+(?:also\s+)?contain(?:s)?(?:\s+traces?\s+of)?\s*:?/gi,
+  /\b(?:processed|manufactured|made|produced|packaged|packed)\s+(?:in|on)\s+(?:a\s+)?(?:shared\s+)?(?:facility|plant|equipment|line)s?\b(?:\s+(?:that|which))?(?:\s+also)?(?:\s+(?:processes|handles|uses|with|that\s+processes))?\s*:?/gi,
+];
+
+/** Leading qualifiers dropped from item names. */
+const ITEM_PREFIX = /^(?:and\/or|and|or|&)\s+|^(?:contains\s+)?(?:less\s+than\s+)?\d+(?:\.\d+)?%\s*(?:or\s+less\s+)?(?:of\s*)?(?:each\s+of\s*)?(?:the\s+following\s*)?:?\s*|^(?:traces?\s+of|other)\s+/i;
+
+function findMarkers(text: string): Marker[] {
+  const markers: Marker[] = [];
+  const collect = (re: RegExp, section: LabelSection) => {
+    re.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text)) !== null) {
+      markers.push({ section, start: m.index, bodyStart: m.index + m[0].length });
+    }
+  };
+  collect(INGREDIENTS_MARKER, "ingredients");
+  collect(CONTAINS_MARKER, "contains");
+  for (const re of PRECAUTIONARY_MARKERS) collect(re, "precautionary");
+
+  // Overlapping markers (e.g. "May contain" inside a facility line): keep earliest
+  markers.sort((a, b) => a.start - b.start || b.bodyStart - a.bodyStart);
+  const out: Marker[] = [];
+  for (const m of markers) {
+    const prev = out[out.length - 1];
+    if (prev && m.start < prev.bodyStart) continue;
+    out.push(m);
+  }
+  return out;
+}
+
+/**
+ * End of a statement body. Ingredient lists may wrap across lines and end at
+ * a blank line; contains/precautionary statements end at a line break or a
+ * sentence-ending period.
+ */
+function bodyEnd(text: string, from: number, limit: number, section: LabelSection): number {
+  const rest = text.slice(from, limit);
+  const re = section === "ingredients" ? /\n\s*\n|\.\s*(?:\n|$)/ : /\n|\.(?:\s|$)/;
+  const m = re.exec(rest);
+  return m ? from + m.index : limit;
+}
+
+/** Split on commas / semicolons outside parentheses and brackets. */
+function splitTopLevel(body: string, offset: number): { value: string; start: number }[] {
+  const parts: { value: string; start: number }[] = [];
+  let depth = 0;
+  let segStart = 0;
+  for (let i = 0; i <= body.length; i++) {
+    const ch = body[i];
+    if (ch === "(" || ch === "[") depth++;
+    else if ((ch === ")" || ch === "]") && depth > 0) depth--;
+    if (i === body.length || (depth === 0 && (ch === "," || ch === ";"))) {
+      parts.push({ value: body.slice(segStart, i), start: offset + segStart });
+      segStart = i + 1;
+    }
+  }
+  return parts;
+}
+
+/** Allergen statements also join with "and" / "or" / "&". */
+function splitAllergens(part: { value: string; start: number }): { value: string; start: number }[] {
+  const out: { value: string; start: number }[] = [];
+  const re = /\s+(?:and\/or|and|or|&)\s+/gi;
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(part.value)) !== null) {
+    out.push({ value: part.value.slice(last, m.index), start: part.start + last });
+    last = m.index + m[0].length;
+  }
+  out.push({ value: part.value.slice(last), start: part.start + last });
+  return out;
+}
+
+function cleanItem(raw: { value: string; start: number }): { name: string; start: number } | null {
+  let value = raw.value;
+  let start = raw.start;
+  const lead = value.length - value.trimStart().length;
+  value = value.slice(lead);
+  start += lead;
+  for (;;) {
+    const m = ITEM_PREFIX.exec(value);
+    if (!m || m[0].length === 0) break;
+    value = value.slice(m[0].length);
+    start += m[0].length;
+  }
+  const name = value.replace(/[\s.*†:]+$/, "").replace(/\s+/g, " ");
+  if (!name || !/[a-z]/i.test(name)) return null;
+  return { name, start };
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/** True when the text has at least one ingredients / contains / precautionary statement. */
+export function looksLikeLabel(text: string): boolean {
+  return findMarkers(text).length > 0;
+}
+
+/** Supplement / OTC drug panels: their products are supplements, not meals. */
+const NON_FOOD_PANEL = /\b(?:supplement|drug)\s+facts\b|\b(?:other|inactive|active)\s+ingredients?\s*:/i;
+
+/**
+ * True for a packaged-food label: label statements and no Supplement Facts /
+ * Drug Facts panel. Only these are auto-detected as labels; a supplement label
+ * also has "Other ingredients:" / "Contains:" lines, but label mode would turn
+ * the product itself into meal events and lose its supplement event.
+ */
+export function looksLikeFoodLabel(text: string): boolean {
+  return looksLikeLabel(text) && !NON_FOOD_PANEL.test(text);
+}
+
+/** Parse label text into per-item entries. Deterministic; duplicates removed per section. */
+export function parseLabelText(text: string): ParsedLabel {
+  const markers = findMarkers(text);
+  const items: LabelItem[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < markers.length; i++) {
+    const marker = markers[i];
+    const limit = i + 1 < markers.length ? markers[i + 1].start : text.length;
+    const end = bodyEnd(text, marker.bodyStart, limit, marker.section);
+    const body = text.slice(marker.bodyStart, end);
+    const lineEnd = text[end] === "." ? end + 1 : end;
+    const line = text.slice(marker.start, lineEnd).replace(/\s+/g, " ").trim();
+
+    let parts = splitTopLevel(body, marker.bodyStart);
+    if (marker.section !== "ingredients") parts = parts.flatMap(splitAllergens);
+
+    for (const part of parts) {
+      const item = cleanItem(part);
+      if (!item) continue;
+      const key = `${marker.section}:${item.name.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push({
+        name: item.name,
+        section: marker.section,
+        line,
+        startChar: item.start,
+        endChar: item.start + item.name.length,
+      });
+    }
+  }
+
+  return { items };
+}
+
+/**
+ * Label-mode extraction: one meal event per ingredient / allergen statement
+ * item. Same result contract as extractFromText.
+ */
+export function extractFromLabel(rawText: string): {
+  events: LabelEvent[];
+  followUpQuestions: string[];
+  warnings: string[];
+} {
+  const { items } = parseLabelText(rawText);
+  const startTime = new Date().toISOString();
+
+  const events = items.map((item, i): LabelEvent => ({
+    id: `label-${i + 1}`,
+    type: "meal",
+    startTime,
+    fields: {
+      meal: item.name,
+      carbs: null,
+      labelSection: item.section,
+      labelLine: item.line,
+    },
+    confidence: 0.9,
+    confidenceScore: 90,
+    confidenceLevel: "High",
+    needsClarification: false,
+    provenance: {
+      sourceInputId: "raw-input-label",
+      sourceSpans: [{ field: "fields.meal", startChar: item.startChar, endChar: item.endChar }],
+      modelVersion: "none",
+      extractionVersion: LABEL_EXTRACTION_VERSION,
+    },
+  }));
+
+  const warnings: string[] = [];
+  if (events.length > 0 && !items.some((it) => it.section === "ingredients")) {
+    warnings.push("No ingredient list found on label; only allergen statements were checked");
+  }
+
+  return { events, followUpQuestions: [], warnings };
+}
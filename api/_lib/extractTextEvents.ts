@@ -0,0 +1,60 @@
+/**
+ * Phase 44 – Shared text → events pipeline
+ *
+ * The free-text path of POST /api/extract, factored out so batch checks run
+ * every item through the same steps:
+ *
+ *   1. extractFromText (heuristic or LLM per EXTRACTION_MODE)
+ *   2. short-input meal fallback ("Mango", "peanut butter")
+ *   3. postProcessExtractionResult
+ *   4. enrichWithResolution
+ *
+ * Callers hydrate the promoted registry (ensurePromotedRegistryLoaded) first.
+ */
+
+import { extractFromText } from "./extractFromText.js";
+import { extractFromTextHeuristic } from "./extractFromTextHeuristic.js";
+import { postProcessExtractionResult, type ExtractionResult } from "./inference/postProcessExtractionResult.js";
+import { enrichWithResolution } from "./knowledge/enrichWithResolution.js";
+
+type TextExtraction = Awaited<ReturnType<typeof extractFromText>>;
+
+/**
+ * Fallback: "Mango", "peanut butter" — when extraction returns no meal for a
+ * short input that is not a number, dose or symptom, try the heuristic.
+ */
+export async function withShortMealFallback<T extends { events?: ExtractionResult["events"] }>(
+  rawText: string,
+  result: T
+): Promise<T | TextExtraction> {
+  const hasMeal = result.events?.some((e) => e.type === "meal" && e.fields?.meal);
+  if (hasMeal) return result;
+
+  const trimmed = rawText.trim();
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  const looksLikeNumber = /^\d+(\.\d+)?\s*(mg|mcg|g|ml|mg\/dl)?$/i.test(trimmed);
+  const looksLikeMedication = /\b\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml)\b/i.test(rawText);
+  const looksLikeSymptom = /\b(headache|rash|nausea|vomiting|diarrhea|cough|fever|itching|hives|sneezing|congestion)\b/i.test(rawText);
+  if (
+    words.length >= 1 &&
+    words.length <= 6 &&
+    trimmed.length <= 80 &&
+    !looksLikeNumber &&
+    !looksLikeMedication &&
+    !looksLikeSymptom
+  ) {
+    const heuristicResult = await extractFromTextHeuristic(rawText);
+    if (heuristicResult.events?.some((e) => e.type === "meal" && e.fields?.meal)) {
+      return heuristicResult;
+    }
+  }
+  return result;
+}
+
+/** Free text → post-processed, resolution-enriched extraction result. */
+export async function extractTextEvents(rawText: string): Promise<TextExtraction> {
+  const result = await withShortMealFallback(rawText, await extractFromText(rawText));
+  postProcessExtractionResult(rawText, result);
+  result.events = enrichWithResolution(result.events ?? []);
+  return result;
+}
@@ -0,0 +1,231 @@
+/**
+ * Phase 40 – FHIR export (profile + flagged checks)
+ *
+ * Builds a FHIR R4 "collection" bundle for a profile: Patient, one
+ * AllergyIntolerance per known allergy, one MedicationStatement per current
+ * medication and supplement, and one DetectedIssue per flagged check
+ * (medium / high verdicts, report-normalized matches as evidence).
+ *
+ * Codings carry our canonical entity ids so a re-import is lossless;
+ * Phase 41 adds an RxNorm coding to medications with a known RxCUI.
+ * buildFhirBundle is pure; fetchFhirExport loads the inputs.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import { buildActionPlan, type ActionPlanAllergen } from "../report/buildActionPlan.js";
+import { buildVerdictSummary, type ReportCheckInput } from "../report/buildCheckReport.js";
+import { resolveEntity } from "../knowledge/entityResolver.js";
+import type { ReactionClass } from "../inference/allergenTaxonomy.js";
+import {
+  ALLERGY_ANGEL_ENTITY_SYSTEM,
+  ALLERGY_ANGEL_RULE_SYSTEM,
+  RXNORM_SYSTEM,
+  type FhirAllergyIntolerance,
+  type FhirBundle,
+  type FhirCodeableConcept,
+  type FhirDetectedIssue,
+  type FhirMedicationStatement,
+  type FhirPatient,
+} from "./fhirTypes.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Most recent checks scanned for flagged verdicts. */
+export const MAX_EXPORTED_CHECKS = 500;
+
+const CLINICAL_SYSTEM = "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical";
+const VERIFICATION_SYSTEM = "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification";
+
+const REACTION_MANIFESTATION: Record<ReactionClass, { text: string; severity: "mild" | "moderate" | "severe" }> = {
+  anaphylaxis: { text: "Anaphylaxis", severity: "severe" },
+  hives: { text: "Hives", severity: "moderate" },
+  gi: { text: "Gastrointestinal symptoms", severity: "moderate" },
+  intolerance: { text: "Intolerance", severity: "mild" },
+};
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface FhirExportProfileRow {
+  id: string;
+  display_name?: string | null;
+  known_allergies?: unknown[] | null;
+  current_medications?: unknown[] | null;
+  supplements?: unknown[] | null;
+}
+
+export interface FhirExportCheck {
+  id: string;
+  created_at: string;
+  verdict: ReportCheckInput["verdict"] | null;
+}
+
+// ── Builders ─────────────────────────────────────────────────────────
+
+function entityConcept(name: string, displayName: string): FhirCodeableConcept {
+  return {
+    text: displayName,
+    coding: [{ system: ALLERGY_ANGEL_ENTITY_SYSTEM, code: name, display: displayName }],
+  };
+}
+
+function medicationConcept(name: string, displayName: string): FhirCodeableConcept {
+  const concept = entityConcept(name, displayName);
+  const rxcui = resolveEntity(name).rxcui;
+  if (rxcui) concept.coding?.push({ system: RXNORM_SYSTEM, code: rxcui });
+  return concept;
+}
+
+function toAllergyIntolerance(a: ActionPlanAllergen, patientRef: string, id: string): FhirAllergyIntolerance {
+  const entityType = resolveEntity(a.name).type;
+  const verification =
+    a.diagnosisSource === "clinician" || a.diagnosisSource === "allergy_test"
+      ? "confirmed"
+      : a.diagnosisSource === "self_reported"
+        ? "unconfirmed"
+        : undefined;
+
+  return {
+    resourceType: "AllergyIntolerance",
+    id,
+    clinicalStatus: { coding: [{ system: CLINICAL_SYSTEM, code: "active" }] },
+    ...(verification ? { verificationStatus: { coding: [{ system: VERIFICATION_SYSTEM, code: verification }] } } : {}),
+    type: a.reaction === "intolerance" ? "intolerance" : "allergy",
+    category: [entityType === "drug" ? "medication" : "food"],
+    criticality: a.severityLabel === "severe" ? "high" : "low",
+    code: entityConcept(a.name, a.displayName),
+    patient: { reference: patientRef },
+    ...(a.lastReactionAt ? { lastOccurrence: a.lastReactionAt } : {}),
+    ...(a.reaction
+      ? {
+          reaction: [
+            {
+              manifestation: [{ text: REACTION_MANIFESTATION[a.reaction].text }],
+              severity: REACTION_MANIFESTATION[a.reaction].severity,
+            },
+          ],
+        }
+      : {}),
+  };
+}
+
+interface StoredEntry {
+  name: string;
+  displayName: string;
+  dosage?: string;
+}
+
+function storedEntries(list: unknown[] | null | undefined): StoredEntry[] {
+  return (list ?? []).flatMap((e) => {
+    if (typeof e === "string") return e.trim() ? [{ name: e.trim().toLowerCase(), displayName: e.trim() }] : [];
+    if (typeof e !== "object" || e === null) return [];
+    const obj = e as { name?: unknown; displayName?: unknown; dosage?: unknown };
+    const name = typeof obj.name === "string" ? obj.name.trim() : "";
+    if (!name) return [];
+    const displayName = typeof obj.displayName === "string" && obj.displayName.trim() ? obj.displayName.trim() : name;
+    const dosage = typeof obj.dosage === "string" && obj.dosage.trim() ? obj.dosage.trim() : undefined;
+    return [{ name, displayName, ...(dosage ? { dosage } : {}) }];
+  });
+}
+
+function toDetectedIssue(c: FhirExportCheck, patientRef: string): FhirDetectedIssue | null {
+  const verdict = c.verdict;
+  if (!verdict || (verdict.riskLevel !== "high" && verdict.riskLevel !== "medium")) return null;
+  const { matched } = buildVerdictSummary(verdict);
+  const kinds = [...new Set(matched.map((m) => m.kind))];
+
+  return {
+    resourceType: "DetectedIssue",
+    id: c.id,
+    status: "final",
+    ...(kinds.length > 0
+      ? { code: { coding: kinds.map((k) => ({ system: ALLERGY_ANGEL_RULE_SYSTEM, code: k })) } }
+      : {}),
+    severity: verdict.riskLevel === "high" ? "high" : "moderate",
+    patient: { reference: patientRef },
+    identifiedDateTime: c.created_at,
+    detail: verdict.reasoning,
+    ...(matched.length > 0
+      ? {
+          evidence: matched
+            .filter((m) => m.matchedTerm)
+            .map((m) => ({ code: [{ text: m.matchedTerm, coding: [{ system: ALLERGY_ANGEL_RULE_SYSTEM, code: m.kind }] }] })),
+        }
+      : {}),
+  };
+}
+
+export function buildFhirBundle(
+  profile: FhirExportProfileRow,
+  checks: FhirExportCheck[],
+  options: { generatedAt?: string } = {}
+): FhirBundle {
+  const patientRef = `Patient/${profile.id}`;
+  const generatedAt = options.generatedAt ?? new Date().toISOString();
+
+  const patient: FhirPatient = {
+    resourceType: "Patient",
+    id: profile.id,
+    name: [{ text: String(profile.display_name ?? "Unknown") }],
+  };
+
+  const plan = buildActionPlan({ id: profile.id, known_allergies: profile.known_allergies });
+  const allergies = plan.allergens.map((a, i) => toAllergyIntolerance(a, patientRef, `${profile.id}-allergy-${i + 1}`));
+
+  const taken: StoredEntry[] = [
+    ...storedEntries(profile.current_medications),
+    ...storedEntries(profile.supplements).map(({ name, displayName }) => ({ name, displayName })),
+  ];
+  const statements = taken.map(
+    (m, i): FhirMedicationStatement => ({
+      resourceType: "MedicationStatement",
+      id: `${profile.id}-medication-${i + 1}`,
+      status: "active",
+      medicationCodeableConcept: medicationConcept(m.name, m.displayName),
+      subject: { reference: patientRef },
+      ...(m.dosage ? { dosage: [{ text: m.dosage }] } : {}),
+    })
+  );
+
+  const issues = [...checks]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map((c) => toDetectedIssue(c, patientRef))
+    .filter((d): d is FhirDetectedIssue => d !== null);
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: generatedAt,
+    entry: [patient, ...allergies, ...statements, ...issues].map((resource) => ({ resource })),
+  };
+}
+
+// ── DB wrapper ───────────────────────────────────────────────────────
+
+/** Load and build the export bundle. Returns null when the profile does not exist. */
+export async function fetchFhirExport(profileId: string): Promise<FhirBundle | null> {
+  const supabase = getSupabaseClient();
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, display_name, known_allergies, current_medications, supplements")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Profile query failed: ${profileError.message}`);
+  }
+  if (!profile) return null;
+
+  const { data: checks, error: checksError } = await supabase
+    .from("checks")
+    .select("id, created_at, verdict")
+    .eq("profile_id", profileId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_EXPORTED_CHECKS);
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+
+  return buildFhirBundle(profile as FhirExportProfileRow, (checks ?? []) as FhirExportCheck[]);
+}
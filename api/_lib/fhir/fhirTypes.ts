@@ -0,0 +1,128 @@
+/**
+ * Phase 40 – FHIR R4 resource shapes
+ *
+ * Only the subset of R4 we read on import (AllergyIntolerance,
+ * MedicationStatement, MedicationRequest, Medication) and write on export
+ * (Patient, AllergyIntolerance, MedicationStatement, DetectedIssue).
+ * Every field is optional on read: partner bundles vary widely.
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+}
+
+export interface FhirDosage {
+  text?: string;
+  doseAndRate?: { doseQuantity?: FhirQuantity }[];
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+}
+
+export interface FhirAllergyReaction {
+  manifestation?: FhirCodeableConcept[];
+  severity?: "mild" | "moderate" | "severe";
+  onset?: string;
+  description?: string;
+}
+
+export interface FhirAllergyIntolerance extends FhirResource {
+  resourceType: "AllergyIntolerance";
+  clinicalStatus?: FhirCodeableConcept;
+  verificationStatus?: FhirCodeableConcept;
+  type?: "allergy" | "intolerance";
+  category?: ("food" | "medication" | "environment" | "biologic")[];
+  criticality?: "low" | "high" | "unable-to-assess";
+  code?: FhirCodeableConcept;
+  patient?: FhirReference;
+  lastOccurrence?: string;
+  reaction?: FhirAllergyReaction[];
+}
+
+export interface FhirMedication extends FhirResource {
+  resourceType: "Medication";
+  code?: FhirCodeableConcept;
+}
+
+export interface FhirMedicationStatement extends FhirResource {
+  resourceType: "MedicationStatement";
+  status?: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: FhirReference;
+  subject?: FhirReference;
+  dosage?: FhirDosage[];
+}
+
+export interface FhirMedicationRequest extends FhirResource {
+  resourceType: "MedicationRequest";
+  status?: string;
+  intent?: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: FhirReference;
+  subject?: FhirReference;
+  dosageInstruction?: FhirDosage[];
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: "Patient";
+  name?: { text?: string }[];
+}
+
+export interface FhirDetectedIssue extends FhirResource {
+  resourceType: "DetectedIssue";
+  status: "final";
+  code?: FhirCodeableConcept;
+  severity?: "high" | "moderate" | "low";
+  patient?: FhirReference;
+  identifiedDateTime?: string;
+  detail?: string;
+  evidence?: { code?: FhirCodeableConcept[] }[];
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+}
+
+export interface FhirBundle extends FhirResource {
+  resourceType: "Bundle";
+  type?: string;
+  timestamp?: string;
+  entry?: FhirBundleEntry[];
+}
+
+/** Code system for Allergy Angel canonical entity ids (round-trips on import). */
+export const ALLERGY_ANGEL_ENTITY_SYSTEM = "https://allergyangel.app/fhir/CodeSystem/entity";
+
+/** Code system for checkRisk rule kinds on exported DetectedIssues. */
+export const ALLERGY_ANGEL_RULE_SYSTEM = "https://allergyangel.app/fhir/CodeSystem/rule";
+
+/** Phase 41 – RxNorm code system (RxCUI codes on medication concepts). */
+export const RXNORM_SYSTEM = "http://www.nlm.nih.gov/research/umls/rxnorm";
+
+export function isFhirBundle(value: unknown): value is FhirBundle {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { resourceType?: unknown }).resourceType === "Bundle"
+  );
+}
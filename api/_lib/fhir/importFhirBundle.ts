@@ -0,0 +1,427 @@
+/**
+ * Phase 40 – FHIR import (AllergyIntolerance, MedicationStatement, MedicationRequest)
+ *
+ * Maps a partner's FHIR R4 bundle onto profile known_allergies,
+ * current_medications and supplements, in the same stored shapes the
+ * profile PATCH writes ({ name, displayName, ... }).
+ *
+ * Names are resolved through entityResolver (then the allergen taxonomy for
+ * allergies). Codings in our own entity system round-trip as-is; Phase 41
+ * RxNorm codings resolve by RxCUI before any name is tried. Entries
+ * that resolve nowhere are still imported under their lowercased name and
+ * reported to Knowledge Radar (unknown_entity_daily).
+ *
+ * mapFhirBundle is pure; importFhirBundle merges into the stored profile
+ * (existing entries win) and is the only writer.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import { resolveEntity, resolveRxcui } from "../knowledge/entityResolver.js";
+import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
+import { upsertUnknownEntity, type EntityType } from "../telemetry/radarStore.js";
+import { resolveAllergen } from "../report/buildActionPlan.js";
+import type { ReactionClass } from "../inference/allergenTaxonomy.js";
+import type { DiagnosisSource } from "../profiles/allergyDetails.js";
+import {
+  ALLERGY_ANGEL_ENTITY_SYSTEM,
+  RXNORM_SYSTEM,
+  type FhirAllergyIntolerance,
+  type FhirBundle,
+  type FhirCodeableConcept,
+  type FhirDosage,
+  type FhirMedication,
+  type FhirMedicationRequest,
+  type FhirMedicationStatement,
+  type FhirReference,
+} from "./fhirTypes.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface StoredAllergy {
+  name: string;
+  displayName: string;
+  reaction?: ReactionClass;
+  diagnosisSource?: DiagnosisSource;
+  lastReactionAt?: string;
+}
+
+export interface StoredMedication {
+  name: string;
+  displayName: string;
+  dosage?: string;
+}
+
+export type FhirImportKind = "allergy" | "medication" | "supplement";
+
+export interface FhirMappedItem {
+  kind: FhirImportKind;
+  resourceType: string;
+  resourceId?: string;
+  entry: StoredAllergy | StoredMedication;
+  /** Found in a registry or the allergen taxonomy */
+  resolved: boolean;
+  /** Knowledge Radar entity type for unresolved items */
+  radarType: EntityType;
+}
+
+export interface FhirSkippedResource {
+  resourceType: string;
+  resourceId?: string;
+  reason: string;
+}
+
+export interface FhirImportedItem {
+  kind: FhirImportKind;
+  resourceType: string;
+  resourceId?: string;
+  name: string;
+  displayName: string;
+  resolved: boolean;
+  /** Already on the profile; the stored entry was kept */
+  alreadyExisted: boolean;
+}
+
+export interface FhirImportResult {
+  dryRun: boolean;
+  imported: FhirImportedItem[];
+  skipped: FhirSkippedResource[];
+  /** Names reported to Knowledge Radar (empty on dryRun) */
+  flaggedToRadar: string[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────
+
+const INACTIVE_CLINICAL = new Set(["inactive", "resolved"]);
+const EXCLUDED_VERIFICATION = new Set(["refuted", "entered-in-error"]);
+const IMPORTED_STATEMENT_STATUSES = new Set(["active", "intended", "on-hold"]);
+const IMPORTED_REQUEST_STATUSES = new Set(["active", "on-hold"]);
+
+const ISO_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+/** RxNorm-style clinical drug names lead with the ingredient: "Lisinopril 10 MG Oral Tablet". */
+const STRENGTH_SUFFIX = /\s+\d[\s\S]*$/;
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function firstCode(concept: FhirCodeableConcept | undefined): string | undefined {
+  return concept?.coding?.find((c) => c.code)?.code;
+}
+
+function ownCode(concept: FhirCodeableConcept | undefined): string | undefined {
+  const c = concept?.coding?.find((c) => c.system === ALLERGY_ANGEL_ENTITY_SYSTEM && c.code);
+  return c?.code?.toLowerCase().trim();
+}
+
+function rxcuiCodes(concept: FhirCodeableConcept | undefined): string[] {
+  return (concept?.coding ?? [])
+    .filter((c) => c.system === RXNORM_SYSTEM && typeof c.code === "string" && c.code.trim())
+    .map((c) => (c.code ?? "").trim());
+}
+
+/** Human-readable names, most specific first: text, then coding displays. */
+function conceptNames(concept: FhirCodeableConcept | undefined): string[] {
+  const names = [concept?.text, ...(concept?.coding ?? []).map((c) => c.display)]
+    .filter((n): n is string => typeof n === "string" && n.trim().length > 0)
+    .map((n) => n.trim());
+  return [...new Set(names)];
+}
+
+function lowerName(s: string): string {
+  return s.toLowerCase().trim();
+}
+
+function dosageText(dosage: FhirDosage[] | undefined): string | undefined {
+  const d = dosage?.[0];
+  if (!d) return undefined;
+  if (d.text?.trim()) return d.text.trim();
+  const q = d.doseAndRate?.[0]?.doseQuantity;
+  if (q?.value != null) return [q.value, q.unit].filter((p) => p != null && p !== "").join(" ");
+  return undefined;
+}
+
+function isoDay(value: string | undefined): string | undefined {
+  if (!value || !ISO_DATE_PREFIX.test(value)) return undefined;
+  const day = value.slice(0, 10);
+  return Number.isNaN(Date.parse(day)) ? undefined : day;
+}
+
+function reactionClassOf(a: FhirAllergyIntolerance): ReactionClass | undefined {
+  const text = (a.reaction ?? [])
+    .flatMap((r) => [r.description, ...(r.manifestation ?? []).flatMap(conceptNames)])
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  if (/anaphyla/.test(text)) return "anaphylaxis";
+  if (/hives|urticaria|angioedema|swelling|rash/.test(text)) return "hives";
+  if (/vomit|diarrh|nausea|abdominal|stomach|gastro/.test(text)) return "gi";
+  if (a.type === "intolerance") return "intolerance";
+  return undefined;
+}
+
+function diagnosisSourceOf(a: FhirAllergyIntolerance): DiagnosisSource | undefined {
+  const status = firstCode(a.verificationStatus);
+  if (status === "confirmed") return "clinician";
+  if (status === "unconfirmed" || status === "presumed") return "self_reported";
+  return undefined;
+}
+
+function lastReactionOf(a: FhirAllergyIntolerance): string | undefined {
+  const days = [a.lastOccurrence, ...(a.reaction ?? []).map((r) => r.onset)]
+    .map(isoDay)
+    .filter((d): d is string => !!d)
+    .sort();
+  return days[days.length - 1];
+}
+
+function mapAllergy(a: FhirAllergyIntolerance): FhirMappedItem | FhirSkippedResource {
+  const skip = (reason: string): FhirSkippedResource => ({ resourceType: a.resourceType, resourceId: a.id, reason });
+
+  const clinical = firstCode(a.clinicalStatus);
+  if (clinical && INACTIVE_CLINICAL.has(clinical)) return skip(`clinicalStatus ${clinical}`);
+  const verification = firstCode(a.verificationStatus);
+  if (verification && EXCLUDED_VERIFICATION.has(verification)) return skip(`verificationStatus ${verification}`);
+
+  const names = conceptNames(a.code);
+  const own = ownCode(a.code);
+  if (!own && names.length === 0) return skip("no allergen name");
+  const displayName = names[0] ?? own ?? "";
+
+  let name: string | undefined = own;
+  let resolved = !!own;
+  if (!name) {
+    for (const n of names) {
+      const r = resolveEntity(n);
+      if (r.resolved) {
+        name = r.canonical;
+        resolved = true;
+        break;
+      }
+    }
+  }
+  if (!name) {
+    const known = names.find((n) => resolveAllergen(n).known);
+    name = lowerName(known ?? displayName);
+    resolved = !!known;
+  }
+
+  const details: Omit<StoredAllergy, "name" | "displayName"> = {};
+  const reaction = reactionClassOf(a);
+  if (reaction) details.reaction = reaction;
+  const diagnosisSource = diagnosisSourceOf(a);
+  if (diagnosisSource) details.diagnosisSource = diagnosisSource;
+  const lastReactionAt = lastReactionOf(a);
+  if (lastReactionAt) details.lastReactionAt = lastReactionAt;
+
+  return {
+    kind: "allergy",
+    resourceType: a.resourceType,
+    resourceId: a.id,
+    entry: { name, displayName, ...details },
+    resolved,
+    radarType: a.category?.includes("medication") ? "medication" : a.category?.includes("food") ? "food" : "unknown",
+  };
+}
+
+function mapMedication(
+  r: FhirMedicationStatement | FhirMedicationRequest,
+  medications: Map<string, FhirMedication>
+): FhirMappedItem | FhirSkippedResource {
+  const skip = (reason: string): FhirSkippedResource => ({ resourceType: r.resourceType, resourceId: r.id, reason });
+
+  const statuses = r.resourceType === "MedicationStatement" ? IMPORTED_STATEMENT_STATUSES : IMPORTED_REQUEST_STATUSES;
+  if (r.status && !statuses.has(r.status)) return skip(`status ${r.status}`);
+
+  const concept = r.medicationCodeableConcept ?? referencedMedication(r.medicationReference, medications)?.code;
+  const names = conceptNames(concept);
+  if (names.length === 0 && r.medicationReference?.display) names.push(r.medicationReference.display.trim());
+  const own = ownCode(concept);
+  const byRxcui = rxcuiCodes(concept).map(resolveRxcui).find((res) => res !== null) ?? undefined;
+  if (!own && !byRxcui && names.length === 0) return skip("no medication name");
+  const displayName = names[0] ?? own ?? byRxcui?.canonical ?? "";
+
+  // RxCUI first, then the full name, then the leading ingredient of a clinical drug name
+  const candidates = [...new Set([...(own ? [own] : []), ...names, ...names.map((n) => n.replace(STRENGTH_SUFFIX, ""))])];
+  const resolution = byRxcui ?? candidates.map((c) => resolveEntity(c)).find((res) => res.resolved);
+
+  const dosage = dosageText(r.resourceType === "MedicationStatement" ? r.dosage : r.dosageInstruction);
+  const name = own ?? resolution?.canonical ?? lowerName(displayName.replace(STRENGTH_SUFFIX, ""));
+  const kind: FhirImportKind = resolution?.type === "supplement" ? "supplement" : "medication";
+
+  return {
+    kind,
+    resourceType: r.resourceType,
+    resourceId: r.id,
+    entry: kind === "supplement" ? { name, displayName } : { name, displayName, ...(dosage ? { dosage } : {}) },
+    resolved: !!resolution || !!own,
+    radarType: "medication",
+  };
+}
+
+function referencedMedication(
+  ref: FhirReference | undefined,
+  medications: Map<string, FhirMedication>
+): FhirMedication | undefined {
+  return ref?.reference ? medications.get(ref.reference) : undefined;
+}
+
+// ── Mapping (pure) ───────────────────────────────────────────────────
+
+/**
+ * Map a bundle's supported resources to stored profile entries.
+ * Unsupported resource types are skipped; Medication resources are only
+ * used to resolve medicationReference.
+ */
+export function mapFhirBundle(bundle: FhirBundle): { items: FhirMappedItem[]; skipped: FhirSkippedResource[] } {
+  const entries = (bundle.entry ?? []).filter((e) => e?.resource && typeof e.resource.resourceType === "string");
+
+  const medications = new Map<string, FhirMedication>();
+  for (const e of entries) {
+    if (e.resource!.resourceType !== "Medication") continue;
+    const med = e.resource as FhirMedication;
+    if (med.id) medications.set(`Medication/${med.id}`, med);
+    if (e.fullUrl) medications.set(e.fullUrl, med);
+  }
+
+  const items: FhirMappedItem[] = [];
+  const skipped: FhirSkippedResource[] = [];
+  for (const e of entries) {
+    const resource = e.resource!;
+    let mapped: FhirMappedItem | FhirSkippedResource;
+    switch (resource.resourceType) {
+      case "AllergyIntolerance":
+        mapped = mapAllergy(resource as FhirAllergyIntolerance);
+        break;
+      case "MedicationStatement":
+      case "MedicationRequest":
+        mapped = mapMedication(resource as FhirMedicationStatement | FhirMedicationRequest, medications);
+        break;
+      case "Medication":
+      case "Patient":
+        continue;
+      default:
+        mapped = { resourceType: resource.resourceType, resourceId: resource.id, reason: "unsupported resource type" };
+    }
+    if ("reason" in mapped) skipped.push(mapped);
+    else items.push(mapped);
+  }
+  return { items, skipped };
+}
+
+// ── Import ───────────────────────────────────────────────────────────
+
+type StoredEntry = string | { name?: string };
+
+/** Stored name plus its resolved canonical ("Zyrtec" also matches "cetirizine"). */
+function storedKeys(e: StoredEntry): string[] {
+  const name = lowerName(typeof e === "string" ? e : String(e?.name ?? ""));
+  const r = resolveEntity(name);
+  return r.resolved && r.canonical !== name ? [name, r.canonical] : [name];
+}
+
+const PROFILE_FIELD: Record<FhirImportKind, "known_allergies" | "current_medications" | "supplements"> = {
+  allergy: "known_allergies",
+  medication: "current_medications",
+  supplement: "supplements",
+};
+
+/**
+ * Import a bundle into a profile. Existing entries with the same canonical
+ * name are kept unchanged; repeats within the bundle (a statement and a
+ * request for the same drug) are skipped. Returns null when the profile
+ * does not exist. dryRun maps and merges without writing or reporting.
+ */
+export async function importFhirBundle(args: {
+  profileId: string;
+  bundle: FhirBundle;
+  dryRun?: boolean;
+}): Promise<{ result: FhirImportResult; profile: Record<string, unknown> } | null> {
+  const { profileId, bundle, dryRun = false } = args;
+  const supabase = getSupabaseClient();
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Profile query failed: ${profileError.message}`);
+  }
+  if (!profile) return null;
+
+  await ensurePromotedRegistryLoaded();
+  const { items, skipped } = mapFhirBundle(bundle);
+
+  const lists: Record<FhirImportKind, unknown[]> = {
+    allergy: [...((profile.known_allergies ?? []) as unknown[])],
+    medication: [...((profile.current_medications ?? []) as unknown[])],
+    supplement: [...((profile.supplements ?? []) as unknown[])],
+  };
+  const existing: Record<FhirImportKind, Set<string>> = {
+    allergy: new Set((lists.allergy as StoredEntry[]).flatMap(storedKeys)),
+    medication: new Set((lists.medication as StoredEntry[]).flatMap(storedKeys)),
+    supplement: new Set((lists.supplement as StoredEntry[]).flatMap(storedKeys)),
+  };
+  const added = new Set<string>();
+  const changed = new Set<FhirImportKind>();
+
+  const imported: FhirImportedItem[] = [];
+  for (const item of items) {
+    const key = `${item.kind}:${item.entry.name}`;
+    if (added.has(key)) {
+      skipped.push({ resourceType: item.resourceType, resourceId: item.resourceId, reason: "duplicate of an earlier entry" });
+      continue;
+    }
+    added.add(key);
+
+    const alreadyExisted = existing[item.kind].has(item.entry.name);
+    if (!alreadyExisted) {
+      lists[item.kind].push(item.entry);
+      changed.add(item.kind);
+    }
+    imported.push({
+      kind: item.kind,
+      resourceType: item.resourceType,
+      resourceId: item.resourceId,
+      name: item.entry.name,
+      displayName: item.entry.displayName,
+      resolved: item.resolved,
+      alreadyExisted,
+    });
+  }
+
+  const unresolved = items.filter(
+    (i) => !i.resolved && imported.some((m) => m.kind === i.kind && m.name === i.entry.name && !m.alreadyExisted)
+  );
+  const flaggedToRadar = dryRun ? [] : [...new Set(unresolved.map((i) => i.entry.name))];
+  const result: FhirImportResult = { dryRun, imported, skipped, flaggedToRadar };
+
+  if (dryRun || changed.size === 0) {
+    return { result, profile };
+  }
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  for (const kind of changed) updates[PROFILE_FIELD[kind]] = lists[kind];
+
+  const { data: updated, error: updateError } = await supabase
+    .from("profiles")
+    .update(updates)
+    .eq("id", profileId)
+    .select("*")
+    .single();
+
+  if (updateError) {
+    throw new Error(`Profile update failed: ${updateError.message}`);
+  }
+
+  // Knowledge Radar: never throws into the import path
+  const day = new Date().toISOString().split("T")[0];
+  const radarTypes = new Map(unresolved.map((i) => [i.entry.name, i.radarType]));
+  await Promise.all(
+    flaggedToRadar.map((entity) =>
+      upsertUnknownEntity({ entity, entityType: radarTypes.get(entity) ?? "unknown", day })
+    )
+  );
+
+  return { result, profile: updated as Record<string, unknown> };
+}
@@ -0,0 +1,82 @@
+/**
+ * Phase 30 – Household compare
+ *
+ * Runs checkRisk for one set of extracted events against every household
+ * profile and returns a per-profile verdict matrix plus a "safe for everyone"
+ * summary. Pure: the caller loads profiles and extracts events once.
+ *
+ * Profile order is preserved (getProfiles: primary first, then oldest).
+ */
+
+import { checkRisk } from "../inference/checkRisk.js";
+import type { ProfileRow } from "../profiles/getProfiles.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import { buildVerdictSummary, type ReportMatchedEntry } from "../report/buildCheckReport.js";
+import type { AdviceEntry } from "../advice/adviceRegistry.js";
+
+export type RiskLevel = "none" | "medium" | "high";
+
+export interface HouseholdProfileVerdict {
+  profileId: string;
+  displayName: string;
+  isPrimary: boolean;
+  riskLevel: RiskLevel;
+  severity: number;
+  reasoning: string;
+  matched: ReportMatchedEntry[];
+  advice: AdviceEntry[];
+}
+
+export interface HouseholdComparison {
+  profiles: HouseholdProfileVerdict[];
+  summary: {
+    /** True when there is at least one profile and none has a medium or high verdict. */
+    safeForEveryone: boolean;
+    highestRisk: RiskLevel;
+    profileCount: number;
+    /** Profiles with a non-none verdict, highest risk first. */
+    flagged: { profileId: string; displayName: string; riskLevel: RiskLevel }[];
+  };
+}
+
+const RISK_RANK: Record<RiskLevel, number> = { none: 0, medium: 1, high: 2 };
+
+export function compareHousehold(args: {
+  profiles: Pick<
+    ProfileRow,
+    "id" | "display_name" | "is_primary" | "known_allergies" | "current_medications" | "escalate_precautionary"
+  >[];
+  events: Parameters<typeof checkRisk>[0]["events"];
+}): HouseholdComparison {
+  const rows: HouseholdProfileVerdict[] = args.profiles.map((profile) => {
+    const verdict = checkRisk({ profile: toRiskProfile(profile), events: args.events });
+    const { matched, advice } = buildVerdictSummary(verdict);
+    return {
+      profileId: profile.id,
+      displayName: profile.display_name,
+      isPrimary: profile.is_primary === true,
+      riskLevel: verdict.riskLevel,
+      severity: verdict.meta?.severity ?? 0,
+      reasoning: verdict.reasoning,
+      matched,
+      advice: advice?.items ?? [],
+    };
+  });
+
+  const flagged = rows
+    .filter((r) => r.riskLevel !== "none")
+    .sort((a, b) => RISK_RANK[b.riskLevel] - RISK_RANK[a.riskLevel])
+    .map((r) => ({ profileId: r.profileId, displayName: r.displayName, riskLevel: r.riskLevel }));
+
+  const highestRisk = flagged[0]?.riskLevel ?? "none";
+
+  return {
+    profiles: rows,
+    summary: {
+      safeForEveryone: rows.length > 0 && flagged.length === 0,
+      highestRisk,
+      profileCount: rows.length,
+      flagged,
+    },
+  };
+}
@@ -26,9 +26,22 @@
  *   - CANONICAL_MAP: O(1) alias → canonical resolution at load time
  *   - No fuzzy logic in runtime. Aliases must be explicitly stored.
  *
+ * Phase 43 – Dish knowledge:
+ *   - DISH_COMMON_ALLERGENS moved to the versioned dish registry
+ *     (knowledge/dishes.registry.ts); matchDishes() finds registry dishes
+ *
+ * Phase 47 – Injectable knowledge:
+ *   - Lookups read the taxonomy and dishes of the active KnowledgeContext
+ *     (knowledge/knowledgeContext.ts), falling back to the constants here
+ *   - getTaxonomyVersion(): version of the taxonomy in effect
+ *
  * Zero LLM. Zero embeddings. Auditable and reproducible.
  */
 
+import { COMMON_DISH_BANDS, DISHES, type DishEntry } from "../knowledge/dishes.registry.js";
+import { cachedFor, getKnowledgeContext } from "../knowledge/knowledgeContext.js";
+import type { LoadedTaxonomy } from "../knowledge/loadAllergenTaxonomy.js";
+
 // ── Taxonomy version (10H++) ─────────────────────────────────────────
 /** Micro-version stamp for verdict meta and insight scoring. Bump when taxonomy changes. */
 export const ALLERGEN_TAXONOMY_VERSION = "10i.3";
@@ -52,7 +65,7 @@ export const ALIASES: Record<string, string[]> = {
 
 // ── Severity weights (10H+) ───────────────────────────────────────────
 /** Deterministic severity per allergen category (0–100). Higher = higher risk. */
-const ALLERGEN_SEVERITY: Record<string, number> = {
+export const ALLERGEN_SEVERITY: Record<string, number> = {
   tree_nut: 90,
   peanut: 95,
   shellfish: 95,
@@ -70,7 +83,46 @@ const ALLERGEN_SEVERITY: Record<string, number> = {
 /** Returns severity for category key; default 50 for unknown. Deterministic, no ML. */
 export function getAllergenSeverity(categoryKey: string): number {
   const key = categoryKey.toLowerCase().trim();
-  return ALLERGEN_SEVERITY[key] ?? 50;
+  return activeTaxonomy().severity[key] ?? 50;
+}
+
+/**
+ * Phase 28: Severity modifier for precautionary ("may contain") label matches.
+ * Cross-contact is a trace risk, so severity is lowered relative to a direct match.
+ */
+export const PRECAUTIONARY_SEVERITY_MODIFIER = -40;
+
+/** Phase 28: Severity for a precautionary match on a category. Clamped to 0. */
+export function getPrecautionarySeverity(categoryKey: string): number {
+  return Math.max(0, getAllergenSeverity(categoryKey) + PRECAUTIONARY_SEVERITY_MODIFIER);
+}
+
+// ── Phase 32: Personal reaction severity ─────────────────────────────
+
+/** Phase 32: Patient-reported reaction class for a profile allergy. */
+export type ReactionClass = "anaphylaxis" | "hives" | "gi" | "intolerance";
+
+export const REACTION_CLASSES: readonly ReactionClass[] = ["anaphylaxis", "hives", "gi", "intolerance"];
+
+/**
+ * Phase 32: Severity per personal reaction class (0–100). When a profile
+ * allergy records a reaction class, this replaces the category default
+ * from ALLERGEN_SEVERITY (a lactose intolerance is not a dairy anaphylaxis).
+ */
+const REACTION_SEVERITY: Record<ReactionClass, number> = {
+  anaphylaxis: 98,
+  hives: 70,
+  gi: 50,
+  intolerance: 25,
+};
+
+export function isReactionClass(value: unknown): value is ReactionClass {
+  return typeof value === "string" && (REACTION_CLASSES as readonly string[]).includes(value);
+}
+
+/** Phase 32: Severity for a personal reaction class. Deterministic. */
+export function getReactionSeverity(reaction: ReactionClass): number {
+  return REACTION_SEVERITY[reaction];
 }
 
 // ── Types ────────────────────────────────────────────────────────────
@@ -174,38 +226,8 @@ export type CrossReactiveRelation = {
   riskModifier: number;
 };
 
-/**
- * Phase 18.1.1 – Dishes that commonly contain allergens (not explicit in dish name).
- * When meal matches a dish, treat as HIGH risk and ask for confirmation.
- * Keys: normalized dish name (lowercase). Values: canonical allergen terms.
- */
-export const DISH_COMMON_ALLERGENS: Record<string, string[]> = {
-  "pad thai": ["peanut"],
-  "pad thai noodles": ["peanut"],
-  "thai noodles": ["peanut"],
-  "kung pao": ["peanut"],
-  "kung pao chicken": ["peanut"],
-  satay: ["peanut"],
-  "chicken satay": ["peanut"],
-  "peanut sauce": ["peanut"],
-  "spring roll": ["peanut"],
-  "spring rolls": ["peanut"],
-  "vietnamese spring roll": ["peanut"],
-  "vietnamese spring rolls": ["peanut"],
-  "asian noodle": ["peanut"],
-  "asian noodles": ["peanut"],
-  mole: ["tree_nut"],
-  "mole sauce": ["tree_nut"],
-  pesto: ["tree_nut"],
-  "pesto sauce": ["tree_nut"],
-  baklava: ["tree_nut"],
-  "baklava pastry": ["tree_nut"],
-  marzipan: ["tree_nut"],
-  frangipane: ["tree_nut"],
-};
-
-/** Build set of allergen category keys the user has (peanut, tree_nut, etc.). */
-function buildUserAllergenCategories(profileAllergies: string[]): Set<string> {
+/** Build set of allergen category keys the user has (peanut, tree_nut, etc.). Phase 43: exported for menu mode. */
+export function buildUserAllergenCategories(profileAllergies: string[]): Set<string> {
   const categories = new Set<string>();
   for (const a of profileAllergies) {
     const norm = normalizeToken(a).replace(/\s+/g, "_");
@@ -222,32 +244,45 @@ function buildUserAllergenCategories(profileAllergies: string[]): Set<string> {
   return categories;
 }
 
+/**
+ * Phase 43: Registry dishes named in the text, longest name / alias first.
+ * Word-boundary match ("guacamole" is not mole). matchedTerm is the name or
+ * alias that matched.
+ */
+export function matchDishes(text: string): { dish: DishEntry; matchedTerm: string }[] {
+  const normalized = stripPunctuation(normalizeToken(text));
+  if (!normalized) return [];
+
+  const dishes = getKnowledgeContext().dishes ?? DISHES;
+  const terms = dishes.flatMap((dish) => [dish.name, ...dish.aliases].map((term) => ({ dish, term: normalizeToken(term) })))
+    .filter((t) => t.term)
+    .sort((a, b) => b.term.length - a.term.length);
+
+  const out: { dish: DishEntry; matchedTerm: string }[] = [];
+  for (const { dish, term } of terms) {
+    if (out.some((m) => m.dish.id === dish.id)) continue;
+    if (buildDishTermRegex(term).test(normalized)) out.push({ dish, matchedTerm: term });
+  }
+  return out;
+}
+
 /**
  * Check if meal text matches a dish that commonly contains an allergen the user has.
+ * Phase 43: dishes come from the dish registry; only "always" / "usually" bands count.
  * Returns { allergen, matchedDish } or null.
  */
 export function getDishAllergenMatch(
   mealText: string,
   profileAllergies: string[]
 ): { allergen: string; matchedDish: string } | null {
-  const normalized = stripPunctuation(normalizeToken(mealText));
-  if (!normalized) return null;
-
   const userCategories = buildUserAllergenCategories(profileAllergies);
 
-  // Sort dish names by length descending (longer first)
-  const dishes = Object.keys(DISH_COMMON_ALLERGENS).sort((a, b) => b.length - a.length);
-
-  for (const dish of dishes) {
-    const dishNorm = normalizeToken(dish);
-    if (!dishNorm) continue;
-    if (normalized.includes(dishNorm)) {
-      const allergens = DISH_COMMON_ALLERGENS[dish];
-      for (const allergen of allergens) {
-        const allergenNorm = normalizeToken(allergen);
-        if (userCategories.has(allergenNorm)) {
-          return { allergen: allergenNorm, matchedDish: dish };
-        }
+  for (const { dish, matchedTerm } of matchDishes(mealText)) {
+    for (const { allergen, band } of dish.allergens) {
+      if (!COMMON_DISH_BANDS.includes(band)) continue;
+      const allergenNorm = normalizeToken(allergen);
+      if (userCategories.has(allergenNorm)) {
+        return { allergen: allergenNorm, matchedDish: matchedTerm };
       }
     }
   }
@@ -303,7 +338,7 @@ export function getCrossReactiveMatch(
     if (raw.endsWith("s")) userSourceSet.add(raw.slice(0, -1));
   }
 
-  for (const rel of CROSS_REACTIVE_REGISTRY) {
+  for (const rel of activeTaxonomy().crossReactive) {
     const sourceNorm = rel.source.toLowerCase();
     const sourceMatches =
       userSourceSet.has(sourceNorm) ||
@@ -349,14 +384,17 @@ export function normalizeToken(s: string): string {
 
 // ── Phase 12.6: Canonical map (built after normalizeToken) ─────────────
 
-function collectAllCanonicalTerms(): Set<string> {
+function collectAllCanonicalTerms(
+  taxonomy: Record<string, { children: string[] }>,
+  crossReactive: CrossReactiveRelation[]
+): Set<string> {
   const terms = new Set<string>();
-  for (const entry of Object.values(ALLERGEN_TAXONOMY)) {
+  for (const entry of Object.values(taxonomy)) {
     for (const child of entry.children) {
       terms.add(normalizeToken(child));
     }
   }
-  for (const rel of CROSS_REACTIVE_REGISTRY) {
+  for (const rel of crossReactive) {
     for (const term of rel.related) {
       terms.add(normalizeToken(term));
     }
@@ -364,13 +402,17 @@ function collectAllCanonicalTerms(): Set<string> {
   return terms;
 }
 
-function buildCanonicalMap(): Map<string, string> {
+function buildCanonicalMap(
+  taxonomy: Record<string, { children: string[] }>,
+  crossReactive: CrossReactiveRelation[],
+  aliasRegistry: Record<string, string[]>
+): Map<string, string> {
   const map = new Map<string, string>();
-  const canonicals = collectAllCanonicalTerms();
+  const canonicals = collectAllCanonicalTerms(taxonomy, crossReactive);
   for (const id of canonicals) {
     map.set(id, id);
   }
-  for (const [canonical, aliases] of Object.entries(ALIASES)) {
+  for (const [canonical, aliases] of Object.entries(aliasRegistry)) {
     const canonNorm = canonical.toLowerCase().trim();
     if (!map.has(canonNorm)) map.set(canonNorm, canonNorm);
     for (const a of aliases) {
@@ -381,18 +423,57 @@ function buildCanonicalMap(): Map<string, string> {
   return map;
 }
 
-const CANONICAL_MAP = buildCanonicalMap();
+// ── Phase 47: Taxonomy in effect ─────────────────────────────────────
+
+/** The taxonomy lookups run against, with its precompiled canonical map. */
+interface TaxonomyView {
+  version: string;
+  taxonomy: Record<string, { label: string; children: string[] }>;
+  severity: Record<string, number>;
+  crossReactive: CrossReactiveRelation[];
+  aliases: Record<string, string[]>;
+  canonicalMap: Map<string, string>;
+}
+
+const DEFAULT_TAXONOMY_VIEW: TaxonomyView = {
+  version: ALLERGEN_TAXONOMY_VERSION,
+  taxonomy: ALLERGEN_TAXONOMY,
+  severity: ALLERGEN_SEVERITY,
+  crossReactive: CROSS_REACTIVE_REGISTRY,
+  aliases: ALIASES,
+  canonicalMap: buildCanonicalMap(ALLERGEN_TAXONOMY, CROSS_REACTIVE_REGISTRY, ALIASES),
+};
+
+const injectedViews = new WeakMap<LoadedTaxonomy, TaxonomyView>();
+
+function activeTaxonomy(): TaxonomyView {
+  const loaded = getKnowledgeContext().taxonomy;
+  if (!loaded) return DEFAULT_TAXONOMY_VIEW;
+  return cachedFor(injectedViews, loaded, () => ({
+    version: loaded.version,
+    taxonomy: loaded.taxonomy,
+    severity: loaded.severity,
+    crossReactive: loaded.crossReactive,
+    aliases: loaded.aliases ?? {},
+    canonicalMap: buildCanonicalMap(loaded.taxonomy, loaded.crossReactive, loaded.aliases ?? {}),
+  }));
+}
+
+/** Phase 47: Version of the taxonomy in effect (ALLERGEN_TAXONOMY_VERSION unless injected). */
+export function getTaxonomyVersion(): string {
+  return activeTaxonomy().version;
+}
 
 /** Phase 12.6: Resolve token to canonical id via precompiled map. O(1). */
 export function resolveToCanonical(token: string): string | undefined {
   const norm = normalizeToken(token);
-  return CANONICAL_MAP.get(norm);
+  return activeTaxonomy().canonicalMap.get(norm);
 }
 
 /** Phase 12.6: Get all match strings for a canonical (canonical + aliases). */
 function getTermsForMatching(canonical: string): string[] {
   const canonNorm = canonical.toLowerCase().trim();
-  const aliases = ALIASES[canonNorm] ?? [];
+  const aliases = activeTaxonomy().aliases[canonNorm] ?? [];
   return [canonNorm, ...aliases];
 }
 
@@ -427,6 +508,15 @@ function buildTermRegex(term: string): RegExp {
   return new RegExp(pattern, "i");
 }
 
+/**
+ * Phase 43: dish names match whole words plus an optional plural suffix
+ * ("two pad thais", "samosas"); "guacamole" still does not match "mole".
+ */
+function buildDishTermRegex(term: string): RegExp {
+  const escaped = escapeRegex(term);
+  return new RegExp(`\\b${escaped}(?:e?s)?\\b`, "i");
+}
+
 /** Phase 12.6: Exact match only. No plural expansion. Prevents "mangoe" matching "mangoes". */
 function buildExactTermRegex(term: string): RegExp {
   const escaped = escapeRegex(term);
@@ -475,12 +565,13 @@ export function isAllergenMatch(
  */
 export function getParentKeyForTerm(term: string): AllergenParentKey | null {
   const canonical = resolveToCanonical(term) ?? normalizeToken(term);
-  for (const [key, entry] of Object.entries(ALLERGEN_TAXONOMY)) {
+  const { taxonomy, crossReactive } = activeTaxonomy();
+  for (const [key, entry] of Object.entries(taxonomy)) {
     if (entry.children.some((c) => normalizeToken(c) === canonical)) {
       return key as AllergenParentKey;
     }
   }
-  for (const rel of CROSS_REACTIVE_REGISTRY) {
+  for (const rel of crossReactive) {
     if (rel.related.some((r) => normalizeToken(r) === canonical)) {
       return rel.source as AllergenParentKey;
     }
@@ -495,7 +586,7 @@ export function getParentKeyForTerm(term: string): AllergenParentKey | null {
  */
 export function resolveCategoryForSeverity(matchedTerm: string): string {
   const canonical = resolveToCanonical(matchedTerm) ?? normalizeToken(matchedTerm);
-  if (canonical in ALLERGEN_SEVERITY) return canonical;
+  if (canonical in activeTaxonomy().severity) return canonical;
   const parent = getParentKeyForTerm(matchedTerm);
   if (parent) return parent;
   return canonical;
@@ -507,13 +598,13 @@ export function resolveCategoryForSeverity(matchedTerm: string): string {
  */
 export function expandAllergies(profileAllergies: string[]): Set<string> {
   const expanded = new Set<string>();
+  const { taxonomy } = activeTaxonomy();
 
   for (const allergy of profileAllergies) {
     const key = normalizeToken(allergy);
-    const parent = key as AllergenParentKey;
 
-    if (parent in ALLERGEN_TAXONOMY) {
-      const entry = ALLERGEN_TAXONOMY[parent];
+    if (key in taxonomy) {
+      const entry = taxonomy[key];
       for (const child of entry.children) {
         expanded.add(child);
       }
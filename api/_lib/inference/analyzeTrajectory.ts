@@ -22,6 +22,16 @@
  *   - Default minOccurrences bumped to 3 for repeated_symptom.
  *   - whyIncluded: every insight carries an explainable filter-pass array.
  *
+ * Phase 35 – Confirmed links:
+ *   Reaction reports (symptom events with linked_check_id) pair only with the
+ *   triggers of the check they were reported against, using the reported
+ *   onset instead of timestamps. Such insights carry confirmed: true, pass
+ *   gating as "confirmed_link", are never cluster-suppressed and score +20.
+ *
+ * Phase 39 – Date range:
+ *   An optional absolute range selects the checks (period reports); windowHours
+ *   still bounds trigger → symptom distances.
+ *
  * Every insight includes the supporting check IDs so the UI can link back to
  * the original evidence.
  */
@@ -38,6 +48,13 @@ export interface TrajectoryInput {
   minOccurrences?: number;
   /** Profile's known allergens — used for scoring + gating (default []) */
   knownAllergies?: string[];
+  /** Phase 39: analyze checks in [from, to] (ISO) instead of the last windowHours */
+  range?: DateRange;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
 }
 
 export interface PriorityHints {
@@ -62,6 +79,8 @@ export interface Insight {
   hoursDelta?: number;
   /** Explainable: which hygiene filter(s) this insight passed to be included */
   whyIncluded: string[];
+  /** Phase 35: link confirmed by a reaction report (not inferred from timestamps) */
+  confirmed?: boolean;
 }
 
 export interface TrajectoryResult {
@@ -77,6 +96,8 @@ interface TimelineEvent {
   check_created_at: string;
   event_type: string;
   event_data: Record<string, unknown>;
+  /** Phase 35: reaction report → the check the reaction followed */
+  linked_check_id: string | null;
 }
 
 /** Internal insight before scoring is applied. */
@@ -89,6 +110,7 @@ interface RawInsight {
   proximityBucket?: ProximityBucket;
   hoursDelta?: number;
   whyIncluded: string[];
+  confirmed?: boolean;
 }
 
 /** Candidate pair from trigger_symptom detector (before gating/dedup). */
@@ -100,6 +122,7 @@ interface TriggerSymptomCandidate {
   triggerType: string;
   hoursDelta: number;
   proximityBucket: ProximityBucket;
+  confirmed: boolean;
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -157,22 +180,41 @@ const BUCKET_RANK: Record<ProximityBucket, number> = {
   weak: 1,
 };
 
+/**
+ * Phase 35: hours from trigger to symptom. Reaction reports linked to the
+ * trigger's check use the reported onset; null when the symptom is linked to
+ * a different check (it must not pair with this trigger).
+ */
+function symptomDelay(trigger: TimelineEvent, symptom: TimelineEvent): number | null {
+  if (symptom.linked_check_id) {
+    if (symptom.linked_check_id !== trigger.check_id) return null;
+    const onset = Number(symptom.event_data.onset_minutes);
+    return Number.isFinite(onset) ? onset / 60 : hoursBetween(trigger.check_created_at, symptom.check_created_at);
+  }
+  if (new Date(symptom.check_created_at) <= new Date(trigger.check_created_at)) return null;
+  return hoursBetween(trigger.check_created_at, symptom.check_created_at);
+}
+
 // ── Data loader ──────────────────────────────────────────────────────
 
 async function loadTimeline(
   profileId: string,
-  windowHours: number
+  windowHours: number,
+  range?: DateRange
 ): Promise<{ timeline: TimelineEvent[]; checkCount: number }> {
   const supabase = getSupabaseClient();
 
-  const cutoff = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+  const cutoff = range?.from ?? new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
 
-  const { data: checks, error: checksError } = await supabase
+  let checksQuery = supabase
     .from("checks")
     .select("id, created_at")
     .eq("profile_id", profileId)
-    .gte("created_at", cutoff)
-    .order("created_at", { ascending: true });
+    .is("batch", null) // Phase 44: batch items were evaluated, not consumed
+    .gte("created_at", cutoff);
+  if (range) checksQuery = checksQuery.lte("created_at", range.to);
+
+  const { data: checks, error: checksError } = await checksQuery.order("created_at", { ascending: true });
 
   if (checksError) {
     throw new Error(`Trajectory: checks query failed: ${checksError.message}`);
@@ -189,7 +231,7 @@ async function loadTimeline(
 
   const { data: events, error: eventsError } = await supabase
     .from("health_events")
-    .select("check_id, event_type, event_data")
+    .select("check_id, event_type, event_data, linked_check_id")
     .in("check_id", checkIds);
 
   if (eventsError) {
@@ -202,6 +244,7 @@ async function loadTimeline(
       check_created_at: checkTimeMap.get(ev.check_id) ?? "",
       event_type: ev.event_type,
       event_data: ev.event_data ?? {},
+      linked_check_id: ev.linked_check_id ?? null,
     }))
     .sort(
       (a, b) =>
@@ -227,11 +270,10 @@ function detectTriggerSymptom(
 
   for (const trigger of triggers) {
     for (const symptom of symptoms) {
-      if (new Date(symptom.check_created_at) <= new Date(trigger.check_created_at))
-        continue;
-
-      const delta = hoursBetween(trigger.check_created_at, symptom.check_created_at);
-      if (delta > windowHours) continue;
+      const delta = symptomDelay(trigger, symptom);
+      if (delta === null) continue;
+      const confirmed = symptom.linked_check_id !== null;
+      if (!confirmed && delta > windowHours) continue;
 
       candidates.push({
         triggerCheckId: trigger.check_id,
@@ -241,11 +283,13 @@ function detectTriggerSymptom(
         triggerType: trigger.event_type,
         hoursDelta: Math.round(delta * 100) / 100,
         proximityBucket: proximityBucketFor(delta),
+        confirmed,
       });
     }
   }
 
   // ── Step 2: Dedup by (normalizedTrigger, normalizedSymptom), keep strongest ──
+  // Phase 35: a confirmed link always wins over a temporal one.
   const deduped = new Map<string, TriggerSymptomCandidate>();
 
   for (const c of candidates) {
@@ -253,7 +297,9 @@ function detectTriggerSymptom(
     const existing = deduped.get(key);
     if (
       !existing ||
-      BUCKET_RANK[c.proximityBucket] > BUCKET_RANK[existing.proximityBucket]
+      (c.confirmed && !existing.confirmed) ||
+      (c.confirmed === existing.confirmed &&
+        BUCKET_RANK[c.proximityBucket] > BUCKET_RANK[existing.proximityBucket])
     ) {
       deduped.set(key, c);
     }
@@ -280,6 +326,9 @@ function detectTriggerSymptom(
       (triggerCounts.get(normalize(c.triggerLabel)) ?? 0) <= 1;
 
     // Gate: at least one condition must pass
+    if (c.confirmed) {
+      whyIncluded.push("confirmed_link");
+    }
     if (c.proximityBucket === "strong") {
       whyIncluded.push("proximity_strong");
     }
@@ -303,7 +352,9 @@ function detectTriggerSymptom(
     insights.push({
       type: "trigger_symptom",
       label: `${typeLabel} → Symptom`,
-      description: `${typeLabel} "${c.triggerLabel}" was followed by "${c.symptomLabel}" within ${c.hoursDelta}h (${c.proximityBucket}).`,
+      description: c.confirmed
+        ? `${typeLabel} "${c.triggerLabel}" was followed by "${c.symptomLabel}" after ${c.hoursDelta}h (${c.proximityBucket}, confirmed by reaction report).`
+        : `${typeLabel} "${c.triggerLabel}" was followed by "${c.symptomLabel}" within ${c.hoursDelta}h (${c.proximityBucket}).`,
       supportingEvents: [...new Set([c.triggerCheckId, c.symptomCheckId])],
       priorityHints: {
         triggerKind: c.triggerType as "meal" | "medication" | "supplement",
@@ -313,6 +364,7 @@ function detectTriggerSymptom(
       proximityBucket: c.proximityBucket,
       hoursDelta: c.hoursDelta,
       whyIncluded,
+      ...(c.confirmed ? { confirmed: true } : {}),
     });
   }
 
@@ -381,9 +433,9 @@ function detectMedicationSymptomCluster(
     const following: TimelineEvent[] = [];
 
     for (const sym of symptoms) {
-      if (new Date(sym.check_created_at) <= new Date(med.check_created_at)) continue;
-      const gap = hoursBetween(med.check_created_at, sym.check_created_at);
-      if (gap <= windowHours) {
+      const gap = symptomDelay(med, sym);
+      if (gap === null) continue;
+      if (sym.linked_check_id !== null || gap <= windowHours) {
         following.push(sym);
       }
     }
@@ -420,6 +472,7 @@ function detectMedicationSymptomCluster(
 /**
  * Remove trigger_symptom insights where triggerKind=medication and the
  * (trigger, symptom) pair is already covered by a medication_symptom_cluster.
+ * Phase 35: confirmed links are kept.
  */
 function applyClustersuppression(
   triggerInsights: RawInsight[],
@@ -429,6 +482,7 @@ function applyClustersuppression(
 
   return triggerInsights.filter((ins) => {
     if (ins.priorityHints.triggerKind !== "medication") return true;
+    if (ins.confirmed) return true;
 
     const key = `${normalize(ins.priorityHints.triggerValue ?? "")}→${normalize(ins.priorityHints.symptomValue ?? "")}`;
     if (suppressionKeys.has(key)) {
@@ -452,6 +506,11 @@ function scoreInsight(raw: RawInsight, knownAllergies: string[]): Insight {
 
   const supportingEventCount = raw.supportingEvents.length;
 
+  // Phase 35: +20 if confirmed by a reaction report
+  if (raw.confirmed) {
+    score += 20;
+  }
+
   // +10 if 3 or more supporting checks
   if (supportingEventCount >= 3) {
     score += 10;
@@ -483,7 +542,7 @@ export async function analyzeTrajectory(
   const minOccurrences = input.minOccurrences ?? 3; // Phase 10C: bumped from 2 to 3
   const knownAllergies = input.knownAllergies ?? [];
 
-  const { timeline, checkCount } = await loadTimeline(input.profileId, windowHours);
+  const { timeline, checkCount } = await loadTimeline(input.profileId, windowHours, input.range);
 
   if (timeline.length === 0) {
     return {
@@ -10,11 +10,40 @@
  *   A) HIGH  – A meal event mentions a term found in known_allergies
  *              (Phase 10H: taxonomy expansion — parent categories expand
  *              to children, e.g., tree_nut → pistachio, cashew).
- *   B) MEDIUM – A medication event conflicts with a current medication
- *              (checked against a small hardcoded interaction map).
+ *   B) MEDIUM/HIGH – A medication event conflicts with a current medication
+ *              (Phase 25: versioned DRUG_INTERACTIONS registry, severity per rule;
+ *              Phase 26: functional class rules, e.g. any nsaid + any anticoagulant).
  *   C) Phase 17 – Supplement event interacts with profile medications.
  *   D) Phase 17 – Meal event contains food that interacts with profile medications.
  *
+ * Phase 27 – Label mode: meal events from extractFromLabel carry
+ * fields.labelSection / fields.labelLine. Matches record the label line that
+ * triggered them.
+ *
+ * Phase 28 – Precautionary tier: precautionary label lines ("may contain")
+ * produce precautionary_allergen (MEDIUM, reduced severity, meta.precautionary).
+ * Profiles with escalate_precautionary=true grade them HIGH at full severity.
+ *
+ * Phase 32 – Personal reaction severity: when a profile allergy records the
+ * patient's reaction class (profile.allergy_reactions), allergen matches use
+ * that severity instead of the category default. An "intolerance" grades a
+ * direct or dish match MEDIUM rather than HIGH.
+ *
+ * Phase 33 – Dose thresholds: supplement and medication interactions covered
+ * by DOSE_THRESHOLD_RULES are re-graded once the dose is known (event
+ * fields.dosage or current_medications[].dosage). Matches record the dose,
+ * the threshold, and what the rule says below it.
+ *
+ * Phase 42 – Combination products: rules B, C and D evaluate each ingredient
+ * of a combination product (Excedrin → acetaminophen, aspirin, caffeine).
+ * Matches made through an ingredient record it (extractedIngredient /
+ * conflictsWithIngredient / medicationIngredient) so reports can say
+ * "via ingredient aspirin of product Excedrin".
+ *
+ * Phase 47 – Injectable knowledge: args.knowledge (KnowledgeContext) overrides
+ * the taxonomy, registries, promoted entities and interaction maps for this
+ * call, so replay and the promotion gate run this function, not a copy.
+ *
  * The highest-severity match wins (high > medium > none).
  */
 
@@ -26,14 +55,21 @@ import {
   resolveCategoryForSeverity,
   getCrossReactiveMatch,
   getDishAllergenMatch,
-  ALLERGEN_TAXONOMY_VERSION,
+  getPrecautionarySeverity,
+  getReactionSeverity,
+  normalizeToken,
+  PRECAUTIONARY_SEVERITY_MODIFIER,
+  getTaxonomyVersion,
   type AllergenParentKey,
+  type ReactionClass,
 } from "./allergenTaxonomy.js";
 import {
   RULE_ALLERGEN_MATCH,
   RULE_DISH_ALLERGEN,
   RULE_CROSS_REACTIVE,
   RULE_MED_INTERACTION,
+  RULE_FUNCTIONAL_CLASS_INTERACTION,
+  RULE_PRECAUTIONARY_ALLERGEN,
   RULE_SUPPLEMENT_MED_INTERACTION,
   RULE_FOOD_MED_INTERACTION,
   RULE_ENTITY_RISK_TAG,
@@ -45,12 +81,32 @@ import {
   normalizeMedicationName,
 } from "./supplementInteractions.js";
 import { resolveEntity, resolveMealText } from "../knowledge/entityResolver.js";
+import { describeViaIngredients, functionalClassInteracts, medicationInteracts } from "./drugInteractions.js";
+import { describeDose, doseTextFromFields, gradeInteractionByDose } from "./doseThresholds.js";
+import {
+  getKnowledgeContext,
+  withKnowledgeContext,
+  type KnowledgeContext,
+} from "../knowledge/knowledgeContext.js";
 
 // ── Types ────────────────────────────────────────────────────────────
 
-interface ProfileInput {
+export interface ProfileInput {
   known_allergies: string[];
   current_medications: { name: string; dosage?: string }[];
+  /** Phase 28: treat precautionary label matches as HIGH (highly sensitive profiles) */
+  escalate_precautionary?: boolean;
+  /** Phase 32: personal reaction history for allergies in known_allergies */
+  allergy_reactions?: PersonalAllergy[];
+}
+
+/** Phase 32: patient's own reaction class for one profile allergy. */
+export interface PersonalAllergy {
+  /** Same token as the known_allergies entry */
+  name: string;
+  reaction: ReactionClass;
+  diagnosisSource?: string;
+  lastReactionAt?: string;
 }
 
 interface RuleMatch {
@@ -73,6 +129,16 @@ export interface VerdictMeta {
   matchedTerm?: string;
   /** Phase 13.4: deterministic trace identifier = checkId:taxonomyVersion */
   traceId?: string;
+  /** Phase 28: true when the allergen meta comes from a precautionary label statement */
+  precautionary?: boolean;
+  /** Phase 32: "personal" when severity comes from the profile's reaction history */
+  severitySource?: "personal";
+  /** Phase 32: personal reaction class behind the severity */
+  reaction?: ReactionClass;
+  /** Phase 45: REGISTRY_VERSIONS the verdict was computed with (stamped at persistence) */
+  registryVersions?: Record<string, string>;
+  /** Phase 48: knowledge snapshot hash (knowledge_snapshots.hash; stamped at persistence) */
+  knowledgeSnapshot?: string;
 }
 
 export interface Verdict {
@@ -83,23 +149,14 @@ export interface Verdict {
   meta?: VerdictMeta;
 }
 
-// ── Hardcoded medication interaction map ─────────────────────────────
-// Each key is a lowercase medication name; value is a set of medications
-// that interact with it.  Interactions are bidirectional — if A interacts
-// with B then B interacts with A.
-
-const INTERACTION_MAP: Record<string, string[]> = {
-  ibuprofen: ["aspirin", "warfarin", "naproxen"],
-  aspirin: ["ibuprofen", "warfarin"],
-  warfarin: ["ibuprofen", "aspirin"],
-  naproxen: ["ibuprofen"],
-};
-
 // ── Phase 17: Food ↔ medication interaction keywords ─────────────────
-const FOOD_MEDICATION_KEYWORDS: Record<
-  string,
-  { meds: string[]; risk: "medium" | "high"; reason: string }
-> = {
+export interface FoodMedicationInteraction {
+  meds: string[];
+  risk: "medium" | "high";
+  reason: string;
+}
+
+export const FOOD_MEDICATION_KEYWORDS: Record<string, FoodMedicationInteraction> = {
   grapefruit: {
     meds: [
       "atorvastatin",
@@ -137,32 +194,79 @@ function normalize(s: string): string {
   return s.toLowerCase().trim();
 }
 
-/** Phase 21a: Resolve medication to canonical for lookup. Strips dosage in parens. */
-function resolveMedicationToCanonical(name: string): string {
+/**
+ * Phase 21a: Resolve medication to canonical ids for lookup. Strips dosage in parens.
+ * Phase 41: a combination product also yields its ingredient ids (product first).
+ */
+function resolveMedicationToCanonicalIds(name: string): string[] {
   const cleaned = normalizeMedicationName(name); // Strips (5mg) etc.
   const resolved = resolveEntity(cleaned);
-  return resolved.resolved ? resolved.canonical : cleaned;
+  if (!resolved.resolved) return [cleaned];
+  return [resolved.canonical, ...(resolved.ingredients ?? [])];
+}
+
+/** Phase 42: reasoning suffix naming the ingredient a combination product matched through. */
+function describeVia(details: Record<string, unknown>): string {
+  const via = describeViaIngredients(details);
+  return via.length > 0 ? ` (${via.join("; ")})` : "";
+}
+
+/** Phase 27: label provenance carried into match details (empty for non-label events). */
+function labelProvenance(event: { fields?: Record<string, unknown> }): { labelSection?: string; labelLine?: string } {
+  const section = event.fields?.labelSection;
+  const line = event.fields?.labelLine;
+  if (typeof section !== "string" || typeof line !== "string") return {};
+  return { labelSection: section, labelLine: line };
 }
 
 /**
- * Check whether an extracted medication conflicts with any current medication.
- * Phase 21a: Uses canonical forms for matching.
+ * Phase 32: Profile allergy with a recorded reaction whose own term or
+ * aliases cover the matched term (e.g. "tree_nut" covers "cashew"). When
+ * several apply, the most severe reaction wins. A reaction never lowers the
+ * category default of another matching allergy that has no recorded
+ * reaction (shellfish + shrimp intolerance still grades shrimp by shellfish).
  */
-function medicationInteracts(
-  extractedMed: string,
-  currentMeds: { name: string }[]
-): { extracted: string; conflictsWith: string } | null {
-  const extractedCanonical = resolveMedicationToCanonical(extractedMed);
-  const interactions = INTERACTION_MAP[extractedCanonical];
-  if (!interactions) return null;
-
-  for (const current of currentMeds) {
-    const currentCanonical = resolveMedicationToCanonical(current.name);
-    if (interactions.includes(currentCanonical)) {
-      return { extracted: extractedMed, conflictsWith: current.name };
+function findPersonalAllergy(
+  profile: ProfileInput,
+  term: string
+): PersonalAllergy | undefined {
+  const token = normalizeToken(term);
+  const reactions = profile.allergy_reactions ?? [];
+  let best: PersonalAllergy | undefined;
+  for (const personal of reactions) {
+    if (!expandAllergies([personal.name]).has(token)) continue;
+    if (!best || getReactionSeverity(personal.reaction) > getReactionSeverity(best.reaction)) {
+      best = personal;
     }
   }
-  return null;
+  if (!best) return undefined;
+
+  const recorded = new Set(reactions.map((r) => normalizeToken(r.name)));
+  const unrecorded = profile.known_allergies.filter((a) => !recorded.has(normalizeToken(a)));
+  const defaultSeverity = getAllergenSeverity(resolveCategoryForSeverity(term));
+  if (
+    getReactionSeverity(best.reaction) < defaultSeverity &&
+    unrecorded.some((a) => expandAllergies([a]).has(token))
+  ) {
+    return undefined;
+  }
+  return best;
+}
+
+/** Phase 32: reaction provenance carried into match details (empty without personal history). */
+function personalProvenance(personal: PersonalAllergy | undefined): Record<string, unknown> {
+  if (!personal) return {};
+  return {
+    severitySource: "personal",
+    reaction: personal.reaction,
+    ...(personal.diagnosisSource ? { diagnosisSource: personal.diagnosisSource } : {}),
+    ...(personal.lastReactionAt ? { lastReactionAt: personal.lastReactionAt } : {}),
+  };
+}
+
+/** Phase 32: meta fields for a personal severity (empty without personal history). */
+function personalMeta(personal: PersonalAllergy | undefined): Pick<VerdictMeta, "severitySource" | "reaction"> {
+  return personal ? { severitySource: "personal", reaction: personal.reaction } : {};
 }
 
 // ── Main ─────────────────────────────────────────────────────────────
@@ -170,7 +274,13 @@ function medicationInteracts(
 export function checkRisk(args: {
   profile: ProfileInput;
   events: any[];
+  /** Phase 47: knowledge overrides for this call (replay / promotion gate) */
+  knowledge?: KnowledgeContext;
 }): Verdict {
+  if (args.knowledge) {
+    const { knowledge, ...rest } = args;
+    return withKnowledgeContext(knowledge, () => checkRisk(rest));
+  }
   const { profile, events } = args;
   const matched: RuleMatch[] = [];
 
@@ -180,6 +290,55 @@ export function checkRisk(args: {
   let bestAllergyMeta: VerdictMeta | undefined;
 
   for (const event of events) {
+    // ── Phase 28: Precautionary label line (MEDIUM; HIGH if profile escalates) ──
+    // Phase 27: direct allergen only; cross-reactive / dish rules do not apply.
+    if (event.type === "meal" && event.fields?.labelSection === "precautionary") {
+      const mealText: string = event.fields?.meal ?? "";
+      const { matched: isMatch, matchedTerm } = isAllergenMatch(
+        resolveMealText(mealText),
+        expandedAllergies
+      );
+      if (mealText && isMatch && matchedTerm) {
+        const escalated = profile.escalate_precautionary === true;
+        if (escalated) highestRisk = "high";
+        else if (highestRisk !== "high") highestRisk = "medium";
+        const matchedCategory = resolveCategoryForSeverity(matchedTerm);
+        const personal = findPersonalAllergy(profile, matchedTerm);
+        const severity = personal
+          ? Math.max(0, getReactionSeverity(personal.reaction) + (escalated ? 0 : PRECAUTIONARY_SEVERITY_MODIFIER))
+          : escalated
+            ? getAllergenSeverity(matchedCategory)
+            : getPrecautionarySeverity(matchedCategory);
+        const meta: VerdictMeta = {
+          taxonomyVersion: getTaxonomyVersion(),
+          matchedCategory,
+          matchedChild: matchedTerm,
+          severity,
+          crossReactive: false,
+          precautionary: true,
+          ...personalMeta(personal),
+        };
+        if (!bestAllergyMeta || severity > (bestAllergyMeta.severity ?? 0)) {
+          bestAllergyMeta = meta;
+        }
+        matched.push({
+          rule: "precautionary_allergen",
+          ruleCode: RULE_PRECAUTIONARY_ALLERGEN,
+          details: {
+            meal: mealText,
+            allergen: matchedTerm,
+            parentKey: getParentKeyForTerm(matchedTerm) ?? undefined,
+            matchedCategory,
+            severity,
+            escalated,
+            ...personalProvenance(personal),
+            ...labelProvenance(event),
+          },
+        });
+      }
+      continue;
+    }
+
     // ── Rule A: Allergy match (HIGH) ─────────────────────────────
     // Phase 10H: taxonomy expansion — parent keys expand to children
     // Phase 10H++: severity + taxonomyVersion in meta (persisted in checks.verdict)
@@ -193,16 +352,22 @@ export function checkRisk(args: {
           expandedAllergies
         );
         if (isMatch && matchedTerm) {
-          highestRisk = "high";
           const parentKey = getParentKeyForTerm(matchedTerm);
           const matchedCategory = resolveCategoryForSeverity(matchedTerm);
-          const severity = getAllergenSeverity(matchedCategory);
+          // Phase 32: personal reaction history overrides the category default
+          const personal = findPersonalAllergy(profile, matchedTerm);
+          if (personal?.reaction !== "intolerance") highestRisk = "high";
+          else if (highestRisk !== "high") highestRisk = "medium";
+          const severity = personal
+            ? getReactionSeverity(personal.reaction)
+            : getAllergenSeverity(matchedCategory);
           const meta: VerdictMeta = {
-            taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+            taxonomyVersion: getTaxonomyVersion(),
             matchedCategory,
             matchedChild: matchedTerm,
             severity,
             crossReactive: false,
+            ...personalMeta(personal),
           };
           if (
             !bestAllergyMeta ||
@@ -219,6 +384,8 @@ export function checkRisk(args: {
               parentKey: parentKey ?? undefined,
               matchedCategory,
               severity,
+              ...personalProvenance(personal),
+              ...labelProvenance(event),
             },
           });
         } else {
@@ -232,7 +399,7 @@ export function checkRisk(args: {
             highestRisk = "high";
             const severity = getAllergenSeverity(entityRiskMatch.matchedTag);
             const meta: VerdictMeta = {
-              taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+              taxonomyVersion: getTaxonomyVersion(),
               matchedCategory: entityRiskMatch.matchedTag,
               matchedChild: entityRiskMatch.entityId,
               severity,
@@ -250,6 +417,7 @@ export function checkRisk(args: {
                 matchedTag: entityRiskMatch.matchedTag,
                 riskTags: entityRiskMatch.riskTags,
                 severity,
+                ...labelProvenance(event),
               },
             });
           }
@@ -258,15 +426,19 @@ export function checkRisk(args: {
           // e.g. pad thai → peanut. Ask for confirmation.
           const dishMatch = getDishAllergenMatch(resolvedMealText, profile.known_allergies);
           if (dishMatch && highestRisk !== "high") {
-            highestRisk = "high";
             const matchedCategory = resolveCategoryForSeverity(dishMatch.allergen);
-            const severity = getAllergenSeverity(matchedCategory);
+            const personal = findPersonalAllergy(profile, dishMatch.allergen);
+            highestRisk = personal?.reaction === "intolerance" ? "medium" : "high";
+            const severity = personal
+              ? getReactionSeverity(personal.reaction)
+              : getAllergenSeverity(matchedCategory);
             const meta: VerdictMeta = {
-              taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+              taxonomyVersion: getTaxonomyVersion(),
               matchedCategory,
               matchedChild: dishMatch.allergen,
               severity,
               crossReactive: false,
+              ...personalMeta(personal),
             };
             if (!bestAllergyMeta || severity > (bestAllergyMeta.severity ?? 0)) {
               bestAllergyMeta = meta;
@@ -280,6 +452,8 @@ export function checkRisk(args: {
                 matchedDish: dishMatch.matchedDish,
                 matchedCategory,
                 severity,
+                ...personalProvenance(personal),
+                ...labelProvenance(event),
               },
             });
           } else if (!dishMatch) {
@@ -291,14 +465,18 @@ export function checkRisk(args: {
             );
             if (crossMatch && highestRisk !== "high") {
               highestRisk = "medium";
-              const baseSeverity = getAllergenSeverity(crossMatch.source);
-              const severity = baseSeverity + crossMatch.modifier;
+              const personal = findPersonalAllergy(profile, crossMatch.source);
+              const baseSeverity = personal
+                ? getReactionSeverity(personal.reaction)
+                : getAllergenSeverity(crossMatch.source);
+              const severity = Math.max(0, baseSeverity + crossMatch.modifier);
               const meta: VerdictMeta = {
-                taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+                taxonomyVersion: getTaxonomyVersion(),
                 severity,
                 crossReactive: true,
                 source: crossMatch.source,
                 matchedTerm: crossMatch.matchedTerm,
+                ...personalMeta(personal),
               };
               if (
                 !bestAllergyMeta ||
@@ -314,6 +492,8 @@ export function checkRisk(args: {
                   source: crossMatch.source,
                   matchedTerm: crossMatch.matchedTerm,
                   severity,
+                  ...personalProvenance(personal),
+                  ...labelProvenance(event),
                 },
               });
             }
@@ -322,11 +502,14 @@ export function checkRisk(args: {
 
         // ── Rule D: Food → medication interaction (Phase 17) ─────────
         const mealLower = resolvedMealText.toLowerCase();
-        for (const [food, interaction] of Object.entries(FOOD_MEDICATION_KEYWORDS)) {
+        for (const [food, interaction] of Object.entries(
+          getKnowledgeContext().foodMedicationInteractions ?? FOOD_MEDICATION_KEYWORDS
+        )) {
           if (mealLower.includes(food)) {
             for (const profileMed of profile.current_medications) {
-              const medCanonical = resolveMedicationToCanonical(profileMed.name);
-              if (interaction.meds.includes(medCanonical)) {
+              const medCanonicalIds = resolveMedicationToCanonicalIds(profileMed.name);
+              const hitId = medCanonicalIds.find((id) => interaction.meds.includes(id));
+              if (hitId) {
                 matched.push({
                   rule: "food_medication_interaction",
                   ruleCode: RULE_FOOD_MED_INTERACTION,
@@ -335,6 +518,7 @@ export function checkRisk(args: {
                     medication: profileMed.name,
                     risk: interaction.risk,
                     reason: interaction.reason,
+                    ...(hitId !== medCanonicalIds[0] ? { medicationIngredient: hitId } : {}),
                   },
                 });
                 if (
@@ -355,18 +539,46 @@ export function checkRisk(args: {
       }
     }
 
-    // ── Rule B: Medication interaction (MEDIUM) ──────────────────
+    // ── Rule B: Medication interaction (Phase 25: registry severity) ──
     if (event.type === "medication") {
       const medName: string = event.fields?.medication ?? "";
       if (medName) {
         // Phase 21a: medicationInteracts uses canonical resolution internally
         const conflict = medicationInteracts(medName, profile.current_medications);
-        if (conflict) {
-          if (highestRisk !== "high") highestRisk = "medium";
+        // Phase 33: re-grade by dose when a threshold covers the pair
+        const conflictMed = conflict
+          ? profile.current_medications.find((m) => m.name === conflict.conflictsWith)
+          : undefined;
+        const doseGrading = conflict && conflictMed
+          ? gradeInteractionByDose(
+              { name: medName, doseText: doseTextFromFields(event.fields, medName) },
+              conflictMed
+            )
+          : null;
+        if (conflict && doseGrading?.risk !== null) {
+          const risk = doseGrading?.risk ?? conflict.risk;
+          if (risk === "high") highestRisk = "high";
+          else if (highestRisk !== "high") highestRisk = "medium";
           matched.push({
             rule: "medication_interaction",
             ruleCode: RULE_MED_INTERACTION,
-            details: conflict,
+            details: {
+              ...conflict,
+              risk,
+              reason: doseGrading?.risk ? doseGrading.reason : conflict.reason,
+              ...doseGrading?.details,
+            },
+          });
+        }
+        // Phase 26: class-level rules for pairs without a specific rule
+        const classConflict = functionalClassInteracts(medName, profile.current_medications);
+        if (classConflict) {
+          if (classConflict.risk === "high") highestRisk = "high";
+          else if (highestRisk !== "high") highestRisk = "medium";
+          matched.push({
+            rule: "functional_class_interaction",
+            ruleCode: RULE_FUNCTIONAL_CLASS_INTERACTION,
+            details: { ...classConflict },
           });
         }
       }
@@ -388,24 +600,34 @@ export function checkRisk(args: {
           ? resolved.canonical
           : normalizeSupplementName(rawSupplement);
       }
-      const interaction = SUPPLEMENT_INTERACTION_MAP[supplementCanonical];
+      const interaction = (getKnowledgeContext().supplementInteractions ?? SUPPLEMENT_INTERACTION_MAP)[supplementCanonical];
       if (interaction && profile.current_medications.length > 0) {
         for (const profileMed of profile.current_medications) {
-          const medCanonical = resolveMedicationToCanonical(profileMed.name);
-          if (interaction.interactsWith.includes(medCanonical)) {
+          const medCanonicalIds = resolveMedicationToCanonicalIds(profileMed.name);
+          const hitId = medCanonicalIds.find((id) => interaction.interactsWith.includes(id));
+          if (hitId) {
+            // Phase 33: dose threshold re-grades (or drops) the name match
+            const doseGrading = gradeInteractionByDose(
+              { name: supplementCanonical, doseText: doseTextFromFields(event.fields, rawSupplement) },
+              profileMed
+            );
+            if (doseGrading?.risk === null) continue;
+            const risk = doseGrading?.risk ?? interaction.risk;
             matched.push({
               rule: "supplement_medication_interaction",
               ruleCode: RULE_SUPPLEMENT_MED_INTERACTION,
               details: {
                 supplement: rawSupplement,
                 medication: profileMed.name,
-                risk: interaction.risk,
-                reason: interaction.reason,
+                risk,
+                reason: doseGrading?.risk ? doseGrading.reason : interaction.reason,
+                ...(hitId !== medCanonicalIds[0] ? { medicationIngredient: hitId } : {}),
+                ...doseGrading?.details,
               },
             });
-            if (interaction.risk === "high" && highestRisk !== "high") {
+            if (risk === "high" && highestRisk !== "high") {
               highestRisk = "high";
-            } else if (interaction.risk === "medium" && highestRisk === "none") {
+            } else if (risk === "medium" && highestRisk === "none") {
               highestRisk = "medium";
             }
           }
@@ -420,11 +642,15 @@ export function checkRisk(args: {
       riskLevel: "none",
       reasoning: "No known risks detected.",
       matched: [],
-      meta: { taxonomyVersion: ALLERGEN_TAXONOMY_VERSION, severity: 0 },
+      meta: { taxonomyVersion: getTaxonomyVersion(), severity: 0 },
     };
   }
 
   const parts = matched.map((m) => {
+    if (m.rule === "precautionary_allergen") {
+      const base = `Label warns "${m.details.meal}" may be present — possible cross-contact with known allergen "${m.details.allergen}" (precautionary, severity ${m.details.severity}/100)`;
+      return m.details.escalated ? `${base}; escalated to high by profile preference.` : `${base}.`;
+    }
     if (m.rule === "allergy_match") {
       const parentKey = m.details.parentKey as AllergenParentKey | undefined;
       const severity = (m.details.severity as number) ?? 50;
@@ -433,10 +659,14 @@ export function checkRisk(args: {
         profile.known_allergies.some(
           (a) => a.toLowerCase().trim() === parentKey
         );
+      // Phase 32: name the personal reaction history behind the severity
+      const severityText = m.details.reaction
+        ? `severity ${severity}/100, from your ${m.details.reaction} history`
+        : `severity ${severity}/100`;
       if (wasExpanded && parentKey) {
-        return `Meal "${m.details.meal}" matches ${parentKey} allergy via child token "${m.details.allergen}" (severity ${severity}/100).`;
+        return `Meal "${m.details.meal}" matches ${parentKey} allergy via child token "${m.details.allergen}" (${severityText}).`;
       }
-      return `Meal "${m.details.meal}" matches known allergen "${m.details.allergen}" (severity ${severity}/100).`;
+      return `Meal "${m.details.meal}" matches known allergen "${m.details.allergen}" (${severityText}).`;
     }
     if (m.rule === "dish_allergen") {
       return `"${m.details.matchedDish}" commonly contains ${m.details.allergen} (severity ${m.details.severity ?? 50}/100).`;
@@ -445,26 +675,37 @@ export function checkRisk(args: {
       return `"${m.details.matchedTerm}" is associated with ${m.details.source} allergies (cross-reactive).`;
     }
     if (m.rule === "medication_interaction") {
-      return `${m.details.extracted} may interact with current medication ${m.details.conflictsWith}`;
+      const base = `${m.details.extracted} may interact with current medication ${m.details.conflictsWith}${describeVia(m.details)}`;
+      return (m.details.reason ? `${base}: ${m.details.reason}` : base) + describeDose(m.details);
+    }
+    if (m.rule === "functional_class_interaction") {
+      return `${m.details.extracted} may interact with current medication ${m.details.conflictsWith} (class rule "${m.details.classRule}")${describeVia(m.details)}: ${m.details.reason}`;
     }
     if (m.rule === "supplement_medication_interaction") {
-      return (m.details.reason as string) ?? `${m.details.supplement} may interact with ${m.details.medication}`;
+      return ((m.details.reason as string) ?? `${m.details.supplement} may interact with ${m.details.medication}`) +
+        describeVia(m.details) +
+        describeDose(m.details);
     }
     if (m.rule === "food_medication_interaction") {
-      return (m.details.reason as string) ?? `${m.details.food} may interact with ${m.details.medication}`;
+      return ((m.details.reason as string) ?? `${m.details.food} may interact with ${m.details.medication}`) +
+        describeVia(m.details);
     }
     if (m.rule === "entity_risk_tag_match") {
       const sev = (m.details.severity as number) ?? 50;
       return `Meal "${m.details.meal}" mentions registry entity "${m.details.entityId}" with risk tag "${m.details.matchedTag}" that matches your profile (severity ${sev}/100).`;
     }
     return JSON.stringify(m);
+  }).map((part, i) => {
+    // Phase 27: name the label line that triggered the match
+    const labelLine = matched[i].details.labelLine;
+    return labelLine ? `${part.replace(/\.$/, "")} (label: "${labelLine}").` : part;
   });
 
   // Ensure exactly one trailing period (parts may already end with period)
   const reasoning = parts.join("; ").replace(/\.+$/, "") + ".";
 
   const meta: VerdictMeta = bestAllergyMeta ?? {
-    taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+    taxonomyVersion: getTaxonomyVersion(),
     severity: 0,
   };
 
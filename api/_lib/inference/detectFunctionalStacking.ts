@@ -15,9 +15,16 @@
  *   - medication events  → event_data.medication
  *   - supplement events  → event_data.supplement OR event_data.name (defensive)
  *   - meal events        → ignored (unless explicitly opted in later)
+ *
+ * Phase 39: an optional absolute range replaces the rolling window (period reports).
+ * Phase 41: combination products also match on their ingredients' classes
+ *   (Excedrin counts toward anticoagulants through aspirin).
+ * Phase 42: insights name the ingredient ("via ingredient aspirin of product
+ *   Excedrin") in the description and meta.viaIngredients.
  */
 
 import { getSupabaseClient } from "../supabaseClient.js";
+import { resolveEntity } from "../knowledge/entityResolver.js";
 import {
   matchFunctionalClasses,
   FUNCTIONAL_CLASS_REGISTRY,
@@ -30,6 +37,8 @@ export interface StackingInput {
   profileId: string;
   /** How far back to look, in hours (default 48). */
   windowHours?: number;
+  /** Phase 39: checks in [from, to] (ISO) instead of the last windowHours. */
+  range?: { from: string; to: string };
 }
 
 export interface StackingInsight {
@@ -44,6 +53,8 @@ export interface StackingInsight {
     classKey: FunctionalClassKey;
     items: string[];
     matchedBy: "registry";
+    /** Phase 42: item → ingredient it matched through (combination products only) */
+    viaIngredients?: Record<string, string>;
   };
   /** Populated during scoring in feed.ts — left undefined here. */
   score?: number;
@@ -57,7 +68,7 @@ export interface StackingInsight {
  * Extract the human-readable ingestible name from an event row.
  * Returns null for non-ingestible event types.
  */
-function extractIngestibleName(
+export function extractIngestibleName(
   eventType: string,
   eventData: Record<string, unknown>,
 ): string | null {
@@ -79,24 +90,52 @@ function extractIngestibleName(
   }
 }
 
+export interface IngestibleClassMatch {
+  classKey: FunctionalClassKey;
+  /** Phase 42: ingredient canonical id when matched through a combination product */
+  viaIngredient?: string;
+}
+
+/**
+ * Phase 41: Classes for an ingestible name, plus its ingredients' classes for
+ * a combination product. A direct name match wins over an ingredient match.
+ */
+export function ingestibleClassMatches(name: string): IngestibleClassMatch[] {
+  const matches: IngestibleClassMatch[] = matchFunctionalClasses(name).map((classKey) => ({ classKey }));
+  for (const ingredient of resolveEntity(name).ingredients ?? []) {
+    for (const classKey of matchFunctionalClasses(ingredient)) {
+      if (!matches.some((m) => m.classKey === classKey)) matches.push({ classKey, viaIngredient: ingredient });
+    }
+  }
+  return matches;
+}
+
+export function ingestibleClasses(name: string): FunctionalClassKey[] {
+  return ingestibleClassMatches(name).map((m) => m.classKey);
+}
+
 // ── Main detector ────────────────────────────────────────────────────
 
 export async function detectFunctionalStacking(
   input: StackingInput,
 ): Promise<StackingInsight[]> {
-  const { profileId, windowHours = 48 } = input;
+  const { profileId, windowHours = 48, range } = input;
   const supabase = getSupabaseClient();
 
-  const cutoff = new Date(
+  const cutoff = range?.from ?? new Date(
     Date.now() - windowHours * 60 * 60 * 1000,
   ).toISOString();
 
   // ── 1. Fetch checks in window ────────────────────────────────────
-  const { data: checks, error: checksErr } = await supabase
+  let checksQuery = supabase
     .from("checks")
     .select("id, created_at")
     .eq("profile_id", profileId)
-    .gte("created_at", cutoff)
+    .is("batch", null) // Phase 44: batch items were evaluated, not consumed
+    .gte("created_at", cutoff);
+  if (range) checksQuery = checksQuery.lte("created_at", range.to);
+
+  const { data: checks, error: checksErr } = await checksQuery
     .order("created_at", { ascending: true });
 
   if (checksErr) {
@@ -147,16 +186,22 @@ export async function detectFunctionalStacking(
 
     // Map: FunctionalClassKey → Set<item name>
     const classItems = new Map<FunctionalClassKey, Set<string>>();
+    // Phase 42: FunctionalClassKey → item name → ingredient it matched through
+    const classVia = new Map<FunctionalClassKey, Map<string, string>>();
 
     for (const ev of checkEvents) {
       const name = extractIngestibleName(ev.event_type, ev.event_data);
       if (!name) continue;
 
-      const classes = matchFunctionalClasses(name);
-      for (const cls of classes) {
+      for (const { classKey: cls, viaIngredient } of ingestibleClassMatches(name)) {
         const items = classItems.get(cls) ?? new Set<string>();
         items.add(name);
         classItems.set(cls, items);
+        if (viaIngredient) {
+          const via = classVia.get(cls) ?? new Map<string, string>();
+          via.set(name, viaIngredient);
+          classVia.set(cls, via);
+        }
       }
     }
 
@@ -168,17 +213,22 @@ export async function detectFunctionalStacking(
       const itemList = Array.from(items);
       const exampleA = itemList[0];
       const exampleB = itemList[1];
+      const via = classVia.get(classKey);
+      const viaText = via
+        ? ` Via ingredient ${[...via].map(([item, ingredient]) => `${ingredient} of product ${item}`).join(", ")}.`
+        : "";
 
       insights.push({
         type: "functional_stacking",
         label: `Functional Stack Detected: ${entry.label}`,
-        description: `Multiple items with ${entry.label} properties taken together (e.g., ${exampleA} + ${exampleB}).`,
+        description: `Multiple items with ${entry.label} properties taken together (e.g., ${exampleA} + ${exampleB}).${viaText}`,
         supportingEvents: [checkId],
         supportingEventCount: 1,
         meta: {
           classKey,
           items: itemList,
           matchedBy: "registry",
+          ...(via ? { viaIngredients: Object.fromEntries(via) } : {}),
         },
         priorityHints: {
           classKey,
@@ -0,0 +1,196 @@
+/**
+ * Phase 33 – Dose-aware interaction grading
+ *
+ * Parses free-text doses ("1000 IU", "2.5g", "81mg") and grades a name-based
+ * interaction against DOSE_THRESHOLD_RULES. The dose is read from whichever
+ * side the rule names as its subject: the extracted event (fields.dosage,
+ * or a "(500mg)" suffix on the name) or the profile medication's dosage.
+ * Unparseable doses and unit mismatches (mg vs IU) leave the name-based
+ * grading in place. Per-day rules compare a daily total: a single dose above
+ * the threshold crosses it, but one at or below it only re-grades when the
+ * text states a daily amount ("200 IU/day", "1 g daily"); otherwise the
+ * name-based grading stays and the threshold is recorded. Deterministic, no LLM.
+ *
+ * Phase 47: rules come from the active KnowledgeContext when injected
+ * (doseThresholds), else DOSE_THRESHOLD_RULES.
+ */
+
+import {
+  DOSE_THRESHOLD_RULES,
+  type DoseThresholdRule,
+  type DoseUnit,
+} from "../knowledge/doseThresholds.registry.js";
+import { getKnowledgeContext } from "../knowledge/knowledgeContext.js";
+import { targetMatches, toInteractionSubject } from "./drugInteractions.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface ParsedDose {
+  amount: number;
+  unit: DoseUnit;
+}
+
+/** Dose fields recorded on a graded interaction match. */
+export interface DoseDetails {
+  doseRuleId: string;
+  /** e.g. "400 IU/day" */
+  doseThreshold: string;
+  /** Stated dose, e.g. "1000 IU"; null when no comparable dose was given */
+  dose: string | null;
+  /** Which side the dose was read from */
+  doseSource?: "event" | "profile";
+  thresholdCrossed?: boolean;
+  /** (per-day rules) Whether the stated dose is a daily total */
+  dailyTotalKnown?: boolean;
+  /** What the rule says at or below the threshold */
+  belowThreshold: string;
+}
+
+export interface DoseGrading {
+  /** null when the rule drops the match (below threshold, risk "none") */
+  risk: "medium" | "high" | null;
+  reason: string;
+  details: DoseDetails;
+}
+
+// ── Parsing ──────────────────────────────────────────────────────────
+
+const DOSE_RE = /(\d+(?:\.\d+)?)\s*(mg|mcg|µg|ug|g|iu|i\.u\.|units?)(?![a-z])/i;
+const DAILY_RE = /(?:\/\s*(?:day|d)\b|\bper day\b|\ba day\b|\bdaily\b)/i;
+
+/** Parse "1000 IU", "1,200 mg", "2.5g", "500 mcg". Mass is normalized to mg. */
+export function parseDose(text: string | null | undefined): ParsedDose | null {
+  if (!text) return null;
+  const m = text.replace(/(\d),(\d{3})/g, "$1$2").match(DOSE_RE);
+  if (!m) return null;
+  const amount = Number(m[1]);
+  const unit = m[2].toLowerCase();
+  if (!Number.isFinite(amount)) return null;
+  if (unit === "g") return { amount: amount * 1000, unit: "mg" };
+  if (unit === "mg") return { amount, unit: "mg" };
+  if (unit === "mcg" || unit === "µg" || unit === "ug") return { amount: amount / 1000, unit: "mg" };
+  return { amount, unit: "iu" };
+}
+
+/** True when dose text states a daily amount ("400 IU/day", "1 g daily"). */
+export function statesDailyTotal(text: string | null | undefined): boolean {
+  return !!text && DAILY_RE.test(text);
+}
+
+/** Dose text from extracted event fields: dosage string, or numeric dosage + unit. */
+export function doseTextFromFields(fields: Record<string, unknown> | undefined, name?: string): string | null {
+  const dosage = fields?.dosage;
+  const unit = fields?.unit;
+  if (typeof dosage === "string" && dosage.trim()) return dosage;
+  if (typeof dosage === "number" && typeof unit === "string") return `${dosage} ${unit}`;
+  const suffix = name?.match(/\(([^)]*)\)/);
+  return suffix ? suffix[1] : null;
+}
+
+export function formatAmount(amount: number, unit: DoseUnit): string {
+  if (unit === "iu") return `${amount} IU`;
+  if (amount >= 1000 && amount % 100 === 0) return `${amount / 1000} g`;
+  return `${amount} mg`;
+}
+
+/** Human-readable threshold, e.g. "400 IU/day", "3 g/day", "100 mg per dose". */
+export function formatThreshold(rule: DoseThresholdRule): string {
+  const { amount, unit, per } = rule.threshold;
+  const base = formatAmount(amount, unit);
+  return per === "day" ? `${base}/day` : `${base} per dose`;
+}
+
+// ── Lookup ───────────────────────────────────────────────────────────
+
+/** Dose rule whose subject is `subjectName` and whose other side matches `otherName`. */
+export function findDoseThresholdRule(subjectName: string, otherName: string): DoseThresholdRule | null {
+  const subject = toInteractionSubject(subjectName);
+  const other = toInteractionSubject(otherName);
+  return (
+    (getKnowledgeContext().doseThresholds ?? DOSE_THRESHOLD_RULES).find(
+      (rule) => rule.subject === subject.canonicalId && rule.with.some((t) => targetMatches(t, other))
+    ) ?? null
+  );
+}
+
+function grade(rule: DoseThresholdRule, doseText: string | null, source: "event" | "profile"): DoseGrading | { details: DoseDetails } | null {
+  const dose = parseDose(doseText);
+  const doseThreshold = formatThreshold(rule);
+  if (!dose || dose.unit !== rule.threshold.unit) {
+    return null;
+  }
+  const crossed = dose.amount > rule.threshold.amount;
+  const details: DoseDetails = {
+    doseRuleId: rule.id,
+    doseThreshold,
+    dose: formatAmount(dose.amount, dose.unit),
+    doseSource: source,
+    thresholdCrossed: crossed,
+    belowThreshold: rule.below.reason,
+  };
+  if (rule.threshold.per === "day") {
+    details.dailyTotalKnown = statesDailyTotal(doseText);
+    // One dose at or below a daily threshold says nothing about the day's total.
+    if (!crossed && !details.dailyTotalKnown) return { details };
+  }
+  const side = crossed ? rule.above : rule.below;
+  return {
+    risk: side.risk === "none" ? null : side.risk,
+    reason: side.reason,
+    details,
+  };
+}
+
+/**
+ * Grade a name-based interaction between an extracted item and a profile
+ * medication by dose. Returns:
+ *   - null when no dose rule covers the pair (keep name-based grading)
+ *   - { details } when a rule applies but cannot grade: no comparable dose
+ *     (dose: null), or a single dose at or below a per-day threshold (keep
+ *     name-based grading, record the threshold)
+ *   - a graded risk/reason otherwise (risk null = below a "none" threshold)
+ */
+export function gradeInteractionByDose(
+  extracted: { name: string; doseText: string | null },
+  current: { name: string; dosage?: string }
+): DoseGrading | { risk?: undefined; details: DoseDetails } | null {
+  const eventRule = findDoseThresholdRule(extracted.name, current.name);
+  if (eventRule) {
+    return grade(eventRule, extracted.doseText, "event") ?? unknownDose(eventRule);
+  }
+  const profileRule = findDoseThresholdRule(current.name, extracted.name);
+  if (profileRule) {
+    return grade(profileRule, doseTextFromFields({ dosage: current.dosage }, current.name), "profile") ??
+      unknownDose(profileRule);
+  }
+  return null;
+}
+
+function unknownDose(rule: DoseThresholdRule): { details: DoseDetails } {
+  return {
+    details: {
+      doseRuleId: rule.id,
+      doseThreshold: formatThreshold(rule),
+      dose: null,
+      belowThreshold: rule.below.reason,
+    },
+  };
+}
+
+/** Reasoning suffix explaining the threshold behind a graded match (empty without one). */
+export function describeDose(details: Record<string, unknown>): string {
+  const threshold = details.doseThreshold;
+  if (typeof threshold !== "string") return "";
+  const dose = details.dose;
+  if (typeof dose !== "string") {
+    return ` (dose not stated; this interaction is dose-dependent at ${threshold})`;
+  }
+  if (details.thresholdCrossed === true) {
+    const below = String(details.belowThreshold ?? "");
+    return ` (${dose} is above the ${threshold} threshold; ${below.charAt(0).toLowerCase()}${below.slice(1)})`;
+  }
+  if (details.dailyTotalKnown === false) {
+    return ` (${dose} per dose; the ${threshold} threshold depends on the daily total, which was not stated)`;
+  }
+  return ` (${dose} is at or below the ${threshold} threshold)`;
+}
@@ -0,0 +1,302 @@
+/**
+ * Phase 25 – Drug–Drug Interaction Lookup
+ *
+ * Resolves medication names to canonical id + class and matches them
+ * against DRUG_INTERACTIONS. Shared by checkRisk and the replay harness so
+ * the two can no longer drift.
+ *
+ * Phase 26 – Functional class rules (FUNCTIONAL_CLASS_INTERACTIONS) are
+ * checked for pairs that have no specific DRUG_INTERACTIONS entry; a
+ * specific pair rule always takes precedence over a class rule.
+ *
+ * Phase 41 – Combination products (NyQuil, Excedrin) are matched through
+ * their ingredients: a rule that applies to any ingredient applies to the
+ * product.
+ *
+ * Phase 42 – Conflicts record which ingredient matched (extractedIngredient /
+ * conflictsWithIngredient) so reports can say "via ingredient X of product Y".
+ *
+ * Phase 47 – Rules come from the active KnowledgeContext when injected
+ * (drugInteractions), else DRUG_INTERACTIONS.
+ */
+
+import {
+  DRUG_INTERACTIONS,
+  type DrugInteraction,
+  type InteractionTarget,
+} from "../knowledge/interactions.registry.js";
+import { resolveEntity, resolveIngredients } from "../knowledge/entityResolver.js";
+import { getKnowledgeContext } from "../knowledge/knowledgeContext.js";
+import {
+  findFunctionalClassInteraction,
+  functionalClassLabel,
+  matchInteractionClasses,
+  type FunctionalClassInteraction,
+  type FunctionalClassKey,
+} from "./functionalClasses.js";
+import { normalizeMedicationName } from "./supplementInteractions.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface InteractionSubject {
+  canonicalId: string;
+  class?: string;
+  /** Phase 41: ingredient subjects of a combination product */
+  ingredients?: InteractionSubject[];
+}
+
+/** Details recorded on a medication_interaction match. */
+export interface MedicationConflict {
+  extracted: string;
+  conflictsWith: string;
+  interactionId: string;
+  risk: DrugInteraction["severity"];
+  mechanism: string;
+  evidence: DrugInteraction["evidence"];
+  reason: string;
+  /** Phase 42: ingredient of a combination `extracted` the rule matched on */
+  extractedIngredient?: string;
+  /** Phase 42: ingredient of a combination `conflictsWith` the rule matched on */
+  conflictsWithIngredient?: string;
+}
+
+/** Details recorded on a functional_class_interaction match. */
+export interface FunctionalClassConflict {
+  extracted: string;
+  conflictsWith: string;
+  classRuleId: string;
+  extractedClass: FunctionalClassKey;
+  conflictsWithClass: FunctionalClassKey;
+  /** Human-readable rule name, e.g. "NSAID + Anticoagulant / Blood Thinner" */
+  classRule: string;
+  risk: FunctionalClassInteraction["risk"];
+  reason: string;
+  /** Phase 42: ingredient of a combination `extracted` that carries extractedClass */
+  extractedIngredient?: string;
+  /** Phase 42: ingredient of a combination `conflictsWith` that carries conflictsWithClass */
+  conflictsWithIngredient?: string;
+}
+
+/** Phase 42: A pair rule plus the (ingredient-level) subjects it matched. */
+export interface DrugInteractionMatch {
+  rule: DrugInteraction;
+  a: InteractionSubject;
+  b: InteractionSubject;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+/** Resolve a medication name (dosage in parens stripped) to canonical id + class. */
+export function toInteractionSubject(name: string): InteractionSubject {
+  const cleaned = normalizeMedicationName(name);
+  const resolved = resolveEntity(cleaned);
+  if (!resolved.resolved) return { canonicalId: cleaned };
+  if (resolved.ingredients) {
+    return {
+      canonicalId: resolved.canonical,
+      ingredients: resolveIngredients(resolved).map((i) => ({ canonicalId: i.canonical, class: i.class })),
+    };
+  }
+  return { canonicalId: resolved.canonical, class: resolved.class };
+}
+
+/** Phase 41: The subjects rules are evaluated on — ingredients for a combination product. */
+export function ingredientSubjects(subject: InteractionSubject): InteractionSubject[] {
+  return subject.ingredients && subject.ingredients.length > 0 ? subject.ingredients : [subject];
+}
+
+/**
+ * Phase 42: "via ingredient X of product Y" for every ingredient a match was
+ * made through (medication, class, supplement and food → medication rules).
+ */
+export function describeViaIngredients(details: Record<string, unknown>): string[] {
+  const pairs: [unknown, unknown][] = [
+    [details.extractedIngredient, details.extracted],
+    [details.conflictsWithIngredient, details.conflictsWith],
+    [details.medicationIngredient, details.medication],
+  ];
+  return pairs.flatMap(([ingredient, product]) =>
+    typeof ingredient === "string" && typeof product === "string"
+      ? [`via ingredient ${ingredient} of product ${product}`]
+      : []
+  );
+}
+
+export function targetMatches(target: InteractionTarget, subject: InteractionSubject): boolean {
+  if ("canonicalId" in target) return target.canonicalId === subject.canonicalId;
+  return subject.class !== undefined && target.class === subject.class;
+}
+
+/**
+ * Find the interaction between two subjects. Symmetric. When several rules
+ * apply, high beats medium; ties keep registry order.
+ */
+export function findDrugInteraction(
+  a: InteractionSubject,
+  b: InteractionSubject
+): DrugInteraction | null {
+  return findDrugInteractionMatch(a, b)?.rule ?? null;
+}
+
+/**
+ * Phase 42: findDrugInteraction, also returning the ingredient subjects the
+ * rule matched (the subjects themselves for single-ingredient products).
+ */
+export function findDrugInteractionMatch(
+  a: InteractionSubject,
+  b: InteractionSubject
+): DrugInteractionMatch | null {
+  if (a.canonicalId === b.canonicalId) return null;
+
+  let best: DrugInteractionMatch | null = null;
+  for (const rule of getKnowledgeContext().drugInteractions ?? DRUG_INTERACTIONS) {
+    const pair = ruleApplies(rule, ingredientSubjects(a), ingredientSubjects(b));
+    if (!pair) continue;
+    if (!best || (rule.severity === "high" && best.rule.severity !== "high")) {
+      best = { rule, a: pair[0], b: pair[1] };
+    }
+  }
+  return best;
+}
+
+function ruleApplies(
+  rule: DrugInteraction,
+  as: InteractionSubject[],
+  bs: InteractionSubject[]
+): [InteractionSubject, InteractionSubject] | null {
+  const [x, y] = rule.between;
+  for (const a of as) {
+    for (const b of bs) {
+      if (a.canonicalId === b.canonicalId) continue;
+      if ((targetMatches(x, a) && targetMatches(y, b)) || (targetMatches(x, b) && targetMatches(y, a))) {
+        return [a, b];
+      }
+    }
+  }
+  return null;
+}
+
+/** Phase 42: the matched ingredient id when `subject` is a combination product. */
+function viaIngredient(subject: InteractionSubject, matched: InteractionSubject | undefined): string | undefined {
+  return subject.ingredients && matched && matched !== subject ? matched.canonicalId : undefined;
+}
+
+/**
+ * Check whether an extracted medication conflicts with any current medication.
+ * Returns the highest-severity conflict (first current medication on ties).
+ */
+export function medicationInteracts(
+  extractedMed: string,
+  currentMeds: { name: string }[]
+): MedicationConflict | null {
+  const extracted = toInteractionSubject(extractedMed);
+
+  let best: MedicationConflict | null = null;
+  for (const current of currentMeds) {
+    const subject = toInteractionSubject(current.name);
+    const match = findDrugInteractionMatch(extracted, subject);
+    if (!match) continue;
+    const { rule } = match;
+    if (!best || (rule.severity === "high" && best.risk !== "high")) {
+      const extractedIngredient = viaIngredient(extracted, match.a);
+      const conflictsWithIngredient = viaIngredient(subject, match.b);
+      best = {
+        extracted: extractedMed,
+        conflictsWith: current.name,
+        interactionId: rule.id,
+        risk: rule.severity,
+        mechanism: rule.mechanism,
+        evidence: rule.evidence,
+        reason: rule.reason,
+        ...(extractedIngredient ? { extractedIngredient } : {}),
+        ...(conflictsWithIngredient ? { conflictsWithIngredient } : {}),
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Functional classes for a medication, by raw name and by canonical id (and
+ * each ingredient's). Ingredients in `shared` are left out: the same
+ * ingredient on both sides is a duplicate, not a class interaction.
+ */
+function interactionClassesFor(
+  name: string,
+  subject: InteractionSubject,
+  shared: ReadonlySet<string> = new Set()
+): FunctionalClassKey[] {
+  const classes: FunctionalClassKey[] = shared.has(subject.canonicalId)
+    ? []
+    : [...matchInteractionClasses(normalizeMedicationName(name))];
+  const ids = [subject.canonicalId, ...(subject.ingredients ?? []).map((i) => i.canonicalId)];
+  for (const id of ids) {
+    if (shared.has(id)) continue;
+    for (const key of matchInteractionClasses(id)) {
+      if (!classes.includes(key)) classes.push(key);
+    }
+  }
+  return classes;
+}
+
+/** Phase 42: the ingredient of a combination product that carries `cls`. */
+function classIngredient(
+  subject: InteractionSubject,
+  cls: FunctionalClassKey,
+  shared: ReadonlySet<string>
+): string | undefined {
+  return subject.ingredients?.find(
+    (i) => !shared.has(i.canonicalId) && matchInteractionClasses(i.canonicalId).includes(cls)
+  )?.canonicalId;
+}
+
+function sharedIngredients(a: InteractionSubject, b: InteractionSubject): Set<string> {
+  const bIds = new Set(ingredientSubjects(b).map((i) => i.canonicalId));
+  return new Set(ingredientSubjects(a).map((i) => i.canonicalId).filter((id) => bIds.has(id)));
+}
+
+/**
+ * Phase 26: Check whether an extracted medication hits a functional class
+ * rule with any current medication. Pairs covered by a specific
+ * DRUG_INTERACTIONS rule are skipped. Returns the highest-risk conflict
+ * (first current medication on ties).
+ */
+export function functionalClassInteracts(
+  extractedMed: string,
+  currentMeds: { name: string }[]
+): FunctionalClassConflict | null {
+  const extracted = toInteractionSubject(extractedMed);
+  const extractedClasses = interactionClassesFor(extractedMed, extracted);
+  if (extractedClasses.length === 0) return null;
+
+  let best: FunctionalClassConflict | null = null;
+  for (const current of currentMeds) {
+    const subject = toInteractionSubject(current.name);
+    if (subject.canonicalId === extracted.canonicalId) continue;
+    if (findDrugInteraction(extracted, subject)) continue;
+
+    const shared = sharedIngredients(extracted, subject);
+    const hit = findFunctionalClassInteraction(
+      shared.size > 0 ? interactionClassesFor(extractedMed, extracted, shared) : extractedClasses,
+      interactionClassesFor(current.name, subject, shared)
+    );
+    if (!hit) continue;
+    if (!best || (hit.rule.risk === "high" && best.risk !== "high")) {
+      const extractedIngredient = classIngredient(extracted, hit.classA, shared);
+      const conflictsWithIngredient = classIngredient(subject, hit.classB, shared);
+      best = {
+        extracted: extractedMed,
+        conflictsWith: current.name,
+        classRuleId: hit.rule.id,
+        extractedClass: hit.classA,
+        conflictsWithClass: hit.classB,
+        classRule: `${functionalClassLabel(hit.classA)} + ${functionalClassLabel(hit.classB)}`,
+        risk: hit.rule.risk,
+        reason: hit.rule.reason,
+        ...(extractedIngredient ? { extractedIngredient } : {}),
+        ...(conflictsWithIngredient ? { conflictsWithIngredient } : {}),
+      };
+    }
+  }
+  return best;
+}
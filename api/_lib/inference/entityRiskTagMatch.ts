@@ -1,11 +1,13 @@
 /**
  * O8 — Deterministic match: meal text ↔ registry entity risk tags ↔ profile allergy tokens.
  * No LLM. Used by checkRisk after resolveMealText.
+ * Phase 47 — Food registry and promoted entities follow the active KnowledgeContext.
  */
 
 import type { CanonicalEntity } from "../knowledge/types.js";
-import { FOODS } from "../knowledge/foods.registry.js";
+import { getStaticEntities } from "../knowledge/registryMerge.js";
 import { getPromotedFoodEntities } from "../knowledge/entityResolver.js";
+import { getKnowledgeContext } from "../knowledge/knowledgeContext.js";
 
 function escapeRegex(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -17,8 +19,9 @@ function normalizeAllergyToken(s: string): string {
 
 /** Collect food/allergen entities that carry O8 risk tags. */
 export function getEntitiesWithRiskTags(): CanonicalEntity[] {
-  const fromStatic = FOODS.filter((e) => e.riskTags && e.riskTags.length > 0);
-  const fromPromoted = getPromotedFoodEntities().filter(
+  const fromStatic = getStaticEntities("food").filter((e) => e.riskTags && e.riskTags.length > 0);
+  const promoted = getKnowledgeContext().promotedEntities ?? getPromotedFoodEntities();
+  const fromPromoted = promoted.filter(
     (e) =>
       (e.type === "food" || e.type === "allergen") && e.riskTags && e.riskTags.length > 0
   );
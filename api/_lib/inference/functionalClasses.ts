@@ -11,8 +11,18 @@
  *   - Ashwagandha listed as herbal_hint, not pharma anticoagulant.
  *   - Registry is intentionally small & hand-curated for precision;
  *     extend via adding entries to FUNCTIONAL_CLASS_REGISTRY.
+ *
+ * Phase 26 – Class-level interaction rules:
+ *   - FUNCTIONAL_CLASS_INTERACTIONS: "any nsaid + any anticoagulant → high".
+ *   - A term added to a class automatically participates in checkRisk verdicts.
+ *   - Herbal hints (HERBAL_HINT_TERMS) never trigger class rules.
+ *
+ * Phase 47 – The registry and class rules can be injected through the
+ * active KnowledgeContext (functionalClasses / functionalClassInteractions).
  */
 
+import { cachedFor, getKnowledgeContext } from "../knowledge/knowledgeContext.js";
+
 // ── Types ────────────────────────────────────────────────────────────
 
 export type FunctionalClassKey =
@@ -104,6 +114,35 @@ export const FUNCTIONAL_CLASS_REGISTRY: Record<
   },
 };
 
+// ── Phase 26: Class-level interaction rules ─────────────────────────
+
+export interface FunctionalClassInteraction {
+  /** Stable identifier, e.g. "fci:nsaids+anticoagulants" */
+  id: string;
+  /** Unordered; the same key twice means "two different members of one class". */
+  classes: [FunctionalClassKey, FunctionalClassKey];
+  risk: "medium" | "high";
+  reason: string;
+}
+
+export const FUNCTIONAL_CLASS_INTERACTIONS: FunctionalClassInteraction[] = [
+  {
+    id: "fci:nsaids+anticoagulants",
+    classes: ["nsaids", "anticoagulants"],
+    risk: "high",
+    reason: "NSAIDs combined with blood thinners significantly increase bleeding risk",
+  },
+  {
+    id: "fci:anticoagulants+anticoagulants",
+    classes: ["anticoagulants", "anticoagulants"],
+    risk: "high",
+    reason: "Taking two blood thinners together significantly increases bleeding risk",
+  },
+];
+
+/** Registry terms listed as hints only; excluded from class-level verdicts. */
+export const HERBAL_HINT_TERMS: ReadonlySet<string> = new Set(["ashwagandha"]);
+
 // ── Helpers ──────────────────────────────────────────────────────────
 
 /**
@@ -117,22 +156,39 @@ export function normalizeTerm(s: string): string {
     .replace(/^["'(]+|["')]+$/g, "");
 }
 
-// Pre-build a reverse lookup: normalisedTerm → FunctionalClassKey[]
-const _termIndex = new Map<string, FunctionalClassKey[]>();
-
-for (const [key, entry] of Object.entries(FUNCTIONAL_CLASS_REGISTRY) as [
-  FunctionalClassKey,
-  FunctionalClassEntry,
-][]) {
-  for (const term of entry.terms) {
-    const norm = normalizeTerm(term);
-    const existing = _termIndex.get(norm);
-    if (existing) {
-      if (!existing.includes(key)) existing.push(key);
-    } else {
-      _termIndex.set(norm, [key]);
+// Reverse lookup: normalisedTerm → FunctionalClassKey[]
+function buildTermIndex(registry: Record<string, FunctionalClassEntry>): Map<string, FunctionalClassKey[]> {
+  const index = new Map<string, FunctionalClassKey[]>();
+  for (const [key, entry] of Object.entries(registry) as [FunctionalClassKey, FunctionalClassEntry][]) {
+    for (const term of entry.terms) {
+      const norm = normalizeTerm(term);
+      const existing = index.get(norm);
+      if (existing) {
+        if (!existing.includes(key)) existing.push(key);
+      } else {
+        index.set(norm, [key]);
+      }
     }
   }
+  return index;
+}
+
+const _termIndex = buildTermIndex(FUNCTIONAL_CLASS_REGISTRY);
+const _injectedTermIndexes = new WeakMap<Record<string, FunctionalClassEntry>, Map<string, FunctionalClassKey[]>>();
+
+/** Phase 47: registry in effect (injected or FUNCTIONAL_CLASS_REGISTRY). */
+function activeRegistry(): Record<string, FunctionalClassEntry> {
+  return getKnowledgeContext().functionalClasses ?? FUNCTIONAL_CLASS_REGISTRY;
+}
+
+function activeTermIndex(): Map<string, FunctionalClassKey[]> {
+  const injected = getKnowledgeContext().functionalClasses;
+  return injected ? cachedFor(_injectedTermIndexes, injected, () => buildTermIndex(injected)) : _termIndex;
+}
+
+/** Phase 47: Display label of a class in the registry in effect. */
+export function functionalClassLabel(key: FunctionalClassKey): string {
+  return activeRegistry()[key]?.label ?? key;
 }
 
 /**
@@ -144,5 +200,36 @@ for (const [key, entry] of Object.entries(FUNCTIONAL_CLASS_REGISTRY) as [
  */
 export function matchFunctionalClasses(name: string): FunctionalClassKey[] {
   const norm = normalizeTerm(name);
-  return _termIndex.get(norm) ?? [];
+  return activeTermIndex().get(norm) ?? [];
+}
+
+/**
+ * Phase 26: Classes that count for class-level interaction rules.
+ * Same as matchFunctionalClasses, minus herbal hints.
+ */
+export function matchInteractionClasses(name: string): FunctionalClassKey[] {
+  if (HERBAL_HINT_TERMS.has(normalizeTerm(name))) return [];
+  return matchFunctionalClasses(name);
+}
+
+/**
+ * Phase 26: Find the class rule that applies between two sets of classes.
+ * Symmetric; high beats medium, ties keep registry order.
+ */
+export function findFunctionalClassInteraction(
+  a: FunctionalClassKey[],
+  b: FunctionalClassKey[],
+): { rule: FunctionalClassInteraction; classA: FunctionalClassKey; classB: FunctionalClassKey } | null {
+  let best: { rule: FunctionalClassInteraction; classA: FunctionalClassKey; classB: FunctionalClassKey } | null = null;
+  for (const rule of getKnowledgeContext().functionalClassInteractions ?? FUNCTIONAL_CLASS_INTERACTIONS) {
+    const [x, y] = rule.classes;
+    let hit: [FunctionalClassKey, FunctionalClassKey] | null = null;
+    if (a.includes(x) && b.includes(y)) hit = [x, y];
+    else if (a.includes(y) && b.includes(x)) hit = [y, x];
+    if (!hit) continue;
+    if (!best || (rule.risk === "high" && best.rule.risk !== "high")) {
+      best = { rule, classA: hit[0], classB: hit[1] };
+    }
+  }
+  return best;
 }
@@ -14,6 +14,11 @@
  *   baselineSymptomRate(symptomKey)– symptom count / total ingestible events in window
  *   lift                           – (hits / exposures) / baselineSymptomRate
  *                                    (guarded against divide-by-zero)
+ *
+ * Phase 35 – Confirmed links:
+ *   A reaction report (symptom with linked_check_id) is a hit only for the
+ *   triggers of its linked check, regardless of timing, and never for any
+ *   other trigger. confirmedHits counts those hits separately.
  */
 
 import { getSupabaseClient } from "../supabaseClient.js";
@@ -26,12 +31,15 @@ interface TimelineRow {
   created_at: string;
   event_type: string;
   event_data: Record<string, unknown>;
+  linked_check_id: string | null;
 }
 
 export interface EvidenceStats {
   exposures: number;
   hits: number;
   lift: number;
+  /** Phase 35: hits confirmed by a reaction report (subset of hits) */
+  confirmedHits: number;
 }
 
 /**
@@ -104,7 +112,7 @@ async function loadTimeline(
   // Fetch only the columns we need from health_events
   const { data: events, error: eventsErr } = await supabase
     .from("health_events")
-    .select("check_id, event_type, event_data")
+    .select("check_id, event_type, event_data, linked_check_id")
     .in("check_id", checkIds);
 
   if (eventsErr) {
@@ -116,6 +124,7 @@ async function loadTimeline(
     created_at: timeMap.get(ev.check_id) ?? "",
     event_type: ev.event_type,
     event_data: ev.event_data ?? {},
+    linked_check_id: ev.linked_check_id ?? null,
   }));
 }
 
@@ -166,6 +175,7 @@ export async function buildEvidenceContext(
   // ── hits: for each (trigger, symptom) pair, count symptom occurrences
   //    within HIT_WINDOW_HOURS after the trigger ─────────────────────
   const hitMap = new Map<string, number>();
+  const confirmedHitMap = new Map<string, number>();
 
   // Sort both arrays by time for efficient scanning
   ingestibles.sort(
@@ -182,11 +192,20 @@ export async function buildEvidenceContext(
     const triggerKey = normalize(eventLabel(ing));
 
     for (const sym of symptoms) {
+      // Phase 35: reaction reports only count for their linked check
+      if (sym.linked_check_id) {
+        if (sym.linked_check_id !== ing.check_id) continue;
+        const pairKey = `${triggerKey}\0${normalize(eventLabel(sym))}`;
+        hitMap.set(pairKey, (hitMap.get(pairKey) ?? 0) + 1);
+        confirmedHitMap.set(pairKey, (confirmedHitMap.get(pairKey) ?? 0) + 1);
+        continue;
+      }
+
       const symTime = new Date(sym.created_at).getTime();
       // Symptom must come after the trigger
       if (symTime <= ingTime) continue;
-      // Past the hit window — since symptoms are sorted, no point continuing
-      if (symTime - ingTime > hitWindowMs) break;
+      // Past the hit window (no break: linked reports later in the list still count)
+      if (symTime - ingTime > hitWindowMs) continue;
 
       const symptomKey = normalize(eventLabel(sym));
       const pairKey = `${triggerKey}\0${symptomKey}`;
@@ -203,6 +222,7 @@ export async function buildEvidenceContext(
       const sKey = normalize(symptomKey);
       const exposures = exposureMap.get(tKey) ?? 0;
       const hits = hitMap.get(`${tKey}\0${sKey}`) ?? 0;
+      const confirmedHits = confirmedHitMap.get(`${tKey}\0${sKey}`) ?? 0;
 
       // baselineSymptomRate = symptom count / totalIngestibles
       const symptomCount = symptomCountMap.get(sKey) ?? 0;
@@ -218,7 +238,7 @@ export async function buildEvidenceContext(
       // Round to 2 decimal places for readability
       lift = Math.round(lift * 100) / 100;
 
-      return { exposures, hits, lift };
+      return { exposures, hits, lift, confirmedHits };
     },
   };
 }
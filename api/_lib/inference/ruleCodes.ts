@@ -13,6 +13,10 @@ export const RULE_SUPPLEMENT_MED_INTERACTION = "AA-RULE-SM-001";
 export const RULE_FOOD_MED_INTERACTION = "AA-RULE-FM-001";
 /** O8 — Registry entity risk tag matched profile allergy token */
 export const RULE_ENTITY_RISK_TAG = "AA-RULE-ER-001";
+/** Phase 26 — Functional class rule (e.g. any nsaid + any anticoagulant) */
+export const RULE_FUNCTIONAL_CLASS_INTERACTION = "AA-RULE-FC-001";
+/** Phase 28 — Precautionary "may contain" / shared-facility label statement */
+export const RULE_PRECAUTIONARY_ALLERGEN = "AA-RULE-PC-001";
 
 export function ruleCodeFor(rule: string): string | null {
   switch (rule) {
@@ -30,6 +34,10 @@ export function ruleCodeFor(rule: string): string | null {
       return RULE_FOOD_MED_INTERACTION;
     case "entity_risk_tag_match":
       return RULE_ENTITY_RISK_TAG;
+    case "functional_class_interaction":
+      return RULE_FUNCTIONAL_CLASS_INTERACTION;
+    case "precautionary_allergen":
+      return RULE_PRECAUTIONARY_ALLERGEN;
     default:
       return null;
   }
@@ -15,6 +15,8 @@ export interface StoredCandidate {
   name: string;
   aliases: string[];
   class: string | null;
+  rxcui: string | null;
+  ingredients: string[] | null;
   source_dataset: string;
   source_version: string;
   source_record_id: string;
@@ -34,6 +36,8 @@ function toRow(c: IngestionCandidate): Record<string, unknown> {
     name: c.name,
     aliases: c.aliases,
     class: c.class ?? null,
+    rxcui: c.rxcui ?? null,
+    ingredients: c.ingredients ?? [],
     source_dataset: c.source.dataset,
     source_version: c.source.version,
     source_record_id: c.source.recordId,
@@ -52,6 +56,8 @@ function fromRow(r: StoredCandidate): IngestionCandidate {
     name: r.name,
     aliases: Array.isArray(r.aliases) ? r.aliases : [],
     class: r.class ?? undefined,
+    rxcui: r.rxcui ?? undefined,
+    ingredients: Array.isArray(r.ingredients) && r.ingredients.length > 0 ? r.ingredients : undefined,
     source: {
       dataset: r.source_dataset,
       version: r.source_version,
@@ -31,6 +31,10 @@ export interface IngestionCandidate {
   name: string;
   aliases: string[];
   class?: string;
+  /** Phase 41: RxNorm concept id for RxNorm-sourced candidates */
+  rxcui?: string;
+  /** Phase 41: ingredient canonical ids when the concept is a combination product */
+  ingredients?: string[];
   source: IngestionSource;
   status: CandidateStatus;
   matchedExisting?: MatchedExisting;
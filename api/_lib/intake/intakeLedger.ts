@@ -0,0 +1,261 @@
+/**
+ * Phase 34 – Rolling Intake Ledger
+ *
+ * Builds a per-profile ledger of medication / supplement intake from
+ * persisted health_events and detects patterns that only show up across
+ * checks (detectFunctionalStacking looks within a single check):
+ *
+ *   - class_stacking: ≥2 different products of the same drug class taken
+ *     in ≥2 separate checks (Advil in the morning, Aleve at lunch).
+ *   - duplicate_ingredient: one active ingredient reached through ≥2
+ *     different products, or a known total dose above DAILY_INGREDIENT_LIMITS
+ *     within any rolling 24 hours.
+ *
+ * Phase 41: combination products list each ingredient, so NyQuil and Tylenol
+ * meet on acetaminophen. Their product-level dose is not attributed to any
+ * single ingredient.
+ *
+ * Every persisted medication/supplement event counts as an intake; "just
+ * checking" (dryRun) extractions are never persisted and never counted, and
+ * the items of a persisted batch check (Phase 44, event_data.batchItem) are
+ * skipped.
+ * Findings feed the insights feed and add a vigilance contribution.
+ * Deterministic, read-only.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import { extractIngestibleName } from "../inference/detectFunctionalStacking.js";
+import { ingredientSubjects, toInteractionSubject } from "../inference/drugInteractions.js";
+import {
+  doseTextFromFields,
+  formatAmount,
+  parseDose,
+  type ParsedDose,
+} from "../inference/doseThresholds.js";
+import { DAILY_INGREDIENT_LIMITS } from "../knowledge/doseThresholds.registry.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const INTAKE_LEDGER_DEFAULT_WINDOW_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Drug classes (drugs.registry.ts) where two different members add up. */
+export const LEDGER_STACKING_CLASSES: Record<string, string> = {
+  nsaid: "NSAID",
+  anticoagulant: "Anticoagulant / Blood Thinner",
+  benzodiazepine: "Benzodiazepine",
+  opioid: "Opioid",
+  ssri: "SSRI",
+  antihistamine: "Antihistamine",
+  sedative: "Sedative",
+};
+
+const FINDING_SEVERITY = {
+  class_stacking: 60,
+  duplicate_ingredient: 70,
+  daily_limit: 90,
+} as const;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** health_events row shape read by the ledger. */
+export interface IntakeEventRow {
+  check_id: string;
+  created_at: string;
+  event_type: string;
+  event_data: Record<string, unknown> | null;
+}
+
+export interface IntakeEntry {
+  checkId: string;
+  takenAt: string;
+  /** Name as entered, e.g. "Advil" */
+  name: string;
+  canonicalId: string;
+  drugClass?: string;
+  /** Active ingredient canonical ids; a single-ingredient product lists itself */
+  ingredients: string[];
+  dose: ParsedDose | null;
+}
+
+export type IntakeFindingKind = "class_stacking" | "duplicate_ingredient";
+
+export interface IntakeFinding {
+  kind: IntakeFindingKind;
+  /** Drug class (class_stacking) or ingredient canonical id (duplicate_ingredient) */
+  key: string;
+  label: string;
+  description: string;
+  /** Distinct names as entered, in intake order */
+  items: string[];
+  checkIds: string[];
+  firstAt: string;
+  lastAt: string;
+  /** 0–100, used for feed scoring and the vigilance contribution */
+  severity: number;
+  riskLevel: "medium" | "high";
+  /** duplicate_ingredient: highest known total within any rolling 24 hours */
+  totalDose?: string;
+  dailyLimit?: string;
+  exceedsDailyLimit?: boolean;
+}
+
+// ── Ledger ───────────────────────────────────────────────────────────
+
+/** Build ledger entries (oldest first) from health_events rows. Non-ingestibles and batch items are skipped. */
+export function buildIntakeLedger(rows: IntakeEventRow[]): IntakeEntry[] {
+  const entries: IntakeEntry[] = [];
+  for (const row of rows) {
+    const data = row.event_data ?? {};
+    // Phase 44: items of a persisted batch check were evaluated, not taken
+    if (data.batchItem !== undefined) continue;
+    const name = extractIngestibleName(row.event_type, data);
+    if (!name) continue;
+    const subject = toInteractionSubject(name);
+    entries.push({
+      checkId: row.check_id,
+      takenAt: row.created_at,
+      name,
+      canonicalId: subject.canonicalId,
+      ...(subject.class ? { drugClass: subject.class } : {}),
+      ingredients: ingredientSubjects(subject).map((i) => i.canonicalId),
+      dose: parseDose(doseTextFromFields(data, name)),
+    });
+  }
+  return entries.sort((a, b) => a.takenAt.localeCompare(b.takenAt) || a.checkId.localeCompare(b.checkId));
+}
+
+function distinct<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+/** Highest total dose (in the limit's unit) over any rolling 24 hours. */
+function maxRollingDailyDose(entries: IntakeEntry[], unit: ParsedDose["unit"]): number {
+  const dosed = entries.filter((e) => e.dose?.unit === unit && e.ingredients.length === 1);
+  let max = 0;
+  for (const end of dosed) {
+    const endMs = new Date(end.takenAt).getTime();
+    let total = 0;
+    for (const e of dosed) {
+      const ms = new Date(e.takenAt).getTime();
+      if (ms <= endMs && endMs - ms < DAY_MS) total += e.dose!.amount;
+    }
+    max = Math.max(max, total);
+  }
+  return max;
+}
+
+function span(entries: IntakeEntry[]): Pick<IntakeFinding, "items" | "checkIds" | "firstAt" | "lastAt"> {
+  return {
+    items: distinct(entries.map((e) => e.name)),
+    checkIds: distinct(entries.map((e) => e.checkId)),
+    firstAt: entries[0].takenAt,
+    lastAt: entries[entries.length - 1].takenAt,
+  };
+}
+
+/**
+ * Detect cross-check stacking and duplicate-ingredient findings in a ledger.
+ * Order: highest severity first, then most recent.
+ */
+export function detectIntakeFindings(ledger: IntakeEntry[]): IntakeFinding[] {
+  const findings: IntakeFinding[] = [];
+
+  // ── Same-class stacking across checks ──────────────────────────────
+  const byClass = new Map<string, IntakeEntry[]>();
+  for (const entry of ledger) {
+    if (!entry.drugClass || !(entry.drugClass in LEDGER_STACKING_CLASSES)) continue;
+    const list = byClass.get(entry.drugClass) ?? [];
+    list.push(entry);
+    byClass.set(entry.drugClass, list);
+  }
+  for (const [drugClass, entries] of byClass) {
+    const products = distinct(entries.map((e) => e.canonicalId));
+    const checks = distinct(entries.map((e) => e.checkId));
+    if (products.length < 2 || checks.length < 2) continue;
+    const classLabel = LEDGER_STACKING_CLASSES[drugClass];
+    const s = span(entries);
+    findings.push({
+      kind: "class_stacking",
+      key: drugClass,
+      label: `Same-Class Intake: ${classLabel}`,
+      description: `${products.length} different ${classLabel} products taken across ${checks.length} checks (${s.items.join(", ")}). Their effects and side effects add up.`,
+      ...s,
+      severity: FINDING_SEVERITY.class_stacking,
+      riskLevel: "medium",
+    });
+  }
+
+  // ── Duplicate ingredient / daily limit ─────────────────────────────
+  const byIngredient = new Map<string, IntakeEntry[]>();
+  for (const entry of ledger) {
+    for (const ingredient of entry.ingredients) {
+      const list = byIngredient.get(ingredient) ?? [];
+      list.push(entry);
+      byIngredient.set(ingredient, list);
+    }
+  }
+  for (const [ingredient, entries] of byIngredient) {
+    const products = distinct(entries.map((e) => e.canonicalId));
+    const limit = DAILY_INGREDIENT_LIMITS[ingredient];
+    const total = limit ? maxRollingDailyDose(entries, limit.unit) : 0;
+    const exceeds = limit !== undefined && total > limit.amount;
+    if (products.length < 2 && !exceeds) continue;
+
+    const s = span(entries);
+    const dailyLimit = limit ? `${formatAmount(limit.amount, limit.unit)}/day` : undefined;
+    const totalDose = total > 0 && limit ? formatAmount(total, limit.unit) : undefined;
+    const base = products.length > 1
+      ? `${ingredient} is in ${s.items.join(", ")}`
+      : `${ingredient} taken ${entries.length} times (${s.items.join(", ")})`;
+    findings.push({
+      kind: "duplicate_ingredient",
+      key: ingredient,
+      label: `Duplicate Ingredient: ${ingredient}`,
+      description: exceeds
+        ? `${base}; ${totalDose} within 24 hours is above the ${dailyLimit} limit.`
+        : `${base}. Count every product toward the daily total.`,
+      ...s,
+      severity: exceeds ? FINDING_SEVERITY.daily_limit : FINDING_SEVERITY.duplicate_ingredient,
+      riskLevel: exceeds ? "high" : "medium",
+      ...(totalDose ? { totalDose } : {}),
+      ...(dailyLimit ? { dailyLimit } : {}),
+      ...(limit ? { exceedsDailyLimit: exceeds } : {}),
+    });
+  }
+
+  return findings.sort((a, b) => b.severity - a.severity || b.lastAt.localeCompare(a.lastAt));
+}
+
+// ── DB wrapper ───────────────────────────────────────────────────────
+
+/** Fetch the profile's ledger for the window (read-only). */
+export async function fetchIntakeLedger(
+  profileId: string,
+  windowHours: number = INTAKE_LEDGER_DEFAULT_WINDOW_HOURS
+): Promise<IntakeEntry[]> {
+  const supabase = getSupabaseClient();
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("health_events")
+    .select("check_id, created_at, event_type, event_data")
+    .eq("profile_id", profileId)
+    .in("event_type", ["medication", "supplement"])
+    .gte("created_at", since)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Intake ledger query failed: ${error.message}`);
+  }
+  return buildIntakeLedger((data ?? []) as IntakeEventRow[]);
+}
+
+/** Fetch the ledger and detect findings for the window. */
+export async function detectIntakeStacking(input: {
+  profileId: string;
+  windowHours?: number;
+}): Promise<IntakeFinding[]> {
+  return detectIntakeFindings(await fetchIntakeLedger(input.profileId, input.windowHours));
+}
@@ -0,0 +1,406 @@
+/**
+ * Phase 43 – Dish Knowledge Registry
+ *
+ * Curated, versioned replacement for DISH_COMMON_ALLERGENS (Phase 18.1.1).
+ * Each dish lists its cuisine, typical ingredients and the allergens it may
+ * carry, with a probability band and — where the allergen is not obvious from
+ * the dish name — the hidden source ("fish sauce" in pad thai). Hidden sources
+ * become the "ask the server" questions in menu mode.
+ *
+ * Allergen keys are taxonomy parent keys (allergenTaxonomy.ts) plus "peanut".
+ * Changes must go through PR Packager → Replay → Merge (bump
+ * REGISTRY_VERSIONS.dish).
+ */
+
+import { REGISTRY_VERSIONS } from "./registryVersions.js";
+
+export const DISH_REGISTRY_VERSION = REGISTRY_VERSIONS.dish;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/**
+ * How often a typical restaurant version contains the allergen:
+ *   always    – defining ingredient (baklava → tree nuts)
+ *   usually   – most versions (pad thai → peanut)
+ *   sometimes – regional or house variations (spring rolls → shrimp)
+ */
+export type DishAllergenBand = "always" | "usually" | "sometimes";
+
+export interface DishAllergen {
+  allergen: string;
+  band: DishAllergenBand;
+  /** Ingredient that carries the allergen when the dish name does not say so. */
+  hiddenSource?: string;
+}
+
+export interface DishEntry {
+  /** Stable identifier, e.g. "pad-thai" */
+  id: string;
+  name: string;
+  /** Lowercase alternative names matched in meal / menu text. */
+  aliases: string[];
+  cuisine: string;
+  typicalIngredients: string[];
+  allergens: DishAllergen[];
+}
+
+/** Bands that make getDishAllergenMatch treat the dish as containing the allergen. */
+export const COMMON_DISH_BANDS: readonly DishAllergenBand[] = ["always", "usually"];
+
+// ── Registry ─────────────────────────────────────────────────────────
+
+export const DISHES: DishEntry[] = [
+  // === Pre-43 dishes (formerly DISH_COMMON_ALLERGENS) ===
+  {
+    id: "pad-thai",
+    name: "pad thai",
+    aliases: ["pad thai noodles", "thai noodles"],
+    cuisine: "thai",
+    typicalIngredients: ["rice noodles", "egg", "tamarind", "fish sauce", "peanuts", "bean sprouts"],
+    allergens: [
+      { allergen: "peanut", band: "usually", hiddenSource: "crushed peanuts" },
+      { allergen: "fish", band: "usually", hiddenSource: "fish sauce" },
+      { allergen: "egg", band: "usually" },
+      { allergen: "shellfish", band: "sometimes", hiddenSource: "dried shrimp" },
+    ],
+  },
+  {
+    id: "kung-pao-chicken",
+    name: "kung pao chicken",
+    aliases: ["kung pao"],
+    cuisine: "chinese",
+    typicalIngredients: ["chicken", "peanuts", "dried chilies", "soy sauce", "sichuan pepper"],
+    allergens: [
+      { allergen: "peanut", band: "always", hiddenSource: "roasted peanuts" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "wheat", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "sesame", band: "sometimes", hiddenSource: "sesame oil" },
+    ],
+  },
+  {
+    id: "satay",
+    name: "satay",
+    aliases: ["chicken satay"],
+    cuisine: "southeast asian",
+    typicalIngredients: ["grilled meat skewers", "peanut sauce", "coconut milk"],
+    allergens: [
+      { allergen: "peanut", band: "usually", hiddenSource: "peanut dipping sauce" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce marinade" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "fish sauce marinade" },
+    ],
+  },
+  {
+    id: "peanut-sauce",
+    name: "peanut sauce",
+    aliases: [],
+    cuisine: "southeast asian",
+    typicalIngredients: ["peanuts", "coconut milk", "soy sauce", "lime"],
+    allergens: [
+      { allergen: "peanut", band: "always" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce" },
+    ],
+  },
+  {
+    id: "spring-rolls",
+    name: "spring rolls",
+    aliases: ["spring roll", "vietnamese spring roll", "vietnamese spring rolls"],
+    cuisine: "vietnamese",
+    typicalIngredients: ["rice paper", "vermicelli", "herbs", "shrimp", "peanut dipping sauce"],
+    allergens: [
+      { allergen: "peanut", band: "usually", hiddenSource: "peanut dipping sauce" },
+      { allergen: "shellfish", band: "sometimes", hiddenSource: "shrimp filling" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "fish sauce (nuoc cham)" },
+      { allergen: "wheat", band: "sometimes", hiddenSource: "wheat wrappers (fried rolls)" },
+    ],
+  },
+  {
+    id: "asian-noodles",
+    name: "asian noodles",
+    aliases: ["asian noodle"],
+    cuisine: "pan-asian",
+    typicalIngredients: ["noodles", "soy sauce", "peanut sauce", "vegetables"],
+    allergens: [
+      { allergen: "peanut", band: "usually", hiddenSource: "peanut sauce" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "wheat", band: "usually", hiddenSource: "wheat noodles" },
+    ],
+  },
+  {
+    id: "mole",
+    name: "mole",
+    aliases: ["mole sauce"],
+    cuisine: "mexican",
+    typicalIngredients: ["dried chilies", "chocolate", "almonds", "sesame seeds", "bread"],
+    allergens: [
+      { allergen: "tree_nut", band: "usually", hiddenSource: "ground almonds" },
+      { allergen: "sesame", band: "usually", hiddenSource: "sesame seeds" },
+      { allergen: "peanut", band: "sometimes", hiddenSource: "peanuts in the sauce base" },
+      { allergen: "wheat", band: "sometimes", hiddenSource: "bread used as thickener" },
+    ],
+  },
+  {
+    id: "pesto",
+    name: "pesto",
+    aliases: ["pesto sauce"],
+    cuisine: "italian",
+    typicalIngredients: ["basil", "pine nuts", "parmesan", "olive oil", "garlic"],
+    allergens: [
+      { allergen: "tree_nut", band: "usually", hiddenSource: "pine nuts" },
+      { allergen: "dairy", band: "usually", hiddenSource: "parmesan" },
+    ],
+  },
+  {
+    id: "baklava",
+    name: "baklava",
+    aliases: ["baklava pastry"],
+    cuisine: "middle eastern",
+    typicalIngredients: ["phyllo", "walnuts", "pistachios", "butter", "honey"],
+    allergens: [
+      { allergen: "tree_nut", band: "always" },
+      { allergen: "wheat", band: "always", hiddenSource: "phyllo dough" },
+      { allergen: "dairy", band: "usually", hiddenSource: "butter" },
+    ],
+  },
+  {
+    id: "marzipan",
+    name: "marzipan",
+    aliases: [],
+    cuisine: "european",
+    typicalIngredients: ["almond paste", "sugar"],
+    allergens: [
+      { allergen: "tree_nut", band: "always", hiddenSource: "almond paste" },
+      { allergen: "egg", band: "sometimes", hiddenSource: "egg white binder" },
+    ],
+  },
+  {
+    id: "frangipane",
+    name: "frangipane",
+    aliases: [],
+    cuisine: "french",
+    typicalIngredients: ["ground almonds", "butter", "sugar", "eggs", "flour"],
+    allergens: [
+      { allergen: "tree_nut", band: "always", hiddenSource: "almond cream" },
+      { allergen: "egg", band: "usually" },
+      { allergen: "dairy", band: "usually", hiddenSource: "butter" },
+      { allergen: "wheat", band: "usually", hiddenSource: "flour" },
+    ],
+  },
+
+  // === Phase 43 additions ===
+  {
+    id: "pho",
+    name: "pho",
+    aliases: [],
+    cuisine: "vietnamese",
+    typicalIngredients: ["rice noodles", "beef broth", "herbs", "fish sauce", "hoisin"],
+    allergens: [
+      { allergen: "fish", band: "usually", hiddenSource: "fish sauce in the broth" },
+      { allergen: "soy", band: "sometimes", hiddenSource: "hoisin sauce" },
+      { allergen: "wheat", band: "sometimes", hiddenSource: "hoisin sauce" },
+    ],
+  },
+  {
+    id: "banh-mi",
+    name: "banh mi",
+    aliases: [],
+    cuisine: "vietnamese",
+    typicalIngredients: ["baguette", "pickled vegetables", "pate", "mayonnaise", "fish sauce"],
+    allergens: [
+      { allergen: "wheat", band: "always", hiddenSource: "baguette" },
+      { allergen: "egg", band: "usually", hiddenSource: "mayonnaise" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "fish sauce" },
+      { allergen: "soy", band: "sometimes", hiddenSource: "soy sauce (Maggi)" },
+    ],
+  },
+  {
+    id: "thai-curry",
+    name: "thai curry",
+    aliases: ["green curry", "red curry", "thai green curry", "thai red curry", "yellow curry"],
+    cuisine: "thai",
+    typicalIngredients: ["curry paste", "coconut milk", "fish sauce", "vegetables"],
+    allergens: [
+      { allergen: "fish", band: "usually", hiddenSource: "fish sauce" },
+      { allergen: "shellfish", band: "usually", hiddenSource: "shrimp paste in the curry paste" },
+    ],
+  },
+  {
+    id: "massaman-curry",
+    name: "massaman curry",
+    aliases: ["massaman"],
+    cuisine: "thai",
+    typicalIngredients: ["curry paste", "coconut milk", "potatoes", "peanuts", "fish sauce"],
+    allergens: [
+      { allergen: "peanut", band: "usually", hiddenSource: "roasted peanuts" },
+      { allergen: "fish", band: "usually", hiddenSource: "fish sauce" },
+      { allergen: "shellfish", band: "usually", hiddenSource: "shrimp paste in the curry paste" },
+    ],
+  },
+  {
+    id: "pad-see-ew",
+    name: "pad see ew",
+    aliases: [],
+    cuisine: "thai",
+    typicalIngredients: ["wide rice noodles", "dark soy sauce", "egg", "chinese broccoli"],
+    allergens: [
+      { allergen: "soy", band: "always", hiddenSource: "dark soy sauce" },
+      { allergen: "wheat", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "egg", band: "usually" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "fish sauce" },
+    ],
+  },
+  {
+    id: "fried-rice",
+    name: "fried rice",
+    aliases: [],
+    cuisine: "chinese",
+    typicalIngredients: ["rice", "egg", "soy sauce", "scallions", "sesame oil"],
+    allergens: [
+      { allergen: "egg", band: "usually" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "sesame", band: "sometimes", hiddenSource: "sesame oil" },
+      { allergen: "shellfish", band: "sometimes", hiddenSource: "shrimp" },
+    ],
+  },
+  {
+    id: "ramen",
+    name: "ramen",
+    aliases: [],
+    cuisine: "japanese",
+    typicalIngredients: ["wheat noodles", "broth", "soy sauce", "soft-boiled egg", "sesame"],
+    allergens: [
+      { allergen: "wheat", band: "always", hiddenSource: "wheat noodles" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce or miso tare" },
+      { allergen: "egg", band: "usually", hiddenSource: "marinated egg" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "dashi (bonito) in the broth" },
+      { allergen: "sesame", band: "sometimes", hiddenSource: "sesame paste or oil" },
+    ],
+  },
+  {
+    id: "sushi",
+    name: "sushi",
+    aliases: ["sushi roll", "sushi rolls"],
+    cuisine: "japanese",
+    typicalIngredients: ["rice", "raw fish", "nori", "soy sauce", "sesame seeds"],
+    allergens: [
+      { allergen: "fish", band: "usually" },
+      { allergen: "soy", band: "usually", hiddenSource: "soy sauce" },
+      { allergen: "shellfish", band: "sometimes", hiddenSource: "imitation crab or shrimp" },
+      { allergen: "sesame", band: "sometimes", hiddenSource: "sesame seeds" },
+      { allergen: "egg", band: "sometimes", hiddenSource: "tamago or spicy mayo" },
+    ],
+  },
+  {
+    id: "tempura",
+    name: "tempura",
+    aliases: [],
+    cuisine: "japanese",
+    typicalIngredients: ["batter", "shrimp", "vegetables", "frying oil"],
+    allergens: [
+      { allergen: "wheat", band: "always", hiddenSource: "batter" },
+      { allergen: "egg", band: "usually", hiddenSource: "batter" },
+      { allergen: "shellfish", band: "sometimes", hiddenSource: "shared fryer with shrimp" },
+    ],
+  },
+  {
+    id: "hummus",
+    name: "hummus",
+    aliases: ["houmous"],
+    cuisine: "middle eastern",
+    typicalIngredients: ["chickpeas", "tahini", "lemon", "garlic", "olive oil"],
+    allergens: [{ allergen: "sesame", band: "always", hiddenSource: "tahini" }],
+  },
+  {
+    id: "falafel",
+    name: "falafel",
+    aliases: [],
+    cuisine: "middle eastern",
+    typicalIngredients: ["chickpeas", "herbs", "tahini sauce", "pita"],
+    allergens: [
+      { allergen: "sesame", band: "usually", hiddenSource: "tahini sauce" },
+      { allergen: "wheat", band: "sometimes", hiddenSource: "flour binder or pita" },
+    ],
+  },
+  {
+    id: "korma",
+    name: "korma",
+    aliases: ["chicken korma", "lamb korma"],
+    cuisine: "indian",
+    typicalIngredients: ["cashew paste", "cream", "yogurt", "spices"],
+    allergens: [
+      { allergen: "tree_nut", band: "usually", hiddenSource: "cashew or almond paste" },
+      { allergen: "dairy", band: "usually", hiddenSource: "cream or yogurt" },
+    ],
+  },
+  {
+    id: "caesar-salad",
+    name: "caesar salad",
+    aliases: ["caesar"],
+    cuisine: "american",
+    typicalIngredients: ["romaine", "caesar dressing", "parmesan", "croutons"],
+    allergens: [
+      { allergen: "fish", band: "usually", hiddenSource: "anchovies in the dressing" },
+      { allergen: "egg", band: "usually", hiddenSource: "egg yolk in the dressing" },
+      { allergen: "dairy", band: "usually", hiddenSource: "parmesan" },
+      { allergen: "wheat", band: "usually", hiddenSource: "croutons" },
+    ],
+  },
+  {
+    id: "carbonara",
+    name: "carbonara",
+    aliases: ["spaghetti carbonara"],
+    cuisine: "italian",
+    typicalIngredients: ["pasta", "eggs", "pecorino", "guanciale"],
+    allergens: [
+      { allergen: "wheat", band: "always", hiddenSource: "pasta" },
+      { allergen: "egg", band: "always" },
+      { allergen: "dairy", band: "usually", hiddenSource: "pecorino" },
+    ],
+  },
+  {
+    id: "tiramisu",
+    name: "tiramisu",
+    aliases: [],
+    cuisine: "italian",
+    typicalIngredients: ["ladyfingers", "mascarpone", "eggs", "espresso", "cocoa"],
+    allergens: [
+      { allergen: "dairy", band: "always", hiddenSource: "mascarpone" },
+      { allergen: "egg", band: "always" },
+      { allergen: "wheat", band: "always", hiddenSource: "ladyfingers" },
+    ],
+  },
+  {
+    id: "paella",
+    name: "paella",
+    aliases: [],
+    cuisine: "spanish",
+    typicalIngredients: ["rice", "saffron", "shrimp", "mussels", "chicken"],
+    allergens: [
+      { allergen: "shellfish", band: "usually", hiddenSource: "shrimp, mussels or clams" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "fish stock" },
+    ],
+  },
+  {
+    id: "gumbo",
+    name: "gumbo",
+    aliases: [],
+    cuisine: "cajun",
+    typicalIngredients: ["roux", "okra", "sausage", "shrimp", "crab"],
+    allergens: [
+      { allergen: "wheat", band: "usually", hiddenSource: "roux" },
+      { allergen: "shellfish", band: "usually", hiddenSource: "shrimp or crab" },
+      { allergen: "fish", band: "sometimes", hiddenSource: "seafood stock" },
+    ],
+  },
+  {
+    id: "macarons",
+    name: "macarons",
+    aliases: ["macaron", "french macarons"],
+    cuisine: "french",
+    typicalIngredients: ["almond flour", "egg whites", "sugar", "buttercream"],
+    allergens: [
+      { allergen: "tree_nut", band: "always", hiddenSource: "almond flour" },
+      { allergen: "egg", band: "always", hiddenSource: "egg whites" },
+      { allergen: "dairy", band: "usually", hiddenSource: "buttercream filling" },
+    ],
+  },
+];
@@ -0,0 +1,98 @@
+/**
+ * Phase 33 – Dose Threshold Registry
+ *
+ * Dose thresholds attached to existing interactions (SUPPLEMENT_INTERACTION_MAP
+ * and DRUG_INTERACTIONS). A threshold never creates an interaction on its own:
+ * it re-grades a name match once the dose of the `subject` side is known,
+ * whether that dose comes from the extracted event (fields.dosage) or from
+ * the profile (current_medications[].dosage).
+ *
+ * Phase 34 – DAILY_INGREDIENT_LIMITS: maximum total daily dose per active
+ * ingredient (adult OTC labelling), used by the intake ledger to flag
+ * duplicate-ingredient overdosing across checks.
+ *
+ * Changes must go through PR Packager → Replay → Merge (bump
+ * REGISTRY_VERSIONS.doseThreshold).
+ */
+
+import { REGISTRY_VERSIONS } from "./registryVersions.js";
+import type { InteractionTarget } from "./interactions.registry.js";
+
+export const DOSE_THRESHOLD_REGISTRY_VERSION = REGISTRY_VERSIONS.doseThreshold;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** Comparable dose units. Mass doses are normalized to mg. */
+export type DoseUnit = "mg" | "iu";
+
+export interface DoseThresholdRule {
+  /** Stable identifier, e.g. "dose:vitamin-e+anticoagulant" */
+  id: string;
+  /** Canonical id of the dosed side (supplement or drug) */
+  subject: string;
+  /** The other side of the interaction: canonical drug id or drug class */
+  with: InteractionTarget[];
+  threshold: { amount: number; unit: DoseUnit; per: "day" | "dose" };
+  /** Grading when the dose is above the threshold */
+  above: { risk: "medium" | "high"; reason: string };
+  /** Grading at or below the threshold; "none" drops the match */
+  below: { risk: "none" | "medium"; reason: string };
+}
+
+// ── Registry ─────────────────────────────────────────────────────────
+
+export const DOSE_THRESHOLD_RULES: DoseThresholdRule[] = [
+  {
+    id: "dose:vitamin-e+anticoagulant",
+    subject: "vitamin-e",
+    with: [{ class: "anticoagulant" }, { canonicalId: "aspirin" }],
+    threshold: { amount: 400, unit: "iu", per: "day" },
+    above: {
+      risk: "medium",
+      reason: "Vitamin E above 400 IU/day can add to the bleeding risk of blood thinners",
+    },
+    below: {
+      risk: "none",
+      reason: "At or below 400 IU/day, vitamin E is not expected to change bleeding risk",
+    },
+  },
+  {
+    id: "dose:omega-3+anticoagulant",
+    subject: "omega-3-fatty-acid",
+    with: [{ class: "anticoagulant" }, { canonicalId: "aspirin" }],
+    threshold: { amount: 3000, unit: "mg", per: "day" },
+    above: {
+      risk: "medium",
+      reason: "Fish oil above 3 g/day may increase bleeding risk with blood thinners",
+    },
+    below: {
+      risk: "none",
+      reason: "At or below 3 g/day, fish oil is not expected to change bleeding risk",
+    },
+  },
+  {
+    id: "dose:aspirin+anticoagulant",
+    subject: "aspirin",
+    with: [{ class: "anticoagulant" }],
+    threshold: { amount: 100, unit: "mg", per: "dose" },
+    above: {
+      risk: "high",
+      reason: "Pain-relief doses of aspirin (over 100 mg) with a blood thinner sharply raise bleeding risk",
+    },
+    below: {
+      risk: "medium",
+      reason: "Low-dose aspirin (100 mg or less) is sometimes prescribed with a blood thinner but still adds bleeding risk; take it only as directed",
+    },
+  },
+];
+
+// ── Phase 34: Daily ingredient limits ────────────────────────────────
+
+/** Maximum total dose per rolling 24 hours, keyed by ingredient canonical id. */
+export const DAILY_INGREDIENT_LIMITS: Record<string, { amount: number; unit: DoseUnit }> = {
+  acetaminophen: { amount: 4000, unit: "mg" },
+  ibuprofen: { amount: 1200, unit: "mg" },
+  naproxen: { amount: 660, unit: "mg" },
+  aspirin: { amount: 4000, unit: "mg" },
+  diphenhydramine: { amount: 300, unit: "mg" },
+};
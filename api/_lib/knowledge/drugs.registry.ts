@@ -2,6 +2,9 @@
  * Phase 21a – Drug Registry
  *
  * Canonical medication entries with brand/generic aliases.
+ *
+ * Phase 41 – Entries carry RxNorm RxCUIs where known; combination
+ * products list their ingredient canonical ids instead of a class.
  */
 
 import { CanonicalEntity } from "./types.js";
@@ -14,30 +17,35 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "escitalopram",
     type: "drug",
+    rxcui: "321988",
     aliases: ["escitalopram", "lexapro", "cipralex", "escitalopram oxalate"],
     class: "ssri",
   },
   {
     id: "sertraline",
     type: "drug",
+    rxcui: "36437",
     aliases: ["sertraline", "zoloft"],
     class: "ssri",
   },
   {
     id: "fluoxetine",
     type: "drug",
+    rxcui: "4493",
     aliases: ["fluoxetine", "prozac", "sarafem"],
     class: "ssri",
   },
   {
     id: "paroxetine",
     type: "drug",
+    rxcui: "32937",
     aliases: ["paroxetine", "paxil", "pexeva"],
     class: "ssri",
   },
   {
     id: "citalopram",
     type: "drug",
+    rxcui: "2556",
     aliases: ["citalopram", "celexa"],
     class: "ssri",
   },
@@ -46,18 +54,21 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "warfarin",
     type: "drug",
+    rxcui: "11289",
     aliases: ["warfarin", "coumadin", "jantoven", "warfarin sodium"],
     class: "anticoagulant",
   },
   {
     id: "apixaban",
     type: "drug",
+    rxcui: "1364430",
     aliases: ["apixaban", "eliquis"],
     class: "anticoagulant",
   },
   {
     id: "rivaroxaban",
     type: "drug",
+    rxcui: "1114195",
     aliases: ["rivaroxaban", "xarelto"],
     class: "anticoagulant",
   },
@@ -70,6 +81,7 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "clopidogrel",
     type: "drug",
+    rxcui: "32968",
     aliases: ["clopidogrel", "plavix"],
     class: "anticoagulant",
   },
@@ -78,6 +90,7 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "metformin",
     type: "drug",
+    rxcui: "6809",
     aliases: ["metformin", "glucophage", "metformin hcl", "fortamet", "glumetza"],
     class: "biguanide",
   },
@@ -98,24 +111,28 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "lisinopril",
     type: "drug",
+    rxcui: "29046",
     aliases: ["lisinopril", "prinivil", "zestril"],
     class: "ace-inhibitor",
   },
   {
     id: "amlodipine",
     type: "drug",
+    rxcui: "17767",
     aliases: ["amlodipine", "norvasc"],
     class: "calcium-channel-blocker",
   },
   {
     id: "losartan",
     type: "drug",
+    rxcui: "52175",
     aliases: ["losartan", "cozaar"],
     class: "arb",
   },
   {
     id: "metoprolol",
     type: "drug",
+    rxcui: "6918",
     aliases: ["metoprolol", "lopressor", "toprol", "toprol xl"],
     class: "beta-blocker",
   },
@@ -130,12 +147,14 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "atorvastatin",
     type: "drug",
+    rxcui: "83367",
     aliases: ["atorvastatin", "lipitor"],
     class: "statin",
   },
   {
     id: "simvastatin",
     type: "drug",
+    rxcui: "36567",
     aliases: ["simvastatin", "zocor"],
     class: "statin",
   },
@@ -156,24 +175,28 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "ibuprofen",
     type: "drug",
+    rxcui: "5640",
     aliases: ["ibuprofen", "advil", "motrin"],
     class: "nsaid",
   },
   {
     id: "naproxen",
     type: "drug",
+    rxcui: "7258",
     aliases: ["naproxen", "aleve", "naprosyn"],
     class: "nsaid",
   },
   {
     id: "acetaminophen",
     type: "drug",
+    rxcui: "161",
     aliases: ["acetaminophen", "tylenol", "paracetamol"],
     class: "analgesic",
   },
   {
     id: "aspirin",
     type: "drug",
+    rxcui: "1191",
     aliases: ["aspirin", "bayer", "bufferin", "acetylsalicylic acid"],
     class: "nsaid",
   },
@@ -182,6 +205,7 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "levothyroxine",
     type: "drug",
+    rxcui: "10582",
     aliases: ["levothyroxine", "synthroid", "levoxyl", "tirosint"],
     class: "thyroid-hormone",
   },
@@ -190,6 +214,7 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "omeprazole",
     type: "drug",
+    rxcui: "7646",
     aliases: ["omeprazole", "prilosec"],
     class: "ppi",
   },
@@ -210,24 +235,28 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "cetirizine",
     type: "drug",
+    rxcui: "20610",
     aliases: ["cetirizine", "zyrtec"],
     class: "antihistamine",
   },
   {
     id: "loratadine",
     type: "drug",
+    rxcui: "28889",
     aliases: ["loratadine", "claritin"],
     class: "antihistamine",
   },
   {
     id: "diphenhydramine",
     type: "drug",
+    rxcui: "3498",
     aliases: ["diphenhydramine", "benadryl"],
     class: "antihistamine",
   },
   {
     id: "fexofenadine",
     type: "drug",
+    rxcui: "87636",
     aliases: ["fexofenadine", "allegra"],
     class: "antihistamine",
   },
@@ -236,24 +265,28 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "alprazolam",
     type: "drug",
+    rxcui: "596",
     aliases: ["alprazolam", "xanax"],
     class: "benzodiazepine",
   },
   {
     id: "lorazepam",
     type: "drug",
+    rxcui: "6470",
     aliases: ["lorazepam", "ativan"],
     class: "benzodiazepine",
   },
   {
     id: "diazepam",
     type: "drug",
+    rxcui: "3322",
     aliases: ["diazepam", "valium"],
     class: "benzodiazepine",
   },
   {
     id: "zolpidem",
     type: "drug",
+    rxcui: "39993",
     aliases: ["zolpidem", "ambien"],
     class: "sedative",
   },
@@ -262,18 +295,33 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "amoxicillin",
     type: "drug",
+    rxcui: "723",
     aliases: ["amoxicillin", "amoxil"],
     class: "antibiotic",
   },
   {
     id: "azithromycin",
     type: "drug",
+    rxcui: "18631",
     aliases: ["azithromycin", "zithromax", "z-pack"],
     class: "antibiotic",
   },
+  {
+    id: "clarithromycin",
+    type: "drug",
+    aliases: ["clarithromycin", "biaxin"],
+    class: "macrolide",
+  },
+  {
+    id: "erythromycin",
+    type: "drug",
+    aliases: ["erythromycin", "ery-tab", "erythrocin"],
+    class: "macrolide",
+  },
   {
     id: "ciprofloxacin",
     type: "drug",
+    rxcui: "2551",
     aliases: ["ciprofloxacin", "cipro"],
     class: "antibiotic",
   },
@@ -282,24 +330,28 @@ export const DRUGS: CanonicalEntity[] = [
   {
     id: "prednisone",
     type: "drug",
+    rxcui: "8640",
     aliases: ["prednisone", "deltasone"],
     class: "corticosteroid",
   },
   {
     id: "gabapentin",
     type: "drug",
+    rxcui: "25480",
     aliases: ["gabapentin", "neurontin"],
     class: "anticonvulsant",
   },
   {
     id: "tramadol",
     type: "drug",
+    rxcui: "10689",
     aliases: ["tramadol", "ultram"],
     class: "opioid",
   },
   {
     id: "digoxin",
     type: "drug",
+    rxcui: "3407",
     aliases: ["digoxin", "lanoxin"],
     class: "cardiac-glycoside",
   },
@@ -321,4 +373,99 @@ export const DRUGS: CanonicalEntity[] = [
     aliases: ["alendronate", "fosamax"],
     class: "bisphosphonate",
   },
+
+  // === Cough / Cold Ingredients (Phase 41) ===
+  {
+    id: "dextromethorphan",
+    type: "drug",
+    rxcui: "3289",
+    aliases: ["dextromethorphan", "delsym", "robitussin dm"],
+    class: "antitussive",
+  },
+  {
+    id: "doxylamine",
+    type: "drug",
+    rxcui: "3642",
+    aliases: ["doxylamine", "doxylamine succinate", "unisom"],
+    class: "antihistamine",
+  },
+  {
+    id: "phenylephrine",
+    type: "drug",
+    rxcui: "8163",
+    aliases: ["phenylephrine", "sudafed pe"],
+    class: "decongestant",
+  },
+  {
+    id: "pseudoephedrine",
+    type: "drug",
+    rxcui: "8896",
+    aliases: ["pseudoephedrine", "sudafed"],
+    class: "decongestant",
+  },
+  {
+    id: "guaifenesin",
+    type: "drug",
+    rxcui: "5032",
+    aliases: ["guaifenesin", "mucinex"],
+    class: "expectorant",
+  },
+  {
+    id: "caffeine",
+    type: "drug",
+    rxcui: "1886",
+    aliases: ["caffeine", "no-doz"],
+    class: "stimulant",
+  },
+
+  // === Combination Products (Phase 41) ===
+  // No class of their own: rules evaluate each listed ingredient.
+  {
+    id: "nyquil",
+    type: "drug",
+    aliases: ["nyquil", "vicks nyquil", "nyquil cold & flu"],
+    ingredients: ["acetaminophen", "dextromethorphan", "doxylamine"],
+  },
+  {
+    id: "dayquil",
+    type: "drug",
+    aliases: ["dayquil", "vicks dayquil", "dayquil cold & flu"],
+    ingredients: ["acetaminophen", "dextromethorphan", "phenylephrine"],
+  },
+  {
+    id: "excedrin",
+    type: "drug",
+    aliases: ["excedrin", "excedrin migraine", "excedrin extra strength"],
+    ingredients: ["acetaminophen", "aspirin", "caffeine"],
+  },
+  {
+    id: "tylenol-pm",
+    type: "drug",
+    aliases: ["tylenol pm"],
+    ingredients: ["acetaminophen", "diphenhydramine"],
+  },
+  {
+    id: "advil-pm",
+    type: "drug",
+    aliases: ["advil pm"],
+    ingredients: ["ibuprofen", "diphenhydramine"],
+  },
+  {
+    id: "aleve-pm",
+    type: "drug",
+    aliases: ["aleve pm"],
+    ingredients: ["naproxen", "diphenhydramine"],
+  },
+  {
+    id: "zyrtec-d",
+    type: "drug",
+    aliases: ["zyrtec-d", "zyrtec d"],
+    ingredients: ["cetirizine", "pseudoephedrine"],
+  },
+  {
+    id: "claritin-d",
+    type: "drug",
+    aliases: ["claritin-d", "claritin d"],
+    ingredients: ["loratadine", "pseudoephedrine"],
+  },
 ];
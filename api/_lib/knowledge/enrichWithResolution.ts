@@ -2,9 +2,12 @@
  * Phase 21a – Enrich Extraction with Entity Resolution
  *
  * Adds resolution data to extracted health events before inference.
+ *
+ * Phase 42 – A combination product (Excedrin) also gets one resolution per
+ * ingredient in ingredientResolutions; resolution stays the product itself.
  */
 
-import { resolveEntity } from "./entityResolver.js";
+import { resolveEntity, resolveIngredients } from "./entityResolver.js";
 import type { ResolvedEntity } from "./types.js";
 
 /** Health event shape from extraction (uses type, fields) */
@@ -17,6 +20,8 @@ interface HealthEvent {
 /** Event with resolution attached */
 export interface EnrichedHealthEvent extends HealthEvent {
   resolution?: ResolvedEntity;
+  /** Phase 42: ingredient-level resolutions (combination products only) */
+  ingredientResolutions?: ResolvedEntity[];
 }
 
 /**
@@ -55,6 +60,7 @@ export function enrichWithResolution(
     return {
       ...event,
       resolution,
+      ...(resolution.ingredients ? { ingredientResolutions: resolveIngredients(resolution) } : {}),
     } as EnrichedHealthEvent;
   });
 }
@@ -4,10 +4,14 @@
  * Resolves raw entity strings to canonical IDs across drug, supplement,
  * and food registries.
  * O8 / O8.1 — Runtime-promoted entities (Supabase) merge with static registries.
+ * Phase 41 — RxCUI lookup and ingredient expansion for combination products.
+ * Phase 47 — An active KnowledgeContext with registries / promotedEntities
+ * resolves against those instead (lookup maps cached per context).
  */
 
 import { CanonicalEntity, ResolvedEntity } from "./types.js";
 import { getAllMergedForResolution, mergeStaticAndPromotedForType } from "./registryMerge.js";
+import { cachedFor, getKnowledgeContext, type KnowledgeContext } from "./knowledgeContext.js";
 
 /** O8.1 — Applied promotion snapshots (hydrated from promoted_registry_entities + tests). */
 let promotedRegistryEntities: CanonicalEntity[] = [];
@@ -50,17 +54,36 @@ export function clearPromotedFoodEntitiesForTest(): void {
   clearPromotedRegistryEntitiesForTest();
 }
 
-let _aliasMap: Map<string, CanonicalEntity> | null = null;
-let _mealReplacements: { pattern: RegExp; canonical: string }[] | null = null;
+interface ResolutionCache {
+  aliasMap: Map<string, CanonicalEntity> | null;
+  rxcuiMap: Map<string, CanonicalEntity> | null;
+  mealReplacements: { pattern: RegExp; canonical: string }[] | null;
+}
+
+const emptyCache = (): ResolutionCache => ({ aliasMap: null, rxcuiMap: null, mealReplacements: null });
+
+let _cache: ResolutionCache = emptyCache();
+const _injectedCaches = new WeakMap<KnowledgeContext, ResolutionCache>();
 
 export function invalidateAliasMapCache(): void {
-  _aliasMap = null;
-  _mealReplacements = null;
+  _cache = emptyCache();
+}
+
+/** Phase 47: lookup maps for the registries in effect. */
+function activeCache(): ResolutionCache {
+  const context = getKnowledgeContext();
+  if (!context.registries && !context.promotedEntities) return _cache;
+  return cachedFor(_injectedCaches, context, emptyCache);
+}
+
+/** Phase 47: promoted entities in effect (injected or hydrated). */
+function activePromoted(): CanonicalEntity[] {
+  return getKnowledgeContext().promotedEntities ?? promotedRegistryEntities;
 }
 
 function buildAliasMap(): Map<string, CanonicalEntity> {
   const map = new Map<string, CanonicalEntity>();
-  const allEntities = getAllMergedForResolution(promotedRegistryEntities);
+  const allEntities = getAllMergedForResolution(activePromoted());
 
   for (const entity of allEntities) {
     for (const alias of entity.aliases) {
@@ -75,8 +98,21 @@ function buildAliasMap(): Map<string, CanonicalEntity> {
 }
 
 function getAliasMap(): Map<string, CanonicalEntity> {
-  if (!_aliasMap) _aliasMap = buildAliasMap();
-  return _aliasMap;
+  const cache = activeCache();
+  if (!cache.aliasMap) cache.aliasMap = buildAliasMap();
+  return cache.aliasMap;
+}
+
+function getRxcuiMap(): Map<string, CanonicalEntity> {
+  const cache = activeCache();
+  if (!cache.rxcuiMap) {
+    const map = new Map<string, CanonicalEntity>();
+    for (const entity of getAllMergedForResolution(activePromoted())) {
+      if (entity.rxcui && !map.has(entity.rxcui)) map.set(entity.rxcui, entity);
+    }
+    cache.rxcuiMap = map;
+  }
+  return cache.rxcuiMap;
 }
 
 function buildMealAliasReplacements(): { pattern: RegExp; canonical: string }[] {
@@ -84,7 +120,7 @@ function buildMealAliasReplacements(): { pattern: RegExp; canonical: string }[]
 
   const mealEntities = mergeStaticAndPromotedForType(
     "food",
-    promotedRegistryEntities
+    activePromoted()
   ).filter((e) => e.type === "food" || e.type === "allergen");
 
   for (const entity of mealEntities) {
@@ -104,8 +140,9 @@ function buildMealAliasReplacements(): { pattern: RegExp; canonical: string }[]
 }
 
 function getMealReplacements(): { pattern: RegExp; canonical: string }[] {
-  if (!_mealReplacements) _mealReplacements = buildMealAliasReplacements();
-  return _mealReplacements;
+  const cache = activeCache();
+  if (!cache.mealReplacements) cache.mealReplacements = buildMealAliasReplacements();
+  return cache.mealReplacements;
 }
 
 function escapeRegex(s: string): string {
@@ -124,6 +161,20 @@ function normalizeForLookup(raw: string): string {
     .replace(/\s+/g, " ");
 }
 
+function fromEntity(raw: string, entity: CanonicalEntity): ResolvedEntity {
+  return {
+    raw,
+    canonical: entity.id,
+    type: entity.type,
+    class: entity.class,
+    riskTags: entity.riskTags,
+    ...(entity.rxcui ? { rxcui: entity.rxcui } : {}),
+    ...(entity.ingredients && entity.ingredients.length > 0 ? { ingredients: entity.ingredients } : {}),
+    resolved: true,
+    confidence: 1.0,
+  };
+}
+
 /**
  * Resolve a single raw string to a canonical entity.
  */
@@ -132,17 +183,7 @@ export function resolveEntity(raw: string): ResolvedEntity {
 
   const entity = getAliasMap().get(normalized);
 
-  if (entity) {
-    return {
-      raw,
-      canonical: entity.id,
-      type: entity.type,
-      class: entity.class,
-      riskTags: entity.riskTags,
-      resolved: true,
-      confidence: 1.0,
-    };
-  }
+  if (entity) return fromEntity(raw, entity);
 
   return {
     raw,
@@ -155,6 +196,28 @@ export function resolveEntity(raw: string): ResolvedEntity {
   };
 }
 
+/**
+ * Phase 41: Resolve an RxNorm RxCUI to the entity that carries it.
+ * Returns null when no static or promoted entity has that RxCUI.
+ */
+export function resolveRxcui(rxcui: string): ResolvedEntity | null {
+  const entity = getRxcuiMap().get(rxcui.trim());
+  return entity ? fromEntity(rxcui, entity) : null;
+}
+
+/**
+ * Phase 41: Ingredient-level resolutions for an entity. A combination
+ * product expands to one entry per listed ingredient (raw = the product's
+ * raw input); anything else is returned as-is.
+ */
+export function resolveIngredients(resolved: ResolvedEntity): ResolvedEntity[] {
+  if (!resolved.ingredients || resolved.ingredients.length === 0) return [resolved];
+  return resolved.ingredients.map((id) => {
+    const ingredient = resolveEntity(id);
+    return { ...ingredient, raw: resolved.raw };
+  });
+}
+
 /**
  * Resolve multiple raw strings.
  */
@@ -191,12 +254,12 @@ export function getEntitiesByType(
 ): CanonicalEntity[] {
   switch (type) {
     case "drug":
-      return mergeStaticAndPromotedForType("drug", promotedRegistryEntities);
+      return mergeStaticAndPromotedForType("drug", activePromoted());
     case "supplement":
-      return mergeStaticAndPromotedForType("supplement", promotedRegistryEntities);
+      return mergeStaticAndPromotedForType("supplement", activePromoted());
     case "food":
     case "allergen":
-      return mergeStaticAndPromotedForType("food", promotedRegistryEntities).filter(
+      return mergeStaticAndPromotedForType("food", activePromoted()).filter(
         (e) => e.type === "food" || e.type === "allergen"
       );
     default:
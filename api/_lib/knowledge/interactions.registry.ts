@@ -0,0 +1,164 @@
+/**
+ * Phase 25 – Drug–Drug Interaction Registry
+ *
+ * Versioned, data-driven replacement for the hardcoded INTERACTION_MAP that
+ * lived in checkRisk.ts (and its copy in replayCheckRisk.ts).
+ *
+ * Each side of a rule names either a canonical drug id or a drug `class`
+ * from drugs.registry.ts, so "any ssri + tramadol" is one entry. Rules are
+ * symmetric: side order does not matter at lookup time.
+ * Changes must go through PR Packager → Replay → Merge (bump
+ * REGISTRY_VERSIONS.interaction).
+ */
+
+import { REGISTRY_VERSIONS } from "./registryVersions.js";
+
+export const INTERACTION_REGISTRY_VERSION = REGISTRY_VERSIONS.interaction;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** One side of an interaction: a canonical drug id or a drug class. */
+export type InteractionTarget = { canonicalId: string } | { class: string };
+
+/** Strength of the supporting evidence, not of the effect. */
+export type InteractionEvidence = "established" | "probable" | "theoretical";
+
+export interface DrugInteraction {
+  /** Stable identifier, e.g. "ddi:ssri+tramadol" */
+  id: string;
+  between: [InteractionTarget, InteractionTarget];
+  severity: "medium" | "high";
+  /** Short pharmacological mechanism, e.g. "additive serotonergic effect" */
+  mechanism: string;
+  evidence: InteractionEvidence;
+  /** User-facing sentence used in verdict reasoning. */
+  reason: string;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────
+
+export const DRUG_INTERACTIONS: DrugInteraction[] = [
+  // === Pre-25 pairs (formerly INTERACTION_MAP) ===
+  {
+    id: "ddi:ibuprofen+aspirin",
+    between: [{ canonicalId: "ibuprofen" }, { canonicalId: "aspirin" }],
+    severity: "medium",
+    mechanism: "ibuprofen blocks aspirin's antiplatelet effect; additive GI bleeding",
+    evidence: "established",
+    reason: "Ibuprofen can reduce aspirin's heart protection and adds stomach bleeding risk",
+  },
+  {
+    id: "ddi:ibuprofen+warfarin",
+    between: [{ canonicalId: "ibuprofen" }, { canonicalId: "warfarin" }],
+    severity: "high",
+    mechanism: "additive bleeding risk",
+    evidence: "established",
+    reason: "NSAIDs increase bleeding risk when combined with warfarin",
+  },
+  {
+    id: "ddi:ibuprofen+naproxen",
+    between: [{ canonicalId: "ibuprofen" }, { canonicalId: "naproxen" }],
+    severity: "medium",
+    mechanism: "duplicate NSAID therapy",
+    evidence: "established",
+    reason: "Taking two NSAIDs together raises the risk of stomach and kidney side effects",
+  },
+  {
+    id: "ddi:aspirin+warfarin",
+    between: [{ canonicalId: "aspirin" }, { canonicalId: "warfarin" }],
+    severity: "high",
+    mechanism: "additive antiplatelet and anticoagulant effect",
+    evidence: "established",
+    reason: "Aspirin increases bleeding risk when combined with warfarin",
+  },
+
+  // === Serotonergic ===
+  {
+    id: "ddi:ssri+tramadol",
+    between: [{ class: "ssri" }, { canonicalId: "tramadol" }],
+    severity: "high",
+    mechanism: "additive serotonergic effect; SSRI inhibition of tramadol metabolism",
+    evidence: "established",
+    reason: "Raises the risk of serotonin syndrome and seizures",
+  },
+
+  // === Bleeding ===
+  {
+    id: "ddi:ssri+nsaid",
+    between: [{ class: "ssri" }, { class: "nsaid" }],
+    severity: "medium",
+    mechanism: "SSRI platelet serotonin depletion plus NSAID GI injury",
+    evidence: "established",
+    reason: "Increases the risk of stomach bleeding",
+  },
+  {
+    id: "ddi:ssri+warfarin",
+    between: [{ class: "ssri" }, { canonicalId: "warfarin" }],
+    severity: "medium",
+    mechanism: "impaired platelet aggregation; possible CYP2C9 inhibition",
+    evidence: "probable",
+    reason: "May increase bleeding risk; INR monitoring is usually advised",
+  },
+  {
+    id: "ddi:ciprofloxacin+warfarin",
+    between: [{ canonicalId: "ciprofloxacin" }, { canonicalId: "warfarin" }],
+    severity: "medium",
+    mechanism: "CYP1A2 inhibition raises warfarin levels",
+    evidence: "probable",
+    reason: "Can raise INR and bleeding risk; INR monitoring is usually advised",
+  },
+
+  // === CYP3A4 (statins + macrolides) ===
+  {
+    id: "ddi:simvastatin+macrolide",
+    between: [{ canonicalId: "simvastatin" }, { class: "macrolide" }],
+    severity: "high",
+    mechanism: "CYP3A4 inhibition sharply raises simvastatin levels",
+    evidence: "established",
+    reason: "Greatly increases the risk of muscle breakdown (rhabdomyolysis)",
+  },
+  {
+    id: "ddi:atorvastatin+macrolide",
+    between: [{ canonicalId: "atorvastatin" }, { class: "macrolide" }],
+    severity: "medium",
+    mechanism: "CYP3A4 inhibition raises atorvastatin levels",
+    evidence: "established",
+    reason: "Increases the risk of statin muscle side effects",
+  },
+  {
+    id: "ddi:digoxin+macrolide",
+    between: [{ canonicalId: "digoxin" }, { class: "macrolide" }],
+    severity: "medium",
+    mechanism: "P-glycoprotein inhibition raises digoxin levels",
+    evidence: "probable",
+    reason: "Can raise digoxin to toxic levels",
+  },
+
+  // === CNS depression ===
+  {
+    id: "ddi:opioid+benzodiazepine",
+    between: [{ class: "opioid" }, { class: "benzodiazepine" }],
+    severity: "high",
+    mechanism: "additive CNS and respiratory depression",
+    evidence: "established",
+    reason: "Combining can cause dangerous drowsiness and slowed breathing",
+  },
+
+  // === Reduced efficacy ===
+  {
+    id: "ddi:clopidogrel+omeprazole",
+    between: [{ canonicalId: "clopidogrel" }, { canonicalId: "omeprazole" }],
+    severity: "medium",
+    mechanism: "CYP2C19 inhibition reduces clopidogrel activation",
+    evidence: "established",
+    reason: "May make clopidogrel less effective at preventing clots",
+  },
+  {
+    id: "ddi:clopidogrel+esomeprazole",
+    between: [{ canonicalId: "clopidogrel" }, { canonicalId: "esomeprazole" }],
+    severity: "medium",
+    mechanism: "CYP2C19 inhibition reduces clopidogrel activation",
+    evidence: "established",
+    reason: "May make clopidogrel less effective at preventing clots",
+  },
+];
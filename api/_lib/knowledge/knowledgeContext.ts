@@ -0,0 +1,80 @@
+/**
+ * Phase 47 – Injectable knowledge context
+ *
+ * checkRisk reads its knowledge (allergen taxonomy, entity registries,
+ * promoted entities, interaction maps, dose thresholds, dishes) through
+ * the helpers in inference/ and knowledge/. A KnowledgeContext overrides any
+ * subset of that knowledge for one synchronous call, so the replay gate and
+ * the PR packager evaluate candidate knowledge on the production code path
+ * instead of a copy of the engine:
+ *
+ *   checkRisk({ profile, events, knowledge: { taxonomy: candidate } })
+ *
+ * Every field is optional; an omitted field falls back to the in-repo
+ * knowledge (and, for promotedEntities, the hydrated promoted registry).
+ * Lookup maps derived from an override are cached per override object.
+ */
+
+import type { LoadedTaxonomy } from "./loadAllergenTaxonomy.js";
+import type { LoadedRegistry } from "./loadFunctionalRegistry.js";
+import type { CanonicalEntity } from "./types.js";
+import type { DishEntry } from "./dishes.registry.js";
+import type { DoseThresholdRule } from "./doseThresholds.registry.js";
+import type { DrugInteraction } from "./interactions.registry.js";
+import type { RegistryType } from "./registryMerge.js";
+import type { FunctionalClassInteraction } from "../inference/functionalClasses.js";
+import type { SupplementInteraction } from "../inference/supplementInteractions.js";
+import type { FoodMedicationInteraction } from "../inference/checkRisk.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface KnowledgeContext {
+  /** Allergen taxonomy, severity weights, cross-reactive registry, aliases, version */
+  taxonomy?: LoadedTaxonomy;
+  /** Static drug / supplement / food registries (per type) */
+  registries?: Partial<Record<RegistryType, CanonicalEntity[]>>;
+  /** Runtime-promoted entities; replaces the hydrated promoted registry */
+  promotedEntities?: CanonicalEntity[];
+  /** Functional class → terms (FUNCTIONAL_CLASS_REGISTRY shape) */
+  functionalClasses?: LoadedRegistry;
+  functionalClassInteractions?: FunctionalClassInteraction[];
+  drugInteractions?: DrugInteraction[];
+  supplementInteractions?: Record<string, SupplementInteraction>;
+  foodMedicationInteractions?: Record<string, FoodMedicationInteraction>;
+  doseThresholds?: DoseThresholdRule[];
+  dishes?: DishEntry[];
+}
+
+// ── Active context ───────────────────────────────────────────────────
+
+let active: KnowledgeContext = {};
+
+/** Knowledge overrides in effect (empty outside withKnowledgeContext). */
+export function getKnowledgeContext(): KnowledgeContext {
+  return active;
+}
+
+/**
+ * Run `fn` with `knowledge` in effect, restoring the previous context after
+ * (also on throw). `fn` must be synchronous — an awaited continuation would
+ * run after the context was restored.
+ */
+export function withKnowledgeContext<T>(knowledge: KnowledgeContext, fn: () => T): T {
+  const previous = active;
+  active = knowledge;
+  try {
+    return fn();
+  } finally {
+    active = previous;
+  }
+}
+
+/** Derived data for an override object, built once per object. */
+export function cachedFor<K extends object, V>(cache: WeakMap<K, V>, key: K, build: () => V): V {
+  let value = cache.get(key);
+  if (value === undefined) {
+    value = build();
+    cache.set(key, value);
+  }
+  return value;
+}
@@ -0,0 +1,170 @@
+/**
+ * Phase 48 – Knowledge snapshots
+ *
+ * Knowledge lives in many places, each versioned on its own (or not at all):
+ * the allergen taxonomy, the drug / supplement / food registries, promoted
+ * entities from Supabase, functional classes, the drug, supplement and
+ * food–medication interaction maps, dose thresholds, dishes and advice.
+ * A KnowledgeSnapshot serialises all of it into one bundle:
+ *
+ *   content – canonical JSON (object keys sorted, array order kept)
+ *   hash    – SHA-256 of that JSON; the bundle's identity
+ *
+ * Verdicts record the hash in meta.knowledgeSnapshot (stamped at
+ * persistence, next to registryVersions); the bundle is stored once in
+ * knowledge_snapshots (knowledgeSnapshotDb.ts). toKnowledgeContext turns a
+ * bundle back into a Phase 47 KnowledgeContext, so checkRisk can re-run a
+ * historical check with exactly the knowledge that produced it.
+ *
+ * Advice does not affect checkRisk; it is hashed so reports can be traced
+ * to a snapshot too.
+ */
+
+import { createHash } from "crypto";
+import { getDefaultTaxonomy, type LoadedTaxonomy } from "./loadAllergenTaxonomy.js";
+import type { LoadedRegistry } from "./loadFunctionalRegistry.js";
+import type { CanonicalEntity } from "./types.js";
+import type { RegistryType } from "./registryMerge.js";
+import { cachedFor, type KnowledgeContext } from "./knowledgeContext.js";
+import { DRUGS } from "./drugs.registry.js";
+import { SUPPLEMENTS } from "./supplements.registry.js";
+import { FOODS } from "./foods.registry.js";
+import { DISHES, type DishEntry } from "./dishes.registry.js";
+import { DOSE_THRESHOLD_RULES, type DoseThresholdRule } from "./doseThresholds.registry.js";
+import { DRUG_INTERACTIONS, type DrugInteraction } from "./interactions.registry.js";
+import { REGISTRY_VERSIONS } from "./registryVersions.js";
+import { getPromotedRegistryEntities } from "./entityResolver.js";
+import {
+  FUNCTIONAL_CLASS_INTERACTIONS,
+  FUNCTIONAL_CLASS_REGISTRY,
+  type FunctionalClassInteraction,
+} from "../inference/functionalClasses.js";
+import { SUPPLEMENT_INTERACTION_MAP, type SupplementInteraction } from "../inference/supplementInteractions.js";
+import { FOOD_MEDICATION_KEYWORDS, type FoodMedicationInteraction } from "../inference/checkRisk.js";
+import { ADVICE_REGISTRY, ADVICE_REGISTRY_VERSION, type AdviceEntry } from "../advice/adviceRegistry.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** Bump when the bundle layout changes (changes every hash). */
+export const KNOWLEDGE_SNAPSHOT_FORMAT = 1;
+
+export interface KnowledgeSnapshotContent {
+  format: number;
+  /** { taxonomy, drug, supplement, food, interaction, doseThreshold, dish, advice } */
+  versions: Record<string, string>;
+  taxonomy: LoadedTaxonomy;
+  registries: Record<RegistryType, CanonicalEntity[]>;
+  promotedEntities: CanonicalEntity[];
+  functionalClasses: LoadedRegistry;
+  functionalClassInteractions: FunctionalClassInteraction[];
+  drugInteractions: DrugInteraction[];
+  supplementInteractions: Record<string, SupplementInteraction>;
+  foodMedicationInteractions: Record<string, FoodMedicationInteraction>;
+  doseThresholds: DoseThresholdRule[];
+  dishes: DishEntry[];
+  advice: Record<string, AdviceEntry>;
+}
+
+export interface KnowledgeSnapshot {
+  /** SHA-256 (hex) of canonicalJson(content) */
+  hash: string;
+  content: KnowledgeSnapshotContent;
+}
+
+// ── Serialisation ────────────────────────────────────────────────────
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) out[key] = sortKeys(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** JSON with object keys sorted at every level; undefined fields dropped. */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+export function hashKnowledgeContent(content: KnowledgeSnapshotContent): string {
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+}
+
+/** Bundle for `content`; content is normalised to its JSON form so it equals what is stored. */
+export function toKnowledgeSnapshot(content: KnowledgeSnapshotContent): KnowledgeSnapshot {
+  const json = canonicalJson(content);
+  return {
+    hash: createHash("sha256").update(json).digest("hex"),
+    content: JSON.parse(json) as KnowledgeSnapshotContent,
+  };
+}
+
+/** True when the hash matches the content (e.g. after reading it back). */
+export function verifyKnowledgeSnapshot(snapshot: KnowledgeSnapshot): boolean {
+  return hashKnowledgeContent(snapshot.content) === snapshot.hash;
+}
+
+// ── Current knowledge ────────────────────────────────────────────────
+
+/** The knowledge checkRisk uses right now (in-repo + hydrated promoted entities). */
+export function buildKnowledgeSnapshot(
+  promotedEntities: CanonicalEntity[] = getPromotedRegistryEntities()
+): KnowledgeSnapshot {
+  const taxonomy = getDefaultTaxonomy();
+  return toKnowledgeSnapshot({
+    format: KNOWLEDGE_SNAPSHOT_FORMAT,
+    versions: { taxonomy: taxonomy.version, ...REGISTRY_VERSIONS, advice: ADVICE_REGISTRY_VERSION },
+    taxonomy,
+    registries: { drug: DRUGS, supplement: SUPPLEMENTS, food: FOODS },
+    promotedEntities,
+    functionalClasses: FUNCTIONAL_CLASS_REGISTRY as LoadedRegistry,
+    functionalClassInteractions: FUNCTIONAL_CLASS_INTERACTIONS,
+    drugInteractions: DRUG_INTERACTIONS,
+    supplementInteractions: SUPPLEMENT_INTERACTION_MAP,
+    foodMedicationInteractions: FOOD_MEDICATION_KEYWORDS,
+    doseThresholds: DOSE_THRESHOLD_RULES,
+    dishes: DISHES,
+    advice: ADVICE_REGISTRY,
+  });
+}
+
+let _current: { promoted: string; snapshot: KnowledgeSnapshot } | null = null;
+
+/**
+ * Snapshot of the current knowledge. In-repo knowledge is fixed per deploy,
+ * so the bundle is rebuilt only when the promoted entities change.
+ */
+export function currentKnowledgeSnapshot(): KnowledgeSnapshot {
+  const promotedEntities = getPromotedRegistryEntities();
+  const promoted = canonicalJson(promotedEntities);
+  if (_current?.promoted !== promoted) {
+    _current = { promoted, snapshot: buildKnowledgeSnapshot(promotedEntities) };
+  }
+  return _current.snapshot;
+}
+
+// ── Replay ───────────────────────────────────────────────────────────
+
+const contexts = new WeakMap<KnowledgeSnapshotContent, KnowledgeContext>();
+
+/** KnowledgeContext for checkRisk (one object per bundle, so lookup maps are cached). */
+export function toKnowledgeContext(snapshot: KnowledgeSnapshot): KnowledgeContext {
+  const c = snapshot.content;
+  return cachedFor(contexts, c, () => ({
+    taxonomy: c.taxonomy,
+    registries: c.registries,
+    promotedEntities: c.promotedEntities,
+    functionalClasses: c.functionalClasses,
+    functionalClassInteractions: c.functionalClassInteractions,
+    drugInteractions: c.drugInteractions,
+    supplementInteractions: c.supplementInteractions,
+    foodMedicationInteractions: c.foodMedicationInteractions,
+    doseThresholds: c.doseThresholds,
+    dishes: c.dishes,
+  }));
+}
@@ -0,0 +1,62 @@
+/**
+ * Phase 48 — Persist knowledge snapshots (knowledge_snapshots, migration 024).
+ *
+ * Rows are content-addressed: written once per hash, never updated.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import {
+  currentKnowledgeSnapshot,
+  verifyKnowledgeSnapshot,
+  type KnowledgeSnapshot,
+  type KnowledgeSnapshotContent,
+} from "./knowledgeSnapshot.js";
+
+/** Hashes this process has already written (skip re-sending the bundle). */
+const recordedHashes = new Set<string>();
+
+/** Store a snapshot unless a row with its hash exists. */
+export async function recordKnowledgeSnapshot(snapshot: KnowledgeSnapshot): Promise<void> {
+  if (recordedHashes.has(snapshot.hash)) return;
+
+  const { error } = await getSupabaseClient()
+    .from("knowledge_snapshots")
+    .upsert(
+      { hash: snapshot.hash, versions: snapshot.content.versions, content: snapshot.content },
+      { onConflict: "hash", ignoreDuplicates: true }
+    );
+
+  if (error) throw new Error(`knowledge_snapshots upsert failed: ${error.message}`);
+  recordedHashes.add(snapshot.hash);
+}
+
+/** Store the current snapshot and return it (for stamping verdicts). */
+export async function recordCurrentKnowledgeSnapshot(): Promise<KnowledgeSnapshot> {
+  const snapshot = currentKnowledgeSnapshot();
+  await recordKnowledgeSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Load a stored snapshot. Null when no row has this hash; throws when the
+ * stored content no longer matches its hash.
+ */
+export async function loadKnowledgeSnapshot(hash: string): Promise<KnowledgeSnapshot | null> {
+  const current = currentKnowledgeSnapshot();
+  if (current.hash === hash) return current;
+
+  const { data, error } = await getSupabaseClient()
+    .from("knowledge_snapshots")
+    .select("hash, content")
+    .eq("hash", hash)
+    .maybeSingle();
+
+  if (error) throw new Error(`knowledge_snapshots read failed: ${error.message}`);
+  if (!data) return null;
+
+  const snapshot: KnowledgeSnapshot = { hash: data.hash, content: data.content as KnowledgeSnapshotContent };
+  if (!verifyKnowledgeSnapshot(snapshot)) {
+    throw new Error(`knowledge snapshot ${hash} does not match its content`);
+  }
+  return snapshot;
+}
@@ -9,11 +9,11 @@
 import { readFileSync } from "fs";
 import { resolve } from "path";
 import {
+  ALLERGEN_SEVERITY,
   ALLERGEN_TAXONOMY,
   ALLERGEN_TAXONOMY_VERSION,
   ALIASES,
   CROSS_REACTIVE_REGISTRY,
-  type AllergenParentKey,
 } from "../inference/allergenTaxonomy.js";
 
 export interface LoadedTaxonomy {
@@ -25,21 +25,12 @@ export interface LoadedTaxonomy {
   aliases?: Record<string, string[]>;
 }
 
-const DEFAULT_SEVERITY: Record<string, number> = {
-  tree_nut: 90,
-  peanut: 95,
-  shellfish: 95,
-  fish: 90,
-  egg: 85,
-  dairy: 80,
-  legume: 60,
-  sesame: 85,
-  wheat: 70,
-  soy: 65,
-};
-
-function getDefaultTaxonomy(): LoadedTaxonomy {
-  const severity = { ...DEFAULT_SEVERITY };
+/**
+ * In-repo taxonomy (ignores ALLERGEN_TAXONOMY_PATH).
+ * Phase 47: severity is the production map (incl. legume_family), so replay matches checkRisk.
+ */
+export function getDefaultTaxonomy(): LoadedTaxonomy {
+  const severity = { ...ALLERGEN_SEVERITY };
   for (const k of Object.keys(ALLERGEN_TAXONOMY)) {
     if (!(k in severity)) severity[k] = 50;
   }
@@ -45,6 +45,17 @@ function parseRiskTags(pe: Record<string, unknown> | undefined): string[] | unde
   return tags.length ? tags : undefined;
 }
 
+/** Phase 41: RxCUI and ingredient canonical ids carried from RxNorm candidates. */
+function parseRxcui(pe: Record<string, unknown> | undefined): string | undefined {
+  return typeof pe?.rxcui === "string" && pe.rxcui.trim() ? pe.rxcui.trim() : undefined;
+}
+
+function parseIngredients(pe: Record<string, unknown> | undefined): string[] | undefined {
+  if (!Array.isArray(pe?.ingredients)) return undefined;
+  const ids = pe.ingredients.filter((x): x is string => typeof x === "string" && x.trim().length > 0);
+  return ids.length ? ids.map((x) => x.trim()) : undefined;
+}
+
 function parseClass(pe: Record<string, unknown> | undefined): string | undefined {
   if (typeof pe?.class === "string") return pe.class;
   if (typeof pe?.family === "string") return pe.family;
@@ -69,6 +80,8 @@ export function canonicalEntityFromCreateEntryProposal(
     aliases: aliases.length ? aliases : [normalizeAlias(p.canonical_id)],
     class: parseClass(pe),
     riskTags: parseRiskTags(pe),
+    rxcui: parseRxcui(pe),
+    ingredients: parseIngredients(pe),
   };
 }
 
@@ -1,7 +1,11 @@
 /**
  * O8.1 — Persist promoted CanonicalEntity rows and hydrate the in-memory resolver overlay.
+ *
+ * Phase 49 — Each promotion is recorded in the promotion ledger with the
+ * entity it replaced, so it can be reverted (admin/promotionRevert.ts).
  */
 
+import { randomUUID } from "crypto";
 import { getSupabaseClient } from "../supabaseClient.js";
 import type { AliasProposal, RegistryType } from "../admin/aliasProposalStore.js";
 import type { CanonicalEntity } from "./types.js";
@@ -11,24 +15,44 @@ import {
   buildPromotedLookupMap,
 } from "./promotedRegistryApply.js";
 import { entityMatchesRegistryType } from "./registryMerge.js";
+import { buildKnowledgeSnapshot, type KnowledgeSnapshot } from "./knowledgeSnapshot.js";
+import { recordKnowledgeSnapshot } from "./knowledgeSnapshotDb.js";
+import { recordLedgerBatch, type PromotionLedgerEntry, type PromotionLedgerInput } from "./promotionLedger.js";
 
 function isMissingTable(err: unknown): boolean {
   const msg = err instanceof Error ? err.message : String(err);
   return /relation.*does not exist|table.*does not exist|does not exist/i.test(msg);
 }
 
-function replaceInPromotedList(
+function isPromotedEntity(e: CanonicalEntity, registryType: RegistryType, canonicalId: string): boolean {
+  return (
+    e.id.toLowerCase().trim() === canonicalId.toLowerCase().trim() &&
+    entityMatchesRegistryType(e, registryType as "drug" | "supplement" | "food")
+  );
+}
+
+export function findPromotedEntity(
+  list: CanonicalEntity[],
+  registryType: RegistryType,
+  canonicalId: string
+): CanonicalEntity | null {
+  return list.find((e) => isPromotedEntity(e, registryType, canonicalId)) ?? null;
+}
+
+export function removeFromPromotedList(
+  list: CanonicalEntity[],
+  registryType: RegistryType,
+  canonicalId: string
+): CanonicalEntity[] {
+  return list.filter((e) => !isPromotedEntity(e, registryType, canonicalId));
+}
+
+export function replaceInPromotedList(
   list: CanonicalEntity[],
   registryType: RegistryType,
   entity: CanonicalEntity
 ): CanonicalEntity[] {
-  const idNorm = entity.id.toLowerCase().trim();
-  const filtered = list.filter((e) => {
-    const sameId = e.id.toLowerCase().trim() === idNorm;
-    const sameRt = entityMatchesRegistryType(e, registryType as "drug" | "supplement" | "food");
-    return !(sameId && sameRt);
-  });
-  return [...filtered, entity];
+  return [...removeFromPromotedList(list, registryType, entity.id), entity];
 }
 
 export async function fetchPromotedEntitiesFromDb(): Promise<CanonicalEntity[]> {
@@ -56,6 +80,10 @@ export async function fetchPromotedEntitiesFromDb(): Promise<CanonicalEntity[]>
       riskTags: Array.isArray(ej.riskTags)
         ? ej.riskTags.filter((x): x is string => typeof x === "string")
         : undefined,
+      rxcui: typeof ej.rxcui === "string" ? ej.rxcui : undefined,
+      ingredients: Array.isArray(ej.ingredients)
+        ? ej.ingredients.filter((x): x is string => typeof x === "string")
+        : undefined,
     };
     out.push(entity);
   }
@@ -79,11 +107,11 @@ export async function ensurePromotedRegistryLoaded(): Promise<void> {
   }
 }
 
-async function upsertPromotedRow(args: {
+export async function upsertPromotedRow(args: {
   registry_type: RegistryType;
   canonical_id: string;
   entity: CanonicalEntity;
-  source_proposal_id: string;
+  source_proposal_id: string | null;
 }): Promise<void> {
   const supabase = getSupabaseClient();
   const { error } = await supabase.from("promoted_registry_entities").upsert(
@@ -100,16 +128,58 @@ async function upsertPromotedRow(args: {
   if (error) throw new Error(`promoted_registry_entities upsert failed: ${error.message}`);
 }
 
+export async function deletePromotedRow(registryType: RegistryType, canonicalId: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from("promoted_registry_entities")
+    .delete()
+    .eq("registry_type", registryType)
+    .eq("canonical_id", canonicalId);
+
+  if (error) throw new Error(`promoted_registry_entities delete failed: ${error.message}`);
+}
+
+/** source_proposal_id per promoted row, keyed "registry_type:canonical_id". */
+export async function fetchPromotedSources(): Promise<Map<string, string | null>> {
+  const { data, error } = await getSupabaseClient()
+    .from("promoted_registry_entities")
+    .select("registry_type, canonical_id, source_proposal_id");
+
+  if (error) {
+    if (isMissingTable(error)) return new Map();
+    throw new Error(`promoted_registry_entities read failed: ${error.message}`);
+  }
+  return new Map(
+    (data ?? []).map((row) => [`${row.registry_type}:${row.canonical_id}`, row.source_proposal_id ?? null])
+  );
+}
+
+/**
+ * Store the snapshots a ledger batch references. Best-effort, like
+ * saveExtractionRun: without migration 024 the promotion still applies; the
+ * ledger hashes then cannot be replayed.
+ */
+export async function recordLedgerSnapshots(...snapshots: KnowledgeSnapshot[]): Promise<void> {
+  try {
+    for (const snapshot of snapshots) await recordKnowledgeSnapshot(snapshot);
+  } catch (err) {
+    console.error("[Knowledge snapshot] Record failed:", err instanceof Error ? err.message : err);
+  }
+}
+
 /**
  * Apply governed promotion: persist each proposal as a registry snapshot and refresh memory.
  * Call before or after markProposalsExported; proposals must still be readable (pass full objects).
+ * Returns the ledger entries recorded for the batch (one per proposal, in order).
  */
 export async function applyPromotedProposalsToSharedRegistry(
   proposals: AliasProposal[]
-): Promise<void> {
-  if (proposals.length === 0) return;
+): Promise<PromotionLedgerEntry[]> {
+  if (proposals.length === 0) return [];
 
-  let promoted = await fetchPromotedEntitiesFromDb();
+  const before = await fetchPromotedEntitiesFromDb();
+  const sources = await fetchPromotedSources();
+  let promoted = before;
+  const changes: PromotionLedgerInput[] = [];
 
   for (const p of proposals) {
     const map = buildPromotedLookupMap(promoted);
@@ -119,14 +189,44 @@ export async function applyPromotedProposalsToSharedRegistry(
         `Cannot apply promotion: missing base entity for ${p.registry_type}/${p.canonical_id} (${p.proposal_action})`
       );
     }
-    await upsertPromotedRow({
-      registry_type: p.registry_type,
-      canonical_id: entity.id,
-      entity,
-      source_proposal_id: p.id,
+    const key = `${p.registry_type}:${entity.id}`;
+    changes.push({
+      action: "promote",
+      registryType: p.registry_type,
+      canonicalId: entity.id,
+      entityBefore: findPromotedEntity(promoted, p.registry_type, entity.id),
+      entityAfter: entity,
+      sourceBefore: sources.get(key) ?? null,
+      sourceAfter: p.id,
+      revertsId: null,
+      snapshotBefore: null,
+      snapshotAfter: null,
+      replay: null,
     });
+    sources.set(key, p.id);
     promoted = replaceInPromotedList(promoted, p.registry_type, entity);
   }
 
+  // Ledger first: every promoted row write has an entry. A failed upsert
+  // leaves entries whose rows still hold entityBefore; revertEntries treats
+  // those as already undone and only closes them.
+  const snapshotBefore = buildKnowledgeSnapshot(before);
+  const snapshotAfter = buildKnowledgeSnapshot(promoted);
+  await recordLedgerSnapshots(snapshotBefore, snapshotAfter);
+  const entries = await recordLedgerBatch(
+    randomUUID(),
+    changes.map((c) => ({ ...c, snapshotBefore: snapshotBefore.hash, snapshotAfter: snapshotAfter.hash }))
+  );
+
+  for (const c of changes) {
+    await upsertPromotedRow({
+      registry_type: c.registryType,
+      canonical_id: c.canonicalId,
+      entity: c.entityAfter as CanonicalEntity,
+      source_proposal_id: c.sourceAfter,
+    });
+  }
+
   setPromotedRegistryEntities(promoted);
+  return entries;
 }
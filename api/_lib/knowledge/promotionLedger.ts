@@ -0,0 +1,178 @@
+/**
+ * Phase 49 — Promotion ledger (promotion_ledger, migration 025).
+ *
+ * Every write to promoted_registry_entities is recorded here with the
+ * promoted entity before and after it: 'promote' rows come from governed
+ * promotion (applyPromotedProposalsToSharedRegistry), 'revert' rows from
+ * undoing one (admin/promotionRevert.ts). A promote row is active until a
+ * revert row points back at it (revertedBy).
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import type { RegistryType } from "../admin/aliasProposalStore.js";
+import type { CanonicalEntity } from "./types.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export const MAX_LEDGER_ENTRIES = 500;
+
+export type PromotionLedgerAction = "promote" | "revert";
+
+/** Replay gate outcome stored on revert rows. */
+export interface PromotionLedgerReplay {
+  checksReplayed: number;
+  riskLevelChangesUp: number;
+  riskLevelChangesDown: number;
+  /** Check ids whose risk change the operator accepted */
+  acknowledged: string[];
+}
+
+export interface PromotionLedgerEntry {
+  id: string;
+  batchId: string;
+  position: number;
+  action: PromotionLedgerAction;
+  registryType: RegistryType;
+  canonicalId: string;
+  /** Null: no promoted row (static registry only) */
+  entityBefore: CanonicalEntity | null;
+  entityAfter: CanonicalEntity | null;
+  /** source_proposal_id of the promoted row before / after */
+  sourceBefore: string | null;
+  sourceAfter: string | null;
+  /** (revert) the promote entry it undoes */
+  revertsId: string | null;
+  /** (promote) the revert entry that undid it */
+  revertedBy: string | null;
+  snapshotBefore: string | null;
+  snapshotAfter: string | null;
+  replay: PromotionLedgerReplay | null;
+  createdAt: string;
+}
+
+/** Fields written per entry; batch, position and time are set per call. */
+export type PromotionLedgerInput = Omit<
+  PromotionLedgerEntry,
+  "id" | "batchId" | "position" | "revertedBy" | "createdAt"
+>;
+
+interface PromotionLedgerRow {
+  id: string;
+  batch_id: string;
+  position: number;
+  action: PromotionLedgerAction;
+  registry_type: RegistryType;
+  canonical_id: string;
+  entity_before: CanonicalEntity | null;
+  entity_after: CanonicalEntity | null;
+  source_before: string | null;
+  source_after: string | null;
+  reverts_id: string | null;
+  reverted_by: string | null;
+  snapshot_before: string | null;
+  snapshot_after: string | null;
+  replay: PromotionLedgerReplay | null;
+  created_at: string;
+}
+
+function toLedgerEntry(row: PromotionLedgerRow): PromotionLedgerEntry {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    position: row.position,
+    action: row.action,
+    registryType: row.registry_type,
+    canonicalId: row.canonical_id,
+    entityBefore: row.entity_before ?? null,
+    entityAfter: row.entity_after ?? null,
+    sourceBefore: row.source_before ?? null,
+    sourceAfter: row.source_after ?? null,
+    revertsId: row.reverts_id ?? null,
+    revertedBy: row.reverted_by ?? null,
+    snapshotBefore: row.snapshot_before ?? null,
+    snapshotAfter: row.snapshot_after ?? null,
+    replay: row.replay ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/** Newest first: later batch, then later position within the batch. */
+export function compareLedgerEntries(a: PromotionLedgerEntry, b: PromotionLedgerEntry): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  return b.position - a.position;
+}
+
+// ── Writes ───────────────────────────────────────────────────────────
+
+/** Record one batch; entries keep the given order (position 0..n-1). */
+export async function recordLedgerBatch(
+  batchId: string,
+  entries: PromotionLedgerInput[]
+): Promise<PromotionLedgerEntry[]> {
+  if (entries.length === 0) return [];
+
+  const createdAt = new Date().toISOString();
+  const { data, error } = await getSupabaseClient()
+    .from("promotion_ledger")
+    .insert(
+      entries.map((e, position) => ({
+        batch_id: batchId,
+        position,
+        action: e.action,
+        registry_type: e.registryType,
+        canonical_id: e.canonicalId,
+        entity_before: e.entityBefore,
+        entity_after: e.entityAfter,
+        source_before: e.sourceBefore,
+        source_after: e.sourceAfter,
+        reverts_id: e.revertsId,
+        snapshot_before: e.snapshotBefore,
+        snapshot_after: e.snapshotAfter,
+        replay: e.replay,
+        created_at: createdAt,
+      }))
+    )
+    .select("*");
+
+  if (error) throw new Error(`promotion_ledger insert failed: ${error.message}`);
+  return ((data ?? []) as PromotionLedgerRow[]).map(toLedgerEntry).sort((a, b) => a.position - b.position);
+}
+
+/** Point a promote entry at the revert entry that undid it. */
+export async function markLedgerEntryReverted(entryId: string, revertedBy: string): Promise<void> {
+  const { error } = await getSupabaseClient()
+    .from("promotion_ledger")
+    .update({ reverted_by: revertedBy })
+    .eq("id", entryId);
+
+  if (error) throw new Error(`promotion_ledger update failed: ${error.message}`);
+}
+
+// ── Reads ────────────────────────────────────────────────────────────
+
+/** Ledger entries, newest first. */
+export async function listPromotionLedger(
+  opts: { limit?: number } = {}
+): Promise<PromotionLedgerEntry[]> {
+  const limit = Math.min(Math.max(opts.limit ?? MAX_LEDGER_ENTRIES, 1), MAX_LEDGER_ENTRIES);
+  const { data, error } = await getSupabaseClient()
+    .from("promotion_ledger")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("position", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`promotion_ledger read failed: ${error.message}`);
+  return ((data ?? []) as PromotionLedgerRow[]).map(toLedgerEntry);
+}
+
+export async function getLedgerEntry(entryId: string): Promise<PromotionLedgerEntry | null> {
+  const { data, error } = await getSupabaseClient()
+    .from("promotion_ledger")
+    .select("*")
+    .eq("id", entryId)
+    .maybeSingle();
+
+  if (error) throw new Error(`promotion_ledger read failed: ${error.message}`);
+  return data ? toLedgerEntry(data as PromotionLedgerRow) : null;
+}
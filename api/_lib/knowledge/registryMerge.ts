@@ -1,12 +1,14 @@
 /**
  * O8.1 — Merge static registries with promoted runtime entities (single read model).
  * Pure functions — no I/O.
+ * Phase 47 — Static registries come from the active KnowledgeContext when injected.
  */
 
 import type { CanonicalEntity } from "./types.js";
 import { DRUGS } from "./drugs.registry.js";
 import { SUPPLEMENTS } from "./supplements.registry.js";
 import { FOODS } from "./foods.registry.js";
+import { getKnowledgeContext } from "./knowledgeContext.js";
 
 export type RegistryType = "drug" | "supplement" | "food";
 
@@ -20,6 +22,8 @@ function normalizeId(s: string): string {
 }
 
 export function getStaticEntities(type: RegistryType): CanonicalEntity[] {
+  const injected = getKnowledgeContext().registries?.[type];
+  if (injected) return injected;
   switch (type) {
     case "drug":
       return DRUGS;
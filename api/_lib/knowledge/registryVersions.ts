@@ -3,12 +3,24 @@
  *
  * Registry versions — increment when any mapping changes.
  * Changes must go through PR Packager → Replay → Merge.
+ *
+ * Phase 25 – interaction: drug–drug interaction rules (interactions.registry.ts).
+ * Phase 33 – doseThreshold: dose thresholds on interactions (doseThresholds.registry.ts).
+ * Phase 25 – interaction 25.2 grades NSAID / aspirin + warfarin high, matching the
+ *   nsaids + anticoagulants class rule those pairs take precedence over.
+ * Phase 34 – doseThreshold 34.1 adds daily ingredient limits.
+ * Phase 41 – drug 41.1 adds RxCUIs, cough/cold ingredients and combination products.
+ * Phase 43 – dish: dish knowledge registry (dishes.registry.ts), replaces DISH_COMMON_ALLERGENS.
  */
 
 export const REGISTRY_VERSIONS = {
-  drug: "21a.1",
+  drug: "41.1",
   supplement: "21a.1",
   food: "21a.1",
+  interaction: "25.2",
+  doseThreshold: "34.1",
+  dish: "43.1",
 } as const;
 
-export type RegistryType = keyof typeof REGISTRY_VERSIONS;
+/** Entity registries only; interaction, dose and dish knowledge are versioned alongside but are not entities. */
+export type RegistryType = Exclude<keyof typeof REGISTRY_VERSIONS, "interaction" | "doseThreshold" | "dish">;
@@ -24,6 +24,12 @@ export interface CanonicalEntity {
 
   /** O8 — Deterministic risk family tags matched against profile known_allergies (e.g. legume_family). */
   riskTags?: string[];
+
+  /** Phase 41 — RxNorm concept id (ingredient, or product for combinations) */
+  rxcui?: string;
+
+  /** Phase 41 — Ingredient canonical ids for combination products, e.g. NyQuil */
+  ingredients?: string[];
 }
 
 /**
@@ -45,6 +51,12 @@ export interface ResolvedEntity {
   /** O8 — Risk tags when resolved from registry knowledge */
   riskTags?: string[];
 
+  /** Phase 41 — RxNorm concept id when known */
+  rxcui?: string;
+
+  /** Phase 41 — Ingredient canonical ids when the entity is a combination product */
+  ingredients?: string[];
+
   /** Whether entity was found in a registry */
   resolved: boolean;
 
@@ -72,6 +84,12 @@ export interface ResolutionMetadata {
   /** Functional class if known */
   entityClass?: string;
 
+  /** Phase 41 — RxNorm concept id when known */
+  rxcui?: string;
+
+  /** Phase 41 — Ingredient canonical ids for combination products */
+  ingredients?: string[];
+
   /** Confidence (1.0 for resolved, 0 for unresolved) */
   confidence: number;
 }
@@ -89,6 +107,8 @@ export function toResolutionMetadata(r: ResolvedEntity): ResolutionMetadata {
     entityType: r.type,
     resolutionType,
     entityClass: r.class,
+    ...(r.rxcui ? { rxcui: r.rxcui } : {}),
+    ...(r.ingredients ? { ingredients: r.ingredients } : {}),
     confidence: r.confidence,
   };
 }
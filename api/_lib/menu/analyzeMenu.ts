@@ -0,0 +1,274 @@
+/**
+ * Phase 43 – Restaurant menu and recipe mode
+ *
+ * Rates every dish on a pasted menu (or a single pasted recipe) against a
+ * profile's allergies using two sources:
+ *
+ *   - listed     – an allergen term appears in the dish name / description /
+ *                  recipe ingredients (same taxonomy matching as checkRisk)
+ *   - registry   – the dish is in the dish knowledge registry and typically
+ *                  carries the allergen (probability band + hidden source)
+ *
+ * Risk per dish: listed or "always" / "usually" → high, "sometimes" → medium
+ * (intolerances cap at medium, as in checkRisk). A recognised dish with no
+ * relevant allergen is low; an unrecognised dish with nothing listed is
+ * unknown. Hidden sources become targeted "ask the server" questions.
+ *
+ * Pure and deterministic: the caller loads the profile. Nothing is persisted —
+ * a menu is something you might order, not something you consumed.
+ */
+
+import type { ProfileInput } from "../inference/checkRisk.js";
+import {
+  ALLERGEN_TAXONOMY,
+  ALLERGEN_TAXONOMY_VERSION,
+  buildUserAllergenCategories,
+  expandAllergies,
+  isAllergenMatch,
+  matchDishes,
+  normalizeToken,
+  resolveCategoryForSeverity,
+  type AllergenParentKey,
+} from "../inference/allergenTaxonomy.js";
+import { DISH_REGISTRY_VERSION, type DishAllergenBand } from "../knowledge/dishes.registry.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type MenuMode = "menu" | "recipe";
+
+export type MenuRisk = "high" | "medium" | "low" | "unknown";
+
+export interface MenuItem {
+  name: string;
+  description?: string;
+  /** The menu line (or recipe title) the item came from. */
+  line: string;
+}
+
+export interface MenuAllergenFinding {
+  /** Allergen category, e.g. "peanut", "fish", "tree_nut" */
+  allergen: string;
+  source: "listed" | "registry";
+  /** listed: the term found in the text */
+  matchedTerm?: string;
+  /** registry: how often the dish carries the allergen */
+  band?: DishAllergenBand;
+  hiddenSource?: string;
+  /** Profile allergy the finding is for */
+  profileAllergy: string;
+  risk: Exclude<MenuRisk, "low" | "unknown">;
+}
+
+export interface MenuDishRating extends MenuItem {
+  dish?: { id: string; name: string; cuisine: string; matchedTerm: string };
+  risk: MenuRisk;
+  findings: MenuAllergenFinding[];
+  questions: string[];
+}
+
+export interface MenuAnalysis {
+  mode: MenuMode;
+  dishRegistryVersion: string;
+  taxonomyVersion: string;
+  dishes: MenuDishRating[];
+  summary: Record<MenuRisk, number> & { dishCount: number };
+  /** Every dish's questions, in menu order, duplicates removed. */
+  questions: string[];
+}
+
+/** Upper bound on rated menu items per request. */
+export const MAX_MENU_ITEMS = 100;
+
+const RISK_RANK: Record<MenuRisk, number> = { unknown: 0, low: 1, medium: 2, high: 3 };
+
+// ── Parsing ──────────────────────────────────────────────────────────
+
+const BULLET = /^(?:[-•*·]+|\d+[.)])\s*/;
+const PRICE = /\s*(?:\.{2,}\s*)?(?:[$£€]\s*)?\d+(?:[.,]\d{1,2})?\s*(?:[$£€])?\s*$/;
+const NAME_SPLIT = /\s+[-–—]\s+|:\s+|\s*\|\s*/;
+
+function isHeading(line: string): boolean {
+  if (/:\s*$/.test(line)) return true;
+  const words = line.split(/\s+/);
+  return words.length <= 4 && /[A-Z]/.test(line) && !/[a-z]/.test(line);
+}
+
+/**
+ * Split menu text into dishes: one per line, bullets / prices / dot leaders
+ * dropped, section headings ("APPETIZERS", "Mains:") skipped. "Name – description"
+ * and "Name: description" keep the description for matching.
+ */
+export function parseMenuText(text: string): MenuItem[] {
+  const items: MenuItem[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || isHeading(line)) continue;
+    const cleaned = line.replace(BULLET, "").replace(PRICE, "").trim();
+    if (!/[a-z]/i.test(cleaned)) continue;
+    const split = NAME_SPLIT.exec(cleaned);
+    const name = (split ? cleaned.slice(0, split.index) : cleaned).trim();
+    const description = split ? cleaned.slice(split.index + split[0].length).trim() : "";
+    if (!name) continue;
+    items.push({ name, ...(description ? { description } : {}), line });
+    if (items.length >= MAX_MENU_ITEMS) break;
+  }
+  return items;
+}
+
+const RECIPE_SECTION = /^(?:ingredients?|for the [a-z ]+)\s*:?\s*$/i;
+const RECIPE_STEPS = /^(?:method|directions|instructions|steps|preparation)\s*:?\s*$/i;
+const QUANTITY = /^(?:[\d¼½¾⅓⅔⅛/.,\s-]+)?(?:(?:cups?|tbsps?|tablespoons?|tsps?|teaspoons?|g|grams?|kg|ml|l|oz|ounces?|lbs?|pounds?|pinch(?:es)?|cloves?|cans?|handful)\b\.?\s*)?(?:of\s+)?/i;
+
+/**
+ * A recipe is one dish: the first line is the title, ingredient lines follow
+ * (quantities and units dropped) until a method / directions heading.
+ */
+export function parseRecipeText(text: string): MenuItem[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const titleIndex = lines.findIndex((l) => !RECIPE_SECTION.test(l));
+  if (titleIndex === -1) return [];
+  const title = lines[titleIndex].replace(/:\s*$/, "");
+
+  const ingredients: string[] = [];
+  for (const line of lines.slice(titleIndex + 1)) {
+    if (RECIPE_STEPS.test(line)) break;
+    if (RECIPE_SECTION.test(line)) continue;
+    const ingredient = line.replace(BULLET, "").replace(QUANTITY, "").trim();
+    if (/[a-z]/i.test(ingredient)) ingredients.push(ingredient);
+  }
+  return [{ name: title, ...(ingredients.length > 0 ? { description: ingredients.join(", ") } : {}), line: lines[titleIndex] }];
+}
+
+// ── Rating ───────────────────────────────────────────────────────────
+
+function allergenLabel(allergen: string): string {
+  return (ALLERGEN_TAXONOMY[allergen as AllergenParentKey]?.label ?? allergen.replace(/_/g, " ")).toLowerCase();
+}
+
+function isIntolerance(profile: ProfileInput, allergy: string): boolean {
+  return (profile.allergy_reactions ?? []).some(
+    (p) => normalizeToken(p.name) === normalizeToken(allergy) && p.reaction === "intolerance"
+  );
+}
+
+function capRisk(risk: "high" | "medium", intolerance: boolean): "high" | "medium" {
+  return intolerance ? "medium" : risk;
+}
+
+function questionsFor(item: MenuItem, rating: Omit<MenuDishRating, "questions">, mode: MenuMode, profile: ProfileInput): string[] {
+  const questions: string[] = [];
+  const push = (q: string) => {
+    if (!questions.includes(q)) questions.push(q);
+  };
+
+  for (const f of rating.findings) {
+    const label = allergenLabel(f.allergen);
+    if (f.source === "listed") {
+      if (mode === "menu") push(`Can the ${item.name} be made without ${f.matchedTerm}?`);
+      continue;
+    }
+    // Listed already covers this allergen for the dish
+    if (rating.findings.some((o) => o.source === "listed" && o.allergen === f.allergen)) continue;
+    if (mode === "recipe") {
+      const dishName = rating.dish?.name ?? item.name;
+      push(
+        f.hiddenSource
+          ? `Traditional ${dishName} uses ${f.hiddenSource} (${label}) — check your recipe and labels.`
+          : `Traditional ${dishName} usually contains ${label} — check your recipe and labels.`
+      );
+    } else {
+      push(
+        f.hiddenSource
+          ? `Does the ${item.name} contain ${f.hiddenSource}? (${label})`
+          : `Does the ${item.name} contain ${label}?`
+      );
+    }
+  }
+
+  if (rating.risk === "unknown" && mode === "menu") {
+    for (const allergy of profile.known_allergies) {
+      push(`Does the ${item.name} contain any ${allergenLabel(resolveCategoryForSeverity(allergy))}?`);
+    }
+  }
+  return questions;
+}
+
+function rateItem(item: MenuItem, mode: MenuMode, profile: ProfileInput): MenuDishRating {
+  const text = [item.name, item.description].filter(Boolean).join(" ");
+  const findings: MenuAllergenFinding[] = [];
+
+  for (const allergy of profile.known_allergies) {
+    const intolerance = isIntolerance(profile, allergy);
+    const listed = isAllergenMatch(text, expandAllergies([allergy]));
+    if (listed.matched && listed.matchedTerm) {
+      findings.push({
+        allergen: resolveCategoryForSeverity(listed.matchedTerm),
+        source: "listed",
+        matchedTerm: listed.matchedTerm,
+        profileAllergy: allergy,
+        risk: capRisk("high", intolerance),
+      });
+    }
+  }
+
+  // Recipes are rated on the title's dish; a menu line may name a dish anywhere
+  const dishMatch = matchDishes(mode === "recipe" ? item.name : text)[0];
+  if (dishMatch) {
+    for (const allergy of profile.known_allergies) {
+      const categories = buildUserAllergenCategories([allergy]);
+      const intolerance = isIntolerance(profile, allergy);
+      for (const a of dishMatch.dish.allergens) {
+        if (!categories.has(normalizeToken(a.allergen))) continue;
+        findings.push({
+          allergen: a.allergen,
+          source: "registry",
+          band: a.band,
+          ...(a.hiddenSource ? { hiddenSource: a.hiddenSource } : {}),
+          profileAllergy: allergy,
+          risk: capRisk(a.band === "sometimes" ? "medium" : "high", intolerance),
+        });
+      }
+    }
+  }
+
+  const risk: MenuRisk = findings.reduce<MenuRisk>(
+    (best, f) => (RISK_RANK[f.risk] > RISK_RANK[best] ? f.risk : best),
+    dishMatch || profile.known_allergies.length === 0 ? "low" : "unknown"
+  );
+
+  const rating: Omit<MenuDishRating, "questions"> = {
+    ...item,
+    ...(dishMatch
+      ? {
+          dish: {
+            id: dishMatch.dish.id,
+            name: dishMatch.dish.name,
+            cuisine: dishMatch.dish.cuisine,
+            matchedTerm: dishMatch.matchedTerm,
+          },
+        }
+      : {}),
+    risk,
+    findings,
+  };
+  return { ...rating, questions: questionsFor(item, rating, mode, profile) };
+}
+
+/** Parse and rate a menu (one dish per line) or a recipe (one dish). */
+export function analyzeMenu(args: { text: string; mode: MenuMode; profile: ProfileInput }): MenuAnalysis {
+  const { text, mode, profile } = args;
+  const items = mode === "recipe" ? parseRecipeText(text) : parseMenuText(text);
+  const dishes = items.map((item) => rateItem(item, mode, profile));
+
+  const summary = { dishCount: dishes.length, high: 0, medium: 0, low: 0, unknown: 0 };
+  for (const d of dishes) summary[d.risk]++;
+
+  return {
+    mode,
+    dishRegistryVersion: DISH_REGISTRY_VERSION,
+    taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+    dishes,
+    summary,
+    questions: [...new Set(dishes.flatMap((d) => d.questions))],
+  };
+}
@@ -0,0 +1,519 @@
+import fs from "node:fs";
+import {
+  evaluateDefault,
+  loadMigrationSchema,
+  type MigrationSchema,
+  type TableDef,
+} from "./migrationSchema.js";
+
+/**
+ * Phase 29 – In-memory persistence adapter (offline Supabase stand-in)
+ *
+ * Implements the subset of the supabase-js query builder the API uses:
+ *
+ *   from(table)
+ *     .select(columns?, { count: "exact", head? })
+ *     .insert(row | rows) / .update(patch) / .upsert(row | rows, { onConflict, ignoreDuplicates })
+ *     .delete()
+ *     .eq / .neq / .in / .gt / .gte / .lt / .lte / .is
+ *     .order(column, { ascending, nullsFirst }) / .limit(n) / .range(from, to)
+ *     .single() / .maybeSingle()
+ *
+ * Builders are thenable and resolve to { data, error, count, status } like
+ * PostgREST responses — errors are returned, never thrown. Tables, column
+ * defaults, unique constraints and ON DELETE behaviour come from
+ * docs/migrations/*.sql (see migrationSchema.ts); unknown tables or columns
+ * fail with the Postgres error codes so schema drift shows up offline too.
+ *
+ * Selected via PERSISTENCE_ADAPTER=memory (see supabaseClient.ts). When
+ * MEMORY_DB_FILE is set the tables are loaded from / written back to that JSON
+ * file on every query, so separate serverless processes under `vercel dev`
+ * share state.
+ */
+
+type Row = Record<string, unknown>;
+
+export interface MemoryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+export interface MemoryResponse<T = unknown> {
+  data: T | null;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+}
+
+export interface MemoryClientOptions {
+  /** Defaults to loadMigrationSchema(). */
+  schema?: MigrationSchema;
+  /** Insert MEMORY_SEED_ROWS on creation (default true). */
+  seed?: boolean;
+  /** JSON snapshot file shared across processes (default MEMORY_DB_FILE). */
+  file?: string;
+}
+
+/** Rows seeded by the migrations (002 default profile, 006 primary flag). */
+export const MEMORY_SEED_ROWS: Record<string, Row[]> = {
+  profiles: [
+    {
+      id: "a0000000-0000-0000-0000-000000000001",
+      display_name: "Amber",
+      known_allergies: ["peanuts", "tree nuts"],
+      current_medications: [{ name: "Zyrtec", dosage: "10mg" }],
+      is_primary: true,
+    },
+  ],
+};
+
+function pgError(code: string, message: string, status: number): { error: MemoryError; status: number } {
+  return { error: { message, code, details: null, hint: null }, status };
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+// ── Database ─────────────────────────────────────────────────────────
+
+export class MemoryDatabase {
+  readonly schema: MigrationSchema;
+  private tables = new Map<string, Row[]>();
+  private readonly file: string | undefined;
+
+  constructor(options: MemoryClientOptions = {}) {
+    this.schema = options.schema ?? loadMigrationSchema();
+    this.file = options.file ?? process.env.MEMORY_DB_FILE ?? undefined;
+    for (const name of this.schema.keys()) this.tables.set(name, []);
+
+    if (this.file && fs.existsSync(this.file)) {
+      this.load();
+    } else if (options.seed !== false) {
+      for (const [table, rows] of Object.entries(MEMORY_SEED_ROWS)) {
+        this.insertRows(table, rows);
+      }
+      this.save();
+    }
+  }
+
+  tableDef(name: string): TableDef | undefined {
+    return this.schema.get(name);
+  }
+
+  /** Live rows for a table (callers must not leak references). */
+  rows(name: string): Row[] {
+    return this.tables.get(name) ?? [];
+  }
+
+  /** Drop all rows (and re-seed unless seed is false). */
+  reset(seed = true): void {
+    for (const name of this.tables.keys()) this.tables.set(name, []);
+    if (seed) {
+      for (const [table, rows] of Object.entries(MEMORY_SEED_ROWS)) this.insertRows(table, rows);
+    }
+    this.save();
+  }
+
+  load(): void {
+    if (!this.file || !fs.existsSync(this.file)) return;
+    const snapshot = JSON.parse(fs.readFileSync(this.file, "utf-8")) as Record<string, Row[]>;
+    for (const name of this.schema.keys()) this.tables.set(name, snapshot[name] ?? []);
+  }
+
+  save(): void {
+    if (!this.file) return;
+    fs.writeFileSync(this.file, JSON.stringify(Object.fromEntries(this.tables), null, 2));
+  }
+
+  /** Validate columns, apply defaults and NOT NULL checks. */
+  buildRow(table: TableDef, input: Row): { row: Row } | { error: MemoryError; status: number } {
+    const row: Row = {};
+    for (const key of Object.keys(input)) {
+      if (!table.columns.has(key)) {
+        return pgError("42703", `column "${key}" of relation "${table.name}" does not exist`, 400);
+      }
+    }
+    for (const column of table.columns.values()) {
+      const value = input[column.name] !== undefined ? clone(input[column.name]) : evaluateDefault(column);
+      if (value === null && column.notNull) {
+        return pgError(
+          "23502",
+          `null value in column "${column.name}" of relation "${table.name}" violates not-null constraint`,
+          400
+        );
+      }
+      row[column.name] = value;
+    }
+    return { row };
+  }
+
+  /** Index of an existing row that conflicts with `row` on `columns`, or -1. */
+  findConflict(tableName: string, row: Row, columns: string[], ignore?: Row): number {
+    return this.rows(tableName).findIndex(
+      (existing) =>
+        existing !== ignore &&
+        columns.every((c) => existing[c] !== null && existing[c] !== undefined && compare(existing[c], row[c]) === 0)
+    );
+  }
+
+  uniqueViolation(table: TableDef, row: Row, ignore?: Row): MemoryError | null {
+    for (const columns of table.uniques) {
+      if (this.findConflict(table.name, row, columns, ignore) >= 0) {
+        return pgError(
+          "23505",
+          `duplicate key value violates unique constraint on "${table.name}" (${columns.join(", ")})`,
+          409
+        ).error;
+      }
+    }
+    return null;
+  }
+
+  /** Seed/helper insert that bypasses the query builder. */
+  insertRows(tableName: string, rows: Row[]): void {
+    const table = this.schema.get(tableName);
+    if (!table) return;
+    for (const input of rows) {
+      const built = this.buildRow(table, input);
+      if ("row" in built && !this.uniqueViolation(table, built.row)) this.rows(tableName).push(built.row);
+    }
+  }
+
+  /** Apply ON DELETE behaviour of tables referencing the deleted rows. */
+  cascadeDelete(tableName: string, deleted: Row[]): void {
+    for (const child of this.schema.values()) {
+      for (const fk of child.foreignKeys) {
+        if (fk.refTable !== tableName || !fk.onDelete) continue;
+        const keys = new Set(deleted.map((r) => r[fk.refColumn]));
+        const rows = this.rows(child.name);
+        if (fk.onDelete === "set null") {
+          for (const r of rows) if (keys.has(r[fk.column])) r[fk.column] = null;
+        } else {
+          const removed = rows.filter((r) => keys.has(r[fk.column]));
+          if (removed.length === 0) continue;
+          this.tables.set(child.name, rows.filter((r) => !keys.has(r[fk.column])));
+          this.cascadeDelete(child.name, removed);
+        }
+      }
+    }
+  }
+}
+
+// ── Query builder ────────────────────────────────────────────────────
+
+type Operation =
+  | { kind: "select" }
+  | { kind: "insert"; rows: Row[] }
+  | { kind: "upsert"; rows: Row[]; onConflict: string[] | null; ignoreDuplicates: boolean }
+  | { kind: "update"; patch: Row }
+  | { kind: "delete" };
+
+type Filter = (row: Row) => boolean;
+
+export class MemoryQueryBuilder implements PromiseLike<MemoryResponse> {
+  private operation: Operation = { kind: "select" };
+  private columns: string[] | null = null;
+  private returning = false;
+  private countRequested = false;
+  private head = false;
+  private filters: Filter[] = [];
+  private filterColumns = new Set<string>();
+  private orders: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+  private window: { from: number; to: number | null } = { from: 0, to: null };
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+
+  private readonly db: MemoryDatabase;
+  private readonly tableName: string;
+
+  constructor(db: MemoryDatabase, tableName: string) {
+    this.db = db;
+    this.tableName = tableName;
+  }
+
+  select(columns = "*", options: { count?: "exact" | "planned" | "estimated"; head?: boolean } = {}): this {
+    this.columns = columns.trim() === "*" ? null : columns.split(",").map((c) => c.trim()).filter(Boolean);
+    if (this.operation.kind !== "select") this.returning = true;
+    this.countRequested = options.count !== undefined;
+    this.head = options.head === true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = { kind: "insert", rows: Array.isArray(values) ? values : [values] };
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = {
+      kind: "upsert",
+      rows: Array.isArray(values) ? values : [values],
+      onConflict: options.onConflict ? options.onConflict.split(",").map((c) => c.trim()) : null,
+      ignoreDuplicates: options.ignoreDuplicates === true,
+    };
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.operation = { kind: "update", patch };
+    return this;
+  }
+
+  delete(): this {
+    this.operation = { kind: "delete" };
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) === 0);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) !== 0);
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    return this.where(column, (v) => values.some((x) => v !== null && v !== undefined && compare(v, x) === 0));
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) > 0);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) >= 0);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) < 0);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(column, (v) => v !== null && v !== undefined && compare(v, value) <= 0);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where(column, (v) => (value === null ? v === null || v === undefined : v === value));
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}): this {
+    const ascending = options.ascending !== false;
+    this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: this.window.from, to: this.window.from + count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = MemoryResponse, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(column: string, test: (value: unknown) => boolean): this {
+    this.filterColumns.add(column);
+    this.filters.push((row) => test(row[column]));
+    return this;
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((f) => f(row));
+  }
+
+  private execute(): MemoryResponse {
+    this.db.load();
+    const table = this.db.tableDef(this.tableName);
+    if (!table) {
+      return { data: null, count: null, ...pgError("42P01", `relation "public.${this.tableName}" does not exist`, 404) };
+    }
+
+    const referenced = [...this.filterColumns, ...this.orders.map((o) => o.column), ...(this.columns ?? [])];
+    const unknown = referenced.find((c) => !table.columns.has(c));
+    if (unknown) {
+      return { data: null, count: null, ...pgError("42703", `column ${this.tableName}.${unknown} does not exist`, 400) };
+    }
+
+    const result = this.run(table);
+    if ("error" in result) return { data: null, count: null, ...result };
+    if (this.operation.kind !== "select") this.db.save();
+
+    const affected = result.rows;
+    const count = this.countRequested ? affected.length : null;
+    if (this.operation.kind !== "select" && !this.returning) {
+      return { data: null, error: null, count, status: this.operation.kind === "insert" ? 201 : 204 };
+    }
+
+    const ordered = this.operation.kind === "select" ? this.sortAndSlice(affected) : affected;
+    const data = this.head ? null : ordered.map((r) => this.project(r));
+
+    if (this.cardinality !== "many" && data) {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === "single")) {
+        return {
+          data: null,
+          count,
+          ...pgError("PGRST116", `JSON object requested, multiple (or no) rows returned (${data.length} rows)`, 406),
+        };
+      }
+      return { data: data[0] ?? null, error: null, count, status: 200 };
+    }
+    return { data, error: null, count, status: 200 };
+  }
+
+  private run(table: TableDef): { rows: Row[] } | { error: MemoryError; status: number } {
+    const rows = this.db.rows(this.tableName);
+    const op = this.operation;
+
+    switch (op.kind) {
+      case "select":
+        return { rows: rows.filter((r) => this.matches(r)) };
+
+      case "insert": {
+        const built: Row[] = [];
+        for (const input of op.rows) {
+          const b = this.db.buildRow(table, input);
+          if ("error" in b) return b;
+          const dup = this.db.uniqueViolation(table, b.row) ?? this.batchDuplicate(table, built, b.row);
+          if (dup) return { error: dup, status: 409 };
+          built.push(b.row);
+        }
+        rows.push(...built);
+        return { rows: built };
+      }
+
+      case "upsert": {
+        const conflictColumns = op.onConflict ?? table.uniques[0] ?? [];
+        const out: Row[] = [];
+        for (const input of op.rows) {
+          const idx = this.db.findConflict(this.tableName, input, conflictColumns);
+          if (idx >= 0) {
+            if (op.ignoreDuplicates) continue;
+            const existing = rows[idx];
+            const b = this.db.buildRow(table, { ...existing, ...input });
+            if ("error" in b) return b;
+            const dup = this.db.uniqueViolation(table, b.row, existing);
+            if (dup) return { error: dup, status: 409 };
+            rows[idx] = b.row;
+            out.push(b.row);
+          } else {
+            const b = this.db.buildRow(table, input);
+            if ("error" in b) return b;
+            const dup = this.db.uniqueViolation(table, b.row);
+            if (dup) return { error: dup, status: 409 };
+            rows.push(b.row);
+            out.push(b.row);
+          }
+        }
+        return { rows: out };
+      }
+
+      case "update": {
+        const unknown = Object.keys(op.patch).find((c) => !table.columns.has(c));
+        if (unknown) {
+          return pgError("42703", `column "${unknown}" of relation "${table.name}" does not exist`, 400);
+        }
+        const targets = rows.filter((r) => this.matches(r));
+        for (const row of targets) {
+          const next = { ...row, ...clone(op.patch) };
+          const dup = this.db.uniqueViolation(table, next, row);
+          if (dup) return { error: dup, status: 409 };
+        }
+        for (const row of targets) Object.assign(row, clone(op.patch));
+        return { rows: targets };
+      }
+
+      case "delete": {
+        const removed = rows.filter((r) => this.matches(r));
+        const kept = rows.filter((r) => !this.matches(r));
+        rows.length = 0;
+        rows.push(...kept);
+        this.db.cascadeDelete(this.tableName, removed);
+        return { rows: removed };
+      }
+    }
+  }
+
+  private batchDuplicate(table: TableDef, batch: Row[], row: Row): MemoryError | null {
+    for (const columns of table.uniques) {
+      if (batch.some((b) => columns.every((c) => b[c] !== null && compare(b[c], row[c]) === 0))) {
+        return pgError("23505", `duplicate key value violates unique constraint on "${table.name}" (${columns.join(", ")})`, 409).error;
+      }
+    }
+    return null;
+  }
+
+  private sortAndSlice(rows: Row[]): Row[] {
+    const sorted = [...rows];
+    if (this.orders.length > 0) {
+      sorted.sort((a, b) => {
+        for (const o of this.orders) {
+          const av = a[o.column];
+          const bv = b[o.column];
+          const aNull = av === null || av === undefined;
+          const bNull = bv === null || bv === undefined;
+          if (aNull || bNull) {
+            if (aNull && bNull) continue;
+            return aNull === o.nullsFirst ? -1 : 1;
+          }
+          const c = compare(av, bv);
+          if (c !== 0) return o.ascending ? c : -c;
+        }
+        return 0;
+      });
+    }
+    const end = this.window.to === null ? undefined : this.window.to + 1;
+    return sorted.slice(this.window.from, end);
+  }
+
+  private project(row: Row): Row {
+    if (!this.columns) return clone(row);
+    const out: Row = {};
+    for (const c of this.columns) out[c] = clone(row[c]);
+    return out;
+  }
+}
+
+// ── Client ───────────────────────────────────────────────────────────
+
+export interface MemoryClient {
+  from(table: string): MemoryQueryBuilder;
+  /** Underlying store (evals use it to reset or inspect rows). */
+  db: MemoryDatabase;
+}
+
+export function createMemoryClient(options: MemoryClientOptions = {}): MemoryClient {
+  const db = new MemoryDatabase(options);
+  return {
+    db,
+    from: (table: string) => new MemoryQueryBuilder(db, table.toLowerCase()),
+  };
+}
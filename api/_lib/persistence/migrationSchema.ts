@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+
+/**
+ * Phase 29 – Migration-derived schema for the in-memory persistence adapter
+ *
+ * Reads docs/migrations/*.sql (in filename order) and keeps just enough of the
+ * DDL to mimic Postgres for the queries the API issues:
+ *
+ *   - CREATE TABLE columns, types, NOT NULL, DEFAULT, PRIMARY KEY / UNIQUE
+ *   - ALTER TABLE ... ADD COLUMN (defaults included)
+ *   - REFERENCES ... ON DELETE CASCADE | SET NULL
+ *   - CREATE UNIQUE INDEX (non-partial only)
+ *
+ * CHECK constraints, partial indexes, DO $$ blocks and data migrations are
+ * ignored. Seed rows live with the adapter (memoryClient.ts).
+ */
+
+export interface ColumnDef {
+  name: string;
+  /** Lowercased SQL type, e.g. "uuid", "text[]", "jsonb", "timestamptz". */
+  type: string;
+  notNull: boolean;
+  /** Raw DEFAULT expression (null when the column has no default). */
+  defaultExpr: string | null;
+}
+
+export interface ForeignKeyDef {
+  column: string;
+  refTable: string;
+  refColumn: string;
+  onDelete: "cascade" | "set null" | null;
+}
+
+export interface TableDef {
+  name: string;
+  columns: Map<string, ColumnDef>;
+  /** Column sets that must be unique (primary key first). */
+  uniques: string[][];
+  foreignKeys: ForeignKeyDef[];
+}
+
+export type MigrationSchema = Map<string, TableDef>;
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), "docs", "migrations");
+
+// ── Parsing ──────────────────────────────────────────────────────────
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, "");
+}
+
+/** Split on commas outside parentheses and quotes. */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i <= body.length; i++) {
+    const ch = body[i];
+    if (ch === "'") quoted = !quoted;
+    else if (!quoted && ch === "(") depth++;
+    else if (!quoted && ch === ")") depth--;
+    if (i === body.length || (!quoted && depth === 0 && ch === ",")) {
+      const part = body.slice(start, i).trim();
+      if (part) parts.push(part);
+      start = i + 1;
+    }
+  }
+  return parts;
+}
+
+function columnList(spec: string): string[] {
+  return spec.split(",").map((c) => c.trim().toLowerCase()).filter(Boolean);
+}
+
+const CONSTRAINT_KEYWORDS = /^(?:constraint|primary|unique|check|foreign|exclude)\b/i;
+const DEFAULT_CLAUSE =
+  /\bdefault\s+([\s\S]+?)(?=\s+(?:not\s+null|null|check|references|unique|primary\s+key|constraint)\b|$)/i;
+const REFERENCES_CLAUSE =
+  /\breferences\s+(\w+)\s*\(\s*(\w+)\s*\)(?:\s+on\s+delete\s+(cascade|set\s+null))?/i;
+
+function addColumn(table: TableDef, spec: string): void {
+  const m = /^(\w+)\s+(\w+(?:\s*\[\])?)/.exec(spec);
+  if (!m) return;
+  const name = m[1].toLowerCase();
+  const rest = spec.slice(m[0].length);
+  const def = DEFAULT_CLAUSE.exec(rest);
+  table.columns.set(name, {
+    name,
+    type: m[2].toLowerCase().replace(/\s+/g, ""),
+    notNull: /\bnot\s+null\b/i.test(rest) || /\bprimary\s+key\b/i.test(rest),
+    defaultExpr: def ? def[1].trim() : null,
+  });
+  if (/\bprimary\s+key\b/i.test(rest)) table.uniques.unshift([name]);
+  else if (/\bunique\b/i.test(rest)) table.uniques.push([name]);
+
+  const ref = REFERENCES_CLAUSE.exec(rest);
+  if (ref) {
+    table.foreignKeys.push({
+      column: name,
+      refTable: ref[1].toLowerCase(),
+      refColumn: ref[2].toLowerCase(),
+      onDelete: ref[3] ? (ref[3].toLowerCase().replace(/\s+/g, " ") as "cascade" | "set null") : null,
+    });
+  }
+}
+
+function addTableConstraint(table: TableDef, spec: string): void {
+  const unique = /^(?:constraint\s+\w+\s+)?(?:unique|primary\s+key)\s*\(([^)]*)\)/i.exec(spec);
+  if (unique) table.uniques.push(columnList(unique[1]));
+}
+
+/** Parse migration SQL (all files concatenated, in order) into a table map. */
+export function parseMigrationSchema(sql: string): MigrationSchema {
+  const schema: MigrationSchema = new Map();
+  const text = stripComments(sql);
+  const statements =
+    /create\s+table\s+(?:if\s+not\s+exists\s+)?(\w+)\s*\(([\s\S]*?)\)\s*;|alter\s+table\s+(\w+)\s+([\s\S]*?);|create\s+unique\s+index\s+(?:if\s+not\s+exists\s+)?\w+\s+on\s+(\w+)\s*\(([^)]*)\)\s*(where\b[^;]*)?;/gi;
+
+  let m: RegExpExecArray | null;
+  while ((m = statements.exec(text)) !== null) {
+    if (m[1]) {
+      const name = m[1].toLowerCase();
+      const table: TableDef = schema.get(name) ?? { name, columns: new Map(), uniques: [], foreignKeys: [] };
+      for (const part of splitTopLevel(m[2])) {
+        if (CONSTRAINT_KEYWORDS.test(part)) addTableConstraint(table, part);
+        else addColumn(table, part);
+      }
+      schema.set(name, table);
+    } else if (m[3]) {
+      const table = schema.get(m[3].toLowerCase());
+      if (!table) continue;
+      for (const part of splitTopLevel(m[4])) {
+        const add = /^add\s+column\s+(?:if\s+not\s+exists\s+)?([\s\S]+)$/i.exec(part);
+        if (add) addColumn(table, add[1]);
+      }
+    } else if (m[5] && !m[7]) {
+      schema.get(m[5].toLowerCase())?.uniques.push(columnList(m[6]));
+    }
+  }
+  return schema;
+}
+
+/** Read and parse every docs/migrations/*.sql file in filename order. */
+export function loadMigrationSchema(dir: string = MIGRATIONS_DIR): MigrationSchema {
+  const files = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".sql"))
+    .sort();
+  const sql = files.map((f) => fs.readFileSync(path.join(dir, f), "utf-8")).join("\n");
+  return parseMigrationSchema(sql);
+}
+
+// ── Defaults ─────────────────────────────────────────────────────────
+
+/**
+ * Evaluate a column DEFAULT expression. Supports the forms used by the
+ * migrations: gen_random_uuid(), now(), CURRENT_DATE, quoted literals
+ * (with optional ::jsonb cast), booleans, numbers.
+ */
+export function evaluateDefault(column: ColumnDef): unknown {
+  const expr = column.defaultExpr;
+  if (expr === null) return null;
+  const lower = expr.toLowerCase();
+  if (lower === "gen_random_uuid()") return randomUUID();
+  if (lower === "now()" || lower === "current_timestamp") return new Date().toISOString();
+  if (lower === "current_date") return new Date().toISOString().slice(0, 10);
+  if (lower === "true" || lower === "false") return lower === "true";
+  if (lower === "null") return null;
+  if (/^-?\d+(?:\.\d+)?$/.test(expr)) return Number(expr);
+
+  const literal = /^'((?:[^']|'')*)'(?:::(\w+))?$/.exec(expr);
+  if (literal) {
+    const value = literal[1].replace(/''/g, "'");
+    if (column.type.endsWith("[]")) return value === "{}" ? [] : value.slice(1, -1).split(",");
+    if (column.type === "jsonb" || column.type === "json" || literal[2]?.toLowerCase() === "jsonb") {
+      return JSON.parse(value);
+    }
+    return value;
+  }
+  return null;
+}
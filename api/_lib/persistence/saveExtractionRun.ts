@@ -3,27 +3,16 @@ import { getSupabaseClient } from "../supabaseClient.js";
 import { checkRisk, type Verdict } from "../inference/checkRisk.js";
 import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
 import { ALLERGEN_TAXONOMY_VERSION } from "../inference/allergenTaxonomy.js";
+import { REGISTRY_VERSIONS } from "../knowledge/registryVersions.js";
+import { currentKnowledgeSnapshot } from "../knowledge/knowledgeSnapshot.js";
+import { recordKnowledgeSnapshot } from "../knowledge/knowledgeSnapshotDb.js";
 import { postProcessFollowUps } from "../inference/postProcessFollowUps.js";
 import { recordRadarTelemetry } from "../telemetry/verdictObserver.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import type { CheckBatchSummary } from "../batch/evaluateBatch.js";
 
-/**
- * Persist an extraction run to Supabase Postgres.
- *
- * Write order (data atomicity):
- *   0. profiles      – fetch profile (known_allergies, current_medications)
- *   0b. verdict      – deterministic risk check (Phase 9B)
- *   1. checks        – one row per extraction run, includes verdict
- *       Phase 10H++: verdict.meta (severity, taxonomyVersion) persisted in checks.verdict JSONB
- *   2. raw_inputs    – optional (only when STORE_RAW_INPUTS === "true")
- *   3. health_events – one row per event, all linked to the same check_id
- *
- * If persistence fails, the caller is expected to catch the error and append
- * a warning — extraction results are always returned to the user regardless.
- *
- * Env vars:
- *   DEFAULT_PROFILE_ID – the profile UUID passed in by the caller
- */
-export async function saveExtractionRun(args: {
+/** Extraction output shared by saveExtractionRun and evaluateExtractionRun. */
+export interface ExtractionRunInput {
   profileId: string;
   rawText: string;
   result: {
@@ -31,14 +20,41 @@ export async function saveExtractionRun(args: {
     followUpQuestions: string[];
     warnings: string[];
   };
-}): Promise<void> {
+  /** Phase 44: per-item table for a grouped batch check (checks.batch). */
+  batch?: CheckBatchSummary;
+}
+
+/** health_events.event_data for an extracted event (fields + Phase 21a _resolution). */
+export function toEventData(event: {
+  fields?: Record<string, unknown>;
+  resolution?: unknown;
+}): Record<string, unknown> {
+  const eventData: Record<string, unknown> = { ...(event.fields ?? {}) };
+  if (event.resolution) {
+    eventData._resolution = event.resolution;
+  }
+  return eventData;
+}
+
+/**
+ * Phase 31 – Evaluate an extraction run without writing anything.
+ *
+ * Steps 0–0b of saveExtractionRun plus follow-up hygiene: fetch the profile,
+ * compute the verdict (with traceId), and post-process result.followUpQuestions
+ * / result.warnings in place. Reads only (profiles, promoted registry); no
+ * checks, health_events or radar telemetry rows. Used for dry-run checks.
+ * Returns null when the profile does not exist.
+ */
+export async function evaluateExtractionRun(
+  args: ExtractionRunInput
+): Promise<{ checkId: string; verdict: Verdict } | null> {
   const supabase = getSupabaseClient();
   const { profileId, rawText, result } = args;
 
   // ── 0. Fetch the full profile ─────────────────────────────────────
   const { data: profile, error: profileError } = await supabase
     .from("profiles")
-    .select("id, known_allergies, current_medications")
+    .select("id, known_allergies, current_medications, escalate_precautionary")
     .eq("id", profileId)
     .maybeSingle();
 
@@ -46,34 +62,16 @@ export async function saveExtractionRun(args: {
     throw new Error(`Profile lookup failed: ${profileError.message}`);
   }
 
-  if (!profile) {
-    throw new Error(`Profile not found for id "${profileId}"`);
-  }
+  if (!profile) return null;
 
   await ensurePromotedRegistryLoaded();
 
   // ── 0b. Compute deterministic risk verdict (Phase 9B) ─────────────
   // Phase 21b: Normalize profile for checkRisk (extract names from object form)
-  const knownAllergies = (profile.known_allergies ?? []).map((a: unknown) =>
-    typeof a === "object" && a !== null && "name" in a
-      ? String((a as { name: string }).name)
-      : String(a)
-  );
-  const currentMeds = (profile.current_medications ?? []).map((m: unknown) => {
-    const obj = m as { name?: string; dosage?: string };
-    return {
-      name: String(obj?.name ?? obj ?? ""),
-      dosage: obj?.dosage,
-    };
-  });
-
   let verdict: Verdict;
   try {
     verdict = checkRisk({
-      profile: {
-        known_allergies: knownAllergies,
-        current_medications: currentMeds,
-      },
+      profile: toRiskProfile(profile),
       events: result.events,
     });
   } catch {
@@ -93,6 +91,10 @@ export async function saveExtractionRun(args: {
     verdict.meta = { taxonomyVersion, severity: 0 };
   }
   verdict.meta.traceId = traceId;
+  // Phase 45: record registry versions so retro-check can tell stale verdicts
+  verdict.meta.registryVersions = { ...REGISTRY_VERSIONS };
+  // Phase 48: content hash of all knowledge behind the verdict
+  verdict.meta.knowledgeSnapshot = currentKnowledgeSnapshot().hash;
   if (!verdict.matched) {
     verdict.matched = [];
   }
@@ -109,6 +111,40 @@ export async function saveExtractionRun(args: {
     result.warnings = [...(result.warnings ?? []), ...postProcessed.warnings];
   }
 
+  return { checkId, verdict };
+}
+
+/**
+ * Persist an extraction run to Supabase Postgres.
+ *
+ * Write order (data atomicity):
+ *   0. profiles      – fetch profile (known_allergies, current_medications)
+ *   0b. verdict      – deterministic risk check (Phase 9B)
+ *   1. checks        – one row per extraction run, includes verdict
+ *       Phase 10H++: verdict.meta (severity, taxonomyVersion) persisted in checks.verdict JSONB
+ *   2. raw_inputs    – optional (only when STORE_RAW_INPUTS === "true")
+ *   3. health_events – one row per event, all linked to the same check_id
+ *
+ * Steps 0–0b live in evaluateExtractionRun (Phase 31).
+ * Phase 44: returns the new check id; args.batch is stored in checks.batch.
+ * Phase 48: the knowledge snapshot in verdict.meta.knowledgeSnapshot is
+ * stored in knowledge_snapshots (once per hash).
+ *
+ * If persistence fails, the caller is expected to catch the error and append
+ * a warning — extraction results are always returned to the user regardless.
+ *
+ * Env vars:
+ *   DEFAULT_PROFILE_ID – the profile UUID passed in by the caller
+ */
+export async function saveExtractionRun(args: ExtractionRunInput): Promise<{ checkId: string }> {
+  const supabase = getSupabaseClient();
+  const { profileId, rawText, result } = args;
+  const evaluated = await evaluateExtractionRun(args);
+  if (!evaluated) {
+    throw new Error(`Profile not found for id "${profileId}"`);
+  }
+  const { checkId, verdict } = evaluated;
+
   // ── Phase 22: Knowledge Radar telemetry (fire-and-forget) ────────
   try {
     recordRadarTelemetry({ verdict, events: result.events });
@@ -116,6 +152,15 @@ export async function saveExtractionRun(args: {
     console.error("[Radar] Telemetry failed:", err instanceof Error ? err.message : err);
   }
 
+  // ── Phase 48: store the knowledge snapshot the verdict references ──
+  // Best-effort: the check is saved either way; an unstored snapshot only
+  // means the check cannot be replayed at its snapshot.
+  try {
+    await recordKnowledgeSnapshot(currentKnowledgeSnapshot());
+  } catch (err) {
+    console.error("[Knowledge snapshot] Record failed:", err instanceof Error ? err.message : err);
+  }
+
   // ── 1. Insert the parent "check" row (includes verdict) ───────────
   const { data: checkData, error: checkError } = await supabase
     .from("checks")
@@ -125,6 +170,7 @@ export async function saveExtractionRun(args: {
       raw_text: rawText,
       follow_up_questions: result.followUpQuestions ?? [],
       verdict,
+      ...(args.batch ? { batch: args.batch } : {}),
     })
     .select("id")
     .single();
@@ -151,19 +197,14 @@ export async function saveExtractionRun(args: {
   }
 
   // ── 3. Persist health events (all linked to check_id) ────────────
-  if (result.events.length === 0) return;
+  if (result.events.length === 0) return { checkId };
 
   const rows = result.events.map((event: any) => {
-    const fields = event.fields ?? {};
-    const eventData: Record<string, unknown> = { ...fields };
-    if (event.resolution) {
-      eventData._resolution = event.resolution;
-    }
     return {
       profile_id: profileId,
       check_id: checkId,
       event_type: event.type,
-      event_data: eventData,
+      event_data: toEventData(event),
       confidence_score:
         event.confidenceScore ?? Math.round((event.confidence ?? 0) * 100),
       provenance: event.provenance ?? {},
@@ -178,4 +219,6 @@ export async function saveExtractionRun(args: {
   if (eventsError) {
     throw new Error(`health_events insert failed: ${eventsError.message}`);
   }
+
+  return { checkId };
 }
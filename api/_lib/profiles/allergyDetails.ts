@@ -0,0 +1,70 @@
+/**
+ * Phase 32 – Allergy reaction history on profile allergies
+ *
+ * Stored known_allergies entries are { name, displayName } objects (Phase 21b).
+ * They may additionally carry the patient's own reaction class, how the
+ * allergy was diagnosed, and the date of the last reaction:
+ *
+ *   { name: "dairy", displayName: "milk", reaction: "intolerance",
+ *     diagnosisSource: "self_reported", lastReactionAt: "2025-11-02" }
+ *
+ * All three fields are optional; entries without a reaction class fall back
+ * to the category severity in checkRisk.
+ */
+
+import { isReactionClass, type ReactionClass } from "../inference/allergenTaxonomy.js";
+
+export type DiagnosisSource = "clinician" | "allergy_test" | "self_reported";
+
+export const DIAGNOSIS_SOURCES: readonly DiagnosisSource[] = ["clinician", "allergy_test", "self_reported"];
+
+export interface AllergyDetails {
+  reaction?: ReactionClass;
+  diagnosisSource?: DiagnosisSource;
+  /** ISO date (YYYY-MM-DD) */
+  lastReactionAt?: string;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDiagnosisSource(value: unknown): value is DiagnosisSource {
+  return typeof value === "string" && (DIAGNOSIS_SOURCES as readonly string[]).includes(value);
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === "string" && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Read the reaction history fields from a stored or submitted allergy entry.
+ * Bare strings and unrecognized values yield no details (lenient read path).
+ */
+export function readAllergyDetails(entry: unknown): AllergyDetails {
+  if (typeof entry !== "object" || entry === null) return {};
+  const obj = entry as Record<string, unknown>;
+  const details: AllergyDetails = {};
+  if (isReactionClass(obj.reaction)) details.reaction = obj.reaction;
+  if (isDiagnosisSource(obj.diagnosisSource)) details.diagnosisSource = obj.diagnosisSource;
+  if (isIsoDate(obj.lastReactionAt)) details.lastReactionAt = obj.lastReactionAt;
+  return details;
+}
+
+/**
+ * Validate the reaction history fields on a submitted allergy entry.
+ * Returns an error message for the first invalid field, or null.
+ * Absent / null fields are valid (they clear the value).
+ */
+export function validateAllergyDetails(entry: unknown): string | null {
+  if (typeof entry !== "object" || entry === null) return null;
+  const obj = entry as Record<string, unknown>;
+  if (obj.reaction != null && !isReactionClass(obj.reaction)) {
+    return "reaction must be anaphylaxis, hives, gi, or intolerance";
+  }
+  if (obj.diagnosisSource != null && !isDiagnosisSource(obj.diagnosisSource)) {
+    return "diagnosisSource must be clinician, allergy_test, or self_reported";
+  }
+  if (obj.lastReactionAt != null && !isIsoDate(obj.lastReactionAt)) {
+    return "lastReactionAt must be an ISO date (YYYY-MM-DD)";
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Phase 38 – Emergency contacts on profiles
+ *
+ * Stored in profiles.emergency_contacts as a jsonb array, in priority order:
+ *
+ *   [{ name: "Dana (mom)", phone: "+1 555 0100", relationship: "parent" }]
+ *
+ * Printed on the allergy action plan. Up to MAX_EMERGENCY_CONTACTS entries.
+ */
+
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+  relationship?: string;
+}
+
+export const MAX_EMERGENCY_CONTACTS = 5;
+
+const PHONE_RE = /^\+?[0-9 ().-]{5,24}$/;
+const MAX_TEXT = 80;
+
+/**
+ * Read contacts from a stored profile value. Malformed entries are dropped
+ * (lenient read path).
+ */
+export function readEmergencyContacts(value: unknown): EmergencyContact[] {
+  if (!Array.isArray(value)) return [];
+  const contacts: EmergencyContact[] = [];
+  for (const entry of value) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const obj = entry as Record<string, unknown>;
+    const name = typeof obj.name === "string" ? obj.name.trim() : "";
+    const phone = typeof obj.phone === "string" ? obj.phone.trim() : "";
+    if (!name || !phone) continue;
+    const relationship = typeof obj.relationship === "string" ? obj.relationship.trim() : "";
+    contacts.push(relationship ? { name, phone, relationship } : { name, phone });
+  }
+  return contacts.slice(0, MAX_EMERGENCY_CONTACTS);
+}
+
+/**
+ * Validate a submitted emergency_contacts array.
+ * Returns an error message for the first invalid entry, or null.
+ */
+export function validateEmergencyContacts(value: unknown): string | null {
+  if (!Array.isArray(value)) return "emergency_contacts must be an array";
+  if (value.length > MAX_EMERGENCY_CONTACTS) {
+    return `emergency_contacts allows at most ${MAX_EMERGENCY_CONTACTS} entries`;
+  }
+  for (const entry of value) {
+    if (typeof entry !== "object" || entry === null) {
+      return "each emergency contact must be an object with name and phone";
+    }
+    const obj = entry as Record<string, unknown>;
+    if (typeof obj.name !== "string" || !obj.name.trim() || obj.name.length > MAX_TEXT) {
+      return `emergency contact name is required (max ${MAX_TEXT} characters)`;
+    }
+    if (typeof obj.phone !== "string" || !PHONE_RE.test(obj.phone.trim())) {
+      return "emergency contact phone must be a phone number";
+    }
+    if (
+      obj.relationship != null &&
+      (typeof obj.relationship !== "string" || obj.relationship.length > MAX_TEXT)
+    ) {
+      return `emergency contact relationship must be text (max ${MAX_TEXT} characters)`;
+    }
+  }
+  return null;
+}
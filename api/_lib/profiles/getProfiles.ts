@@ -10,6 +10,12 @@ export interface ProfileRow {
   known_allergies: string[];
   current_medications: unknown[];
   supplements: string[];
+  /** Phase 28: grade precautionary label matches as high */
+  escalate_precautionary?: boolean;
+  /** Phase 37: vigilance scoring policy id */
+  vigilance_policy?: string;
+  /** Phase 38: { name, phone, relationship? }[] */
+  emergency_contacts?: unknown[];
   is_primary?: boolean;
   created_at: string;
   updated_at?: string;
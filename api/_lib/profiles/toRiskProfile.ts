@@ -0,0 +1,49 @@
+/**
+ * Phase 30 – Normalize a stored profile row for checkRisk
+ *
+ * known_allergies may hold strings or { name } objects (Phase 21b);
+ * current_medications holds { name, dosage? } objects or bare strings.
+ * Phase 32: allergy objects with a reaction class become allergy_reactions.
+ */
+
+import type { PersonalAllergy, ProfileInput } from "../inference/checkRisk.js";
+import { readAllergyDetails } from "./allergyDetails.js";
+
+export interface StoredRiskProfile {
+  known_allergies?: unknown[] | null;
+  current_medications?: unknown[] | null;
+  escalate_precautionary?: boolean | null;
+}
+
+export function toRiskProfile(profile: StoredRiskProfile): ProfileInput {
+  const knownAllergies = (profile.known_allergies ?? []).map((a: unknown) =>
+    typeof a === "object" && a !== null && "name" in a
+      ? String((a as { name: string }).name)
+      : String(a)
+  );
+  const allergyReactions: PersonalAllergy[] = [];
+  (profile.known_allergies ?? []).forEach((a: unknown, i: number) => {
+    const { reaction, diagnosisSource, lastReactionAt } = readAllergyDetails(a);
+    if (!reaction) return;
+    allergyReactions.push({
+      name: knownAllergies[i],
+      reaction,
+      ...(diagnosisSource ? { diagnosisSource } : {}),
+      ...(lastReactionAt ? { lastReactionAt } : {}),
+    });
+  });
+  const currentMeds = (profile.current_medications ?? []).map((m: unknown) => {
+    const obj = m as { name?: string; dosage?: string };
+    return {
+      name: String(obj?.name ?? obj ?? ""),
+      dosage: obj?.dosage,
+    };
+  });
+
+  return {
+    known_allergies: knownAllergies,
+    current_medications: currentMeds,
+    escalate_precautionary: profile.escalate_precautionary === true,
+    ...(allergyReactions.length > 0 ? { allergy_reactions: allergyReactions } : {}),
+  };
+}
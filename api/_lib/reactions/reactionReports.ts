@@ -0,0 +1,270 @@
+/**
+ * Phase 35 – Post-exposure reaction reports
+ *
+ * Structured "I had a reaction" reports, explicitly linked to the check the
+ * reaction followed. Each report is persisted as its own check (so it shows
+ * up in history) with a single "symptom" health_event whose linked_check_id
+ * points at the originating check:
+ *
+ *   event_data: {
+ *     symptom, severity, onset_minutes, treatments[], notes?,
+ *     source: "reaction_report"
+ *   }
+ *
+ * analyzeTrajectory and buildEvidenceContext treat these as confirmed
+ * trigger → symptom links (onset from the report, no temporal guessing).
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const REACTION_SYMPTOMS = [
+  "hives",
+  "itching",
+  "rash",
+  "swelling",
+  "throat tightness",
+  "wheezing",
+  "vomiting",
+  "diarrhea",
+  "stomach pain",
+  "dizziness",
+] as const;
+
+export type ReactionSymptom = (typeof REACTION_SYMPTOMS)[number];
+
+export const REACTION_SEVERITIES = ["mild", "moderate", "severe"] as const;
+
+export type ReactionSeverity = (typeof REACTION_SEVERITIES)[number];
+
+/** Treatment used; an empty list means none. */
+export const REACTION_TREATMENTS = ["antihistamine", "epinephrine", "er_visit"] as const;
+
+export type ReactionTreatment = (typeof REACTION_TREATMENTS)[number];
+
+/** Onset delays beyond 72 hours are not attributed to a single check. */
+export const MAX_ONSET_MINUTES = 72 * 60;
+
+export const REACTION_REPORT_SOURCE = "reaction_report";
+
+const NOTES_MAX_LENGTH = 500;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface ReactionReportInput {
+  symptom: ReactionSymptom;
+  severity: ReactionSeverity;
+  /** Minutes between the originating check and the first symptom */
+  onsetMinutes: number;
+  treatments: ReactionTreatment[];
+  notes?: string;
+}
+
+export interface ReactionReport extends ReactionReportInput {
+  /** health_events.id of the symptom event */
+  id: string;
+  /** The reaction's own check */
+  checkId: string;
+  /** The check the reaction followed (null once that check is deleted) */
+  linkedCheckId: string | null;
+  reportedAt: string;
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
+function isOneOf<T extends string>(values: readonly T[], v: unknown): v is T {
+  return typeof v === "string" && (values as readonly string[]).includes(v);
+}
+
+/**
+ * Validate a request body. Returns the normalized report or an error message.
+ * Treatments are de-duplicated; "none" is accepted as an empty list.
+ */
+export function validateReactionReport(
+  body: Record<string, unknown>
+): { report: ReactionReportInput } | { error: string } {
+  const symptom = typeof body.symptom === "string" ? body.symptom.trim().toLowerCase() : "";
+  if (!isOneOf(REACTION_SYMPTOMS, symptom)) {
+    return { error: `Invalid symptom: expected one of ${REACTION_SYMPTOMS.join(", ")}` };
+  }
+
+  if (!isOneOf(REACTION_SEVERITIES, body.severity)) {
+    return { error: `Invalid severity: expected one of ${REACTION_SEVERITIES.join(", ")}` };
+  }
+
+  const onset = body.onsetMinutes;
+  if (typeof onset !== "number" || !Number.isInteger(onset) || onset < 0 || onset > MAX_ONSET_MINUTES) {
+    return { error: `Invalid onsetMinutes: expected an integer between 0 and ${MAX_ONSET_MINUTES}` };
+  }
+
+  const rawTreatments = body.treatments ?? [];
+  if (!Array.isArray(rawTreatments)) {
+    return { error: "Invalid treatments: expected an array" };
+  }
+  const treatments: ReactionTreatment[] = [];
+  for (const t of rawTreatments) {
+    if (t === "none") continue;
+    if (!isOneOf(REACTION_TREATMENTS, t)) {
+      return { error: `Invalid treatment: expected one of ${REACTION_TREATMENTS.join(", ")}` };
+    }
+    if (!treatments.includes(t)) treatments.push(t);
+  }
+
+  const notes = typeof body.notes === "string" ? body.notes.trim().slice(0, NOTES_MAX_LENGTH) : "";
+
+  return {
+    report: {
+      symptom,
+      severity: body.severity,
+      onsetMinutes: onset,
+      treatments,
+      ...(notes ? { notes } : {}),
+    },
+  };
+}
+
+// ── Formatting ───────────────────────────────────────────────────────
+
+const TREATMENT_LABELS: Record<ReactionTreatment, string> = {
+  antihistamine: "antihistamine",
+  epinephrine: "epinephrine",
+  er_visit: "ER visit",
+};
+
+export function formatOnset(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/** raw_text for the reaction's check, e.g. "Reaction: hives (moderate), 30 min after check; treated with antihistamine". */
+export function describeReactionReport(report: ReactionReportInput): string {
+  const treated = report.treatments.length > 0
+    ? `; treated with ${report.treatments.map((t) => TREATMENT_LABELS[t]).join(", ")}`
+    : "";
+  const notes = report.notes ? `. ${report.notes}` : "";
+  return `Reaction: ${report.symptom} (${report.severity}), ${formatOnset(report.onsetMinutes)} after check${treated}${notes}`;
+}
+
+/** Read a reaction report back from a health_events row; null when the row is not one. */
+export function toReactionReport(row: {
+  id: string;
+  check_id: string;
+  linked_check_id?: string | null;
+  event_data: Record<string, unknown> | null;
+  created_at: string;
+}): ReactionReport | null {
+  const d = row.event_data ?? {};
+  if (d.source !== REACTION_REPORT_SOURCE) return null;
+  return {
+    id: row.id,
+    checkId: row.check_id,
+    linkedCheckId: row.linked_check_id ?? null,
+    reportedAt: row.created_at,
+    symptom: d.symptom as ReactionSymptom,
+    severity: d.severity as ReactionSeverity,
+    onsetMinutes: Number(d.onset_minutes ?? 0),
+    treatments: Array.isArray(d.treatments) ? (d.treatments as ReactionTreatment[]) : [],
+    ...(typeof d.notes === "string" && d.notes ? { notes: d.notes } : {}),
+  };
+}
+
+// ── DB wrappers ──────────────────────────────────────────────────────
+
+/**
+ * Persist a reaction report linked to `linkedCheckId`.
+ *
+ * Write order: verify the originating check belongs to the profile, insert
+ * the reaction's check row, then its symptom health_event. Returns null
+ * (nothing written) when the originating check is not found.
+ */
+export async function createReactionReport(args: {
+  profileId: string;
+  linkedCheckId: string;
+  report: ReactionReportInput;
+}): Promise<ReactionReport | null> {
+  const supabase = getSupabaseClient();
+  const { profileId, linkedCheckId, report } = args;
+
+  const { data: linked, error: linkedError } = await supabase
+    .from("checks")
+    .select("id")
+    .eq("id", linkedCheckId)
+    .eq("profile_id", profileId)
+    .maybeSingle();
+
+  if (linkedError) {
+    throw new Error(`checks query failed: ${linkedError.message}`);
+  }
+  if (!linked) return null;
+
+  const { data: check, error: checkError } = await supabase
+    .from("checks")
+    .insert({ profile_id: profileId, raw_text: describeReactionReport(report) })
+    .select("id")
+    .single();
+
+  if (checkError || !check) {
+    throw new Error(`checks insert failed: ${checkError?.message ?? "no row returned"}`);
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from("health_events")
+    .insert({
+      profile_id: profileId,
+      check_id: (check as { id: string }).id,
+      linked_check_id: linkedCheckId,
+      event_type: "symptom",
+      event_data: {
+        symptom: report.symptom,
+        severity: report.severity,
+        onset_minutes: report.onsetMinutes,
+        treatments: report.treatments,
+        ...(report.notes ? { notes: report.notes } : {}),
+        source: REACTION_REPORT_SOURCE,
+      },
+      confidence_score: 100,
+      provenance: { source: REACTION_REPORT_SOURCE },
+    })
+    .select("id, check_id, linked_check_id, event_data, created_at")
+    .single();
+
+  if (eventError || !event) {
+    throw new Error(`health_events insert failed: ${eventError?.message ?? "no row returned"}`);
+  }
+
+  return toReactionReport(event as Parameters<typeof toReactionReport>[0]);
+}
+
+/** Reaction reports for a profile, newest first; optionally only those linked to one check. */
+export async function listReactionReports(
+  profileId: string,
+  linkedCheckId?: string
+): Promise<ReactionReport[]> {
+  const supabase = getSupabaseClient();
+
+  let query = supabase
+    .from("health_events")
+    .select("id, check_id, linked_check_id, event_data, created_at")
+    .eq("profile_id", profileId)
+    .eq("event_type", "symptom");
+
+  if (linkedCheckId) {
+    query = query.eq("linked_check_id", linkedCheckId);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`health_events query failed: ${error.message}`);
+  }
+
+  const reports: ReactionReport[] = [];
+  for (const row of data ?? []) {
+    const report = toReactionReport(row as Parameters<typeof toReactionReport>[0]);
+    if (report) reports.push(report);
+  }
+  return reports;
+}
@@ -0,0 +1,244 @@
+/**
+ * Phase 38 – Allergy action plan (per profile)
+ *
+ * Standing document a caregiver can hand to a school nurse: allergens with
+ * personal severity, current medications, epinephrine instructions,
+ * emergency contacts and symptoms to watch (from the advice registry).
+ * Deterministic: same profile + generatedAt → same plan. No LLM, no DB.
+ */
+
+import {
+  ADVICE_REGISTRY_VERSION,
+  GENERAL_SAFETY_FALLBACK,
+  resolveAdviceForMatched,
+  type AdviceEntry,
+} from "../advice/adviceRegistry.js";
+import {
+  ALLERGEN_TAXONOMY,
+  ALLERGEN_TAXONOMY_VERSION,
+  getAllergenSeverity,
+  getParentKeyForTerm,
+  getReactionSeverity,
+  normalizeToken,
+  resolveCategoryForSeverity,
+  resolveToCanonical,
+  type ReactionClass,
+} from "../inference/allergenTaxonomy.js";
+import { readAllergyDetails, type DiagnosisSource } from "../profiles/allergyDetails.js";
+import { readEmergencyContacts, type EmergencyContact } from "../profiles/emergencyContacts.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type ActionPlanSeverityLabel = "severe" | "moderate" | "mild";
+
+export interface ActionPlanAllergen {
+  /** Canonical name as stored on the profile */
+  name: string;
+  displayName: string;
+  /** Taxonomy category used for severity / advice (e.g. "tree_nut") */
+  category: string;
+  /** 0–100; personal reaction class when recorded, else category default */
+  severity: number;
+  severityLabel: ActionPlanSeverityLabel;
+  severitySource: "reaction" | "category";
+  reaction?: ReactionClass;
+  diagnosisSource?: DiagnosisSource;
+  lastReactionAt?: string;
+}
+
+export interface ActionPlanMedication {
+  name: string;
+  displayName: string;
+  dosage?: string;
+}
+
+export interface ActionPlan {
+  meta: {
+    profileId: string;
+    profileName: string;
+    generatedAt: string;
+    adviceVersion: string;
+    taxonomyVersion: string;
+  };
+  /** Most severe first */
+  allergens: ActionPlanAllergen[];
+  medications: ActionPlanMedication[];
+  epinephrine: {
+    /** An epinephrine device is on the medication list */
+    prescribed: boolean;
+    devices: string[];
+    /** Anaphylaxis history or a severe allergen: give epinephrine first */
+    firstLine: boolean;
+    instructions: string[];
+  };
+  emergencyContacts: EmergencyContact[];
+  symptomsToWatch: string[];
+  immediateActions: string[];
+  /** Advice registry entries the plan drew from */
+  adviceIds: string[];
+  disclaimers: string[];
+}
+
+export interface ActionPlanProfileRow {
+  id: string;
+  display_name?: string | null;
+  known_allergies?: unknown[] | null;
+  current_medications?: unknown[] | null;
+  emergency_contacts?: unknown;
+}
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Medication names that count as an epinephrine device. */
+const EPINEPHRINE_RE = /\b(epinephrine|adrenaline|epi-?pen|auvi-?q|adrenaclick|symjepi|neffy)\b/i;
+
+const SEVERE_THRESHOLD = 85;
+const MODERATE_THRESHOLD = 60;
+
+const EPINEPHRINE_STEPS: string[] = [
+  "Give epinephrine right away at the first sign of a severe reaction (trouble breathing, throat tightness, repeated vomiting, fainting, or symptoms in more than one body area).",
+  "Inject into the outer thigh; it can go through clothing. Hold in place as the device instructs.",
+  "Call 911 and say the person is having anaphylaxis.",
+  "Lay the person flat with legs raised. If breathing is hard, let them sit up. Do not let them stand or walk.",
+  "If symptoms do not improve after 5 minutes, give a second dose if one is available.",
+  "Note the time of each dose and send the used device to the hospital.",
+  "Then call the emergency contacts below.",
+];
+
+const NO_EPINEPHRINE_STEPS: string[] = [
+  "No epinephrine device is listed for this person.",
+  "Call 911 at the first sign of a severe reaction (trouble breathing, throat tightness, repeated vomiting, fainting).",
+  "Lay the person flat with legs raised. If breathing is hard, let them sit up.",
+  "Then call the emergency contacts below.",
+];
+
+const PLAN_DISCLAIMERS: string[] = [
+  "Generated from the profile on file. Review it with the person's allergist and update it when anything changes.",
+  "This is general guidance, not medical advice. Follow the allergist's written plan where it differs.",
+];
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function singular(s: string): string {
+  return s.endsWith("s") && s.length > 1 ? s.slice(0, -1) : s;
+}
+
+/**
+ * Resolve a stored allergy name to a canonical term and taxonomy category.
+ * Handles plurals and spaced parent keys ("peanuts", "tree nuts").
+ * known is false when neither the taxonomy nor its aliases matched.
+ */
+export function resolveAllergen(name: string): { term: string; category: string; known: boolean } {
+  const norm = normalizeToken(name);
+  const candidates = [norm, singular(norm), norm.replace(/ /g, "_"), singular(norm.replace(/ /g, "_"))];
+  for (const c of candidates) {
+    if (c in ALLERGEN_TAXONOMY) return { term: c, category: c, known: true };
+    const canonical = resolveToCanonical(c);
+    if (canonical) return { term: canonical, category: resolveCategoryForSeverity(canonical), known: true };
+  }
+  return { term: norm, category: resolveCategoryForSeverity(norm), known: false };
+}
+
+export function severityLabel(severity: number): ActionPlanSeverityLabel {
+  if (severity >= SEVERE_THRESHOLD) return "severe";
+  if (severity >= MODERATE_THRESHOLD) return "moderate";
+  return "mild";
+}
+
+function displayNameOf(entry: unknown, fallback: string): string {
+  if (typeof entry === "object" && entry !== null && "displayName" in entry) {
+    const d = (entry as { displayName?: unknown }).displayName;
+    if (typeof d === "string" && d.trim()) return d.trim();
+  }
+  return fallback;
+}
+
+/** Case-insensitive de-duplication, first spelling wins. */
+function uniqueLines(lines: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const line of lines) {
+    const key = line.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(line);
+  }
+  return out;
+}
+
+// ── Builder ──────────────────────────────────────────────────────────
+
+export function buildActionPlan(
+  profile: ActionPlanProfileRow,
+  options: { generatedAt?: string } = {}
+): ActionPlan {
+  const allergens: ActionPlanAllergen[] = (profile.known_allergies ?? []).map((a: unknown) => {
+    const name =
+      typeof a === "object" && a !== null && "name" in a
+        ? String((a as { name: string }).name)
+        : String(a);
+    const { category } = resolveAllergen(name);
+    const details = readAllergyDetails(a);
+    const severity = details.reaction
+      ? getReactionSeverity(details.reaction)
+      : getAllergenSeverity(category);
+    return {
+      name,
+      displayName: displayNameOf(a, name),
+      category,
+      severity,
+      severityLabel: severityLabel(severity),
+      severitySource: details.reaction ? "reaction" : "category",
+      ...details,
+    };
+  });
+  allergens.sort((a, b) => b.severity - a.severity || a.displayName.localeCompare(b.displayName));
+
+  const medications: ActionPlanMedication[] = (profile.current_medications ?? [])
+    .map((m: unknown) => {
+      const obj = (typeof m === "object" && m !== null ? m : { name: m }) as {
+        name?: unknown;
+        dosage?: unknown;
+      };
+      const name = String(obj.name ?? "").trim();
+      const dosage = typeof obj.dosage === "string" && obj.dosage.trim() ? obj.dosage.trim() : undefined;
+      return { name, displayName: displayNameOf(m, name), ...(dosage ? { dosage } : {}) };
+    })
+    .filter((m) => m.name);
+
+  const devices = medications
+    .filter((m) => EPINEPHRINE_RE.test(m.name) || EPINEPHRINE_RE.test(m.displayName))
+    .map((m) => (m.dosage ? `${m.displayName} ${m.dosage}` : m.displayName));
+  const prescribed = devices.length > 0;
+  const firstLine = allergens.some((a) => a.reaction === "anaphylaxis" || a.severityLabel === "severe");
+
+  // Advice: term entry (e.g. mango) else parent entry (e.g. tree_nut)
+  let advice: AdviceEntry[] = resolveAdviceForMatched(
+    allergens.map((a) => ({ matchedTerm: resolveAllergen(a.name).term, matchedCategory: a.category })),
+    getParentKeyForTerm
+  );
+  if (advice.length === 0) advice = [GENERAL_SAFETY_FALLBACK];
+
+  return {
+    meta: {
+      profileId: profile.id,
+      profileName: String(profile.display_name ?? "Unknown"),
+      generatedAt: options.generatedAt ?? new Date().toISOString(),
+      adviceVersion: ADVICE_REGISTRY_VERSION,
+      taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+    },
+    allergens,
+    medications,
+    epinephrine: {
+      prescribed,
+      devices,
+      firstLine,
+      instructions: prescribed ? EPINEPHRINE_STEPS : NO_EPINEPHRINE_STEPS,
+    },
+    emergencyContacts: readEmergencyContacts(profile.emergency_contacts),
+    symptomsToWatch: uniqueLines(advice.flatMap((e) => e.symptomsToWatch)),
+    immediateActions: uniqueLines(advice.flatMap((e) => e.immediateActions)),
+    adviceIds: advice.map((e) => e.id),
+    disclaimers: uniqueLines([...PLAN_DISCLAIMERS, ...advice.flatMap((e) => e.disclaimers)]),
+  };
+}
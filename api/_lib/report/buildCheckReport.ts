@@ -2,16 +2,20 @@
  * Phase 13.5 – Safety Report Builder (Pure, Deterministic)
  * Phase 13.5.2 – Back-compat: old checks may have minimal verdict (riskLevel/reasoning only).
  * Phase 14.2 – Advice block: ranked advice from registry, cap 3, General Safety fallback.
+ * Phase 28 – Precautionary matches: rule advice first, entries flagged precautionary.
+ * Phase 42 – Combination products: entries list "via ingredient X of product Y".
  * Report reflects stored state; only derives traceId when missing.
  */
 
 import {
   resolveAdviceForMatched,
+  resolveAdviceForRule,
   ADVICE_REGISTRY_VERSION,
   GENERAL_SAFETY_FALLBACK,
   type AdviceEntry,
 } from "../advice/adviceRegistry.js";
 import { getParentKeyForTerm } from "../inference/allergenTaxonomy.js";
+import { describeViaIngredients } from "../inference/drugInteractions.js";
 import {
   toResolutionMetadata,
   type ResolutionMetadata,
@@ -40,6 +44,7 @@ export interface ReportCheckInput {
       matchedCategory?: string;
       matchedChild?: string;
       crossReactive?: boolean;
+      precautionary?: boolean;
       source?: string;
       matchedTerm?: string;
     };
@@ -62,6 +67,10 @@ export interface ReportMatchedEntry {
   matchedTerm: string;
   matchedCategory?: string;
   crossReactive?: boolean;
+  /** Phase 28: cross-contact label statement, not an ingredient */
+  precautionary?: boolean;
+  /** Phase 42: "via ingredient X of product Y" (product names are stripped from details) */
+  viaIngredients?: string[];
   details?: Record<string, unknown>;
 }
 
@@ -183,12 +192,28 @@ export function buildCheckReport(args: {
   };
 }
 
+/**
+ * Phase 30: report-normalized matches and advice for a verdict that has no
+ * persisted check (household comparison).
+ */
+export function buildVerdictSummary(verdict: ReportCheckInput["verdict"]): {
+  matched: ReportMatchedEntry[];
+  advice?: CheckReport["output"]["advice"];
+} {
+  const matched = normalizeMatched(verdict.matched ?? []);
+  const advice = buildAdviceBlock(matched);
+  return advice ? { matched, advice } : { matched };
+}
+
 const ADVICE_CAP = 3;
 
 /** Phase 14.2: Build advice block. Deterministic. Cap 3. General Safety fallback when matched but no registry advice. */
 function buildAdviceBlock(matched: ReportMatchedEntry[]): CheckReport["output"]["advice"] | undefined {
   const allergyRelevant = matched.filter(
-    (m) => m.kind === "allergy_match" || m.kind === "cross_reactive"
+    (m) =>
+      m.kind === "allergy_match" ||
+      m.kind === "cross_reactive" ||
+      m.kind === "precautionary_allergen"
   );
   if (allergyRelevant.length === 0) return undefined;
 
@@ -199,6 +224,12 @@ function buildAdviceBlock(matched: ReportMatchedEntry[]): CheckReport["output"][
 
   let items = resolveAdviceForMatched(matchedForAdvice, getParentKeyForTerm);
 
+  // Phase 28: precautionary guidance leads; allergen advice follows
+  const precautionaryAdvice = allergyRelevant.some((m) => m.precautionary)
+    ? resolveAdviceForRule("precautionary_allergen")
+    : undefined;
+  if (precautionaryAdvice) items = [precautionaryAdvice, ...items];
+
   if (items.length === 0) {
     items = [GENERAL_SAFETY_FALLBACK];
   } else {
@@ -225,6 +256,7 @@ function normalizeMatched(
     const matchedTerm = extractMatchedTerm(m);
     const matchedCategory = extractCategory(m);
     const crossReactive = m.rule === "cross_reactive" ? true : undefined;
+    const precautionary = m.rule === "precautionary_allergen" ? true : undefined;
 
     const entry: ReportMatchedEntry = {
       kind,
@@ -233,6 +265,9 @@ function normalizeMatched(
     };
     if (matchedCategory !== undefined) entry.matchedCategory = matchedCategory;
     if (crossReactive !== undefined) entry.crossReactive = crossReactive;
+    if (precautionary !== undefined) entry.precautionary = precautionary;
+    const via = describeViaIngredients(m.details);
+    if (via.length > 0) entry.viaIngredients = via;
 
     const filtered = filterDetails(m.details);
     if (Object.keys(filtered).length > 0) entry.details = filtered;
@@ -254,9 +289,9 @@ function normalizeMatched(
 }
 
 function extractMatchedTerm(m: { rule: string; details: Record<string, unknown> }): string {
-  if (m.rule === "allergy_match") return str(m.details.allergen);
+  if (m.rule === "allergy_match" || m.rule === "precautionary_allergen") return str(m.details.allergen);
   if (m.rule === "cross_reactive") return str(m.details.matchedTerm);
-  if (m.rule === "medication_interaction") {
+  if (m.rule === "medication_interaction" || m.rule === "functional_class_interaction") {
     const pair = [str(m.details.extracted), str(m.details.conflictsWith)]
       .filter(Boolean)
       .sort((a, b) => a.localeCompare(b));
@@ -272,7 +307,9 @@ function extractMatchedTerm(m: { rule: string; details: Record<string, unknown>
 }
 
 function extractCategory(m: { rule: string; details: Record<string, unknown> }): string | undefined {
-  if (m.rule === "allergy_match") return str(m.details.matchedCategory) || undefined;
+  if (m.rule === "allergy_match" || m.rule === "precautionary_allergen") {
+    return str(m.details.matchedCategory) || undefined;
+  }
   if (m.rule === "cross_reactive") return str(m.details.source) || undefined;
   return undefined;
 }
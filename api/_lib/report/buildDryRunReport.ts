@@ -0,0 +1,40 @@
+/**
+ * Phase 31 – Dry-run report
+ *
+ * Same shape as buildCheckReport, built from an unsaved extraction run:
+ * the check id is the one evaluateExtractionRun generated for the traceId,
+ * events get the event_data they would have been persisted with (including
+ * _resolution, surfaced as resolution metadata).
+ */
+
+import type { Verdict } from "../inference/checkRisk.js";
+import { toEventData } from "../persistence/saveExtractionRun.js";
+import { buildCheckReport, type CheckReport } from "./buildCheckReport.js";
+
+export function buildDryRunReport(args: {
+  checkId: string;
+  profileId: string;
+  rawText: string;
+  verdict: Verdict;
+  events: Array<{ id?: string; type: string; fields?: Record<string, unknown>; resolution?: unknown }>;
+  generatedAt?: string;
+}): CheckReport {
+  const createdAt = args.generatedAt ?? new Date().toISOString();
+  return buildCheckReport({
+    check: {
+      id: args.checkId,
+      profile_id: args.profileId,
+      created_at: createdAt,
+      raw_text: args.rawText,
+      verdict: args.verdict,
+    },
+    events: args.events.map((e, i) => ({
+      id: e.id ?? `${args.checkId}:${i + 1}`,
+      created_at: createdAt,
+      event_type: e.type,
+      event_data: toEventData(e),
+    })),
+    generatedAt: createdAt,
+    includeRawText: true,
+  });
+}
@@ -0,0 +1,339 @@
+/**
+ * Phase 39 – Period report (multi-check export)
+ *
+ * Everything an allergist needs for one profile over a date range: all
+ * checks, flagged verdicts (report-normalized matches + advice, as in
+ * buildCheckReport), reaction reports, trajectory and functional-stacking
+ * insights, plus summary statistics per allergen category.
+ *
+ * buildPeriodReport is pure; fetchPeriodReport loads the inputs.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import {
+  buildVerdictSummary,
+  type CheckReport,
+  type ReportCheckInput,
+  type ReportMatchedEntry,
+} from "./buildCheckReport.js";
+import {
+  ALLERGEN_TAXONOMY,
+  ALLERGEN_TAXONOMY_VERSION,
+  resolveCategoryForSeverity,
+  type AllergenParentKey,
+} from "../inference/allergenTaxonomy.js";
+import { analyzeTrajectory, type DateRange, type Insight } from "../inference/analyzeTrajectory.js";
+import { detectFunctionalStacking, type StackingInsight } from "../inference/detectFunctionalStacking.js";
+import { listReactionReports, type ReactionReport } from "../reactions/reactionReports.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const PERIOD_REPORT_VERSION = "v0-period-39";
+
+export const DEFAULT_PERIOD_DAYS = 30;
+export const MAX_PERIOD_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Match kinds that count toward allergen category statistics. */
+const ALLERGEN_KINDS = new Set(["allergy_match", "cross_reactive", "precautionary_allergen"]);
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface PeriodCheckInput {
+  id: string;
+  created_at: string;
+  raw_text: string | null;
+  verdict: ReportCheckInput["verdict"] | null;
+}
+
+export interface PeriodCheckSummary {
+  checkId: string;
+  createdAt: string;
+  riskLevel: string;
+  severity: number;
+  /** Matched terms, in report order */
+  matchedTerms: string[];
+  rawText?: string;
+}
+
+export interface PeriodFlaggedCheck extends PeriodCheckSummary {
+  matched: ReportMatchedEntry[];
+  advice?: CheckReport["output"]["advice"];
+  /** Reaction reports linked to this check */
+  reactionIds: string[];
+}
+
+export interface PeriodCategoryStats {
+  category: string;
+  label: string;
+  /** Distinct checks with a match in this category */
+  flaggedChecks: number;
+  high: number;
+  medium: number;
+  precautionary: number;
+  crossReactive: number;
+  /** Reaction reports linked to those checks */
+  reactions: number;
+  terms: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface PeriodReport {
+  meta: {
+    reportVersion: string;
+    generatedAt: string;
+    profileId: string;
+    profileName: string;
+    from: string;
+    to: string;
+    taxonomyVersion: string;
+  };
+  summary: {
+    totalChecks: number;
+    flaggedChecks: number;
+    byRiskLevel: Record<string, number>;
+    /** Matches per rule kind across flagged checks */
+    byRule: Record<string, number>;
+    reactions: number;
+    trajectoryInsights: number;
+    stackingInsights: number;
+  };
+  /** Most flagged first */
+  categories: PeriodCategoryStats[];
+  /** Oldest first; reaction-report checks are listed under reactions */
+  checks: PeriodCheckSummary[];
+  flagged: PeriodFlaggedCheck[];
+  reactions: ReactionReport[];
+  trajectory: Insight[];
+  stacking: StackingInsight[];
+}
+
+export interface PeriodReportInput {
+  profile: { id: string; display_name?: string | null };
+  range: DateRange;
+  checks: PeriodCheckInput[];
+  reactions: ReactionReport[];
+  trajectory: Insight[];
+  stacking: StackingInsight[];
+  generatedAt?: string;
+  includeRawText?: boolean;
+}
+
+// ── Range ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve from / to query values (YYYY-MM-DD or ISO) into an ISO range.
+ * Date-only "to" covers the whole day. Defaults to the last
+ * DEFAULT_PERIOD_DAYS ending now.
+ */
+export function resolvePeriodRange(
+  fromParam: string | undefined,
+  toParam: string | undefined,
+  nowMs: number = Date.now()
+): { range: DateRange } | { error: string } {
+  const parse = (v: string, endOfDay: boolean): number =>
+    DATE_ONLY.test(v) ? Date.parse(`${v}T00:00:00.000Z`) + (endOfDay ? DAY_MS - 1 : 0) : Date.parse(v);
+
+  const toMs = toParam ? parse(toParam, true) : nowMs;
+  if (Number.isNaN(toMs)) return { error: "Invalid to: expected YYYY-MM-DD or ISO timestamp" };
+  const fromMs = fromParam ? parse(fromParam, false) : toMs - DEFAULT_PERIOD_DAYS * DAY_MS;
+  if (Number.isNaN(fromMs)) return { error: "Invalid from: expected YYYY-MM-DD or ISO timestamp" };
+
+  if (fromMs > toMs) return { error: "from must be before to" };
+  if (toMs - fromMs > MAX_PERIOD_DAYS * DAY_MS) {
+    return { error: `Range too long: at most ${MAX_PERIOD_DAYS} days` };
+  }
+  return { range: { from: new Date(fromMs).toISOString(), to: new Date(toMs).toISOString() } };
+}
+
+// ── Builder ──────────────────────────────────────────────────────────
+
+function categoryOf(m: ReportMatchedEntry): string {
+  return m.matchedCategory || resolveCategoryForSeverity(m.matchedTerm);
+}
+
+function categoryLabel(category: string): string {
+  const entry = ALLERGEN_TAXONOMY[category as AllergenParentKey];
+  if (entry) return entry.label;
+  return category.charAt(0).toUpperCase() + category.slice(1).replace(/_/g, " ");
+}
+
+export function buildPeriodReport(input: PeriodReportInput): PeriodReport {
+  const { profile, range, includeRawText = false } = input;
+
+  // Reaction reports are stored as their own checks (Phase 35)
+  const reactionCheckIds = new Set(input.reactions.map((r) => r.checkId));
+  const reactionsByLinked = new Map<string, string[]>();
+  for (const r of input.reactions) {
+    if (!r.linkedCheckId) continue;
+    const list = reactionsByLinked.get(r.linkedCheckId) ?? [];
+    list.push(r.id);
+    reactionsByLinked.set(r.linkedCheckId, list);
+  }
+
+  const sorted = input.checks
+    .filter((c) => !reactionCheckIds.has(c.id))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+
+  const checks: PeriodCheckSummary[] = [];
+  const flagged: PeriodFlaggedCheck[] = [];
+  const byRiskLevel: Record<string, number> = {};
+  const byRule: Record<string, number> = {};
+  const categories = new Map<string, { stats: PeriodCategoryStats; terms: Set<string> }>();
+
+  for (const c of sorted) {
+    const riskLevel = c.verdict?.riskLevel ?? "none";
+    byRiskLevel[riskLevel] = (byRiskLevel[riskLevel] ?? 0) + 1;
+
+    const { matched, advice } = c.verdict
+      ? buildVerdictSummary(c.verdict)
+      : { matched: [] as ReportMatchedEntry[], advice: undefined };
+
+    const summary: PeriodCheckSummary = {
+      checkId: c.id,
+      createdAt: c.created_at,
+      riskLevel,
+      severity: c.verdict?.meta?.severity ?? 0,
+      matchedTerms: matched.map((m) => m.matchedTerm).filter(Boolean),
+      ...(includeRawText && c.raw_text ? { rawText: c.raw_text } : {}),
+    };
+    checks.push(summary);
+
+    if (riskLevel !== "medium" && riskLevel !== "high") continue;
+
+    const reactionIds = reactionsByLinked.get(c.id) ?? [];
+    flagged.push({ ...summary, matched, ...(advice ? { advice } : {}), reactionIds });
+
+    const seenCategories = new Set<string>();
+    for (const m of matched) {
+      byRule[m.kind] = (byRule[m.kind] ?? 0) + 1;
+      if (!ALLERGEN_KINDS.has(m.kind)) continue;
+
+      const key = categoryOf(m);
+      let entry = categories.get(key);
+      if (!entry) {
+        entry = {
+          stats: {
+            category: key,
+            label: categoryLabel(key),
+            flaggedChecks: 0,
+            high: 0,
+            medium: 0,
+            precautionary: 0,
+            crossReactive: 0,
+            reactions: 0,
+            terms: [],
+            firstSeenAt: c.created_at,
+            lastSeenAt: c.created_at,
+          },
+          terms: new Set(),
+        };
+        categories.set(key, entry);
+      }
+      const { stats } = entry;
+      if (m.matchedTerm) entry.terms.add(m.matchedTerm.toLowerCase());
+      if (m.precautionary) stats.precautionary++;
+      if (m.crossReactive) stats.crossReactive++;
+      if (seenCategories.has(key)) continue;
+      seenCategories.add(key);
+
+      stats.flaggedChecks++;
+      if (riskLevel === "high") stats.high++;
+      else stats.medium++;
+      stats.reactions += reactionIds.length;
+      stats.lastSeenAt = c.created_at;
+    }
+  }
+
+  const categoryStats: PeriodCategoryStats[] = [...categories.values()]
+    .map(({ stats, terms }) => ({ ...stats, terms: [...terms].sort() }))
+    .sort((a, b) => b.flaggedChecks - a.flaggedChecks || b.high - a.high || a.category.localeCompare(b.category));
+
+  const reactions = [...input.reactions].sort((a, b) => a.reportedAt.localeCompare(b.reportedAt));
+
+  return {
+    meta: {
+      reportVersion: PERIOD_REPORT_VERSION,
+      generatedAt: input.generatedAt ?? new Date().toISOString(),
+      profileId: profile.id,
+      profileName: String(profile.display_name ?? "Unknown"),
+      from: range.from,
+      to: range.to,
+      taxonomyVersion: ALLERGEN_TAXONOMY_VERSION,
+    },
+    summary: {
+      totalChecks: checks.length,
+      flaggedChecks: flagged.length,
+      byRiskLevel,
+      byRule,
+      reactions: reactions.length,
+      trajectoryInsights: input.trajectory.length,
+      stackingInsights: input.stacking.length,
+    },
+    categories: categoryStats,
+    checks,
+    flagged,
+    reactions,
+    trajectory: input.trajectory,
+    stacking: input.stacking,
+  };
+}
+
+// ── DB wrapper ───────────────────────────────────────────────────────
+
+/** Load and build the period report. Returns null when the profile does not exist. */
+export async function fetchPeriodReport(args: {
+  profileId: string;
+  range: DateRange;
+  includeRawText?: boolean;
+}): Promise<PeriodReport | null> {
+  const { profileId, range } = args;
+  const supabase = getSupabaseClient();
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, display_name, known_allergies")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Profile query failed: ${profileError.message}`);
+  }
+  if (!profile) return null;
+
+  const { data: checks, error: checksError } = await supabase
+    .from("checks")
+    .select("id, created_at, raw_text, verdict")
+    .eq("profile_id", profileId)
+    .gte("created_at", range.from)
+    .lte("created_at", range.to)
+    .order("created_at", { ascending: true });
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+
+  const reactions = (await listReactionReports(profileId)).filter(
+    (r) => r.reportedAt >= range.from && r.reportedAt <= range.to
+  );
+
+  const { known_allergies: knownAllergies } = toRiskProfile(profile);
+  const [trajectory, stacking] = await Promise.all([
+    analyzeTrajectory({ profileId, range, knownAllergies }),
+    detectFunctionalStacking({ profileId, range }),
+  ]);
+
+  return buildPeriodReport({
+    profile,
+    range,
+    checks: (checks ?? []) as PeriodCheckInput[],
+    reactions,
+    trajectory: trajectory.insights,
+    stacking,
+    includeRawText: args.includeRawText,
+  });
+}
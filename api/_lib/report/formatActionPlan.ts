@@ -0,0 +1,232 @@
+/**
+ * Phase 38 – Action plan formatters
+ *
+ * Plain text (same layout as formatReportAsText) and a self-contained,
+ * print-ready HTML page for the allergy action plan.
+ */
+
+import type { ActionPlan, ActionPlanAllergen } from "./buildActionPlan.js";
+
+const SEVERITY_TEXT: Record<ActionPlanAllergen["severityLabel"], string> = {
+  severe: "SEVERE",
+  moderate: "MODERATE",
+  mild: "MILD",
+};
+
+const REACTION_TEXT: Record<string, string> = {
+  anaphylaxis: "anaphylaxis",
+  hives: "hives / swelling",
+  gi: "stomach (GI) symptoms",
+  intolerance: "intolerance",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function allergenNote(a: ActionPlanAllergen): string {
+  const parts: string[] = [];
+  if (a.reaction) parts.push(`past reaction: ${REACTION_TEXT[a.reaction] ?? a.reaction}`);
+  if (a.lastReactionAt) parts.push(`last reaction ${a.lastReactionAt}`);
+  return parts.join("; ");
+}
+
+// ── Plain text ───────────────────────────────────────────────────────
+
+export function formatActionPlanAsText(plan: ActionPlan): string {
+  const lines: string[] = [];
+  const divider = "════════════════════════════════════════════════════════════";
+  const thinDivider = "────────────────────────────────────────────────────────────";
+
+  const section = (title: string) => {
+    lines.push(thinDivider);
+    lines.push(title);
+    lines.push(thinDivider);
+    lines.push("");
+  };
+
+  lines.push(divider);
+  lines.push("                ALLERGY EMERGENCY ACTION PLAN");
+  lines.push(divider);
+  lines.push("");
+  lines.push(`Name:           ${plan.meta.profileName}`);
+  lines.push(`Prepared:       ${formatDate(plan.meta.generatedAt)}`);
+  lines.push(`Epinephrine:    ${plan.epinephrine.prescribed ? plan.epinephrine.devices.join(", ") : "None listed"}`);
+  lines.push("");
+
+  section("ALLERGIES");
+  if (plan.allergens.length === 0) {
+    lines.push("  None recorded.");
+  } else {
+    for (const a of plan.allergens) {
+      const note = allergenNote(a);
+      lines.push(`  • ${a.displayName} — ${SEVERITY_TEXT[a.severityLabel]}${note ? ` (${note})` : ""}`);
+    }
+  }
+  lines.push("");
+
+  section("SYMPTOMS TO WATCH");
+  for (const s of plan.symptomsToWatch) lines.push(`  • ${s}`);
+  lines.push("");
+
+  section(plan.epinephrine.firstLine ? "SEVERE REACTION — ACT FAST" : "IF A SEVERE REACTION HAPPENS");
+  plan.epinephrine.instructions.forEach((step, i) => lines.push(`  ${i + 1}. ${step}`));
+  lines.push("");
+
+  section("FOR MILD SYMPTOMS");
+  for (const s of plan.immediateActions) lines.push(`  • ${s}`);
+  lines.push("  • Stay with the person and watch closely for worsening symptoms.");
+  lines.push("");
+
+  section("EMERGENCY CONTACTS");
+  if (plan.emergencyContacts.length === 0) {
+    lines.push("  None recorded. Add contacts in the profile.");
+  } else {
+    for (const c of plan.emergencyContacts) {
+      lines.push(`  • ${c.name}${c.relationship ? ` (${c.relationship})` : ""}: ${c.phone}`);
+    }
+  }
+  lines.push("");
+
+  section("CURRENT MEDICATIONS");
+  if (plan.medications.length === 0) {
+    lines.push("  None.");
+  } else {
+    for (const m of plan.medications) lines.push(`  • ${m.displayName}${m.dosage ? ` ${m.dosage}` : ""}`);
+  }
+  lines.push("");
+
+  lines.push(divider);
+  lines.push("Generated by Allergy Angel");
+  lines.push(plan.meta.generatedAt);
+  lines.push("");
+  for (const d of plan.disclaimers) lines.push(`⚠️  ${d}`);
+  lines.push(divider);
+
+  return lines.join("\n");
+}
+
+// ── HTML (print-ready) ───────────────────────────────────────────────
+
+export function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PRINT_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; margin: 0 auto; max-width: 760px; padding: 24px; font-size: 14px; line-height: 1.4; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: .04em; border-bottom: 2px solid #111; padding-bottom: 2px; margin: 20px 0 8px; }
+  .meta { color: #444; margin: 0; }
+  .alert { border: 3px solid #b91c1c; border-radius: 8px; padding: 12px 16px; margin-top: 16px; }
+  .alert h2 { color: #b91c1c; border-color: #b91c1c; margin-top: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  .sev { font-weight: 700; }
+  .sev-severe { color: #b91c1c; }
+  .sev-moderate { color: #b45309; }
+  .columns { display: flex; gap: 24px; }
+  .columns > div { flex: 1; }
+  ul, ol { margin: 0; padding-left: 20px; }
+  footer { margin-top: 24px; font-size: 11px; color: #555; }
+  .no-print { margin-bottom: 16px; }
+  @media print {
+    .no-print { display: none; }
+    body { padding: 0; font-size: 12px; }
+    .alert { break-inside: avoid; }
+  }
+`;
+
+export function formatActionPlanAsHtml(plan: ActionPlan): string {
+  const e = escapeHtml;
+  const list = (items: string[]) => items.map((i) => `<li>${e(i)}</li>`).join("");
+
+  const allergenRows = plan.allergens.length
+    ? plan.allergens
+        .map(
+          (a) =>
+            `<tr><td>${e(a.displayName)}</td>` +
+            `<td class="sev sev-${a.severityLabel}">${SEVERITY_TEXT[a.severityLabel]}</td>` +
+            `<td>${e(allergenNote(a))}</td></tr>`
+        )
+        .join("")
+    : `<tr><td colspan="3">None recorded.</td></tr>`;
+
+  const contacts = plan.emergencyContacts.length
+    ? list(plan.emergencyContacts.map((c) => `${c.name}${c.relationship ? ` (${c.relationship})` : ""}: ${c.phone}`))
+    : "<li>None recorded.</li>";
+
+  const meds = plan.medications.length
+    ? list(plan.medications.map((m) => `${m.displayName}${m.dosage ? ` ${m.dosage}` : ""}`))
+    : "<li>None.</li>";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Allergy action plan – ${e(plan.meta.profileName)}</title>
+<style>${PRINT_CSS}</style>
+</head>
+<body>
+<button class="no-print" onclick="window.print()">Print</button>
+<h1>Allergy Emergency Action Plan</h1>
+<p class="meta"><strong>${e(plan.meta.profileName)}</strong> · Prepared ${e(formatDate(plan.meta.generatedAt))}</p>
+<p class="meta">Epinephrine: ${e(plan.epinephrine.prescribed ? plan.epinephrine.devices.join(", ") : "None listed")}</p>
+
+<h2>Allergies</h2>
+<table>
+<thead><tr><th>Allergen</th><th>Severity</th><th>History</th></tr></thead>
+<tbody>${allergenRows}</tbody>
+</table>
+
+<section class="alert">
+<h2>${plan.epinephrine.firstLine ? "Severe reaction — act fast" : "If a severe reaction happens"}</h2>
+<ol>${list(plan.epinephrine.instructions)}</ol>
+</section>
+
+<div class="columns">
+<div>
+<h2>Symptoms to watch</h2>
+<ul>${list(plan.symptomsToWatch)}</ul>
+</div>
+<div>
+<h2>For mild symptoms</h2>
+<ul>${list([...plan.immediateActions, "Stay with the person and watch closely for worsening symptoms."])}</ul>
+</div>
+</div>
+
+<div class="columns">
+<div>
+<h2>Emergency contacts</h2>
+<ul>${contacts}</ul>
+</div>
+<div>
+<h2>Current medications</h2>
+<ul>${meds}</ul>
+</div>
+</div>
+
+<footer>
+${plan.disclaimers.map((d) => `<p>${e(d)}</p>`).join("\n")}
+<p>Generated by Allergy Angel · ${e(plan.meta.generatedAt)}</p>
+</footer>
+</body>
+</html>
+`;
+}
+
+/** Deterministic filename for action plan downloads. */
+export function actionPlanFilename(profileName: string, generatedAt: string, ext: "txt" | "html" | "json"): string {
+  const slug = profileName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "profile";
+  return `allergy-action-plan-${slug}-${generatedAt.slice(0, 10)}.${ext}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Phase 39 – Period report text formatter
+ *
+ * Plain-text version of the period report for allergist appointments,
+ * same layout as formatReportAsText.
+ */
+
+import type { PeriodReport } from "./buildPeriodReport.js";
+import { formatOnset } from "../reactions/reactionReports.js";
+
+const TRAJECTORY_LIMIT = 10;
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+function riskTag(level: string): string {
+  if (level === "high") return "HIGH";
+  if (level === "medium") return "MEDIUM";
+  return "none";
+}
+
+export function formatPeriodReportAsText(report: PeriodReport): string {
+  const lines: string[] = [];
+  const divider = "════════════════════════════════════════════════════════════";
+  const thinDivider = "────────────────────────────────────────────────────────────";
+
+  const section = (title: string) => {
+    lines.push(thinDivider);
+    lines.push(title);
+    lines.push(thinDivider);
+    lines.push("");
+  };
+
+  const { meta, summary } = report;
+
+  lines.push(divider);
+  lines.push("                ALLERGY ANGEL PERIOD REPORT");
+  lines.push(divider);
+  lines.push("");
+  lines.push(`Profile:        ${meta.profileName}`);
+  lines.push(`Period:         ${formatDay(meta.from)} – ${formatDay(meta.to)}`);
+  lines.push(`Checks:         ${summary.totalChecks} (${summary.flaggedChecks} flagged)`);
+  lines.push(`High / Medium:  ${summary.byRiskLevel.high ?? 0} / ${summary.byRiskLevel.medium ?? 0}`);
+  lines.push(`Reactions:      ${summary.reactions}`);
+  lines.push("");
+
+  section("BY ALLERGEN CATEGORY");
+  if (report.categories.length === 0) {
+    lines.push("  No allergen matches in this period.");
+  } else {
+    for (const c of report.categories) {
+      const extras: string[] = [];
+      if (c.precautionary > 0) extras.push(`${c.precautionary} "may contain"`);
+      if (c.crossReactive > 0) extras.push(`${c.crossReactive} cross-reactive`);
+      if (c.reactions > 0) extras.push(`${c.reactions} reaction${c.reactions === 1 ? "" : "s"}`);
+      lines.push(
+        `  • ${c.label}: ${c.flaggedChecks} check${c.flaggedChecks === 1 ? "" : "s"} ` +
+          `(${c.high} high, ${c.medium} medium)${extras.length ? `; ${extras.join(", ")}` : ""}`
+      );
+      lines.push(`    Terms: ${c.terms.join(", ") || "—"} · last ${formatDay(c.lastSeenAt)}`);
+    }
+  }
+  lines.push("");
+
+  section("FLAGGED CHECKS");
+  if (report.flagged.length === 0) {
+    lines.push("  None.");
+  } else {
+    for (const f of report.flagged) {
+      lines.push(`  • ${formatDateTime(f.createdAt)}  [${riskTag(f.riskLevel)}]  ${f.matchedTerms.join(", ") || "—"}`);
+      if (f.rawText) lines.push(`    "${f.rawText}"`);
+      if (f.reactionIds.length > 0) {
+        lines.push(`    Followed by ${f.reactionIds.length} reported reaction${f.reactionIds.length === 1 ? "" : "s"}`);
+      }
+    }
+  }
+  lines.push("");
+
+  section("REACTIONS");
+  if (report.reactions.length === 0) {
+    lines.push("  None reported.");
+  } else {
+    for (const r of report.reactions) {
+      const treated = r.treatments.length > 0 ? `; treated: ${r.treatments.join(", ")}` : "";
+      lines.push(
+        `  • ${formatDateTime(r.reportedAt)}  ${r.symptom} (${r.severity}), onset ${formatOnset(r.onsetMinutes)}${treated}`
+      );
+    }
+  }
+  lines.push("");
+
+  section("PATTERNS");
+  const patterns = [...report.trajectory.slice(0, TRAJECTORY_LIMIT), ...report.stacking];
+  if (patterns.length === 0) {
+    lines.push("  No patterns detected.");
+  } else {
+    for (const p of patterns) {
+      lines.push(`  • ${p.label}`);
+      lines.push(`    ${p.description}`);
+    }
+    if (report.trajectory.length > TRAJECTORY_LIMIT) {
+      lines.push(`  (${report.trajectory.length - TRAJECTORY_LIMIT} more in the JSON export)`);
+    }
+  }
+  lines.push("");
+
+  section("ALL CHECKS");
+  if (report.checks.length === 0) {
+    lines.push("  No checks in this period.");
+  } else {
+    for (const c of report.checks) {
+      lines.push(`  ${formatDateTime(c.createdAt)}  [${riskTag(c.riskLevel)}]  ${c.matchedTerms.join(", ")}`.trimEnd());
+    }
+  }
+  lines.push("");
+
+  lines.push(divider);
+  lines.push("Generated by Allergy Angel");
+  lines.push(meta.generatedAt);
+  lines.push("");
+  lines.push("⚠️  This is not medical advice. Always consult a healthcare");
+  lines.push("    provider for medical decisions.");
+  lines.push(divider);
+
+  return lines.join("\n");
+}
+
+/** Deterministic filename for period report downloads. */
+export function periodReportFilename(from: string, to: string, ext: "txt" | "json"): string {
+  return `allergy-angel-period-${from.slice(0, 10)}-to-${to.slice(0, 10)}.${ext}`;
+}
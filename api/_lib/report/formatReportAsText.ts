@@ -2,8 +2,13 @@
  * Phase 18.2 – Human-readable report formatter
  *
  * Produces plain-text reports for parents (e.g. at Walgreens) instead of raw JSON.
+ *
+ * Phase 42: matches made through an ingredient of a combination product add
+ * a "Via ingredient X of product Y" line.
  */
 
+import { describeViaIngredients } from "../inference/drugInteractions.js";
+
 export interface ReportData {
   meta: {
     checkId: string;
@@ -28,6 +33,7 @@ export interface ReportData {
         matchedTerm: string;
         matchedCategory?: string;
         crossReactive?: boolean;
+        viaIngredients?: string[];
         details?: Record<string, unknown>;
       }>;
     };
@@ -218,10 +224,20 @@ function formatMatch(match: {
   kind: string;
   matchedTerm: string;
   matchedCategory?: string;
+  viaIngredients?: string[];
   details?: Record<string, unknown>;
 }): string {
   const d = match.details ?? {};
+  const via = (match.viaIngredients ?? describeViaIngredients(d)).map((v) => `\n    - ${capitalizeFirst(v)}`).join("");
+  const text = formatMatchBody(match, d) + via;
+  // Phase 27: label-mode scans name the line that triggered the match
+  return d.labelLine ? `${text}\n    - Label: "${String(d.labelLine)}"` : text;
+}
 
+function formatMatchBody(
+  match: { kind: string; matchedTerm: string; matchedCategory?: string },
+  d: Record<string, unknown>
+): string {
   switch (match.kind) {
     case "allergy_match": {
       const term = String(d.allergen ?? match.matchedTerm ?? "ingredient");
@@ -230,6 +246,13 @@ function formatMatch(match: {
       return `  • "${meal || term}" matches your ${term} allergy\n    - Severity: ${severity}`;
     }
 
+    case "precautionary_allergen": {
+      const term = String(d.allergen ?? match.matchedTerm ?? "allergen");
+      const severity = d.severity != null ? `${d.severity}/100` : "Unknown";
+      const escalated = d.escalated ? "\n    - Treated as high risk (profile preference)" : "";
+      return `  • Label says it may contain ${term} (cross-contact)\n    - Precautionary: not a listed ingredient\n    - Severity: ${severity}${escalated}`;
+    }
+
     case "dish_allergen": {
       const dish = String(d.matchedDish ?? match.matchedTerm ?? "This dish");
       const allergen = String(d.allergen ?? match.matchedCategory ?? "allergen");
@@ -262,7 +285,20 @@ function formatMatch(match: {
     case "medication_interaction": {
       const extracted = String(d.extracted ?? match.matchedTerm ?? "medication");
       const conflicts = String(d.conflictsWith ?? "your medication");
-      return `  • "${extracted}" may interact with ${conflicts}\n    - Consult your pharmacist`;
+      if (d.reason == null) {
+        return `  • "${extracted}" may interact with ${conflicts}\n    - Consult your pharmacist`;
+      }
+      const risk = String(d.risk ?? "Unknown");
+      return `  • "${extracted}" may interact with ${conflicts}\n    - Risk: ${risk}\n    - ${String(d.reason)}\n    - Consult your pharmacist`;
+    }
+
+    case "functional_class_interaction": {
+      const extracted = String(d.extracted ?? match.matchedTerm ?? "medication");
+      const conflicts = String(d.conflictsWith ?? "your medication");
+      const classRule = String(d.classRule ?? "class rule");
+      const risk = String(d.risk ?? "Unknown");
+      const reason = String(d.reason ?? "Consult your pharmacist");
+      return `  • "${extracted}" may interact with ${conflicts}\n    - Class rule: ${classRule}\n    - Risk: ${risk}\n    - ${reason}\n    - Consult your pharmacist`;
     }
 
     default:
@@ -282,10 +318,10 @@ function isRawMatch(m: unknown): m is RawMatch {
 
 function extractMatchedTerm(m: RawMatch): string {
   const d = m.details ?? {};
-  if (m.rule === "allergy_match") return String(d.allergen ?? "");
+  if (m.rule === "allergy_match" || m.rule === "precautionary_allergen") return String(d.allergen ?? "");
   if (m.rule === "dish_allergen") return String(d.matchedDish ?? d.allergen ?? "");
   if (m.rule === "cross_reactive") return String(d.matchedTerm ?? "");
-  if (m.rule === "medication_interaction")
+  if (m.rule === "medication_interaction" || m.rule === "functional_class_interaction")
     return [d.extracted, d.conflictsWith].filter(Boolean).join(", ");
   if (m.rule === "supplement_medication_interaction")
     return [d.supplement, d.medication].filter(Boolean).join(", ");
@@ -296,7 +332,8 @@ function extractMatchedTerm(m: RawMatch): string {
 
 function extractCategory(m: RawMatch): string | undefined {
   const d = m.details ?? {};
-  if (m.rule === "allergy_match") return String(d.matchedCategory ?? "") || undefined;
+  if (m.rule === "allergy_match" || m.rule === "precautionary_allergen")
+    return String(d.matchedCategory ?? "") || undefined;
   if (m.rule === "dish_allergen") return String(d.allergen ?? d.matchedCategory ?? "") || undefined;
   if (m.rule === "cross_reactive") return String(d.source ?? "") || undefined;
   return undefined;
@@ -0,0 +1,128 @@
+/**
+ * Phase 46 – Re-scan recent checks after a profile edit
+ *
+ * When a profile gains an allergy or medication, checks it already ran were
+ * judged against the old profile. rescanRecentChecks replays the checks in a
+ * history window (default 30 days, PROFILE_RESCAN_WINDOW_DAYS) through
+ * checkRisk — the same replay as the Phase 45 retro-check — once with the
+ * profile before the edit and once after, and returns the checks whose risk
+ * level went up. Comparing two replays (not the stored verdict) attributes
+ * the result to the edit alone, not to earlier edits or knowledge updates.
+ *
+ * Read-only: stored verdicts are not rewritten and no verdict_revisions are
+ * recorded. The result is shown to the user right after the edit.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import type { Verdict } from "../inference/checkRisk.js";
+import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
+import { toRiskProfile, type StoredRiskProfile } from "../profiles/toRiskProfile.js";
+import { computeReplayDiff, normalizeVerdict } from "../eval/replayDiff.js";
+import { loadReplayEvents, replayVerdict } from "./retroCheck.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const DEFAULT_RESCAN_WINDOW_DAYS = 30;
+export const MAX_RESCAN_WINDOW_DAYS = 365;
+
+/** Newest checks replayed per re-scan. */
+export const MAX_RESCAN_CHECKS = 200;
+
+const RISK_ORDER = { none: 0, medium: 1, high: 2 } as const;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface RescanItem {
+  checkId: string;
+  rawText: string;
+  createdAt: string;
+  previousRiskLevel: Verdict["riskLevel"];
+  riskLevel: Verdict["riskLevel"];
+  severity: number;
+  reasoning: string;
+  /** Matched terms the edit adds (replay diff) */
+  addedMatches: string[];
+}
+
+export interface ProfileRescan {
+  windowDays: number;
+  /** ISO start of the window */
+  since: string;
+  checksScanned: number;
+  /** Checks that would now be riskier, highest risk first, then newest. */
+  items: RescanItem[];
+}
+
+// ── Window ───────────────────────────────────────────────────────────
+
+function parseDays(value: unknown): number | null {
+  const n = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? Math.floor(n) : null;
+}
+
+/**
+ * Window for a re-scan: an explicit request value wins over
+ * PROFILE_RESCAN_WINDOW_DAYS, clamped to 0..MAX_RESCAN_WINDOW_DAYS.
+ * 0 disables the re-scan.
+ */
+export function resolveRescanWindowDays(requested?: unknown): number {
+  const days =
+    parseDays(requested) ?? parseDays(process.env.PROFILE_RESCAN_WINDOW_DAYS) ?? DEFAULT_RESCAN_WINDOW_DAYS;
+  return Math.min(Math.max(days, 0), MAX_RESCAN_WINDOW_DAYS);
+}
+
+// ── Re-scan ──────────────────────────────────────────────────────────
+
+/** Replay the profile's checks in the window before (`previous`) and after (`profile`) an edit. */
+export async function rescanRecentChecks(args: {
+  profileId: string;
+  previous: StoredRiskProfile;
+  profile: StoredRiskProfile;
+  windowDays: number;
+}): Promise<ProfileRescan> {
+  const { profileId, previous, profile, windowDays } = args;
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+
+  await ensurePromotedRegistryLoaded();
+
+  const { data: checks, error: checksError } = await getSupabaseClient()
+    .from("checks")
+    .select("id, raw_text, created_at")
+    .eq("profile_id", profileId)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(MAX_RESCAN_CHECKS);
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+
+  const rows = (checks ?? []) as { id: string; raw_text: string; created_at: string }[];
+  const eventsByCheck = await loadReplayEvents(rows.map((c) => c.id));
+  const previousProfile = toRiskProfile(previous);
+  const riskProfile = toRiskProfile(profile);
+  const items: RescanItem[] = [];
+
+  for (const check of rows) {
+    const events = eventsByCheck.get(check.id) ?? [];
+    const oldVerdict = replayVerdict(check.id, previousProfile, events);
+    const newVerdict = replayVerdict(check.id, riskProfile, events);
+    if (RISK_ORDER[newVerdict.riskLevel] <= RISK_ORDER[oldVerdict.riskLevel]) continue;
+
+    const diff = computeReplayDiff(check.id, normalizeVerdict(oldVerdict), normalizeVerdict(newVerdict));
+    items.push({
+      checkId: check.id,
+      rawText: check.raw_text,
+      createdAt: check.created_at,
+      previousRiskLevel: oldVerdict.riskLevel,
+      riskLevel: newVerdict.riskLevel,
+      severity: newVerdict.meta?.severity ?? 0,
+      reasoning: newVerdict.reasoning,
+      addedMatches: diff.changes.addedMatches,
+    });
+  }
+
+  // rows are newest first and sort is stable, so equal risk stays newest first
+  items.sort((a, b) => RISK_ORDER[b.riskLevel] - RISK_ORDER[a.riskLevel]);
+  return { windowDays, since, checksScanned: rows.length, items };
+}
@@ -0,0 +1,519 @@
+/**
+ * Phase 45 – Historical re-verdict ("retro-check")
+ *
+ * Stored checks.verdict rows are computed once. When a promotion bumps
+ * ALLERGEN_TAXONOMY_VERSION or a REGISTRY_VERSIONS entry, retroCheckProfile
+ * replays the profile's stored checks through the current knowledge:
+ *
+ *   1. A check is stale when the knowledge it was last compared against
+ *      differs from the current knowledge: the snapshot recorded in
+ *      checks.retro_checked_snapshot (migration 026) or, before its first
+ *      retro-check, the one in verdict.meta.knowledgeSnapshot (Phase 48).
+ *      Checks with neither (saved before Phase 48) are stale until their first
+ *      run. force=true replays every check.
+ *   2. Stored health_events are re-resolved (enrichWithResolution) and run
+ *      through checkRisk twice with the profile as it is today: once with
+ *      that earlier knowledge snapshot, once with the current knowledge. Only
+ *      the knowledge differs between the two, so a profile edit since the
+ *      check (a new allergy) is never reported as a knowledge change.
+ *   3. The two verdicts are compared with the replay normalization
+ *      (normalizeVerdict / computeReplayDiff). A changed outcome (risk level,
+ *      severity or matched terms) is recorded in verdict_revisions together
+ *      with the knowledge versions before and after, and checks.verdict is
+ *      replaced by the current-knowledge verdict.
+ *   4. checks.retro_checked_at / retro_checked_snapshot record the run, so the
+ *      next run skips the check until knowledge changes again. An unchanged
+ *      stored verdict is never touched: its meta keeps the versions and
+ *      snapshot that produced it.
+ *
+ * When the earlier snapshot is not stored (checks saved before Phase 48), the
+ * stored verdict itself is compared with the current replay. Such revisions
+ * are flagged unattributed: the diff may include profile edits as well as
+ * knowledge changes.
+ *
+ * A revision from "none" to medium/high sets notify=true: the profile is told
+ * that something it was cleared for would now be flagged, until acknowledged.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import { checkRisk, type Verdict } from "../inference/checkRisk.js";
+import { ALLERGEN_TAXONOMY_VERSION } from "../inference/allergenTaxonomy.js";
+import { REGISTRY_VERSIONS } from "../knowledge/registryVersions.js";
+import { enrichWithResolution } from "../knowledge/enrichWithResolution.js";
+import { ensurePromotedRegistryLoaded } from "../knowledge/promotedRegistryDb.js";
+import { withKnowledgeContext } from "../knowledge/knowledgeContext.js";
+import {
+  currentKnowledgeSnapshot,
+  toKnowledgeContext,
+  type KnowledgeSnapshot,
+} from "../knowledge/knowledgeSnapshot.js";
+import { loadKnowledgeSnapshot, recordKnowledgeSnapshot } from "../knowledge/knowledgeSnapshotDb.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import { computeReplayDiff, normalizeVerdict } from "../eval/replayDiff.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Newest checks replayed per profile and run. */
+export const MAX_RETRO_CHECKS = 500;
+
+const RISK_ORDER = { none: 0, medium: 1, high: 2 } as const;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** { taxonomy, drug, supplement, food, interaction, doseThreshold, dish }; null = not recorded. */
+export type KnowledgeVersions = Record<string, string | null>;
+
+export interface KnowledgeChange {
+  /** "taxonomy", a REGISTRY_VERSIONS key, or "snapshot" (knowledge snapshot hash) */
+  key: string;
+  from: string | null;
+  to: string | null;
+}
+
+export type RevisionDirection = "up" | "down" | "unchanged";
+
+export interface VerdictRevision {
+  id: string;
+  profileId: string;
+  checkId: string;
+  oldRiskLevel: Verdict["riskLevel"];
+  newRiskLevel: Verdict["riskLevel"];
+  direction: RevisionDirection;
+  addedMatches: string[];
+  removedMatches: string[];
+  knowledgeFrom: KnowledgeVersions;
+  knowledgeTo: KnowledgeVersions;
+  knowledgeChanges: KnowledgeChange[];
+  notify: boolean;
+  /** Stored verdict vs current replay: knowledge and profile changes combined */
+  unattributed: boolean;
+  acknowledgedAt: string | null;
+  createdAt: string;
+  /** The check's input text (list responses only) */
+  rawText?: string;
+}
+
+export interface RetroCheckRun {
+  profileId: string;
+  knowledgeVersions: KnowledgeVersions;
+  checksScanned: number;
+  checksReplayed: number;
+  /** Replayed checks without a stored knowledge snapshot (compared with the stored verdict) */
+  checksUnattributed: number;
+  revisions: VerdictRevision[];
+  /** Revisions with notify=true */
+  notified: number;
+}
+
+interface VerdictRevisionRow {
+  id: string;
+  profile_id: string;
+  check_id: string;
+  old_verdict: Verdict;
+  new_verdict: Verdict;
+  direction: RevisionDirection;
+  added_matches: string[];
+  removed_matches: string[];
+  knowledge_from: KnowledgeVersions;
+  knowledge_to: KnowledgeVersions;
+  knowledge_changes: KnowledgeChange[];
+  notify: boolean;
+  unattributed: boolean | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+interface RetroCheckRow {
+  id: string;
+  verdict: Verdict | null;
+  retro_checked_snapshot: string | null;
+}
+
+// ── Pure helpers ─────────────────────────────────────────────────────
+
+/** Versions of the knowledge currently deployed. */
+export function currentKnowledgeVersions(): KnowledgeVersions {
+  return { taxonomy: ALLERGEN_TAXONOMY_VERSION, ...REGISTRY_VERSIONS };
+}
+
+/** Versions a stored verdict was computed with (null where not recorded). */
+export function verdictKnowledgeVersions(verdict: Verdict | null | undefined): KnowledgeVersions {
+  const recorded = verdict?.meta?.registryVersions ?? {};
+  const versions: KnowledgeVersions = { taxonomy: verdict?.meta?.taxonomyVersion ?? null };
+  for (const key of Object.keys(REGISTRY_VERSIONS)) {
+    versions[key] = recorded[key] ?? null;
+  }
+  return versions;
+}
+
+/** Keys whose version differs, in current-version order. */
+export function diffKnowledgeVersions(from: KnowledgeVersions, to: KnowledgeVersions): KnowledgeChange[] {
+  return Object.keys(to)
+    .filter((key) => (from[key] ?? null) !== to[key])
+    .map((key) => ({ key, from: from[key] ?? null, to: to[key] }));
+}
+
+/** Versions recorded in a knowledge snapshot, keyed like currentKnowledgeVersions. */
+function snapshotKnowledgeVersions(snapshot: KnowledgeSnapshot): KnowledgeVersions {
+  const recorded = snapshot.content.versions;
+  const versions: KnowledgeVersions = { taxonomy: recorded.taxonomy ?? null };
+  for (const key of Object.keys(REGISTRY_VERSIONS)) {
+    versions[key] = recorded[key] ?? null;
+  }
+  return versions;
+}
+
+/** Snapshot the check was last compared against: its last retro-check, else its verdict. */
+function baselineSnapshotHash(check: RetroCheckRow): string | null {
+  return check.retro_checked_snapshot ?? check.verdict?.meta?.knowledgeSnapshot ?? null;
+}
+
+/** Version changes plus the snapshot hash change, when the hashes differ. */
+function knowledgeChangesSince(
+  from: KnowledgeVersions,
+  fromHash: string | null,
+  current: KnowledgeSnapshot
+): KnowledgeChange[] {
+  const changes = diffKnowledgeVersions(from, currentKnowledgeVersions());
+  if (fromHash !== current.hash) {
+    changes.push({ key: "snapshot", from: fromHash, to: current.hash });
+  }
+  return changes;
+}
+
+/** "taxonomy 10i.2 → 10i.3, drug (unrecorded) → 41.1" */
+export function describeKnowledgeChanges(changes: KnowledgeChange[]): string {
+  return changes.map((c) => `${c.key} ${c.from ?? "(unrecorded)"} → ${c.to ?? "(none)"}`).join(", ");
+}
+
+/** Stored event row → event as extraction returned it (resolution recomputed later). */
+function toReplayEvent(row: { event_type: string; event_data: Record<string, unknown> | null }) {
+  const fields = { ...(row.event_data ?? {}) };
+  delete fields._resolution;
+  return { type: row.event_type, fields };
+}
+
+function toVerdictRevision(row: VerdictRevisionRow): VerdictRevision {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    checkId: row.check_id,
+    oldRiskLevel: row.old_verdict?.riskLevel ?? "none",
+    newRiskLevel: row.new_verdict?.riskLevel ?? "none",
+    direction: row.direction,
+    addedMatches: row.added_matches ?? [],
+    removedMatches: row.removed_matches ?? [],
+    knowledgeFrom: row.knowledge_from ?? {},
+    knowledgeTo: row.knowledge_to ?? {},
+    knowledgeChanges: row.knowledge_changes ?? [],
+    notify: row.notify === true,
+    unattributed: row.unattributed === true,
+    acknowledgedAt: row.acknowledged_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+// ── Replay ───────────────────────────────────────────────────────────
+
+export type ReplayEvent = ReturnType<typeof toReplayEvent>;
+
+/** Stored health_events for the given checks, in insertion order per check. */
+export async function loadReplayEvents(checkIds: string[]): Promise<Map<string, ReplayEvent[]>> {
+  const eventsByCheck = new Map<string, ReplayEvent[]>();
+  if (checkIds.length === 0) return eventsByCheck;
+
+  const { data: eventRows, error: eventsError } = await getSupabaseClient()
+    .from("health_events")
+    .select("check_id, event_type, event_data, created_at")
+    .in("check_id", checkIds)
+    .order("created_at", { ascending: true });
+
+  if (eventsError) {
+    throw new Error(`health_events query failed: ${eventsError.message}`);
+  }
+
+  for (const row of eventRows ?? []) {
+    const list = eventsByCheck.get(row.check_id) ?? [];
+    list.push(toReplayEvent(row));
+    eventsByCheck.set(row.check_id, list);
+  }
+  return eventsByCheck;
+}
+
+/** Re-resolve a check's events and run checkRisk; stamped with the current versions and snapshot. */
+export function replayVerdict(
+  checkId: string,
+  riskProfile: ReturnType<typeof toRiskProfile>,
+  events: ReplayEvent[]
+): Verdict {
+  const verdict = checkRisk({ profile: riskProfile, events: enrichWithResolution(events) });
+  verdict.matched = verdict.matched ?? [];
+  verdict.meta = {
+    ...(verdict.meta ?? { severity: 0 }),
+    taxonomyVersion: verdict.meta?.taxonomyVersion ?? ALLERGEN_TAXONOMY_VERSION,
+    traceId: `${checkId}:${verdict.meta?.taxonomyVersion ?? ALLERGEN_TAXONOMY_VERSION}`,
+    registryVersions: { ...REGISTRY_VERSIONS },
+    knowledgeSnapshot: currentKnowledgeSnapshot().hash,
+  };
+  return verdict;
+}
+
+/**
+ * Phase 48: re-run a check with the knowledge in `snapshot` (Phase 47
+ * KnowledgeContext); stamped with the snapshot's versions and hash.
+ */
+export function replayVerdictAtSnapshot(
+  checkId: string,
+  riskProfile: ReturnType<typeof toRiskProfile>,
+  events: ReplayEvent[],
+  snapshot: KnowledgeSnapshot
+): Verdict {
+  const verdict = withKnowledgeContext(toKnowledgeContext(snapshot), () =>
+    checkRisk({ profile: riskProfile, events: enrichWithResolution(events) })
+  );
+  const { taxonomy } = snapshot.content.versions;
+  const registryVersions = Object.fromEntries(
+    Object.entries(snapshot.content.versions).filter(([key]) => key !== "taxonomy" && key !== "advice")
+  );
+  verdict.matched = verdict.matched ?? [];
+  verdict.meta = {
+    ...(verdict.meta ?? { severity: 0 }),
+    taxonomyVersion: verdict.meta?.taxonomyVersion ?? taxonomy,
+    traceId: `${checkId}:${verdict.meta?.taxonomyVersion ?? taxonomy}`,
+    registryVersions,
+    knowledgeSnapshot: snapshot.hash,
+  };
+  return verdict;
+}
+
+/** Insert a verdict_revisions row when the outcome changed; null otherwise. */
+async function recordRevision(args: {
+  profileId: string;
+  checkId: string;
+  oldVerdict: Verdict;
+  newVerdict: Verdict;
+  knowledgeFrom: KnowledgeVersions;
+  knowledgeTo: KnowledgeVersions;
+  knowledgeChanges: KnowledgeChange[];
+  unattributed: boolean;
+}): Promise<VerdictRevision | null> {
+  const { oldVerdict, newVerdict, knowledgeFrom, knowledgeTo } = args;
+  const diff = computeReplayDiff(
+    args.checkId,
+    normalizeVerdict(oldVerdict, knowledgeFrom.taxonomy),
+    normalizeVerdict(newVerdict, knowledgeTo.taxonomy)
+  );
+  const changed =
+    diff.changes.riskLevelChanged ||
+    diff.changes.severityChanged ||
+    diff.changes.addedMatches.length > 0 ||
+    diff.changes.removedMatches.length > 0;
+  if (!changed) return null;
+
+  const oldRank = RISK_ORDER[oldVerdict.riskLevel];
+  const newRank = RISK_ORDER[newVerdict.riskLevel];
+  const direction: RevisionDirection = newRank > oldRank ? "up" : newRank < oldRank ? "down" : "unchanged";
+  const notify = oldVerdict.riskLevel === "none" && newRank > 0;
+
+  const { data: inserted, error: insertError } = await getSupabaseClient()
+    .from("verdict_revisions")
+    .insert({
+      profile_id: args.profileId,
+      check_id: args.checkId,
+      old_verdict: oldVerdict,
+      new_verdict: newVerdict,
+      direction,
+      added_matches: diff.changes.addedMatches,
+      removed_matches: diff.changes.removedMatches,
+      knowledge_from: knowledgeFrom,
+      knowledge_to: knowledgeTo,
+      knowledge_changes: args.knowledgeChanges,
+      notify,
+      unattributed: args.unattributed,
+    })
+    .select("*")
+    .single();
+
+  if (insertError) {
+    throw new Error(`verdict_revisions insert failed: ${insertError.message}`);
+  }
+  return toVerdictRevision(inserted as VerdictRevisionRow);
+}
+
+// ── Job ──────────────────────────────────────────────────────────────
+
+/**
+ * Replay one profile's stored checks against current knowledge.
+ * Returns null when the profile does not exist.
+ */
+export async function retroCheckProfile(args: {
+  profileId: string;
+  force?: boolean;
+}): Promise<RetroCheckRun | null> {
+  const { profileId, force = false } = args;
+  const supabase = getSupabaseClient();
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, known_allergies, current_medications, escalate_precautionary")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Profile lookup failed: ${profileError.message}`);
+  }
+  if (!profile) return null;
+
+  await ensurePromotedRegistryLoaded();
+
+  const { data: checks, error: checksError } = await supabase
+    .from("checks")
+    .select("id, verdict, retro_checked_snapshot, created_at")
+    .eq("profile_id", profileId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_RETRO_CHECKS);
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+
+  const knowledgeTo = currentKnowledgeVersions();
+  const current = currentKnowledgeSnapshot();
+  const stale = ((checks ?? []) as RetroCheckRow[]).filter(
+    (c) => force || baselineSnapshotHash(c) !== current.hash
+  );
+
+  const run: RetroCheckRun = {
+    profileId,
+    knowledgeVersions: knowledgeTo,
+    checksScanned: checks?.length ?? 0,
+    checksReplayed: 0,
+    checksUnattributed: 0,
+    revisions: [],
+    notified: 0,
+  };
+  if (stale.length === 0) return run;
+
+  // Phase 48: replayed verdicts reference the current snapshot
+  await recordKnowledgeSnapshot(current);
+
+  const eventsByCheck = await loadReplayEvents(stale.map((c) => c.id));
+  const riskProfile = toRiskProfile(profile);
+  const snapshots = new Map<string, KnowledgeSnapshot | null>();
+
+  for (const check of stale) {
+    const events = eventsByCheck.get(check.id) ?? [];
+    run.checksReplayed++;
+
+    const hash = baselineSnapshotHash(check);
+    if (hash && !snapshots.has(hash)) snapshots.set(hash, await loadKnowledgeSnapshot(hash));
+    const snapshot = hash ? snapshots.get(hash) : null;
+    const newVerdict = replayVerdict(check.id, riskProfile, events);
+
+    let revision: VerdictRevision | null;
+    if (snapshot) {
+      // Same profile on both sides: only the knowledge differs
+      const knowledgeFrom = snapshotKnowledgeVersions(snapshot);
+      revision = await recordRevision({
+        profileId,
+        checkId: check.id,
+        oldVerdict: replayVerdictAtSnapshot(check.id, riskProfile, events, snapshot),
+        newVerdict,
+        knowledgeFrom,
+        knowledgeTo,
+        knowledgeChanges: knowledgeChangesSince(knowledgeFrom, snapshot.hash, current),
+        unattributed: false,
+      });
+    } else {
+      // No knowledge to replay the old verdict with: compare what was stored
+      run.checksUnattributed++;
+      const knowledgeFrom = verdictKnowledgeVersions(check.verdict);
+      revision = await recordRevision({
+        profileId,
+        checkId: check.id,
+        oldVerdict: check.verdict ?? { riskLevel: "none", reasoning: "No stored verdict", matched: [] },
+        newVerdict,
+        knowledgeFrom,
+        knowledgeTo,
+        knowledgeChanges: knowledgeChangesSince(knowledgeFrom, hash, current),
+        unattributed: true,
+      });
+    }
+    if (revision) {
+      run.revisions.push(revision);
+      if (revision.notify) run.notified++;
+    }
+
+    const { error: updateError } = await supabase
+      .from("checks")
+      .update({
+        ...(revision ? { verdict: newVerdict } : {}),
+        retro_checked_at: new Date().toISOString(),
+        retro_checked_snapshot: current.hash,
+      })
+      .eq("id", check.id);
+
+    if (updateError) {
+      throw new Error(`checks update failed: ${updateError.message}`);
+    }
+  }
+
+  return run;
+}
+
+// ── Reads / acknowledgement ──────────────────────────────────────────
+
+/** Revisions for a profile, newest first; pendingOnly = unacknowledged notifications. */
+export async function listVerdictRevisions(
+  profileId: string,
+  opts: { pendingOnly?: boolean; limit?: number } = {}
+): Promise<VerdictRevision[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from("verdict_revisions")
+    .select("*")
+    .eq("profile_id", profileId)
+    .order("created_at", { ascending: false })
+    .limit(opts.limit ?? 50);
+
+  if (error) {
+    throw new Error(`verdict_revisions query failed: ${error.message}`);
+  }
+
+  let revisions = ((data ?? []) as VerdictRevisionRow[]).map(toVerdictRevision);
+  if (opts.pendingOnly) {
+    revisions = revisions.filter((r) => r.notify && !r.acknowledgedAt);
+  }
+  if (revisions.length === 0) return revisions;
+
+  const { data: checks, error: checksError } = await supabase
+    .from("checks")
+    .select("id, raw_text")
+    .in("id", [...new Set(revisions.map((r) => r.checkId))]);
+
+  if (checksError) {
+    throw new Error(`checks query failed: ${checksError.message}`);
+  }
+  const rawText = new Map(((checks ?? []) as { id: string; raw_text: string }[]).map((c) => [c.id, c.raw_text]));
+  return revisions.map((r) => (rawText.has(r.checkId) ? { ...r, rawText: rawText.get(r.checkId) } : r));
+}
+
+/** Mark a revision's notification as seen. Null when it does not belong to the profile. */
+export async function acknowledgeVerdictRevision(
+  profileId: string,
+  revisionId: string
+): Promise<VerdictRevision | null> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from("verdict_revisions")
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq("id", revisionId)
+    .eq("profile_id", profileId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`verdict_revisions update failed: ${error.message}`);
+  }
+  return data ? toVerdictRevision(data as VerdictRevisionRow) : null;
+}
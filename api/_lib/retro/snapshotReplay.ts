@@ -0,0 +1,107 @@
+/**
+ * Phase 48 – Re-run a check at its knowledge snapshot
+ *
+ * A stored verdict records the knowledge snapshot it was computed with
+ * (verdict.meta.knowledgeSnapshot). replayCheckAtSnapshot loads that bundle
+ * from knowledge_snapshots and runs the check's stored health_events through
+ * checkRisk with it injected (Phase 47 KnowledgeContext), so the result
+ * depends on nothing deployed since. An explicit snapshotHash replays the
+ * check at another stored snapshot instead (e.g. the current one).
+ *
+ * The profile is the one stored today; checks do not keep a profile copy.
+ * Read-only: nothing is written.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+import type { Verdict } from "../inference/checkRisk.js";
+import { loadKnowledgeSnapshot } from "../knowledge/knowledgeSnapshotDb.js";
+import { toRiskProfile } from "../profiles/toRiskProfile.js";
+import { computeReplayDiff, normalizeVerdict, type ReplayDiff } from "../eval/replayDiff.js";
+import { loadReplayEvents, replayVerdictAtSnapshot } from "./retroCheck.js";
+
+// ── Types ────────────────────────────────────────────────────────────
+
+/** Why a check could not be replayed. */
+export type SnapshotUnavailable =
+  /** The verdict predates Phase 48 and no snapshotHash was given */
+  | "not_recorded"
+  /** No knowledge_snapshots row has the hash */
+  | "not_stored";
+
+export interface SnapshotReplay {
+  checkId: string;
+  profileId: string;
+  snapshotHash: string | null;
+  /** Knowledge versions inside the snapshot */
+  versions: Record<string, string> | null;
+  storedVerdict: Verdict | null;
+  /** Null when unavailable is set */
+  verdict: Verdict | null;
+  /** Same risk, severity and matches as the stored verdict */
+  identical: boolean | null;
+  changes: ReplayDiff["changes"] | null;
+  unavailable?: SnapshotUnavailable;
+}
+
+// ── Replay ───────────────────────────────────────────────────────────
+
+/**
+ * Replay one check at its (or the given) knowledge snapshot.
+ * Returns null when the check does not exist for the profile.
+ */
+export async function replayCheckAtSnapshot(args: {
+  checkId: string;
+  profileId?: string;
+  snapshotHash?: string;
+}): Promise<SnapshotReplay | null> {
+  const supabase = getSupabaseClient();
+
+  let checkQuery = supabase.from("checks").select("id, profile_id, verdict").eq("id", args.checkId);
+  if (args.profileId) checkQuery = checkQuery.eq("profile_id", args.profileId);
+  const { data: check, error: checkError } = await checkQuery.maybeSingle();
+
+  if (checkError) {
+    throw new Error(`checks query failed: ${checkError.message}`);
+  }
+  if (!check) return null;
+
+  const storedVerdict = (check.verdict ?? null) as Verdict | null;
+  const snapshotHash = args.snapshotHash ?? storedVerdict?.meta?.knowledgeSnapshot ?? null;
+  const replay: SnapshotReplay = {
+    checkId: check.id,
+    profileId: check.profile_id,
+    snapshotHash,
+    versions: null,
+    storedVerdict,
+    verdict: null,
+    identical: null,
+    changes: null,
+  };
+  if (!snapshotHash) return { ...replay, unavailable: "not_recorded" };
+
+  const snapshot = await loadKnowledgeSnapshot(snapshotHash);
+  if (!snapshot) return { ...replay, unavailable: "not_stored" };
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("id, known_allergies, current_medications, escalate_precautionary")
+    .eq("id", check.profile_id)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Profile lookup failed: ${profileError.message}`);
+  }
+
+  const events = (await loadReplayEvents([check.id])).get(check.id) ?? [];
+  const verdict = replayVerdictAtSnapshot(check.id, toRiskProfile(profile ?? {}), events, snapshot);
+
+  const oldVerdict: Verdict = storedVerdict ?? { riskLevel: "none", reasoning: "No stored verdict", matched: [] };
+  const diff = computeReplayDiff(check.id, normalizeVerdict(oldVerdict), normalizeVerdict(verdict));
+  const identical =
+    !diff.changes.riskLevelChanged &&
+    !diff.changes.severityChanged &&
+    diff.changes.addedMatches.length === 0 &&
+    diff.changes.removedMatches.length === 0;
+
+  return { ...replay, versions: snapshot.content.versions, verdict, identical, changes: diff.changes };
+}
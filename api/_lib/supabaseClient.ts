@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { createMemoryClient } from "./persistence/memoryClient.js";
 
 /**
  * Singleton Supabase client for server-side persistence.
@@ -9,13 +10,30 @@ import { createClient, SupabaseClient } from "@supabase/supabase-js";
  *
  * The client is created lazily on first call and reused for the lifetime of the
  * serverless function instance.  We intentionally do NOT log secrets.
+ *
+ * Phase 29: PERSISTENCE_ADAPTER selects the backend.
+ *   supabase (default) – live Supabase project (env vars above required)
+ *   memory             – in-process stand-in built from docs/migrations/*.sql
+ *                        (no network; optional MEMORY_DB_FILE JSON snapshot)
  */
 
 let _client: SupabaseClient | null = null;
 
+export type PersistenceAdapter = "supabase" | "memory";
+
+export function getPersistenceAdapter(): PersistenceAdapter {
+  return process.env.PERSISTENCE_ADAPTER?.trim().toLowerCase() === "memory" ? "memory" : "supabase";
+}
+
 export function getSupabaseClient(): SupabaseClient {
   if (_client) return _client;
 
+  if (getPersistenceAdapter() === "memory") {
+    // The memory client implements the query-builder subset the API uses.
+    _client = createMemoryClient() as unknown as SupabaseClient;
+    return _client;
+  }
+
   const url = process.env.SUPABASE_URL;
   const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
@@ -39,3 +57,8 @@ export function getSupabaseClient(): SupabaseClient {
 
   return _client;
 }
+
+/** Phase 29: drop the cached client (evals use it for a fresh memory store). */
+export function resetSupabaseClient(): void {
+  _client = null;
+}
@@ -6,17 +6,43 @@
  * Phase 15.1: time-weighted decay.
  * Phase 15.2: topN_sum aggregation (pressureScore = min(100, sum(top 3 weighted severities))).
  * Phase 15.3: pressureSources ranking (terms contributing to pressure; normalized lowercase).
+ * Phase 32: meta.severity is the profile's personal reaction severity when checkRisk
+ * had one (meta.severitySource = "personal"); the trigger reports which applied.
+ * Phase 34: intake ledger findings (cross-check stacking, duplicate ingredients)
+ * contribute like checks, decayed from their latest intake; when one wins, the
+ * trigger has source "intake".
+ * Phase 36: checks acked "resolved_no_reaction" (vigilance_acks) contribute at
+ * RESOLVED_DISCOUNT of their weight; fetchVigilance returns the acks for the
+ * checks in the window so every device hides the same banners.
+ * Phase 37: threshold, aggregation and decay come from a VigilancePolicy
+ * (vigilancePolicies.ts) selected per profile; the policy id/version is
+ * returned in the result and in aggregation.
  * No inference re-computation; reads persisted verdicts only.
- * No LLM, no DB writes, no schema changes.
+ * No LLM, no DB writes.
  */
 
 import { getSupabaseClient } from "../supabaseClient.js";
+import {
+  detectIntakeStacking,
+  INTAKE_LEDGER_DEFAULT_WINDOW_HOURS,
+  type IntakeFinding,
+} from "../intake/intakeLedger.js";
+import {
+  fetchVigilanceAcks,
+  RESOLVED_DISCOUNT,
+  type VigilanceAck,
+} from "./vigilanceAcks.js";
+import {
+  DEFAULT_VIGILANCE_POLICY,
+  decayWeight,
+  getVigilancePolicy,
+  policyRef,
+  type VigilancePolicy,
+  type VigilancePolicyRef,
+} from "./vigilancePolicies.js";
 
 // ── Constants ────────────────────────────────────────────────────────
 
-const MEDIUM_THRESHOLD = 50;
-const TOP_N = 3;
-
 /** Map riskLevel to severity when meta.severity missing (back-compat). high=100, medium=50, none=0 */
 function mapFromRiskLevel(riskLevel: string): number {
   if (riskLevel === "high") return 100;
@@ -24,14 +50,6 @@ function mapFromRiskLevel(riskLevel: string): number {
   return 0;
 }
 
-/** Deterministic decay buckets (no Math.exp). */
-function getDecayWeight(hoursSinceCheck: number): number {
-  if (hoursSinceCheck <= 1) return 1.0;
-  if (hoursSinceCheck <= 6) return 0.75;
-  if (hoursSinceCheck <= 12) return 0.5;
-  return 0.25;
-}
-
 /** Map hoursSince to deterministic age bucket (no raw float in API). */
 function getAgeBucket(hoursSince: number): "0_to_1h" | "1_to_6h" | "6_to_12h" | "12h_plus" {
   if (hoursSince <= 1) return "0_to_1h";
@@ -54,13 +72,23 @@ export interface VigilanceTrigger {
   weightedSeverity?: number;
   ageBucket?: "0_to_1h" | "1_to_6h" | "6_to_12h" | "12h_plus";
   rawSeverity?: number;
+  /** Phase 32: personal reaction severity vs category default */
+  severitySource?: "personal" | "category";
+  reaction?: string;
+  /** Phase 34: set when the trigger is an intake ledger finding, not a check */
+  source?: "intake";
+  intake?: { kind: IntakeFinding["kind"]; key: string; label: string };
 }
 
 export interface VigilanceAggregation {
-  mode: "topN_sum";
+  mode: "topN_sum" | "max";
+  /** Number of components summed (1 for "max") */
   topN: number;
   /** Top N weighted severities as ints (Math.round), descending */
   components: number[];
+  /** Phase 37: policy that produced this aggregation */
+  policyId: string;
+  policyVersion: string;
 }
 
 /** Phase 15.3: term contributing to vigilance pressure. Term normalized to lowercase. */
@@ -84,6 +112,12 @@ export interface VigilanceResult {
   /** Phase 15.3: ranked terms contributing to pressure */
   pressureSources: PressureSource[];
   trigger: VigilanceTrigger | null;
+  /** Phase 36: checks whose contribution was discounted as resolved */
+  resolvedCheckIds?: string[];
+  /** Phase 36: server-side acks for checks in the window, keyed by checkId */
+  acks?: Record<string, VigilanceAck>;
+  /** Phase 37: scoring policy applied */
+  policy: VigilancePolicyRef;
 }
 
 /** Minimal check row shape for vigilance computation. */
@@ -98,6 +132,8 @@ export interface VigilanceCheck {
     meta?: {
       taxonomyVersion?: string;
       severity?: number;
+      severitySource?: "personal";
+      reaction?: string;
     };
   };
   created_at: string;
@@ -112,13 +148,13 @@ function extractMatchedTerms(
 ): string[] {
   const terms = new Set<string>();
   for (const m of matched) {
-    if (m.rule === "allergy_match") {
+    if (m.rule === "allergy_match" || m.rule === "precautionary_allergen") {
       const allergen = m.details.allergen as string | undefined;
       if (allergen) terms.add(allergen);
     } else if (m.rule === "cross_reactive") {
       const matchedTerm = m.details.matchedTerm as string | undefined;
       if (matchedTerm) terms.add(matchedTerm);
-    } else if (m.rule === "medication_interaction") {
+    } else if (m.rule === "medication_interaction" || m.rule === "functional_class_interaction") {
       const extracted = m.details.extracted as string | undefined;
       const conflictsWith = m.details.conflictsWith as string | undefined;
       if (extracted) terms.add(extracted);
@@ -134,12 +170,18 @@ function extractMatchedTerms(
  * Rounding: Math.round for sum and components (deterministic; no floating-point drift).
  *
  * @param nowIso - ISO string reference time for decay. Required; caller passes new Date().toISOString().
+ * @param resolvedCheckIds - Phase 36: checks resolved with no reaction; their weight
+ *   (and that of intake findings whose latest check is resolved) is multiplied by RESOLVED_DISCOUNT.
+ * @param policy - Phase 37: decay, aggregation and threshold (default "standard").
  */
 export function computeVigilanceFromChecks(
   profileId: string,
   checks: VigilanceCheck[],
   windowHours: number,
-  nowIso: string
+  nowIso: string,
+  intakeFindings: IntakeFinding[] = [],
+  resolvedCheckIds: ReadonlySet<string> = new Set(),
+  policy: VigilancePolicy = DEFAULT_VIGILANCE_POLICY
 ): VigilanceResult {
   const refMs = new Date(nowIso).getTime();
 
@@ -149,6 +191,8 @@ export function computeVigilanceFromChecks(
   let bestWeight = 0;
   let bestHoursSince = 0;
   let bestRawSeverity = 0;
+  let bestIntake: IntakeFinding | null = null;
+  const discounted = new Set<string>();
 
   /** Phase 15.3: term key (lowercase) -> { count, weightedScore, maxWeighted, checkEntries } */
   const termAccum = new Map<
@@ -167,7 +211,11 @@ export function computeVigilanceFromChecks(
     const checkMs = new Date(check.created_at).getTime();
     let hoursSince = (refMs - checkMs) / (60 * 60 * 1000);
     if (hoursSince < 0) hoursSince = 0;
-    const weight = getDecayWeight(hoursSince);
+    let weight = decayWeight(policy, hoursSince);
+    if (resolvedCheckIds.has(check.id)) {
+      weight *= RESOLVED_DISCOUNT;
+      discounted.add(check.id);
+    }
     const weightedSeverity = rawSeverity * weight;
 
     scores.push(weightedSeverity);
@@ -204,17 +252,62 @@ export function computeVigilanceFromChecks(
     }
   }
 
+  // Phase 34: intake ledger findings, decayed from their latest intake
+  for (const finding of intakeFindings) {
+    let hoursSince = (refMs - new Date(finding.lastAt).getTime()) / (60 * 60 * 1000);
+    if (hoursSince < 0) hoursSince = 0;
+    let weight = decayWeight(policy, hoursSince);
+    const lastCheckId = finding.checkIds[finding.checkIds.length - 1];
+    if (resolvedCheckIds.has(lastCheckId)) {
+      weight *= RESOLVED_DISCOUNT;
+      discounted.add(lastCheckId);
+    }
+    const weightedSeverity = finding.severity * weight;
+
+    scores.push(weightedSeverity);
+    if (weightedSeverity > bestWeighted) {
+      bestWeighted = weightedSeverity;
+      bestCheck = null;
+      bestIntake = finding;
+      bestWeight = weight;
+      bestHoursSince = hoursSince;
+      bestRawSeverity = finding.severity;
+    }
+
+    for (const item of new Set(finding.items.map((t) => t.toLowerCase().trim()))) {
+      if (!item) continue;
+      const entries = finding.checkIds.map((checkId) => ({ checkId, created_at: finding.lastAt }));
+      const cur = termAccum.get(item);
+      if (cur) {
+        cur.count += 1;
+        cur.weightedScore += weightedSeverity;
+        cur.maxWeighted = Math.max(cur.maxWeighted, weightedSeverity);
+        cur.checkEntries.push(...entries);
+      } else {
+        termAccum.set(item, {
+          count: 1,
+          weightedScore: weightedSeverity,
+          maxWeighted: weightedSeverity,
+          checkEntries: entries,
+        });
+      }
+    }
+  }
+
   scores.sort((a, b) => b - a);
-  const topN = scores.slice(0, TOP_N);
+  const n = policy.aggregation.mode === "topN_sum" ? policy.aggregation.topN : 1;
+  const topN = scores.slice(0, n);
   const sumTopN = topN.reduce((s, v) => s + v, 0);
   const vigilanceScore = Math.min(100, Math.round(sumTopN));
   const components = topN.map((v) => Math.round(v));
-  const vigilanceActive = vigilanceScore >= MEDIUM_THRESHOLD;
+  const vigilanceActive = vigilanceScore >= policy.threshold;
 
   const aggregation: VigilanceAggregation = {
-    mode: "topN_sum",
-    topN: TOP_N,
+    mode: policy.aggregation.mode,
+    topN: n,
     components,
+    policyId: policy.id,
+    policyVersion: policy.version,
   };
 
   const pressureSources: PressureSource[] = [];
@@ -237,6 +330,38 @@ export function computeVigilanceFromChecks(
     return a.term.localeCompare(b.term);
   });
 
+  const resolvedField = discounted.size > 0
+    ? { resolvedCheckIds: [...discounted].sort((a, b) => a.localeCompare(b)) }
+    : {};
+
+  if (bestIntake && vigilanceActive) {
+    return {
+      profileId,
+      windowHours,
+      vigilanceActive: true,
+      vigilanceScore,
+      decayApplied: true,
+      aggregation,
+      pressureSources,
+      ...resolvedField,
+      policy: policyRef(policy),
+      trigger: {
+        checkId: bestIntake.checkIds[bestIntake.checkIds.length - 1],
+        riskLevel: bestIntake.riskLevel,
+        severity: bestIntake.severity,
+        matched: [...bestIntake.items].sort((a, b) => a.localeCompare(b)),
+        lastSeenAt: bestIntake.lastAt,
+        taxonomyVersion: null,
+        weight: bestWeight,
+        weightedSeverity: bestWeighted,
+        ageBucket: getAgeBucket(bestHoursSince),
+        rawSeverity: bestRawSeverity,
+        source: "intake",
+        intake: { kind: bestIntake.kind, key: bestIntake.key, label: bestIntake.label },
+      },
+    };
+  }
+
   if (bestCheck && vigilanceActive) {
     const matched = extractMatchedTerms(bestCheck.verdict?.matched ?? []);
     const meta = bestCheck.verdict?.meta;
@@ -249,6 +374,8 @@ export function computeVigilanceFromChecks(
       decayApplied: true,
       aggregation,
       pressureSources,
+      ...resolvedField,
+      policy: policyRef(policy),
       trigger: {
         checkId: bestCheck.id,
         riskLevel,
@@ -260,6 +387,8 @@ export function computeVigilanceFromChecks(
         weightedSeverity: bestWeighted,
         ageBucket: getAgeBucket(bestHoursSince),
         rawSeverity: bestRawSeverity,
+        severitySource: meta?.severitySource ?? "category",
+        ...(meta?.reaction ? { reaction: meta.reaction } : {}),
       },
     };
   }
@@ -272,18 +401,32 @@ export function computeVigilanceFromChecks(
     decayApplied: true,
     aggregation,
     pressureSources,
+    ...resolvedField,
+    policy: policyRef(policy),
     trigger: null,
   };
 }
 
 /**
  * Async DB wrapper: fetch checks within window and compute vigilance.
+ * Phase 34: intake ledger findings over intakeWindowHours are included
+ * (best-effort; a ledger failure never blocks vigilance).
+ * Phase 36: vigilance_acks for the window's checks are loaded (best-effort),
+ * resolved ones discounted, and all returned as result.acks.
+ * Phase 37: scores with the profile's vigilance_policy; windowHours defaults
+ * to the policy's window when omitted.
  */
 export async function fetchVigilance(
   profileId: string,
-  windowHours: number
+  windowHours?: number,
+  intakeWindowHours: number = INTAKE_LEDGER_DEFAULT_WINDOW_HOURS
 ): Promise<VigilanceResult> {
   const supabase = getSupabaseClient();
+
+  // Phase 37: profile's policy; window defaults to the policy's
+  const policy = getVigilancePolicy(await fetchProfilePolicyId(profileId));
+  windowHours ??= policy.windowHours;
+
   const since = new Date(
     Date.now() - windowHours * 60 * 60 * 1000
   ).toISOString();
@@ -292,6 +435,7 @@ export async function fetchVigilance(
     .from("checks")
     .select("id, verdict, created_at")
     .eq("profile_id", profileId)
+    .is("batch", null) // Phase 44: batch checks list items, nothing was consumed
     .gte("created_at", since)
     .order("created_at", { ascending: false });
 
@@ -299,10 +443,54 @@ export async function fetchVigilance(
     throw new Error(`Vigilance checks query failed: ${error.message}`);
   }
 
-  return computeVigilanceFromChecks(
+  let intakeFindings: IntakeFinding[] = [];
+  try {
+    intakeFindings = await detectIntakeStacking({ profileId, windowHours: intakeWindowHours });
+  } catch (err: unknown) {
+    console.warn("[Vigilance] Intake ledger failed:", err instanceof Error ? err.message : err);
+  }
+
+  const checkIds = new Set((checks ?? []).map((c: { id: string }) => c.id));
+  for (const finding of intakeFindings) {
+    for (const id of finding.checkIds) checkIds.add(id);
+  }
+
+  let acks: Record<string, VigilanceAck> = {};
+  try {
+    acks = await fetchVigilanceAcks(profileId, [...checkIds]);
+  } catch (err: unknown) {
+    console.warn("[Vigilance] Acks query failed:", err instanceof Error ? err.message : err);
+  }
+  const resolved = new Set(
+    Object.values(acks)
+      .filter((a) => a.outcome === "resolved_no_reaction")
+      .map((a) => a.checkId)
+  );
+
+  const result = computeVigilanceFromChecks(
     profileId,
     (checks ?? []) as VigilanceCheck[],
     windowHours,
-    new Date().toISOString()
+    new Date().toISOString(),
+    intakeFindings,
+    resolved,
+    policy
   );
+  return { ...result, acks };
+}
+
+/** Best-effort read of profiles.vigilance_policy (null before migration 019). */
+async function fetchProfilePolicyId(profileId: string): Promise<string | null> {
+  try {
+    const { data, error } = await getSupabaseClient()
+      .from("profiles")
+      .select("vigilance_policy")
+      .eq("id", profileId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as { vigilance_policy?: string | null } | null)?.vigilance_policy ?? null;
+  } catch (err: unknown) {
+    console.warn("[Vigilance] Policy lookup failed:", err instanceof Error ? err.message : err);
+    return null;
+  }
 }
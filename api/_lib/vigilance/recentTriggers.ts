@@ -36,13 +36,13 @@ function extractMatchedTerms(
 ): string[] {
   const terms = new Set<string>();
   for (const m of matched) {
-    if (m.rule === "allergy_match") {
+    if (m.rule === "allergy_match" || m.rule === "precautionary_allergen") {
       const allergen = m.details.allergen as string | undefined;
       if (allergen) terms.add(allergen);
     } else if (m.rule === "cross_reactive") {
       const matchedTerm = m.details.matchedTerm as string | undefined;
       if (matchedTerm) terms.add(matchedTerm);
-    } else if (m.rule === "medication_interaction") {
+    } else if (m.rule === "medication_interaction" || m.rule === "functional_class_interaction") {
       const extracted = m.details.extracted as string | undefined;
       const conflictsWith = m.details.conflictsWith as string | undefined;
       if (extracted) terms.add(extracted);
@@ -0,0 +1,149 @@
+/**
+ * Phase 36 – Server-side vigilance acknowledgements
+ *
+ * Persists banner outcomes per profile and trigger checkId (vigilance_acks)
+ * so every device sees the same state:
+ *
+ *   acknowledged         – hidden until now + min(windowHours, 12h)
+ *   snoozed              – hidden until now + snoozeHours (1–72)
+ *   resolved_no_reaction – hidden for good; the check's contribution to the
+ *                          vigilance score is discounted (RESOLVED_DISCOUNT)
+ *
+ * The latest outcome for a (profile, check) pair wins.
+ */
+
+import { getSupabaseClient } from "../supabaseClient.js";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const VIGILANCE_ACK_OUTCOMES = ["acknowledged", "snoozed", "resolved_no_reaction"] as const;
+
+export type VigilanceAckOutcome = (typeof VIGILANCE_ACK_OUTCOMES)[number];
+
+/** Default acknowledgement TTL cap (matches the banner's previous local ack). */
+export const ACK_MAX_HOURS = 12;
+
+export const SNOOZE_MAX_HOURS = 72;
+
+/** Weight multiplier for checks resolved with no reaction. */
+export const RESOLVED_DISCOUNT = 0.25;
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface VigilanceAck {
+  checkId: string;
+  outcome: VigilanceAckOutcome;
+  /** ISO expiry; null for resolved_no_reaction */
+  until: string | null;
+  updatedAt: string;
+}
+
+interface VigilanceAckRow {
+  check_id: string;
+  outcome: VigilanceAckOutcome;
+  until: string | null;
+  updated_at: string;
+}
+
+// ── Pure helpers ─────────────────────────────────────────────────────
+
+export function isVigilanceAckOutcome(v: unknown): v is VigilanceAckOutcome {
+  return typeof v === "string" && (VIGILANCE_ACK_OUTCOMES as readonly string[]).includes(v);
+}
+
+/**
+ * Expiry for an outcome recorded at nowMs. windowHours applies to
+ * "acknowledged", snoozeHours to "snoozed"; resolved never expires.
+ */
+export function ackUntil(
+  outcome: VigilanceAckOutcome,
+  nowMs: number,
+  opts: { windowHours?: number; snoozeHours?: number } = {}
+): string | null {
+  if (outcome === "resolved_no_reaction") return null;
+  const hours =
+    outcome === "snoozed"
+      ? opts.snoozeHours ?? ACK_MAX_HOURS
+      : Math.min(opts.windowHours ?? ACK_MAX_HOURS, ACK_MAX_HOURS);
+  return new Date(nowMs + hours * 60 * 60 * 1000).toISOString();
+}
+
+/** True while the ack hides the banner for its check. */
+export function isAckActive(ack: VigilanceAck, nowMs: number): boolean {
+  if (ack.outcome === "resolved_no_reaction") return true;
+  return ack.until !== null && nowMs < new Date(ack.until).getTime();
+}
+
+function toVigilanceAck(row: VigilanceAckRow): VigilanceAck {
+  return {
+    checkId: row.check_id,
+    outcome: row.outcome,
+    until: row.until,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ── DB wrappers ──────────────────────────────────────────────────────
+
+/** Record an outcome for a trigger check (upsert on profile + check). */
+export async function recordVigilanceAck(args: {
+  profileId: string;
+  checkId: string;
+  outcome: VigilanceAckOutcome;
+  windowHours?: number;
+  snoozeHours?: number;
+}): Promise<VigilanceAck> {
+  const supabase = getSupabaseClient();
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+
+  const { data, error } = await supabase
+    .from("vigilance_acks")
+    .upsert(
+      {
+        profile_id: args.profileId,
+        check_id: args.checkId,
+        outcome: args.outcome,
+        until: ackUntil(args.outcome, nowMs, args),
+        updated_at: now,
+      },
+      { onConflict: "profile_id,check_id" }
+    )
+    .select("check_id, outcome, until, updated_at")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`vigilance_acks upsert failed: ${error?.message ?? "no row returned"}`);
+  }
+  return toVigilanceAck(data as VigilanceAckRow);
+}
+
+/** Acks for a profile, optionally limited to checkIds, keyed by checkId. */
+export async function fetchVigilanceAcks(
+  profileId: string,
+  checkIds?: string[]
+): Promise<Record<string, VigilanceAck>> {
+  if (checkIds && checkIds.length === 0) return {};
+  const supabase = getSupabaseClient();
+
+  let query = supabase
+    .from("vigilance_acks")
+    .select("check_id, outcome, until, updated_at")
+    .eq("profile_id", profileId);
+
+  if (checkIds) {
+    query = query.in("check_id", checkIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`vigilance_acks query failed: ${error.message}`);
+  }
+
+  const acks: Record<string, VigilanceAck> = {};
+  for (const row of (data ?? []) as VigilanceAckRow[]) {
+    acks[row.check_id] = toVigilanceAck(row);
+  }
+  return acks;
+}
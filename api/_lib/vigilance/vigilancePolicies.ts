@@ -0,0 +1,124 @@
+/**
+ * Phase 37 – Vigilance scoring policies
+ *
+ * Named, versioned parameter sets for computeVigilance: window, decay curve,
+ * aggregation and activation threshold. Each profile selects one
+ * (profiles.vigilance_policy); unknown or missing ids fall back to
+ * DEFAULT_VIGILANCE_POLICY_ID.
+ *
+ * "standard" reproduces the Phase 13–15 constants exactly. Changing a
+ * policy's numbers requires bumping its version so responses stay traceable.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface DecayStep {
+  /** Applies while hoursSince <= maxHours */
+  maxHours: number;
+  weight: number;
+}
+
+export interface VigilancePolicy {
+  id: string;
+  version: string;
+  label: string;
+  description: string;
+  /** Default look-back window when the caller does not pass one */
+  windowHours: number;
+  /** vigilanceScore at or above which vigilance is active */
+  threshold: number;
+  aggregation:
+    | { mode: "topN_sum"; topN: number }
+    /** Highest single weighted severity */
+    | { mode: "max" };
+  /** Step decay, ascending maxHours; floorWeight applies beyond the last step */
+  decay: { steps: DecayStep[]; floorWeight: number };
+}
+
+export interface VigilancePolicyRef {
+  id: string;
+  version: string;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────
+
+export const VIGILANCE_POLICIES: Record<string, VigilancePolicy> = {
+  standard: {
+    id: "standard",
+    version: "1",
+    label: "Standard",
+    description: "Sum of the top 3 recent risks over 12 hours; active at 50.",
+    windowHours: 12,
+    threshold: 50,
+    aggregation: { mode: "topN_sum", topN: 3 },
+    decay: {
+      steps: [
+        { maxHours: 1, weight: 1.0 },
+        { maxHours: 6, weight: 0.75 },
+        { maxHours: 12, weight: 0.5 },
+      ],
+      floorWeight: 0.25,
+    },
+  },
+  infant: {
+    id: "infant",
+    version: "1",
+    label: "Infant (stricter)",
+    description: "Looks back 48 hours, decays slowly and activates at 35.",
+    windowHours: 48,
+    threshold: 35,
+    aggregation: { mode: "topN_sum", topN: 3 },
+    decay: {
+      steps: [
+        { maxHours: 6, weight: 1.0 },
+        { maxHours: 24, weight: 0.85 },
+        { maxHours: 48, weight: 0.6 },
+      ],
+      floorWeight: 0.4,
+    },
+  },
+  single_event: {
+    id: "single_event",
+    version: "1",
+    label: "Single event",
+    description: "Only the strongest recent risk counts (no summing); active at 50.",
+    windowHours: 12,
+    threshold: 50,
+    aggregation: { mode: "max" },
+    decay: {
+      steps: [
+        { maxHours: 1, weight: 1.0 },
+        { maxHours: 6, weight: 0.75 },
+        { maxHours: 12, weight: 0.5 },
+      ],
+      floorWeight: 0.25,
+    },
+  },
+};
+
+export const DEFAULT_VIGILANCE_POLICY_ID = "standard";
+
+export const DEFAULT_VIGILANCE_POLICY = VIGILANCE_POLICIES[DEFAULT_VIGILANCE_POLICY_ID];
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+export function isVigilancePolicyId(id: unknown): id is string {
+  return typeof id === "string" && Object.prototype.hasOwnProperty.call(VIGILANCE_POLICIES, id);
+}
+
+/** Resolve a policy id (e.g. profiles.vigilance_policy); falls back to the default. */
+export function getVigilancePolicy(id: string | null | undefined): VigilancePolicy {
+  return isVigilancePolicyId(id) ? VIGILANCE_POLICIES[id] : DEFAULT_VIGILANCE_POLICY;
+}
+
+/** Deterministic step decay (no Math.exp). */
+export function decayWeight(policy: VigilancePolicy, hoursSince: number): number {
+  for (const step of policy.decay.steps) {
+    if (hoursSince <= step.maxHours) return step.weight;
+  }
+  return policy.decay.floorWeight;
+}
+
+export function policyRef(policy: VigilancePolicy): VigilancePolicyRef {
+  return { id: policy.id, version: policy.version };
+}
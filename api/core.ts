@@ -15,8 +15,18 @@ import type { VercelRequest, VercelResponse } from "@vercel/node";
  *   /api/knowledge/aliases  -> /api/core?action=aliases
  *   /api/vigilance          -> /api/core?action=vigilance
  *   /api/vigilance/recent   -> /api/core?action=vigilance-recent
+ *   /api/vigilance/ack      -> /api/core?action=vigilance-ack
  *   /api/history            -> /api/core?action=history-list
  *   /api/history/:id        -> /api/core?action=history-detail&id=:id
+ *   /api/reactions          -> /api/core?action=reactions
+ *   /api/report/action-plan -> /api/core?action=action-plan
+ *   /api/report/period      -> /api/core?action=period-report
+ *   /api/fhir               -> /api/core?action=fhir
+ *   /api/check/batch        -> /api/core?action=batch-check
+ *   /api/retro-check        -> /api/core?action=retro-check
+ *   /api/retro-check/ack    -> /api/core?action=retro-check-ack
+ *   /api/history/:id/replay -> /api/core?action=snapshot-replay&id=:id
+ *   /api/knowledge/snapshot -> /api/core?action=knowledge-snapshot
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const action = typeof req.query.action === "string" ? req.query.action : "";
@@ -46,6 +56,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const { default: h } = await import("./_lib/core/_vigilanceRecentHandler.js");
       return h(req, res);
     }
+    case "vigilance-ack": {
+      const { default: h } = await import("./_lib/core/_vigilanceAckHandler.js");
+      return h(req, res);
+    }
     case "history-list": {
       const { default: h } = await import("./_lib/core/_historyListHandler.js");
       return h(req, res);
@@ -54,11 +68,47 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const { default: h } = await import("./_lib/core/_historyDetailHandler.js");
       return h(req, res);
     }
+    case "reactions": {
+      const { default: h } = await import("./_lib/core/_reactionsHandler.js");
+      return h(req, res);
+    }
+    case "action-plan": {
+      const { default: h } = await import("./_lib/core/_actionPlanHandler.js");
+      return h(req, res);
+    }
+    case "period-report": {
+      const { default: h } = await import("./_lib/core/_periodReportHandler.js");
+      return h(req, res);
+    }
+    case "fhir": {
+      const { default: h } = await import("./_lib/core/_fhirHandler.js");
+      return h(req, res);
+    }
+    case "batch-check": {
+      const { default: h } = await import("./_lib/core/_batchCheckHandler.js");
+      return h(req, res);
+    }
+    case "retro-check": {
+      const { default: h } = await import("./_lib/core/_retroCheckHandler.js");
+      return h(req, res);
+    }
+    case "retro-check-ack": {
+      const { default: h } = await import("./_lib/core/_retroCheckAckHandler.js");
+      return h(req, res);
+    }
+    case "snapshot-replay": {
+      const { default: h } = await import("./_lib/core/_snapshotReplayHandler.js");
+      return h(req, res);
+    }
+    case "knowledge-snapshot": {
+      const { default: h } = await import("./_lib/core/_knowledgeSnapshotHandler.js");
+      return h(req, res);
+    }
     default:
       return res.status(400).json({
         error: "Missing or invalid action",
         details:
-          "Use ?action=trajectory|insights-feed|insights-feedback|aliases|vigilance|vigilance-recent|history-list|history-detail",
+          "Use ?action=trajectory|insights-feed|insights-feedback|aliases|vigilance|vigilance-recent|vigilance-ack|history-list|history-detail|reactions|action-plan|period-report|fhir|batch-check|retro-check|retro-check-ack|snapshot-replay|knowledge-snapshot",
       });
   }
 }
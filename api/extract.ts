@@ -3,14 +3,20 @@ dotenv.config({ path: ".env.local", override: true });   // load .env.local →
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { extractFromText } from "./_lib/extractFromText.js";
-import { extractFromTextHeuristic } from "./_lib/extractFromTextHeuristic.js";
+import { withShortMealFallback } from "./_lib/extractTextEvents.js";
 import { extractFromTextLLM } from "./_lib/extractFromTextLLM.js";
 import { extractTextFromImage } from "./_lib/extractFromImage.js";
+import { extractFromLabel, looksLikeFoodLabel } from "./_lib/extractFromLabel.js";
 import { postProcessExtractionResult } from "./_lib/inference/postProcessExtractionResult.js";
-import { saveExtractionRun } from "./_lib/persistence/saveExtractionRun.js";
+import { evaluateExtractionRun, saveExtractionRun } from "./_lib/persistence/saveExtractionRun.js";
+import { buildDryRunReport } from "./_lib/report/buildDryRunReport.js";
 import { postProcessFollowUps } from "./_lib/inference/postProcessFollowUps.js";
 import { enrichWithResolution } from "./_lib/knowledge/enrichWithResolution.js";
 import { ensurePromotedRegistryLoaded } from "./_lib/knowledge/promotedRegistryDb.js";
+import { getProfiles } from "./_lib/profiles/getProfiles.js";
+import { compareHousehold, type HouseholdComparison } from "./_lib/household/compareHousehold.js";
+import { toRiskProfile } from "./_lib/profiles/toRiskProfile.js";
+import { analyzeMenu } from "./_lib/menu/analyzeMenu.js";
 
 /**
  * Vercel Serverless Function
@@ -21,11 +27,30 @@ import { ensurePromotedRegistryLoaded } from "./_lib/knowledge/promotedRegistryD
  * - If EXTRACTION_MODE=llm: LLM extraction (OpenAI) via boundary module
  * - Phase 17: If image provided, extract text from image first, then use LLM extraction
  *   (ensures supplement events for label scanning)
+ * - Phase 27: mode="label" (or an image whose text has Ingredients / Contains /
+ *   "May contain" statements) → deterministic label parsing, one meal event per
+ *   ingredient with the label line it came from. Supplement Facts / Drug Facts
+ *   labels are only parsed this way on request; auto-detection leaves them to
+ *   the LLM so the product keeps its supplement / medication event
+ * - Phase 30: household=true → extraction runs once, then checkRisk runs for
+ *   every profile; response adds `household` (per-profile verdict matrix +
+ *   "safe for everyone" summary). Nothing is persisted in household mode —
+ *   it is a pre-purchase comparison, not something anyone consumed.
+ * - Phase 31: dryRun=true → "what if" check for one profile: verdict, advice and
+ *   resolution metadata (report shaped like buildCheckReport) with no checks,
+ *   health_events or Knowledge Radar telemetry written (400 without a profile,
+ *   404 for an unknown one)
+ * - Phase 43: mode="menu" | "recipe" → per-dish risk ratings from the dish
+ *   registry plus "ask the server" questions (response adds `menu`); events
+ *   are not extracted and nothing is persisted
  *
- * Request body: { rawText?: string, image?: string (base64), profile_id?: string }
+ * Request body: { rawText?: string, image?: string (base64), profile_id?: string, mode?: "label" | "menu" | "recipe", household?: boolean, dryRun?: boolean }
  *
  * Contract:
  * - Always returns { events: HealthEvent[], followUpQuestions: string[], warnings: string[] }
+ *   (+ household: HouseholdComparison when household=true)
+ *   (+ dryRun: true, verdict: Verdict, report: CheckReport when dryRun=true)
+ *   (+ menu: MenuAnalysis when mode is "menu" or "recipe")
  * - On error, returns { error: string, details: any|null } with proper HTTP status
  *
  * Phase 7 – Memory Room:
@@ -55,6 +80,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const imageType = typeof body?.imageType === "string" ? body.imageType.trim() : "";
     const previewOnly = body?.preview === true;
     const fromImage = body?.fromImage === true;
+    const labelRequested = body?.mode === "label";
+    const menuMode = body?.mode === "menu" || body?.mode === "recipe" ? body.mode : null;
+    const householdRequested = body?.household === true;
+    const dryRun = body?.dryRun === true;
 
     // Phase 17: preview=true → image-to-text only, no persist
     if (previewOnly && imageBase64) {
@@ -89,37 +118,55 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // ── Phase 43: menu / recipe mode — rate dishes, no extraction, no persistence ─
+    if (menuMode) {
+      const profileId =
+        (typeof body?.profile_id === "string" ? body.profile_id.trim() : "") ||
+        process.env.DEFAULT_PROFILE_ID ||
+        "";
+      if (!profileId) {
+        return res.status(400).json({ error: `profile_id required for ${menuMode} mode`, details: null });
+      }
+      const profile = (await getProfiles()).find((p) => p.id === profileId);
+      if (!profile) {
+        return res.status(404).json({ error: "Profile not found", details: null });
+      }
+      const menu = analyzeMenu({ text: rawText, mode: menuMode, profile: toRiskProfile(profile) });
+      if (menu.dishes.length === 0) {
+        return res.status(400).json({
+          error: menuMode === "recipe" ? "No recipe title found in text" : "No dishes found in menu text",
+          details: null,
+        });
+      }
+      return res.status(200).json({ events: [], followUpQuestions: menu.questions, warnings: [], menu });
+    }
+
+    // Phase 27: label mode — explicit, or auto-detected for scanned food labels
+    const labelResult =
+      labelRequested || ((imageBase64 || fromImage) && looksLikeFoodLabel(rawText))
+        ? extractFromLabel(rawText)
+        : null;
+    const isLabel = labelResult !== null && labelResult.events.length > 0;
+    if (labelRequested && !isLabel) {
+      return res.status(400).json({
+        error: "No ingredient list or allergen statement found in label text",
+        details: null,
+      });
+    }
+
     // Phase 17: When image was used (or fromImage flag), use LLM for supplement events
-    let result =
-      imageBase64 || fromImage
+    let result = labelResult && isLabel
+      ? labelResult
+      : imageBase64 || fromImage
         ? await extractFromTextLLM(rawText)
         : await extractFromText(rawText);
 
     // Fallback: "Mango", "peanut butter" — when extraction returns no meal, try heuristic
-    const hasMeal = result.events?.some((e: any) => e.type === "meal" && e.fields?.meal);
-    if (!hasMeal) {
-      const trimmed = rawText.trim();
-      const words = trimmed.split(/\s+/).filter(Boolean);
-      const looksLikeNumber = /^\d+(\.\d+)?\s*(mg|mcg|g|ml|mg\/dl)?$/i.test(trimmed);
-      const looksLikeMedication = /\b\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml)\b/i.test(rawText);
-      const looksLikeSymptom = /\b(headache|rash|nausea|vomiting|diarrhea|cough|fever|itching|hives|sneezing|congestion)\b/i.test(rawText);
-      if (
-        words.length >= 1 &&
-        words.length <= 6 &&
-        trimmed.length <= 80 &&
-        !looksLikeNumber &&
-        !looksLikeMedication &&
-        !looksLikeSymptom
-      ) {
-        const heuristicResult = await extractFromTextHeuristic(rawText);
-        if (heuristicResult.events?.some((e: any) => e.type === "meal" && e.fields?.meal)) {
-          result = heuristicResult;
-        }
-      }
-    }
+    if (!isLabel) result = await withShortMealFallback(rawText, result);
 
     // ── Post-process: meal needsClarification + carb follow-up suppression ─
-    postProcessExtractionResult(rawText, result);
+    // Phase 27: skipped for labels (fortified ingredients like "zinc" are not supplements)
+    if (!isLabel) postProcessExtractionResult(rawText, result);
 
     // ── O8.1: Hydrate promoted registry before resolution + downstream checkRisk ─
     await ensurePromotedRegistryLoaded();
@@ -127,12 +174,41 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // ── Phase 21a: Enrich events with entity resolution before inference ─
     result.events = enrichWithResolution(result.events ?? []);
 
+    // ── Phase 30: household compare — verdict per profile, no persistence ─
+    if (householdRequested) {
+      const profiles = await getProfiles();
+      const household: HouseholdComparison = compareHousehold({ profiles, events: result.events });
+      const post = postProcessFollowUps({
+        rawText,
+        events: result.events,
+        followUpQuestions: result.followUpQuestions ?? [],
+        verdict: undefined,
+      });
+      result.followUpQuestions = post.followUpQuestions;
+      return res.status(200).json({ ...result, household });
+    }
+
     // ── Phase 7 + 9A + 16: persist extraction run (best-effort) ───────────
     // profile_id from request body, else DEFAULT_PROFILE_ID.
     const profileId =
       (typeof body?.profile_id === "string" ? body.profile_id.trim() : "") ||
       process.env.DEFAULT_PROFILE_ID ||
       "";
+
+    // ── Phase 31: dry run — evaluate against the profile, write nothing ──
+    if (dryRun) {
+      if (!profileId) {
+        return res.status(400).json({ error: "profile_id required for dryRun", details: null });
+      }
+      const evaluated = await evaluateExtractionRun({ profileId, rawText, result });
+      if (!evaluated) {
+        return res.status(404).json({ error: "Profile not found", details: null });
+      }
+      const { checkId, verdict } = evaluated;
+      const report = buildDryRunReport({ checkId, profileId, rawText, verdict, events: result.events });
+      return res.status(200).json({ ...result, dryRun: true, verdict, report });
+    }
+
     if (profileId) {
       try {
         await saveExtractionRun({ profileId, rawText, result });
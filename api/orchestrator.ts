@@ -24,6 +24,16 @@ import {
   applyPromotedProposalsToSharedRegistry,
   ensurePromotedRegistryLoaded,
 } from "./_lib/knowledge/promotedRegistryDb.js";
+import {
+  listPromotionLedger,
+  MAX_LEDGER_ENTRIES,
+  type PromotionLedgerEntry,
+} from "./_lib/knowledge/promotionLedger.js";
+import {
+  revertPromotion,
+  rollbackPromotions,
+  type PromotionRevertResult,
+} from "./_lib/admin/promotionRevert.js";
 import {
   getRadarEntities,
   getRadarCombinations,
@@ -93,6 +103,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return handleAliasProposalDismiss(req, res);
     case "alias-proposal-export":
       return handleAliasProposalExport(req, res);
+    case "promotion-ledger":
+      return handlePromotionLedger(req, res);
+    case "promotion-revert":
+      return handlePromotionRevert(req, res, "revert");
+    case "promotion-rollback":
+      return handlePromotionRevert(req, res, "rollback");
     case "radar-entities":
       return handleRadarEntities(req, res);
     case "radar-combinations":
@@ -119,7 +135,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({
         error: "Missing or invalid action",
         details:
-          "Use ?action=unmapped|pr-packager|promotion-export|registry-list|registry-search|registry-entry|alias-proposals|radar-entities|radar-combinations|radar-stats|radar-signals|graph-focus|research-entity|research-combination|ingestion-candidates|ingestion-stats|ingestion-create-proposal|ingestion-dismiss",
+          "Use ?action=unmapped|pr-packager|promotion-export|registry-list|registry-search|registry-entry|alias-proposals|promotion-ledger|promotion-revert|promotion-rollback|radar-entities|radar-combinations|radar-stats|radar-signals|graph-focus|research-entity|research-combination|ingestion-candidates|ingestion-stats|ingestion-create-proposal|ingestion-dismiss",
       });
   }
 }
@@ -546,8 +562,9 @@ async function handleAliasProposalExport(req: VercelRequest, res: VercelResponse
 
     const changes = toExport.map((p) => buildAliasProposalExportChange(p));
 
+    let ledger: PromotionLedgerEntry[];
     try {
-      await applyPromotedProposalsToSharedRegistry(toExport);
+      ledger = await applyPromotedProposalsToSharedRegistry(toExport);
     } catch (err: unknown) {
       const message =
         err instanceof Error ? err.message : "Apply promotion to registry failed";
@@ -555,7 +572,7 @@ async function handleAliasProposalExport(req: VercelRequest, res: VercelResponse
         return res.status(503).json({
           error: "Promotion storage not available",
           details:
-            "Run docs/migrations/010_promoted_registry_entities.sql on Supabase, then retry.",
+            "Run docs/migrations/010_promoted_registry_entities.sql and 025_promotion_ledger.sql on Supabase, then retry.",
         });
       }
       console.error("[Orchestrator] alias-proposal-export apply failed:", message);
@@ -571,6 +588,7 @@ async function handleAliasProposalExport(req: VercelRequest, res: VercelResponse
         count: changes.length,
       },
       changes,
+      ledger,
     };
 
     return res.status(200).json(exportPayload);
@@ -582,6 +600,95 @@ async function handleAliasProposalExport(req: VercelRequest, res: VercelResponse
   }
 }
 
+/** Phase 49: promotion ledger, newest first. */
+async function handlePromotionLedger(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+  try {
+    const limit = Math.min(
+      Math.max(parseInt(String(req.query.limit), 10) || 100, 1),
+      MAX_LEDGER_ENTRIES
+    );
+    const entries = await listPromotionLedger({ limit });
+    return res.status(200).json({ meta: { count: entries.length }, entries });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Promotion ledger failed";
+    if (isMissingTable(err)) {
+      return res.status(503).json({
+        error: "Promotion ledger not available",
+        details: "Run docs/migrations/025_promotion_ledger.sql on Supabase, then retry.",
+      });
+    }
+    console.error("[Orchestrator] promotion-ledger failed:", message);
+    return res.status(500).json({ error: message, details: null });
+  }
+}
+
+const REVERT_BLOCK_MESSAGES: Record<NonNullable<PromotionRevertResult["blocked"]>, string> = {
+  not_a_promotion: "Ledger entry is a revert, not a promotion",
+  already_reverted: "Promotion already reverted",
+  superseded: "Promoted entity changed since this promotion; revert the later change first or roll back",
+  nothing_to_revert: "No active promotions to roll back",
+};
+
+/**
+ * Phase 49: revert one promotion or roll back to before it.
+ * Body: { entryId, acknowledge?: string[], dryRun?: boolean }.
+ * 409 when blocked or when the replay gate fails (result in `revert`).
+ */
+async function handlePromotionRevert(
+  req: VercelRequest,
+  res: VercelResponse,
+  mode: PromotionRevertResult["mode"]
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method Not Allowed", details: null });
+  }
+  try {
+    const body = req.body as Record<string, unknown> | null;
+    const entryId = typeof body?.entryId === "string" ? body.entryId.trim() : "";
+    if (!entryId) {
+      return res.status(400).json({ error: "Missing entryId", details: null });
+    }
+    if (!isUuidLike(entryId)) {
+      return res.status(400).json({ error: "entryId must be a valid UUID", details: null });
+    }
+    const acknowledge = Array.isArray(body?.acknowledge)
+      ? body.acknowledge.filter((id): id is string => typeof id === "string")
+      : [];
+    const opts = { acknowledge, dryRun: body?.dryRun === true };
+
+    await ensurePromotedRegistryLoaded();
+    const result =
+      mode === "revert" ? await revertPromotion(entryId, opts) : await rollbackPromotions(entryId, opts);
+    if (!result) {
+      return res.status(404).json({ error: "Ledger entry not found", details: null });
+    }
+    if (result.blocked) {
+      return res.status(409).json({ error: REVERT_BLOCK_MESSAGES[result.blocked], details: null, revert: result });
+    }
+    if (!result.gate.passed && !opts.dryRun) {
+      return res.status(409).json({
+        error: "Replay gate failed",
+        details: result.gate.failures.join("; "),
+        revert: result,
+      });
+    }
+    return res.status(200).json({ revert: result });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : `Promotion ${mode} failed`;
+    if (isMissingTable(err)) {
+      return res.status(503).json({
+        error: "Promotion ledger not available",
+        details: "Run docs/migrations/025_promotion_ledger.sql on Supabase, then retry.",
+      });
+    }
+    console.error(`[Orchestrator] promotion-${mode} failed:`, message);
+    return res.status(500).json({ error: message, details: null });
+  }
+}
+
 async function handleRadarEntities(req: VercelRequest, res: VercelResponse) {
   if (req.method !== "GET") {
     return res.status(405).json({ error: "Method Not Allowed", details: null });
@@ -936,9 +1043,12 @@ async function handleIngestionCreateProposal(req: VercelRequest, res: VercelResp
       proposed_alias: candidate.name,
       proposal_action: "create-entry",
       proposed_entry: {
+        type: "drug",
         name: candidate.name,
         aliases: candidate.aliases,
         class: candidate.class,
+        rxcui: candidate.rxcui,
+        ingredients: candidate.ingredients,
       },
       created_by: (body.createdBy as string) ?? undefined,
       notes: `From ingestion: ${candidate.source.dataset} ${candidate.source.recordId}`,
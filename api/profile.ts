@@ -7,8 +7,34 @@ import { getProfiles } from "./_lib/profiles/getProfiles.js";
 import { createProfile } from "./_lib/profiles/createProfile.js";
 import { updateProfile } from "./_lib/profiles/updateProfile.js";
 import { deleteProfile } from "./_lib/profiles/deleteProfile.js";
+import { readAllergyDetails, validateAllergyDetails } from "./_lib/profiles/allergyDetails.js";
 import { resolveEntity } from "./_lib/knowledge/entityResolver.js";
 import { ensurePromotedRegistryLoaded } from "./_lib/knowledge/promotedRegistryDb.js";
+import { isVigilancePolicyId, VIGILANCE_POLICIES } from "./_lib/vigilance/vigilancePolicies.js";
+import { readEmergencyContacts, validateEmergencyContacts } from "./_lib/profiles/emergencyContacts.js";
+import { rescanRecentChecks, resolveRescanWindowDays, type ProfileRescan } from "./_lib/retro/profileRescan.js";
+import type { StoredRiskProfile } from "./_lib/profiles/toRiskProfile.js";
+
+/**
+ * Phase 46: re-scan the profile's recent checks after an allergy / medication
+ * edit. Best-effort — a failed re-scan is logged and the edit still
+ * succeeds. Null when the window is 0 (disabled) or the re-scan failed.
+ */
+async function rescanAfterEdit(
+  profileId: string,
+  previous: StoredRiskProfile,
+  profile: StoredRiskProfile,
+  requestedDays: unknown
+): Promise<ProfileRescan | null> {
+  const windowDays = resolveRescanWindowDays(requestedDays);
+  if (windowDays === 0) return null;
+  try {
+    return await rescanRecentChecks({ profileId, previous, profile, windowDays });
+  } catch (err: unknown) {
+    console.error("[Profile rescan]", err instanceof Error ? err.message : err);
+    return null;
+  }
+}
 
 /**
  * Vercel Serverless Function
@@ -17,7 +43,12 @@ import { ensurePromotedRegistryLoaded } from "./_lib/knowledge/promotedRegistryD
  * GET  /api/profile              – read single profile (profileId query or DEFAULT_PROFILE_ID)
  * GET  /api/profile?action=list  – list all profiles
  * POST /api/profile              – create profile { name: string }
- * PATCH /api/profile             – update profile fields (known_allergies, etc.) by profileId or DEFAULT
+ * PATCH /api/profile             – update profile fields (known_allergies, etc., escalate_precautionary) by profileId or DEFAULT
+ *                                  Phase 32: known_allergies entries may carry reaction, diagnosisSource, lastReactionAt
+ *                                  Phase 37: vigilance_policy (standard | infant | single_event)
+ *                                  Phase 38: emergency_contacts ({ name, phone, relationship? }[])
+ *                                  Phase 46: known_allergies / current_medications changes return
+ *                                  rescan (recent checks that are now riskier; ?rescanDays=, 0 = off)
  * PATCH /api/profile?id=...      – update profile metadata (display_name, is_primary)
  * DELETE /api/profile?id=...     – delete profile (cannot delete last)
  *
@@ -47,8 +78,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   // ── POST ?action=add-item: add medication/supplement to profile (Phase 19) ──
+  // Phase 46: a newly added allergy / medication returns rescan (body or query rescanDays)
   if (req.method === "POST" && action === "add-item") {
     const body = req.body as Record<string, unknown> | null;
+    const rescanDays = body?.rescanDays ?? req.query.rescanDays;
     const profileId =
       (typeof body?.profileId === "string" ? body.profileId.trim() : "") ||
       profileIdParam ||
@@ -74,7 +107,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
       const { data: profile, error: fetchErr } = await supabase
         .from("profiles")
-        .select("current_medications, supplements, known_allergies")
+        .select("current_medications, supplements, known_allergies, escalate_precautionary")
         .eq("id", profileId)
         .maybeSingle();
 
@@ -111,9 +144,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .select()
           .single();
         if (error) throw new Error(`Update failed: ${error.message}`);
+        const rescan = await rescanAfterEdit(profileId, profile, { ...profile, current_medications: updated }, rescanDays);
         return res.status(200).json({
           success: true,
           item: { name, type: "medication", addedAt: new Date().toISOString() },
+          ...(rescan ? { rescan } : {}),
         });
       }
 
@@ -168,9 +203,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           .select()
           .single();
         if (error) throw new Error(`Update failed: ${error.message}`);
+        const rescan = await rescanAfterEdit(profileId, profile, { ...profile, known_allergies: updated }, rescanDays);
         return res.status(200).json({
           success: true,
           item: { name, type: "allergy", addedAt: new Date().toISOString() },
+          ...(rescan ? { rescan } : {}),
         });
       }
 
@@ -276,14 +313,24 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const updates: Record<string, unknown> = {};
 
       if (Array.isArray(body.known_allergies)) {
+        // Phase 32: reaction history fields are validated and kept on the entry
+        for (const a of body.known_allergies) {
+          const invalid = validateAllergyDetails(a);
+          if (invalid) {
+            return res.status(400).json({ error: invalid, details: null });
+          }
+        }
         updates.known_allergies = body.known_allergies.map((a: unknown) => {
-          const raw = typeof a === "object" && a !== null && "name" in a
-            ? String((a as { name: string }).name)
-            : String(a);
-          const r = resolveEntity(raw);
-          return r.resolved
-            ? { name: r.canonical, displayName: raw }
-            : { name: raw.toLowerCase().trim(), displayName: raw };
+          const obj = typeof a === "object" && a !== null && "name" in a
+            ? (a as { name: string; displayName?: string })
+            : null;
+          const raw = obj ? String(obj.displayName ?? obj.name) : String(a);
+          const r = resolveEntity(obj ? String(obj.name) : raw);
+          return {
+            name: r.resolved ? r.canonical : (obj ? String(obj.name) : raw).toLowerCase().trim(),
+            displayName: raw,
+            ...readAllergyDetails(a),
+          };
         });
       }
       if (Array.isArray(body.current_medications)) {
@@ -310,13 +357,50 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         });
       }
 
+      // Phase 28: precautionary escalation preference
+      if (typeof body.escalate_precautionary === "boolean") {
+        updates.escalate_precautionary = body.escalate_precautionary;
+      }
+
+      // Phase 37: vigilance scoring policy
+      if (body.vigilance_policy !== undefined) {
+        if (!isVigilancePolicyId(body.vigilance_policy)) {
+          return res.status(400).json({
+            error: `Invalid vigilance_policy: expected one of ${Object.keys(VIGILANCE_POLICIES).join(", ")}`,
+            details: null,
+          });
+        }
+        updates.vigilance_policy = body.vigilance_policy;
+      }
+
+      // Phase 38: emergency contacts for the action plan
+      if (body.emergency_contacts !== undefined) {
+        const invalid = validateEmergencyContacts(body.emergency_contacts);
+        if (invalid) {
+          return res.status(400).json({ error: invalid, details: null });
+        }
+        updates.emergency_contacts = readEmergencyContacts(body.emergency_contacts);
+      }
+
       if (Object.keys(updates).length === 0) {
         return res.status(400).json({
-          error: "No valid fields to update (expected known_allergies, current_medications, or supplements)",
+          error: "No valid fields to update (expected known_allergies, current_medications, supplements, escalate_precautionary, vigilance_policy, or emergency_contacts)",
           details: null,
         });
       }
 
+      // Phase 46: allergy / medication edits re-scan recent checks against the profile before the edit
+      const rescanEdit = updates.known_allergies !== undefined || updates.current_medications !== undefined;
+      let previous: StoredRiskProfile | null = null;
+      if (rescanEdit) {
+        const { data: before } = await supabase
+          .from("profiles")
+          .select("known_allergies, current_medications, escalate_precautionary")
+          .eq("id", profileId)
+          .maybeSingle();
+        previous = before;
+      }
+
       const { data, error } = await supabase
         .from("profiles")
         .update(updates)
@@ -327,7 +411,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       if (error) {
         throw new Error(`Profile update failed: ${error.message}`);
       }
-      return res.status(200).json({ profile: data });
+      const rescan = previous
+        ? await rescanAfterEdit(profileId, previous, data as StoredRiskProfile, req.query.rescanDays)
+        : null;
+      return res.status(200).json({ profile: data, ...(rescan ? { rescan } : {}) });
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : "Failed to update profile";
       console.error("[Profile PATCH]", message);
@@ -0,0 +1,12 @@
+-- ============================================================
+-- Phase 28 – Precautionary ("may contain") escalation preference
+-- Run after 015_ingestion_candidates.sql
+--
+-- When true, checkRisk grades precautionary label matches for this
+-- profile as HIGH (full severity) instead of MEDIUM. Intended for
+-- highly sensitive children whose allergist advises avoiding
+-- "may contain" / shared-facility products.
+-- ============================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS escalate_precautionary boolean NOT NULL DEFAULT false;
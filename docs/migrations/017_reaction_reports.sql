@@ -0,0 +1,19 @@
+-- ============================================================
+-- Phase 35 – Post-exposure reaction reports
+-- Run after 016_profile_precautionary_preference.sql
+--
+-- A reaction report is stored as its own check with one "symptom"
+-- health_event. linked_check_id points at the check the reaction
+-- followed, so trajectory and negative-evidence scoring can use a
+-- confirmed link instead of guessing from timestamps.
+--
+-- ON DELETE SET NULL: deleting the originating check keeps the
+-- reaction as a plain (unlinked) symptom.
+-- ============================================================
+
+ALTER TABLE health_events
+  ADD COLUMN IF NOT EXISTS linked_check_id uuid REFERENCES checks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_health_events_linked_check
+  ON health_events (linked_check_id)
+  WHERE linked_check_id IS NOT NULL;
@@ -0,0 +1,27 @@
+-- ============================================================
+-- Phase 36 – Server-side vigilance acknowledgements
+-- Run after 017_reaction_reports.sql
+--
+-- One row per (profile, trigger check): the latest outcome wins.
+--   acknowledged         – banner hidden until `until` (min(window, 12h))
+--   snoozed              – banner hidden until a caller-chosen `until`
+--   resolved_no_reaction – hidden for good; computeVigilance discounts
+--                          the check's contribution to the score
+-- Replaces per-browser localStorage acks so every device sees the same
+-- state.
+--
+-- Idempotency: uses IF NOT EXISTS, safe to re-run.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS vigilance_acks (
+  id          uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id  text        NOT NULL,
+  check_id    uuid        NOT NULL REFERENCES checks(id) ON DELETE CASCADE,
+  outcome     text        NOT NULL CHECK (outcome IN ('acknowledged', 'snoozed', 'resolved_no_reaction')),
+  until       timestamptz,
+  created_at  timestamptz NOT NULL DEFAULT now(),
+  updated_at  timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vigilance_acks_profile_check
+  ON vigilance_acks (profile_id, check_id);
@@ -0,0 +1,11 @@
+-- ============================================================
+-- Phase 37 – Per-profile vigilance scoring policy
+-- Run after 018_vigilance_acks.sql
+--
+-- Selects the named policy computeVigilance uses for this profile
+-- (api/_lib/vigilance/vigilancePolicies.ts): decay curve, window,
+-- aggregation and threshold. Unknown ids fall back to 'standard'.
+-- ============================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS vigilance_policy text NOT NULL DEFAULT 'standard';
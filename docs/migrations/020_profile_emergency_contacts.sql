@@ -0,0 +1,10 @@
+-- ============================================================
+-- Phase 38 – Emergency contacts for the allergy action plan
+-- Run after 019_profile_vigilance_policy.sql
+--
+-- jsonb array of { name, phone, relationship? } printed on the
+-- generated action plan (GET /api/report/action-plan).
+-- ============================================================
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS emergency_contacts jsonb NOT NULL DEFAULT '[]';
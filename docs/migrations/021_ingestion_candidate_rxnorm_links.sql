@@ -0,0 +1,14 @@
+-- ============================================================
+-- Phase 41 – RxNorm links on ingestion candidates
+-- Run after 020_profile_emergency_contacts.sql
+--
+-- rxcui: RxNorm concept id of the staged candidate.
+-- ingredients: ingredient canonical ids for combination products
+-- (e.g. NyQuil → acetaminophen, dextromethorphan, doxylamine).
+-- Both are carried into the create-entry proposal; registry
+-- writes still go through the governed proposal flow.
+-- ============================================================
+
+ALTER TABLE ingestion_candidates
+  ADD COLUMN IF NOT EXISTS rxcui TEXT,
+  ADD COLUMN IF NOT EXISTS ingredients JSONB NOT NULL DEFAULT '[]';
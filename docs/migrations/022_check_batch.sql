@@ -0,0 +1,13 @@
+-- ============================================================
+-- Phase 44 – Grouped batch checks
+-- Run after 021_ingestion_candidate_rxnorm_links.sql
+--
+-- batch: per-item verdict table for a check created by
+-- POST /api/check/batch ({ kind, items: [{ index, text, label?,
+-- riskLevel, severity }] }). NULL for single-input checks.
+-- The items' health_events share the check's check_id and carry
+-- event_data.batchItem / batchLine.
+-- ============================================================
+
+ALTER TABLE checks
+  ADD COLUMN IF NOT EXISTS batch JSONB;
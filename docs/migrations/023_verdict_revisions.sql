@@ -0,0 +1,40 @@
+-- ============================================================
+-- Phase 45 – Verdict revisions (retro-check)
+-- Run after 022_check_batch.sql
+--
+-- When ALLERGEN_TAXONOMY_VERSION or a REGISTRY_VERSIONS entry is
+-- bumped, the retro-check job replays stored checks through the
+-- current checkRisk. Every changed outcome is recorded here (old
+-- vs new verdict and the knowledge versions behind each) and
+-- checks.verdict is updated to the new verdict.
+--
+--   direction       – up | down | unchanged (risk level)
+--   knowledge_*     – { taxonomy, drug, supplement, food, ... }
+--   notify          – a past "none" verdict is now medium/high
+--   acknowledged_at – profile dismissed the notification
+--
+-- Idempotency: uses IF NOT EXISTS, safe to re-run.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS verdict_revisions (
+  id                 uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id         text        NOT NULL,
+  check_id           uuid        NOT NULL REFERENCES checks(id) ON DELETE CASCADE,
+  old_verdict        jsonb       NOT NULL,
+  new_verdict        jsonb       NOT NULL,
+  direction          text        NOT NULL CHECK (direction IN ('up', 'down', 'unchanged')),
+  added_matches      jsonb       NOT NULL DEFAULT '[]',
+  removed_matches    jsonb       NOT NULL DEFAULT '[]',
+  knowledge_from     jsonb       NOT NULL DEFAULT '{}',
+  knowledge_to       jsonb       NOT NULL DEFAULT '{}',
+  knowledge_changes  jsonb       NOT NULL DEFAULT '[]',
+  notify             boolean     NOT NULL DEFAULT false,
+  acknowledged_at    timestamptz,
+  created_at         timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verdict_revisions_profile_created
+  ON verdict_revisions (profile_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_verdict_revisions_check
+  ON verdict_revisions (check_id);
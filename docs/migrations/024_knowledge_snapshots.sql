@@ -0,0 +1,25 @@
+-- ============================================================
+-- Phase 48 – Knowledge snapshots
+-- Run after 023_verdict_revisions.sql
+--
+-- One row per distinct knowledge bundle checkRisk has run with:
+-- allergen taxonomy, drug / supplement / food registries,
+-- promoted entities, functional classes, interaction maps, dose
+-- thresholds, dishes and advice, serialised as canonical JSON.
+-- The primary key is the SHA-256 of that JSON, so a row is
+-- written once and never changes. checks.verdict.meta
+-- .knowledgeSnapshot references it; a check can be re-run
+-- against the exact knowledge that produced it.
+--
+--   versions – { taxonomy, drug, supplement, food, ..., advice }
+--   content  – the full bundle (hash covers exactly this)
+--
+-- Idempotency: uses IF NOT EXISTS, safe to re-run.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS knowledge_snapshots (
+  hash        text        PRIMARY KEY,
+  versions    jsonb       NOT NULL DEFAULT '{}',
+  content     jsonb       NOT NULL,
+  created_at  timestamptz NOT NULL DEFAULT now()
+);
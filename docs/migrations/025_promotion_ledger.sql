@@ -0,0 +1,47 @@
+-- ============================================================
+-- Phase 49 – Promotion ledger
+-- Run after 024_knowledge_snapshots.sql
+--
+-- One row per change to promoted_registry_entities (migration
+-- 010): a governed promotion ('promote') or an undo of one
+-- ('revert'). The row keeps the promoted entity before and after
+-- the change, so a promotion can be reverted without
+-- hand-editing the table:
+--
+--   entity_before / entity_after – CanonicalEntity JSON; null
+--                      means no promoted row (static registry only)
+--   source_before / source_after – source_proposal_id of that row
+--   batch_id, position – one export / revert / rollback call;
+--                      order within it
+--   reverts_id       – (revert) the promote row it undoes
+--   reverted_by      – (promote) the revert row that undid it
+--   snapshot_*       – knowledge_snapshots hash around the batch
+--   replay           – (revert) replay gate summary
+--
+-- Idempotency: uses IF NOT EXISTS, safe to re-run.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS promotion_ledger (
+  id               uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id         uuid        NOT NULL,
+  position         integer     NOT NULL DEFAULT 0,
+  action           text        NOT NULL CHECK (action IN ('promote', 'revert')),
+  registry_type    text        NOT NULL CHECK (registry_type IN ('drug', 'supplement', 'food')),
+  canonical_id     text        NOT NULL,
+  entity_before    jsonb,
+  entity_after     jsonb,
+  source_before    uuid,
+  source_after     uuid,
+  reverts_id       uuid,
+  reverted_by      uuid,
+  snapshot_before  text,
+  snapshot_after   text,
+  replay           jsonb,
+  created_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_ledger_created
+  ON promotion_ledger (created_at DESC, position DESC);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_ledger_entity
+  ON promotion_ledger (registry_type, canonical_id);
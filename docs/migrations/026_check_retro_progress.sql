@@ -0,0 +1,29 @@
+-- ============================================================
+-- Phase 45 – Retro-check progress
+-- Run after 025_promotion_ledger.sql
+--
+-- The retro-check job records how far it got on each check here
+-- instead of restamping checks.verdict.meta, so a stored verdict
+-- keeps the versions and knowledge snapshot that produced it.
+--
+--   checks.retro_checked_at       – last retro-check of the row
+--   checks.retro_checked_snapshot – knowledge snapshot hash it was
+--                                   compared against; the next run
+--                                   replays from this snapshot
+--   verdict_revisions.unattributed – no stored knowledge to replay
+--                                   the old verdict with: the stored
+--                                   verdict was compared with a
+--                                   current replay, so profile edits
+--                                   are included in the diff
+--
+-- Idempotency: uses IF NOT EXISTS, safe to re-run.
+-- ============================================================
+
+ALTER TABLE checks
+  ADD COLUMN IF NOT EXISTS retro_checked_at TIMESTAMPTZ;
+
+ALTER TABLE checks
+  ADD COLUMN IF NOT EXISTS retro_checked_snapshot TEXT;
+
+ALTER TABLE verdict_revisions
+  ADD COLUMN IF NOT EXISTS unattributed BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,40 @@
+/**
+ * In-process API handler calls for the phase evals.
+ *
+ * A minimal VercelRequest / VercelResponse pair: records the status (200
+ * unless the handler sets one) and the JSON payload. The payload is typed
+ * by the caller and not validated.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+export type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+export interface HandlerResponse<T> {
+  status: number;
+  body: T;
+}
+
+export async function callHandler<T = Record<string, unknown>>(
+  handler: Handler,
+  method: string,
+  query: Record<string, string> = {},
+  body?: Record<string, unknown>
+): Promise<HandlerResponse<T>> {
+  const result = { status: 200, body: {} as T };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload as T;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+  };
+  await handler({ method, query, body, headers: {} } as unknown as VercelRequest, res as unknown as VercelResponse);
+  return result;
+}
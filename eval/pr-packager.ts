@@ -360,10 +360,17 @@ async function main(): Promise<void> {
   let replayExitCode: number | undefined;
   if (opts.runReplay) {
     const replayCandidatePath = resolve(bundleDir, "replay-candidate-taxonomy.json");
+    // Phase 47: the proposed functional class registry is replayed too
+    const replayRegistryPath = resolve(bundleDir, "proposed-registry.json");
     const env = { ...process.env, STRICT: opts.strict ? "true" : "" };
     const result = spawnSync(
       "npx",
-      ["tsx", REPLAY_SCRIPT, `--candidateTaxonomy=${replayCandidatePath}`],
+      [
+        "tsx",
+        REPLAY_SCRIPT,
+        `--candidateTaxonomy=${replayCandidatePath}`,
+        `--candidateRegistry=${replayRegistryPath}`,
+      ],
       {
         cwd: process.cwd(),
         env,
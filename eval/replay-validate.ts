@@ -6,14 +6,20 @@
  * Compares baseline vs candidate knowledge over fixture scenarios.
  *
  * Usage:
- *   npm run replay:validate -- --baselineTaxonomy=path [--candidateTaxonomy=path] [--strict=true]
+ *   npm run replay:validate -- --baselineTaxonomy=path [--candidateTaxonomy=path]
+ *     [--baselineRegistry=path] [--candidateRegistry=path] [--strict=true]
  *
- * When paths omitted, uses eval/fixtures/replay/knowledge/*.json
+ * When taxonomy paths omitted, uses eval/fixtures/replay/knowledge/*.json;
+ * when registry paths omitted, uses the in-repo functional class registry.
+ *
+ * Phase 47 – Both sides run the production checkRisk with the taxonomy and
+ * functional class registry injected as a KnowledgeContext.
  */
 
 import { readFileSync, mkdirSync, writeFileSync } from "fs";
 import { resolve } from "path";
 import { loadAllergenTaxonomy } from "../api/_lib/knowledge/loadAllergenTaxonomy.js";
+import { loadFunctionalRegistry } from "../api/_lib/knowledge/loadFunctionalRegistry.js";
 import { checkRiskWithTaxonomy } from "../api/_lib/eval/replayCheckRisk.js";
 import {
   normalizeVerdict,
@@ -32,6 +38,8 @@ const DEFAULT_OUT = resolve(process.cwd(), "eval/out");
 function parseArgs(): {
   baselineTaxonomy: string;
   candidateTaxonomy: string;
+  baselineRegistry?: string;
+  candidateRegistry?: string;
   scenariosPath: string;
   allowlistPath: string;
   outPath: string;
@@ -40,6 +48,8 @@ function parseArgs(): {
   const args = process.argv.slice(2);
   let baselineTaxonomy = resolve(DEFAULT_FIXTURES, "knowledge/baseline-taxonomy.json");
   let candidateTaxonomy = resolve(DEFAULT_FIXTURES, "knowledge/candidate-taxonomy.json");
+  let baselineRegistry: string | undefined;
+  let candidateRegistry: string | undefined;
   let scenariosPath = resolve(DEFAULT_FIXTURES, "scenarios.json");
   let allowlistPath = resolve(DEFAULT_FIXTURES, "allowlist.json");
   let outPath = DEFAULT_OUT;
@@ -51,9 +61,9 @@ function parseArgs(): {
     } else if (arg.startsWith("--candidateTaxonomy=")) {
       candidateTaxonomy = resolve(process.cwd(), arg.slice(20));
     } else if (arg.startsWith("--baselineRegistry=")) {
-      /* registry not used in checkRisk; ignore */
+      baselineRegistry = resolve(process.cwd(), arg.slice(19));
     } else if (arg.startsWith("--candidateRegistry=")) {
-      /* registry not used in checkRisk; ignore */
+      candidateRegistry = resolve(process.cwd(), arg.slice(20));
     } else if (arg.startsWith("--scenarios=")) {
       scenariosPath = resolve(process.cwd(), arg.slice(12));
     } else if (arg.startsWith("--allowlist=")) {
@@ -68,6 +78,8 @@ function parseArgs(): {
   return {
     baselineTaxonomy,
     candidateTaxonomy,
+    baselineRegistry,
+    candidateRegistry,
     scenariosPath,
     allowlistPath,
     outPath,
@@ -134,6 +146,8 @@ function main(): void {
 
   const baselineKnowledge = loadAllergenTaxonomy(opts.baselineTaxonomy);
   const candidateKnowledge = loadAllergenTaxonomy(opts.candidateTaxonomy);
+  const baselineRegistry = loadFunctionalRegistry(opts.baselineRegistry);
+  const candidateRegistry = loadFunctionalRegistry(opts.candidateRegistry);
   const scenarios = loadScenarios(opts.scenariosPath);
   const allowlist = loadAllowlist(opts.allowlistPath);
 
@@ -144,8 +158,12 @@ function main(): void {
     const profile = normalizeProfile(scenario);
     const events = normalizeScenarioToEvents(scenario);
 
-    const baselineVerdict = checkRiskWithTaxonomy(profile, events, baselineKnowledge);
-    const candidateVerdict = checkRiskWithTaxonomy(profile, events, candidateKnowledge);
+    const baselineVerdict = checkRiskWithTaxonomy(profile, events, baselineKnowledge, {
+      functionalClasses: baselineRegistry,
+    });
+    const candidateVerdict = checkRiskWithTaxonomy(profile, events, candidateKnowledge, {
+      functionalClasses: candidateRegistry,
+    });
 
     const baselineNorm = normalizeVerdict(
       baselineVerdict,
@@ -73,7 +73,7 @@ function runTests(): void {
 
     const advice = report.output.advice;
     assert.ok(advice, "advice block must exist");
-    assert.strictEqual(advice.version, "14a.1");
+    assert.strictEqual(advice.version, "14a.2");
     assert.strictEqual(advice.items.length, 1);
     assert.strictEqual(advice.items[0].id, "term:mango");
     assert.strictEqual(advice.items[0].title, "Mango (Cross-Reactive with Latex/Tree Nut)");
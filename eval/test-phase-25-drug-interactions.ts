@@ -0,0 +1,131 @@
+/**
+ * Phase 25 – Drug–Drug Interaction Registry
+ *
+ * Asserts:
+ * - registry is versioned and ids are unique
+ * - pre-25 INTERACTION_MAP pairs keep their verdicts (medium); NSAID / aspirin +
+ *   warfarin are high since 25.2
+ * - class-level entries resolve through drugs.registry.ts classes (brands included)
+ * - matched details carry severity, mechanism, evidence
+ * - replay harness uses the same registry (no drift)
+ *
+ * Run: npm run test:phase-25
+ */
+
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import { checkRiskWithTaxonomy } from "../api/_lib/eval/replayCheckRisk.js";
+import { loadAllergenTaxonomy } from "../api/_lib/knowledge/loadAllergenTaxonomy.js";
+import {
+  DRUG_INTERACTIONS,
+  INTERACTION_REGISTRY_VERSION,
+} from "../api/_lib/knowledge/interactions.registry.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+import {
+  findDrugInteraction,
+  toInteractionSubject,
+} from "../api/_lib/inference/drugInteractions.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+function medVerdict(extracted: string, current: string) {
+  return checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: current }] },
+    events: [{ type: "medication", fields: { medication: extracted } }],
+  });
+}
+
+console.log("\nTest 1: registry versioning");
+{
+  assert(INTERACTION_REGISTRY_VERSION === REGISTRY_VERSIONS.interaction, "version comes from REGISTRY_VERSIONS");
+  const ids = DRUG_INTERACTIONS.map((r) => r.id);
+  assert(new Set(ids).size === ids.length, "interaction ids are unique");
+  assert(
+    DRUG_INTERACTIONS.every((r) => r.mechanism && r.reason && r.evidence),
+    "every rule has mechanism, reason, evidence"
+  );
+}
+
+console.log("\nTest 2: pre-25 pairs unchanged");
+{
+  const pairs: [string, string, string][] = [
+    ["ibuprofen", "aspirin", "medium"],
+    ["aspirin", "ibuprofen", "medium"],
+    ["ibuprofen", "warfarin", "high"],
+    ["warfarin", "aspirin", "high"],
+    ["naproxen", "ibuprofen", "medium"],
+  ];
+  for (const [a, b, risk] of pairs) {
+    const v = medVerdict(a, b);
+    assert(v.riskLevel === risk, `${a} + ${b} → ${risk}`);
+  }
+  assert(medVerdict("metformin", "lisinopril").riskLevel === "none", "pair not in registry → none");
+}
+
+console.log("\nTest 3: class-level rules");
+{
+  const v = medVerdict("tramadol", "Zoloft");
+  assert(v.riskLevel === "high", "tramadol + Zoloft (ssri class) → high");
+  const m = v.matched?.find((x) => x.rule === "medication_interaction");
+  assert(m?.details.interactionId === "ddi:ssri+tramadol", "interactionId recorded");
+  assert(m?.details.evidence === "established", "evidence recorded");
+  assert(typeof m?.details.mechanism === "string", "mechanism recorded");
+  assert(v.reasoning.includes("serotonin syndrome"), "reasoning includes registry reason");
+
+  assert(medVerdict("Biaxin", "simvastatin").riskLevel === "high", "Biaxin (macrolide) + simvastatin → high");
+  assert(medVerdict("clarithromycin", "Lipitor").riskLevel === "medium", "clarithromycin + Lipitor → medium");
+  assert(medVerdict("Xanax", "tramadol").riskLevel === "high", "Xanax (benzodiazepine) + tramadol (opioid) → high");
+  assert(medVerdict("azithromycin", "simvastatin").riskLevel === "none", "azithromycin is not a macrolide-class entry → none");
+}
+
+console.log("\nTest 4: lookup is symmetric and skips self-pairs");
+{
+  const a = toInteractionSubject("Lexapro");
+  const b = toInteractionSubject("ultram");
+  assert(a.class === "ssri", "Lexapro resolves to ssri class");
+  assert(findDrugInteraction(a, b)?.id === findDrugInteraction(b, a)?.id, "symmetric lookup");
+  assert(findDrugInteraction(a, a) === null, "same drug does not interact with itself");
+  assert(toInteractionSubject("Tramadol (50mg)").canonicalId === "tramadol", "dosage in parens stripped");
+}
+
+console.log("\nTest 5: highest severity wins across current medications");
+{
+  const v = checkRisk({
+    profile: {
+      known_allergies: [],
+      current_medications: [{ name: "ibuprofen" }, { name: "tramadol" }],
+    },
+    events: [{ type: "medication", fields: { medication: "sertraline" } }],
+  });
+  const m = v.matched?.find((x) => x.rule === "medication_interaction");
+  assert(v.riskLevel === "high", "riskLevel high");
+  assert(m?.details.conflictsWith === "tramadol", "high-severity conflict selected over earlier medium");
+}
+
+console.log("\nTest 6: replay harness parity for medication rules");
+{
+  const knowledge = loadAllergenTaxonomy();
+  const profile = { known_allergies: [], current_medications: [{ name: "sertraline" }] };
+  const events = [{ type: "medication", fields: { medication: "tramadol" } }];
+  const prod = checkRisk({ profile, events });
+  const replay = checkRiskWithTaxonomy(profile, events, knowledge);
+  assert(replay.riskLevel === prod.riskLevel, "same riskLevel");
+  assert(replay.reasoning === prod.reasoning, "same reasoning");
+  assert(
+    JSON.stringify(replay.matched) === JSON.stringify(prod.matched),
+    "same matched details"
+  );
+}
+
+console.log(`\n=== Phase 25 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
@@ -0,0 +1,118 @@
+/**
+ * Phase 26 – Class-level Interaction Rules (functional classes)
+ *
+ * Asserts:
+ * - any nsaid + any anticoagulant → high via FUNCTIONAL_CLASS_INTERACTIONS
+ * - brand names in FUNCTIONAL_CLASS_REGISTRY participate without extra rules
+ * - specific DRUG_INTERACTIONS pairs take precedence (ibuprofen + aspirin stays medium)
+ *   without grading below the class rule (ibuprofen / aspirin + warfarin → high)
+ * - herbal hints never trigger class rules
+ * - reasoning names both drugs and the class rule; ruleCode AA-RULE-FC-001
+ * - replay harness parity
+ *
+ * Run: npm run test:phase-26
+ */
+
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import { checkRiskWithTaxonomy } from "../api/_lib/eval/replayCheckRisk.js";
+import { loadAllergenTaxonomy } from "../api/_lib/knowledge/loadAllergenTaxonomy.js";
+import {
+  FUNCTIONAL_CLASS_INTERACTIONS,
+  findFunctionalClassInteraction,
+  matchInteractionClasses,
+} from "../api/_lib/inference/functionalClasses.js";
+import { RULE_FUNCTIONAL_CLASS_INTERACTION, ruleCodeFor } from "../api/_lib/inference/ruleCodes.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+function medVerdict(extracted: string, current: string) {
+  return checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: current }] },
+    events: [{ type: "medication", fields: { medication: extracted } }],
+  });
+}
+
+function classMatch(v: ReturnType<typeof checkRisk>) {
+  return v.matched?.find((m) => m.rule === "functional_class_interaction");
+}
+
+console.log("\nTest 1: registry shape and rule code");
+{
+  const ids = FUNCTIONAL_CLASS_INTERACTIONS.map((r) => r.id);
+  assert(new Set(ids).size === ids.length, "class rule ids are unique");
+  assert(ruleCodeFor("functional_class_interaction") === RULE_FUNCTIONAL_CLASS_INTERACTION, "ruleCodeFor maps new rule");
+  assert(RULE_FUNCTIONAL_CLASS_INTERACTION === "AA-RULE-FC-001", "rule code is AA-RULE-FC-001");
+  const hit = findFunctionalClassInteraction(["anticoagulants"], ["nsaids"]);
+  assert(hit?.rule.id === "fci:nsaids+anticoagulants", "lookup is symmetric");
+  assert(hit?.classA === "anticoagulants" && hit?.classB === "nsaids", "classA/classB follow argument order");
+}
+
+console.log("\nTest 2: nsaid + anticoagulant → high");
+{
+  const v = medVerdict("Advil", "Eliquis");
+  const m = classMatch(v);
+  assert(v.riskLevel === "high", "Advil + Eliquis → high");
+  assert(m?.ruleCode === RULE_FUNCTIONAL_CLASS_INTERACTION, "ruleCode recorded");
+  assert(m?.details.classRuleId === "fci:nsaids+anticoagulants", "classRuleId recorded");
+  assert(m?.details.extractedClass === "nsaids", "extractedClass recorded");
+  assert(m?.details.conflictsWithClass === "anticoagulants", "conflictsWithClass recorded");
+  assert(v.reasoning.includes("Advil") && v.reasoning.includes("Eliquis"), "reasoning names both drugs");
+  assert(v.reasoning.includes('class rule "NSAID + Anticoagulant / Blood Thinner"'), "reasoning names class rule");
+
+  assert(medVerdict("xarelto", "meloxicam").riskLevel === "high", "xarelto + meloxicam → high");
+  assert(medVerdict("Celebrex (200mg)", "plavix").riskLevel === "high", "dosage in parens stripped");
+}
+
+console.log("\nTest 3: duplicate anticoagulants → high");
+{
+  const v = medVerdict("eliquis", "xarelto");
+  assert(v.riskLevel === "high", "eliquis + xarelto → high");
+  assert(classMatch(v)?.details.classRuleId === "fci:anticoagulants+anticoagulants", "duplicate class rule");
+  assert(classMatch(medVerdict("warfarin", "Coumadin")) === undefined, "brand of same drug is not a duplicate");
+}
+
+console.log("\nTest 4: specific pair rules take precedence");
+{
+  const v = medVerdict("ibuprofen", "aspirin");
+  assert(v.riskLevel === "medium", "ibuprofen + aspirin stays medium");
+  assert(classMatch(v) === undefined, "no class match when pair rule exists");
+  const ibuprofen = medVerdict("warfarin", "ibuprofen");
+  assert(classMatch(ibuprofen) === undefined, "warfarin + ibuprofen uses pair rule");
+  assert(ibuprofen.riskLevel === "high", "warfarin + ibuprofen → high, same as the class rule");
+  assert(medVerdict("warfarin", "aspirin").riskLevel === "high", "warfarin + aspirin → high");
+  assert(medVerdict("warfarin", "Excedrin").riskLevel === "high", "warfarin + Excedrin (aspirin) → high");
+  assert(medVerdict("warfarin", "Advil PM").riskLevel === "high", "warfarin + Advil PM (ibuprofen) → high");
+}
+
+console.log("\nTest 5: herbal hints excluded; unrelated classes ignored");
+{
+  assert(matchInteractionClasses("ashwagandha").length === 0, "ashwagandha has no interaction classes");
+  assert(medVerdict("ibuprofen", "ashwagandha").riskLevel === "none", "ibuprofen + ashwagandha → none");
+  assert(medVerdict("omeprazole", "ibuprofen").riskLevel === "none", "ppi + nsaid → none (no class rule)");
+}
+
+console.log("\nTest 6: replay harness parity");
+{
+  const knowledge = loadAllergenTaxonomy();
+  const profile = { known_allergies: [], current_medications: [{ name: "Eliquis" }] };
+  const events = [{ type: "medication", fields: { medication: "naproxen" } }];
+  const prod = checkRisk({ profile, events });
+  const replay = checkRiskWithTaxonomy(profile, events, knowledge);
+  assert(replay.riskLevel === prod.riskLevel, "same riskLevel");
+  assert(replay.reasoning === prod.reasoning, "same reasoning");
+  assert(JSON.stringify(replay.matched) === JSON.stringify(prod.matched), "same matched details");
+}
+
+console.log(`\n=== Phase 26 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
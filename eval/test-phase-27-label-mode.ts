@@ -0,0 +1,108 @@
+/**
+ * Phase 27 – Label extraction mode
+ *
+ * Asserts:
+ * - ingredients / Contains: / precautionary statements are recognised; only
+ *   food labels (no Supplement / Drug Facts panel) are auto-detected
+ * - nested ingredients stay with their parent; "2% or less of:" is stripped
+ * - events conform to health-event.schema.json and carry labelSection / labelLine
+ * - checkRisk: ingredient or Contains match → high, precautionary match → medium
+ * - reasoning names the label line that triggered the verdict
+ *
+ * Run: npm run test:phase-27
+ */
+
+import Ajv from "ajv";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  extractFromLabel,
+  looksLikeFoodLabel,
+  looksLikeLabel,
+  parseLabelText,
+} from "../api/_lib/extractFromLabel.js";
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const SNACK_LABEL = `INGREDIENTS: Enriched flour (wheat flour, niacin, reduced iron), sugar, cocoa, contains 2% or less of: whey, soy lecithin, salt.
+CONTAINS: WHEAT, MILK AND SOY.
+May contain peanuts and tree nuts. Processed in a facility that also processes eggs.`;
+
+function verdictFor(allergies: string[], text = SNACK_LABEL) {
+  return checkRisk({
+    profile: { known_allergies: allergies, current_medications: [] },
+    events: extractFromLabel(text).events,
+  });
+}
+
+console.log("\nTest 1: label detection");
+{
+  assert(looksLikeLabel(SNACK_LABEL), "snack label detected");
+  assert(looksLikeLabel("Contains: milk"), "bare Contains: statement detected");
+  assert(!looksLikeLabel("I had a peanut butter sandwich for lunch"), "diary text not a label");
+  assert(!looksLikeLabel("peanuts, salt, sugar"), "bare list without a statement marker not a label");
+  assert(looksLikeFoodLabel(SNACK_LABEL), "snack label is a food label");
+  const fishOil = "Fish Oil 1200 mg\nSupplement Facts\nServing Size 1 Softgel\nOther Ingredients: gelatin, glycerin.\nContains: fish (anchovy).";
+  assert(looksLikeLabel(fishOil) && !looksLikeFoodLabel(fishOil), "Supplement Facts label not auto-detected as food");
+}
+
+console.log("\nTest 2: parsing sections");
+{
+  const { items } = parseLabelText(SNACK_LABEL);
+  const bySection = (s: string) => items.filter((i) => i.section === s).map((i) => i.name.toLowerCase());
+  assert(bySection("ingredients").includes("enriched flour (wheat flour, niacin, reduced iron)"), "nested ingredients kept with parent");
+  assert(bySection("ingredients").includes("whey"), "2% or less of: prefix stripped");
+  assert(!bySection("ingredients").some((n) => n.includes("contains")), "Contains: not part of ingredients");
+  assert(JSON.stringify(bySection("contains")) === JSON.stringify(["wheat", "milk", "soy"]), "Contains: split on commas and 'and'");
+  assert(JSON.stringify(bySection("precautionary")) === JSON.stringify(["peanuts", "tree nuts", "eggs"]), "may contain + facility lines");
+  const eggs = items.find((i) => i.name === "eggs");
+  assert(eggs?.line === "Processed in a facility that also processes eggs.", "item keeps its label line");
+  assert(SNACK_LABEL.slice(eggs!.startChar, eggs!.endChar) === "eggs", "char offsets point at item");
+}
+
+console.log("\nTest 3: events conform to schema");
+{
+  const schema = JSON.parse(
+    fs.readFileSync(path.join(process.cwd(), "docs/contracts/health-event.schema.json"), "utf-8")
+  );
+  const validate = new Ajv({ allErrors: true, allowUnionTypes: true }).compile(schema);
+  const { events, warnings } = extractFromLabel(SNACK_LABEL);
+  assert(events.length > 0 && events.every((e) => validate(e)), "all events valid");
+  assert(events.every((e) => e.type === "meal" && e.fields.labelLine), "meal events with labelLine");
+  assert(warnings.length === 0, "no warnings when ingredients present");
+  assert(extractFromLabel("May contain peanuts.").warnings.length === 1, "warning when only allergen statements");
+}
+
+console.log("\nTest 4: checkRisk grading");
+{
+  const milk = verdictFor(["milk"]);
+  assert(milk.riskLevel === "high", "milk allergy + Contains: milk → high");
+  assert(milk.reasoning.includes('(label: "CONTAINS: WHEAT, MILK AND SOY.")'), "reasoning names Contains line");
+
+  const peanut = verdictFor(["peanut"]);
+  assert(peanut.riskLevel === "medium", "peanut allergy + may contain peanuts → medium");
+  const m = peanut.matched?.find((x) => x.rule === "precautionary_allergen");
+  assert(m?.details.labelSection === "precautionary", "precautionary match recorded");
+  assert(peanut.reasoning.includes("May contain peanuts and tree nuts."), "reasoning names precautionary line");
+
+  assert(verdictFor(["sesame"]).riskLevel === "none", "allergen not on label → none");
+  assert(
+    verdictFor(["peanut"], "Ingredients: peanuts, salt. May contain tree nuts.").riskLevel === "high",
+    "direct ingredient beats precautionary"
+  );
+}
+
+console.log(`\n=== Phase 27 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
@@ -0,0 +1,102 @@
+/**
+ * Phase 28 – Precautionary "may contain" verdict tier
+ *
+ * Asserts:
+ * - precautionary label match → precautionary_allergen (AA-RULE-PC-001), medium
+ * - severity lowered by PRECAUTIONARY_SEVERITY_MODIFIER; meta.precautionary set
+ * - escalate_precautionary profile preference → high at full severity
+ * - report: precautionary flag, rule advice first, allergen advice kept
+ * - explanation: "precautionary" rule type
+ *
+ * Run: npm run test:phase-28
+ */
+
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import { extractFromLabel } from "../api/_lib/extractFromLabel.js";
+import {
+  getAllergenSeverity,
+  PRECAUTIONARY_SEVERITY_MODIFIER,
+} from "../api/_lib/inference/allergenTaxonomy.js";
+import { RULE_PRECAUTIONARY_ALLERGEN, ruleCodeFor } from "../api/_lib/inference/ruleCodes.js";
+import { buildCheckReport } from "../api/_lib/report/buildCheckReport.js";
+import { buildExplanationFromCheck } from "../src/lib/buildExplanation.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const LABEL = "Ingredients: oats, sugar, salt.\nMay contain peanuts.";
+
+function verdictFor(escalate?: boolean) {
+  return checkRisk({
+    profile: {
+      known_allergies: ["peanut"],
+      current_medications: [],
+      ...(escalate !== undefined ? { escalate_precautionary: escalate } : {}),
+    },
+    events: extractFromLabel(LABEL).events,
+  });
+}
+
+console.log("\nTest 1: default tier");
+{
+  const v = verdictFor();
+  const m = v.matched?.find((x) => x.rule === "precautionary_allergen");
+  const expected = getAllergenSeverity("peanut") + PRECAUTIONARY_SEVERITY_MODIFIER;
+  assert(v.riskLevel === "medium", "may contain peanuts → medium");
+  assert(m?.ruleCode === RULE_PRECAUTIONARY_ALLERGEN, "ruleCode AA-RULE-PC-001");
+  assert(ruleCodeFor("precautionary_allergen") === RULE_PRECAUTIONARY_ALLERGEN, "ruleCodeFor maps rule");
+  assert(m?.details.severity === expected, `severity ${expected} (modifier applied)`);
+  assert(m?.details.escalated === false, "not escalated");
+  assert(v.meta?.precautionary === true && v.meta?.severity === expected, "meta.precautionary + severity");
+  assert(!v.matched?.some((x) => x.rule === "allergy_match"), "no direct allergy_match");
+  assert(v.reasoning.includes("precautionary"), "reasoning mentions precautionary");
+}
+
+console.log("\nTest 2: escalate_precautionary preference");
+{
+  assert(verdictFor(false).riskLevel === "medium", "explicit false → medium");
+  const v = verdictFor(true);
+  const m = v.matched?.find((x) => x.rule === "precautionary_allergen");
+  assert(v.riskLevel === "high", "escalated → high");
+  assert(m?.details.severity === getAllergenSeverity("peanut"), "escalated → full severity");
+  assert(m?.details.escalated === true, "details.escalated");
+  assert(v.reasoning.includes("escalated to high by profile preference"), "reasoning explains escalation");
+}
+
+console.log("\nTest 3: report + advice");
+{
+  const v = verdictFor();
+  const report = buildCheckReport({
+    check: { id: "c1", profile_id: "p1", created_at: "2025-01-15T12:00:00.000Z", raw_text: LABEL, verdict: v },
+    events: [],
+    generatedAt: "2025-01-15T12:00:00.000Z",
+  });
+  const entry = report.output.verdict.matched.find((x) => x.kind === "precautionary_allergen");
+  assert(entry?.precautionary === true, "report entry flagged precautionary");
+  assert(entry?.matchedTerm === "peanut", "report matchedTerm is allergen");
+  const ids = report.output.advice?.items.map((a) => a.id) ?? [];
+  assert(ids[0] === "rule:precautionary_allergen", "precautionary advice first");
+  assert(ids.includes("parent:peanut"), "peanut advice kept");
+}
+
+console.log("\nTest 4: explanation");
+{
+  const explanation = buildExplanationFromCheck({ verdict: verdictFor() }, "test");
+  const entry = explanation.entries.find((e) => e.ruleType === "precautionary");
+  assert(entry !== undefined, "precautionary explanation entry");
+  assert(entry?.ruleCode === RULE_PRECAUTIONARY_ALLERGEN, "entry carries rule code");
+  assert(entry?.labelLine === "May contain peanuts.", "entry carries label line");
+}
+
+console.log(`\n=== Phase 28 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
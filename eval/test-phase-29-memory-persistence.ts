@@ -0,0 +1,175 @@
+/**
+ * Phase 29 – Offline persistence adapter (PERSISTENCE_ADAPTER=memory)
+ *
+ * Asserts:
+ * - migration schema parsed: tables, column defaults, unique keys, ON DELETE
+ * - seeded default profile (002 / 006)
+ * - query builder semantics: filters, order, range, single, count/head,
+ *   upsert onConflict, Postgres error codes for drift
+ * - check → history → vigilance → insights loop runs with no network
+ *
+ * Run: npm run test:phase-29
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import {
+  getPersistenceAdapter,
+  getSupabaseClient,
+  resetSupabaseClient,
+} from "../api/_lib/supabaseClient.js";
+import { loadMigrationSchema } from "../api/_lib/persistence/migrationSchema.js";
+import { createMemoryClient } from "../api/_lib/persistence/memoryClient.js";
+import { saveExtractionRun } from "../api/_lib/persistence/saveExtractionRun.js";
+import { getProfiles } from "../api/_lib/profiles/getProfiles.js";
+import { fetchVigilance } from "../api/_lib/vigilance/computeVigilance.js";
+import historyListHandler from "../api/_lib/core/_historyListHandler.js";
+import historyDetailHandler from "../api/_lib/core/_historyDetailHandler.js";
+import insightsFeedHandler from "../api/_lib/core/_insightsFeedHandler.js";
+import { callHandler, type Handler } from "./callHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+/** Fields of the history / insights responses this test reads. */
+interface HandlerBody {
+  checks: { id: string; verdict?: { riskLevel?: string } }[];
+  events: { event_data: Record<string, unknown> }[];
+  analyzedChecks: number;
+}
+
+function invoke(handler: Handler, query: Record<string, string>) {
+  return callHandler<HandlerBody>(handler, "GET", query);
+}
+
+async function main() {
+  console.log("\nTest 1: migration schema");
+  {
+    const schema = loadMigrationSchema();
+    const profiles = schema.get("profiles");
+    assert(["checks", "health_events", "research_cache", "ingestion_candidates"].every((t) => schema.has(t)), "tables from all migrations");
+    assert(profiles?.columns.get("escalate_precautionary")?.defaultExpr === "false", "ALTER TABLE ADD COLUMN default (016)");
+    assert(profiles?.columns.get("known_allergies")?.type === "text[]", "array column type");
+    assert(
+      JSON.stringify(schema.get("insight_feedback")?.uniques).includes('["profile_id","insight_fingerprint"]'),
+      "unique index recorded"
+    );
+    const fk = schema.get("health_events")?.foreignKeys.find((f) => f.column === "check_id");
+    assert(fk?.refTable === "checks" && fk?.onDelete === "cascade", "ON DELETE CASCADE recorded");
+  }
+
+  console.log("\nTest 2: adapter selection + seed");
+  {
+    assert(getPersistenceAdapter() === "memory", "PERSISTENCE_ADAPTER=memory selected");
+    const profiles = await getProfiles();
+    assert(profiles.length === 1 && profiles[0].id === PROFILE_ID, "default profile seeded");
+    assert(profiles[0].is_primary === true, "seeded profile is primary");
+    assert(profiles[0].escalate_precautionary === false, "column defaults applied");
+  }
+
+  console.log("\nTest 3: query builder semantics");
+  {
+    const client = createMemoryClient({ seed: false });
+    const ins = await client
+      .from("checks")
+      .insert([
+        { profile_id: "p1", raw_text: "a", created_at: "2025-01-01T00:00:00.000Z" },
+        { profile_id: "p1", raw_text: "b", created_at: "2025-01-02T00:00:00.000Z" },
+        { profile_id: "p2", raw_text: "c", created_at: "2025-01-03T00:00:00.000Z" },
+      ])
+      .select("id, follow_up_questions");
+    const rows = ins.data as { id: string; follow_up_questions: unknown }[];
+    assert(rows.length === 3 && typeof rows[0].id === "string", "insert returns generated ids");
+    assert(Array.isArray(rows[0].follow_up_questions), "jsonb '[]' default");
+
+    const page = await client
+      .from("checks")
+      .select("raw_text")
+      .eq("profile_id", "p1")
+      .order("created_at", { ascending: false })
+      .range(0, 0);
+    assert(JSON.stringify(page.data) === '[{"raw_text":"b"}]', "eq + order + range");
+
+    const counted = await client.from("checks").select("*", { count: "exact", head: true }).gte("created_at", "2025-01-02");
+    assert(counted.count === 2 && counted.data === null, "count with head");
+
+    const none = await client.from("checks").select("id").eq("raw_text", "zzz").single();
+    assert(none.error?.code === "PGRST116", "single() with no rows → PGRST116");
+    const maybe = await client.from("checks").select("id").eq("raw_text", "zzz").maybeSingle();
+    assert(maybe.error === null && maybe.data === null, "maybeSingle() with no rows → null");
+
+    await client.from("insight_feedback").upsert({ profile_id: "p1", insight_fingerprint: "f", vote: "relevant" }, { onConflict: "profile_id,insight_fingerprint" });
+    await client.from("insight_feedback").upsert({ profile_id: "p1", insight_fingerprint: "f", vote: "unsure" }, { onConflict: "profile_id,insight_fingerprint" });
+    const votes = await client.from("insight_feedback").select("vote");
+    assert(JSON.stringify(votes.data) === '[{"vote":"unsure"}]', "upsert onConflict replaces row");
+
+    const dup = await client.from("research_cache").insert([
+      { research_key: "k", research_type: "entity", normalized_input: {}, result: {} },
+      { research_key: "k", research_type: "entity", normalized_input: {}, result: {} },
+    ]);
+    assert(dup.error?.code === "23505", "unique violation → 23505");
+    assert((await client.from("nope").select("*")).error?.code === "42P01", "unknown table → 42P01");
+    assert((await client.from("checks").select("nope")).error?.code === "42703", "unknown column → 42703");
+    assert((await client.from("checks").insert({ profile_id: "p1" })).error?.code === "23502", "NOT NULL → 23502");
+
+    const checkId = rows[0].id;
+    await client.from("health_events").insert({ profile_id: "p1", check_id: checkId, event_type: "meal" });
+    await client.from("checks").delete().eq("id", checkId);
+    const orphans = await client.from("health_events").select("id").eq("check_id", checkId);
+    assert((orphans.data as unknown[]).length === 0, "ON DELETE CASCADE removes events");
+  }
+
+  console.log("\nTest 4: check → history → vigilance → insights (offline)");
+  {
+    resetSupabaseClient();
+    await saveExtractionRun({
+      profileId: PROFILE_ID,
+      rawText: "had a peanut butter cookie",
+      result: {
+        events: [{ type: "meal", fields: { meal: "peanut butter cookie", carbs: null }, confidence: 0.9 }],
+        followUpQuestions: [],
+        warnings: [],
+      },
+    });
+
+    const list = await invoke(historyListHandler, { profileId: PROFILE_ID });
+    assert(list.status === 200 && list.body.checks.length === 1, "history list returns saved check");
+    const check = list.body.checks[0];
+    assert(check.verdict?.riskLevel === "high", "verdict persisted (peanut allergy → high)");
+
+    const detail = await invoke(historyDetailHandler, { id: check.id, profileId: PROFILE_ID });
+    assert(detail.status === 200 && detail.body.events.length === 1, "history detail returns events");
+    assert(detail.body.events[0].event_data.meal === "peanut butter cookie", "event_data persisted");
+
+    const vigilance = await fetchVigilance(PROFILE_ID, 12);
+    assert(vigilance.vigilanceActive && vigilance.trigger?.checkId === check.id, "vigilance active from saved check");
+
+    const feed = await invoke(insightsFeedHandler, { profileId: PROFILE_ID });
+    assert(feed.status === 200 && feed.body.analyzedChecks === 1, "insights feed analyzes saved check");
+
+    const other = getSupabaseClient();
+    resetSupabaseClient();
+    assert(getSupabaseClient() !== other, "resetSupabaseClient gives a fresh store");
+  }
+
+  console.log(`\n=== Phase 29 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,128 @@
+/**
+ * Phase 30 – Household compare
+ *
+ * Asserts:
+ * - compareHousehold: one verdict per profile, household order preserved
+ * - summary: safeForEveryone, highestRisk, flagged (highest risk first)
+ * - per-profile advice comes from the report advice block
+ * - POST /api/extract household=true returns the matrix and persists nothing
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-30
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { compareHousehold, type HouseholdComparison } from "../api/_lib/household/compareHousehold.js";
+import { extractFromLabel } from "../api/_lib/extractFromLabel.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import extractHandler from "../api/extract.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+function profile(id: string, name: string, allergies: string[], meds: string[] = [], isPrimary = false) {
+  return {
+    id,
+    display_name: name,
+    is_primary: isPrimary,
+    known_allergies: allergies,
+    current_medications: meds.map((m) => ({ name: m })),
+  };
+}
+
+const HOUSEHOLD = [
+  profile("p-amber", "Amber", ["peanut"], [], true),
+  profile("p-ben", "Ben", ["milk"]),
+  profile("p-cara", "Cara", []),
+];
+
+const LABEL = "Ingredients: oats, sugar, milk powder.\nMay contain peanuts.";
+
+async function main() {
+  console.log("\nTest 1: per-profile verdicts");
+  {
+    const { profiles, summary } = compareHousehold({ profiles: HOUSEHOLD, events: extractFromLabel(LABEL).events });
+    assert(profiles.map((p) => p.profileId).join(",") === "p-amber,p-ben,p-cara", "household order preserved");
+    assert(profiles[0].riskLevel === "medium", "Amber (peanut) + may contain peanuts → medium");
+    assert(profiles[1].riskLevel === "high", "Ben (milk) + milk powder → high");
+    assert(profiles[2].riskLevel === "none" && profiles[2].matched.length === 0, "Cara → none");
+    assert(profiles[0].isPrimary && !profiles[1].isPrimary, "isPrimary carried");
+    assert(profiles[1].matched.some((m) => m.kind === "allergy_match" && m.ruleCode !== null), "matched rules normalized with rule codes");
+    assert(profiles[0].advice[0]?.id === "rule:precautionary_allergen", "advice from report advice block");
+    assert(profiles[2].advice.length === 0, "no advice when safe");
+
+    assert(!summary.safeForEveryone, "not safe for everyone");
+    assert(summary.highestRisk === "high", "highestRisk high");
+    assert(summary.flagged.map((f) => f.displayName).join(",") === "Ben,Amber", "flagged highest risk first");
+    assert(summary.profileCount === 3, "profileCount");
+  }
+
+  console.log("\nTest 2: safe for everyone");
+  {
+    const safe = compareHousehold({ profiles: HOUSEHOLD, events: extractFromLabel("Ingredients: oats, sugar.").events });
+    assert(safe.summary.safeForEveryone && safe.summary.highestRisk === "none", "no matches → safe for everyone");
+    assert(!compareHousehold({ profiles: [], events: [] }).summary.safeForEveryone, "no profiles → not safe for everyone");
+  }
+
+  console.log("\nTest 3: medication profiles");
+  {
+    const v = compareHousehold({
+      profiles: [profile("p1", "Dad", [], ["warfarin"]), profile("p2", "Kid", [])],
+      events: [{ type: "medication", fields: { medication: "ibuprofen" } }],
+    });
+    assert(v.profiles[0].riskLevel === "high" && v.profiles[1].riskLevel === "none", "interaction only for profile on warfarin");
+  }
+
+  console.log("\nTest 4: POST /api/extract household=true");
+  {
+    const supabase = getSupabaseClient();
+    await supabase.from("profiles").insert({ display_name: "Ben", known_allergies: ["milk"] });
+
+    let status = 0;
+    let body = {} as { household?: HouseholdComparison; events?: unknown[] };
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(payload: unknown) {
+        body = payload as typeof body;
+        return res;
+      },
+    };
+    await extractHandler(
+      { method: "POST", query: {}, body: { rawText: LABEL, mode: "label", household: true } } as unknown as VercelRequest,
+      res as unknown as VercelResponse
+    );
+
+    assert(status === 200, "200 OK");
+    assert((body.events?.length ?? 0) > 0, "extraction result included");
+    assert(body.household?.profiles.length === 2, "verdict for every stored profile");
+    assert(body.household?.profiles[0].displayName === "Amber", "primary profile first");
+    assert(body.household?.summary.flagged.length === 2, "both profiles flagged");
+
+    const { count } = await supabase.from("checks").select("*", { count: "exact", head: true });
+    assert(count === 0, "household compare persists no checks");
+  }
+
+  console.log(`\n=== Phase 30 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Phase 31 – Dry-run check (no persistence)
+ *
+ * Asserts:
+ * - POST /api/extract dryRun=true returns verdict + report (buildCheckReport shape)
+ * - report carries advice and resolution metadata
+ * - no checks, health_events or Knowledge Radar rows are written
+ * - the same input without dryRun does persist (control)
+ * - dryRun without a profile → 400, with an unknown profile → 404
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-31
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+delete process.env.DEFAULT_PROFILE_ID;
+
+import type { CheckReport } from "../api/_lib/report/buildCheckReport.js";
+import type { Verdict } from "../api/_lib/inference/checkRisk.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import extractHandler from "../api/extract.js";
+import { callHandler } from "./callHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+interface ExtractResponse {
+  dryRun?: boolean;
+  verdict?: Verdict;
+  report?: CheckReport;
+  events?: unknown[];
+  error?: string;
+}
+
+function extract(body: Record<string, unknown>) {
+  return callHandler<ExtractResponse>(extractHandler, "POST", {}, body);
+}
+
+async function rowCount(table: string): Promise<number> {
+  const { count } = await getSupabaseClient().from(table).select("*", { count: "exact", head: true });
+  return count ?? 0;
+}
+
+/** Radar telemetry is fire-and-forget; let pending writes settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+const INPUT = "Ingredients: oats, peanut butter, zorbliquin.";
+
+async function main() {
+  console.log("\nTest 1: dry-run response");
+  const dry = await extract({ rawText: INPUT, mode: "label", profile_id: PROFILE_ID, dryRun: true });
+  await settle();
+  {
+    assert(dry.status === 200 && dry.body.dryRun === true, "200 with dryRun flag");
+    assert(dry.body.verdict?.riskLevel === "high", "verdict computed against profile (peanut allergy → high)");
+    const report = dry.body.report;
+    assert(report?.meta.profileId === PROFILE_ID, "report meta.profileId");
+    assert(report?.meta.traceId === dry.body.verdict?.meta?.traceId, "report traceId matches verdict");
+    assert(report?.output.verdict.matched.some((m) => m.kind === "allergy_match") === true, "report matched entries");
+    assert((report?.output.advice?.items.length ?? 0) > 0, "report advice");
+    assert(report?.input.events.some((e) => e.resolution !== undefined) === true, "resolution metadata on events");
+    assert(report?.input.rawText === INPUT, "raw text included");
+  }
+
+  console.log("\nTest 2: nothing persisted");
+  {
+    assert((await rowCount("checks")) === 0, "no checks rows");
+    assert((await rowCount("health_events")) === 0, "no health_events rows");
+    assert((await rowCount("unknown_entity_daily")) === 0, "no radar entity rows");
+    assert((await rowCount("unknown_combination_daily")) === 0, "no radar combination rows");
+  }
+
+  console.log("\nTest 3: control — normal run persists");
+  {
+    const saved = await extract({ rawText: INPUT, mode: "label", profile_id: PROFILE_ID });
+    await settle();
+    assert(saved.status === 200 && saved.body.dryRun === undefined, "normal run has no dryRun flag");
+    assert((await rowCount("checks")) === 1, "check persisted");
+    assert((await rowCount("health_events")) > 0, "events persisted");
+    assert((await rowCount("unknown_entity_daily")) > 0, "radar telemetry recorded");
+  }
+
+  console.log("\nTest 4: dryRun requires a profile");
+  {
+    const r = await extract({ rawText: INPUT, mode: "label", dryRun: true });
+    assert(r.status === 400, "no profile_id / DEFAULT_PROFILE_ID → 400");
+    const unknown = await extract({
+      rawText: INPUT,
+      mode: "label",
+      profile_id: "b0000000-0000-0000-0000-000000000009",
+      dryRun: true,
+    });
+    assert(unknown.status === 404 && unknown.body.error === "Profile not found", "unknown profile_id → 404");
+  }
+
+  console.log(`\n=== Phase 31 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
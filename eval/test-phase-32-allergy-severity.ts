@@ -0,0 +1,201 @@
+/**
+ * Phase 32 – Personal allergy severity (reaction history)
+ *
+ * Asserts:
+ * - profiles without reaction history keep category severity (no regression)
+ * - reaction class replaces the category default in checkRisk (details + meta)
+ * - intolerance grades a direct match MEDIUM; anaphylaxis stays HIGH
+ * - parent allergy reaction covers child tokens; precautionary uses personal severity
+ * - a reaction applies only to tokens its own allergy covers and never lowers
+ *   the category default of another matching allergy without a reaction
+ * - toRiskProfile / validateAllergyDetails read and validate stored entries
+ * - computeVigilance scores persisted personal severity (intolerance alone stays inactive)
+ * - PATCH /api/profile keeps reaction fields and rejects invalid ones
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-32
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import { checkRisk, type ProfileInput } from "../api/_lib/inference/checkRisk.js";
+import { extractFromLabel } from "../api/_lib/extractFromLabel.js";
+import { toRiskProfile } from "../api/_lib/profiles/toRiskProfile.js";
+import { validateAllergyDetails } from "../api/_lib/profiles/allergyDetails.js";
+import { computeVigilanceFromChecks } from "../api/_lib/vigilance/computeVigilance.js";
+import profileHandler from "../api/profile.js";
+import { callHandler } from "./callHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+function label(text: string) {
+  return extractFromLabel(text).events;
+}
+
+function profile(allergies: string[], reactions: ProfileInput["allergy_reactions"] = undefined): ProfileInput {
+  return { known_allergies: allergies, current_medications: [], allergy_reactions: reactions };
+}
+
+function patchProfile(body: Record<string, unknown>) {
+  return callHandler<{ profile?: { known_allergies: unknown[] }; error?: string }>(
+    profileHandler,
+    "PATCH",
+    { profileId: PROFILE_ID },
+    body
+  );
+}
+
+async function main() {
+  console.log("\nTest 1: category severity without reaction history");
+  {
+    const v = checkRisk({ profile: profile(["dairy"]), events: label("Ingredients: oats, milk powder.") });
+    assert(v.riskLevel === "high", "dairy + milk powder → high");
+    assert(v.meta?.severity === 80, "category severity (dairy 80)");
+    assert(v.meta?.severitySource === undefined, "no severitySource without history");
+    assert(v.matched?.[0].details.reaction === undefined, "no reaction in details");
+  }
+
+  console.log("\nTest 2: personal reaction class replaces category default");
+  {
+    const intolerant = checkRisk({
+      profile: profile(["dairy"], [{ name: "dairy", reaction: "intolerance", diagnosisSource: "self_reported" }]),
+      events: label("Ingredients: oats, milk powder."),
+    });
+    assert(intolerant.riskLevel === "medium", "dairy intolerance → medium");
+    assert(intolerant.meta?.severity === 25, "intolerance severity 25");
+    assert(intolerant.meta?.severitySource === "personal" && intolerant.meta?.reaction === "intolerance", "meta records personal source");
+    assert(intolerant.matched?.[0].details.diagnosisSource === "self_reported", "diagnosis source in details");
+    assert(intolerant.reasoning.includes("intolerance history"), "reasoning names reaction history");
+
+    const anaphylactic = checkRisk({
+      profile: profile(["peanut"], [{ name: "peanut", reaction: "anaphylaxis", lastReactionAt: "2025-06-01" }]),
+      events: label("Ingredients: wheat flour, peanuts."),
+    });
+    assert(anaphylactic.riskLevel === "high", "peanut anaphylaxis → high");
+    assert(anaphylactic.meta?.severity === 98, "anaphylaxis severity 98");
+    assert(anaphylactic.matched?.[0].details.lastReactionAt === "2025-06-01", "last reaction date in details");
+    assert((anaphylactic.meta?.severity ?? 0) > (intolerant.meta?.severity ?? 0), "anaphylaxis outranks intolerance");
+  }
+
+  console.log("\nTest 3: parent coverage and precautionary");
+  {
+    const v = checkRisk({
+      profile: profile(["tree_nut"], [{ name: "tree_nut", reaction: "hives" }]),
+      events: label("Ingredients: cashews, salt."),
+    });
+    assert(v.meta?.severity === 70 && v.meta?.reaction === "hives", "tree_nut hives covers cashew");
+
+    const p = checkRisk({
+      profile: profile(["peanut"], [{ name: "peanut", reaction: "anaphylaxis" }]),
+      events: label("Ingredients: oats.\nMay contain peanuts."),
+    });
+    assert(p.riskLevel === "medium", "precautionary still medium");
+    assert(p.meta?.severity === 58, "precautionary applies modifier to personal severity (98 - 40)");
+  }
+
+  console.log("\nTest 3b: reactions stay with their own allergy");
+  {
+    const shellfish = profile(["shellfish", "shrimp"], [{ name: "shrimp", reaction: "intolerance" }]);
+    const lobster = checkRisk({ profile: shellfish, events: label("Ingredients: lobster, butter.") });
+    assert(lobster.riskLevel === "high", "shrimp intolerance does not grade lobster (shellfish) → high");
+    assert(lobster.meta?.severitySource === undefined, "lobster keeps category severity");
+
+    const shrimp = checkRisk({ profile: shellfish, events: label("Ingredients: shrimp, garlic.") });
+    assert(shrimp.riskLevel === "high", "shrimp still high under the shellfish allergy");
+    assert(shrimp.meta?.severitySource === undefined, "category default outranks the intolerance");
+
+    const onlyShrimp = checkRisk({
+      profile: profile(["shrimp"], [{ name: "shrimp", reaction: "intolerance" }]),
+      events: label("Ingredients: shrimp, garlic."),
+    });
+    assert(onlyShrimp.riskLevel === "medium" && onlyShrimp.meta?.reaction === "intolerance", "shrimp intolerance alone → medium");
+  }
+
+  console.log("\nTest 4: toRiskProfile and validation");
+  {
+    const rp = toRiskProfile({
+      known_allergies: [
+        "peanut",
+        { name: "dairy", displayName: "milk", reaction: "gi", diagnosisSource: "clinician" },
+        { name: "egg", reaction: "sneezing" },
+      ],
+    });
+    assert(rp.known_allergies.join(",") === "peanut,dairy,egg", "names unchanged");
+    assert(rp.allergy_reactions?.length === 1, "only valid reaction classes carried");
+    assert(rp.allergy_reactions?.[0].reaction === "gi" && rp.allergy_reactions?.[0].diagnosisSource === "clinician", "reaction + diagnosis carried");
+    assert(toRiskProfile({ known_allergies: ["peanut"] }).allergy_reactions === undefined, "no allergy_reactions without history");
+
+    assert(validateAllergyDetails({ name: "egg", reaction: "hives" }) === null, "valid entry");
+    assert(validateAllergyDetails({ name: "egg", reaction: "sneezing" }) !== null, "invalid reaction rejected");
+    assert(validateAllergyDetails({ name: "egg", diagnosisSource: "guess" }) !== null, "invalid diagnosis rejected");
+    assert(validateAllergyDetails({ name: "egg", lastReactionAt: "last week" }) !== null, "invalid date rejected");
+    assert(validateAllergyDetails("egg") === null, "bare string valid");
+  }
+
+  console.log("\nTest 5: vigilance uses persisted personal severity");
+  {
+    const now = "2026-03-01T12:00:00.000Z";
+    const intolerance = checkRisk({
+      profile: profile(["dairy"], [{ name: "dairy", reaction: "intolerance" }]),
+      events: label("Ingredients: milk powder."),
+    });
+    const anaphylaxis = checkRisk({
+      profile: profile(["peanut"], [{ name: "peanut", reaction: "anaphylaxis" }]),
+      events: label("Ingredients: peanuts."),
+    });
+    const quiet = computeVigilanceFromChecks("p1", [{ id: "c1", verdict: intolerance, created_at: now }], 12, now);
+    assert(!quiet.vigilanceActive && quiet.vigilanceScore === 25, "intolerance alone → inactive (score 25)");
+
+    const loud = computeVigilanceFromChecks("p1", [{ id: "c2", verdict: anaphylaxis, created_at: now }], 12, now);
+    assert(loud.vigilanceActive && loud.vigilanceScore === 98, "anaphylaxis → active (score 98)");
+    assert(loud.trigger?.severitySource === "personal" && loud.trigger?.reaction === "anaphylaxis", "trigger reports personal source");
+
+    const legacy = computeVigilanceFromChecks(
+      "p1",
+      [{ id: "c3", verdict: { riskLevel: "high", meta: { severity: 95 } }, created_at: now }],
+      12,
+      now
+    );
+    assert(legacy.trigger?.severitySource === "category", "verdicts without history → category");
+  }
+
+  console.log("\nTest 6: PATCH /api/profile keeps reaction history");
+  {
+    const saved = await patchProfile({
+      known_allergies: [
+        { name: "peanut", displayName: "Peanuts", reaction: "anaphylaxis", diagnosisSource: "allergy_test", lastReactionAt: "2024-09-14" },
+        "lactose",
+      ],
+    });
+    assert(saved.status === 200, "200 OK");
+    const [peanut, lactose] = (saved.body.profile?.known_allergies ?? []) as Record<string, unknown>[];
+    assert(peanut?.reaction === "anaphylaxis" && peanut?.diagnosisSource === "allergy_test", "reaction fields stored");
+    assert(peanut?.lastReactionAt === "2024-09-14" && peanut?.displayName === "Peanuts", "date + display name stored");
+    assert(lactose?.name === "milk" && lactose?.reaction === undefined, "bare strings still resolved, no history");
+
+    const bad = await patchProfile({ known_allergies: [{ name: "egg", reaction: "sneezing" }] });
+    assert(bad.status === 400, "invalid reaction → 400");
+  }
+
+  console.log(`\n=== Phase 32 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+/**
+ * Phase 33 – Dose-aware interaction rules
+ *
+ * Asserts:
+ * - parseDose normalizes mg / g / mcg and IU; formatThreshold renders rules
+ * - supplement doses above a threshold keep the interaction and explain it;
+ *   a stated daily amount at or below a "none" threshold drops the match,
+ *   while a single dose below a per-day threshold keeps name-based grading
+ * - medication doses re-grade DRUG_INTERACTIONS pairs (aspirin + warfarin)
+ * - the dose can come from the profile medication (current_medications[].dosage)
+ * - unknown or incomparable doses keep name-based grading and record the threshold
+ *
+ * Run: npm run test:phase-33
+ */
+
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import {
+  parseDose,
+  formatThreshold,
+  findDoseThresholdRule,
+} from "../api/_lib/inference/doseThresholds.js";
+import {
+  DOSE_THRESHOLD_RULES,
+  DOSE_THRESHOLD_REGISTRY_VERSION,
+} from "../api/_lib/knowledge/doseThresholds.registry.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+type Events = Parameters<typeof checkRisk>[0]["events"];
+
+function onWarfarin(events: Events) {
+  return checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: "warfarin", dosage: "5mg" }] },
+    events,
+  });
+}
+
+function supplement(name: string, dosage: string | null) {
+  return [{ type: "supplement", fields: { supplement: name, dosage } }];
+}
+
+console.log("\nTest 1: parsing and registry");
+{
+  assert(parseDose("1000 IU")?.amount === 1000 && parseDose("1000 IU")?.unit === "iu", "IU");
+  assert(parseDose("2.5g")?.amount === 2500 && parseDose("2.5g")?.unit === "mg", "g → mg");
+  assert(parseDose("1,200 mg")?.amount === 1200, "thousands separator");
+  assert(parseDose("500 mcg")?.amount === 0.5, "mcg → mg");
+  assert(parseDose("two capsules") === null, "no dose");
+  assert(DOSE_THRESHOLD_REGISTRY_VERSION === REGISTRY_VERSIONS.doseThreshold, "version from REGISTRY_VERSIONS");
+  assert(new Set(DOSE_THRESHOLD_RULES.map((r) => r.id)).size === DOSE_THRESHOLD_RULES.length, "rule ids unique");
+  const vitE = findDoseThresholdRule("vitamin e", "coumadin");
+  assert(vitE?.id === "dose:vitamin-e+anticoagulant", "lookup resolves brand + supplement aliases");
+  assert(vitE !== null && formatThreshold(vitE) === "400 IU/day", "threshold formatting (IU)");
+  const fish = findDoseThresholdRule("fish oil", "warfarin");
+  assert(fish !== null && formatThreshold(fish) === "3 g/day", "threshold formatting (g)");
+  assert(findDoseThresholdRule("vitamin e", "metformin") === null, "no rule for unrelated pair");
+}
+
+console.log("\nTest 2: supplement thresholds");
+{
+  const high = onWarfarin(supplement("Vitamin E", "1000 IU"));
+  const m = high.matched?.[0];
+  assert(high.riskLevel === "medium", "vitamin E 1000 IU + warfarin → medium");
+  assert(m?.details.thresholdCrossed === true && m?.details.dose === "1000 IU", "records dose and crossing");
+  assert(m?.details.doseThreshold === "400 IU/day" && m?.details.doseSource === "event", "records threshold and source");
+  assert(high.reasoning.includes("above the 400 IU/day threshold"), "reasoning names the crossed threshold");
+  assert(high.reasoning.includes("at or below 400 IU/day"), "reasoning says what happens below it");
+
+  const low = onWarfarin(supplement("Vitamin E", "200 IU/day"));
+  assert(low.riskLevel === "none" && low.matched?.length === 0, "vitamin E 200 IU/day → no interaction");
+
+  const fishHigh = onWarfarin(supplement("Fish Oil", "4 g"));
+  assert(fishHigh.riskLevel === "medium" && fishHigh.matched?.[0].details.dose === "4 g", "fish oil 4 g → medium");
+  const fishLow = onWarfarin(supplement("Fish Oil", "1,000mg daily"));
+  assert(fishLow.riskLevel === "none", "fish oil 1 g daily → none");
+}
+
+console.log("\nTest 2b: single doses under a per-day threshold");
+{
+  const fish = onWarfarin(supplement("Fish Oil", "1200 mg"));
+  const m = fish.matched?.[0];
+  assert(fish.riskLevel === "medium", "fish oil 1200 mg + warfarin stays medium");
+  assert(m?.details.dose === "1.2 g" && m?.details.dailyTotalKnown === false, "records dose, daily total unknown");
+  assert(fish.reasoning.includes("depends on the daily total"), "reasoning explains the per-day threshold");
+
+  const vitE = onWarfarin(supplement("Vitamin E", "400 IU"));
+  assert(vitE.riskLevel === "medium", "vitamin E 400 IU + warfarin stays medium");
+}
+
+console.log("\nTest 3: unknown / incomparable doses");
+{
+  const unknown = onWarfarin(supplement("Vitamin E", null));
+  assert(unknown.riskLevel === "medium", "no dose → name-based medium");
+  assert(unknown.matched?.[0].details.dose === null, "dose recorded as null");
+  assert(unknown.reasoning.includes("dose not stated"), "reasoning flags missing dose");
+
+  const mismatch = onWarfarin(supplement("Vitamin E", "268 mg"));
+  assert(mismatch.riskLevel === "medium" && mismatch.matched?.[0].details.dose === null, "mg vs IU → name-based grading");
+
+  const other = onWarfarin(supplement("Ginkgo", "120 mg"));
+  assert(other.matched?.[0].details.doseThreshold === undefined, "pairs without a dose rule unchanged");
+}
+
+console.log("\nTest 4: medication thresholds");
+{
+  const analgesic = onWarfarin([{ type: "medication", fields: { medication: "aspirin", dosage: "500mg" } }]);
+  assert(analgesic.riskLevel === "high", "aspirin 500 mg + warfarin → high");
+  assert(analgesic.matched?.[0].details.interactionId === "ddi:aspirin+warfarin", "keeps interaction id");
+  assert(analgesic.matched?.[0].details.doseRuleId === "dose:aspirin+anticoagulant", "records dose rule id");
+
+  const lowDose = onWarfarin([{ type: "medication", fields: { medication: "aspirin", dosage: "81mg" } }]);
+  assert(lowDose.riskLevel === "medium", "aspirin 81 mg + warfarin → medium");
+  assert(lowDose.reasoning.includes("at or below the 100 mg per dose threshold"), "low-dose reasoning");
+
+  const fromProfile = checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: "aspirin", dosage: "325 mg" }] },
+    events: [{ type: "medication", fields: { medication: "warfarin" } }],
+  });
+  assert(fromProfile.riskLevel === "high", "profile aspirin 325 mg + extracted warfarin → high");
+  assert(fromProfile.matched?.[0].details.doseSource === "profile", "dose read from profile medication");
+
+  const suffix = checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: "aspirin (81mg)" }] },
+    events: [{ type: "medication", fields: { medication: "warfarin" } }],
+  });
+  assert(suffix.riskLevel === "medium" && suffix.matched?.[0].details.dose === "81 mg", "dose from name suffix");
+}
+
+console.log(`\n=== Phase 33 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
@@ -0,0 +1,201 @@
+/**
+ * Phase 34 – Cross-check intake ledger
+ *
+ * Asserts:
+ * - buildIntakeLedger resolves brands to canonical ids, classes and doses
+ * - same-class stacking is detected across checks (not within one check)
+ * - duplicate ingredients and rolling 24h daily limits are detected
+ * - computeVigilanceFromChecks adds intake findings as a contribution
+ * - fetchVigilance + GET /api/insights/feed pick up the ledger from
+ *   health_events (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-34
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  buildIntakeLedger,
+  detectIntakeFindings,
+  detectIntakeStacking,
+  type IntakeEventRow,
+} from "../api/_lib/intake/intakeLedger.js";
+import { computeVigilanceFromChecks, fetchVigilance } from "../api/_lib/vigilance/computeVigilance.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import feedHandler from "../api/_lib/core/_insightsFeedHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const HOUR = 60 * 60 * 1000;
+
+function hoursAgo(h: number, now = Date.now()): string {
+  return new Date(now - h * HOUR).toISOString();
+}
+
+function med(checkId: string, createdAt: string, medication: string, dosage: string | null = null): IntakeEventRow {
+  return { check_id: checkId, created_at: createdAt, event_type: "medication", event_data: { medication, dosage } };
+}
+
+async function main() {
+  const now = Date.parse("2026-03-01T22:00:00.000Z");
+  const nowIso = new Date(now).toISOString();
+
+  console.log("\nTest 1: ledger entries");
+  {
+    const ledger = buildIntakeLedger([
+      med("c2", hoursAgo(4, now), "Aleve", "220mg"),
+      med("c1", hoursAgo(10, now), "Advil", "400 mg"),
+      { check_id: "c1", created_at: hoursAgo(10, now), event_type: "meal", event_data: { meal: "toast" } },
+    ]);
+    assert(ledger.length === 2, "meals skipped");
+    assert(ledger[0].name === "Advil" && ledger[0].canonicalId === "ibuprofen", "oldest first, brand → canonical");
+    assert(ledger[0].drugClass === "nsaid" && ledger[0].dose?.amount === 400, "class + dose");
+    assert(ledger[1].ingredients.join(",") === "naproxen", "single-ingredient product lists itself");
+  }
+
+  console.log("\nTest 2: same-class stacking across checks");
+  {
+    const findings = detectIntakeFindings(
+      buildIntakeLedger([
+        med("c1", hoursAgo(14, now), "Advil"),
+        med("c2", hoursAgo(9, now), "Aleve"),
+        med("c3", hoursAgo(2, now), "aspirin"),
+      ])
+    );
+    const nsaid = findings.find((f) => f.kind === "class_stacking");
+    assert(nsaid?.key === "nsaid", "NSAID stacking detected");
+    assert(nsaid?.items.join(",") === "Advil,Aleve,aspirin", "items in intake order");
+    assert(nsaid?.checkIds.length === 3 && nsaid?.riskLevel === "medium", "three checks, medium");
+
+    const single = detectIntakeFindings(
+      buildIntakeLedger([med("c1", hoursAgo(1, now), "Advil"), med("c1", hoursAgo(1, now), "Aleve")])
+    );
+    assert(!single.some((f) => f.kind === "class_stacking"), "single check left to functional stacking");
+  }
+
+  console.log("\nTest 3: duplicate ingredient and daily limit");
+  {
+    const dup = detectIntakeFindings(
+      buildIntakeLedger([
+        med("c1", hoursAgo(12, now), "Tylenol", "1000mg"),
+        med("c2", hoursAgo(8, now), "Tylenol", "1000mg"),
+        med("c3", hoursAgo(4, now), "paracetamol", "1000mg"),
+      ])
+    );
+    const apap = dup.find((f) => f.kind === "duplicate_ingredient" && f.key === "acetaminophen");
+    assert(apap === undefined, "one ingredient, 3 g in 24h → under limit, no finding");
+
+    const over = detectIntakeFindings(
+      buildIntakeLedger([
+        med("c1", hoursAgo(20, now), "Tylenol", "1000mg"),
+        med("c2", hoursAgo(14, now), "Tylenol", "1000mg"),
+        med("c3", hoursAgo(8, now), "acetaminophen", "1000mg"),
+        med("c4", hoursAgo(2, now), "Tylenol", "1.5 g"),
+      ])
+    );
+    const limit = over.find((f) => f.key === "acetaminophen");
+    assert(limit?.exceedsDailyLimit === true && limit?.riskLevel === "high", "4.5 g in 24h → above limit, high");
+    assert(limit?.totalDose === "4.5 g" && limit?.dailyLimit === "4 g/day", "total + limit formatted");
+    assert(over[0].key === "acetaminophen", "highest severity first");
+
+    const spread = detectIntakeFindings(
+      buildIntakeLedger([
+        med("c1", hoursAgo(40, now), "Tylenol", "3000mg"),
+        med("c2", hoursAgo(2, now), "Tylenol", "3000mg"),
+      ])
+    );
+    assert(spread.length === 0, "doses more than 24h apart do not add up");
+  }
+
+  console.log("\nTest 4: vigilance contribution (pure)");
+  {
+    const findings = detectIntakeFindings(
+      buildIntakeLedger([
+        med("c1", hoursAgo(3, now), "Tylenol", "3000mg"),
+        med("c2", hoursAgo(0.5, now), "Tylenol", "2000mg"),
+      ])
+    );
+    const v = computeVigilanceFromChecks(PROFILE_ID, [], 12, nowIso, findings);
+    assert(v.vigilanceActive && v.vigilanceScore === 90, "daily limit finding → active (90)");
+    assert(v.trigger?.source === "intake" && v.trigger?.checkId === "c2", "intake trigger points at latest check");
+    assert(v.trigger?.intake?.kind === "duplicate_ingredient", "trigger names the finding");
+    assert(v.pressureSources.some((p) => p.term === "tylenol"), "items become pressure sources");
+    assert(computeVigilanceFromChecks(PROFILE_ID, [], 12, nowIso).trigger === null, "no findings → unchanged");
+  }
+
+  console.log("\nTest 5: ledger from health_events (memory adapter)");
+  {
+    const supabase = getSupabaseClient();
+    async function logIntake(h: number, name: string, dosage: string | null = null) {
+      const { data: check } = await supabase
+        .from("checks")
+        .insert({ profile_id: PROFILE_ID, raw_text: `took ${name}`, created_at: hoursAgo(h) })
+        .select("id")
+        .single();
+      await supabase.from("health_events").insert({
+        profile_id: PROFILE_ID,
+        check_id: (check as { id: string }).id,
+        event_type: "medication",
+        event_data: { medication: name, dosage },
+        created_at: hoursAgo(h),
+      });
+    }
+    await logIntake(9, "Advil");
+    await logIntake(5, "Aleve");
+    await logIntake(2, "aspirin");
+
+    const findings = await detectIntakeStacking({ profileId: PROFILE_ID, windowHours: 24 });
+    assert(findings.some((f) => f.kind === "class_stacking" && f.key === "nsaid"), "NSAID stacking from stored events");
+    assert((await detectIntakeStacking({ profileId: PROFILE_ID, windowHours: 4 })).length === 0, "window is configurable");
+
+    const medium = await fetchVigilance(PROFILE_ID, 12);
+    assert(medium.pressureSources.some((p) => p.term === "aleve"), "medium stacking adds pressure");
+    assert(!medium.vigilanceActive, "medium stacking alone stays below the vigilance threshold");
+
+    await logIntake(3, "Tylenol", "3000mg");
+    await logIntake(0.5, "Tylenol", "2000mg");
+    const high = await fetchVigilance(PROFILE_ID, 12);
+    assert(high.vigilanceActive && high.trigger?.source === "intake", "daily limit finding activates vigilance");
+    assert(high.trigger?.intake?.key === "acetaminophen", "trigger names the ingredient");
+
+    let body = {} as { insights?: { type: string; meta?: { intakeKind?: string } }[] };
+    const res = {
+      status() {
+        return res;
+      },
+      json(payload: unknown) {
+        body = payload as typeof body;
+        return res;
+      },
+    };
+    await feedHandler(
+      { method: "GET", query: { profileId: PROFILE_ID } } as unknown as VercelRequest,
+      res as unknown as VercelResponse
+    );
+    const intake = (body.insights ?? []).filter((i) => i.type === "intake_stacking");
+    assert(intake[0]?.meta?.intakeKind === "duplicate_ingredient", "feed ranks the daily-limit finding first");
+    assert(intake.some((i) => i.meta?.intakeKind === "class_stacking"), "feed includes class stacking");
+  }
+
+  console.log(`\n=== Phase 34 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
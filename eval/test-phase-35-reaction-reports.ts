@@ -0,0 +1,190 @@
+/**
+ * Phase 35 – Post-exposure reaction reports
+ *
+ * Asserts:
+ * - validateReactionReport normalizes symptom / severity / onset / treatments
+ * - POST /api/reactions links the report to its check (400 / 404 / 201)
+ * - GET /api/reactions and GET /api/history/:id list linked reports
+ * - analyzeTrajectory pairs a report only with its linked check, using the
+ *   reported onset (confirmed: true), not the nearest trigger in time
+ * - buildEvidenceContext counts confirmed hits for the linked trigger only
+ * - the insights feed marks the insight confirmed
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-35
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  validateReactionReport,
+  describeReactionReport,
+} from "../api/_lib/reactions/reactionReports.js";
+import { analyzeTrajectory } from "../api/_lib/inference/analyzeTrajectory.js";
+import { buildEvidenceContext } from "../api/_lib/inference/negativeEvidence.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import reactionsHandler from "../api/_lib/core/_reactionsHandler.js";
+import historyDetailHandler from "../api/_lib/core/_historyDetailHandler.js";
+import feedHandler from "../api/_lib/core/_insightsFeedHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const HOUR = 60 * 60 * 1000;
+
+interface MockResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+async function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; query?: Record<string, string>; body?: unknown }
+): Promise<MockResult> {
+  const result: MockResult = { status: 200, body: {} };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload as Record<string, unknown>;
+      return res;
+    },
+  };
+  await handler(
+    { query: {}, ...req } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return result;
+}
+
+async function insertCheck(hoursAgo: number, meal: string): Promise<string> {
+  const supabase = getSupabaseClient();
+  const createdAt = new Date(Date.now() - hoursAgo * HOUR).toISOString();
+  const { data } = await supabase
+    .from("checks")
+    .insert({ profile_id: PROFILE_ID, raw_text: `ate ${meal}`, created_at: createdAt })
+    .select("id")
+    .single();
+  const checkId = (data as { id: string }).id;
+  await supabase.from("health_events").insert({
+    profile_id: PROFILE_ID,
+    check_id: checkId,
+    event_type: "meal",
+    event_data: { meal },
+    created_at: createdAt,
+  });
+  return checkId;
+}
+
+async function main() {
+  console.log("\nTest 1: validation");
+  {
+    const ok = validateReactionReport({
+      symptom: " Hives ",
+      severity: "moderate",
+      onsetMinutes: 30,
+      treatments: ["antihistamine", "antihistamine", "none"],
+    });
+    assert("report" in ok && ok.report.symptom === "hives", "symptom normalized");
+    assert("report" in ok && ok.report.treatments.join(",") === "antihistamine", "treatments de-duplicated, none dropped");
+    assert("error" in validateReactionReport({ symptom: "sadness", severity: "mild", onsetMinutes: 5 }), "unknown symptom rejected");
+    assert("error" in validateReactionReport({ symptom: "rash", severity: "awful", onsetMinutes: 5 }), "unknown severity rejected");
+    assert("error" in validateReactionReport({ symptom: "rash", severity: "mild", onsetMinutes: -1 }), "negative onset rejected");
+    assert("error" in validateReactionReport({ symptom: "rash", severity: "mild", onsetMinutes: 5, treatments: ["aspirin"] }), "unknown treatment rejected");
+    if ("report" in ok) {
+      assert(
+        describeReactionReport(ok.report) === "Reaction: hives (moderate), 30 min after check; treated with antihistamine",
+        "raw_text summary"
+      );
+    }
+  }
+
+  const shrimpCheck = await insertCheck(10, "shrimp");
+  const breadCheck = await insertCheck(1, "bread");
+
+  console.log("\nTest 2: POST /api/reactions");
+  {
+    const body = { profileId: PROFILE_ID, checkId: shrimpCheck, symptom: "hives", severity: "moderate", onsetMinutes: 30, treatments: ["antihistamine"] };
+    assert((await call(reactionsHandler, { method: "POST", body: { ...body, checkId: "nope" } })).status === 400, "invalid checkId → 400");
+    assert((await call(reactionsHandler, { method: "POST", body: { ...body, severity: "bad" } })).status === 400, "invalid report → 400");
+    const missing = await call(reactionsHandler, { method: "POST", body: { ...body, checkId: "00000000-0000-0000-0000-000000000000" } });
+    assert(missing.status === 404, "unknown check → 404");
+    const otherProfile = await call(reactionsHandler, { method: "POST", body: { ...body, profileId: "someone-else" } });
+    assert(otherProfile.status === 404, "another profile's check → 404");
+
+    const created = await call(reactionsHandler, { method: "POST", body });
+    const reaction = created.body.reaction as { checkId: string; linkedCheckId: string; treatments: string[] };
+    assert(created.status === 201, "valid report → 201");
+    assert(reaction.linkedCheckId === shrimpCheck && reaction.checkId !== shrimpCheck, "stored as its own check, linked to the shrimp check");
+
+    const { data: events } = await getSupabaseClient()
+      .from("health_events")
+      .select("event_type, linked_check_id")
+      .eq("check_id", reaction.checkId);
+    const rows = (events ?? []) as { event_type: string; linked_check_id: string }[];
+    assert(rows.length === 1 && rows[0].event_type === "symptom" && rows[0].linked_check_id === shrimpCheck, "one linked symptom event");
+  }
+
+  console.log("\nTest 3: listing");
+  {
+    const all = await call(reactionsHandler, { method: "GET", query: { profileId: PROFILE_ID } });
+    assert((all.body.reactions as unknown[]).length === 1, "GET lists the profile's reports");
+    const none = await call(reactionsHandler, { method: "GET", query: { profileId: PROFILE_ID, checkId: breadCheck } });
+    assert((none.body.reactions as unknown[]).length === 0, "filtered by linked check");
+    const detail = await call(historyDetailHandler, { method: "GET", query: { id: shrimpCheck, profileId: PROFILE_ID } });
+    assert((detail.body.reactions as unknown[]).length === 1, "history detail includes linked reactions");
+  }
+
+  console.log("\nTest 4: trajectory uses the confirmed link");
+  {
+    const result = await analyzeTrajectory({ profileId: PROFILE_ID, windowHours: 48 });
+    const pairs = result.insights.filter((i) => i.type === "trigger_symptom");
+    const shrimp = pairs.find((i) => i.priorityHints.triggerValue === "shrimp");
+    assert(shrimp?.confirmed === true, "shrimp → hives confirmed");
+    assert(shrimp?.hoursDelta === 0.5 && shrimp?.proximityBucket === "strong", "onset from report (0.5h, strong)");
+    assert(shrimp?.whyIncluded[0] === "confirmed_link", "gated as confirmed_link");
+    assert(!pairs.some((i) => i.priorityHints.triggerValue === "bread"), "nearest trigger in time is not blamed");
+  }
+
+  console.log("\nTest 5: negative evidence");
+  {
+    const ctx = await buildEvidenceContext(PROFILE_ID, 48);
+    const shrimp = ctx.getEvidence("shrimp", "hives");
+    assert(shrimp.hits === 1 && shrimp.confirmedHits === 1, "confirmed hit for the linked trigger");
+    const bread = ctx.getEvidence("bread", "hives");
+    assert(bread.hits === 0 && bread.confirmedHits === 0, "no hit for an unlinked trigger");
+  }
+
+  console.log("\nTest 6: insights feed");
+  {
+    const feed = await call(feedHandler, { method: "GET", query: { profileId: PROFILE_ID } });
+    const insights = (feed.body.insights ?? []) as { confirmed?: boolean; priorityHints: { triggerValue?: string }; score: number }[];
+    const shrimp = insights.find((i) => i.priorityHints.triggerValue === "shrimp");
+    assert(shrimp?.confirmed === true, "feed marks the insight confirmed");
+    assert(insights[0] === shrimp, "confirmed insight ranks first");
+  }
+
+  console.log(`\n=== Phase 35 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
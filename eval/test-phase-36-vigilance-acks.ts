@@ -0,0 +1,149 @@
+/**
+ * Phase 36 – Server-side vigilance acknowledgements
+ *
+ * Asserts:
+ * - ackUntil / isAckActive: acknowledged capped at 12h, snooze length,
+ *   resolved never expires
+ * - toAckMap + shouldShowBanner hide resolved triggers for good
+ * - computeVigilanceFromChecks discounts resolved checks (RESOLVED_DISCOUNT)
+ * - POST /api/vigilance/ack validates, upserts per (profile, check)
+ * - fetchVigilance returns acks and discounts resolved triggers
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-36
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import {
+  ackUntil,
+  isAckActive,
+  RESOLVED_DISCOUNT,
+} from "../api/_lib/vigilance/vigilanceAcks.js";
+import {
+  computeVigilanceFromChecks,
+  fetchVigilance,
+  type VigilanceCheck,
+} from "../api/_lib/vigilance/computeVigilance.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import ackHandler from "../api/_lib/core/_vigilanceAckHandler.js";
+import { shouldShowBanner, toAckMap } from "../src/lib/vigilanceBannerHelpers.js";
+import { callHandler } from "./callHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const HOUR = 60 * 60 * 1000;
+
+function post(body: Record<string, unknown>) {
+  return callHandler(ackHandler, "POST", {}, body);
+}
+
+function highCheck(id: string, createdAt: string): VigilanceCheck {
+  return {
+    id,
+    created_at: createdAt,
+    verdict: {
+      riskLevel: "high",
+      matched: [{ rule: "allergy_match", details: { allergen: "peanut" } }],
+      meta: { severity: 90 },
+    },
+  };
+}
+
+async function main() {
+  const now = Date.parse("2026-03-01T12:00:00.000Z");
+  const nowIso = new Date(now).toISOString();
+
+  console.log("\nTest 1: expiry rules");
+  {
+    assert(ackUntil("acknowledged", now, { windowHours: 48 }) === new Date(now + 12 * HOUR).toISOString(), "acknowledged capped at 12h");
+    assert(ackUntil("acknowledged", now, { windowHours: 6 }) === new Date(now + 6 * HOUR).toISOString(), "acknowledged follows a shorter window");
+    assert(ackUntil("snoozed", now, { snoozeHours: 24 }) === new Date(now + 24 * HOUR).toISOString(), "snooze length");
+    assert(ackUntil("resolved_no_reaction", now) === null, "resolved has no expiry");
+    const resolved = { checkId: "c", outcome: "resolved_no_reaction" as const, until: null, updatedAt: nowIso };
+    assert(isAckActive(resolved, now + 1000 * HOUR), "resolved stays active");
+    const snoozed = { ...resolved, outcome: "snoozed" as const, until: new Date(now + HOUR).toISOString() };
+    assert(isAckActive(snoozed, now) && !isAckActive(snoozed, now + 2 * HOUR), "snooze expires");
+  }
+
+  console.log("\nTest 2: banner helpers");
+  {
+    const map = toAckMap({
+      a: { outcome: "resolved_no_reaction", until: null },
+      b: { outcome: "snoozed", until: new Date(now + HOUR).toISOString() },
+    });
+    assert(!shouldShowBanner({ checkId: "a" }, now + 1000 * HOUR, map), "resolved trigger hidden for good");
+    assert(!shouldShowBanner({ checkId: "b" }, now, map), "snoozed trigger hidden");
+    assert(shouldShowBanner({ checkId: "b" }, now + 2 * HOUR, map), "snoozed trigger back after expiry");
+  }
+
+  console.log("\nTest 3: resolved discount (pure)");
+  {
+    const checks = [highCheck("c1", nowIso)];
+    const active = computeVigilanceFromChecks(PROFILE_ID, checks, 12, nowIso);
+    assert(active.vigilanceActive && active.vigilanceScore === 90, "unresolved high → active (90)");
+    const resolved = computeVigilanceFromChecks(PROFILE_ID, checks, 12, nowIso, [], new Set(["c1"]));
+    assert(resolved.vigilanceScore === Math.round(90 * RESOLVED_DISCOUNT), "resolved → score discounted");
+    assert(!resolved.vigilanceActive && resolved.trigger === null, "resolved alone → inactive");
+    assert(resolved.resolvedCheckIds?.join(",") === "c1", "discounted checks reported");
+    assert(resolved.pressureSources[0]?.weightedScore === 23, "pressure sources discounted too");
+    assert(active.resolvedCheckIds === undefined, "no resolvedCheckIds when nothing discounted");
+  }
+
+  const supabase = getSupabaseClient();
+  const { data } = await supabase
+    .from("checks")
+    .insert({
+      profile_id: PROFILE_ID,
+      raw_text: "peanut butter",
+      verdict: highCheck("", "").verdict,
+      created_at: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
+    })
+    .select("id")
+    .single();
+  const checkId = (data as { id: string }).id;
+
+  console.log("\nTest 4: POST /api/vigilance/ack");
+  {
+    assert((await post({ profileId: PROFILE_ID, checkId, outcome: "ignored" })).status === 400, "invalid outcome → 400");
+    assert((await post({ profileId: PROFILE_ID, checkId, outcome: "snoozed" })).status === 400, "snooze without hours → 400");
+    assert((await post({ profileId: PROFILE_ID, checkId: "bad", outcome: "acknowledged" })).status === 400, "invalid checkId → 400");
+    assert((await post({ profileId: "other", checkId, outcome: "acknowledged" })).status === 404, "other profile's check → 404");
+
+    const ack = await post({ profileId: PROFILE_ID, checkId, outcome: "acknowledged", windowHours: 12 });
+    assert(ack.status === 200 && (ack.body.ack as { outcome: string }).outcome === "acknowledged", "acknowledged saved");
+
+    const before = await fetchVigilance(PROFILE_ID, 12);
+    assert(before.vigilanceActive && before.acks?.[checkId]?.outcome === "acknowledged", "fetchVigilance returns acks; ack alone keeps score");
+
+    await post({ profileId: PROFILE_ID, checkId, outcome: "resolved_no_reaction" });
+    const { data: rows } = await supabase.from("vigilance_acks").select("outcome").eq("check_id", checkId);
+    assert((rows ?? []).length === 1, "one row per (profile, check)");
+
+    const after = await fetchVigilance(PROFILE_ID, 12);
+    assert(after.acks?.[checkId]?.outcome === "resolved_no_reaction" && after.acks?.[checkId]?.until === null, "latest outcome wins");
+    assert(!after.vigilanceActive && after.resolvedCheckIds?.includes(checkId) === true, "resolved trigger discounted");
+  }
+
+  console.log(`\n=== Phase 36 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
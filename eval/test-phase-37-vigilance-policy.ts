@@ -0,0 +1,183 @@
+/**
+ * Phase 37 – Vigilance scoring policies
+ *
+ * Asserts:
+ * - registry: unknown / missing ids fall back to "standard"; decay steps
+ * - "standard" reproduces the Phase 15 numbers (topN 3, threshold 50)
+ * - "infant" activates on older and lower-severity checks standard ignores
+ * - "single_event" scores the strongest risk only (max mode)
+ * - policy id / version returned in the result and in aggregation
+ * - PATCH /api/profile validates vigilance_policy; fetchVigilance applies
+ *   the profile's policy and its default window
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-37
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  decayWeight,
+  getVigilancePolicy,
+  isVigilancePolicyId,
+  VIGILANCE_POLICIES,
+} from "../api/_lib/vigilance/vigilancePolicies.js";
+import {
+  computeVigilanceFromChecks,
+  fetchVigilance,
+  type VigilanceCheck,
+} from "../api/_lib/vigilance/computeVigilance.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import profileHandler from "../api/profile.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const HOUR = 60 * 60 * 1000;
+
+const now = Date.parse("2026-03-01T12:00:00.000Z");
+const nowIso = new Date(now).toISOString();
+
+function check(id: string, hoursAgo: number, severity: number, riskLevel: "medium" | "high" = "medium"): VigilanceCheck {
+  return {
+    id,
+    created_at: new Date(now - hoursAgo * HOUR).toISOString(),
+    verdict: { riskLevel, meta: { severity } },
+  };
+}
+
+async function patchProfile(body: Record<string, unknown>): Promise<number> {
+  let status = 200;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json() {
+      return res;
+    },
+  };
+  await profileHandler(
+    { method: "PATCH", query: { profileId: PROFILE_ID }, body } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return status;
+}
+
+async function main() {
+  const standard = VIGILANCE_POLICIES.standard;
+  const infant = VIGILANCE_POLICIES.infant;
+  const singleEvent = VIGILANCE_POLICIES.single_event;
+
+  console.log("\nTest 1: registry");
+  {
+    assert(getVigilancePolicy("nope").id === "standard", "unknown id → standard");
+    assert(getVigilancePolicy(null).id === "standard", "missing id → standard");
+    assert(getVigilancePolicy("infant") === infant, "known id resolves");
+    assert(!isVigilancePolicyId("toString"), "prototype keys are not policy ids");
+    assert(
+      [0.5, 3, 10, 20].map((h) => decayWeight(standard, h)).join(",") === "1,0.75,0.5,0.25",
+      "standard decay buckets unchanged"
+    );
+    assert(
+      [3, 20, 40, 60].map((h) => decayWeight(infant, h)).join(",") === "1,0.85,0.6,0.4",
+      "infant decays more slowly"
+    );
+  }
+
+  console.log("\nTest 2: standard reproduces Phase 15");
+  {
+    const checks = [check("b1", 2, 40), check("b2", 5, 35), check("b3", 10, 30)];
+    const legacy = computeVigilanceFromChecks(PROFILE_ID, checks, 12, nowIso);
+    const explicit = computeVigilanceFromChecks(PROFILE_ID, checks, 12, nowIso, [], new Set(), standard);
+    assert(legacy.vigilanceScore === 71 && legacy.vigilanceActive, "40·.75 + 35·.75 + 30·.5 = 71 → active");
+    assert(JSON.stringify(legacy) === JSON.stringify(explicit), "default policy is standard");
+    assert(legacy.aggregation.mode === "topN_sum" && legacy.aggregation.topN === 3, "topN_sum of 3");
+    assert(
+      legacy.aggregation.policyId === "standard" && legacy.aggregation.policyVersion === "1",
+      "aggregation carries policy id / version"
+    );
+    assert(legacy.policy.id === "standard" && legacy.policy.version === "1", "result carries policy ref");
+
+    const empty = computeVigilanceFromChecks(PROFILE_ID, [], 12, nowIso, [], new Set(), infant);
+    assert(empty.policy.id === "infant" && empty.aggregation.policyId === "infant", "policy ref present when inactive");
+  }
+
+  console.log("\nTest 3: infant is stricter");
+  {
+    const older = [check("o1", 20, 50)];
+    const std = computeVigilanceFromChecks(PROFILE_ID, older, 48, nowIso);
+    const inf = computeVigilanceFromChecks(PROFILE_ID, older, 48, nowIso, [], new Set(), infant);
+    assert(!std.vigilanceActive && std.vigilanceScore === 13, "20h-old medium: standard 13 → inactive");
+    assert(inf.vigilanceActive && inf.vigilanceScore === 43, "20h-old medium: infant 43 → active");
+    assert(inf.trigger?.weight === 0.85, "trigger reports the policy's decay weight");
+
+    const low = [check("l1", 0.5, 40)];
+    assert(!computeVigilanceFromChecks(PROFILE_ID, low, 12, nowIso).vigilanceActive, "severity 40: below standard threshold");
+    assert(
+      computeVigilanceFromChecks(PROFILE_ID, low, 12, nowIso, [], new Set(), infant).vigilanceActive,
+      "severity 40: above infant threshold (35)"
+    );
+  }
+
+  console.log("\nTest 4: single_event uses the strongest risk only");
+  {
+    const many = [check("m1", 0.5, 30), check("m2", 0.5, 30), check("m3", 0.5, 30)];
+    const std = computeVigilanceFromChecks(PROFILE_ID, many, 12, nowIso);
+    const single = computeVigilanceFromChecks(PROFILE_ID, many, 12, nowIso, [], new Set(), singleEvent);
+    assert(std.vigilanceActive && std.vigilanceScore === 90, "three mediums stack under standard (90)");
+    assert(!single.vigilanceActive && single.vigilanceScore === 30, "no stacking under single_event (30)");
+    assert(single.aggregation.mode === "max" && single.aggregation.components.length === 1, "aggregation mode max, one component");
+
+    const high = computeVigilanceFromChecks(PROFILE_ID, [check("h1", 0.5, 90, "high")], 12, nowIso, [], new Set(), singleEvent);
+    assert(high.vigilanceActive && high.vigilanceScore === 90, "a single high still activates");
+  }
+
+  console.log("\nTest 5: per-profile policy via fetchVigilance");
+  {
+    assert((await patchProfile({ vigilance_policy: "paranoid" })) === 400, "unknown vigilance_policy → 400");
+
+    await getSupabaseClient()
+      .from("checks")
+      .insert({
+        profile_id: PROFILE_ID,
+        raw_text: "sesame crackers",
+        verdict: { riskLevel: "medium", meta: { severity: 50 } },
+        created_at: new Date(Date.now() - 20 * HOUR).toISOString(),
+      });
+
+    const before = await fetchVigilance(PROFILE_ID);
+    assert(before.policy.id === "standard" && before.windowHours === 12, "default profile → standard, 12h window");
+    assert(!before.vigilanceActive, "20h-old check outside the standard window");
+
+    assert((await patchProfile({ vigilance_policy: "infant" })) === 200, "PATCH vigilance_policy=infant → 200");
+    const after = await fetchVigilance(PROFILE_ID);
+    assert(after.policy.id === "infant" && after.windowHours === 48, "infant profile → 48h window");
+    assert(after.vigilanceActive && after.vigilanceScore === 43, "20h-old check activates under infant");
+
+    const narrowed = await fetchVigilance(PROFILE_ID, 12);
+    assert(narrowed.policy.id === "infant" && !narrowed.vigilanceActive, "explicit windowHours still honoured");
+  }
+
+  console.log(`\n=== Phase 37 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
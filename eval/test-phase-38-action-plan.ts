@@ -0,0 +1,199 @@
+/**
+ * Phase 38 – Allergy action plan
+ *
+ * Asserts:
+ * - buildActionPlan: personal vs category severity, most severe first,
+ *   plural / spaced allergy names resolve, advice registry symptoms,
+ *   epinephrine detection and first-line flag, general fallback
+ * - emergency contacts: strict validation, lenient read
+ * - text and HTML formatters (sections, escaping)
+ * - GET /api/report/action-plan: json / text / html, download, 400 / 404
+ * - PATCH /api/profile emergency_contacts flows into the plan
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-38
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { buildActionPlan, type ActionPlan } from "../api/_lib/report/buildActionPlan.js";
+import {
+  formatActionPlanAsHtml,
+  formatActionPlanAsText,
+} from "../api/_lib/report/formatActionPlan.js";
+import {
+  readEmergencyContacts,
+  validateEmergencyContacts,
+} from "../api/_lib/profiles/emergencyContacts.js";
+import { ADVICE_REGISTRY } from "../api/_lib/advice/adviceRegistry.js";
+import actionPlanHandler from "../api/_lib/core/_actionPlanHandler.js";
+import profileHandler from "../api/profile.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const GENERATED_AT = "2026-03-01T12:00:00.000Z";
+
+interface MockResult {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+async function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; query?: Record<string, string>; body?: unknown }
+): Promise<MockResult> {
+  const result: MockResult = { status: 200, headers: {}, body: null };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+    send(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await handler(
+    { query: {}, ...req } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return result;
+}
+
+async function main() {
+  console.log("\nTest 1: allergens and severity");
+  let plan: ActionPlan;
+  {
+    plan = buildActionPlan(
+      {
+        id: "p1",
+        display_name: "Maya",
+        known_allergies: [
+          { name: "dairy", displayName: "milk", reaction: "intolerance" },
+          "tree nuts",
+          { name: "peanut", displayName: "Peanut", reaction: "anaphylaxis", diagnosisSource: "clinician", lastReactionAt: "2025-11-02" },
+        ],
+        current_medications: [{ name: "Zyrtec", dosage: "10mg" }, { name: "epinephrine", displayName: "EpiPen Jr", dosage: "0.15 mg" }],
+        emergency_contacts: [{ name: "Dana", phone: "+1 555 0100", relationship: "mom" }, { name: "no phone" }],
+      },
+      { generatedAt: GENERATED_AT }
+    );
+    assert(plan.allergens.map((a) => a.displayName).join(",") === "Peanut,tree nuts,milk", "most severe first");
+    const peanut = plan.allergens[0];
+    assert(peanut.severity === 98 && peanut.severitySource === "reaction" && peanut.severityLabel === "severe", "personal anaphylaxis → 98 severe");
+    assert(peanut.diagnosisSource === "clinician" && peanut.lastReactionAt === "2025-11-02", "reaction history carried");
+    const treeNut = plan.allergens[1];
+    assert(treeNut.category === "tree_nut" && treeNut.severitySource === "category", "\"tree nuts\" resolves to tree_nut");
+    assert(plan.allergens[2].severityLabel === "mild", "intolerance → mild");
+    assert(plan.meta.profileName === "Maya" && plan.meta.generatedAt === GENERATED_AT, "meta");
+  }
+
+  console.log("\nTest 2: advice and epinephrine");
+  {
+    assert(plan.adviceIds.includes("parent:peanut") && plan.adviceIds.includes("parent:tree_nut"), "advice resolved per allergen");
+    assert(
+      ADVICE_REGISTRY["parent:peanut"].symptomsToWatch.every((s) => plan.symptomsToWatch.includes(s)),
+      "symptoms to watch come from the advice registry"
+    );
+    assert(new Set(plan.symptomsToWatch.map((s) => s.toLowerCase())).size === plan.symptomsToWatch.length, "symptoms de-duplicated");
+    assert(plan.epinephrine.prescribed && plan.epinephrine.devices[0] === "EpiPen Jr 0.15 mg", "EpiPen detected on medications");
+    assert(plan.epinephrine.firstLine, "anaphylaxis history → epinephrine first line");
+    assert(plan.medications.length === 2, "medications listed");
+    assert(plan.emergencyContacts.length === 1 && plan.emergencyContacts[0].relationship === "mom", "malformed contacts dropped");
+
+    const mild = buildActionPlan({ id: "p2", display_name: "Sam", known_allergies: ["kiwi"], current_medications: [] });
+    assert(!mild.epinephrine.prescribed && mild.epinephrine.instructions[0].startsWith("No epinephrine"), "no device → call-911 instructions");
+    assert(!mild.epinephrine.firstLine, "mild allergen → not first line");
+    assert(mild.adviceIds.join(",") === "fallback:general_safety", "unknown allergen → general safety advice");
+  }
+
+  console.log("\nTest 3: emergency contact validation");
+  {
+    assert(validateEmergencyContacts([{ name: "Dana", phone: "(555) 010-0100" }]) === null, "valid contact");
+    assert(validateEmergencyContacts("Dana") !== null, "non-array rejected");
+    assert(validateEmergencyContacts([{ name: "Dana", phone: "call me" }]) !== null, "bad phone rejected");
+    assert(validateEmergencyContacts([{ name: "", phone: "5550100" }]) !== null, "missing name rejected");
+    assert(validateEmergencyContacts(Array.from({ length: 6 }, () => ({ name: "x", phone: "5550100" }))) !== null, "more than 5 rejected");
+    assert(readEmergencyContacts([{ name: " Dana ", phone: "5550100", relationship: "" }])[0].relationship === undefined, "blank relationship dropped");
+  }
+
+  console.log("\nTest 4: formatters");
+  {
+    const text = formatActionPlanAsText(plan);
+    assert(text.includes("ALLERGY EMERGENCY ACTION PLAN") && text.includes("EMERGENCY CONTACTS"), "text sections");
+    assert(text.includes("Peanut — SEVERE (past reaction: anaphylaxis; last reaction 2025-11-02)"), "text allergen line");
+    assert(text.includes("1. Give epinephrine right away"), "numbered epinephrine steps");
+    assert(text.includes("Dana (mom): +1 555 0100"), "text contact line");
+
+    const html = formatActionPlanAsHtml(
+      buildActionPlan({ id: "p3", display_name: "<script>x</script>", known_allergies: ["sesame"] }, { generatedAt: GENERATED_AT })
+    );
+    assert(html.startsWith("<!doctype html>") && html.includes("@media print"), "HTML is a print-ready page");
+    assert(!html.includes("<script>x") && html.includes("&lt;script&gt;x"), "HTML escapes profile data");
+  }
+
+  console.log("\nTest 5: GET /api/report/action-plan");
+  {
+    const json = await call(actionPlanHandler, { method: "GET", query: { profileId: PROFILE_ID } });
+    const body = json.body as { plan: ActionPlan };
+    assert(json.status === 200 && body.plan.meta.profileName === "Amber", "json plan for the seeded profile");
+    assert(body.plan.allergens.some((a) => a.category === "peanut"), "seeded \"peanuts\" resolves");
+
+    const text = await call(actionPlanHandler, { method: "GET", query: { profileId: PROFILE_ID, format: "text", download: "1" } });
+    assert(text.headers["content-type"]?.startsWith("text/plain") === true, "text content type");
+    assert(/attachment; filename="allergy-action-plan-amber-\d{4}-\d{2}-\d{2}\.txt"/.test(text.headers["content-disposition"] ?? ""), "text download filename");
+
+    const html = await call(actionPlanHandler, { method: "GET", query: { profileId: PROFILE_ID, format: "html" } });
+    assert(html.headers["content-type"]?.startsWith("text/html") === true && html.headers["content-disposition"] === undefined, "inline HTML view");
+
+    assert((await call(actionPlanHandler, { method: "GET", query: { profileId: PROFILE_ID, format: "pdf" } })).status === 400, "unknown format → 400");
+    assert((await call(actionPlanHandler, { method: "GET", query: { profileId: "00000000-0000-0000-0000-000000000000" } })).status === 404, "unknown profile → 404");
+  }
+
+  console.log("\nTest 6: PATCH emergency_contacts");
+  {
+    const bad = await call(profileHandler, { method: "PATCH", query: { profileId: PROFILE_ID }, body: { emergency_contacts: [{ name: "Dana" }] } });
+    assert(bad.status === 400, "invalid contact → 400");
+    const ok = await call(profileHandler, {
+      method: "PATCH",
+      query: { profileId: PROFILE_ID },
+      body: { emergency_contacts: [{ name: "Dana", phone: "+1 555 0100", relationship: "mom" }] },
+    });
+    assert(ok.status === 200, "valid contacts saved");
+    const after = await call(actionPlanHandler, { method: "GET", query: { profileId: PROFILE_ID } });
+    const contacts = (after.body as { plan: ActionPlan }).plan.emergencyContacts;
+    assert(contacts.length === 1 && contacts[0].name === "Dana", "plan includes saved contacts");
+  }
+
+  console.log(`\n=== Phase 38 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,234 @@
+/**
+ * Phase 39 – Period report export
+ *
+ * Asserts:
+ * - resolvePeriodRange: defaults, whole-day "to", validation
+ * - buildPeriodReport (pure): checks vs reaction checks, flagged verdicts,
+ *   per-category statistics, rule counts, linked reactions
+ * - text formatter sections
+ * - GET /api/report/period: range filtering, trajectory + stacking insights,
+ *   text download, 400 / 404
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-39
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  buildPeriodReport,
+  resolvePeriodRange,
+  type PeriodCheckInput,
+  type PeriodReport,
+} from "../api/_lib/report/buildPeriodReport.js";
+import { formatPeriodReportAsText } from "../api/_lib/report/formatPeriodReport.js";
+import type { ReactionReport } from "../api/_lib/reactions/reactionReports.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import periodHandler from "../api/_lib/core/_periodReportHandler.js";
+import reactionsHandler from "../api/_lib/core/_reactionsHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+interface MockResult {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+async function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; query?: Record<string, string>; body?: unknown }
+): Promise<MockResult> {
+  const result: MockResult = { status: 200, headers: {}, body: null };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+    send(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await handler(
+    { query: {}, ...req } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return result;
+}
+
+function allergyVerdict(allergen: string, category: string, riskLevel: "medium" | "high" = "high"): PeriodCheckInput["verdict"] {
+  return {
+    riskLevel,
+    reasoning: `Contains ${allergen}`,
+    matched: [{ rule: "allergy_match", details: { allergen, matchedCategory: category } }],
+    meta: { severity: riskLevel === "high" ? 90 : 55 },
+  };
+}
+
+async function insertCheck(
+  daysAgo: number,
+  rawText: string,
+  verdict: PeriodCheckInput["verdict"],
+  events: { event_type: string; event_data: Record<string, unknown> }[]
+): Promise<string> {
+  const supabase = getSupabaseClient();
+  const createdAt = new Date(Date.now() - daysAgo * DAY).toISOString();
+  const { data } = await supabase
+    .from("checks")
+    .insert({ profile_id: PROFILE_ID, raw_text: rawText, verdict, created_at: createdAt })
+    .select("id")
+    .single();
+  const checkId = (data as { id: string }).id;
+  for (const ev of events) {
+    await supabase.from("health_events").insert({ profile_id: PROFILE_ID, check_id: checkId, created_at: createdAt, ...ev });
+  }
+  return checkId;
+}
+
+async function main() {
+  const now = Date.parse("2026-03-31T12:00:00.000Z");
+
+  console.log("\nTest 1: range");
+  {
+    const def = resolvePeriodRange(undefined, undefined, now);
+    assert("range" in def && def.range.to === new Date(now).toISOString(), "default ends now");
+    assert("range" in def && Date.parse(def.range.to) - Date.parse(def.range.from) === 30 * DAY, "default spans 30 days");
+    const days = resolvePeriodRange("2026-03-01", "2026-03-31", now);
+    assert("range" in days && days.range.from === "2026-03-01T00:00:00.000Z" && days.range.to === "2026-03-31T23:59:59.999Z", "date-only to covers the whole day");
+    assert("error" in resolvePeriodRange("2026-03-31", "2026-03-01", now), "from after to rejected");
+    assert("error" in resolvePeriodRange("2024-01-01", "2026-03-01", now), "range over 366 days rejected");
+    assert("error" in resolvePeriodRange("yesterday", undefined, now), "unparseable date rejected");
+  }
+
+  console.log("\nTest 2: buildPeriodReport (pure)");
+  let report: PeriodReport;
+  {
+    const checks: PeriodCheckInput[] = [
+      { id: "c1", created_at: "2026-03-02T08:00:00.000Z", raw_text: "pad thai", verdict: allergyVerdict("peanut", "peanut") },
+      { id: "c2", created_at: "2026-03-05T08:00:00.000Z", raw_text: "cashew cookie", verdict: allergyVerdict("cashew", "tree_nut", "medium") },
+      { id: "c3", created_at: "2026-03-06T08:00:00.000Z", raw_text: "toast", verdict: { riskLevel: "none", reasoning: "ok", matched: [] } },
+      {
+        id: "c4",
+        created_at: "2026-03-07T08:00:00.000Z",
+        raw_text: "satay with walnuts",
+        verdict: {
+          riskLevel: "high",
+          reasoning: "x",
+          matched: [
+            { rule: "allergy_match", details: { allergen: "peanut", matchedCategory: "peanut" } },
+            { rule: "allergy_match", details: { allergen: "walnut", matchedCategory: "tree_nut" } },
+            { rule: "medication_interaction", details: { extracted: "ibuprofen", conflictsWith: "aspirin" } },
+          ],
+          meta: { severity: 95 },
+        },
+      },
+      { id: "r1", created_at: "2026-03-02T09:00:00.000Z", raw_text: "Reaction: hives", verdict: null },
+    ];
+    const reactions: ReactionReport[] = [
+      { id: "e1", checkId: "r1", linkedCheckId: "c1", reportedAt: "2026-03-02T09:00:00.000Z", symptom: "hives", severity: "moderate", onsetMinutes: 30, treatments: ["antihistamine"] },
+    ];
+    report = buildPeriodReport({
+      profile: { id: PROFILE_ID, display_name: "Amber" },
+      range: { from: "2026-03-01T00:00:00.000Z", to: "2026-03-31T23:59:59.999Z" },
+      checks,
+      reactions,
+      trajectory: [],
+      stacking: [],
+      generatedAt: "2026-03-31T12:00:00.000Z",
+    });
+    assert(report.summary.totalChecks === 4, "reaction-report checks are not counted as checks");
+    assert(report.summary.flaggedChecks === 3 && report.flagged.map((f) => f.checkId).join(",") === "c1,c2,c4", "flagged verdicts, oldest first");
+    assert(report.summary.byRiskLevel.high === 2 && report.summary.byRiskLevel.medium === 1 && report.summary.byRiskLevel.none === 1, "counts by risk level");
+    assert(report.summary.byRule.allergy_match === 4 && report.summary.byRule.medication_interaction === 1, "counts by rule");
+    const peanut = report.categories.find((c) => c.category === "peanut");
+    const treeNut = report.categories.find((c) => c.category === "tree_nut");
+    assert(peanut?.flaggedChecks === 2 && peanut.high === 2 && peanut.reactions === 1, "peanut: 2 high checks, 1 linked reaction");
+    assert(treeNut?.flaggedChecks === 2 && treeNut.medium === 1 && treeNut.terms.join(",") === "cashew,walnut", "tree nut: terms merged");
+    assert(treeNut?.label === "Tree Nut", "category label from the taxonomy");
+    assert(report.flagged[0].reactionIds.join(",") === "e1", "flagged check lists its reactions");
+    assert(report.flagged[0].advice?.items.some((i) => i.id === "parent:peanut") === true, "flagged check carries advice");
+    assert(report.checks.every((c) => c.rawText === undefined), "raw text redacted by default");
+  }
+
+  console.log("\nTest 3: text");
+  {
+    const text = formatPeriodReportAsText(report);
+    assert(text.includes("ALLERGY ANGEL PERIOD REPORT") && text.includes("BY ALLERGEN CATEGORY"), "text sections");
+    assert(text.includes("Checks:         4 (3 flagged)"), "summary line");
+    assert(text.includes("hives (moderate), onset 30 min; treated: antihistamine"), "reaction line");
+  }
+
+  console.log("\nTest 4: GET /api/report/period");
+  {
+    const shrimp = await insertCheck(3, "shrimp tacos", allergyVerdict("shrimp", "shellfish"), [
+      { event_type: "meal", event_data: { meal: "shrimp tacos" } },
+    ]);
+    await insertCheck(2, "evening meds", { riskLevel: "none", reasoning: "No known conflicts", matched: [] }, [
+      { event_type: "medication", event_data: { medication: "ibuprofen" } },
+      { event_type: "medication", event_data: { medication: "naproxen" } },
+    ]);
+    await insertCheck(60, "old peanut check", allergyVerdict("peanut", "peanut"), []);
+    const reaction = await call(reactionsHandler, {
+      method: "POST",
+      body: { profileId: PROFILE_ID, checkId: shrimp, symptom: "hives", severity: "mild", onsetMinutes: 45 },
+    });
+    assert(reaction.status === 201, "reaction reported against the shrimp check");
+
+    const res = await call(periodHandler, { method: "GET", query: { profileId: PROFILE_ID } });
+    const body = res.body as PeriodReport;
+    assert(res.status === 200 && body.summary.totalChecks === 2, "default 30-day range excludes the 60-day-old check");
+    assert(body.reactions.length === 1 && body.flagged[0].reactionIds.length === 1, "reaction linked to its flagged check");
+    assert(body.categories[0]?.category === "shellfish" && body.categories[0].reactions === 1, "shellfish category stats");
+    assert(body.trajectory.some((i) => i.confirmed === true), "trajectory insight in range");
+    assert(body.stacking.some((s) => s.meta.classKey === "nsaids"), "functional stacking insight in range");
+
+    const wide = await call(periodHandler, {
+      method: "GET",
+      query: { profileId: PROFILE_ID, from: new Date(Date.now() - 90 * DAY).toISOString().slice(0, 10) },
+    });
+    assert((wide.body as PeriodReport).summary.totalChecks === 3, "explicit from widens the range");
+
+    const text = await call(periodHandler, { method: "GET", query: { profileId: PROFILE_ID, format: "text", download: "1" } });
+    assert(text.headers["content-type"]?.startsWith("text/plain") === true, "text content type");
+    assert(/attachment; filename="allergy-angel-period-\d{4}-\d{2}-\d{2}-to-\d{4}-\d{2}-\d{2}\.txt"/.test(text.headers["content-disposition"] ?? ""), "text download filename");
+    assert(String(text.body).includes("Shellfish"), "text lists the category");
+
+    assert((await call(periodHandler, { method: "GET", query: { profileId: PROFILE_ID, from: "nope" } })).status === 400, "bad range → 400");
+    assert((await call(periodHandler, { method: "GET", query: { profileId: "00000000-0000-0000-0000-000000000000" } })).status === 404, "unknown profile → 404");
+  }
+
+  console.log(`\n=== Phase 39 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,234 @@
+/**
+ * Phase 40 – FHIR import / export
+ *
+ * Asserts (against eval/fixtures/fhir/partner-bundle.json):
+ * - mapFhirBundle: entityResolver + taxonomy resolution, RxNorm display
+ *   names, medicationReference, reaction / verification / lastOccurrence
+ *   mapping, inactive / refuted / completed / unsupported skipped
+ * - POST /api/fhir: dryRun writes nothing; import merges (existing entries
+ *   win, bundle duplicates skipped), unresolved names reach Knowledge Radar;
+ *   re-import is a no-op
+ * - GET /api/fhir: Patient, AllergyIntolerance, MedicationStatement,
+ *   DetectedIssue for flagged checks only; lossless round-trip
+ * - 400 / 404
+ *
+ * Runs on the Phase 29 memory adapter.
+ *
+ * Run: npm run test:phase-40
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import { readFileSync } from "node:fs";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { mapFhirBundle, type FhirImportResult, type StoredAllergy, type StoredMedication } from "../api/_lib/fhir/importFhirBundle.js";
+import type {
+  FhirAllergyIntolerance,
+  FhirBundle,
+  FhirDetectedIssue,
+  FhirMedicationStatement,
+} from "../api/_lib/fhir/fhirTypes.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import { createProfile } from "../api/_lib/profiles/createProfile.js";
+import fhirHandler from "../api/_lib/core/_fhirHandler.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const PARTNER_BUNDLE = JSON.parse(readFileSync("eval/fixtures/fhir/partner-bundle.json", "utf-8")) as FhirBundle;
+
+interface MockResult {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+async function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; query?: Record<string, string>; body?: unknown }
+): Promise<MockResult> {
+  const result: MockResult = { status: 200, headers: {}, body: null };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+    send(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await handler(
+    { query: {}, ...req } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return result;
+}
+
+interface ImportBody {
+  result: FhirImportResult;
+  profile: { known_allergies: (string | StoredAllergy)[]; current_medications: StoredMedication[]; supplements: StoredMedication[] };
+}
+
+function names(list: (string | { name: string })[]): string[] {
+  return list.map((e) => (typeof e === "string" ? e : e.name));
+}
+
+function resources<T>(bundle: FhirBundle, type: string): T[] {
+  return (bundle.entry ?? []).map((e) => e.resource).filter((r) => r?.resourceType === type) as T[];
+}
+
+async function main() {
+  console.log("\nTest 1: mapFhirBundle (pure)");
+  {
+    const { items, skipped } = mapFhirBundle(PARTNER_BUNDLE);
+    const byId = new Map(items.map((i) => [i.resourceId, i]));
+
+    const peanut = byId.get("ai-peanut")?.entry as StoredAllergy | undefined;
+    assert(peanut?.name === "peanut" && byId.get("ai-peanut")?.resolved === true, "coding display resolves through entityResolver");
+    assert(peanut?.reaction === "anaphylaxis" && peanut.diagnosisSource === "clinician" && peanut.lastReactionAt === "2025-08-14", "reaction, verification and onset mapped");
+    const shellfish = byId.get("ai-shellfish");
+    assert(shellfish?.entry.name === "shellfish" && shellfish.resolved, "taxonomy category resolves when the registry does not");
+    assert((shellfish?.entry as StoredAllergy).reaction === "hives" && (shellfish?.entry as StoredAllergy).diagnosisSource === "self_reported", "urticaria → hives, unconfirmed → self_reported");
+    const penicillin = byId.get("ai-penicillin");
+    assert(penicillin?.entry.name === "penicillin g" && !penicillin.resolved && penicillin.radarType === "medication", "unknown drug allergy kept, unresolved");
+
+    const lisinopril = byId.get("ms-lisinopril");
+    assert(lisinopril?.kind === "medication" && lisinopril.entry.name === "lisinopril", "RxNorm clinical drug name → ingredient");
+    assert(lisinopril?.entry.displayName === "Lisinopril 10 MG Oral Tablet" && (lisinopril.entry as StoredMedication).dosage === "1 tablet by mouth daily", "display name and dosage kept");
+    assert(byId.get("ms-fish-oil")?.kind === "supplement" && byId.get("ms-fish-oil")?.entry.name === "omega-3-fatty-acid", "supplements routed to supplements");
+    const epi = byId.get("mr-epi");
+    assert(epi?.entry.name === "epinephrine" && (epi.entry as StoredMedication).dosage === "0.3 mg" && !epi.resolved, "medicationReference followed, doseQuantity used");
+
+    const reasons = new Map(skipped.map((s) => [s.resourceId, s.reason]));
+    assert(reasons.get("ai-latex") === "clinicalStatus resolved", "resolved allergy skipped");
+    assert(reasons.get("ai-egg") === "verificationStatus refuted", "refuted allergy skipped");
+    assert(reasons.get("ms-amoxicillin") === "status completed", "completed statement skipped");
+    assert(reasons.get("cond-asthma") === "unsupported resource type", "unsupported resource reported");
+    assert(!reasons.has("pt-1") && !reasons.has("med-epi"), "Patient / Medication not reported as skipped");
+  }
+
+  console.log("\nTest 2: POST dryRun");
+  {
+    const res = await call(fhirHandler, { method: "POST", query: { profileId: PROFILE_ID, dryRun: "1" }, body: PARTNER_BUNDLE });
+    const body = res.body as ImportBody;
+    assert(res.status === 200 && body.result.dryRun && body.result.flaggedToRadar.length === 0, "dryRun result, nothing flagged");
+    assert(names(body.profile.known_allergies).join(",") === "peanuts,tree nuts", "dryRun leaves the profile unchanged");
+  }
+
+  console.log("\nTest 3: POST import");
+  {
+    const res = await call(fhirHandler, { method: "POST", query: { profileId: PROFILE_ID }, body: PARTNER_BUNDLE });
+    const body = res.body as ImportBody;
+    const imported = new Map(body.result.imported.map((i) => [i.resourceId, i]));
+    assert(res.status === 200, "200");
+    assert(imported.get("ai-peanut")?.alreadyExisted === true, "\"peanut\" matches the stored \"peanuts\"");
+    assert(imported.get("ms-cetirizine")?.alreadyExisted === true, "\"Cetirizine\" matches the stored \"Zyrtec\"");
+    assert(names(body.profile.known_allergies).join(",") === "peanuts,tree nuts,shellfish,penicillin g", "new allergies appended");
+    assert(names(body.profile.current_medications).join(",") === "Zyrtec,lisinopril,epinephrine", "new medications appended");
+    assert(names(body.profile.supplements).includes("omega-3-fatty-acid"), "supplement appended");
+    assert(body.result.skipped.some((s) => s.resourceId === "mr-lisinopril" && s.reason === "duplicate of an earlier entry"), "request duplicating a statement skipped");
+    assert(body.result.flaggedToRadar.sort().join(",") === "epinephrine,penicillin g", "unresolved names flagged to Knowledge Radar");
+
+    const { data: radar } = await getSupabaseClient().from("unknown_entity_daily").select("entity, entity_type");
+    const rows = (radar ?? []) as { entity: string; entity_type: string }[];
+    assert(rows.some((r) => r.entity === "penicillin g" && r.entity_type === "medication"), "radar row for the drug allergy");
+    assert(rows.some((r) => r.entity === "epinephrine"), "radar row for the medication");
+
+    const again = await call(fhirHandler, { method: "POST", query: { profileId: PROFILE_ID }, body: PARTNER_BUNDLE });
+    const againBody = again.body as ImportBody;
+    assert(againBody.result.imported.every((i) => i.alreadyExisted) && againBody.result.flaggedToRadar.length === 0, "re-import is a no-op");
+    assert(againBody.profile.known_allergies.length === 4, "no duplicate allergies");
+  }
+
+  console.log("\nTest 4: GET export");
+  let exported: FhirBundle;
+  {
+    const supabase = getSupabaseClient();
+    await supabase.from("checks").insert({
+      profile_id: PROFILE_ID,
+      raw_text: "shrimp pad thai",
+      verdict: {
+        riskLevel: "high",
+        reasoning: "Contains shellfish (shrimp)",
+        matched: [{ rule: "allergy_match", details: { allergen: "shrimp", matchedCategory: "shellfish" } }],
+        meta: { severity: 90 },
+      },
+    });
+    await supabase.from("checks").insert({
+      profile_id: PROFILE_ID,
+      raw_text: "toast",
+      verdict: { riskLevel: "none", reasoning: "No known conflicts", matched: [] },
+    });
+
+    const res = await call(fhirHandler, { method: "GET", query: { profileId: PROFILE_ID, download: "1" } });
+    exported = JSON.parse(String(res.body)) as FhirBundle;
+    assert(res.headers["content-type"]?.startsWith("application/fhir+json") === true, "application/fhir+json");
+    assert(/attachment; filename="allergy-angel-fhir-a0000000-\d{4}-\d{2}-\d{2}\.json"/.test(res.headers["content-disposition"] ?? ""), "download filename");
+    assert(exported.resourceType === "Bundle" && exported.type === "collection", "collection bundle");
+
+    const allergies = resources<FhirAllergyIntolerance>(exported, "AllergyIntolerance");
+    assert(allergies.length === 4, "one AllergyIntolerance per allergy");
+    const shellfish = allergies.find((a) => a.code?.text === "Shellfish");
+    assert(shellfish?.reaction?.[0]?.manifestation?.[0]?.text === "Hives" && shellfish.verificationStatus?.coding?.[0]?.code === "unconfirmed", "reaction and verification exported");
+    assert(allergies.find((a) => a.code?.coding?.[0]?.code === "penicillin g")?.lastOccurrence === "2019-03-02", "lastOccurrence exported");
+    assert(allergies.every((a) => a.patient?.reference === `Patient/${PROFILE_ID}`), "allergies reference the patient");
+
+    const statements = resources<FhirMedicationStatement>(exported, "MedicationStatement");
+    assert(statements.length === 4, "medications and supplements exported as MedicationStatement");
+    assert(statements.find((s) => s.medicationCodeableConcept?.coding?.[0]?.code === "lisinopril")?.dosage?.[0]?.text === "1 tablet by mouth daily", "dosage exported");
+
+    const issues = resources<FhirDetectedIssue>(exported, "DetectedIssue");
+    assert(issues.length === 1 && issues[0].severity === "high", "only flagged checks exported");
+    assert(issues[0].code?.coding?.[0]?.code === "allergy_match" && issues[0].evidence?.[0]?.code?.[0]?.text === "shrimp", "rule kind and matched term");
+  }
+
+  console.log("\nTest 5: round-trip");
+  {
+    const fresh = await createProfile({ name: "Round Trip" });
+    const res = await call(fhirHandler, { method: "POST", query: { profileId: fresh.id }, body: exported });
+    const body = res.body as ImportBody;
+    assert(body.result.imported.length === 8 && body.result.imported.every((i) => i.resolved), "every exported entry re-imports resolved");
+    assert(body.result.flaggedToRadar.length === 0, "own codings are not re-flagged");
+    assert(names(body.profile.current_medications).sort().join(",") === "epinephrine,lisinopril,zyrtec", "medications survive the round-trip");
+    const shellfish = body.profile.known_allergies.find((a) => typeof a !== "string" && a.name === "shellfish") as StoredAllergy | undefined;
+    assert(shellfish?.reaction === "hives" && shellfish.diagnosisSource === "self_reported", "allergy details survive the round-trip");
+    assert(body.result.skipped.filter((s) => s.resourceType === "DetectedIssue").length === 1, "DetectedIssue skipped on import");
+  }
+
+  console.log("\nTest 6: errors");
+  {
+    assert((await call(fhirHandler, { method: "POST", query: { profileId: PROFILE_ID }, body: { resourceType: "Patient" } })).status === 400, "non-bundle → 400");
+    assert((await call(fhirHandler, { method: "POST", query: { profileId: "00000000-0000-0000-0000-000000000000" }, body: PARTNER_BUNDLE })).status === 404, "import into unknown profile → 404");
+    assert((await call(fhirHandler, { method: "GET", query: { profileId: "00000000-0000-0000-0000-000000000000" } })).status === 404, "export of unknown profile → 404");
+    assert((await call(fhirHandler, { method: "DELETE", query: { profileId: PROFILE_ID } })).status === 405, "DELETE → 405");
+  }
+
+  console.log(`\n=== Phase 40 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,325 @@
+/**
+ * Phase 41 – RxNorm-coded medication resolution at runtime
+ *
+ * Asserts:
+ * - drug registry entries carry RxCUIs; resolveRxcui finds them
+ * - combination products (NyQuil, Excedrin, Advil PM) resolve to ingredient
+ *   canonical ids; resolveIngredients expands them
+ * - interaction, class, food/supplement → medication rules fire on
+ *   ingredients; a shared ingredient is not a class interaction
+ * - functional stacking and the intake ledger count ingredients
+ * - FHIR import resolves RxNorm codings by RxCUI; export adds them
+ * - RxNorm parser derives RxCUI, brand alias and ingredients
+ *   (eval/fixtures/rxnorm-combination-sample.rrf)
+ * - governed path: candidate → create-entry proposal → promoted entity keeps
+ *   rxcui + ingredients (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-41
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+process.env.ADMIN_ENABLED = "true";
+
+import * as path from "path";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import {
+  clearPromotedRegistryEntitiesForTest,
+  resolveEntity,
+  resolveIngredients,
+  resolveRxcui,
+  setPromotedRegistryEntitiesForTest,
+} from "../api/_lib/knowledge/entityResolver.js";
+import { toResolutionMetadata } from "../api/_lib/knowledge/types.js";
+import { DRUGS } from "../api/_lib/knowledge/drugs.registry.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+import {
+  findDrugInteraction,
+  functionalClassInteracts,
+  medicationInteracts,
+  toInteractionSubject,
+} from "../api/_lib/inference/drugInteractions.js";
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import { ingestibleClasses } from "../api/_lib/inference/detectFunctionalStacking.js";
+import { buildIntakeLedger, detectIntakeFindings, type IntakeEventRow } from "../api/_lib/intake/intakeLedger.js";
+import { mapFhirBundle } from "../api/_lib/fhir/importFhirBundle.js";
+import { buildFhirBundle } from "../api/_lib/fhir/exportFhirBundle.js";
+import { RXNORM_SYSTEM, type FhirBundle, type FhirMedicationStatement } from "../api/_lib/fhir/fhirTypes.js";
+import { parseRxNormConso } from "../scripts/ingestion/rxnorm/parser.js";
+import type { IngestionCandidate } from "../api/_lib/ingestion/types.js";
+import { fetchCandidates, saveCandidates } from "../api/_lib/ingestion/candidateStore.js";
+import { listProposals } from "../api/_lib/admin/aliasProposalStore.js";
+import { canonicalEntityFromCreateEntryProposal } from "../api/_lib/knowledge/promotedRegistryApply.js";
+import orchestrator from "../api/orchestrator.js";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+interface MockResult {
+  status: number;
+  body: unknown;
+}
+
+async function call(
+  handler: (req: VercelRequest, res: VercelResponse) => unknown,
+  req: { method: string; query?: Record<string, string>; body?: unknown }
+): Promise<MockResult> {
+  const result: MockResult = { status: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+    json(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+    send(payload: unknown) {
+      result.body = payload;
+      return res;
+    },
+  };
+  await handler(
+    { method: req.method, query: req.query ?? {}, body: req.body ?? {}, headers: {} } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return result;
+}
+
+function med(checkId: string, createdAt: string, medication: string, dosage: string | null = null): IntakeEventRow {
+  return { check_id: checkId, created_at: createdAt, event_type: "medication", event_data: { medication, dosage } };
+}
+
+function medVerdict(extracted: string, current: string) {
+  return checkRisk({
+    profile: { known_allergies: [], current_medications: [{ name: current }] },
+    events: [{ type: "medication", fields: { medication: extracted } }],
+  });
+}
+
+async function main() {
+  console.log("\nTest 1: registry RxCUIs and resolveRxcui");
+  {
+    assert(REGISTRY_VERSIONS.drug === "41.1", "drug registry version bumped");
+    const rxcuis = DRUGS.flatMap((d) => (d.rxcui ? [d.rxcui] : []));
+    assert(new Set(rxcuis).size === rxcuis.length, "RxCUIs are unique");
+    const ids = new Set(DRUGS.map((d) => d.id));
+    assert(
+      DRUGS.every((d) => (d.ingredients ?? []).every((i) => ids.has(i))),
+      "every combination ingredient is a registry drug"
+    );
+    assert(DRUGS.every((d) => !d.ingredients || d.class === undefined), "combination products have no class of their own");
+
+    assert(resolveEntity("ibuprofen").rxcui === "5640", "resolveEntity carries rxcui");
+    const byRxcui = resolveRxcui("11289");
+    assert(byRxcui?.canonical === "warfarin" && byRxcui.class === "anticoagulant", "RxCUI 11289 → warfarin");
+    assert(resolveRxcui(" 161 ")?.canonical === "acetaminophen", "RxCUI is trimmed");
+    assert(resolveRxcui("999999999") === null, "unknown RxCUI → null");
+  }
+
+  console.log("\nTest 2: combination products resolve to ingredients");
+  {
+    const nyquil = resolveEntity("NyQuil");
+    assert(nyquil.resolved && nyquil.canonical === "nyquil" && nyquil.type === "drug", "NyQuil resolves");
+    assert(
+      nyquil.ingredients?.join(",") === "acetaminophen,dextromethorphan,doxylamine",
+      "NyQuil → acetaminophen, dextromethorphan, doxylamine"
+    );
+    assert(resolveEntity("Excedrin Migraine").ingredients?.includes("aspirin") === true, "Excedrin Migraine lists aspirin");
+    assert(resolveEntity("Zyrtec-D").canonical === "zyrtec-d", "hyphenated brand resolves");
+    assert(resolveEntity("Advil PM").canonical === "advil-pm", "Advil PM is not Advil");
+    assert(resolveEntity("Advil").ingredients === undefined, "single-ingredient product has no ingredient list");
+
+    const expanded = resolveIngredients(resolveEntity("Excedrin"));
+    assert(expanded.map((e) => e.canonical).join(",") === "acetaminophen,aspirin,caffeine", "resolveIngredients expands");
+    assert(expanded.every((e) => e.raw === "Excedrin" && e.resolved), "ingredient resolutions keep the product raw");
+    assert(expanded.find((e) => e.canonical === "aspirin")?.class === "nsaid", "ingredient classes resolved");
+    const single = resolveIngredients(resolveEntity("Advil"));
+    assert(single.length === 1 && single[0].canonical === "ibuprofen", "single-ingredient returns itself");
+
+    const meta = toResolutionMetadata(nyquil);
+    assert(meta.ingredients?.length === 3 && meta.rxcui === undefined, "resolution metadata lists ingredients");
+    assert(toResolutionMetadata(resolveEntity("Zyrtec")).rxcui === "20610", "resolution metadata carries rxcui");
+  }
+
+  console.log("\nTest 3: interaction rules fire on ingredients");
+  {
+    const excedrin = toInteractionSubject("Excedrin (2 tablets)");
+    assert(excedrin.ingredients?.length === 3, "interaction subject carries ingredients");
+    assert(
+      findDrugInteraction(excedrin, toInteractionSubject("warfarin"))?.id === "ddi:aspirin+warfarin",
+      "Excedrin + warfarin → ddi:aspirin+warfarin"
+    );
+    assert(
+      findDrugInteraction(toInteractionSubject("Advil PM"), toInteractionSubject("Excedrin"))?.id === "ddi:ibuprofen+aspirin",
+      "combination vs combination checks ingredient pairs"
+    );
+    assert(findDrugInteraction(excedrin, toInteractionSubject("aspirin")) === null, "shared ingredient is not a pair rule");
+
+    const conflict = medicationInteracts("NyQuil", [{ name: "Zoloft" }]);
+    assert(conflict === null || conflict.extracted === "NyQuil", "medicationInteracts reports the product as entered");
+    const viaCheck = medVerdict("Excedrin", "Coumadin");
+    assert(viaCheck.riskLevel === "high", "checkRisk: Excedrin on Coumadin → registry severity");
+    assert(
+      viaCheck.matched?.some((m) => m.rule === "medication_interaction" && m.details?.interactionId === "ddi:aspirin+warfarin") === true,
+      "checkRisk records the ingredient rule"
+    );
+
+    const cls = functionalClassInteracts("Excedrin", [{ name: "Eliquis" }]);
+    assert(cls?.classRuleId === "fci:anticoagulants+anticoagulants", "class rule through aspirin in Excedrin");
+    assert(functionalClassInteracts("Excedrin", [{ name: "aspirin" }]) === null, "same ingredient both sides → no class rule");
+    assert(medVerdict("Advil PM", "Eliquis").riskLevel === "high", "Advil PM on Eliquis → high (NSAID class)");
+  }
+
+  console.log("\nTest 4: food / supplement rules see profile combination products");
+  {
+    const v = checkRisk({
+      profile: { known_allergies: [], current_medications: [{ name: "Excedrin" }] },
+      events: [{ type: "supplement", fields: { supplement: "ginkgo" } }],
+    });
+    assert(
+      v.matched?.some((m) => m.rule === "supplement_medication_interaction" && m.details?.medication === "Excedrin") === true,
+      "ginkgo with Excedrin (aspirin) → supplement interaction"
+    );
+  }
+
+  console.log("\nTest 5: stacking and intake ledger count ingredients");
+  {
+    assert(ingestibleClasses("Excedrin").includes("anticoagulants"), "Excedrin → anticoagulants via aspirin");
+    assert(ingestibleClasses("Advil PM").includes("nsaids"), "Advil PM → nsaids via ibuprofen");
+    assert(ingestibleClasses("advil").join(",") === "nsaids", "term match unchanged");
+
+    const t0 = Date.parse("2026-03-01T08:00:00.000Z");
+    const at = (h: number) => new Date(t0 + h * 3_600_000).toISOString();
+    const ledger = buildIntakeLedger([
+      med("c1", at(0), "NyQuil", "30 mL"),
+      med("c2", at(6), "Tylenol", "1000mg"),
+    ]);
+    assert(ledger[0].ingredients.join(",") === "acetaminophen,dextromethorphan,doxylamine", "ledger lists ingredients");
+    const dup = detectIntakeFindings(ledger).find((f) => f.kind === "duplicate_ingredient");
+    assert(dup?.key === "acetaminophen" && dup.items.join(",") === "NyQuil,Tylenol", "NyQuil + Tylenol → acetaminophen duplicate");
+    assert(dup?.totalDose === "1 g" || dup?.totalDose === "1000 mg", "product-level dose not counted toward the ingredient");
+  }
+
+  console.log("\nTest 6: FHIR RxNorm codings");
+  {
+    const bundle: FhirBundle = {
+      resourceType: "Bundle",
+      type: "collection",
+      entry: [
+        {
+          resource: {
+            resourceType: "MedicationStatement",
+            id: "ms-1",
+            status: "active",
+            medicationCodeableConcept: { coding: [{ system: RXNORM_SYSTEM, code: "11289" }] },
+          } as FhirMedicationStatement,
+        },
+        {
+          resource: {
+            resourceType: "MedicationStatement",
+            id: "ms-2",
+            status: "active",
+            medicationCodeableConcept: {
+              text: "Generic blood thinner 5 MG",
+              coding: [{ system: RXNORM_SYSTEM, code: "1364430", display: "apixaban 5 MG Oral Tablet" }],
+            },
+          } as FhirMedicationStatement,
+        },
+      ],
+    };
+    const { items, skipped } = mapFhirBundle(bundle);
+    assert(skipped.length === 0 && items.length === 2, "code-only RxNorm statement is imported");
+    assert(items[0].entry.name === "warfarin" && items[0].resolved, "RxCUI 11289 → warfarin");
+    assert(items[1].entry.name === "apixaban" && items[1].entry.displayName === "Generic blood thinner 5 MG", "RxCUI wins over display text");
+
+    const exported = buildFhirBundle(
+      { id: "p1", display_name: "Test", current_medications: [{ name: "warfarin" }, { name: "nyquil", displayName: "NyQuil" }] },
+      [],
+      { generatedAt: "2026-03-01T00:00:00.000Z" }
+    );
+    const statements = (exported.entry ?? [])
+      .map((e) => e.resource)
+      .filter((r): r is FhirMedicationStatement => r?.resourceType === "MedicationStatement");
+    const warfarin = statements[0].medicationCodeableConcept?.coding ?? [];
+    assert(warfarin.some((c) => c.system === RXNORM_SYSTEM && c.code === "11289"), "export adds RxNorm coding");
+    assert(
+      !(statements[1].medicationCodeableConcept?.coding ?? []).some((c) => c.system === RXNORM_SYSTEM),
+      "no RxNorm coding without an RxCUI"
+    );
+    const reimported = mapFhirBundle(exported).items.map((i) => i.entry.name);
+    assert(reimported.join(",") === "warfarin,nyquil", "export round-trips");
+  }
+
+  console.log("\nTest 7: RxNorm parser links");
+  const parsed: IngestionCandidate[] = [];
+  for await (const c of parseRxNormConso(path.join(process.cwd(), "eval/fixtures/rxnorm-combination-sample.rrf"), "test")) {
+    parsed.push(c);
+  }
+  {
+    const nyquil = parsed.find((c) => c.rxcui === "10");
+    assert(nyquil?.ingredients?.join(",") === "acetaminophen,dextromethorphan,doxylamine", "SBD → ingredient canonical ids");
+    assert(nyquil?.aliases.includes("nyquil") === true, "bracketed brand becomes an alias");
+    const min = parsed.find((c) => c.rxcui === "11");
+    assert(min?.ingredients?.join(",") === "acetaminophen,aspirin,caffeine", "MIN names list ingredients");
+    const single = parsed.find((c) => c.rxcui === "12");
+    assert(single?.rxcui === "12" && single.ingredients === undefined, "single ingredient: rxcui only");
+    const unknown = parsed.find((c) => c.rxcui === "13");
+    assert(unknown?.ingredients?.join(",") === "acetaminophen,zolmitriptan", "unresolved ingredient is normalized");
+  }
+
+  console.log("\nTest 8: governed promotion keeps RxNorm links");
+  {
+    const nyquil = parsed.find((c) => c.rxcui === "10");
+    if (!nyquil) throw new Error("fixture candidate missing");
+    const saved = await saveCandidates([{ ...nyquil, canonicalId: "nyquil-liquicaps" }]);
+    assert(saved === 1, "candidate staged");
+    const staged = (await fetchCandidates({ status: "pending" })).find((c) => c.rxcui === "10");
+    assert(staged?.ingredients?.length === 3, "candidate store round-trips rxcui + ingredients");
+    assert(resolveEntity("nyquil liquicaps").resolved === false, "staging does not touch the runtime registry");
+
+    const res = await call(orchestrator, {
+      method: "POST",
+      query: { action: "ingestion-create-proposal" },
+      body: { candidateId: staged?.id, createdBy: "eval" },
+    });
+    assert(res.status === 200, "create-entry proposal created");
+    const proposal = (await listProposals({ status: "pending" })).find((p) => p.canonical_id === "nyquil-liquicaps");
+    assert(proposal?.proposed_entry?.rxcui === "10", "proposal carries rxcui");
+
+    if (proposal) {
+      const entity = canonicalEntityFromCreateEntryProposal(proposal);
+      assert(entity.type === "drug" && entity.ingredients?.length === 3, "promoted entity is a drug with ingredients");
+      setPromotedRegistryEntitiesForTest([entity]);
+      assert(resolveRxcui("10")?.canonical === "nyquil-liquicaps", "promoted RxCUI resolves");
+      assert(
+        findDrugInteraction(toInteractionSubject("NyQuil LiquiCaps"), toInteractionSubject("warfarin")) === null,
+        "no ingredient of NyQuil has a warfarin pair rule"
+      );
+      assert(ingestibleClasses("nyquil liquicaps").length === 0, "no functional class for NyQuil ingredients");
+      clearPromotedRegistryEntitiesForTest();
+    }
+    assert(resolveRxcui("10") === null, "cleared promotions drop the RxCUI index");
+  }
+
+  console.log(`\n=== Phase 41 Results: ${pass} passed, ${fail} failed ===\n`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
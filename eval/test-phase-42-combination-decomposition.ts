@@ -0,0 +1,223 @@
+/**
+ * Phase 42 – Combination product decomposition with ingredient provenance
+ *
+ * Asserts:
+ * - enrichWithResolution expands a combination product event into
+ *   ingredient-level resolutions; single-ingredient events get none
+ * - interaction, class and supplement → medication matches record which
+ *   ingredient fired (extractedIngredient / conflictsWithIngredient /
+ *   medicationIngredient) and checkRisk reasoning says
+ *   "via ingredient X of product Y"
+ * - buildCheckReport keeps the provenance; formatReportAsText prints it
+ * - functional stacking names the ingredient in description + meta
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-42
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import { enrichWithResolution } from "../api/_lib/knowledge/enrichWithResolution.js";
+import {
+  describeViaIngredients,
+  findDrugInteractionMatch,
+  functionalClassInteracts,
+  medicationInteracts,
+  toInteractionSubject,
+} from "../api/_lib/inference/drugInteractions.js";
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import {
+  detectFunctionalStacking,
+  ingestibleClassMatches,
+} from "../api/_lib/inference/detectFunctionalStacking.js";
+import { buildCheckReport } from "../api/_lib/report/buildCheckReport.js";
+import { formatReportAsText } from "../api/_lib/report/formatReportAsText.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+async function insertCheck(events: { event_type: string; event_data: Record<string, unknown> }[]): Promise<string> {
+  const supabase = getSupabaseClient();
+  const createdAt = new Date().toISOString();
+  const { data } = await supabase
+    .from("checks")
+    .insert({
+      profile_id: PROFILE_ID,
+      raw_text: "stacking check",
+      verdict: { riskLevel: "none", reasoning: "No known conflicts", matched: [] },
+      created_at: createdAt,
+    })
+    .select("id")
+    .single();
+  const checkId = (data as { id: string }).id;
+  for (const ev of events) {
+    await supabase.from("health_events").insert({ profile_id: PROFILE_ID, check_id: checkId, created_at: createdAt, ...ev });
+  }
+  return checkId;
+}
+
+async function main() {
+  console.log("\nTest 1: enrichWithResolution expands combination products");
+  {
+    const [excedrin, aspirin, meal] = enrichWithResolution([
+      { type: "medication", fields: { medication: "Excedrin" } },
+      { type: "medication", fields: { medication: "aspirin" } },
+      { type: "meal", fields: { meal: "toast" } },
+    ]);
+    assert(excedrin.resolution?.canonical === "excedrin", "resolution stays the product");
+    const ids = (excedrin.ingredientResolutions ?? []).map((r) => r.canonical).sort();
+    assert(
+      JSON.stringify(ids) === JSON.stringify(["acetaminophen", "aspirin", "caffeine"]),
+      "Excedrin → acetaminophen + aspirin + caffeine"
+    );
+    assert(
+      (excedrin.ingredientResolutions ?? []).every((r) => r.raw === "Excedrin" && r.type === "drug"),
+      "ingredient resolutions keep the product as raw"
+    );
+    assert(aspirin.ingredientResolutions === undefined, "single-ingredient drug has no ingredientResolutions");
+    assert(meal.ingredientResolutions === undefined, "meal has no ingredientResolutions");
+  }
+
+  console.log("\nTest 2: interaction matches name the ingredient");
+  {
+    const match = findDrugInteractionMatch(toInteractionSubject("Excedrin"), toInteractionSubject("Coumadin"));
+    assert(match?.a.canonicalId === "aspirin" && match.b.canonicalId === "warfarin", "findDrugInteractionMatch reports the matched pair");
+
+    const conflict = medicationInteracts("Excedrin", [{ name: "Coumadin" }]);
+    assert(conflict?.extractedIngredient === "aspirin", "extractedIngredient = aspirin");
+    assert(conflict?.conflictsWithIngredient === undefined, "brand of a single drug is not an ingredient hop");
+
+    const reverse = medicationInteracts("Coumadin", [{ name: "Excedrin" }]);
+    assert(reverse?.conflictsWithIngredient === "aspirin", "conflictsWithIngredient on the profile side");
+    assert(reverse?.extractedIngredient === undefined, "no extractedIngredient for a single drug");
+
+    const direct = medicationInteracts("aspirin", [{ name: "warfarin" }]);
+    assert(
+      direct !== null && direct.extractedIngredient === undefined && direct.conflictsWithIngredient === undefined,
+      "plain drugs carry no provenance"
+    );
+
+    const cls = functionalClassInteracts("Advil PM", [{ name: "Eliquis" }]);
+    assert(cls?.extractedIngredient === "ibuprofen", "class rule: Advil PM via ibuprofen");
+  }
+
+  console.log("\nTest 3: describeViaIngredients");
+  {
+    assert(
+      JSON.stringify(describeViaIngredients({ extracted: "Excedrin", extractedIngredient: "aspirin" })) ===
+        JSON.stringify(["via ingredient aspirin of product Excedrin"]),
+      "extracted side"
+    );
+    assert(
+      describeViaIngredients({ supplement: "ginkgo", medication: "Excedrin", medicationIngredient: "aspirin" })[0] ===
+        "via ingredient aspirin of product Excedrin",
+      "medication side"
+    );
+    assert(describeViaIngredients({ extracted: "aspirin" }).length === 0, "no provenance → no lines");
+  }
+
+  console.log("\nTest 4: checkRisk reasoning and details");
+  {
+    const v = checkRisk({
+      profile: { known_allergies: [], current_medications: [{ name: "Coumadin" }] },
+      events: [{ type: "medication", fields: { medication: "Excedrin" } }],
+    });
+    const m = v.matched?.find((x) => x.rule === "medication_interaction");
+    assert(m?.details.extractedIngredient === "aspirin", "medication_interaction details carry extractedIngredient");
+    assert(v.reasoning.includes("via ingredient aspirin of product Excedrin"), "reasoning names the ingredient");
+
+    const s = checkRisk({
+      profile: { known_allergies: [], current_medications: [{ name: "Excedrin" }] },
+      events: [{ type: "supplement", fields: { supplement: "ginkgo" } }],
+    });
+    const sm = s.matched?.find((x) => x.rule === "supplement_medication_interaction");
+    assert(sm?.details.medicationIngredient === "aspirin", "supplement rule records medicationIngredient");
+    assert(s.reasoning.includes("via ingredient aspirin of product Excedrin"), "supplement reasoning names the ingredient");
+
+    const plain = checkRisk({
+      profile: { known_allergies: [], current_medications: [{ name: "aspirin" }] },
+      events: [{ type: "supplement", fields: { supplement: "ginkgo" } }],
+    });
+    assert(!plain.reasoning.includes("via ingredient"), "single drug reasoning unchanged");
+  }
+
+  console.log("\nTest 5: report and text export");
+  {
+    const verdict = checkRisk({
+      profile: { known_allergies: [], current_medications: [{ name: "Coumadin" }] },
+      events: [{ type: "medication", fields: { medication: "Excedrin" } }],
+    });
+    const report = buildCheckReport({
+      check: {
+        id: "c-42",
+        profile_id: PROFILE_ID,
+        created_at: "2026-10-01T12:00:00.000Z",
+        raw_text: "took excedrin",
+        verdict: verdict as Parameters<typeof buildCheckReport>[0]["check"]["verdict"],
+      },
+      events: [{ id: "e1", created_at: "2026-10-01T12:00:00.000Z", event_type: "medication", event_data: { medication: "Excedrin" } }],
+    });
+    const entry = report.output.verdict.matched.find((m) => m.kind === "medication_interaction");
+    assert(entry?.details?.extractedIngredient === "aspirin", "report details keep extractedIngredient");
+    assert(
+      JSON.stringify(entry?.viaIngredients) === JSON.stringify(["via ingredient aspirin of product Excedrin"]),
+      "report entry lists viaIngredients"
+    );
+
+    const data = {
+      meta: { checkId: "c-42", profileId: PROFILE_ID, createdAt: "2026-10-01T12:00:00.000Z" },
+      input: { events: [{ event_type: "medication", event_data: { medication: "Excedrin" } }] },
+      output: { verdict: { riskLevel: verdict.riskLevel, meta: {}, matched: report.output.verdict.matched } },
+    };
+    const text = formatReportAsText(data);
+    assert(text.includes("Via ingredient aspirin of product Excedrin"), "text report (report matches) prints provenance");
+
+    const rawText = formatReportAsText(
+      { ...data, output: { verdict: { riskLevel: "medium", meta: {}, matched: [] } } },
+      { rawMatched: (verdict.matched ?? []).map((m) => ({ rule: m.rule, details: m.details })) }
+    );
+    assert(rawText.includes("Via ingredient aspirin of product Excedrin"), "text report (raw matches) prints provenance");
+  }
+
+  console.log("\nTest 6: functional stacking provenance");
+  {
+    const matches = ingestibleClassMatches("Excedrin");
+    assert(
+      matches.some((m) => m.classKey === "anticoagulants" && m.viaIngredient === "aspirin"),
+      "Excedrin → anticoagulant via aspirin"
+    );
+    assert(ingestibleClassMatches("aspirin").every((m) => m.viaIngredient === undefined), "direct match has no viaIngredient");
+
+    const checkId = await insertCheck([
+      { event_type: "medication", event_data: { medication: "Excedrin" } },
+      { event_type: "medication", event_data: { medication: "warfarin" } },
+    ]);
+    const insights = await detectFunctionalStacking({ profileId: PROFILE_ID });
+    const stack = insights.find((i) => i.supportingEvents.includes(checkId) && i.meta.viaIngredients?.Excedrin);
+    assert(stack !== undefined, "stacking insight found for Excedrin + warfarin");
+    assert(stack?.meta.viaIngredients?.Excedrin === "aspirin", "meta.viaIngredients maps product → ingredient");
+    assert(stack?.description.includes("Via ingredient aspirin of product Excedrin") === true, "description names the ingredient");
+  }
+
+  console.log(`\n=== Phase 42 Results: ${pass} passed, ${fail} failed ===\n`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,251 @@
+/**
+ * Phase 43 – Dish knowledge registry + restaurant menu / recipe mode
+ *
+ * Asserts:
+ * - dish registry is versioned (REGISTRY_VERSIONS.dish), ids unique, every
+ *   pre-43 DISH_COMMON_ALLERGENS entry still yields the same dish_allergen match
+ * - matchDishes uses word boundaries (plural dish names match); only "always" / "usually" bands feed
+ *   checkRisk's dish_allergen rule
+ * - parseMenuText / parseRecipeText: headings, bullets, prices, quantities
+ * - analyzeMenu: per-dish ratings (listed / registry, bands, intolerance cap,
+ *   unknown dishes) and "ask the server" questions from hidden sources
+ * - POST /api/extract mode=menu | recipe returns `menu` and persists nothing
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-43
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import { DISHES, DISH_REGISTRY_VERSION } from "../api/_lib/knowledge/dishes.registry.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+import { getDishAllergenMatch, matchDishes } from "../api/_lib/inference/allergenTaxonomy.js";
+import { checkRisk } from "../api/_lib/inference/checkRisk.js";
+import {
+  analyzeMenu,
+  parseMenuText,
+  parseRecipeText,
+  type MenuAnalysis,
+} from "../api/_lib/menu/analyzeMenu.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import extractHandler from "../api/extract.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+function postExtract(body: Record<string, unknown>) {
+  return callHandler(extractHandler, "POST", {}, body);
+}
+
+/** Pre-43 DISH_COMMON_ALLERGENS table (dish → allergen). */
+const LEGACY_DISHES: [string, string][] = [
+  ["pad thai", "peanut"],
+  ["pad thai noodles", "peanut"],
+  ["thai noodles", "peanut"],
+  ["kung pao", "peanut"],
+  ["kung pao chicken", "peanut"],
+  ["satay", "peanut"],
+  ["chicken satay", "peanut"],
+  ["peanut sauce", "peanut"],
+  ["spring roll", "peanut"],
+  ["spring rolls", "peanut"],
+  ["vietnamese spring roll", "peanut"],
+  ["vietnamese spring rolls", "peanut"],
+  ["asian noodle", "peanut"],
+  ["asian noodles", "peanut"],
+  ["mole", "tree_nut"],
+  ["mole sauce", "tree_nut"],
+  ["pesto", "tree_nut"],
+  ["pesto sauce", "tree_nut"],
+  ["baklava", "tree_nut"],
+  ["baklava pastry", "tree_nut"],
+  ["marzipan", "tree_nut"],
+  ["frangipane", "tree_nut"],
+];
+
+const MENU = `APPETIZERS
+- Spring Rolls – rice paper, herbs ............ $8
+- Caesar Salad: romaine, croutons  $11
+
+Mains:
+1. Pad Thai — rice noodles, tamarind, egg  14.50
+2. Grilled Salmon with lemon  $22
+3. Chef's Special Stew  $19
+4. Hummus plate | pita, olive oil  $9
+`;
+
+async function main() {
+  console.log("\nTest 1: dish registry");
+  {
+    assert(DISH_REGISTRY_VERSION === REGISTRY_VERSIONS.dish && REGISTRY_VERSIONS.dish === "43.1", "version from REGISTRY_VERSIONS");
+    const ids = DISHES.map((d) => d.id);
+    assert(new Set(ids).size === ids.length, "dish ids are unique");
+    const terms = DISHES.flatMap((d) => [d.name, ...d.aliases]);
+    assert(new Set(terms).size === terms.length, "names and aliases are unique across dishes");
+    assert(DISHES.every((d) => d.cuisine && d.typicalIngredients.length > 0 && d.allergens.length > 0), "every dish has cuisine, ingredients, allergens");
+    assert(
+      DISHES.find((d) => d.id === "pad-thai")?.allergens.some((a) => a.allergen === "fish" && a.hiddenSource === "fish sauce") === true,
+      "pad thai: fish sauce hidden source"
+    );
+
+    const allergy = (a: string) => (a === "tree_nut" ? "tree nuts" : "peanuts");
+    const regressions = LEGACY_DISHES.filter(([dish, allergen]) => {
+      const m = getDishAllergenMatch(dish, [allergy(allergen)]);
+      return m?.allergen !== allergen || m.matchedDish !== dish;
+    });
+    assert(regressions.length === 0, `legacy dish table preserved (${regressions.map(([d]) => d).join(", ") || "all"})`);
+  }
+
+  console.log("\nTest 2: matchDishes + dish_allergen rule");
+  {
+    assert(matchDishes("guacamole and chips").length === 0, "guacamole is not mole");
+    const plural = getDishAllergenMatch("two pad thais", ["peanuts"]);
+    assert(plural?.allergen === "peanut" && plural.matchedDish === "pad thai", "plural dish name matches");
+    assert(matchDishes("Pad Thai Noodles")[0]?.matchedTerm === "pad thai noodles", "longest alias wins");
+    assert(matchDishes("pho and banh mi").length === 2, "two dishes in one line");
+    assert(getDishAllergenMatch("pad thai", ["fish"])?.allergen === "fish", "pad thai → fish (usually)");
+    assert(getDishAllergenMatch("spring rolls", ["shellfish"]) === null, "sometimes band does not feed dish_allergen");
+
+    const v = checkRisk({
+      profile: { known_allergies: ["fish"], current_medications: [] },
+      events: [{ type: "meal", fields: { meal: "caesar salad" } }],
+    });
+    const m = v.matched?.find((x) => x.rule === "dish_allergen");
+    assert(v.riskLevel === "high" && m?.details.matchedDish === "caesar salad", "checkRisk: caesar salad flags fish allergy");
+  }
+
+  console.log("\nTest 3: parsing");
+  {
+    const items = parseMenuText(MENU);
+    assert(items.length === 6, `six dishes (got ${items.length})`);
+    assert(items[0].name === "Spring Rolls" && items[0].description === "rice paper, herbs", "dash split, dot leaders + price dropped");
+    assert(items[1].name === "Caesar Salad" && items[1].description === "romaine, croutons", "colon split");
+    assert(items[2].name === "Pad Thai" && items[2].description === "rice noodles, tamarind, egg", "numbered bullet + bare price");
+    assert(items[5].name === "Hummus plate", "pipe split");
+    assert(!items.some((i) => /APPETIZERS|Mains/.test(i.name)), "headings skipped");
+
+    const recipe = parseRecipeText("Pesto Pasta\nIngredients:\n200g spaghetti\n2 cups basil\n1/4 cup pine nuts\nMethod\nBlend the basil with cheese.");
+    assert(recipe.length === 1 && recipe[0].name === "Pesto Pasta", "recipe title");
+    assert(recipe[0].description === "spaghetti, basil, pine nuts", "quantities dropped, method excluded");
+  }
+
+  console.log("\nTest 4: analyzeMenu ratings");
+  {
+    const menu = analyzeMenu({
+      text: MENU,
+      mode: "menu",
+      profile: { known_allergies: ["peanuts", "fish", "shellfish"], current_medications: [] },
+    });
+    const byName = new Map(menu.dishes.map((d) => [d.name, d]));
+    assert(menu.dishRegistryVersion === "43.1", "analysis stamped with dish registry version");
+
+    const padThai = byName.get("Pad Thai")!;
+    assert(padThai.risk === "high" && padThai.dish?.id === "pad-thai", "Pad Thai → high");
+    assert(padThai.questions.includes("Does the Pad Thai contain fish sauce? (fish)"), "Pad Thai: fish sauce question");
+    assert(padThai.questions.includes("Does the Pad Thai contain crushed peanuts? (peanut)"), "Pad Thai: peanut question");
+    assert(padThai.questions.includes("Does the Pad Thai contain dried shrimp? (shellfish)"), "Pad Thai: sometimes-band question");
+
+    assert(byName.get("Spring Rolls")?.risk === "high", "Spring Rolls → high (peanut usually)");
+    assert(byName.get("Caesar Salad")?.findings.some((f) => f.hiddenSource === "anchovies in the dressing") === true, "Caesar: anchovies");
+
+    const salmon = byName.get("Grilled Salmon with lemon")!;
+    assert(salmon.risk === "high" && salmon.findings[0]?.source === "listed", "listed salmon → high for fish");
+    assert(salmon.questions[0] === "Can the Grilled Salmon with lemon be made without salmon?", "listed → substitution question");
+
+    const stew = byName.get("Chef's Special Stew")!;
+    assert(stew.risk === "unknown" && stew.dish === undefined, "unrecognised dish → unknown");
+    assert(stew.questions.length === 3, "unknown dish asks about every allergy");
+
+    assert(byName.get("Hummus plate")?.risk === "low", "known dish without profile allergens → low");
+    assert(
+      menu.summary.dishCount === 6 && menu.summary.high === 4 && menu.summary.low === 1 && menu.summary.unknown === 1,
+      "summary counts"
+    );
+    assert(new Set(menu.questions).size === menu.questions.length, "menu questions deduplicated");
+
+    const sometimes = analyzeMenu({
+      text: "Spring Rolls",
+      mode: "menu",
+      profile: { known_allergies: ["shellfish"], current_medications: [] },
+    });
+    assert(sometimes.dishes[0].risk === "medium", "sometimes band → medium");
+
+    const intolerant = analyzeMenu({
+      text: "Tiramisu",
+      mode: "menu",
+      profile: {
+        known_allergies: ["milk"],
+        current_medications: [],
+        allergy_reactions: [{ name: "milk", reaction: "intolerance" }],
+      },
+    });
+    assert(intolerant.dishes[0].risk === "medium", "intolerance caps at medium");
+
+    const none = analyzeMenu({ text: "Mystery Bowl", mode: "menu", profile: { known_allergies: [], current_medications: [] } });
+    assert(none.dishes[0].risk === "low" && none.dishes[0].questions.length === 0, "no allergies → low, no questions");
+  }
+
+  console.log("\nTest 5: recipe mode");
+  {
+    const r = analyzeMenu({
+      text: "Pesto Pasta\n200g spaghetti\n2 cups basil\nolive oil",
+      mode: "recipe",
+      profile: { known_allergies: ["tree nuts"], current_medications: [] },
+    });
+    assert(r.dishes.length === 1 && r.dishes[0].risk === "high", "pesto recipe → high for tree nuts");
+    assert(r.dishes[0].questions[0] === "Traditional pesto uses pine nuts (tree nut) — check your recipe and labels.", "recipe check wording");
+
+    const listed = analyzeMenu({
+      text: "Pesto Pasta\nspaghetti\nbasil\nwalnuts",
+      mode: "recipe",
+      profile: { known_allergies: ["tree_nut"], current_medications: [] },
+    });
+    assert(listed.dishes[0].findings.some((f) => f.source === "listed" && f.matchedTerm === "walnut"), "listed recipe ingredient");
+    assert(listed.dishes[0].questions.length === 0, "listed allergen suppresses the hidden-source check");
+  }
+
+  console.log("\nTest 6: POST /api/extract mode=menu | recipe");
+  {
+    const supabase = getSupabaseClient();
+    const r = await postExtract({ rawText: "Kung Pao Chicken  $15\nSteamed Rice $3", mode: "menu", profile_id: PROFILE_ID });
+    const menu = r.body.menu as MenuAnalysis | undefined;
+    assert(r.status === 200, "200 OK");
+    assert(menu?.dishes.length === 2 && menu.dishes[0].risk === "high", "kung pao → high for seeded peanut allergy");
+    assert(Array.isArray(r.body.events) && (r.body.events as unknown[]).length === 0, "no events extracted");
+    assert(JSON.stringify(r.body.followUpQuestions) === JSON.stringify(menu?.questions), "questions as followUpQuestions");
+
+    const recipe = await postExtract({ rawText: "Baklava\nphyllo\nhoney", mode: "recipe", profile_id: PROFILE_ID });
+    assert((recipe.body.menu as MenuAnalysis | undefined)?.mode === "recipe", "recipe mode");
+
+    assert((await postExtract({ rawText: "MAINS:", mode: "menu", profile_id: PROFILE_ID })).status === 400, "no dishes → 400");
+    assert(
+      (await postExtract({ rawText: "pad thai", mode: "menu", profile_id: "b0000000-0000-0000-0000-000000000009" })).status === 404,
+      "unknown profile → 404"
+    );
+
+    const { count } = await supabase.from("checks").select("*", { count: "exact", head: true });
+    assert(count === 0, "menu mode persists no checks");
+  }
+
+  console.log(`\n=== Phase 43 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
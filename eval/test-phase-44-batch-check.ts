@@ -0,0 +1,214 @@
+/**
+ * Phase 44 – Batch evaluation endpoint
+ *
+ * Asserts:
+ * - parseBatchItems: bullets, receipt prices / quantities / totals, meal-plan
+ *   day labels, menu descriptions, explicit { text, label } items
+ * - evaluateBatch: one verdict per item via extraction + checkRisk, ranked by
+ *   risk then severity then input order, summary counts, tagged events
+ * - POST /api/check/batch: validation (405 / 400 / 404), persist=false writes
+ *   nothing, persist=true stores ONE grouped check with checks.batch and
+ *   batchItem-tagged events, readable via GET /api/history/:id
+ *   (runs on the Phase 29 memory adapter)
+ * - persisted batch checks are not intake: vigilance, the intake ledger,
+ *   trajectory and functional stacking skip them
+ *
+ * Run: npm run test:phase-44
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import {
+  MAX_BATCH_ITEMS,
+  evaluateBatch,
+  parseBatchItems,
+  rankBatchItems,
+  type BatchEvaluation,
+  type BatchItemVerdict,
+  type CheckBatchSummary,
+} from "../api/_lib/batch/evaluateBatch.js";
+import type { Verdict } from "../api/_lib/inference/checkRisk.js";
+import { analyzeTrajectory } from "../api/_lib/inference/analyzeTrajectory.js";
+import { detectFunctionalStacking } from "../api/_lib/inference/detectFunctionalStacking.js";
+import { fetchIntakeLedger } from "../api/_lib/intake/intakeLedger.js";
+import { toRiskProfile } from "../api/_lib/profiles/toRiskProfile.js";
+import { fetchVigilance } from "../api/_lib/vigilance/computeVigilance.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import coreHandler from "../api/core.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+interface HistoryDetailBody {
+  check?: { raw_text: string; verdict?: Verdict; batch?: CheckBatchSummary };
+  events: { event_data: Record<string, unknown> }[];
+}
+
+function postBatch(body: Record<string, unknown>) {
+  return callHandler<{ batch?: BatchEvaluation; error?: string }>(coreHandler, "POST", { action: "batch-check" }, body);
+}
+
+async function rowCount(table: string): Promise<number> {
+  const { count } = await getSupabaseClient().from(table).select("*", { count: "exact", head: true });
+  return count ?? 0;
+}
+
+/** Radar telemetry is fire-and-forget; let pending writes settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+const MEAL_PLAN = [
+  "Monday: grilled salmon",
+  "Tuesday: peanut butter toast",
+  "Wednesday - chicken salad",
+  "",
+  "Thursday: peanut noodles",
+].join("\n");
+
+async function main() {
+  console.log("\nTest 1: parseBatchItems");
+  {
+    const list = parseBatchItems({ text: "- bananas\n• oat milk\n3) peanut butter\n\n---" }, "list");
+    assert(JSON.stringify(list.map((i) => i.text)) === '["bananas","oat milk","peanut butter"]', "bullets stripped, blanks skipped");
+
+    const receipt = parseBatchItems(
+      { text: "2 x BANANAS 1.98\nPEANUT BUTTER 3.49 F\nSUBTOTAL 5.47\nTAX 0.30\nTOTAL 5.77\nVISA 5.77" },
+      "receipt"
+    );
+    assert(JSON.stringify(receipt.map((i) => i.text)) === '["bananas","peanut butter"]', "receipt: prices, qty, totals dropped");
+
+    const plan = parseBatchItems({ text: MEAL_PLAN }, "meal_plan");
+    assert(plan.length === 4, "meal plan: 4 items");
+    assert(plan[0].label === "Monday" && plan[0].text === "grilled salmon", "day prefix → label");
+    assert(plan[2].label === "Wednesday" && plan[2].text === "chicken salad", "dash separator");
+
+    const menu = parseBatchItems({ text: "MAINS\nPad Thai – rice noodles, tamarind $14\nSteamed Rice $3" }, "menu");
+    assert(menu.length === 2 && menu[0].text.startsWith("Pad Thai with"), "menu: heading skipped, description kept");
+
+    const explicit = parseBatchItems({ items: ["bananas", { text: "satay", label: "Dinner" }, { text: " " }, 7] }, "list");
+    assert(explicit.length === 2 && explicit[1].label === "Dinner", "explicit items; empty / invalid dropped");
+  }
+
+  console.log("\nTest 2: evaluateBatch ranking");
+  {
+    const items = parseBatchItems({ text: MEAL_PLAN }, "meal_plan");
+    const profile = toRiskProfile({ known_allergies: ["peanuts"], current_medications: [] });
+    const { evaluation, events } = await evaluateBatch({ kind: "meal_plan", profileId: PROFILE_ID, profile, items });
+
+    assert(evaluation.items.length === 4, "one verdict per item");
+    assert(evaluation.items[0].riskLevel === "high" && evaluation.items[1].riskLevel === "high", "peanut items ranked first");
+    assert(evaluation.items[0].index === 2 && evaluation.items[1].index === 4, "equal risk → input order");
+    assert(evaluation.items[2].index === 1 && evaluation.items[3].index === 3, "safe items keep input order");
+    assert(evaluation.items[0].matched.some((m) => m.matchedTerm === "peanut"), "matched entries per item");
+    assert(evaluation.items[0].advice.length > 0, "advice per item");
+    assert(evaluation.items[0].label === "Tuesday", "label carried");
+    assert(
+      evaluation.summary.itemCount === 4 && evaluation.summary.high === 2 && evaluation.summary.none === 2,
+      "summary counts"
+    );
+    assert(evaluation.summary.highestRisk === "high", "summary highestRisk");
+    assert(events.length >= 4 && events.every((e) => typeof e.fields?.batchItem === "number"), "events tagged with batchItem");
+
+    const row = (index: number, riskLevel: BatchItemVerdict["riskLevel"], severity: number): BatchItemVerdict => ({
+      index,
+      text: `item ${index}`,
+      riskLevel,
+      severity,
+      reasoning: "",
+      matched: [],
+      advice: [],
+      events: [],
+    });
+    const ranked = rankBatchItems([row(1, "medium", 50), row(2, "high", 60), row(3, "high", 90), row(4, "none", 0)]);
+    assert(ranked.map((r) => r.index).join(",") === "3,2,1,4", "risk, then severity");
+  }
+
+  console.log("\nTest 3: validation");
+  {
+    assert((await callHandler(coreHandler, "GET", { action: "batch-check" })).status === 405, "GET → 405");
+    assert((await postBatch({ profile_id: PROFILE_ID, kind: "pantry", text: "bananas" })).status === 400, "bad kind → 400");
+    assert((await postBatch({ profile_id: PROFILE_ID, text: "\n\n" })).status === 400, "no items → 400");
+    const tooMany = Array.from({ length: MAX_BATCH_ITEMS + 1 }, (_, i) => `item ${i}`);
+    assert((await postBatch({ profile_id: PROFILE_ID, items: tooMany })).status === 400, "too many items → 400");
+    assert(
+      (await postBatch({ profile_id: "b0000000-0000-0000-0000-000000000009", text: "bananas" })).status === 404,
+      "unknown profile → 404"
+    );
+  }
+
+  console.log("\nTest 4: persist=false writes nothing");
+  {
+    const r = await postBatch({ profile_id: PROFILE_ID, kind: "receipt", text: "BANANAS 1.98\nPEANUT BUTTER 3.49" });
+    await settle();
+    const batch = r.body.batch;
+    assert(r.status === 200 && batch?.items.length === 2, "200 with 2 items");
+    assert(batch?.items[0].text === "peanut butter" && batch.items[0].riskLevel === "high", "seeded peanut allergy ranks first");
+    assert(batch?.checkId === undefined, "no checkId");
+    assert((await rowCount("checks")) === 0 && (await rowCount("health_events")) === 0, "no rows written");
+  }
+
+  console.log("\nTest 5: persist=true → one grouped check");
+  {
+    const r = await postBatch({ profile_id: PROFILE_ID, kind: "meal_plan", text: MEAL_PLAN, persist: true });
+    await settle();
+    const batch = r.body.batch;
+    assert(r.status === 200 && typeof batch?.checkId === "string", "checkId returned");
+    assert((await rowCount("checks")) === 1, "exactly one check row");
+
+    const detail = await callHandler<HistoryDetailBody>(coreHandler, "GET", {
+      action: "history-detail",
+      id: batch?.checkId ?? "",
+      profileId: PROFILE_ID,
+    });
+    const check = detail.body.check;
+    assert(detail.status === 200 && check?.verdict?.riskLevel === "high", "grouped verdict is the highest item risk");
+    assert(check?.batch?.kind === "meal_plan" && check.batch.items.length === 4, "checks.batch stored");
+    assert(check?.batch?.items[0].index === 1 && check.batch.items[0].label === "Monday", "stored table in input order");
+    assert(check?.raw_text.split("\n")[1] === "Tuesday: peanut butter toast", "raw_text lists items");
+    const itemNumbers = new Set(detail.body.events.map((e) => e.event_data.batchItem));
+    assert(itemNumbers.size === 4, "events for every item under one check_id");
+    assert(
+      detail.body.events.some((e) => e.event_data.batchLine === "peanut butter toast"),
+      "events carry batchLine"
+    );
+  }
+
+  console.log("\nTest 6: persisted batches are not intake");
+  {
+    const r = await postBatch({
+      profile_id: PROFILE_ID,
+      items: ["Advil", "Aleve", "peanut butter sandwich"],
+      persist: true,
+    });
+    await settle();
+    assert(r.status === 200 && (await rowCount("checks")) === 2, "second grouped check stored");
+    const vigilance = await fetchVigilance(PROFILE_ID);
+    assert(!vigilance.vigilanceActive && vigilance.vigilanceScore === 0, "vigilance ignores batch checks");
+    assert((await fetchIntakeLedger(PROFILE_ID)).length === 0, "intake ledger ignores batch items");
+    assert((await detectFunctionalStacking({ profileId: PROFILE_ID })).length === 0, "no functional stacking from a batch");
+    assert((await analyzeTrajectory({ profileId: PROFILE_ID })).analyzedChecks === 0, "trajectory ignores batch checks");
+  }
+
+  console.log(`\n=== Phase 44 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
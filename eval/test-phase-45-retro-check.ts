@@ -0,0 +1,298 @@
+/**
+ * Phase 45 – Historical re-verdict ("retro-check")
+ *
+ * Asserts:
+ * - knowledge versions: current = taxonomy + REGISTRY_VERSIONS; stored verdicts
+ *   without registry versions are stale; diff / description helpers
+ * - saveExtractionRun stamps verdict.meta.registryVersions, so fresh checks
+ *   are not replayed
+ * - retroCheckProfile replays stale checks under today's profile with the
+ *   knowledge snapshot they were saved with and with the current knowledge:
+ *   a promotion turning none → high records an "up" revision with notify,
+ *   undoing it a "down" revision without; an allergy added to the profile
+ *   since the check records nothing; checks.verdict is updated and a second
+ *   run replays nothing; force replays everything
+ * - checks without a stored snapshot compare the stored verdict with the
+ *   current replay: changes are recorded as unattributed revisions, unchanged
+ *   verdicts keep their meta; progress lives in checks.retro_checked_*
+ * - POST/GET /api/retro-check and POST /api/retro-check/ack (404 / 400 paths)
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-45
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import type { Verdict } from "../api/_lib/inference/checkRisk.js";
+import { ALLERGEN_TAXONOMY_VERSION } from "../api/_lib/inference/allergenTaxonomy.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+import { currentKnowledgeSnapshot } from "../api/_lib/knowledge/knowledgeSnapshot.js";
+import {
+  currentKnowledgeVersions,
+  describeKnowledgeChanges,
+  diffKnowledgeVersions,
+  retroCheckProfile,
+  verdictKnowledgeVersions,
+  type RetroCheckRun,
+  type VerdictRevision,
+} from "../api/_lib/retro/retroCheck.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import coreHandler from "../api/core.js";
+import extractHandler from "../api/extract.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const UNKNOWN_ID = "b0000000-0000-0000-0000-000000000009";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+/** POST/GET /api/retro-check and POST /api/retro-check/ack */
+interface RetroCheckBody {
+  run?: RetroCheckRun;
+  revisions: VerdictRevision[];
+  revision?: VerdictRevision;
+  error?: string;
+}
+
+function callCore(method: string, query: Record<string, string>, body?: Record<string, unknown>) {
+  return callHandler<RetroCheckBody>(coreHandler, method, query, body);
+}
+
+/** Radar telemetry is fire-and-forget; let pending writes settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+/** Insert a check as an older release would have stored it. */
+async function seedCheck(rawText: string, meal: string, verdict: Verdict): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from("checks")
+    .insert({ profile_id: PROFILE_ID, raw_text: rawText, follow_up_questions: [], verdict })
+    .select("id")
+    .single();
+  if (error) throw new Error(error.message);
+  const checkId = data.id as string;
+  const { error: eventError } = await supabase.from("health_events").insert({
+    profile_id: PROFILE_ID,
+    check_id: checkId,
+    event_type: "meal",
+    event_data: { meal, _resolution: { canonicalId: "stale" } },
+    confidence_score: 90,
+  });
+  if (eventError) throw new Error(eventError.message);
+  return checkId;
+}
+
+/** Run a check through POST /api/extract; returns the saved check id. */
+async function extract(rawText: string): Promise<string> {
+  const r = await callHandler(extractHandler, "POST", {}, { rawText, profile_id: PROFILE_ID });
+  await settle();
+  if (r.status !== 200) throw new Error(`extract failed: ${r.status}`);
+  const { data } = await getSupabaseClient().from("checks").select("id").eq("raw_text", rawText).single();
+  return data?.id as string;
+}
+
+async function retroProgress(checkId: string) {
+  const { data } = await getSupabaseClient()
+    .from("checks")
+    .select("retro_checked_at, retro_checked_snapshot")
+    .eq("id", checkId)
+    .single();
+  return data as { retro_checked_at: string | null; retro_checked_snapshot: string | null };
+}
+
+async function storedVerdict(checkId: string): Promise<Verdict> {
+  const { data } = await getSupabaseClient().from("checks").select("verdict").eq("id", checkId).single();
+  return data?.verdict as Verdict;
+}
+
+const OLD_META = { taxonomyVersion: "10i.2", severity: 0 };
+const ZORB_BAR = { id: "zorb-bar", type: "food" as const, aliases: ["zorb bar"], riskTags: ["peanuts"] };
+
+async function main() {
+  console.log("\nTest 1: knowledge versions");
+  {
+    const current = currentKnowledgeVersions();
+    assert(current.taxonomy === ALLERGEN_TAXONOMY_VERSION && current.drug === REGISTRY_VERSIONS.drug, "current versions");
+
+    const legacy = verdictKnowledgeVersions({ riskLevel: "none", reasoning: "", meta: OLD_META });
+    assert(legacy.taxonomy === "10i.2" && legacy.drug === null, "legacy verdict: registries unrecorded");
+    const changes = diffKnowledgeVersions(legacy, current);
+    assert(changes[0].key === "taxonomy" && changes.length === 1 + Object.keys(REGISTRY_VERSIONS).length, "all keys differ");
+    assert(describeKnowledgeChanges(changes).startsWith(`taxonomy 10i.2 → ${ALLERGEN_TAXONOMY_VERSION}, drug (unrecorded) → `), "description");
+
+    const fresh = verdictKnowledgeVersions({
+      riskLevel: "none",
+      reasoning: "",
+      meta: { taxonomyVersion: ALLERGEN_TAXONOMY_VERSION, severity: 0, registryVersions: { ...REGISTRY_VERSIONS } },
+    });
+    assert(diffKnowledgeVersions(fresh, current).length === 0, "stamped verdict is current");
+  }
+
+  console.log("\nTest 2: saveExtractionRun stamps registry versions");
+  let freshCheckId = "";
+  {
+    const r = await callHandler(extractHandler, "POST", {}, { rawText: "banana smoothie", profile_id: PROFILE_ID });
+    await settle();
+    assert(r.status === 200, "extract persisted");
+    const { data } = await getSupabaseClient().from("checks").select("id, verdict").eq("profile_id", PROFILE_ID).single();
+    freshCheckId = data?.id as string;
+    const meta = (data?.verdict as Verdict | undefined)?.meta;
+    assert(JSON.stringify(meta?.registryVersions) === JSON.stringify(REGISTRY_VERSIONS), "verdict.meta.registryVersions");
+  }
+
+  // Seeded history from before Phase 48: no knowledge snapshot recorded.
+  const legacyId = await seedCheck("peanut butter cookies", "peanut butter cookies", {
+    riskLevel: "none",
+    reasoning: "No known allergens",
+    matched: [],
+    meta: OLD_META,
+  });
+  const safeId = await seedCheck("plain rice", "plain rice", {
+    riskLevel: "none",
+    reasoning: "No known allergens",
+    matched: [],
+    meta: OLD_META,
+  });
+
+  console.log("\nTest 3: checks without a snapshot");
+  {
+    const run = (await retroCheckProfile({ profileId: PROFILE_ID })) as RetroCheckRun;
+    assert(run.checksScanned === 3 && run.checksReplayed === 2, "only the legacy checks replayed");
+    assert(run.checksUnattributed === 2 && run.revisions.length === 1, "stored verdicts compared, one changed");
+
+    const legacy = run.revisions.find((r) => r.checkId === legacyId);
+    assert(legacy?.unattributed === true && legacy.direction === "up", "missed allergen → unattributed up");
+    assert(legacy?.notify === true && run.notified === 1, "none → high notifies");
+    assert(legacy?.addedMatches.includes("peanut") === true, "added matches from the stored verdict");
+    assert(
+      legacy?.knowledgeChanges.some((c) => c.key === "taxonomy" && c.from === "10i.2") === true,
+      "recorded versions → current"
+    );
+    const updated = await storedVerdict(legacyId);
+    assert(updated.riskLevel === "high" && updated.meta?.knowledgeSnapshot === currentKnowledgeSnapshot().hash, "checks.verdict replaced");
+
+    const safe = await storedVerdict(safeId);
+    assert(JSON.stringify(safe.meta) === JSON.stringify(OLD_META), "unchanged verdict keeps its meta");
+    const progress = await retroProgress(safeId);
+    assert(
+      typeof progress.retro_checked_at === "string" && progress.retro_checked_snapshot === currentKnowledgeSnapshot().hash,
+      "progress recorded on the check"
+    );
+    assert((await retroProgress(freshCheckId)).retro_checked_at === null, "fresh check untouched");
+
+    const again = (await retroCheckProfile({ profileId: PROFILE_ID })) as RetroCheckRun;
+    assert(again.checksReplayed === 0, "second run replays nothing");
+  }
+
+  console.log("\nTest 4: retroCheckProfile");
+  const zorbId = await extract("zorb bar");
+  const tahiniId = await extract("tahini dressing");
+  const knowledgeBefore = currentKnowledgeSnapshot().hash;
+  let notifiedRevision: VerdictRevision | undefined;
+  {
+    // Knowledge change: "zorb bar" promoted as a peanut-tagged food.
+    await getSupabaseClient().from("promoted_registry_entities").insert({
+      registry_type: "food",
+      canonical_id: ZORB_BAR.id,
+      entity_json: ZORB_BAR,
+      source_proposal_id: "phase-45-test",
+      promoted_at: new Date().toISOString(),
+    });
+    // Profile change: sesame added after the tahini check.
+    await getSupabaseClient()
+      .from("profiles")
+      .update({ known_allergies: ["peanuts", "tree nuts", "sesame"] })
+      .eq("id", PROFILE_ID);
+
+    const run = (await retroCheckProfile({ profileId: PROFILE_ID })) as RetroCheckRun;
+    assert(run.checksScanned === 5 && run.checksReplayed === 5, "snapshot change makes every check stale");
+    assert(run.checksUnattributed === 0 && run.revisions.length === 1, "one changed outcome");
+
+    notifiedRevision = run.revisions.find((r) => r.checkId === zorbId);
+    assert(notifiedRevision?.direction === "up" && notifiedRevision.newRiskLevel === "high", "promotion → up");
+    assert(notifiedRevision?.notify === true && run.notified === 1, "none → high notifies");
+    assert(notifiedRevision?.oldRiskLevel === "none", "old verdict replayed with the snapshot");
+    assert(notifiedRevision?.unattributed === false, "attributed to the knowledge change");
+    assert(
+      notifiedRevision?.knowledgeChanges.some(
+        (c) => c.key === "snapshot" && c.from === knowledgeBefore && c.to === currentKnowledgeSnapshot().hash
+      ) === true,
+      "snapshot change recorded"
+    );
+    assert(!run.revisions.some((r) => r.checkId === tahiniId), "new profile allergy → no revision");
+    assert((await storedVerdict(tahiniId)).riskLevel === "none", "profile-only change keeps the stored verdict");
+
+    const updated = await storedVerdict(zorbId);
+    assert(updated.riskLevel === "high", "checks.verdict updated");
+    assert(updated.meta?.traceId === `${zorbId}:${ALLERGEN_TAXONOMY_VERSION}`, "traceId uses current taxonomy");
+    assert(updated.meta?.knowledgeSnapshot === currentKnowledgeSnapshot().hash, "stamped with current snapshot");
+
+    const again = (await retroCheckProfile({ profileId: PROFILE_ID })) as RetroCheckRun;
+    assert(again.checksReplayed === 0 && again.revisions.length === 0, "second run replays nothing");
+
+    const forced = (await retroCheckProfile({ profileId: PROFILE_ID, force: true })) as RetroCheckRun;
+    assert(forced.checksReplayed === 5 && forced.revisions.length === 0, "force replays all, nothing changed");
+
+    // Knowledge change undone
+    await getSupabaseClient().from("promoted_registry_entities").delete().eq("canonical_id", ZORB_BAR.id);
+    const undone = (await retroCheckProfile({ profileId: PROFILE_ID })) as RetroCheckRun;
+    const down = undone.revisions.find((r) => r.checkId === zorbId);
+    assert(undone.revisions.length === 1 && down?.direction === "down", "promotion removed → down");
+    assert(down?.notify === false && undone.notified === 0, "high → none, no notification");
+
+    assert((await retroCheckProfile({ profileId: UNKNOWN_ID })) === null, "unknown profile → null");
+  }
+
+  console.log("\nTest 5: API");
+  {
+    assert((await callCore("POST", { action: "retro-check" }, {})).status === 400, "POST without profileId → 400");
+    assert(
+      (await callCore("POST", { action: "retro-check" }, { profileId: UNKNOWN_ID })).status === 404,
+      "POST unknown profile → 404"
+    );
+    const run = await callCore("POST", { action: "retro-check" }, { profileId: PROFILE_ID });
+    assert(run.status === 200 && run.body.run?.checksReplayed === 0, "POST runs the job");
+    assert((await callCore("DELETE", { action: "retro-check" })).status === 405, "DELETE → 405");
+
+    const all = await callCore("GET", { action: "retro-check", profileId: PROFILE_ID });
+    assert(all.status === 200 && all.body.revisions.length === 3, "GET lists all revisions");
+    const pending = await callCore("GET", { action: "retro-check", profileId: PROFILE_ID, pending: "1" });
+    assert(pending.body.revisions.length === 2, "pending=1 → notifications only");
+    assert(pending.body.revisions[0].rawText === "zorb bar", "raw text joined");
+
+    const revisionId = notifiedRevision?.id ?? "";
+    const ack = (body: Record<string, unknown>) => callCore("POST", { action: "retro-check-ack" }, body);
+    assert((await ack({ profileId: PROFILE_ID, revisionId: "nope" })).status === 400, "ack bad id → 400");
+    assert((await ack({ profileId: UNKNOWN_ID, revisionId })).status === 404, "ack other profile → 404");
+    const acked = await ack({ profileId: PROFILE_ID, revisionId });
+    assert(acked.status === 200 && typeof acked.body.revision?.acknowledgedAt === "string", "ack → acknowledgedAt");
+
+    const after = await callCore("GET", { action: "retro-check", profileId: PROFILE_ID, pending: "1" });
+    assert(
+      after.body.revisions.length === 1 && after.body.revisions[0].checkId === legacyId,
+      "acknowledged notification no longer pending"
+    );
+  }
+
+  console.log(`\n=== Phase 45 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,216 @@
+/**
+ * Phase 46 – Re-scan recent checks after a profile edit
+ *
+ * Asserts:
+ * - resolveRescanWindowDays: default, PROFILE_RESCAN_WINDOW_DAYS, request
+ *   override, clamping, 0 = disabled
+ * - rescanRecentChecks replays checks in the window with the profile before
+ *   and after an edit and returns only those now riskier (risk, then newest
+ *   first); checks outside the window are skipped, stored verdicts untouched
+ * - only the edit counts: a later medication add does not re-list checks
+ *   flagged by an earlier allergy add
+ * - PATCH /api/profile returns rescan for allergy / medication edits only,
+ *   ?rescanDays=0 turns it off
+ * - POST /api/profile?action=add-item returns rescan for a newly added
+ *   allergy / medication, not for supplements or existing items
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-46
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+delete process.env.PROFILE_RESCAN_WINDOW_DAYS;
+
+import type { Verdict } from "../api/_lib/inference/checkRisk.js";
+import {
+  DEFAULT_RESCAN_WINDOW_DAYS,
+  MAX_RESCAN_WINDOW_DAYS,
+  rescanRecentChecks,
+  resolveRescanWindowDays,
+  type ProfileRescan,
+} from "../api/_lib/retro/profileRescan.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import profileHandler from "../api/profile.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+/** PATCH /api/profile and POST /api/profile?action=add-item */
+interface ProfileBody {
+  profile?: { known_allergies?: unknown[] };
+  item?: { addedAt?: string; alreadyExisted?: boolean };
+  rescan?: ProfileRescan;
+  error?: string;
+}
+
+function callProfile(method: string, query: Record<string, string>, body?: Record<string, unknown>) {
+  return callHandler<ProfileBody>(profileHandler, method, query, body);
+}
+
+const SAFE: Verdict = { riskLevel: "none", reasoning: "No known allergens", matched: [] };
+
+/** Insert a check with one stored event, `daysAgo` days old. */
+async function seedCheck(
+  rawText: string,
+  event: { type: string; fields: Record<string, unknown> },
+  verdict: Verdict,
+  daysAgo: number
+): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from("checks")
+    .insert({
+      profile_id: PROFILE_ID,
+      raw_text: rawText,
+      follow_up_questions: [],
+      verdict,
+      created_at: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(error.message);
+  const checkId = data?.id as string;
+  const { error: eventError } = await supabase.from("health_events").insert({
+    profile_id: PROFILE_ID,
+    check_id: checkId,
+    event_type: event.type,
+    event_data: event.fields,
+    confidence_score: 90,
+  });
+  if (eventError) throw new Error(eventError.message);
+  return checkId;
+}
+
+async function storedVerdict(checkId: string): Promise<Verdict> {
+  const { data } = await getSupabaseClient().from("checks").select("verdict").eq("id", checkId).single();
+  return data?.verdict as Verdict;
+}
+
+async function main() {
+  console.log("\nTest 1: resolveRescanWindowDays");
+  {
+    assert(resolveRescanWindowDays() === DEFAULT_RESCAN_WINDOW_DAYS, "default window");
+    process.env.PROFILE_RESCAN_WINDOW_DAYS = "7";
+    assert(resolveRescanWindowDays() === 7, "env window");
+    assert(resolveRescanWindowDays("14") === 14, "request overrides env");
+    delete process.env.PROFILE_RESCAN_WINDOW_DAYS;
+    assert(resolveRescanWindowDays(10_000) === MAX_RESCAN_WINDOW_DAYS, "clamped to max");
+    assert(resolveRescanWindowDays(-3) === 0 && resolveRescanWindowDays(0) === 0, "negative / 0 → disabled");
+    assert(resolveRescanWindowDays("abc") === DEFAULT_RESCAN_WINDOW_DAYS, "invalid → default");
+  }
+
+  // History: sesame (safe at the time), peanut (already high), old sesame, ibuprofen
+  const sesameId = await seedCheck("sesame bagel", { type: "meal", fields: { meal: "sesame bagel" } }, SAFE, 2);
+  const tahiniId = await seedCheck("tahini dressing", { type: "meal", fields: { meal: "tahini dressing" } }, SAFE, 0.5);
+  const peanutId = await seedCheck(
+    "peanut cookies",
+    { type: "meal", fields: { meal: "peanut cookies" } },
+    { riskLevel: "high", reasoning: "Contains peanut", matched: [], meta: { taxonomyVersion: "10i.2", severity: 90 } },
+    0.5
+  );
+  const oldId = await seedCheck("sesame crackers", { type: "meal", fields: { meal: "sesame crackers" } }, SAFE, 60);
+  const ibuprofenId = await seedCheck(
+    "took ibuprofen",
+    { type: "medication", fields: { medication: "ibuprofen" } },
+    SAFE,
+    3
+  );
+
+  console.log("\nTest 2: rescanRecentChecks");
+  {
+    const rescan = await rescanRecentChecks({
+      profileId: PROFILE_ID,
+      previous: { known_allergies: ["peanuts", "tree nuts"], current_medications: [] },
+      profile: { known_allergies: ["peanuts", "tree nuts", "sesame"], current_medications: [] },
+      windowDays: 30,
+    });
+    assert(rescan.windowDays === 30 && Date.parse(rescan.since) < Date.now() - 29 * DAY_MS, "window recorded");
+    assert(rescan.checksScanned === 4, "only checks inside the window scanned");
+    const ids = rescan.items.map((i) => i.checkId);
+    assert(ids.length === 2 && ids[0] === tahiniId && ids[1] === sesameId, "newly risky checks, newest first");
+    assert(!ids.includes(peanutId) && !ids.includes(oldId), "unchanged and out-of-window checks excluded");
+    const item = rescan.items[1];
+    assert(item.previousRiskLevel === "none" && item.riskLevel === "high", "previous → new risk");
+    assert(item.rawText === "sesame bagel" && item.addedMatches.includes("sesame"), "raw text and added matches");
+    assert((await storedVerdict(sesameId)).riskLevel === "none", "stored verdict untouched");
+
+    const narrow = await rescanRecentChecks({
+      profileId: PROFILE_ID,
+      previous: {},
+      profile: { known_allergies: ["sesame"], current_medications: [] },
+      windowDays: 1,
+    });
+    assert(narrow.checksScanned === 2 && narrow.items[0]?.checkId === tahiniId, "narrow window");
+  }
+
+  console.log("\nTest 3: PATCH /api/profile");
+  {
+    const patch = (body: Record<string, unknown>, query: Record<string, string> = {}) =>
+      callProfile("PATCH", { profileId: PROFILE_ID, ...query }, body);
+
+    const r = await patch({ known_allergies: ["peanuts", "tree nuts", "sesame"] });
+    const rescan = r.body.rescan;
+    assert(r.status === 200 && r.body.profile?.known_allergies?.length === 3, "profile updated");
+    assert(rescan?.windowDays === DEFAULT_RESCAN_WINDOW_DAYS && rescan.items.length === 2, "rescan returned");
+
+    const off = await patch({ known_allergies: ["peanuts", "tree nuts", "sesame"] }, { rescanDays: "0" });
+    assert(off.status === 200 && off.body.rescan === undefined, "rescanDays=0 → no rescan");
+
+    const supplements = await patch({ supplements: ["fish oil"] });
+    assert(supplements.status === 200 && supplements.body.rescan === undefined, "supplement edit → no rescan");
+
+    await patch({ known_allergies: ["peanuts", "tree nuts"] }, { rescanDays: "0" });
+  }
+
+  console.log("\nTest 4: POST /api/profile?action=add-item");
+  {
+    const addItem = (body: Record<string, unknown>) =>
+      callProfile("POST", { action: "add-item" }, { profileId: PROFILE_ID, ...body });
+
+    const allergy = await addItem({ type: "allergy", name: "sesame", rescanDays: 7 });
+    const rescan = allergy.body.rescan;
+    assert(allergy.status === 200 && allergy.body.item?.addedAt !== undefined, "allergy added");
+    assert(rescan?.windowDays === 7 && rescan.items.map((i) => i.checkId).join() === `${tahiniId},${sesameId}`, "allergy → rescan");
+
+    const again = await addItem({ type: "allergy", name: "sesame" });
+    assert(again.body.item?.alreadyExisted === true && again.body.rescan === undefined, "existing item → no rescan");
+
+    const med = await addItem({ type: "medication", name: "warfarin" });
+    const medItems = med.body.rescan?.items ?? [];
+    assert(medItems.length === 1 && medItems[0].checkId === ibuprofenId, "medication → only the interacting check");
+    assert(medItems[0]?.riskLevel === "high", "interaction risk level");
+
+    const supplement = await addItem({ type: "supplement", name: "magnesium" });
+    assert(supplement.status === 200 && supplement.body.rescan === undefined, "supplement → no rescan");
+
+    const unknown = await callProfile(
+      "POST",
+      { action: "add-item" },
+      { profileId: "b0000000-0000-0000-0000-000000000009", type: "allergy", name: "milk" }
+    );
+    assert(unknown.status === 404, "unknown profile → 404");
+  }
+
+  console.log(`\n=== Phase 46 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
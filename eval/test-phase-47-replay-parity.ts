@@ -0,0 +1,195 @@
+/**
+ * Phase 47 – Replay parity with production checkRisk
+ *
+ * Asserts:
+ * - checkRiskWithTaxonomy (replay adapter) with the in-repo taxonomy returns
+ *   exactly the production checkRisk verdict for every replay scenario
+ * - the candidate fixture differs from the baseline fixture only in the
+ *   allowlisted scenarios (tiger nut, mango)
+ * - every KnowledgeContext field is honored: taxonomy, drugInteractions,
+ *   functionalClasses / functionalClassInteractions, supplementInteractions,
+ *   foodMedicationInteractions, doseThresholds, dishes, promotedEntities,
+ *   registries
+ * - the context applies to one call only and is restored after a throw
+ *
+ * Run: npm run test:phase-47
+ */
+
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { checkRisk, type ProfileInput, type Verdict } from "../api/_lib/inference/checkRisk.js";
+import { checkRiskWithTaxonomy, type ReplayInputEvent } from "../api/_lib/eval/replayCheckRisk.js";
+import { loadAllergenTaxonomy } from "../api/_lib/knowledge/loadAllergenTaxonomy.js";
+import { getKnowledgeContext, withKnowledgeContext } from "../api/_lib/knowledge/knowledgeContext.js";
+import { FOODS } from "../api/_lib/knowledge/foods.registry.js";
+
+const FIXTURES = resolve(process.cwd(), "eval/fixtures/replay");
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+interface Scenario {
+  scenarioId: string;
+  profile: { known_allergies?: string[]; current_medications?: { name: string; dosage?: string }[] };
+  events: ReplayInputEvent[];
+}
+
+const scenarios: Scenario[] = JSON.parse(readFileSync(resolve(FIXTURES, "scenarios.json"), "utf-8"));
+
+function profileOf(s: Scenario): ProfileInput {
+  return { known_allergies: s.profile.known_allergies ?? [], current_medications: s.profile.current_medications ?? [] };
+}
+
+function eventsOf(s: Scenario): { type?: string; fields: Record<string, unknown> }[] {
+  return s.events.map((e) => ({ type: e.type, fields: e.fields ?? e.event_data ?? {} }));
+}
+
+const same = (a: Verdict, b: Verdict) => JSON.stringify(a) === JSON.stringify(b);
+
+const meal = (text: string) => [{ type: "meal", fields: { meal: text } }];
+const PEANUT: ProfileInput = { known_allergies: ["peanut"], current_medications: [] };
+
+console.log("\nTest 1: replay adapter = production checkRisk");
+{
+  const inRepo = loadAllergenTaxonomy();
+  const diverging = scenarios.filter(
+    (s) => !same(checkRiskWithTaxonomy(profileOf(s), s.events, inRepo), checkRisk({ profile: profileOf(s), events: eventsOf(s) }))
+  );
+  assert(scenarios.length > 0 && diverging.length === 0, `all ${scenarios.length} scenarios identical`);
+  if (diverging.length > 0) console.error(`    diverging: ${diverging.map((s) => s.scenarioId).join(", ")}`);
+
+  const extra = [
+    { profile: PEANUT, events: meal("pad thai") },
+    { profile: PEANUT, events: meal("may contain peanuts") },
+    { profile: { known_allergies: [], current_medications: [{ name: "warfarin" }] }, events: [{ type: "supplement", fields: { supplement: "fish oil" } }] },
+    { profile: { known_allergies: [], current_medications: [{ name: "atorvastatin" }] }, events: meal("grapefruit juice") },
+  ];
+  assert(
+    extra.every((c) => same(checkRiskWithTaxonomy(c.profile, c.events, inRepo), checkRisk(c))),
+    "dish / supplement / food–medication rules identical (no longer skipped by replay)"
+  );
+}
+
+console.log("\nTest 2: baseline vs candidate fixtures");
+{
+  const baseline = loadAllergenTaxonomy(resolve(FIXTURES, "knowledge/baseline-taxonomy.json"));
+  const candidate = loadAllergenTaxonomy(resolve(FIXTURES, "knowledge/candidate-taxonomy.json"));
+  const changed = scenarios
+    .filter((s) => {
+      const a = checkRiskWithTaxonomy(profileOf(s), s.events, baseline);
+      const b = checkRiskWithTaxonomy(profileOf(s), s.events, candidate);
+      return a.riskLevel !== b.riskLevel;
+    })
+    .map((s) => s.scenarioId)
+    .sort();
+  assert(changed.join() === "scn_cross_reactive_04,scn_new_child_02", "only allowlisted scenarios change");
+  const tiger = scenarios.find((s) => s.scenarioId === "scn_new_child_02")!;
+  const verdict = checkRiskWithTaxonomy(profileOf(tiger), tiger.events, candidate);
+  assert(verdict.riskLevel === "high" && verdict.meta?.taxonomyVersion === candidate.version, "candidate version stamped");
+}
+
+console.log("\nTest 3: KnowledgeContext overrides");
+{
+  const ibuprofen = {
+    profile: { known_allergies: [], current_medications: [{ name: "warfarin" }] },
+    events: [{ type: "medication", fields: { medication: "ibuprofen" } }],
+  };
+  assert(checkRisk(ibuprofen).riskLevel !== "none", "ibuprofen + warfarin flagged by default");
+  assert(
+    checkRisk({ ...ibuprofen, knowledge: { drugInteractions: [], functionalClassInteractions: [] } }).riskLevel === "none",
+    "empty drug / class interactions → none"
+  );
+  assert(
+    checkRisk({ ...ibuprofen, knowledge: { drugInteractions: [], functionalClasses: {} } }).riskLevel === "none",
+    "empty functional class registry → no class match"
+  );
+
+  const fishOil = {
+    profile: { known_allergies: [], current_medications: [{ name: "warfarin" }] },
+    events: [{ type: "supplement", fields: { supplement: "fish oil" } }],
+  };
+  assert(checkRisk(fishOil).riskLevel === "medium", "fish oil + warfarin flagged by default");
+  assert(checkRisk({ ...fishOil, knowledge: { supplementInteractions: {} } }).riskLevel === "none", "supplementInteractions");
+
+  const grapefruit = {
+    profile: { known_allergies: [], current_medications: [{ name: "atorvastatin" }] },
+    events: meal("grapefruit juice"),
+  };
+  assert(checkRisk(grapefruit).riskLevel === "medium", "grapefruit + atorvastatin flagged by default");
+  assert(
+    checkRisk({ ...grapefruit, knowledge: { foodMedicationInteractions: {} } }).riskLevel === "none",
+    "foodMedicationInteractions"
+  );
+
+  const vitaminE = {
+    profile: { known_allergies: [], current_medications: [{ name: "warfarin" }] },
+    events: [{ type: "supplement", fields: { supplement: "vitamin e", dosage: "100 IU" } }],
+  };
+  const graded = checkRisk(vitaminE);
+  const ungraded = checkRisk({ ...vitaminE, knowledge: { doseThresholds: [] } });
+  assert(JSON.stringify(graded.matched) !== JSON.stringify(ungraded.matched), "doseThresholds");
+
+  const stew = meal("zorb stew");
+  assert(checkRisk({ profile: PEANUT, events: stew }).riskLevel === "none", "unknown dish → none");
+  const dishes = [
+    {
+      id: "zorb-stew",
+      name: "Zorb stew",
+      aliases: ["zorb stew"],
+      cuisine: "test",
+      typicalIngredients: ["peanut"],
+      allergens: [{ allergen: "peanut", band: "always" as const }],
+    },
+  ];
+  assert(checkRisk({ profile: PEANUT, events: stew, knowledge: { dishes } }).riskLevel === "high", "dishes");
+
+  const bar = meal("zorb bar");
+  const promoted = [{ id: "zorb-bar", type: "food" as const, aliases: ["zorb bar"], riskTags: ["peanut"] }];
+  assert(checkRisk({ profile: PEANUT, events: bar }).riskLevel === "none", "unknown food → none");
+  assert(
+    checkRisk({ profile: PEANUT, events: bar, knowledge: { promotedEntities: promoted } }).riskLevel === "high",
+    "promotedEntities"
+  );
+  assert(
+    checkRisk({ profile: PEANUT, events: bar, knowledge: { registries: { food: [...FOODS, ...promoted] } } }).riskLevel ===
+      "high",
+    "registries"
+  );
+
+  const taxonomy = loadAllergenTaxonomy(resolve(FIXTURES, "knowledge/candidate-taxonomy.json"));
+  const tigerNut = { profile: { known_allergies: ["tree_nut"], current_medications: [] }, events: meal("tiger nut milk") };
+  const injected = checkRisk({ ...tigerNut, knowledge: { taxonomy: { ...taxonomy, version: "test.1" } } });
+  assert(injected.meta?.taxonomyVersion === "test.1", "taxonomy version stamped in meta");
+}
+
+console.log("\nTest 4: context scope");
+{
+  const bar = meal("zorb bar");
+  const promoted = [{ id: "zorb-bar", type: "food" as const, aliases: ["zorb bar"], riskTags: ["peanut"] }];
+  checkRisk({ profile: PEANUT, events: bar, knowledge: { promotedEntities: promoted } });
+  assert(checkRisk({ profile: PEANUT, events: bar }).riskLevel === "none", "override does not leak into the next call");
+  assert(Object.keys(getKnowledgeContext()).length === 0, "context empty outside a call");
+
+  let threw = false;
+  try {
+    withKnowledgeContext({ dishes: [] }, () => {
+      throw new Error("boom");
+    });
+  } catch {
+    threw = true;
+  }
+  assert(threw && getKnowledgeContext().dishes === undefined, "context restored after throw");
+}
+
+console.log(`\n=== Phase 47 Results: ${pass} passed, ${fail} failed ===`);
+if (fail > 0) process.exit(1);
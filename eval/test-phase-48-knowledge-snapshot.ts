@@ -0,0 +1,248 @@
+/**
+ * Phase 48 – Knowledge snapshots
+ *
+ * Asserts:
+ * - canonicalJson sorts keys; the bundle hash is deterministic, covers every
+ *   knowledge source (taxonomy, registries, promoted entities, interaction
+ *   maps, doses, dishes, advice) and verifies against its content
+ * - currentKnowledgeSnapshot changes only when promoted entities change
+ * - toKnowledgeContext(current) reproduces production checkRisk
+ * - saving a check stamps verdict.meta.knowledgeSnapshot and stores the
+ *   bundle once; retro-check replays stamp it too
+ * - replayCheckAtSnapshot re-runs a check with its own snapshot even after
+ *   knowledge changed (a promotion), or at another snapshot on request;
+ *   unrecorded / unstored snapshots are reported, tampered rows rejected
+ * - GET /api/history/:id/replay and GET /api/knowledge/snapshot
+ *   (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-48
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+delete process.env.MEMORY_DB_FILE;
+
+import { checkRisk, type Verdict } from "../api/_lib/inference/checkRisk.js";
+import { ALLERGEN_TAXONOMY_VERSION } from "../api/_lib/inference/allergenTaxonomy.js";
+import { REGISTRY_VERSIONS } from "../api/_lib/knowledge/registryVersions.js";
+import { ADVICE_REGISTRY_VERSION } from "../api/_lib/advice/adviceRegistry.js";
+import {
+  buildKnowledgeSnapshot,
+  canonicalJson,
+  currentKnowledgeSnapshot,
+  toKnowledgeContext,
+  verifyKnowledgeSnapshot,
+  type KnowledgeSnapshot,
+} from "../api/_lib/knowledge/knowledgeSnapshot.js";
+import { loadKnowledgeSnapshot } from "../api/_lib/knowledge/knowledgeSnapshotDb.js";
+import { ensurePromotedRegistryLoaded } from "../api/_lib/knowledge/promotedRegistryDb.js";
+import { replayVerdict } from "../api/_lib/retro/retroCheck.js";
+import { replayCheckAtSnapshot, type SnapshotReplay } from "../api/_lib/retro/snapshotReplay.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import coreHandler from "../api/core.js";
+import extractHandler from "../api/extract.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const UNKNOWN_CHECK = "c0000000-0000-0000-0000-000000000009";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+/** GET /api/knowledge/snapshot and GET /api/history/:id/replay */
+interface SnapshotBody {
+  hash?: string;
+  versions?: Record<string, string>;
+  snapshot?: KnowledgeSnapshot;
+  replay?: SnapshotReplay;
+  error?: string;
+}
+
+function callCore(query: Record<string, string>) {
+  return callHandler<SnapshotBody>(coreHandler, "GET", query);
+}
+
+/** Radar telemetry is fire-and-forget; let pending writes settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+/** Run a check through POST /api/extract; returns the saved check. */
+async function extract(rawText: string): Promise<{ id: string; verdict: Verdict }> {
+  const r = await callHandler(extractHandler, "POST", {}, { rawText, profile_id: PROFILE_ID });
+  await settle();
+  if (r.status !== 200) throw new Error(`extract failed: ${r.status}`);
+  const { data } = await getSupabaseClient()
+    .from("checks")
+    .select("id, verdict")
+    .eq("raw_text", rawText)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .single();
+  return { id: data?.id as string, verdict: data?.verdict as Verdict };
+}
+
+async function snapshotRows(): Promise<{ hash: string }[]> {
+  const { data } = await getSupabaseClient().from("knowledge_snapshots").select("hash");
+  return (data ?? []) as { hash: string }[];
+}
+
+const ZORB_BAR = { id: "zorb-bar", type: "food" as const, aliases: ["zorb bar"], riskTags: ["peanuts"] };
+
+async function main() {
+  console.log("\nTest 1: bundle and hash");
+  {
+    assert(canonicalJson({ b: 1, a: { d: [2, 1], c: undefined } }) === '{"a":{"d":[2,1]},"b":1}', "canonicalJson");
+    const a = buildKnowledgeSnapshot([]);
+    const b = buildKnowledgeSnapshot([]);
+    assert(/^[0-9a-f]{64}$/.test(a.hash) && a.hash === b.hash, "deterministic SHA-256");
+    assert(
+      canonicalJson(a.content.versions) ===
+        canonicalJson({ taxonomy: ALLERGEN_TAXONOMY_VERSION, ...REGISTRY_VERSIONS, advice: ADVICE_REGISTRY_VERSION }),
+      "versions of every source"
+    );
+    const c = a.content;
+    assert(
+      c.registries.drug.length > 0 &&
+        c.registries.food.length > 0 &&
+        c.drugInteractions.length > 0 &&
+        Object.keys(c.supplementInteractions).length > 0 &&
+        Object.keys(c.foodMedicationInteractions).length > 0 &&
+        c.doseThresholds.length > 0 &&
+        c.dishes.length > 0 &&
+        Object.keys(c.advice).length > 0 &&
+        Object.keys(c.functionalClasses).length > 0,
+      "all knowledge sources serialised"
+    );
+    assert(verifyKnowledgeSnapshot(a), "hash verifies");
+    const tampered = { hash: a.hash, content: { ...a.content, dishes: [] } };
+    assert(!verifyKnowledgeSnapshot(tampered), "tampered content fails verification");
+    assert(buildKnowledgeSnapshot([ZORB_BAR]).hash !== a.hash, "promoted entities change the hash");
+  }
+
+  console.log("\nTest 2: current snapshot and context");
+  {
+    await ensurePromotedRegistryLoaded();
+    const current = currentKnowledgeSnapshot();
+    assert(currentKnowledgeSnapshot() === current, "cached while promoted entities are unchanged");
+    await ensurePromotedRegistryLoaded();
+    assert(currentKnowledgeSnapshot().hash === current.hash, "reload with same promoted → same hash");
+
+    const cases = [
+      { profile: { known_allergies: ["peanut"], current_medications: [] }, events: [{ type: "meal", fields: { meal: "pad thai" } }] },
+      { profile: { known_allergies: ["tree nuts"], current_medications: [] }, events: [{ type: "meal", fields: { meal: "mango salad" } }] },
+      {
+        profile: { known_allergies: [], current_medications: [{ name: "warfarin" }] },
+        events: [{ type: "medication", fields: { medication: "ibuprofen" } }],
+      },
+    ];
+    assert(
+      cases.every(
+        (c) => JSON.stringify(checkRisk({ ...c, knowledge: toKnowledgeContext(current) })) === JSON.stringify(checkRisk(c))
+      ),
+      "snapshot context reproduces checkRisk"
+    );
+    assert(toKnowledgeContext(current) === toKnowledgeContext(current), "one context per bundle");
+  }
+
+  console.log("\nTest 3: saved verdicts reference a stored snapshot");
+  const before = await extract("zorb bar");
+  const beforeHash = before.verdict.meta?.knowledgeSnapshot ?? "";
+  {
+    assert(beforeHash === currentKnowledgeSnapshot().hash, "verdict.meta.knowledgeSnapshot");
+    assert(before.verdict.riskLevel === "none", "unknown food → none");
+    await extract("banana smoothie");
+    const rows = await snapshotRows();
+    assert(rows.length === 1 && rows[0].hash === beforeHash, "bundle stored once");
+    const loaded = await loadKnowledgeSnapshot(beforeHash);
+    assert(loaded?.hash === beforeHash && verifyKnowledgeSnapshot(loaded), "stored bundle loads and verifies");
+  }
+
+  // Knowledge changes: "zorb bar" is promoted as a peanut-tagged food.
+  await getSupabaseClient().from("promoted_registry_entities").insert({
+    registry_type: "food",
+    canonical_id: ZORB_BAR.id,
+    entity_json: ZORB_BAR,
+    source_proposal_id: "phase-48-test",
+    promoted_at: new Date().toISOString(),
+  });
+
+  console.log("\nTest 4: replayCheckAtSnapshot");
+  {
+    const after = await extract("zorb bar");
+    const afterHash = after.verdict.meta?.knowledgeSnapshot ?? "";
+    assert(after.verdict.riskLevel === "high" && afterHash !== beforeHash, "promotion → new verdict, new snapshot");
+    assert((await snapshotRows()).length === 2, "second snapshot stored");
+
+    const own = await replayCheckAtSnapshot({ checkId: before.id, profileId: PROFILE_ID });
+    assert(own?.snapshotHash === beforeHash && own.verdict?.riskLevel === "none", "own snapshot → original verdict");
+    assert(own?.identical === true && own.verdict?.meta?.knowledgeSnapshot === beforeHash, "identical, stamped");
+
+    const atCurrent = await replayCheckAtSnapshot({ checkId: before.id, snapshotHash: afterHash });
+    assert(atCurrent?.verdict?.riskLevel === "high" && atCurrent.identical === false, "current snapshot → now flagged");
+    assert(atCurrent?.changes?.riskLevelChanged === true, "changes reported");
+
+    const { data: legacy } = await getSupabaseClient()
+      .from("checks")
+      .insert({
+        profile_id: PROFILE_ID,
+        raw_text: "legacy",
+        follow_up_questions: [],
+        verdict: { riskLevel: "none", reasoning: "", matched: [], meta: { taxonomyVersion: "10i.2", severity: 0 } },
+      })
+      .select("id")
+      .single();
+    const legacyReplay = await replayCheckAtSnapshot({ checkId: legacy?.id as string });
+    assert(legacyReplay?.unavailable === "not_recorded" && legacyReplay.verdict === null, "no snapshot recorded");
+    const missing = await replayCheckAtSnapshot({ checkId: before.id, snapshotHash: "0".repeat(64) });
+    assert(missing?.unavailable === "not_stored", "unknown snapshot");
+    assert((await replayCheckAtSnapshot({ checkId: UNKNOWN_CHECK })) === null, "unknown check → null");
+
+    const retro = replayVerdict(before.id, { known_allergies: ["peanuts"], current_medications: [] }, [
+      { type: "meal", fields: { meal: "zorb bar" } },
+    ]);
+    assert(retro.meta?.knowledgeSnapshot === afterHash, "retro-check replay stamps the current snapshot");
+  }
+
+  console.log("\nTest 5: endpoints");
+  {
+    const current = currentKnowledgeSnapshot();
+    const head = await callCore({ action: "knowledge-snapshot" });
+    assert(head.status === 200 && head.body.hash === current.hash && head.body.versions?.taxonomy !== undefined, "current hash");
+    const full = await callCore({ action: "knowledge-snapshot", hash: beforeHash });
+    assert(full.status === 200 && full.body.snapshot?.hash === beforeHash, "stored bundle");
+    const none = await callCore({ action: "knowledge-snapshot", hash: "f".repeat(64) });
+    assert(none.status === 404, "unknown hash → 404");
+
+    const replay = await callCore({ action: "snapshot-replay", id: before.id, profileId: PROFILE_ID });
+    assert(replay.status === 200 && replay.body.replay?.identical === true, "GET /api/history/:id/replay");
+    const other = await callCore({ action: "snapshot-replay", id: UNKNOWN_CHECK });
+    assert(other.status === 404, "unknown check → 404");
+    const bad = await callCore({ action: "snapshot-replay", id: "nope" });
+    assert(bad.status === 400, "invalid id → 400");
+
+    await getSupabaseClient()
+      .from("knowledge_snapshots")
+      .update({ content: { ...current.content, dishes: [] } })
+      .eq("hash", beforeHash);
+    const tampered = await callCore({ action: "snapshot-replay", id: before.id });
+    assert(tampered.status === 500 && /does not match/.test(tampered.body.error ?? ""), "tampered snapshot rejected");
+  }
+
+  console.log(`\n=== Phase 48 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,319 @@
+/**
+ * Phase 49 – Promotion ledger, revert and rollback
+ *
+ * Asserts:
+ * - governed promotion (alias-proposal-export) records a ledger entry per
+ *   proposal with the promoted entity before / after, its source proposal
+ *   and stored knowledge snapshots; GET promotion-ledger lists newest first
+ * - promotion-revert restores the previous promoted entity (or deletes the
+ *   row) and the runtime overlay, writes a revert entry and marks the
+ *   promotion reverted; superseded, already-reverted and revert entries
+ *   are refused (409)
+ * - the replay gate replays stored checks: a revert that changes a check's
+ *   risk is refused until that check is acknowledged; dryRun writes nothing
+ * - promotion-rollback reverts a promotion and every later active one,
+ *   newest first, in one batch
+ * - a promotion whose row write never landed (row still holds entityBefore)
+ *   reverts as already undone instead of being refused as superseded
+ * - snapshot storage is best-effort: promotion and revert still apply
+ *   without knowledge_snapshots (migration 024)
+ * - 400 / 404 / 405 on bad input (runs on the Phase 29 memory adapter)
+ *
+ * Run: npm run test:phase-49
+ */
+
+process.env.PERSISTENCE_ADAPTER = "memory";
+process.env.ADMIN_ENABLED = "true";
+delete process.env.MEMORY_DB_FILE;
+
+import type { Verdict } from "../api/_lib/inference/checkRisk.js";
+import { createProposal, type CreateProposalInput } from "../api/_lib/admin/aliasProposalStore.js";
+import type { PromotionRevertResult } from "../api/_lib/admin/promotionRevert.js";
+import { getPromotedRegistryEntities } from "../api/_lib/knowledge/entityResolver.js";
+import { loadKnowledgeSnapshot } from "../api/_lib/knowledge/knowledgeSnapshotDb.js";
+import type { PromotionLedgerEntry } from "../api/_lib/knowledge/promotionLedger.js";
+import type { MemoryClient } from "../api/_lib/persistence/memoryClient.js";
+import { getSupabaseClient } from "../api/_lib/supabaseClient.js";
+import extractHandler from "../api/extract.js";
+import orchestratorHandler from "../api/orchestrator.js";
+import { callHandler } from "./callHandler.js";
+
+const PROFILE_ID = "a0000000-0000-0000-0000-000000000001";
+const UNKNOWN_ENTRY = "e0000000-0000-0000-0000-000000000009";
+
+let pass = 0;
+let fail = 0;
+
+function assert(condition: boolean, label: string): void {
+  if (condition) {
+    pass++;
+    console.log(`  ✓ ${label}`);
+  } else {
+    fail++;
+    console.error(`  ✗ ${label}`);
+  }
+}
+
+interface LedgerBody {
+  entries: PromotionLedgerEntry[];
+  meta: { count: number };
+}
+
+interface RevertBody {
+  revert: PromotionRevertResult;
+  error?: string;
+  details?: string | null;
+}
+
+function orchestrator<T>(action: string, method = "POST", body?: Record<string, unknown>) {
+  return callHandler<T>(orchestratorHandler, method, { action }, body);
+}
+
+function ledger() {
+  return orchestrator<LedgerBody>("promotion-ledger", "GET");
+}
+
+function postRevert(action: "promotion-revert" | "promotion-rollback", body: Record<string, unknown>, method = "POST") {
+  return orchestrator<RevertBody>(action, method, body);
+}
+
+/** Radar telemetry is fire-and-forget; let pending writes settle. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+/** Run a check through POST /api/extract; returns the saved check. */
+async function extract(rawText: string): Promise<{ id: string; verdict: Verdict }> {
+  const r = await callHandler(extractHandler, "POST", {}, { rawText, profile_id: PROFILE_ID });
+  await settle();
+  if (r.status !== 200) throw new Error(`extract failed: ${r.status}`);
+  const { data } = await getSupabaseClient()
+    .from("checks")
+    .select("id, verdict")
+    .eq("raw_text", rawText)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .single();
+  return { id: data?.id as string, verdict: data?.verdict as Verdict };
+}
+
+/** Create a proposal and promote it; returns its ledger entry. */
+async function promote(input: CreateProposalInput): Promise<PromotionLedgerEntry> {
+  const proposal = await createProposal(input);
+  const r = await orchestrator<{ ledger: PromotionLedgerEntry[]; error?: string }>("alias-proposal-export", "POST", {
+    proposalIds: [proposal.id],
+  });
+  if (r.status !== 200) throw new Error(`promotion failed: ${r.status} ${r.body.error}`);
+  return r.body.ledger[0];
+}
+
+async function promotedRow(canonicalId: string) {
+  const { data } = await getSupabaseClient()
+    .from("promoted_registry_entities")
+    .select("entity_json, source_proposal_id")
+    .eq("canonical_id", canonicalId)
+    .maybeSingle();
+  return data as { entity_json: { aliases: string[] }; source_proposal_id: string } | null;
+}
+
+function overlayAliases(id: string): string[] | null {
+  return getPromotedRegistryEntities().find((e) => e.id === id)?.aliases ?? null;
+}
+
+const ZORB_BAR: CreateProposalInput = {
+  registry_type: "food",
+  canonical_id: "zorb-bar",
+  proposed_alias: "zorb bar",
+  proposal_action: "create-entry",
+  proposed_entry: { type: "food", riskTags: ["peanuts"] },
+};
+
+async function main() {
+  console.log("\nTest 1: promotion is recorded in the ledger");
+  const first = await promote(ZORB_BAR);
+  {
+    assert(first.action === "promote" && first.canonicalId === "zorb-bar", "promote entry");
+    assert(first.entityBefore === null && first.entityAfter?.riskTags?.[0] === "peanuts", "entity before / after");
+    assert(first.sourceBefore === null && first.sourceAfter === (await promotedRow("zorb-bar"))?.source_proposal_id, "source proposal");
+    assert(
+      first.snapshotBefore !== first.snapshotAfter && (await loadKnowledgeSnapshot(first.snapshotAfter ?? "")) !== null,
+      "knowledge snapshots stored"
+    );
+  }
+
+  const flagged = await extract("zorb bar");
+  assert(flagged.verdict.riskLevel === "high", "promoted entity flags a check");
+
+  const second = await promote({
+    registry_type: "food",
+    canonical_id: "zorb-bar",
+    proposed_alias: "zorbs",
+    proposal_action: "add-alias",
+  });
+  {
+    assert(second.entityBefore?.aliases.includes("zorbs") === false, "second entry keeps the previous entity");
+    assert(second.sourceBefore === first.sourceAfter, "previous source proposal");
+    assert(overlayAliases("zorb-bar")?.includes("zorbs") === true, "alias promoted");
+
+    const list = await ledger();
+    assert(list.status === 200 && list.body.meta.count === 2, "GET promotion-ledger");
+    assert(list.body.entries[0].id === second.id && list.body.entries[1].id === first.id, "newest first");
+  }
+
+  console.log("\nTest 2: revert");
+  {
+    const superseded = await postRevert("promotion-revert", { entryId: first.id });
+    assert(superseded.status === 409 && superseded.body.revert.blocked === "superseded", "superseded promotion refused");
+
+    const dry = await postRevert("promotion-revert", { entryId: second.id, dryRun: true });
+    assert(dry.status === 200 && dry.body.revert.applied === false, "dryRun not applied");
+    assert(dry.body.revert.gate.passed && dry.body.revert.replay.checksReplayed > 0, "alias removal passes the gate");
+    assert(overlayAliases("zorb-bar")?.includes("zorbs") === true, "dryRun writes nothing");
+
+    const r = await postRevert("promotion-revert", { entryId: second.id });
+    const revert = r.body.revert;
+    assert(r.status === 200 && revert.applied && revert.entries.length === 1, "revert applied");
+    const entry = revert.entries[0];
+    assert(entry.action === "revert" && entry.revertsId === second.id, "revert entry");
+    assert(entry.replay?.checksReplayed === revert.replay.checksReplayed, "replay summary on the entry");
+    const row = await promotedRow("zorb-bar");
+    assert(row?.entity_json.aliases.includes("zorbs") === false && row.source_proposal_id === first.sourceAfter, "row restored");
+    assert(overlayAliases("zorb-bar")?.includes("zorbs") === false, "runtime overlay restored");
+
+    const list = await ledger();
+    const reverted = list.body.entries.find((e) => e.id === second.id);
+    assert(list.body.entries[0].id === entry.id && reverted?.revertedBy === entry.id, "promotion marked reverted");
+
+    const again = await postRevert("promotion-revert", { entryId: second.id });
+    assert(again.status === 409 && again.body.revert.blocked === "already_reverted", "already reverted refused");
+    const ofRevert = await postRevert("promotion-revert", { entryId: entry.id });
+    assert(ofRevert.status === 409 && ofRevert.body.revert.blocked === "not_a_promotion", "revert entry refused");
+  }
+
+  console.log("\nTest 3: replay gate");
+  {
+    const dry = await postRevert("promotion-revert", { entryId: first.id, dryRun: true });
+    const changed = dry.body.revert.replay.changed;
+    assert(dry.status === 200 && !dry.body.revert.gate.passed, "risk drop fails the gate");
+    assert(
+      changed.some((c) =>
+        c.checkId === flagged.id && c.riskLevelFrom === "high" && c.riskLevelTo === "none"
+      ),
+      "changed check reported"
+    );
+
+    const blocked = await postRevert("promotion-revert", { entryId: first.id });
+    assert(blocked.status === 409 && blocked.body.error === "Replay gate failed", "409 Replay gate failed");
+    assert((blocked.body.details ?? "").includes(flagged.id) && (await promotedRow("zorb-bar")) !== null, "nothing reverted");
+
+    const acknowledge = changed.map((c) => c.checkId);
+    const r = await postRevert("promotion-revert", { entryId: first.id, acknowledge });
+    assert(r.status === 200 && r.body.revert.applied, "acknowledged revert applied");
+    assert(r.body.revert.entries[0].replay?.acknowledged.includes(flagged.id) === true, "acknowledged checks recorded");
+    assert((await promotedRow("zorb-bar")) === null && overlayAliases("zorb-bar") === null, "promoted row deleted");
+    assert((await extract("zorb bar")).verdict.riskLevel === "none", "new checks use the reverted registry");
+  }
+
+  console.log("\nTest 4: rollback");
+  {
+    const a = await promote({
+      registry_type: "food",
+      canonical_id: "qux-crisp",
+      proposed_alias: "qux crisp",
+      proposal_action: "create-entry",
+      proposed_entry: { type: "food" },
+    });
+    const b = await promote({
+      registry_type: "food",
+      canonical_id: "qux-crisp",
+      proposed_alias: "qux chips",
+      proposal_action: "add-alias",
+    });
+    const c = await promote({
+      registry_type: "food",
+      canonical_id: "vell-wafer",
+      proposed_alias: "vell wafer",
+      proposal_action: "create-entry",
+      proposed_entry: { type: "food" },
+    });
+
+    const r = await postRevert("promotion-rollback", { entryId: a.id });
+    const rollback = r.body.revert;
+    assert(r.status === 200 && rollback.mode === "rollback" && rollback.applied, "rollback applied");
+    assert(
+      rollback.targets.map((t) => t.id).join() === [c.id, b.id, a.id].join(),
+      "later promotions reverted newest first"
+    );
+    const batches = new Set(rollback.entries.map((e) => e.batchId));
+    assert(rollback.entries.length === 3 && batches.size === 1, "one batch");
+    assert(
+      (await promotedRow("qux-crisp")) === null && (await promotedRow("vell-wafer")) === null,
+      "registry as before the promotion"
+    );
+
+    const again = await postRevert("promotion-rollback", { entryId: a.id });
+    assert(again.status === 409 && again.body.revert.blocked === "nothing_to_revert", "nothing left to roll back");
+  }
+
+  console.log("\nTest 5: partial failure");
+  {
+    const unlanded = await promote({
+      registry_type: "food",
+      canonical_id: "plim-roll",
+      proposed_alias: "plim roll",
+      proposal_action: "create-entry",
+      proposed_entry: { type: "food" },
+    });
+    // The ledger entry is written first; simulate its upsert failing.
+    await getSupabaseClient().from("promoted_registry_entities").delete().eq("canonical_id", "plim-roll");
+
+    const r = await postRevert("promotion-revert", { entryId: unlanded.id });
+    assert(r.status === 200 && r.body.revert.applied, "unlanded promotion reverts as already undone");
+    assert(r.body.revert.replay.changed.length === 0, "nothing to replay");
+    const list = await ledger();
+    const closed = list.body.entries.find((e) => e.id === unlanded.id);
+    assert(closed?.revertedBy === r.body.revert.entries[0].id, "promotion closed in the ledger");
+    assert((await promotedRow("plim-roll")) === null, "no row written");
+  }
+
+  console.log("\nTest 6: without migration 024");
+  {
+    const { schema } = (getSupabaseClient() as unknown as MemoryClient).db;
+    const snapshotsTable = schema.get("knowledge_snapshots");
+    schema.delete("knowledge_snapshots");
+    try {
+      const entry = await promote({
+        registry_type: "food",
+        canonical_id: "tesk-bun",
+        proposed_alias: "tesk bun",
+        proposal_action: "create-entry",
+        proposed_entry: { type: "food" },
+      });
+      assert(entry.action === "promote" && (await promotedRow("tesk-bun")) !== null, "promotion applied");
+      const r = await postRevert("promotion-revert", { entryId: entry.id });
+      assert(r.status === 200 && r.body.revert.applied, "revert applied");
+    } finally {
+      if (snapshotsTable) schema.set("knowledge_snapshots", snapshotsTable);
+    }
+  }
+
+  console.log("\nTest 7: validation");
+  {
+    const missing = await postRevert("promotion-revert", {});
+    assert(missing.status === 400, "400 missing entryId");
+    const invalid = await postRevert("promotion-rollback", { entryId: "nope" });
+    assert(invalid.status === 400, "400 invalid entryId");
+    const unknown = await postRevert("promotion-revert", { entryId: UNKNOWN_ENTRY });
+    assert(unknown.status === 404, "404 unknown entry");
+    const method = await postRevert("promotion-revert", {}, "GET");
+    assert(method.status === 405, "405 GET revert");
+  }
+
+  console.log(`\n=== Phase 49 Results: ${pass} passed, ${fail} failed ===`);
+  if (fail > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -3,11 +3,17 @@
  *
  * Reads pipe-delimited RXNCONSO, keeps English non-suppressed, groups by RXCUI.
  * Produces normalized drug candidates.
+ *
+ * Phase 41: candidates carry their RXCUI. Multi-ingredient concepts
+ * (SCD/SBD/MIN names joined with " / ") also list ingredient canonical ids,
+ * resolved against the runtime registry where possible; a bracketed brand
+ * ("... [NyQuil]") becomes an alias.
  */
 
 import * as fs from "fs";
 import * as readline from "readline";
 import { normalizeCanonicalId, dedupeStrings } from "../normalize.js";
+import { resolveEntity } from "../../../api/_lib/knowledge/entityResolver.js";
 import type { IngestionCandidate } from "../../../api/_lib/ingestion/types.js";
 
 /** RXNCONSO columns: RXCUI|LAT|TS|LUI|STT|SUI|ISRF|RXAUI|SAUI|SAB|TTY|CODE|STR|SRL|SUPPRESS|CVF */
@@ -20,6 +26,14 @@ const SAB = 9;
 
 const TTY_PREFERENCE = ["SCD", "SBD", "SCDG", "SBDG", "BN", "PIN", "SY", "TMSY"];
 
+/** Term types whose names spell out every ingredient. */
+const INGREDIENT_LISTING_TTYS = new Set(["SCD", "SBD", "SCDG", "SBDG", "MIN"]);
+
+/** Strength onward: "Acetaminophen 325 MG" → "Acetaminophen". */
+const STRENGTH_SUFFIX = /\s+\d[\s\S]*$/;
+
+const BRAND_SUFFIX = /\s*\[([^\]]+)\]\s*$/;
+
 export interface ParseOptions {
   filePath: string;
   sourceVersion?: string;
@@ -67,8 +81,10 @@ export async function* parseRxNormConso(
   for (const [rxcui, entry] of byRxcui) {
     const names = [...entry.names.values()];
     const preferred = selectPreferredName(names, entry.ttyByStr);
-    const aliases = dedupeStrings(names.filter((n) => n.toLowerCase() !== preferred.toLowerCase()));
+    const brands = names.flatMap((n) => BRAND_SUFFIX.exec(n)?.[1] ?? []);
+    const aliases = dedupeStrings([...names.filter((n) => n.toLowerCase() !== preferred.toLowerCase()), ...brands]);
     const canonicalId = normalizeCanonicalId(preferred);
+    const ingredients = deriveIngredients(names, entry.ttyByStr);
 
     yield {
       id: `rxnorm-${rxcui}`,
@@ -77,6 +93,8 @@ export async function* parseRxNormConso(
       candidateType: "entity",
       name: preferred,
       aliases,
+      rxcui,
+      ...(ingredients.length > 1 ? { ingredients } : {}),
       source: {
         dataset: "RxNorm",
         version: sourceVersion,
@@ -105,3 +123,26 @@ function selectPreferredName(
   }
   return best ?? names[0] ?? "Unknown";
 }
+
+/**
+ * Ingredient canonical ids from the first ingredient-listing name:
+ * "Acetaminophen 325 MG / Doxylamine Succinate 6.25 MG Oral Capsule [NyQuil]"
+ * → ["acetaminophen", "doxylamine"]. Salt forms fall back to the first word
+ * when only that resolves.
+ */
+export function deriveIngredients(names: string[], ttyByStr: Map<string, string>): string[] {
+  const listing = names.find((n) => INGREDIENT_LISTING_TTYS.has(ttyByStr.get(n.toLowerCase()) ?? ""));
+  if (!listing) return [];
+  const parts = listing
+    .replace(BRAND_SUFFIX, "")
+    .split(" / ")
+    .map((p) => p.replace(STRENGTH_SUFFIX, "").trim())
+    .filter((p) => p.length > 0);
+  const ids = parts.map((p) => {
+    const full = resolveEntity(p);
+    if (full.resolved) return full.canonical;
+    const head = resolveEntity(p.split(/\s+/)[0]);
+    return head.resolved ? head.canonical : normalizeCanonicalId(p);
+  });
+  return [...new Set(ids)];
+}
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * Phase 45 – Retro-check CLI
+ *
+ * Replays every profile's stale checks through the current taxonomy and
+ * registries after a promotion (see docs/Promotion_Runbook.md §9).
+ *
+ * Usage: npm run retro:check [-- --force] [-- --profile <uuid>]
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local", override: true });
+
+import { getProfiles } from "../api/_lib/profiles/getProfiles.js";
+import { describeKnowledgeChanges, retroCheckProfile } from "../api/_lib/retro/retroCheck.js";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const force = args.includes("--force");
+  const profileArg = args.indexOf("--profile");
+  const profileIds =
+    profileArg >= 0 && args[profileArg + 1]
+      ? [args[profileArg + 1]]
+      : (await getProfiles()).map((p) => p.id);
+
+  let revisions = 0;
+  let notified = 0;
+  for (const profileId of profileIds) {
+    const run = await retroCheckProfile({ profileId, force });
+    if (!run) {
+      console.error(`Profile not found: ${profileId}`);
+      continue;
+    }
+    revisions += run.revisions.length;
+    notified += run.notified;
+    console.log(
+      `${profileId}: ${run.checksReplayed}/${run.checksScanned} replayed, ${run.revisions.length} revised, ${run.notified} notified, ${run.checksUnattributed} unattributed`
+    );
+    for (const r of run.revisions) {
+      console.log(`  ${r.checkId} ${r.oldRiskLevel} → ${r.newRiskLevel} (${describeKnowledgeChanges(r.knowledgeChanges)})`);
+    }
+  }
+  console.log(`Done: ${profileIds.length} profiles, ${revisions} revisions, ${notified} notifications`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,258 @@
+/**
+ * Phase 35 – Reaction Report Modal ("I had a reaction")
+ *
+ * Structured post-exposure report linked to the check the reaction followed:
+ * symptom, onset delay, severity and treatment used. POSTs /api/reactions;
+ * the report becomes a confirmed trigger → symptom link for insights.
+ * Opened from HistoryCheckDetailPage and the VigilanceBanner.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Activity } from "lucide-react";
+
+// Mirrors api/_lib/reactions/reactionReports.ts
+const SYMPTOMS = [
+  "hives",
+  "itching",
+  "rash",
+  "swelling",
+  "throat tightness",
+  "wheezing",
+  "vomiting",
+  "diarrhea",
+  "stomach pain",
+  "dizziness",
+];
+
+const SEVERITIES = [
+  { value: "mild", label: "Mild" },
+  { value: "moderate", label: "Moderate" },
+  { value: "severe", label: "Severe" },
+];
+
+const TREATMENTS = [
+  { value: "antihistamine", label: "Antihistamine" },
+  { value: "epinephrine", label: "Epinephrine" },
+  { value: "er_visit", label: "ER visit" },
+];
+
+const ONSET_OPTIONS = [
+  { minutes: 5, label: "Within 5 minutes" },
+  { minutes: 15, label: "About 15 minutes" },
+  { minutes: 30, label: "About 30 minutes" },
+  { minutes: 60, label: "About 1 hour" },
+  { minutes: 120, label: "About 2 hours" },
+  { minutes: 360, label: "About 6 hours" },
+  { minutes: 720, label: "About 12 hours" },
+  { minutes: 1440, label: "About 1 day" },
+];
+
+export interface ReactionReport {
+  id: string;
+  checkId: string;
+  linkedCheckId: string | null;
+  reportedAt: string;
+  symptom: string;
+  severity: "mild" | "moderate" | "severe";
+  onsetMinutes: number;
+  treatments: string[];
+  notes?: string;
+}
+
+interface ReactionReportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileId: string;
+  /** The check the reaction followed */
+  checkId: string;
+  onSaved?: (reaction: ReactionReport) => void;
+}
+
+const fieldClass =
+  "w-full rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none";
+
+export default function ReactionReportModal({
+  open,
+  onOpenChange,
+  profileId,
+  checkId,
+  onSaved,
+}: ReactionReportModalProps) {
+  const [symptom, setSymptom] = useState(SYMPTOMS[0]);
+  const [severity, setSeverity] = useState("mild");
+  const [onsetMinutes, setOnsetMinutes] = useState(30);
+  const [treatments, setTreatments] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSymptom(SYMPTOMS[0]);
+    setSeverity("mild");
+    setOnsetMinutes(30);
+    setTreatments([]);
+    setNotes("");
+    setError(null);
+  }, [open, checkId]);
+
+  function toggleTreatment(value: string) {
+    setTreatments((prev) =>
+      prev.includes(value) ? prev.filter((t) => t !== value) : [...prev, value]
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/reactions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          profileId,
+          checkId,
+          symptom,
+          severity,
+          onsetMinutes,
+          treatments,
+          ...(notes.trim() ? { notes: notes.trim() } : {}),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(json?.error ?? `HTTP ${res.status}`);
+      }
+      onSaved?.(json.reaction as ReactionReport);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save reaction");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-h-[90vh] overflow-hidden flex flex-col z-[100] sm:max-w-lg"
+        aria-describedby="reaction-report-description"
+      >
+        <DialogHeader>
+          <div className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-rose-500 flex-shrink-0" />
+            <DialogTitle className="text-lg">I had a reaction</DialogTitle>
+          </div>
+          <DialogDescription id="reaction-report-description">
+            Linked to this check so insights can use it as a confirmed trigger.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto space-y-4 pb-2">
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Symptom</span>
+            <select value={symptom} onChange={(e) => setSymptom(e.target.value)} className={fieldClass}>
+              {SYMPTOMS.map((s) => (
+                <option key={s} value={s}>
+                  {s.charAt(0).toUpperCase() + s.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">When did it start?</span>
+            <select
+              value={onsetMinutes}
+              onChange={(e) => setOnsetMinutes(Number(e.target.value))}
+              className={fieldClass}
+            >
+              {ONSET_OPTIONS.map((o) => (
+                <option key={o.minutes} value={o.minutes}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <fieldset className="text-sm">
+            <legend className="font-medium text-gray-700 mb-1">Severity</legend>
+            <div className="flex gap-2">
+              {SEVERITIES.map((s) => (
+                <button
+                  key={s.value}
+                  type="button"
+                  onClick={() => setSeverity(s.value)}
+                  aria-pressed={severity === s.value}
+                  className={`flex-1 rounded-xl border px-3 py-2 text-sm font-medium transition-colors ${
+                    severity === s.value
+                      ? "border-gray-900 bg-gray-900 text-white"
+                      : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="text-sm">
+            <legend className="font-medium text-gray-700 mb-1">Treatment used</legend>
+            <div className="flex flex-wrap gap-3">
+              {TREATMENTS.map((t) => (
+                <label key={t.value} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={treatments.includes(t.value)}
+                    onChange={() => toggleTreatment(t.value)}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  <span>{t.label}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Notes (optional)</span>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={2}
+              className={fieldClass}
+            />
+          </label>
+
+          {error && (
+            <p className="rounded-xl border border-red-100 bg-red-50 px-3 py-2 text-sm text-red-800">
+              {error}
+            </p>
+          )}
+
+          {severity === "severe" && (
+            <p className="text-xs font-medium text-red-700">
+              If symptoms are severe, use epinephrine if prescribed and seek emergency care.
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="min-h-[44px] w-full rounded-2xl bg-gray-900 text-sm font-semibold text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save reaction"}
+          </button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,10 +8,13 @@ import {
   nextAckUntil,
   readAckMap,
   writeAck,
+  toAckMap,
   type AckMap,
+  type AckOutcome,
 } from "../../lib/vigilanceBannerHelpers";
 import VigilanceDrawer from "./VigilanceDrawer";
 import SafetyProtocolModal from "./SafetyProtocolModal";
+import ReactionReportModal from "./ReactionReportModal";
 
 interface VigilanceTrigger {
   checkId: string;
@@ -20,6 +23,8 @@ interface VigilanceTrigger {
   matched: string[];
   lastSeenAt: string;
   taxonomyVersion: string | null;
+  /** Phase 34: present when the trigger is an intake ledger finding */
+  intake?: { kind: string; key: string; label: string };
 }
 
 interface VigilanceResponse {
@@ -27,8 +32,13 @@ interface VigilanceResponse {
   windowHours: number;
   vigilanceActive: boolean;
   trigger: VigilanceTrigger | null;
+  /** Phase 36: server-side acks for checks in the window */
+  acks?: Record<string, { outcome: AckOutcome; until: string | null }>;
 }
 
+/** Phase 36: snooze length offered by the banner */
+const SNOOZE_HOURS = 24;
+
 function timeAgo(iso: string): string {
   const diffMs = Date.now() - new Date(iso).getTime();
   const mins = Math.floor(diffMs / 60_000);
@@ -51,6 +61,8 @@ export default function VigilanceBanner() {
   const [ackMap, setAckMap] = useState<AckMap>({});
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [safetyProtocolOpen, setSafetyProtocolOpen] = useState(false);
+  // Phase 35: "I had a reaction" linked to the trigger check
+  const [reactionOpen, setReactionOpen] = useState(false);
 
   useEffect(() => {
     if (!selectedProfileId) return;
@@ -59,13 +71,14 @@ export default function VigilanceBanner() {
     async function load() {
       try {
         const res = await fetch(
-          `/api/vigilance?profileId=${encodeURIComponent(selectedProfileId)}&windowHours=12`
+          `/api/vigilance?profileId=${encodeURIComponent(selectedProfileId)}`
         );
         if (!res.ok) return;
         const json: VigilanceResponse = await res.json();
         if (!cancelled) {
           setData(json);
-          setAckMap(readAckMap(selectedProfileId));
+          // Phase 36: server acks win; local entries are offline fallbacks
+          setAckMap({ ...readAckMap(selectedProfileId), ...toAckMap(json.acks) });
         }
       } catch (err) {
         if (process.env.NODE_ENV !== "production") {
@@ -80,15 +93,44 @@ export default function VigilanceBanner() {
     };
   }, [selectedProfileId]);
 
-  const handleAcknowledge = useCallback(() => {
-    if (!data?.trigger || !selectedProfileId) return;
-    const until = nextAckUntil(Date.now(), data.windowHours);
-    writeAck(selectedProfileId, data.trigger.checkId, until);
-    setAckMap((prev) => ({
-      ...prev,
-      [data.trigger!.checkId]: { acknowledgedUntil: until },
-    }));
-  }, [data, selectedProfileId]);
+  // Phase 36: persist the outcome server-side (shared across devices)
+  const handleOutcome = useCallback(
+    async (outcome: AckOutcome) => {
+      if (!data?.trigger || !selectedProfileId) return;
+      const checkId = data.trigger.checkId;
+      const now = Date.now();
+      const until =
+        outcome === "snoozed"
+          ? new Date(now + SNOOZE_HOURS * 60 * 60 * 1000).toISOString()
+          : nextAckUntil(now, data.windowHours);
+      setAckMap((prev) => ({
+        ...prev,
+        [checkId]: { acknowledgedUntil: until, outcome },
+      }));
+
+      try {
+        const res = await fetch("/api/vigilance/ack", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            profileId: selectedProfileId,
+            checkId,
+            outcome,
+            windowHours: data.windowHours,
+            ...(outcome === "snoozed" ? { snoozeHours: SNOOZE_HOURS } : {}),
+          }),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      } catch (err) {
+        // Offline fallback: remember on this device at least
+        writeAck(selectedProfileId, checkId, until);
+        if (process.env.NODE_ENV !== "production") {
+          console.warn("[VigilanceBanner] ack save failed:", err);
+        }
+      }
+    },
+    [data, selectedProfileId]
+  );
 
   if (!data?.vigilanceActive || !data.trigger) return null;
   if (!shouldShowBanner(data.trigger, Date.now(), ackMap)) return null;
@@ -126,6 +168,7 @@ export default function VigilanceBanner() {
 
         <div className={`flex-1 min-w-0 text-sm ${textColor}`}>
           <span className="font-semibold">Current Precautions Active</span>
+          {trigger.intake && <span className="ml-2">{trigger.intake.label}</span>}
 
           <span className={`ml-2 inline-block rounded px-1.5 py-0.5 text-xs font-medium ${badgeBg}`}>
             {trigger.riskLevel}
@@ -164,6 +207,16 @@ export default function VigilanceBanner() {
             </button>
           )}
 
+          {trigger.checkId && selectedProfileId && (
+            <button
+              onClick={() => setReactionOpen(true)}
+              className={`text-sm font-medium whitespace-nowrap underline ${linkColor}`}
+              aria-label="I had a reaction — report a reaction to this check"
+            >
+              I had a reaction
+            </button>
+          )}
+
           <Link
             to={detailsPath}
             className={`text-sm font-medium whitespace-nowrap underline ${linkColor}`}
@@ -179,7 +232,23 @@ export default function VigilanceBanner() {
           </button>
 
           <button
-            onClick={handleAcknowledge}
+            onClick={() => handleOutcome("resolved_no_reaction")}
+            className={`text-xs font-medium whitespace-nowrap underline ${linkColor}`}
+            aria-label="Resolved — no reaction. Dismisses this alert and lowers its weight"
+          >
+            No reaction
+          </button>
+
+          <button
+            onClick={() => handleOutcome("snoozed")}
+            className={`text-xs font-medium whitespace-nowrap underline ${linkColor}`}
+            aria-label={`Snooze — hides this alert for ${SNOOZE_HOURS} hours on every device`}
+          >
+            Snooze {SNOOZE_HOURS}h
+          </button>
+
+          <button
+            onClick={() => handleOutcome("acknowledged")}
             className={`px-3 py-1 rounded text-xs font-medium whitespace-nowrap transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-1 ${ackBtnBg}`}
             aria-label={`Hide for now — hides this alert for ${ackHours} hours`}
             title={`Hides this alert for ${ackHours} hours`}
@@ -205,6 +274,15 @@ export default function VigilanceBanner() {
           checkId={trigger.checkId}
         />
       )}
+
+      {trigger.checkId && selectedProfileId && (
+        <ReactionReportModal
+          open={reactionOpen}
+          onOpenChange={setReactionOpen}
+          profileId={selectedProfileId}
+          checkId={trigger.checkId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,41 @@
+/**
+ * Phase 44 – BatchVerdictTable tests
+ * Verifies: rows ranked by risk then severity, matched terms, saved-check link
+ */
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { describe, it, expect } from "vitest";
+import { BatchVerdictTable, type BatchVerdictRow } from "./BatchVerdictTable.js";
+
+const items: BatchVerdictRow[] = [
+  { index: 1, text: "bananas", riskLevel: "none", severity: 0, reasoning: "No risk factors identified" },
+  { index: 2, text: "trail mix", riskLevel: "medium", severity: 50, reasoning: "May contain peanuts" },
+  {
+    index: 3,
+    text: "peanut butter",
+    label: "Monday",
+    riskLevel: "high",
+    severity: 90,
+    reasoning: "Contains peanut",
+    matched: [{ kind: "allergy_match", matchedTerm: "peanut" }],
+  },
+];
+
+describe("BatchVerdictTable", () => {
+  it("ranks rows highest risk first and links the saved check", () => {
+    render(
+      <MemoryRouter>
+        <BatchVerdictTable kind="meal_plan" items={items} checkId="c1" />
+      </MemoryRouter>
+    );
+
+    const rows = screen.getAllByTestId("batch-row");
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toHaveTextContent("peanut butter");
+    expect(rows[1]).toHaveTextContent("trail mix");
+    expect(rows[2]).toHaveTextContent("bananas");
+    expect(screen.getByText("Matched: peanut")).toBeInTheDocument();
+    expect(screen.getByText("Monday")).toBeInTheDocument();
+    expect(screen.getByText("Saved to history")).toHaveAttribute("href", "/history/c1");
+  });
+});
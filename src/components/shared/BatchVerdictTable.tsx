@@ -0,0 +1,124 @@
+/**
+ * Phase 44 – Batch verdict table
+ *
+ * Renders a batch check (POST /api/check/batch, or checks.batch on a saved
+ * check) as one row per item, ranked highest risk first. Rows from a stored
+ * batch carry no reasoning/matches; those columns are simply omitted.
+ * Purely presentational.
+ */
+
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/Badge.js";
+
+// ── Local types (mirrors api/_lib/batch/evaluateBatch.ts) ────────────
+
+export type BatchKind = "list" | "menu" | "receipt" | "meal_plan";
+
+export type BatchRiskLevel = "none" | "medium" | "high";
+
+export interface BatchVerdictRow {
+  index: number;
+  text: string;
+  label?: string;
+  riskLevel: BatchRiskLevel;
+  severity: number;
+  reasoning?: string;
+  matched?: { kind: string; matchedTerm: string; viaIngredients?: string[] }[];
+}
+
+export interface BatchEvaluation {
+  kind: BatchKind;
+  profileId: string;
+  items: BatchVerdictRow[];
+  summary: { itemCount: number; highestRisk: BatchRiskLevel; high: number; medium: number; none: number };
+  checkId?: string;
+}
+
+const RISK_RANK: Record<BatchRiskLevel, number> = { none: 0, medium: 1, high: 2 };
+
+const RISK_LABEL: Record<BatchRiskLevel, string> = {
+  high: "HIGH RISK",
+  medium: "CAUTION",
+  none: "SAFE",
+};
+
+const RISK_VARIANT: Record<BatchRiskLevel, "high" | "medium" | "safe"> = {
+  high: "high",
+  medium: "medium",
+  none: "safe",
+};
+
+const BATCH_KIND_LABEL: Record<BatchKind, string> = {
+  list: "List",
+  menu: "Menu",
+  receipt: "Grocery receipt",
+  meal_plan: "Meal plan",
+};
+
+function matchedText(row: BatchVerdictRow): string | null {
+  const terms = [...new Set((row.matched ?? []).map((m) => m.matchedTerm).filter(Boolean))];
+  return terms.length > 0 ? terms.join(", ") : null;
+}
+
+export function BatchVerdictTable({
+  kind,
+  items,
+  checkId,
+}: {
+  kind: BatchKind;
+  items: BatchVerdictRow[];
+  /** Saved → link to the grouped check; null → "not saved"; omitted → no save status. */
+  checkId?: string | null;
+}) {
+  const ranked = [...items].sort(
+    (a, b) => RISK_RANK[b.riskLevel] - RISK_RANK[a.riskLevel] || b.severity - a.severity || a.index - b.index
+  );
+  const high = items.filter((i) => i.riskLevel === "high").length;
+  const medium = items.filter((i) => i.riskLevel === "medium").length;
+
+  return (
+    <div className="space-y-3" data-testid="batch-verdicts">
+      <p className="text-sm text-gray-700">
+        {BATCH_KIND_LABEL[kind]}: {items.length} items, {high} high risk, {medium} caution
+        {checkId ? (
+          <Link to={`/history/${checkId}`} className="ml-2 text-xs font-medium text-blue-700 hover:underline">
+            Saved to history
+          </Link>
+        ) : (
+          checkId === null && <span className="ml-2 text-xs text-gray-400">Not saved to history</span>
+        )}
+      </p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="py-1 pr-2 font-medium">#</th>
+            <th className="py-1 pr-2 font-medium">Item</th>
+            <th className="py-1 font-medium">Verdict</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map((row) => {
+            const matched = matchedText(row);
+            return (
+              <tr key={row.index} className="border-t border-gray-100 align-top" data-testid="batch-row">
+                <td className="py-2 pr-2 text-gray-400">{row.index}</td>
+                <td className="py-2 pr-2 min-w-0">
+                  {row.label && <span className="mr-1 text-xs font-semibold text-gray-500">{row.label}</span>}
+                  <span className="text-gray-900">{row.text}</span>
+                  {matched && <p className="text-xs text-gray-500">Matched: {matched}</p>}
+                  {row.reasoning && row.riskLevel !== "none" && (
+                    <p className="text-xs text-gray-500">{row.reasoning}</p>
+                  )}
+                </td>
+                <td className="py-2">
+                  <Badge variant={RISK_VARIANT[row.riskLevel]}>{RISK_LABEL[row.riskLevel]}</Badge>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
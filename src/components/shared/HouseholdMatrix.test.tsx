@@ -0,0 +1,63 @@
+/**
+ * Phase 30 – HouseholdMatrix tests
+ * Verifies: summary names flagged profiles; one row per profile with its verdict
+ */
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect } from "vitest";
+import { HouseholdMatrix, type HouseholdComparison } from "./HouseholdMatrix.js";
+
+const household: HouseholdComparison = {
+  profiles: [
+    {
+      profileId: "p1",
+      displayName: "Amber",
+      isPrimary: true,
+      riskLevel: "high",
+      severity: 90,
+      reasoning: 'Allergen "peanut" detected',
+      matched: [{ kind: "allergy_match", ruleCode: "AA-RULE-AL-001", matchedTerm: "peanut" }],
+      advice: [{ id: "parent:peanut", title: "Peanut Exposure", immediateActions: ["Stop eating immediately"] }],
+    },
+    {
+      profileId: "p2",
+      displayName: "Ben",
+      isPrimary: false,
+      riskLevel: "none",
+      severity: 0,
+      reasoning: "No risks detected",
+      matched: [],
+      advice: [],
+    },
+  ],
+  summary: {
+    safeForEveryone: false,
+    highestRisk: "high",
+    profileCount: 2,
+    flagged: [{ profileId: "p1", displayName: "Amber", riskLevel: "high" }],
+  },
+};
+
+describe("HouseholdMatrix", () => {
+  it("summarizes flagged profiles and renders a row per profile", () => {
+    render(<HouseholdMatrix household={household} />);
+
+    expect(screen.getByText("Not safe for: Amber.")).toBeInTheDocument();
+    expect(screen.getAllByTestId("household-row")).toHaveLength(2);
+    expect(screen.getByText("SAFE")).toBeInTheDocument();
+    expect(screen.getAllByText("HIGH RISK")).toHaveLength(2);
+  });
+
+  it("shows the safe-for-everyone banner when nothing is flagged", () => {
+    render(
+      <HouseholdMatrix
+        household={{
+          profiles: [household.profiles[1]],
+          summary: { safeForEveryone: true, highestRisk: "none", profileCount: 1, flagged: [] },
+        }}
+      />
+    );
+
+    expect(screen.getByText("SAFE FOR EVERYONE")).toBeInTheDocument();
+    expect(screen.getByText("No concerns found for any of the 1 profiles.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Phase 30 – Household compare matrix
+ *
+ * Renders the `household` block from POST /api/extract (household=true):
+ * a "safe for everyone" summary followed by one row per profile with its
+ * verdict, matched rules and top advice. Purely presentational.
+ */
+
+import { Badge } from "@/components/ui/Badge.js";
+import { WhyDisclosure } from "@/components/shared/WhyDisclosure.js";
+
+// ── Local types (mirrors api/_lib/household/compareHousehold.ts) ─────
+
+export type HouseholdRiskLevel = "none" | "medium" | "high";
+
+export interface HouseholdProfileVerdict {
+  profileId: string;
+  displayName: string;
+  isPrimary: boolean;
+  riskLevel: HouseholdRiskLevel;
+  severity: number;
+  reasoning: string;
+  matched: { kind: string; ruleCode: string | null; matchedTerm: string }[];
+  advice: { id: string; title: string; immediateActions: string[] }[];
+}
+
+export interface HouseholdComparison {
+  profiles: HouseholdProfileVerdict[];
+  summary: {
+    safeForEveryone: boolean;
+    highestRisk: HouseholdRiskLevel;
+    profileCount: number;
+    flagged: { profileId: string; displayName: string; riskLevel: HouseholdRiskLevel }[];
+  };
+}
+
+function riskLabel(level: HouseholdRiskLevel): string {
+  return level === "high" ? "HIGH RISK" : level === "medium" ? "CAUTION" : "SAFE";
+}
+
+function riskVariant(level: HouseholdRiskLevel): "high" | "medium" | "safe" {
+  return level === "high" ? "high" : level === "medium" ? "medium" : "safe";
+}
+
+export function HouseholdMatrix({ household }: { household: HouseholdComparison }) {
+  const { summary } = household;
+  const heroClass = summary.safeForEveryone
+    ? "aa-hero-safe"
+    : summary.highestRisk === "high"
+      ? "aa-hero-avoid"
+      : "aa-hero-caution";
+
+  return (
+    <div className="space-y-3" data-testid="household-matrix">
+      <div className={`rounded-2xl p-6 ${heroClass}`}>
+        <Badge variant={riskVariant(summary.highestRisk)} className="mb-2">
+          {summary.safeForEveryone ? "SAFE FOR EVERYONE" : riskLabel(summary.highestRisk)}
+        </Badge>
+        <p className="text-base text-gray-900">
+          {summary.safeForEveryone
+            ? `No concerns found for any of the ${summary.profileCount} profiles.`
+            : `Not safe for: ${summary.flagged.map((f) => f.displayName).join(", ")}.`}
+        </p>
+      </div>
+
+      <ul className="flex flex-col gap-3">
+        {household.profiles.map((p) => (
+          <li key={p.profileId} className="aa-soft-card p-4" data-testid="household-row">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <span className="font-semibold text-gray-900">{p.displayName}</span>
+                {p.isPrimary && <span className="ml-2 text-xs text-gray-500">(primary)</span>}
+              </div>
+              <Badge variant={riskVariant(p.riskLevel)}>{riskLabel(p.riskLevel)}</Badge>
+            </div>
+            {p.riskLevel !== "none" && (
+              <div className="mt-3">
+                <WhyDisclosure
+                  title="Why?"
+                  summaryLines={p.matched.map((m) => m.matchedTerm).filter(Boolean)}
+                >
+                  <p className="text-sm text-gray-700">{p.reasoning}</p>
+                  {p.advice[0] && (
+                    <div className="mt-3">
+                      <p className="text-xs font-semibold text-gray-700">{p.advice[0].title}</p>
+                      <ul className="mt-1 list-disc list-inside text-sm text-gray-700 space-y-1">
+                        {p.advice[0].immediateActions.map((a, i) => (
+                          <li key={i}>{a}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </WhyDisclosure>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Phase 43 – MenuRatings tests
+ * Verifies: one row per dish with its rating, findings and server questions
+ */
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect } from "vitest";
+import { MenuRatings, type MenuAnalysis } from "./MenuRatings.js";
+
+const menu: MenuAnalysis = {
+  mode: "menu",
+  dishRegistryVersion: "43.1",
+  taxonomyVersion: "10i.3",
+  dishes: [
+    {
+      name: "Pad Thai",
+      line: "Pad Thai $14",
+      dish: { id: "pad-thai", name: "pad thai", cuisine: "thai", matchedTerm: "pad thai" },
+      risk: "high",
+      findings: [
+        {
+          allergen: "fish",
+          source: "registry",
+          band: "usually",
+          hiddenSource: "fish sauce",
+          profileAllergy: "fish",
+          risk: "high",
+        },
+      ],
+      questions: ["Does the Pad Thai contain fish sauce? (fish)"],
+    },
+    {
+      name: "House Salad",
+      line: "House Salad",
+      risk: "unknown",
+      findings: [],
+      questions: ["Does the House Salad contain any fish?"],
+    },
+  ],
+  summary: { dishCount: 2, high: 1, medium: 0, low: 0, unknown: 1 },
+  questions: ["Does the Pad Thai contain fish sauce? (fish)", "Does the House Salad contain any fish?"],
+};
+
+describe("MenuRatings", () => {
+  it("renders a rated row per dish with findings and questions", () => {
+    render(<MenuRatings menu={menu} />);
+
+    expect(screen.getAllByTestId("menu-dish")).toHaveLength(2);
+    expect(screen.getByText("AVOID")).toBeInTheDocument();
+    expect(screen.getByText("UNKNOWN DISH")).toBeInTheDocument();
+    expect(screen.getByText("Usually contains fish (fish sauce)")).toBeInTheDocument();
+    expect(screen.getByText("Does the Pad Thai contain fish sauce? (fish)")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Phase 43 – Menu / recipe ratings
+ *
+ * Renders the `menu` block from POST /api/extract (mode="menu" | "recipe"):
+ * a per-dish risk list with the allergens behind each rating and the
+ * "ask the server" questions. Purely presentational.
+ */
+
+import { Badge } from "@/components/ui/Badge.js";
+
+// ── Local types (mirrors api/_lib/menu/analyzeMenu.ts) ───────────────
+
+export type MenuRisk = "high" | "medium" | "low" | "unknown";
+
+export interface MenuAllergenFinding {
+  allergen: string;
+  source: "listed" | "registry";
+  matchedTerm?: string;
+  band?: "always" | "usually" | "sometimes";
+  hiddenSource?: string;
+  profileAllergy: string;
+  risk: "high" | "medium";
+}
+
+export interface MenuDishRating {
+  name: string;
+  description?: string;
+  line: string;
+  dish?: { id: string; name: string; cuisine: string; matchedTerm: string };
+  risk: MenuRisk;
+  findings: MenuAllergenFinding[];
+  questions: string[];
+}
+
+export interface MenuAnalysis {
+  mode: "menu" | "recipe";
+  dishRegistryVersion: string;
+  taxonomyVersion: string;
+  dishes: MenuDishRating[];
+  summary: Record<MenuRisk, number> & { dishCount: number };
+  questions: string[];
+}
+
+const RISK_LABEL: Record<MenuRisk, string> = {
+  high: "AVOID",
+  medium: "ASK FIRST",
+  low: "LIKELY OK",
+  unknown: "UNKNOWN DISH",
+};
+
+const RISK_VARIANT: Record<MenuRisk, "high" | "medium" | "safe" | "neutral"> = {
+  high: "high",
+  medium: "medium",
+  low: "safe",
+  unknown: "neutral",
+};
+
+function findingText(f: MenuAllergenFinding): string {
+  const allergen = f.allergen.replace(/_/g, " ");
+  if (f.source === "listed") return `Lists ${f.matchedTerm ?? allergen}`;
+  const source = f.hiddenSource ? ` (${f.hiddenSource})` : "";
+  return `${f.band === "always" ? "Always" : f.band === "usually" ? "Usually" : "Sometimes"} contains ${allergen}${source}`;
+}
+
+export function MenuRatings({ menu }: { menu: MenuAnalysis }) {
+  const { summary } = menu;
+  return (
+    <div className="space-y-3" data-testid="menu-ratings">
+      <p className="text-sm text-gray-700">
+        {menu.mode === "recipe"
+          ? "Recipe check"
+          : `${summary.dishCount} dishes: ${summary.high} to avoid, ${summary.medium} to ask about`}
+        <span className="ml-2 text-xs text-gray-400">Not saved to history</span>
+      </p>
+
+      <ul className="flex flex-col gap-3">
+        {menu.dishes.map((d, i) => (
+          <li key={`${d.line}-${i}`} className="aa-soft-card p-4" data-testid="menu-dish">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <span className="font-semibold text-gray-900">{d.name}</span>
+                {d.dish && <span className="ml-2 text-xs text-gray-500">{d.dish.cuisine}</span>}
+                {d.description && <p className="text-xs text-gray-500 truncate">{d.description}</p>}
+              </div>
+              <Badge variant={RISK_VARIANT[d.risk]}>{RISK_LABEL[d.risk]}</Badge>
+            </div>
+            {d.findings.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-sm text-gray-700 space-y-1">
+                {d.findings.map((f, j) => (
+                  <li key={j}>{findingText(f)}</li>
+                ))}
+              </ul>
+            )}
+            {d.questions.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs font-semibold text-gray-700">
+                  {menu.mode === "recipe" ? "Check" : "Ask the server"}
+                </p>
+                <ul className="mt-1 list-disc list-inside text-sm text-gray-700 space-y-1">
+                  {d.questions.map((q, j) => (
+                    <li key={j}>{q}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Phase 46 – ProfileRescanResults tests
+ * Verifies: nothing rendered without newly flagged checks; one linked row per
+ * item with previous → new verdict and matches; dismiss callback
+ */
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { describe, it, expect, vi } from "vitest";
+import { ProfileRescanResults, type ProfileRescan } from "./ProfileRescanResults.js";
+
+const rescan: ProfileRescan = {
+  windowDays: 30,
+  since: "2026-09-19T00:00:00Z",
+  checksScanned: 4,
+  items: [
+    {
+      checkId: "c1",
+      rawText: "sesame bagel",
+      createdAt: "2026-10-01T00:00:00Z",
+      previousRiskLevel: "none",
+      riskLevel: "high",
+      severity: 90,
+      reasoning: "Contains sesame",
+      addedMatches: ["sesame"],
+    },
+  ],
+};
+
+describe("ProfileRescanResults", () => {
+  it("renders nothing when no past check is affected", () => {
+    const { container } = render(<ProfileRescanResults rescan={{ ...rescan, items: [] }} onDismiss={() => {}} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("lists newly flagged checks and dismisses", () => {
+    const onDismiss = vi.fn();
+    render(
+      <MemoryRouter>
+        <ProfileRescanResults rescan={rescan} onDismiss={onDismiss} />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText(/1 of your checks from the last 30 days/)).toBeInTheDocument();
+    expect(screen.getByText("sesame bagel")).toHaveAttribute("href", "/history/c1");
+    expect(screen.getByText("Was safe")).toBeInTheDocument();
+    expect(screen.getByText("High Risk")).toBeInTheDocument();
+    expect(screen.getByText("Now matches: sesame")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Dismiss"));
+    expect(onDismiss).toHaveBeenCalled();
+  });
+});
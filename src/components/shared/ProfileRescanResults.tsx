@@ -0,0 +1,85 @@
+/**
+ * Phase 46 – Profile re-scan results
+ *
+ * After an allergy or medication is added, PATCH /api/profile returns a
+ * rescan of recent checks. Lists the ones the updated profile would now
+ * flag. Purely presentational; the page owns the result and dismissal.
+ */
+
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/Badge.js";
+
+// ── Local types (mirrors api/_lib/retro/profileRescan.ts) ────────────
+
+export interface RescanItem {
+  checkId: string;
+  rawText: string;
+  createdAt: string;
+  previousRiskLevel: "none" | "medium" | "high";
+  riskLevel: "none" | "medium" | "high";
+  severity: number;
+  reasoning: string;
+  addedMatches: string[];
+}
+
+export interface ProfileRescan {
+  windowDays: number;
+  since: string;
+  checksScanned: number;
+  items: RescanItem[];
+}
+
+function riskBadge(level: RescanItem["riskLevel"]) {
+  if (level === "high") return <Badge variant="high">High Risk</Badge>;
+  if (level === "medium") return <Badge variant="medium">Caution</Badge>;
+  return <Badge variant="safe">Was safe</Badge>;
+}
+
+export function ProfileRescanResults({
+  rescan,
+  onDismiss,
+}: {
+  rescan: ProfileRescan;
+  onDismiss: () => void;
+}) {
+  if (rescan.items.length === 0) return null;
+
+  return (
+    <div className="mt-4 aa-soft-card p-4 border-amber-100 bg-amber-50" data-testid="profile-rescan-results">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-gray-900">Past checks now flagged</p>
+          <p className="text-sm text-gray-600 mt-0.5">
+            With this change, {rescan.items.length} of your checks from the last {rescan.windowDays} days would be
+            flagged.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="shrink-0 text-xs font-medium text-gray-500 hover:text-gray-700"
+        >
+          Dismiss
+        </button>
+      </div>
+      <ul className="mt-3 flex flex-col gap-3">
+        {rescan.items.map((item) => (
+          <li key={item.checkId} data-testid="profile-rescan-item">
+            <Link to={`/history/${item.checkId}`} className="text-sm font-medium text-gray-900 hover:underline">
+              {item.rawText?.trim() || "(no text)"}
+            </Link>
+            <div className="mt-1 flex items-center gap-2">
+              {riskBadge(item.previousRiskLevel)}
+              <span className="text-xs text-gray-400">→</span>
+              {riskBadge(item.riskLevel)}
+              <span className="text-xs text-gray-400">{new Date(item.createdAt).toLocaleDateString()}</span>
+            </div>
+            {item.addedMatches.length > 0 && (
+              <p className="text-xs text-gray-600 mt-1">Now matches: {item.addedMatches.join(", ")}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
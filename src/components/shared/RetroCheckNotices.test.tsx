@@ -0,0 +1,58 @@
+/**
+ * Phase 45 – RetroCheckNotices tests
+ * Verifies: one notice per revision with new verdict, matches, recorded
+ * knowledge change (or the unattributed note), and dismiss callback
+ */
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { describe, it, expect, vi } from "vitest";
+import { RetroCheckNotices, type VerdictRevision } from "./RetroCheckNotices.js";
+
+const revision: VerdictRevision = {
+  id: "r1",
+  checkId: "c1",
+  oldRiskLevel: "none",
+  newRiskLevel: "high",
+  addedMatches: ["sesame"],
+  knowledgeChanges: [
+    { key: "taxonomy", from: "10i.2", to: "10i.3" },
+    { key: "drug", from: null, to: "41.1" },
+  ],
+  createdAt: "2026-10-01T00:00:00Z",
+  rawText: "tahini dressing",
+};
+
+describe("RetroCheckNotices", () => {
+  it("renders nothing without revisions", () => {
+    const { container } = render(<RetroCheckNotices revisions={[]} onDismiss={() => {}} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("shows the revised verdict and dismisses by id", () => {
+    const onDismiss = vi.fn();
+    render(
+      <MemoryRouter>
+        <RetroCheckNotices revisions={[revision]} onDismiss={onDismiss} />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText("tahini dressing")).toHaveAttribute("href", "/history/c1");
+    expect(screen.getByText("High Risk")).toBeInTheDocument();
+    expect(screen.getByText("Now matches: sesame")).toBeInTheDocument();
+    expect(screen.getByText("Knowledge: taxonomy 10i.2 → 10i.3")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Dismiss"));
+    expect(onDismiss).toHaveBeenCalledWith("r1");
+  });
+
+  it("notes unattributed revisions instead of a knowledge change", () => {
+    render(
+      <MemoryRouter>
+        <RetroCheckNotices revisions={[{ ...revision, unattributed: true }]} onDismiss={() => {}} />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText("Rechecked with current knowledge and your current profile")).toBeInTheDocument();
+    expect(screen.queryByText(/^Knowledge:/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Phase 45 – Retro-check notices
+ *
+ * Lists pending verdict revisions from GET /api/retro-check?pending=1: past
+ * checks that were safe and would now be flagged after a knowledge update.
+ * Purely presentational; the page fetches and acknowledges.
+ */
+
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/Badge.js";
+
+// ── Local types (mirrors api/_lib/retro/retroCheck.ts) ───────────────
+
+export interface KnowledgeChange {
+  key: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface VerdictRevision {
+  id: string;
+  checkId: string;
+  oldRiskLevel: "none" | "medium" | "high";
+  newRiskLevel: "none" | "medium" | "high";
+  addedMatches: string[];
+  knowledgeChanges: KnowledgeChange[];
+  /** Compared with the stored verdict: profile edits may be part of the change */
+  unattributed?: boolean;
+  createdAt: string;
+  rawText?: string;
+}
+
+function knowledgeText(changes: KnowledgeChange[]): string | null {
+  const known = changes.filter((c) => c.from !== null);
+  if (known.length === 0) return null;
+  return known.map((c) => `${c.key} ${c.from} → ${c.to}`).join(", ");
+}
+
+export function RetroCheckNotices({
+  revisions,
+  onDismiss,
+}: {
+  revisions: VerdictRevision[];
+  onDismiss: (revisionId: string) => void;
+}) {
+  if (revisions.length === 0) return null;
+
+  return (
+    <div className="mb-6 aa-soft-card p-4 border-amber-100 bg-amber-50" data-testid="retro-check-notices">
+      <p className="text-sm font-semibold text-gray-900">Updated verdicts</p>
+      <p className="text-sm text-gray-600 mt-0.5">
+        Our allergen knowledge was updated. These past checks would now be flagged.
+      </p>
+      <ul className="mt-3 flex flex-col gap-3">
+        {revisions.map((r) => {
+          const knowledge = knowledgeText(r.knowledgeChanges);
+          return (
+            <li key={r.id} className="flex items-start justify-between gap-3" data-testid="retro-check-notice">
+              <div className="min-w-0">
+                <Link to={`/history/${r.checkId}`} className="text-sm font-medium text-gray-900 hover:underline">
+                  {r.rawText?.trim() || "(no text)"}
+                </Link>
+                <div className="mt-1 flex items-center gap-2">
+                  <Badge variant="safe">Was safe</Badge>
+                  <span className="text-xs text-gray-400">→</span>
+                  <Badge variant={r.newRiskLevel === "high" ? "high" : "medium"}>
+                    {r.newRiskLevel === "high" ? "High Risk" : "Caution"}
+                  </Badge>
+                </div>
+                {r.addedMatches.length > 0 && (
+                  <p className="text-xs text-gray-600 mt-1">Now matches: {r.addedMatches.join(", ")}</p>
+                )}
+                {r.unattributed ? (
+                  <p className="text-xs text-gray-400 mt-0.5">Rechecked with current knowledge and your current profile</p>
+                ) : (
+                  knowledge && <p className="text-xs text-gray-400 mt-0.5">Knowledge: {knowledge}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => onDismiss(r.id)}
+                className="shrink-0 text-xs font-medium text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ export interface ExplainableVerdict {
     matchedCategory?: string;
     matchedChild?: string;
     crossReactive?: boolean;
+    precautionary?: boolean;
     traceId?: string;
   };
 }
@@ -33,7 +34,7 @@ export interface ExplainableCheck {
 
 // ── Output types ────────────────────────────────────────────────────
 
-export type ExplanationRuleType = "crossReactive" | "directMatch" | "interaction";
+export type ExplanationRuleType = "crossReactive" | "directMatch" | "interaction" | "precautionary";
 
 export interface ExplanationEntry {
   summary: string;
@@ -42,6 +43,10 @@ export interface ExplanationEntry {
   parentCategory?: string;
   matchedTerm: string;
   taxonomyVersion: string;
+  /** Phase 27: label statement that triggered the match (label-mode scans) */
+  labelLine?: string;
+  /** Phase 42: "via ingredient X of product Y" for combination-product matches */
+  viaIngredients?: string[];
   evidence?: {
     riskRate?: number;
     count?: number;
@@ -93,7 +98,8 @@ function ruleTypeOrder(rt: ExplanationRuleType): number {
   switch (rt) {
     case "directMatch": return 0;
     case "crossReactive": return 1;
-    case "interaction": return 2;
+    case "precautionary": return 2;
+    case "interaction": return 3;
   }
 }
 
@@ -106,8 +112,12 @@ function buildEntry(
     entry = buildDirectMatchEntry(m, taxonomyVersion);
   } else if (m.rule === "cross_reactive") {
     entry = buildCrossReactiveEntry(m, taxonomyVersion);
+  } else if (m.rule === "precautionary_allergen") {
+    entry = buildPrecautionaryEntry(m, taxonomyVersion);
   } else if (m.rule === "medication_interaction") {
     entry = buildInteractionEntry(m, taxonomyVersion);
+  } else if (m.rule === "functional_class_interaction") {
+    entry = buildClassInteractionEntry(m, taxonomyVersion);
   } else if (m.rule === "supplement_medication_interaction") {
     entry = buildSupplementMedInteractionEntry(m, taxonomyVersion);
   } else if (m.rule === "food_medication_interaction") {
@@ -116,9 +126,31 @@ function buildEntry(
   if (entry && m.ruleCode) {
     entry.ruleCode = m.ruleCode;
   }
+  const labelLine = str(m.details.labelLine);
+  if (entry && labelLine) {
+    entry.labelLine = labelLine;
+  }
+  const via = viaIngredients(m);
+  if (entry && via.length > 0) {
+    entry.viaIngredients = via;
+  }
   return entry;
 }
 
+/** Phase 42: mirrors describeViaIngredients in api/_lib/inference/drugInteractions.ts. */
+function viaIngredients(m: ExplainableMatch): string[] {
+  const pairs: [unknown, unknown][] = [
+    [m.details.extractedIngredient, m.details.extracted],
+    [m.details.conflictsWithIngredient, m.details.conflictsWith],
+    [m.details.medicationIngredient, m.details.medication],
+  ];
+  return pairs.flatMap(([ingredient, product]) =>
+    typeof ingredient === "string" && typeof product === "string"
+      ? [`via ingredient ${ingredient} of product ${product}`]
+      : []
+  );
+}
+
 function buildDirectMatchEntry(
   m: ExplainableMatch,
   taxonomyVersion: string
@@ -137,6 +169,26 @@ function buildDirectMatchEntry(
   };
 }
 
+/** Phase 28: "may contain" / shared-facility label statement. */
+function buildPrecautionaryEntry(
+  m: ExplainableMatch,
+  taxonomyVersion: string
+): ExplanationEntry {
+  const allergen = str(m.details.allergen);
+  const category = str(m.details.matchedCategory);
+  const severity = num(m.details.severity);
+  const base = `Label says it may contain "${allergen}" (cross-contact, not an ingredient)`;
+
+  return {
+    summary: m.details.escalated ? `${base} — treated as high risk for this profile` : base,
+    ruleType: "precautionary",
+    parentCategory: category || undefined,
+    matchedTerm: allergen,
+    taxonomyVersion,
+    ...(severity != null ? { evidence: { riskRate: severity / 100 } } : {}),
+  };
+}
+
 function buildCrossReactiveEntry(
   m: ExplainableMatch,
   taxonomyVersion: string
@@ -163,15 +215,38 @@ function buildInteractionEntry(
   const conflictsWith = str(m.details.conflictsWith);
   const pair = [extracted, conflictsWith].filter(Boolean).sort((a, b) => a.localeCompare(b));
   const matchedTerm = pair.join(", ");
+  // Phase 25: registry interactions carry a user-facing reason
+  const reason = str(m.details.reason);
+  const base = `${pair[0]} may interact with ${pair[1] ?? "unknown"}`;
 
   return {
-    summary: `${pair[0]} may interact with ${pair[1] ?? "unknown"}`,
+    summary: reason ? `${base}: ${reason}` : base,
     ruleType: "interaction",
     matchedTerm,
     taxonomyVersion,
   };
 }
 
+/** Phase 26: functional class rule, e.g. any NSAID + any anticoagulant. */
+function buildClassInteractionEntry(
+  m: ExplainableMatch,
+  taxonomyVersion: string
+): ExplanationEntry {
+  const extracted = str(m.details.extracted);
+  const conflictsWith = str(m.details.conflictsWith);
+  const pair = [extracted, conflictsWith].filter(Boolean).sort((a, b) => a.localeCompare(b));
+  const classRule = str(m.details.classRule);
+  const reason = str(m.details.reason);
+  const base = `${pair[0]} may interact with ${pair[1] ?? "unknown"} (class rule "${classRule}")`;
+
+  return {
+    summary: reason ? `${base}: ${reason}` : base,
+    ruleType: "interaction",
+    matchedTerm: pair.join(", "),
+    taxonomyVersion,
+  };
+}
+
 function buildSupplementMedInteractionEntry(
   m: ExplainableMatch,
   taxonomyVersion: string
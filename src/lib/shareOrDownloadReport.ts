@@ -6,15 +6,36 @@
  * and keeps the user in the app after dismissing.
  *
  * On desktop, falls back to programmatic blob download.
+ *
+ * Phase 39: also exports period reports (all checks for a profile over a date range).
  */
 
-export interface ShareOrDownloadOptions {
+export interface CheckReportOptions {
   checkId: string;
   includeRawText: boolean;
   profileId?: string;
 }
 
+/** Phase 39: period report for a profile; from / to are YYYY-MM-DD. */
+export interface PeriodReportOptions {
+  period: { from: string; to: string };
+  profileId: string;
+  includeRawText: boolean;
+}
+
+export type ShareOrDownloadOptions = CheckReportOptions | PeriodReportOptions;
+
 function buildDownloadUrl(options: ShareOrDownloadOptions): string {
+  if ("period" in options) {
+    const params = new URLSearchParams({
+      profileId: options.profileId,
+      from: options.period.from,
+      to: options.period.to,
+      includeRawText: String(options.includeRawText),
+      format: "text",
+    });
+    return `/api/report/period/download?${params.toString()}`;
+  }
   const params = new URLSearchParams({
     checkId: options.checkId,
     includeRawText: String(options.includeRawText),
@@ -26,7 +47,10 @@ function buildDownloadUrl(options: ShareOrDownloadOptions): string {
   return `/api/report/check/download?${params.toString()}`;
 }
 
-function reportFilename(): string {
+function reportFilename(options: ShareOrDownloadOptions): string {
+  if ("period" in options) {
+    return `allergy-angel-period-${options.period.from}-to-${options.period.to}.txt`;
+  }
   const d = new Date();
   const date = d.toISOString().slice(0, 10);
   const time = d.toTimeString().slice(0, 5).replace(":", "-");
@@ -44,7 +68,7 @@ export async function shareOrDownloadReport(options: ShareOrDownloadOptions): Pr
     throw new Error(`Failed to fetch report: ${res.status}`);
   }
   const reportText = await res.text();
-  const filename = reportFilename();
+  const filename = reportFilename(options);
   const blob = new Blob([reportText], { type: "text/plain" });
   const file = new File([blob], filename, { type: "text/plain" });
 
@@ -3,10 +3,18 @@
  *
  * All functions accept nowMs instead of calling Date.now(), enabling
  * fully deterministic testing from eval scripts.
+ *
+ * Phase 36: acks are persisted server-side (/api/vigilance/ack) and returned
+ * with /api/vigilance; toAckMap converts them. localStorage is only the
+ * fallback when saving to the server fails.
  */
 
+export type AckOutcome = "acknowledged" | "snoozed" | "resolved_no_reaction";
+
 export interface AckEntry {
   acknowledgedUntil: string;
+  /** Phase 36: server outcome; resolved_no_reaction never expires */
+  outcome?: AckOutcome;
 }
 
 export type AckMap = Record<string, AckEntry>;
@@ -29,6 +37,7 @@ export function shouldShowBanner(
   if (!trigger) return false;
   const ack = ackMap[trigger.checkId];
   if (!ack) return true;
+  if (ack.outcome === "resolved_no_reaction") return false;
   return nowMs >= new Date(ack.acknowledgedUntil).getTime();
 }
 
@@ -58,6 +67,17 @@ export function nextAckUntil(nowMs: number, windowHours: number): string {
   return new Date(nowMs + defaultAckHours * 60 * 60 * 1000).toISOString();
 }
 
+/** Phase 36: convert server acks (GET /api/vigilance → acks) into an AckMap. */
+export function toAckMap(
+  acks: Record<string, { outcome: AckOutcome; until: string | null }> | undefined
+): AckMap {
+  const map: AckMap = {};
+  for (const [checkId, ack] of Object.entries(acks ?? {})) {
+    map[checkId] = { acknowledgedUntil: ack.until ?? "", outcome: ack.outcome };
+  }
+  return map;
+}
+
 /** Read ack map from localStorage. Returns empty map on any error. */
 export function readAckMap(profileId: string): AckMap {
   try {
@@ -15,6 +15,7 @@ import {
   XCircle,
   Search,
   Inbox,
+  Undo2,
   type LucideIcon,
 } from "lucide-react";
 import { loadActivityFeed } from "../lib/activityFeed";
@@ -34,6 +35,7 @@ const LUCIDE_ICON_MAP: Record<string, { Icon: LucideIcon; color: string }> = {
   governance_rejected: { Icon: Landmark, color: "#64748B" },
   proposal_exported: { Icon: Landmark, color: "#F59E0B" },
   registry_promotion: { Icon: Landmark, color: "#F59E0B" },
+  registry_revert: { Icon: Undo2, color: "#B45309" },
   api_sync: { Icon: Zap, color: "#3B82F6" },
   candidate_opened: { Icon: Zap, color: "#3B82F6" },
   graph_focus_changed: { Icon: Zap, color: "#3B82F6" },
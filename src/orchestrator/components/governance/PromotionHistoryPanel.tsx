@@ -0,0 +1,184 @@
+/**
+ * Phase 49 — Promotion history (ledger) with Revert / Roll back.
+ * Two steps: the first click runs the replay gate (dry run) and shows the checks
+ * whose verdict would change; confirming acknowledges them and applies.
+ */
+
+import type {
+  PromotionLedgerEntryRow,
+  PromotionRevertMode,
+  PromotionRevertOutcome,
+} from "../../lib/fetchOrchestratorData";
+
+export type PromotionHistoryPhase = "idle" | "busy" | "error";
+
+export interface PromotionRevertPreview {
+  mode: PromotionRevertMode;
+  entryId: string;
+  outcome: PromotionRevertOutcome;
+}
+
+export interface PromotionHistoryPanelProps {
+  entries: PromotionLedgerEntryRow[];
+  loading: boolean;
+  loadError?: string | null;
+  preview: PromotionRevertPreview | null;
+  phase: PromotionHistoryPhase;
+  errorMessage?: string | null;
+  onPreview: (mode: PromotionRevertMode, entryId: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function formatLedgerDate(iso: string): string {
+  try {
+    return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+  } catch {
+    return iso;
+  }
+}
+
+function describeLedgerChange(entry: PromotionLedgerEntryRow): string {
+  const before = entry.entityBefore;
+  const after = entry.entityAfter;
+  if (!after) return "Removed from promoted registry";
+  if (!before) return entry.action === "revert" ? "Restored" : "New entity";
+  const added = after.aliases.filter((a) => !before.aliases.includes(a));
+  const removed = before.aliases.filter((a) => !after.aliases.includes(a));
+  const parts = [...added.map((a) => `+ ${a}`), ...removed.map((a) => `− ${a}`)];
+  return parts.length > 0 ? parts.join(", ") : "Entity updated";
+}
+
+export default function PromotionHistoryPanel({
+  entries,
+  loading,
+  loadError,
+  preview,
+  phase,
+  errorMessage,
+  onPreview,
+  onConfirm,
+  onCancel,
+}: PromotionHistoryPanelProps) {
+  const busy = phase === "busy";
+
+  return (
+    <section data-testid="promotion-history" className="mt-10">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-[#64748B]">Promotion history</h2>
+      <p className="mt-1 text-xs text-[#94A3B8] leading-relaxed">
+        Reverts are replay-gated: checks whose verdict would change must be acknowledged first.
+      </p>
+
+      {loading && entries.length === 0 && (
+        <p className="mt-3 text-sm text-[#64748B]">Loading promotion history…</p>
+      )}
+      {loadError && <p className="mt-3 text-sm text-[#94A3B8]">Promotion history unavailable. {loadError}</p>}
+      {!loading && !loadError && entries.length === 0 && (
+        <p className="mt-3 text-sm text-[#64748B]">No promotions recorded yet.</p>
+      )}
+
+      {phase === "error" && errorMessage && (
+        <p className="mt-3 text-sm text-[#B91C1C]" data-testid="promotion-history-error">
+          {errorMessage}
+        </p>
+      )}
+
+      <ul className="mt-3 space-y-2">
+        {entries.map((e) => {
+          const active = e.action === "promote" && !e.revertedBy;
+          const previewing = preview?.entryId === e.id ? preview : null;
+          return (
+            <li
+              key={e.id}
+              data-testid="promotion-ledger-entry"
+              className="rounded-lg border border-[#E2E8F0] bg-white px-3 py-2.5 text-sm"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <span
+                  className={`text-[10px] font-bold uppercase tracking-wide ${
+                    e.action === "promote" ? "text-amber-700" : "text-[#64748B]"
+                  }`}
+                >
+                  {e.action === "promote" ? "Promoted" : "Reverted"}
+                </span>
+                <span className="font-mono text-xs text-[#0F172A]">
+                  {e.registryType}/{e.canonicalId}
+                </span>
+                <span className="text-xs text-[#64748B]">{describeLedgerChange(e)}</span>
+                <span className="ml-auto text-[10px] text-[#94A3B8]">{formatLedgerDate(e.createdAt)}</span>
+              </div>
+              {e.action === "promote" && e.revertedBy && (
+                <p className="mt-1 text-[10px] uppercase tracking-wide text-[#94A3B8]">Undone</p>
+              )}
+              {active && !previewing && (
+                <div className="mt-2 flex gap-2">
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => onPreview("revert", e.id)}
+                    className="rounded-md border border-[#E2E8F0] px-2.5 py-1 text-xs font-medium text-[#0F172A] hover:bg-[#F8FAFC] disabled:opacity-50"
+                  >
+                    Revert
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => onPreview("rollback", e.id)}
+                    className="rounded-md border border-[#E2E8F0] px-2.5 py-1 text-xs font-medium text-[#0F172A] hover:bg-[#F8FAFC] disabled:opacity-50"
+                  >
+                    Roll back to here
+                  </button>
+                </div>
+              )}
+              {previewing && (
+                <div
+                  data-testid="promotion-revert-preview"
+                  className="mt-3 rounded-lg border border-amber-200 bg-amber-50/70 p-3 text-xs text-[#334155]"
+                >
+                  <p className="font-semibold text-[#0F172A]">
+                    {previewing.mode === "rollback"
+                      ? `Roll back ${previewing.outcome.targets.length} promotion(s)`
+                      : "Revert this promotion"}
+                  </p>
+                  <p className="mt-1">
+                    Replayed {previewing.outcome.replay.checksReplayed} recent check(s);{" "}
+                    {previewing.outcome.replay.changed.length === 0
+                      ? "no verdict changes."
+                      : `${previewing.outcome.replay.changed.length} verdict change(s):`}
+                  </p>
+                  {previewing.outcome.replay.changed.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 font-mono text-[11px]">
+                      {previewing.outcome.replay.changed.map((c) => (
+                        <li key={c.checkId}>
+                          {c.checkId.slice(0, 8)} — {c.riskLevelFrom} → {c.riskLevelTo}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={onConfirm}
+                      className="rounded-md bg-[#0F172A] px-2.5 py-1 text-xs font-medium text-white hover:bg-[#1E293B] disabled:opacity-50"
+                    >
+                      {previewing.outcome.replay.changed.length > 0 ? "Acknowledge & apply" : "Apply"}
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={onCancel}
+                      className="rounded-md border border-[#E2E8F0] bg-white px-2.5 py-1 text-xs font-medium text-[#64748B] hover:bg-[#F8FAFC] disabled:opacity-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -15,6 +15,7 @@ export type ActivityEventType =
   | "governance_submitted"
   | "governance_rejected"
   | "registry_promotion"
+  | "registry_revert"
   | "api_sync"
   | "candidate_opened"
   | "graph_focus_changed";
@@ -36,6 +37,7 @@ export const ACTIVITY_ICONOGRAPHY: Record<
   governance_rejected: { icon: "🏛️", color: "#64748B", category: "governance" },
   proposal_exported: { icon: "🏛️", color: "#F59E0B", category: "governance" },
   registry_promotion: { icon: "🏛️", color: "#F59E0B", category: "governance" },
+  registry_revert: { icon: "↩️", color: "#B45309", category: "governance" },
   api_sync: { icon: "⚡", color: "#3B82F6", category: "api" },
   candidate_opened: { icon: "🔎", color: "#94A3B8", category: "investigation" },
   graph_focus_changed: { icon: "🔎", color: "#94A3B8", category: "investigation" },
@@ -273,6 +273,87 @@ export async function dismissAliasProposal(proposalId: string): Promise<DismissA
   }
 }
 
+// ── Promotion ledger (Phase 49) ───────────────────────────────────────────
+
+export interface PromotionLedgerEntityRow {
+  id: string;
+  type: string;
+  aliases: string[];
+  riskTags?: string[];
+}
+
+export interface PromotionLedgerEntryRow {
+  id: string;
+  batchId: string;
+  position: number;
+  action: "promote" | "revert";
+  registryType: string;
+  canonicalId: string;
+  entityBefore: PromotionLedgerEntityRow | null;
+  entityAfter: PromotionLedgerEntityRow | null;
+  revertsId: string | null;
+  revertedBy: string | null;
+  createdAt: string;
+}
+
+export interface PromotionLedgerResponse {
+  meta?: { count: number };
+  entries?: PromotionLedgerEntryRow[];
+}
+
+export type PromotionRevertMode = "revert" | "rollback";
+
+/** Server result of promotion-revert / promotion-rollback (also on 409). */
+export interface PromotionRevertOutcome {
+  mode: PromotionRevertMode;
+  applied: boolean;
+  targets: PromotionLedgerEntryRow[];
+  entries: PromotionLedgerEntryRow[];
+  replay: {
+    checksReplayed: number;
+    changed: Array<{ checkId: string; riskLevelFrom: string; riskLevelTo: string }>;
+  };
+  gate: { passed: boolean; failures: string[] };
+  blocked?: string;
+}
+
+export type RevertPromotionResult =
+  | { ok: true; data: PromotionRevertOutcome }
+  | { ok: false; error: string; revert?: PromotionRevertOutcome };
+
+export async function fetchPromotionLedger(
+  limit = 50
+): Promise<OrchestratorFetchResult<PromotionLedgerResponse>> {
+  return fetchOrchestrator<PromotionLedgerResponse>("Governance", "promotion-ledger", { limit });
+}
+
+/**
+ * Revert one promotion, or roll back to before it. Replay-gated on the server:
+ * dryRun previews the replay; risk changes must be acknowledged by check id.
+ */
+export async function revertPromotion(
+  mode: PromotionRevertMode,
+  entryId: string,
+  opts: { dryRun?: boolean; acknowledge?: string[] } = {}
+): Promise<RevertPromotionResult> {
+  try {
+    const res = await fetch(`${BASE}?action=promotion-${mode}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entryId, dryRun: opts.dryRun === true, acknowledge: opts.acknowledge ?? [] }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) {
+      const msg = typeof body?.error === "string" ? body.error : `HTTP ${res.status}`;
+      return { ok: false, error: msg, revert: body?.revert ?? undefined };
+    }
+    return { ok: true, data: body.revert as PromotionRevertOutcome };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Network error";
+    return { ok: false, error: msg };
+  }
+}
+
 // ── Ingestion ─────────────────────────────────────────────────────────────
 
 export interface IngestionCandidatesResponse {
@@ -335,6 +335,57 @@ describe("GovernancePage", () => {
     );
   });
 
+  it("local Signals item: approving before the queue load settles keeps the success panel", async () => {
+    const user = userEvent.setup();
+    const signalKey = `ue:early-approve-${testIso}`;
+    const clientRow = {
+      id: signalKey,
+      signalId: signalKey,
+      entity: "Sesame",
+      proposal: {
+        signalId: signalKey,
+        research: { aliases: [], classificationConfidence: 70 },
+        classification: "new-entity",
+        createdAt: 1,
+        preview: { before: "a", after: "b" },
+      },
+      proposalType: "unknown-entity:new-entity",
+      before: "a",
+      after: "b",
+      confidence: 70,
+      status: "pending",
+      createdAt: Date.now(),
+    };
+    sessionStorage.setItem("orch_governance_queue_v1", JSON.stringify([clientRow]));
+
+    let releaseProposals: () => void = () => {};
+    const proposalsHeld = new Promise<void>((resolve) => {
+      releaseProposals = resolve;
+    });
+    (fetch as ReturnType<typeof vi.fn>).mockImplementation(async (input: RequestInfo | URL) => {
+      const url = typeof input === "string" ? input : String(input);
+      if (url.includes("alias-proposals")) {
+        await proposalsHeld;
+        return { ok: true, json: async () => ({ meta: { count: 0 }, proposals: [] }) };
+      }
+      return { ok: false, status: 404, json: async () => ({}) };
+    });
+
+    renderGovernance(<GovernancePage />);
+
+    // The default row is shown while the registry queue is still loading.
+    await user.click(await screen.findByTestId("governance-approve-promote"));
+    expect(screen.getByTestId("governance-action-success")).toBeInTheDocument();
+
+    // The load settling is not a selection change — the success panel stays.
+    releaseProposals();
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalledWith(expect.stringContaining("promotion-ledger"));
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(screen.getByTestId("governance-action-success")).toBeInTheDocument();
+  });
+
   it("rehydrates governance queue from investigation when queue storage was empty", async () => {
     const signalKey = `ue:rehydrate-${testIso}`;
     sessionStorage.setItem(
@@ -431,4 +482,88 @@ describe("GovernancePage", () => {
       expect(dismiss).toHaveBeenCalledWith({ proposalId: aliasProposal.id });
     });
   });
+
+  it("promotion history: revert previews the replay gate, then acknowledges and records activity", async () => {
+    const user = userEvent.setup();
+    const revertBodies: Array<Record<string, unknown>> = [];
+    const entry = {
+      id: "22222222-2222-2222-2222-222222222222",
+      batchId: "33333333-3333-3333-3333-333333333333",
+      position: 0,
+      action: "promote",
+      registryType: "food",
+      canonicalId: "zorb-bar",
+      entityBefore: null,
+      entityAfter: { id: "zorb-bar", type: "food", aliases: ["zorb bar"], riskTags: ["peanuts"] },
+      revertsId: null,
+      revertedBy: null,
+      createdAt: "2025-01-02T00:00:00Z",
+    };
+    const outcome = (applied: boolean) => ({
+      mode: "revert",
+      applied,
+      targets: [entry],
+      entries: applied ? [{ ...entry, id: "44444444-4444-4444-4444-444444444444", action: "revert" }] : [],
+      replay: {
+        checksReplayed: 3,
+        changed: [{ checkId: "c1c1c1c1-0000-0000-0000-000000000001", riskLevelFrom: "high", riskLevelTo: "none" }],
+      },
+      gate: { passed: applied, failures: applied ? [] : ["Strict mode: c1c1c1c1 has riskLevel change (high → none)"] },
+    });
+    (fetch as ReturnType<typeof vi.fn>).mockImplementation((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = typeof input === "string" ? input : String(input);
+      if (url.includes("alias-proposals")) {
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ meta: { count: 0 }, proposals: [] }),
+        });
+      }
+      if (url.includes("promotion-ledger")) {
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ meta: { count: 1 }, entries: [entry] }),
+        });
+      }
+      if (url.includes("promotion-revert") && init?.method === "POST") {
+        const body = JSON.parse(init.body as string);
+        revertBodies.push(body);
+        return Promise.resolve({
+          ok: true,
+          json: async () => ({ revert: outcome(!body.dryRun) }),
+        });
+      }
+      return Promise.resolve({ ok: false, status: 404, json: async () => ({}) });
+    });
+
+    renderGovernance(<GovernancePage />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId("promotion-ledger-entry")).toHaveTextContent(/food\/zorb-bar/);
+    });
+
+    await user.click(screen.getByRole("button", { name: "Revert" }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("promotion-revert-preview")).toHaveTextContent(/1 verdict change/);
+    });
+    expect(revertBodies[0]).toMatchObject({ entryId: entry.id, dryRun: true });
+    expect(mockPushEvent).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Acknowledge & apply" }));
+
+    await waitFor(() => {
+      expect(mockPushEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "registry_revert",
+          message: expect.stringMatching(/food\/zorb-bar — promotion reverted/),
+        })
+      );
+    });
+    expect(revertBodies[1]).toMatchObject({
+      entryId: entry.id,
+      dryRun: false,
+      acknowledge: ["c1c1c1c1-0000-0000-0000-000000000001"],
+    });
+    expect(screen.getByTestId("governance-api-flash")).toHaveTextContent(/Promotion reverted/);
+  });
 });
@@ -1,13 +1,18 @@
 /**
  * Governance — queue + review desk (O6.11 / O7).
  * Client queue (Signals) + registry-backed API rows; center uses same preview as Signals.
+ * Phase 49: promotion history below the desk — replay-gated revert / roll back.
  */
 
 import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import {
   dismissAliasProposal,
   fetchGovernancePendingProposals,
+  fetchPromotionLedger,
   promoteAliasProposals,
+  revertPromotion,
+  type PromotionLedgerEntryRow,
+  type PromotionRevertMode,
 } from "../lib/fetchOrchestratorData";
 import type { GovernanceProposalRow } from "../lib/governanceProposal";
 import {
@@ -26,6 +31,10 @@ import GovernanceSignalReviewDesk from "../components/governance/GovernanceSigna
 import GovernanceActionBar, {
   type GovernanceActionPhase,
 } from "../components/governance/GovernanceActionBar";
+import PromotionHistoryPanel, {
+  type PromotionHistoryPhase,
+  type PromotionRevertPreview,
+} from "../components/governance/PromotionHistoryPanel";
 
 function localSelectionKey(id: string): string {
   return `local:${id}`;
@@ -92,9 +101,30 @@ export default function GovernancePage() {
     setLoading(false);
   }, []);
 
+  const [ledger, setLedger] = useState<PromotionLedgerEntryRow[]>([]);
+  const [ledgerLoading, setLedgerLoading] = useState(true);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+  const [revertPreview, setRevertPreview] = useState<PromotionRevertPreview | null>(null);
+  const [revertPhase, setRevertPhase] = useState<PromotionHistoryPhase>("idle");
+  const [revertError, setRevertError] = useState<string | null>(null);
+
+  const loadLedger = useCallback(async () => {
+    setLedgerLoading(true);
+    const result = await fetchPromotionLedger();
+    if (result.ok) {
+      setLedger(result.data.entries ?? []);
+      setLedgerError(null);
+    } else {
+      setLedger([]);
+      setLedgerError(result.error);
+    }
+    setLedgerLoading(false);
+  }, []);
+
+  /** Queue first; promotion history loads after it. */
   useEffect(() => {
-    void load();
-  }, [load]);
+    void load().then(loadLedger);
+  }, [load, loadLedger]);
 
   const resetActionUi = useCallback(() => {
     setActionPhase("idle");
@@ -112,16 +142,6 @@ export default function GovernancePage() {
     }
   }, [selection, governancePending, resetActionUi]);
 
-  /** Only reset action UI when the user actually changes selection — not on spurious effect runs. */
-  const prevSelectedKeyForActionRef = useRef<string | null | undefined>(undefined);
-  useEffect(() => {
-    if (prevSelectedKeyForActionRef.current === selectedKey) return;
-    prevSelectedKeyForActionRef.current = selectedKey;
-    setActionPhase("idle");
-    setActionError(null);
-    setSuccessVariant(null);
-  }, [selectedKey]);
-
   useEffect(() => {
     if (successHoldKey) return;
     if (loading) return;
@@ -143,6 +163,19 @@ export default function GovernancePage() {
     return null;
   }, [selectedKey, governancePending, apiProposals]);
 
+  /**
+   * Only reset action UI when the user actually changes selection — not on spurious effect runs.
+   * Keyed on the resolved row: the list load pinning the default row is not a change.
+   */
+  const prevSelectedKeyForActionRef = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (prevSelectedKeyForActionRef.current === resolvedKey) return;
+    prevSelectedKeyForActionRef.current = resolvedKey;
+    setActionPhase("idle");
+    setActionError(null);
+    setSuccessVariant(null);
+  }, [resolvedKey]);
+
   const selectedLocal: GovernanceItem | null = useMemo(() => {
     if (!resolvedKey?.startsWith("local:")) return null;
     const id = resolvedKey.slice("local:".length);
@@ -181,6 +214,7 @@ export default function GovernancePage() {
   const handleApproveLocal = useCallback(() => {
     if (!selectedLocal || selectedLocal.status !== "pending") return;
     const key = localSelectionKey(selectedLocal.id);
+    setSelectedKey(key);
     setActionPhase("busy");
     setActionError(null);
     try {
@@ -213,6 +247,7 @@ export default function GovernancePage() {
   const handleRejectLocal = useCallback(() => {
     if (!selectedLocal || selectedLocal.status !== "pending") return;
     const key = localSelectionKey(selectedLocal.id);
+    setSelectedKey(key);
     updateItemStatus(selectedLocal.id, "rejected");
     resolveFromGovernance(selectedLocal.signalId, "rejected");
     activity?.pushEvent({
@@ -261,6 +296,7 @@ export default function GovernancePage() {
       });
       window.setTimeout(() => setApiFlash(null), 6000);
       await load();
+      await loadLedger();
       setActionPhase("idle");
       return;
     }
@@ -271,7 +307,7 @@ export default function GovernancePage() {
         ? `Promotion failed — replay validation error: ${result.error}`
         : `Promotion failed — ${result.error}`
     );
-  }, [selectedApi, activity, load]);
+  }, [selectedApi, activity, load, loadLedger]);
 
   const handleRejectApi = useCallback(async () => {
     if (!selectedApi) return;
@@ -305,6 +341,67 @@ export default function GovernancePage() {
     setActionError(result.error);
   }, [selectedApi, activity, load]);
 
+  /** Phase 49: first step — replay gate dry run. */
+  const handlePreviewRevert = useCallback(async (mode: PromotionRevertMode, entryId: string) => {
+    setRevertPhase("busy");
+    setRevertError(null);
+    setRevertPreview(null);
+    const result = await revertPromotion(mode, entryId, { dryRun: true });
+    if (result.ok) {
+      setRevertPreview({ mode, entryId, outcome: result.data });
+      setRevertPhase("idle");
+      return;
+    }
+    setRevertPhase("error");
+    setRevertError(`${mode === "rollback" ? "Rollback" : "Revert"} unavailable — ${result.error}`);
+  }, []);
+
+  /** Second step — apply, acknowledging the verdict changes the dry run showed. */
+  const handleConfirmRevert = useCallback(async () => {
+    if (!revertPreview) return;
+    const { mode, entryId, outcome } = revertPreview;
+    setRevertPhase("busy");
+    setRevertError(null);
+    const result = await revertPromotion(mode, entryId, {
+      acknowledge: outcome.replay.changed.map((c) => c.checkId),
+    });
+    if (!result.ok) {
+      setRevertPhase("error");
+      setRevertError(`${mode === "rollback" ? "Rollback" : "Revert"} failed — ${result.error}`);
+      if (result.revert && !result.revert.blocked) {
+        setRevertPreview({ mode, entryId, outcome: result.revert });
+      }
+      return;
+    }
+    const targets = result.data.targets.map((t) => `${t.registryType}/${t.canonicalId}`);
+    activity?.pushEvent({
+      type: "registry_revert",
+      message:
+        mode === "rollback"
+          ? `Rolled back ${targets.length} promotion(s) — ${[...new Set(targets)].join(", ")}`
+          : `${targets[0]} — promotion reverted`,
+      status: "success",
+      source: "governance",
+      metadata: {
+        mode,
+        ledgerEntryId: entryId,
+        revertEntryIds: result.data.entries.map((e) => e.id),
+        affectedEntities: [...new Set(targets)],
+        acknowledgedChecks: result.data.replay.changed.map((c) => c.checkId),
+        revertedAt: new Date().toISOString(),
+      },
+    });
+    setApiFlash({
+      kind: "reject",
+      title: mode === "rollback" ? "Rolled back" : "Promotion reverted",
+      detail: "The promoted registry was restored to its previous state and will affect future checks.",
+    });
+    window.setTimeout(() => setApiFlash(null), 6000);
+    setRevertPreview(null);
+    setRevertPhase("idle");
+    await loadLedger();
+  }, [revertPreview, activity, loadLedger]);
+
   const impactLine = useMemo(() => {
     if (selectedLocal) return impactLineForGovernanceItem(selectedLocal);
     if (selectedApi) return impactLineForApiProposal(selectedApi);
@@ -464,6 +561,22 @@ export default function GovernancePage() {
           </div>
         </div>
       )}
+
+      <PromotionHistoryPanel
+        entries={ledger}
+        loading={ledgerLoading}
+        loadError={ledgerError}
+        preview={revertPreview}
+        phase={revertPhase}
+        errorMessage={revertError}
+        onPreview={(mode, entryId) => void handlePreviewRevert(mode, entryId)}
+        onConfirm={() => void handleConfirmRevert()}
+        onCancel={() => {
+          setRevertPreview(null);
+          setRevertPhase("idle");
+          setRevertError(null);
+        }}
+      />
     </div>
   );
 }
@@ -3,16 +3,24 @@
  *
  * Data contract:
  *   GET  /api/profile → { profile: { known_allergies: string[], current_medications: {name,dosage?}[], supplements: string[], ... } }
- *   PATCH /api/profile → body: { known_allergies?, current_medications?, supplements? } → { profile: ... }
+ *   PATCH /api/profile → body: { known_allergies?, current_medications?, supplements?, escalate_precautionary?, vigilance_policy?, emergency_contacts? } → { profile: ... }
  *
  * Maps UI categories to Supabase columns:
  *   allergy    → known_allergies (text[])
  *   medication → current_medications (jsonb array of {name, dosage?})
  *   supplement → supplements (text[])
+ *
+ * Phase 28: "May contain" toggle → escalate_precautionary (boolean)
+ * Phase 32: per-allergy reaction history (reaction, diagnosisSource, lastReactionAt)
+ * Phase 37: vigilance policy select → vigilance_policy (standard | infant | single_event)
+ * Phase 38: emergency contacts + links to the printable action plan (GET /api/report/action-plan)
+ * Phase 40: FHIR bundle download (GET /api/fhir)
+ * Phase 46: adding an allergy / medication shows recent checks that are now flagged (PATCH → rescan)
  */
 
 import { useEffect, useState, useCallback } from 'react';
 import { useProfileContext } from '../context/ProfileContext';
+import { ProfileRescanResults, type ProfileRescan } from '../components/shared/ProfileRescanResults';
 
 type ItemType = 'medication' | 'supplement' | 'allergy';
 
@@ -22,13 +30,51 @@ interface Medication {
   displayName?: string;
 }
 
-type AllergyItem = string | { name: string; displayName?: string };
+type ReactionClass = 'anaphylaxis' | 'hives' | 'gi' | 'intolerance';
+type DiagnosisSource = 'clinician' | 'allergy_test' | 'self_reported';
+
+interface AllergyDetails {
+  reaction?: ReactionClass;
+  diagnosisSource?: DiagnosisSource;
+  lastReactionAt?: string;
+}
+
+type AllergyItem = string | ({ name: string; displayName?: string } & AllergyDetails);
+
+const REACTION_OPTIONS: { value: ReactionClass; label: string }[] = [
+  { value: 'anaphylaxis', label: 'Anaphylaxis' },
+  { value: 'hives', label: 'Hives / swelling' },
+  { value: 'gi', label: 'Stomach (GI) symptoms' },
+  { value: 'intolerance', label: 'Intolerance' },
+];
+
+const DIAGNOSIS_OPTIONS: { value: DiagnosisSource; label: string }[] = [
+  { value: 'clinician', label: 'Diagnosed by clinician' },
+  { value: 'allergy_test', label: 'Allergy test' },
+  { value: 'self_reported', label: 'Self-reported' },
+];
+
+/** Phase 37: mirrors api/_lib/vigilance/vigilancePolicies.ts */
+const VIGILANCE_POLICY_OPTIONS: { value: string; label: string; hint: string }[] = [
+  { value: 'standard', label: 'Standard', hint: 'Alerts on recent risks over the last 12 hours.' },
+  { value: 'infant', label: 'Infant (stricter)', hint: 'Looks back 48 hours and alerts on lower combined risk.' },
+  { value: 'single_event', label: 'Single event', hint: 'Only the strongest recent risk counts; small risks never add up.' },
+];
 type SupplementItem = string | { name: string; displayName?: string };
 
+interface EmergencyContact {
+  name: string;
+  phone: string;
+  relationship?: string;
+}
+
 interface ProfileData {
   known_allergies: AllergyItem[];
   current_medications: Medication[];
   supplements: SupplementItem[];
+  escalate_precautionary?: boolean;
+  vigilance_policy?: string;
+  emergency_contacts?: EmergencyContact[];
 }
 
 function getDisplayName(item: string | { name: string; displayName?: string }): string {
@@ -46,6 +92,8 @@ export default function AngelProfilePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [contact, setContact] = useState<EmergencyContact>({ name: '', phone: '', relationship: '' });
+  const [rescan, setRescan] = useState<ProfileRescan | null>(null);
 
   // ── Fetch profile on mount (scoped to selected profile) ─────────
   useEffect(() => {
@@ -64,7 +112,11 @@ export default function AngelProfilePage() {
             known_allergies: json.profile.known_allergies ?? [],
             current_medications: json.profile.current_medications ?? [],
             supplements: json.profile.supplements ?? [],
+            escalate_precautionary: json.profile.escalate_precautionary === true,
+            vigilance_policy: json.profile.vigilance_policy ?? 'standard',
+            emergency_contacts: json.profile.emergency_contacts ?? [],
           });
+          setRescan(null);
         }
       } catch (err: any) {
         if (!cancelled) setError(err?.message ?? 'Failed to load profile');
@@ -96,7 +148,12 @@ export default function AngelProfilePage() {
         known_allergies: json.profile.known_allergies ?? [],
         current_medications: json.profile.current_medications ?? [],
         supplements: json.profile.supplements ?? [],
+        escalate_precautionary: json.profile.escalate_precautionary === true,
+        vigilance_policy: json.profile.vigilance_policy ?? 'standard',
+        emergency_contacts: json.profile.emergency_contacts ?? [],
       });
+      // Phase 46: only allergy / medication edits return a rescan
+      if (json.rescan) setRescan(json.rescan);
     } catch (err: any) {
       setError(err?.message ?? 'Failed to save');
     } finally {
@@ -148,6 +205,38 @@ export default function AngelProfilePage() {
     }
   };
 
+  // ── Phase 32: update reaction history on one allergy ───────────
+  const handleAllergyDetails = async (index: number, patch: AllergyDetails) => {
+    if (!profile) return;
+    await saveProfile({
+      known_allergies: profile.known_allergies.map((a, i) =>
+        i === index ? { ...(typeof a === 'string' ? { name: a } : a), ...patch } : a
+      ),
+    });
+  };
+
+  // ── Phase 38: emergency contacts ───────────────────────────────
+  const handleAddContact = async () => {
+    if (!profile || !contact.name.trim() || !contact.phone.trim()) return;
+    const next: EmergencyContact = {
+      name: contact.name.trim(),
+      phone: contact.phone.trim(),
+      ...(contact.relationship?.trim() ? { relationship: contact.relationship.trim() } : {}),
+    };
+    await saveProfile({ emergency_contacts: [...(profile.emergency_contacts ?? []), next] });
+    setContact({ name: '', phone: '', relationship: '' });
+  };
+
+  const handleRemoveContact = async (index: number) => {
+    if (!profile) return;
+    await saveProfile({
+      emergency_contacts: (profile.emergency_contacts ?? []).filter((_, i) => i !== index),
+    });
+  };
+
+  const actionPlanUrl = (format: 'html' | 'text', download = false) =>
+    `/api/report/action-plan?profileId=${encodeURIComponent(selectedProfileId ?? '')}&format=${format}${download ? '&download=1' : ''}`;
+
   // ── Build display lists ────────────────────────────────────────
   const grouped = profile
     ? {
@@ -190,6 +279,8 @@ export default function AngelProfilePage() {
         </div>
       )}
 
+      {rescan && <ProfileRescanResults rescan={rescan} onDismiss={() => setRescan(null)} />}
+
       {/* Add */}
       <div className="mt-6 aa-soft-card p-4">
         <div className="flex flex-col sm:flex-row gap-4">
@@ -225,6 +316,46 @@ export default function AngelProfilePage() {
         </div>
       </div>
 
+      {/* Phase 28: precautionary label preference */}
+      <label className="mt-6 aa-soft-card p-4 flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={profile?.escalate_precautionary === true}
+          onChange={(e) => saveProfile({ escalate_precautionary: e.target.checked })}
+          disabled={saving || !profile}
+          className="mt-1 h-4 w-4 rounded border-gray-300"
+        />
+        <span>
+          <span className="block text-sm font-semibold text-gray-900">
+            Treat &ldquo;may contain&rdquo; labels as high risk
+          </span>
+          <span className="block text-sm text-gray-500 mt-0.5">
+            For highly sensitive allergies. Cross-contact warnings on labels are otherwise shown as caution.
+          </span>
+        </span>
+      </label>
+
+      {/* Phase 37: vigilance scoring policy */}
+      <div className="mt-3 aa-soft-card p-4">
+        <label htmlFor="vigilance-policy" className="block text-sm font-semibold text-gray-900">
+          Vigilance alerts
+        </label>
+        <select
+          id="vigilance-policy"
+          value={profile?.vigilance_policy ?? 'standard'}
+          onChange={(e) => saveProfile({ vigilance_policy: e.target.value })}
+          disabled={saving || !profile}
+          className="mt-2 rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+        >
+          {VIGILANCE_POLICY_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+        <span className="block text-sm text-gray-500 mt-1">
+          {VIGILANCE_POLICY_OPTIONS.find((o) => o.value === (profile?.vigilance_policy ?? 'standard'))?.hint}
+        </span>
+      </div>
+
       {/* Lists — distinct card clusters */}
       <div className="mt-6 flex flex-col gap-6">
         {(['medication', 'supplement', 'allergy'] as ItemType[]).map((t) => {
@@ -236,23 +367,63 @@ export default function AngelProfilePage() {
                 <p className="mt-4 text-sm text-gray-500">None added yet.</p>
               ) : (
                 <ul className="mt-4 flex flex-col gap-4">
-                  {items.map((display) => {
+                  {items.map((display, i) => {
                     const rawName = t === 'medication'
                       ? display.replace(/\s*\(.*\)$/, '')
                       : display;
+                    const allergy = t === 'allergy' ? profile?.known_allergies[i] : undefined;
+                    const details: AllergyDetails = allergy && typeof allergy !== 'string' ? allergy : {};
                     return (
                       <li
                         key={`${t}:${display}`}
-                        className="flex items-center justify-between rounded-2xl border border-gray-100 bg-gray-50/50 px-4 py-3"
+                        className="rounded-2xl border border-gray-100 bg-gray-50/50 px-4 py-3"
                       >
-                        <div className="text-sm text-gray-900">{display}</div>
-                        <button
-                          onClick={() => handleRemove(t, rawName)}
-                          disabled={saving}
-                          className="text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50 transition-colors"
-                        >
-                          Remove
-                        </button>
+                        <div className="flex items-center justify-between">
+                          <div className="text-sm text-gray-900">{display}</div>
+                          <button
+                            onClick={() => handleRemove(t, rawName)}
+                            disabled={saving}
+                            className="text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50 transition-colors"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                        {t === 'allergy' && (
+                          <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                            <select
+                              aria-label={`Reaction for ${display}`}
+                              value={details.reaction ?? ''}
+                              onChange={(e) => handleAllergyDetails(i, { reaction: (e.target.value || undefined) as ReactionClass | undefined })}
+                              disabled={saving}
+                              className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+                            >
+                              <option value="">Reaction not specified</option>
+                              {REACTION_OPTIONS.map((o) => (
+                                <option key={o.value} value={o.value}>{o.label}</option>
+                              ))}
+                            </select>
+                            <select
+                              aria-label={`Diagnosis for ${display}`}
+                              value={details.diagnosisSource ?? ''}
+                              onChange={(e) => handleAllergyDetails(i, { diagnosisSource: (e.target.value || undefined) as DiagnosisSource | undefined })}
+                              disabled={saving}
+                              className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+                            >
+                              <option value="">Diagnosis not specified</option>
+                              {DIAGNOSIS_OPTIONS.map((o) => (
+                                <option key={o.value} value={o.value}>{o.label}</option>
+                              ))}
+                            </select>
+                            <input
+                              type="date"
+                              aria-label={`Last reaction for ${display}`}
+                              value={details.lastReactionAt ?? ''}
+                              onChange={(e) => handleAllergyDetails(i, { lastReactionAt: e.target.value || undefined })}
+                              disabled={saving}
+                              className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+                            />
+                          </div>
+                        )}
                       </li>
                     );
                   })}
@@ -262,6 +433,86 @@ export default function AngelProfilePage() {
           );
         })}
       </div>
+
+      {/* Phase 38: emergency contacts + action plan */}
+      <div className="mt-6 aa-soft-card p-6">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-sm font-semibold text-gray-900">Emergency contacts</h2>
+          <div className="flex gap-3 text-sm">
+            <a href={actionPlanUrl('html')} target="_blank" rel="noreferrer" className="font-medium text-gray-900 underline">
+              Action plan
+            </a>
+            <a href={actionPlanUrl('text', true)} className="text-gray-500 underline">
+              Download .txt
+            </a>
+            <a
+              href={`/api/fhir?profileId=${encodeURIComponent(selectedProfileId ?? '')}&download=1`}
+              className="text-gray-500 underline"
+            >
+              FHIR
+            </a>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mt-0.5">
+          Printed on the allergy action plan you can give to a school or caregiver.
+        </p>
+        {(profile?.emergency_contacts ?? []).length === 0 ? (
+          <p className="mt-3 text-sm text-gray-400">No contacts yet.</p>
+        ) : (
+          <ul className="mt-3 flex flex-col gap-2">
+            {(profile?.emergency_contacts ?? []).map((c, i) => (
+              <li key={`${c.name}-${i}`} className="flex items-center justify-between text-sm text-gray-900">
+                <span>
+                  {c.name}
+                  {c.relationship ? <span className="text-gray-500"> ({c.relationship})</span> : null}
+                  <span className="text-gray-500"> · {c.phone}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveContact(i)}
+                  disabled={saving}
+                  className="text-gray-400 hover:text-gray-700"
+                  aria-label={`Remove ${c.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            value={contact.name}
+            onChange={(e) => setContact({ ...contact, name: e.target.value })}
+            placeholder="Name"
+            aria-label="Contact name"
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+          />
+          <input
+            value={contact.phone}
+            onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+            placeholder="Phone"
+            type="tel"
+            aria-label="Contact phone"
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+          />
+          <input
+            value={contact.relationship ?? ''}
+            onChange={(e) => setContact({ ...contact, relationship: e.target.value })}
+            placeholder="Relationship (optional)"
+            aria-label="Contact relationship"
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleAddContact}
+          disabled={saving || !contact.name.trim() || !contact.phone.trim()}
+          className="mt-3 rounded-2xl bg-gray-900 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400"
+        >
+          Add contact
+        </button>
+      </div>
     </div>
   );
 }
@@ -2,16 +2,68 @@ import { useEffect, useState, useCallback } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useProfileContext } from '../context/ProfileContext';
 import { PhotoCapture } from '../components/ui/PhotoCapture';
+import { Badge } from '@/components/ui/Badge';
+import { MenuRatings, type MenuAnalysis } from '@/components/shared/MenuRatings';
+import {
+  BatchVerdictTable,
+  type BatchEvaluation,
+  type BatchKind,
+} from '@/components/shared/BatchVerdictTable';
 
 /**
  * Phase 9C – Ask Page (wired to real POST /api/extract)
  * Phase 17 – Photo/camera input for label scanning
+ * Phase 30 – "Check for everyone" runs one household compare (not persisted)
+ *            and shows the per-profile matrix on the Result page.
+ * Phase 31 – "Just checking" runs a dry-run check (not persisted) and shows
+ *            the verdict and advice inline.
+ * Phase 43 – "Restaurant menu" / "Recipe" input modes rate each dish inline
+ *            (not persisted) with "ask the server" questions.
+ * Phase 44 – "List / receipt" mode sends one item per line to
+ *            POST /api/check/batch and shows the ranked verdict table; saved
+ *            as one grouped check unless "Just checking".
  *
  * On submit, calls POST /api/extract → server persists to Supabase →
  * then fetches the newest check via GET /api/history?limit=1 and
  * navigates to the Check Detail page.
  */
 
+/** Phase 31: subset of the dry-run response rendered inline. */
+interface DryRunResponse {
+  verdict: { riskLevel: 'none' | 'medium' | 'high'; reasoning: string };
+  report: {
+    output: {
+      advice?: { items: { id: string; title: string; immediateActions: string[] }[] };
+    };
+  };
+}
+
+function DryRunResult({ dryRun }: { dryRun: DryRunResponse }) {
+  const { riskLevel, reasoning } = dryRun.verdict;
+  const advice = dryRun.report.output.advice?.items ?? [];
+  return (
+    <div className="mt-6 rounded-xl border border-gray-200 bg-white p-4" data-testid="dry-run-result">
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant={riskLevel === 'high' ? 'high' : riskLevel === 'medium' ? 'medium' : 'safe'}>
+          {riskLevel === 'high' ? 'HIGH RISK' : riskLevel === 'medium' ? 'CAUTION' : 'SAFE'}
+        </Badge>
+        <span className="text-xs text-gray-400">Just checking — not saved</span>
+      </div>
+      <p className="mt-2 text-sm text-gray-700">{reasoning}</p>
+      {advice.map((a) => (
+        <div key={a.id} className="mt-3">
+          <p className="text-xs font-semibold text-gray-700">{a.title}</p>
+          <ul className="mt-1 list-disc list-inside text-sm text-gray-700 space-y-1">
+            {a.immediateActions.map((action, i) => (
+              <li key={i}>{action}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function AskPage() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -25,6 +77,16 @@ export default function AskPage() {
   const [imageType, setImageType] = useState<string>('image/jpeg');
   const [previewDataUrl, setPreviewDataUrl] = useState<string | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
+  const [checkHousehold, setCheckHousehold] = useState(false);
+  const [justChecking, setJustChecking] = useState(false);
+  const [dryRunResult, setDryRunResult] = useState<DryRunResponse | null>(null);
+  const [inputMode, setInputMode] = useState<'check' | 'menu' | 'recipe' | 'batch'>('check');
+  const [menuResult, setMenuResult] = useState<MenuAnalysis | null>(null);
+  const [batchKind, setBatchKind] = useState<BatchKind>('list');
+  const [batchResult, setBatchResult] = useState<BatchEvaluation | null>(null);
+  const isMenuMode = inputMode === 'menu' || inputMode === 'recipe';
+  const isBatchMode = inputMode === 'batch';
+  const canCheckHousehold = profiles.length > 1;
 
   // Phase 4: Prefill from history (one-time)
   useEffect(() => {
@@ -83,8 +145,38 @@ export default function AskPage() {
     setError(null);
 
     try {
+      // ── Phase 44: batch → ranked per-item table inline
+      if (isBatchMode) {
+        setBatchResult(null);
+        const batchRes = await fetch('/api/check/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            kind: batchKind,
+            text: text.trim(),
+            persist: !justChecking,
+            ...(selectedProfileId ? { profile_id: selectedProfileId } : {}),
+          }),
+        });
+        const json = await batchRes.json().catch(() => null);
+        if (!batchRes.ok) {
+          throw new Error(json?.error ?? `Batch check failed (HTTP ${batchRes.status})`);
+        }
+        setBatchResult(json?.batch ?? null);
+        return;
+      }
+
       // ── Call real extraction endpoint (Phase 7+ persistence happens server-side)
-      const extractBody: { rawText: string; fromImage?: boolean; image?: string; imageType?: string; profile_id?: string } = {
+      const extractBody: {
+        rawText: string;
+        fromImage?: boolean;
+        image?: string;
+        imageType?: string;
+        profile_id?: string;
+        household?: boolean;
+        dryRun?: boolean;
+        mode?: 'menu' | 'recipe';
+      } = {
         rawText: text.trim(),
       };
       if (imageBase64) {
@@ -93,6 +185,12 @@ export default function AskPage() {
         extractBody.imageType = imageType;
       }
       if (selectedProfileId) extractBody.profile_id = selectedProfileId;
+      const household = !isMenuMode && canCheckHousehold && checkHousehold;
+      if (isMenuMode) extractBody.mode = inputMode;
+      else if (household) extractBody.household = true;
+      else if (justChecking) extractBody.dryRun = true;
+      setDryRunResult(null);
+      setMenuResult(null);
       const extractRes = await fetch('/api/extract', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -104,6 +202,28 @@ export default function AskPage() {
         throw new Error(body?.error ?? `Extraction failed (HTTP ${extractRes.status})`);
       }
 
+      // ── Phase 43: menu / recipe → dish ratings inline (nothing persisted)
+      if (extractBody.mode) {
+        const json = await extractRes.json();
+        setMenuResult(json.menu ?? null);
+        return;
+      }
+
+      // ── Phase 30: household compare → Result page matrix (nothing persisted)
+      if (household) {
+        const json = await extractRes.json();
+        setImageBase64(null);
+        setPreviewDataUrl(null);
+        navigate('/result', { state: { household: json.household, rawText: text.trim() } });
+        return;
+      }
+
+      // ── Phase 31: dry run → show verdict inline (nothing persisted)
+      if (extractBody.dryRun) {
+        setDryRunResult(await extractRes.json());
+        return;
+      }
+
       // ── Navigate to the newest check detail page
       // The extraction was persisted server-side; fetch the latest check id.
       setImageBase64(null);
@@ -143,15 +263,74 @@ export default function AskPage() {
         Before you take or eat something, check for potential interactions.
       </p>
 
-      <div className="mt-6">
+      <div className="mt-4 flex gap-2" role="group" aria-label="Input mode">
+        {([
+          ['check', 'Food or medicine'],
+          ['menu', 'Restaurant menu'],
+          ['recipe', 'Recipe'],
+          ['batch', 'List / receipt'],
+        ] as const).map(([mode, label]) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => setInputMode(mode)}
+            aria-pressed={inputMode === mode}
+            className={`rounded-full px-3 py-1 text-xs font-medium ${
+              inputMode === mode ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+            data-testid={`input-mode-${mode}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {isBatchMode && (
+        <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+          List type
+          <select
+            value={batchKind}
+            onChange={(e) => setBatchKind(e.target.value as BatchKind)}
+            className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+            data-testid="batch-kind"
+          >
+            {([
+              ['list', 'List'],
+              ['receipt', 'Grocery receipt'],
+              ['meal_plan', 'Meal plan'],
+              ['menu', 'Menu'],
+            ] as const).map(([kind, label]) => (
+              <option key={kind} value={kind}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="mt-4">
         <label className="block text-xs font-medium text-gray-400 mb-1">
-          What are you about to take or eat?
+          {inputMode === 'menu'
+            ? 'Paste the menu (one dish per line)'
+            : inputMode === 'recipe'
+              ? 'Paste the recipe (title, then ingredients)'
+              : isBatchMode
+                ? 'One item per line'
+                : 'What are you about to take or eat?'}
         </label>
         <textarea
           value={text}
           onChange={(e) => setText(e.target.value)}
-          placeholder="e.g. magnesium with metformin"
-          rows={3}
+          placeholder={
+            inputMode === 'menu'
+              ? 'e.g. Pad Thai – rice noodles, tamarind $14'
+              : inputMode === 'recipe'
+                ? 'e.g. Pesto pasta\n200g spaghetti\n2 cups basil'
+                : isBatchMode
+                  ? 'e.g. Monday: peanut butter toast\nTuesday: chicken curry'
+                  : 'e.g. magnesium with metformin'
+          }
+          rows={isMenuMode || isBatchMode ? 8 : 3}
           className="w-full rounded-xl border border-gray-200 px-4 py-3 text-base text-gray-900 placeholder:text-gray-400 focus:border-gray-400 focus:outline-none"
         />
         <div className="mt-3">
@@ -165,6 +344,32 @@ export default function AskPage() {
         </div>
       </div>
 
+      <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={justChecking}
+          onChange={(e) => setJustChecking(e.target.checked)}
+          disabled={isMenuMode || (!isBatchMode && canCheckHousehold && checkHousehold)}
+          className="h-4 w-4 rounded border-gray-300"
+          data-testid="just-checking"
+        />
+        Just checking (don&apos;t save to history)
+      </label>
+
+      {canCheckHousehold && (
+        <label className="mt-4 flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={checkHousehold}
+            onChange={(e) => setCheckHousehold(e.target.checked)}
+            disabled={isMenuMode || isBatchMode}
+            className="h-4 w-4 rounded border-gray-300"
+            data-testid="check-household"
+          />
+          Check for everyone ({profiles.length} profiles)
+        </label>
+      )}
+
       {error && (
         <div className="mt-4 rounded-xl border border-red-100 bg-red-50 px-4 py-3 text-sm text-red-800">
           {error}
@@ -187,6 +392,20 @@ export default function AskPage() {
         </button>
       </div>
 
+      {dryRunResult && <DryRunResult dryRun={dryRunResult} />}
+
+      {menuResult && (
+        <div className="mt-6">
+          <MenuRatings menu={menuResult} />
+        </div>
+      )}
+
+      {batchResult && (
+        <div className="mt-6">
+          <BatchVerdictTable kind={batchResult.kind} items={batchResult.items} checkId={batchResult.checkId ?? null} />
+        </div>
+      )}
+
       <div className="mt-4 text-sm text-gray-500">
         Examples:
         <ul className="list-disc list-inside mt-1">
@@ -13,6 +13,7 @@
  *     follow_up_questions: string[];
  *     verdict: { riskLevel: "none"|"medium"|"high"; reasoning: string; matched?: RuleMatch[] };
  *     created_at: string;
+ *     batch?: { kind; items: [{ index, text, label?, riskLevel, severity }] } | null;  // Phase 44
  *   },
  *   events: Array<{
  *     id: string;
@@ -21,8 +22,13 @@
  *     confidence_score: number;
  *     check_id: string;
  *     created_at: string;
- *   }>
+ *   }>,
+ *   reactions: ReactionReport[]   // Phase 35: reports linked to this check
  * }
+ *
+ * Phase 35: "I had a reaction" opens ReactionReportModal; saved reports are
+ * listed under "Reactions after this check". A reaction's own check links
+ * back to the check it followed.
  */
 
 import { useEffect, useState, useMemo, useCallback } from "react";
@@ -35,8 +41,16 @@ import {
 } from "@/lib/buildExplanation.js";
 import { AddToProfileButton } from "@/components/ui/AddToProfileButton.js";
 import { Badge } from "@/components/ui/Badge.js";
+import {
+  BatchVerdictTable,
+  type BatchKind,
+  type BatchVerdictRow,
+} from "@/components/shared/BatchVerdictTable.js";
 import { shareOrDownloadReport } from "@/lib/shareOrDownloadReport.js";
 import { useToast } from "@/lib/toast.js";
+import ReactionReportModal, {
+  type ReactionReport,
+} from "@/components/layout/ReactionReportModal.js";
 
 // ── Trajectory insight type (for "Pattern detected" badge) ──────────
 
@@ -81,6 +95,8 @@ interface Check {
   follow_up_questions: string[];
   verdict: Verdict;
   created_at: string;
+  /** Phase 44: per-item table for a grouped batch check */
+  batch?: { kind: BatchKind; items: BatchVerdictRow[] } | null;
 }
 
 interface HealthEventRow {
@@ -93,11 +109,14 @@ interface HealthEventRow {
   confidence_score: number;
   provenance: Record<string, unknown>;
   created_at: string;
+  /** Phase 35: reaction report → the check it followed */
+  linked_check_id?: string | null;
 }
 
 interface CheckDetailResponse {
   check: Check;
   events: HealthEventRow[];
+  reactions?: ReactionReport[];
 }
 
 // ── Phase 10H awareness-surface guardrail; taxonomy logic deferred. ──
@@ -188,14 +207,14 @@ function formatDate(iso: string): string {
 function isHighlighted(event: HealthEventRow, matched: RuleMatch[]): boolean {
   for (const m of matched) {
     if (
-      m.rule === "allergy_match" &&
+      (m.rule === "allergy_match" || m.rule === "precautionary_allergen") &&
       event.event_type === "meal" &&
       m.details.meal === event.event_data.meal
     ) {
       return true;
     }
     if (
-      m.rule === "medication_interaction" &&
+      (m.rule === "medication_interaction" || m.rule === "functional_class_interaction") &&
       event.event_type === "medication" &&
       (m.details.extracted === event.event_data.medication ||
         m.details.conflictsWith === event.event_data.medication)
@@ -297,6 +316,8 @@ function ruleTypeBadge(rt: ExplanationRuleType): { label: string; className: str
       return { label: "Direct Match", className: "bg-red-100 text-red-700" };
     case "crossReactive":
       return { label: "Cross-Reactive", className: "bg-amber-100 text-amber-700" };
+    case "precautionary":
+      return { label: "May Contain", className: "bg-yellow-100 text-yellow-800" };
     case "interaction":
       return { label: "Interaction", className: "bg-blue-100 text-blue-700" };
   }
@@ -360,6 +381,16 @@ function VerdictTrustLayer({
                   <p className="text-sm text-gray-900 font-medium">
                     {entry.summary}
                   </p>
+                  {entry.labelLine && (
+                    <p className="text-xs text-gray-600 italic">
+                      Label: “{entry.labelLine}”
+                    </p>
+                  )}
+                  {entry.viaIngredients?.map((via) => (
+                    <p key={via} className="text-xs text-gray-600">
+                      {via.charAt(0).toUpperCase() + via.slice(1)}
+                    </p>
+                  ))}
 
                   {/* Section 2 — Rule Type + Rule Code + Parent Category */}
                   <div className="flex items-center gap-2 flex-wrap">
@@ -602,6 +633,64 @@ function FollowUpQuestions({ questions }: { questions: string[] }) {
   );
 }
 
+// ── Phase 35: Reactions after this check ────────────────────────────
+
+const TREATMENT_LABELS: Record<string, string> = {
+  antihistamine: "antihistamine",
+  epinephrine: "epinephrine",
+  er_visit: "ER visit",
+};
+
+function formatOnset(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function ReactionsList({
+  reactions,
+  onReport,
+}: {
+  reactions: ReactionReport[];
+  onReport: (() => void) | null;
+}) {
+  return (
+    <div className="rounded-xl border border-gray-100 bg-white px-4 py-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-base font-medium text-gray-900">Reactions after this check</h2>
+        {onReport && (
+          <button
+            type="button"
+            onClick={onReport}
+            className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-xs font-medium text-rose-700 hover:bg-rose-100 transition-colors"
+          >
+            I had a reaction
+          </button>
+        )}
+      </div>
+      {reactions.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500">None reported.</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {reactions.map((r) => (
+            <li key={r.id} className="text-sm text-gray-700">
+              <Link to={`/history/${r.checkId}`} className="font-medium text-gray-900 hover:underline">
+                {r.symptom.charAt(0).toUpperCase() + r.symptom.slice(1)}
+              </Link>
+              <span className="ml-1 text-gray-500">
+                · {r.severity} · after {formatOnset(r.onsetMinutes)}
+                {r.treatments.length > 0 &&
+                  ` · ${r.treatments.map((t) => TREATMENT_LABELS[t] ?? t).join(", ")}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // ── Allergen Alert Banner ────────────────────────────────────────────
 // Phase 10H awareness-surface guardrail; taxonomy logic deferred.
 
@@ -658,6 +747,19 @@ export default function HistoryCheckDetailPage() {
   // Share/download report (Web Share API on iOS, blob download on desktop)
   const [shareDownloadLoading, setShareDownloadLoading] = useState(false);
 
+  // Phase 35: reaction report modal
+  const [reactionOpen, setReactionOpen] = useState(false);
+
+  const handleReactionSaved = useCallback(
+    (reaction: ReactionReport) => {
+      setData((prev) =>
+        prev ? { ...prev, reactions: [reaction, ...(prev.reactions ?? [])] } : prev
+      );
+      showToast("Reaction saved", "success");
+    },
+    [showToast]
+  );
+
   useEffect(() => {
     if (!id) {
       setError("No check id provided.");
@@ -783,6 +885,8 @@ export default function HistoryCheckDetailPage() {
   const { check, events } = data;
   const verdict = check.verdict as Verdict | null | undefined;
   const matched = verdict?.matched ?? [];
+  // Phase 35: this check is itself a reaction report
+  const reactionTo = events.find((ev) => ev.linked_check_id)?.linked_check_id ?? null;
 
   // ── Success state ──────────────────────────────────────────────
   // Phase 18.3.1/18.4: flex-1 min-h-0 fills AppShell main; sticky footer, no-bounce
@@ -804,6 +908,14 @@ export default function HistoryCheckDetailPage() {
         <p className="text-sm text-gray-500 mt-0.5">
             {formatDate(check.created_at)}
           </p>
+          {reactionTo && (
+            <Link
+              to={`/history/${reactionTo}`}
+              className="mt-1 inline-block text-sm font-medium text-rose-700 hover:underline"
+            >
+              Reaction to an earlier check
+            </Link>
+          )}
         </div>
 
         {/* Phase 10B: Pattern detected badge */}
@@ -836,12 +948,25 @@ export default function HistoryCheckDetailPage() {
           <AllergySuggestions matched={verdict.matched} checkId={check.id} />
         )}
 
+        {/* Phase 44: batch check → per-item table */}
+        {check.batch && check.batch.items.length > 0 && (
+          <BatchVerdictTable kind={check.batch.kind} items={check.batch.items} />
+        )}
+
         {/* Phase 10H: allergen taxonomy awareness note */}
         <AllergenAlertBanner alerts={allergenAlerts} />
 
       {/* C) Events List */}
       <EventsList events={events} matched={matched} checkId={check.id} />
 
+        {/* Phase 35: reactions linked to this check */}
+        {!reactionTo && (
+          <ReactionsList
+            reactions={data.reactions ?? []}
+            onReport={selectedProfileId ? () => setReactionOpen(true) : null}
+          />
+        )}
+
         {/* D) Raw Input (collapsible) */}
         <RawInput text={check.raw_text} />
 
@@ -874,6 +999,16 @@ export default function HistoryCheckDetailPage() {
           {shareDownloadLoading ? "Preparing…" : "Download report"}
         </button>
       </div>
+
+      {selectedProfileId && (
+        <ReactionReportModal
+          open={reactionOpen}
+          onOpenChange={setReactionOpen}
+          profileId={selectedProfileId}
+          checkId={check.id}
+          onSaved={handleReactionSaved}
+        />
+      )}
     </div>
   );
 }
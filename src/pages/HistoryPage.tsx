@@ -1,11 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useProfileContext } from '../context/ProfileContext';
 import { Badge } from '../components/ui/Badge';
+import { shareOrDownloadReport } from '../lib/shareOrDownloadReport';
+import { RetroCheckNotices, type VerdictRevision } from '../components/shared/RetroCheckNotices';
 
 /**
  * Phase 9C – History List (wired to Supabase via GET /api/history)
  * Phase 20 – Urgent design system: card layout, typography
+ * Phase 39 – Period report export (GET /api/report/period/download) for allergist visits
+ * Phase 45 – Retro-check notices: past safe checks now flagged after a knowledge
+ *            update (GET /api/retro-check?pending=1, dismissed via /api/retro-check/ack)
  */
 
 interface CheckSummary {
@@ -35,11 +40,20 @@ function riskLabel(level: string): string {
   return level === 'high' ? 'High Risk' : level === 'medium' ? 'Caution' : 'Safe';
 }
 
+function isoDay(offsetDays = 0): string {
+  return new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
 export default function HistoryPage() {
   const { selectedProfileId } = useProfileContext();
   const [checks, setChecks] = useState<CheckSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [periodFrom, setPeriodFrom] = useState(() => isoDay(-30));
+  const [periodTo, setPeriodTo] = useState(() => isoDay());
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<VerdictRevision[]>([]);
 
   useEffect(() => {
     if (!selectedProfileId) return;
@@ -65,6 +79,55 @@ export default function HistoryPage() {
     return () => { cancelled = true; };
   }, [selectedProfileId]);
 
+  // Phase 45: pending retro-check notices (best-effort; history still loads without them)
+  useEffect(() => {
+    if (!selectedProfileId) return;
+    let cancelled = false;
+
+    fetch(`/api/retro-check?profileId=${encodeURIComponent(selectedProfileId)}&pending=1`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => {
+        if (!cancelled) setRevisions(json?.revisions ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setRevisions([]);
+      });
+
+    return () => { cancelled = true; };
+  }, [selectedProfileId]);
+
+  const handleDismissRevision = useCallback(
+    (revisionId: string) => {
+      if (!selectedProfileId) return;
+      setRevisions((prev) => prev.filter((r) => r.id !== revisionId));
+      fetch('/api/retro-check/ack', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileId: selectedProfileId, revisionId }),
+      }).catch(() => {});
+    },
+    [selectedProfileId]
+  );
+
+  const handleExportPeriod = useCallback(async () => {
+    if (!selectedProfileId) return;
+    setExporting(true);
+    setExportError(null);
+    try {
+      await shareOrDownloadReport({
+        period: { from: periodFrom, to: periodTo },
+        profileId: selectedProfileId,
+        includeRawText: false,
+      });
+    } catch (err: unknown) {
+      // User cancelled share sheet — don't show error
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setExportError(err instanceof Error ? err.message : 'Failed to export report');
+    } finally {
+      setExporting(false);
+    }
+  }, [selectedProfileId, periodFrom, periodTo]);
+
   return (
     <div className="px-4 py-6 max-w-xl mx-auto">
       <div className="mb-6">
@@ -72,6 +135,45 @@ export default function HistoryPage() {
         <p className="text-sm text-gray-500 mt-0.5">Your recent checks.</p>
       </div>
 
+      {selectedProfileId && <RetroCheckNotices revisions={revisions} onDismiss={handleDismissRevision} />}
+
+      {selectedProfileId && (
+        <div className="mb-6 aa-soft-card p-4">
+          <p className="text-sm font-semibold text-gray-900">Period report</p>
+          <p className="text-sm text-gray-500 mt-0.5">
+            All checks, reactions and patterns for a date range — useful before an allergist visit.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              aria-label="Report start date"
+              value={periodFrom}
+              max={periodTo}
+              onChange={(e) => setPeriodFrom(e.target.value)}
+              className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+            />
+            <span className="text-sm text-gray-400">to</span>
+            <input
+              type="date"
+              aria-label="Report end date"
+              value={periodTo}
+              min={periodFrom}
+              onChange={(e) => setPeriodTo(e.target.value)}
+              className="rounded-xl border border-gray-200 px-3 py-2 text-sm text-gray-900 focus:border-gray-400 focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={handleExportPeriod}
+              disabled={exporting || !periodFrom || !periodTo}
+              className="rounded-2xl bg-gray-900 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400"
+            >
+              {exporting ? 'Preparing…' : 'Share / Download'}
+            </button>
+          </div>
+          {exportError && <p className="mt-2 text-sm text-red-700">{exportError}</p>}
+        </div>
+      )}
+
       {!selectedProfileId ? (
         <p className="text-sm text-gray-500">Select a profile to view history.</p>
       ) : loading ? (
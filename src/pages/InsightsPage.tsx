@@ -10,6 +10,9 @@
  * Phase 10E: trigger_symptom insights show { exposures, hits, lift }.
  * Phase 10F: each insight shows Relevant / Not relevant / Unsure vote
  *            buttons with optimistic UI updates.
+ * Phase 34: intake_stacking insights (cross-check intake ledger) show their
+ *           items and, when known, the daily total vs limit.
+ * Phase 35: insights confirmed by a reaction report show a "Confirmed" badge.
  *
  * Highlight awareness: reads ?highlightCheckId=... from the URL and
  * visually emphasizes any insight whose supportingEvents includes that
@@ -28,6 +31,8 @@ interface InsightEvidence {
   exposures: number;
   hits: number;
   lift: number;
+  /** Phase 35: hits confirmed by a reaction report */
+  confirmedHits?: number;
 }
 
 type VoteValue = "relevant" | "not_relevant" | "unsure";
@@ -43,6 +48,8 @@ interface FeedInsight {
   proximityBucket?: string;
   hoursDelta?: number;
   whyIncluded: string[];
+  /** Phase 35: link confirmed by a reaction report. */
+  confirmed?: boolean;
   /** Phase 10E: exposure/hit/lift stats (trigger_symptom only). */
   evidence?: InsightEvidence;
   /** Phase 10F: stable fingerprint for feedback. */
@@ -57,6 +64,11 @@ interface FeedInsight {
     severity?: number;
     taxonomyVersion?: string;
     crossReactiveLabel?: string;
+    /** Phase 34: intake ledger details */
+    intakeKind?: string;
+    totalDose?: string;
+    dailyLimit?: string;
+    exceedsDailyLimit?: boolean;
   };
 }
 
@@ -120,6 +132,8 @@ function insightTypeBadge(type: string): { label: string; className: string } {
       return { label: "Repeated", className: "bg-purple-100 text-purple-700" };
     case "functional_stacking":
       return { label: "Stack", className: "bg-rose-100 text-rose-700" };
+    case "intake_stacking":
+      return { label: "Intake", className: "bg-orange-100 text-orange-700" };
     default:
       return { label: type, className: "bg-gray-100 text-gray-700" };
   }
@@ -162,10 +176,20 @@ function InsightRow({
     >
       {/* Top row: badge + score */}
       <div className="flex items-center justify-between gap-2">
-        <span
-          className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}
-        >
-          {badge.label}
+        <span className="flex items-center gap-1.5">
+          <span
+            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}
+          >
+            {badge.label}
+          </span>
+          {insight.confirmed && (
+            <span
+              className="inline-flex items-center rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700"
+              title="Linked by a reaction report, not inferred from timing"
+            >
+              Confirmed
+            </span>
+          )}
         </span>
         <span className="text-xs tabular-nums text-gray-400">
           {insight.score}
@@ -203,8 +227,8 @@ function InsightRow({
         </div>
       )}
 
-      {/* Phase 10G: matched items for functional_stacking */}
-      {insight.type === "functional_stacking" && insight.meta?.items && (
+      {/* Phase 10G: matched items for functional_stacking; Phase 34: intake_stacking */}
+      {(insight.type === "functional_stacking" || insight.type === "intake_stacking") && insight.meta?.items && (
         <div className="mt-2 flex flex-wrap items-center gap-1.5">
           {insight.meta.items.map((item, idx) => (
             <span
@@ -217,6 +241,13 @@ function InsightRow({
         </div>
       )}
 
+      {/* Phase 34: daily total vs limit for duplicate ingredients */}
+      {insight.type === "intake_stacking" && insight.meta?.totalDose && insight.meta?.dailyLimit && (
+        <p className={`mt-2 text-xs ${insight.meta.exceedsDailyLimit ? "font-semibold text-red-700" : "text-gray-500"}`}>
+          {insight.meta.totalDose} in 24h (limit {insight.meta.dailyLimit})
+        </p>
+      )}
+
       {/* Phase 10K: Why? expandable evidence */}
       <div className="mt-3">
         <WhyDisclosure
@@ -2,12 +2,14 @@
  * Phase 16 – Manage Profiles page
  *
  * List, add, edit, delete profiles. Set primary.
+ * Phase 30: compare a product across every profile (household matrix).
  */
 
 import { useState, useCallback } from "react";
 import { Link } from "react-router-dom";
 import { useProfileContext } from "../context/ProfileContext";
 import type { Profile } from "../context/ProfileContext";
+import { HouseholdMatrix, type HouseholdComparison } from "@/components/shared/HouseholdMatrix";
 
 export default function ManageProfilesPage() {
   const { profiles, selectedProfileId, setSelectedProfileId, refetch } = useProfileContext();
@@ -105,6 +107,35 @@ export default function ManageProfilesPage() {
     [saving, profiles, selectedProfileId, refetch, setSelectedProfileId]
   );
 
+  // ── Phase 30: household compare ──────────────────────────────────
+  const [compareText, setCompareText] = useState("");
+  const [comparing, setComparing] = useState(false);
+  const [household, setHousehold] = useState<HouseholdComparison | null>(null);
+
+  const handleCompare = useCallback(async () => {
+    const rawText = compareText.trim();
+    if (!rawText || comparing) return;
+    setComparing(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/extract", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rawText, household: true }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error ?? `HTTP ${res.status}`);
+      }
+      const json = await res.json();
+      setHousehold(json.household ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare");
+    } finally {
+      setComparing(false);
+    }
+  }, [compareText, comparing]);
+
   const startEdit = (p: Profile) => {
     setEditingId(p.id);
     setEditName(p.display_name);
@@ -249,6 +280,37 @@ export default function ManageProfilesPage() {
           </li>
         ))}
       </ul>
+
+      {/* Phase 30: Household compare */}
+      <div className="mt-6 aa-soft-card p-6">
+        <h2 className="text-base font-semibold text-gray-900">Check a product for everyone</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Runs one check against all {profiles.length} profiles. Not saved to history.
+        </p>
+        <div className="mt-4 flex flex-col sm:flex-row gap-4">
+          <input
+            value={compareText}
+            onChange={(e) => setCompareText(e.target.value)}
+            placeholder="e.g. Ingredients: oats, milk. May contain peanuts."
+            className="flex-1 rounded-2xl border border-gray-200 px-4 py-3 text-sm"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCompare();
+            }}
+          />
+          <button
+            onClick={handleCompare}
+            disabled={!compareText.trim() || comparing}
+            className="rounded-2xl px-4 py-3 text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {comparing ? "Checking…" : "Compare"}
+          </button>
+        </div>
+        {household && (
+          <div className="mt-6">
+            <HouseholdMatrix household={household} />
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 
+import { HouseholdMatrix, type HouseholdComparison } from '@/components/shared/HouseholdMatrix';
 import { addProfileItem, loadProfile } from '@/lib/profileStore';
 import type { HistoryRecord } from '@/types/history';
 import type { CheckResult, ProfileItemType } from '@/types/spec';
@@ -84,10 +85,47 @@ export default function ResultPage() {
   const navigate = useNavigate();
 
   // Single cast (clean + avoids multiple casts)
-  const navState = (location.state ?? {}) as { result?: CheckResult; historyRecord?: HistoryRecord };
+  const navState = (location.state ?? {}) as {
+    result?: CheckResult;
+    historyRecord?: HistoryRecord;
+    household?: HouseholdComparison;
+    rawText?: string;
+  };
   const result = navState.result;
   const historyRecord = navState.historyRecord;
 
+  // ===== Phase 30: household compare (one check, every profile) =====
+  if (navState.household) {
+    return (
+      <div className="px-4 py-6 max-w-xl mx-auto">
+        <h1 className="text-xl font-bold text-gray-900">Household check</h1>
+        {navState.rawText && (
+          <p className="text-sm font-normal text-gray-600 mt-1 line-clamp-2">{navState.rawText}</p>
+        )}
+        <div className="mt-6">
+          <HouseholdMatrix household={navState.household} />
+        </div>
+        <div className="mt-8 text-xs text-gray-500 border-t pt-4">
+          Not saved to history. This is probabilistic guidance based on each profile. Not medical advice.
+        </div>
+        <div className="mt-6 flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={() => navigate('/ask')}
+            className="min-h-[44px] w-full sm:w-auto rounded-2xl px-4 py-3 text-sm font-semibold bg-emerald-600 text-white hover:bg-emerald-700"
+          >
+            New check
+          </button>
+          <button
+            onClick={() => navigate('/manage-profiles')}
+            className="min-h-[44px] w-full sm:w-auto rounded-2xl px-4 py-3 text-sm font-semibold border border-slate-200 text-gray-900 hover:bg-slate-50 bg-transparent"
+          >
+            Manage profiles
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!result) {
     return (
       <div className="p-6 max-w-xl mx-auto">